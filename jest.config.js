@@ -34,7 +34,6 @@ module.exports = {
     '!src/services/UpdateService.ts', // Auto-updater (external dependency)
     '!src/services/GitService.ts', // Git operations (filesystem heavy)
     '!src/services/monitoring.ts', // Monitoring (external services)
-    '!src/services/QueryManager.ts', // TRD/architecture work - tests will be added later
     '!src/entities/TokenCounts.ts', // Simple data structure
     '!src/entities/LoadedUsageEntry.ts', // Complex data structure with minimal logic
 
@@ -81,7 +80,6 @@ module.exports = {
     'tests/integration/terminal-memory\\.test\\.ts', // Vitest test - run separately
     'tests/integration/terminal-persistence\\.test\\.ts', // Integration test with issues
     'tests/unit/main/ipc/handlers/project\\.handlers\\.test\\.ts', // TODO: Fix electron mock setup
-    'tests/unit/services/QueryManager\\.test\\.ts', // TRD/architecture work - tests will be fixed later
   ],
   transformIgnorePatterns: [
     'node_modules/(?!(react-markdown|remark-.*|micromark.*|unist-.*|unified|bail|is-plain-obj|trough|vfile|vfile-message|mdast-util-.*|ccount|escape-string-regexp|markdown-table|zwitch|longest-streak|hast-.*|property-information|space-separated-tokens|comma-separated-tokens|pretty-bytes|character-entities.*|decode-named-character-reference|parse-entities|stringify-entities|character-reference-invalid|is-decimal|is-hexadecimal|is-alphanumerical|is-alphabetical|trim-lines|estree-util-.*|periscopic|is-reference|html-void-elements|uuid|@anthropic-ai|zustand)/)',
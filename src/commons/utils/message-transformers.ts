@@ -24,6 +24,7 @@
  */
 
 import log from 'electron-log';
+import { calculateCost } from '@/monitoring/utils/costCalculator';
 import { isSyntheticMessage } from './message-filters';
 
 /**
@@ -166,41 +167,14 @@ export function mapTokenUsage(usage: SDKUsage): TokenUsage {
 }
 
 /**
- * Model pricing for token cost calculation
- * Cost per million tokens (input/output)
- */
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'claude-3-5-sonnet-20241022': { input: 3.0, output: 15.0 },
-  'claude-3-5-sonnet-20240620': { input: 3.0, output: 15.0 },
-  'claude-3-opus-20240229': { input: 15.0, output: 75.0 },
-  'claude-3-sonnet-20240229': { input: 3.0, output: 15.0 },
-  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-  'claude-3-5-haiku-20241022': { input: 1.0, output: 5.0 },
-  'claude-opus-4-20250514': { input: 15.0, output: 75.0 },
-  'claude-opus-4-1-20250805': { input: 15.0, output: 75.0 },
-  'claude-opus-4-5-20251101': { input: 5.0, output: 25.0 },
-  'claude-sonnet-4-20250514': { input: 3.0, output: 15.0 },
-  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
-  'claude-haiku-4-5-20251001': { input: 1.0, output: 5.0 },
-};
-
-/**
- * Calculate token cost based on usage and model
+ * Calculate token cost based on usage and model, using the active pricing table
  *
  * @param usage - Token usage object
  * @param model - Model identifier
  * @returns Total cost in USD (rounded to 6 decimal places)
  */
 export function calculateTokenCost(usage: TokenUsage, model: string): number {
-  const pricing = MODEL_PRICING[model] || { input: 15.0, output: 75.0 };
-
-  const inputCost = (usage.inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (usage.outputTokens / 1_000_000) * pricing.output;
-  const cacheCreationCost = ((usage.cacheCreationInputTokens || 0) / 1_000_000) * pricing.input;
-  const cacheReadCost = ((usage.cacheReadInputTokens || 0) / 1_000_000) * pricing.input;
-
-  const totalCost = inputCost + outputCost + cacheCreationCost + cacheReadCost;
-  return Math.round(totalCost * 1_000_000) / 1_000_000;
+  return calculateCost(usage, model);
 }
 
 /**
@@ -6,6 +6,8 @@
  * - Hybrid TTL + LRU pruning strategy
  * - WAL mode for concurrent reads/writes
  * - Automatic pruning on startup, every 100 writes, or on size overflow
+ * - Pinned entries never expire and are never evicted
+ * - Hit/miss/eviction counters persisted across processes for the cache inspector
  *
  * Usage:
  *   const cache = new PersistentFetchCache({ maxSize: 1000, ttl: 21600000 });
@@ -18,14 +20,30 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { getFetchTraceSettings } from '../../config/settings';
+import type {
+  FetchCacheEntryInfo,
+  FetchCacheEntryQuery,
+  FetchCacheSummary,
+} from '../../types/fetch-cache.types';
 
 export interface PersistentCacheOptions {
   maxSize?: number;
   ttl?: number;
   cacheDir?: string;
+  fileName?: string; // Database file in cacheDir (default: fetch-cache.db)
   persistenceEnabled?: boolean;
+  logEnabled?: boolean; // Write to the session fetch trace log (default: true)
 }
 
+export interface CacheEntryMetadata {
+  method: string;
+  url: string;
+}
+
+type PersistedStat = 'hits' | 'misses' | 'evictions';
+
+const TOP_URL_LIMIT = 10;
+
 export class PersistentFetchCache {
   private db: Database.Database;
   private readonly maxSize: number;
@@ -47,6 +65,8 @@ export class PersistentFetchCache {
   private deleteExpiredStmt!: Database.Statement;
   private countStmt!: Database.Statement;
   private evictLRUStmt!: Database.Statement;
+  private touchStmt!: Database.Statement;
+  private recordStatStmt!: Database.Statement;
 
   constructor(options: PersistentCacheOptions = {}) {
     this.maxSize = options.maxSize ?? 1000;
@@ -57,7 +77,7 @@ export class PersistentFetchCache {
     let dbPath: string;
     if (this.persistenceEnabled) {
       const cacheDir = options.cacheDir ?? path.join(os.homedir(), '.autosteer', 'cache');
-      dbPath = path.join(cacheDir, 'fetch-cache.db');
+      dbPath = path.join(cacheDir, options.fileName ?? 'fetch-cache.db');
 
       // Setup log file in sessions directory (same as fetch-tracer)
       const settings = getFetchTraceSettings();
@@ -65,7 +85,10 @@ export class PersistentFetchCache {
       const worktreeId = settings.cwd ? path.basename(settings.cwd) : 'autosteer';
       const sessionId = settings.sessionId || 'unknown';
       const timestamp = settings.timestamp || new Date().toISOString().replace(/[:.]/g, '-');
-      this.logFile = path.join(logDir, `${worktreeId}-${sessionId}-${timestamp}-fetch-trace.log`);
+      this.logFile =
+        options.logEnabled === false
+          ? ''
+          : path.join(logDir, `${worktreeId}-${sessionId}-${timestamp}-fetch-trace.log`);
 
       // Ensure cache directory exists
       if (!fs.existsSync(cacheDir)) {
@@ -126,7 +149,28 @@ export class PersistentFetchCache {
 
       CREATE INDEX IF NOT EXISTS idx_last_accessed_at
         ON cache_entries(last_accessed_at);
+
+      CREATE TABLE IF NOT EXISTS cache_stats (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL DEFAULT 0
+      );
     `);
+
+    // Columns added for the cache inspector; databases created before them are migrated
+    const columns = (this.db.prepare('PRAGMA table_info(cache_entries)').all() as any[]).map(
+      (column) => column.name
+    );
+    const added: Record<string, string> = {
+      method: 'TEXT',
+      url: 'TEXT',
+      hit_count: 'INTEGER NOT NULL DEFAULT 0',
+      pinned: 'INTEGER NOT NULL DEFAULT 0',
+    };
+    for (const [name, type] of Object.entries(added)) {
+      if (!columns.includes(name)) {
+        this.db.exec(`ALTER TABLE cache_entries ADD COLUMN ${name} ${type}`);
+      }
+    }
   }
 
   /**
@@ -134,24 +178,31 @@ export class PersistentFetchCache {
    */
   private prepareStatements(): void {
     this.getStmt = this.db.prepare(`
-      SELECT value, expires_at, last_accessed_at
+      SELECT value, expires_at, last_accessed_at, pinned
       FROM cache_entries
       WHERE key = ?
     `);
 
+    // Upsert keeps the pin and hit count of an entry that is refreshed
     this.setStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO cache_entries (key, value, expires_at, last_accessed_at)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO cache_entries (key, value, expires_at, last_accessed_at, method, url)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        value = excluded.value,
+        expires_at = excluded.expires_at,
+        last_accessed_at = excluded.last_accessed_at,
+        method = COALESCE(excluded.method, method),
+        url = COALESCE(excluded.url, url)
     `);
 
     this.hasStmt = this.db.prepare(`
       SELECT 1 FROM cache_entries
-      WHERE key = ? AND expires_at > ?
+      WHERE key = ? AND (expires_at > ? OR pinned = 1)
     `);
 
     this.deleteExpiredStmt = this.db.prepare(`
       DELETE FROM cache_entries
-      WHERE expires_at < ?
+      WHERE expires_at < ? AND pinned = 0
     `);
 
     this.countStmt = this.db.prepare(`
@@ -162,10 +213,22 @@ export class PersistentFetchCache {
       DELETE FROM cache_entries
       WHERE key IN (
         SELECT key FROM cache_entries
+        WHERE pinned = 0
         ORDER BY last_accessed_at ASC, created_at ASC
         LIMIT ?
       )
     `);
+
+    this.touchStmt = this.db.prepare(`
+      UPDATE cache_entries
+      SET last_accessed_at = ?, hit_count = hit_count + 1
+      WHERE key = ?
+    `);
+
+    this.recordStatStmt = this.db.prepare(`
+      INSERT INTO cache_stats (name, value) VALUES (?, ?)
+      ON CONFLICT(name) DO UPDATE SET value = value + excluded.value
+    `);
   }
 
   /**
@@ -177,11 +240,12 @@ export class PersistentFetchCache {
   get(key: string): any {
     try {
       const row = this.getStmt.get(key) as
-        | { value: Buffer; expires_at: number; last_accessed_at: number }
+        | { value: Buffer; expires_at: number; last_accessed_at: number; pinned: number }
         | undefined;
 
       if (!row) {
         this.stats.misses++;
+        this.recordStat('misses');
         this.logToFile('debug', '[PersistentFetchCache] SQLite GET - NOT FOUND', {
           key,
           pid: process.pid,
@@ -189,12 +253,13 @@ export class PersistentFetchCache {
         return undefined;
       }
 
-      // Check if expired
+      // Check if expired (pinned entries never expire)
       const now = Date.now();
-      if (row.expires_at < now) {
+      if (row.expires_at < now && !row.pinned) {
         // Delete expired entry
         this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(key);
         this.stats.misses++;
+        this.recordStat('misses');
         this.logToFile('debug', '[PersistentFetchCache] SQLite GET - EXPIRED', {
           key,
           expiresAt: row.expires_at,
@@ -205,9 +270,10 @@ export class PersistentFetchCache {
       }
 
       // Update access time for LRU
-      this.db.prepare('UPDATE cache_entries SET last_accessed_at = ? WHERE key = ?').run(now, key);
+      this.touchStmt.run(now, key);
 
       this.stats.hits++;
+      this.recordStat('hits');
       this.logToFile('debug', '[PersistentFetchCache] SQLite GET - HIT', {
         key,
         valueSize: row.value.length,
@@ -238,8 +304,9 @@ export class PersistentFetchCache {
    * Set value in cache
    * - Triggers pruning every 100 writes or on size overflow
    * - Handles Response object serialization
+   * @param metadata - Request the value answers, shown in the cache inspector
    */
-  async set(key: string, value: any): Promise<void> {
+  async set(key: string, value: any, metadata?: CacheEntryMetadata): Promise<void> {
     try {
       const now = Date.now();
 
@@ -262,7 +329,14 @@ export class PersistentFetchCache {
       const valueStr = JSON.stringify(serializedValue);
       const valueBuffer = Buffer.from(valueStr, 'utf-8');
 
-      const result = this.setStmt.run(key, valueBuffer, now + this.ttl, now);
+      const result = this.setStmt.run(
+        key,
+        valueBuffer,
+        now + this.ttl,
+        now,
+        metadata?.method ?? null,
+        metadata?.url ?? null
+      );
 
       // Log successful write to database
       if (this.persistenceEnabled) {
@@ -352,6 +426,7 @@ export class PersistentFetchCache {
   clear(): void {
     try {
       this.db.prepare('DELETE FROM cache_entries').run();
+      this.db.prepare('DELETE FROM cache_stats').run();
       this.stats = { hits: 0, misses: 0, evictions: 0 };
     } catch (error) {
       // Silently fail
@@ -372,6 +447,111 @@ export class PersistentFetchCache {
     };
   }
 
+  /**
+   * Entry count, size, persisted hit/miss counters and the most used URLs
+   */
+  getSummary(): FetchCacheSummary {
+    const totals = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(value)), 0) AS size,
+           COALESCE(SUM(pinned), 0) AS pinned
+         FROM cache_entries`
+      )
+      .get() as { count: number; size: number; pinned: number };
+
+    const counters = Object.fromEntries(
+      (this.db.prepare('SELECT name, value FROM cache_stats').all() as any[]).map((row) => [
+        row.name,
+        row.value,
+      ])
+    ) as Partial<Record<PersistedStat, number>>;
+    const hits = counters.hits ?? 0;
+    const misses = counters.misses ?? 0;
+
+    const topUrls = this.db
+      .prepare(
+        `SELECT url, COUNT(*) AS entries, SUM(hit_count) AS hits, SUM(LENGTH(value)) AS size
+         FROM cache_entries
+         WHERE url IS NOT NULL
+         GROUP BY url
+         ORDER BY hits DESC, entries DESC
+         LIMIT ?`
+      )
+      .all(TOP_URL_LIMIT) as FetchCacheSummary['topUrls'];
+
+    return {
+      entryCount: totals.count,
+      pinnedCount: totals.pinned,
+      totalSize: totals.size,
+      hits,
+      misses,
+      evictions: counters.evictions ?? 0,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      topUrls,
+    };
+  }
+
+  /**
+   * Entries matching a URL substring, most recently used first
+   */
+  listEntries(query: FetchCacheEntryQuery = {}): FetchCacheEntryInfo[] {
+    const rows = this.db
+      .prepare(
+        `SELECT key, method, url, LENGTH(value) AS size, created_at, last_accessed_at,
+           expires_at, hit_count, pinned
+         FROM cache_entries
+         WHERE ? = '' OR url LIKE '%' || ? || '%'
+         ORDER BY last_accessed_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(query.search ?? '', query.search ?? '', query.limit ?? 100, query.offset ?? 0) as any[];
+
+    return rows.map((row) => ({
+      key: row.key,
+      ...(row.method && { method: row.method }),
+      ...(row.url && { url: row.url }),
+      size: row.size,
+      createdAt: row.created_at,
+      lastAccessedAt: row.last_accessed_at,
+      expiresAt: row.expires_at,
+      hitCount: row.hit_count,
+      pinned: row.pinned === 1,
+    }));
+  }
+
+  /**
+   * Remove one entry
+   * @returns Whether the entry existed
+   */
+  delete(key: string): boolean {
+    return this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(key).changes > 0;
+  }
+
+  /**
+   * Pin an entry so it never expires or gets evicted, or unpin it
+   * @returns Whether the entry existed
+   */
+  setPinned(key: string, pinned: boolean): boolean {
+    return (
+      this.db.prepare('UPDATE cache_entries SET pinned = ? WHERE key = ?').run(pinned ? 1 : 0, key)
+        .changes > 0
+    );
+  }
+
+  /**
+   * Add to a counter shared by every process using the database
+   */
+  private recordStat(name: PersistedStat, count = 1): void {
+    if (count === 0) {
+      return;
+    }
+    try {
+      this.recordStatStmt.run(name, count);
+    } catch (error) {
+      // Counters are informational, never fail a lookup over them
+    }
+  }
+
   /**
    * Hybrid TTL + LRU pruning
    * Step 1: Remove expired entries (TTL)
@@ -385,6 +565,7 @@ export class PersistentFetchCache {
       const expiredResult = this.deleteExpiredStmt.run(now);
       const evictedByTTL = expiredResult.changes;
       this.stats.evictions += evictedByTTL;
+      this.recordStat('evictions', evictedByTTL);
 
       // Step 2: If still over maxSize, apply LRU eviction
       const currentSize = this.size();
@@ -393,6 +574,7 @@ export class PersistentFetchCache {
         const lruResult = this.evictLRUStmt.run(toEvict);
         const evictedByLRU = lruResult.changes;
         this.stats.evictions += evictedByLRU;
+        this.recordStat('evictions', evictedByLRU);
       }
     } catch (error) {
       // Silently fail
@@ -5,6 +5,7 @@
  */
 
 import { logger } from '@/commons/utils/logger';
+import type { FetchCacheConfig, FetchTraceConfig } from '@/types/config.types';
 
 // ============================================================================
 // INTERFACES
@@ -36,14 +37,47 @@ export interface FetchCacheSettings {
   excludes: string[];
 }
 
+export type FetchCassetteMode = 'off' | 'record' | 'replay';
+
+export interface FetchCassetteSettings {
+  mode: FetchCassetteMode;
+  name: string | undefined; // Cassette file ~/.autosteer/cassettes/{name}.db
+}
+
+export interface SecretsSettings {
+  passphrase: string | undefined; // Encrypts secrets where the OS keychain is unavailable
+}
+
+export type TerminalMultiplexer = 'tmux';
+
+export interface TerminalSettings {
+  multiplexer: TerminalMultiplexer | undefined; // Keeps terminal processes running after quitting
+}
+
+export interface SearchSettings {
+  ripgrepPath: string; // ripgrep executable, for when rg is not on the app's PATH
+}
+
 export interface DevSettings {
   openDevTools: boolean;
 }
 
+/**
+ * Fetch trace and cache values set for one project (.autosteer.json)
+ */
+export interface FetchSettingsOverrides {
+  fetchTrace?: FetchTraceConfig;
+  fetchCache?: FetchCacheConfig;
+}
+
 export interface AllSettings {
   app: AppSettings;
   fetchTrace: FetchTraceSettings;
   fetchCache: FetchCacheSettings;
+  fetchCassette: FetchCassetteSettings;
+  secrets: SecretsSettings;
+  terminal: TerminalSettings;
+  search: SearchSettings;
   dev: DevSettings;
 }
 
@@ -79,6 +113,20 @@ function parseList(value: string | undefined): string[] {
     .filter((s) => s.length > 0);
 }
 
+/**
+ * Parse cassette mode; unknown values turn cassettes off
+ */
+function parseCassetteMode(value: string | undefined): FetchCassetteMode {
+  return value === 'record' || value === 'replay' ? value : 'off';
+}
+
+/**
+ * Parse terminal multiplexer; unknown values run terminals without one
+ */
+function parseMultiplexer(value: string | undefined): TerminalMultiplexer | undefined {
+  return value === 'tmux' ? value : undefined;
+}
+
 /**
  * Load all settings from environment variables
  * This is the ONLY function that accesses process.env
@@ -114,6 +162,27 @@ function loadSettings(): AllSettings {
       excludes: parseList(process.env.FETCH_CACHE_EXCLUDES),
     },
 
+    // Fetch cassette settings (record/replay of HTTP exchanges)
+    fetchCassette: {
+      mode: parseCassetteMode(process.env.FETCH_CASSETTE_MODE),
+      name: process.env.FETCH_CASSETTE_NAME,
+    },
+
+    // Secret storage settings
+    secrets: {
+      passphrase: process.env.AUTOSTEER_SECRETS_PASSPHRASE || undefined,
+    },
+
+    // Terminal settings
+    terminal: {
+      multiplexer: parseMultiplexer(process.env.AUTOSTEER_TERMINAL_MULTIPLEXER),
+    },
+
+    // Content search settings
+    search: {
+      ripgrepPath: process.env.AUTOSTEER_RIPGREP_PATH || 'rg',
+    },
+
     // Dev settings
     dev: {
       openDevTools: parseBool(process.env.OPEN_DEV_TOOLS, false),
@@ -143,6 +212,13 @@ export function getSettings(): AllSettings {
   return cachedSettings;
 }
 
+/**
+ * Settings from the environment alone, without the app.json and runtime updates
+ */
+export function getEnvironmentSettings(): AllSettings {
+  return loadSettings();
+}
+
 /**
  * Get app-specific settings
  */
@@ -164,6 +240,34 @@ export function getFetchCacheSettings(): FetchCacheSettings {
   return getSettings().fetchCache;
 }
 
+/**
+ * Get fetch cassette settings
+ */
+export function getFetchCassetteSettings(): FetchCassetteSettings {
+  return getSettings().fetchCassette;
+}
+
+/**
+ * Get secret storage settings
+ */
+export function getSecretsSettings(): SecretsSettings {
+  return getSettings().secrets;
+}
+
+/**
+ * Get terminal settings
+ */
+export function getTerminalSettings(): TerminalSettings {
+  return getSettings().terminal;
+}
+
+/**
+ * Get content search settings
+ */
+export function getSearchSettings(): SearchSettings {
+  return getSettings().search;
+}
+
 /**
  * Get dev settings
  */
@@ -191,6 +295,46 @@ export function updateRuntimeSettings(updates: {
   }
 }
 
+/**
+ * Override fetch cache settings (from app.json); unset fields fall back to the environment
+ * SDK subprocesses started afterwards receive the new values through getSettingsAsEnv()
+ */
+export function updateFetchCacheSettings(overrides: FetchCacheConfig): void {
+  const settings = getSettings();
+  const fromEnv = loadSettings().fetchCache;
+  settings.fetchCache = {
+    ...fromEnv,
+    ...(overrides.enabled !== undefined && { enabled: overrides.enabled }),
+    ...(overrides.ttl !== undefined && { ttl: overrides.ttl }),
+    ...(overrides.maxSize !== undefined && { maxSize: overrides.maxSize }),
+    ...(overrides.includes && { includes: overrides.includes }),
+    ...(overrides.excludes && { excludes: overrides.excludes }),
+  };
+  settings.fetchCache.ttlMs = settings.fetchCache.ttl * 1000;
+}
+
+/**
+ * Override fetch trace settings (from app.json); unset fields fall back to the environment
+ * SDK subprocesses started afterwards receive the new values through getSettingsAsEnv()
+ */
+export function updateFetchTraceSettings(overrides: FetchTraceConfig): void {
+  const settings = getSettings();
+  const fromEnv = loadSettings().fetchTrace;
+  settings.fetchTrace = {
+    ...settings.fetchTrace,
+    enabled: overrides.enabled ?? fromEnv.enabled,
+    includes: overrides.includes ?? fromEnv.includes,
+    excludes: overrides.excludes ?? fromEnv.excludes,
+  };
+}
+
+/**
+ * Record into or replay from a cassette in SDK subprocesses started afterwards
+ */
+export function updateFetchCassetteSettings(updates: FetchCassetteSettings): void {
+  getSettings().fetchCassette = { ...updates };
+}
+
 /**
  * Get current NODE_OPTIONS from environment
  * This is needed to preserve existing Node.js runtime flags when spawning subprocesses
@@ -201,9 +345,12 @@ export function getNodeOptions(): string {
 
 /**
  * Get settings as environment variables (for subprocess)
+ * @param overrides - Project fetch trace/cache values, applied to this subprocess only
  */
-export function getSettingsAsEnv(): Record<string, string> {
+export function getSettingsAsEnv(overrides: FetchSettingsOverrides = {}): Record<string, string> {
   const settings = getSettings();
+  const fetchTrace = { ...settings.fetchTrace, ...overrides.fetchTrace };
+  const fetchCache = { ...settings.fetchCache, ...overrides.fetchCache };
 
   return {
     // App settings
@@ -211,22 +358,26 @@ export function getSettingsAsEnv(): Record<string, string> {
     AI_SERVICE_URL: settings.app.aiServiceUrl,
 
     // Fetch trace settings
-    FETCH_TRACE_ENABLED: settings.fetchTrace.enabled.toString(),
-    FETCH_TRACE_INCLUDES: settings.fetchTrace.includes.join(','),
-    FETCH_TRACE_EXCLUDES: settings.fetchTrace.excludes.join(','),
-    FETCH_TRACE_DEBUG: settings.fetchTrace.debug.toString(),
-    ...(settings.fetchTrace.cwd && { FETCH_TRACE_CWD: settings.fetchTrace.cwd }),
-    ...(settings.fetchTrace.sessionId && { FETCH_TRACE_SESSION_ID: settings.fetchTrace.sessionId }),
-    ...(settings.fetchTrace.timestamp && { FETCH_TRACE_TIMESTAMP: settings.fetchTrace.timestamp }),
+    FETCH_TRACE_ENABLED: fetchTrace.enabled.toString(),
+    FETCH_TRACE_INCLUDES: fetchTrace.includes.join(','),
+    FETCH_TRACE_EXCLUDES: fetchTrace.excludes.join(','),
+    FETCH_TRACE_DEBUG: fetchTrace.debug.toString(),
+    ...(fetchTrace.cwd && { FETCH_TRACE_CWD: fetchTrace.cwd }),
+    ...(fetchTrace.sessionId && { FETCH_TRACE_SESSION_ID: fetchTrace.sessionId }),
+    ...(fetchTrace.timestamp && { FETCH_TRACE_TIMESTAMP: fetchTrace.timestamp }),
 
     // Fetch cache settings
-    FETCH_CACHE_ENABLED: settings.fetchCache.enabled.toString(),
-    FETCH_CACHE_MAX_SIZE: settings.fetchCache.maxSize.toString(),
-    FETCH_CACHE_TTL: settings.fetchCache.ttl.toString(),
-    FETCH_CACHE_IGNORE_HEADERS: settings.fetchCache.ignoreHeaders.toString(),
-    FETCH_CACHE_PERSISTENCE_ENABLED: settings.fetchCache.persistenceEnabled.toString(),
-    FETCH_CACHE_INCLUDES: settings.fetchCache.includes.join(','),
-    FETCH_CACHE_EXCLUDES: settings.fetchCache.excludes.join(','),
+    FETCH_CACHE_ENABLED: fetchCache.enabled.toString(),
+    FETCH_CACHE_MAX_SIZE: fetchCache.maxSize.toString(),
+    FETCH_CACHE_TTL: fetchCache.ttl.toString(),
+    FETCH_CACHE_IGNORE_HEADERS: fetchCache.ignoreHeaders.toString(),
+    FETCH_CACHE_PERSISTENCE_ENABLED: fetchCache.persistenceEnabled.toString(),
+    FETCH_CACHE_INCLUDES: fetchCache.includes.join(','),
+    FETCH_CACHE_EXCLUDES: fetchCache.excludes.join(','),
+
+    // Fetch cassette settings
+    FETCH_CASSETTE_MODE: settings.fetchCassette.mode,
+    ...(settings.fetchCassette.name && { FETCH_CASSETTE_NAME: settings.fetchCassette.name }),
   };
 }
 
@@ -261,6 +412,16 @@ export function logSettingsAtStartup(): void {
     includes: settings.fetchCache.includes,
     excludes: settings.fetchCache.excludes,
   });
+  logger.info('[Settings] Fetch Cassette:', {
+    mode: settings.fetchCassette.mode,
+    name: settings.fetchCassette.name,
+  });
+  logger.info('[Settings] Secrets:', {
+    passphraseSet: !!settings.secrets.passphrase,
+  });
+  logger.info('[Settings] Terminal:', {
+    multiplexer: settings.terminal.multiplexer ?? 'none',
+  });
   logger.info('[Settings] Dev:', {
     openDevTools: settings.dev.openDevTools,
   });
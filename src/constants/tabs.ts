@@ -2,4 +2,6 @@ export const MAX_TABS = 10;
 export const TERMINAL_TAB_ID = 'terminal-tab';
 export const CHANGES_TAB_ID = 'changes-tab';
 export const TOOLS_TAB_ID = 'tools-tab';
+export const TASKS_TAB_ID = 'tasks-tab';
+export const SEARCH_TAB_ID = 'search-tab';
 export const MAXIMIZE_TAB_PREFIX = 'maximize-';
@@ -127,6 +127,8 @@ export class LoadedUsageEntry {
       outputTokens: data.message?.usage?.output_tokens || 0,
       cacheCreationInputTokens: data.message?.usage?.cache_creation_input_tokens || 0,
       cacheReadInputTokens: data.message?.usage?.cache_read_input_tokens || 0,
+      cacheCreation1hInputTokens:
+        data.message?.usage?.cache_creation?.ephemeral_1h_input_tokens || 0,
     });
 
     // Extract usage limit reset time from error messages
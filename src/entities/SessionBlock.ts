@@ -119,6 +119,7 @@ export class SessionBlock {
     this.tokenCounts.outputTokens += entry.usage.outputTokens;
     this.tokenCounts.cacheCreationInputTokens += entry.usage.cacheCreationInputTokens;
     this.tokenCounts.cacheReadInputTokens += entry.usage.cacheReadInputTokens;
+    this.tokenCounts.cacheCreation1hInputTokens += entry.usage.cacheCreation1hInputTokens;
 
     // Update cost
     if (entry.costUSD !== null) {
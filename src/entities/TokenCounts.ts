@@ -22,16 +22,23 @@ export class TokenCounts {
    */
   cacheReadInputTokens: number;
 
+  /**
+   * Part of the cache creation tokens written with a 1 hour TTL (the rest use 5 minutes)
+   */
+  cacheCreation1hInputTokens: number;
+
   constructor(data?: {
     inputTokens?: number;
     outputTokens?: number;
     cacheCreationInputTokens?: number;
     cacheReadInputTokens?: number;
+    cacheCreation1hInputTokens?: number;
   }) {
     this.inputTokens = data?.inputTokens || 0;
     this.outputTokens = data?.outputTokens || 0;
     this.cacheCreationInputTokens = data?.cacheCreationInputTokens || 0;
     this.cacheReadInputTokens = data?.cacheReadInputTokens || 0;
+    this.cacheCreation1hInputTokens = data?.cacheCreation1hInputTokens || 0;
   }
 
   /**
@@ -54,6 +61,7 @@ export class TokenCounts {
     this.outputTokens += other.outputTokens;
     this.cacheCreationInputTokens += other.cacheCreationInputTokens;
     this.cacheReadInputTokens += other.cacheReadInputTokens;
+    this.cacheCreation1hInputTokens += other.cacheCreation1hInputTokens;
   }
 
   /**
@@ -65,6 +73,7 @@ export class TokenCounts {
       outputTokens: this.outputTokens,
       cacheCreationInputTokens: this.cacheCreationInputTokens,
       cacheReadInputTokens: this.cacheReadInputTokens,
+      cacheCreation1hInputTokens: this.cacheCreation1hInputTokens,
     });
   }
 
@@ -76,6 +85,7 @@ export class TokenCounts {
     this.outputTokens = 0;
     this.cacheCreationInputTokens = 0;
     this.cacheReadInputTokens = 0;
+    this.cacheCreation1hInputTokens = 0;
   }
 
   /**
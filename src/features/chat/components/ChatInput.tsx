@@ -4,6 +4,7 @@ import { useChatStore, useResourcesStore } from '@/stores';
 import { ModelOption } from '@/types/model.types';
 import { DEFAULT_PERMISSION_MODE, PermissionMode } from '@/types/permission.types';
 import { forwardRef, memo, useImperativeHandle, useRef } from 'react';
+import { MessageQueue } from './MessageQueue';
 import { RichTextEditor } from './RichTextEditor';
 
 /**
@@ -24,6 +25,11 @@ export interface ChatInputHandle {
    * Clears message content, permission mode, and model selection
    */
   reset: () => void;
+
+  /**
+   * Replace the input text, e.g. with a message put back by a rewind
+   */
+  setText: (text: string) => void;
 }
 
 interface ChatInputProps {
@@ -45,6 +51,7 @@ interface ChatInputProps {
  *
  * Responsibilities:
  * - Render RichTextEditor with proper props
+ * - Show follow-ups queued while the agent is busy (MessageQueue)
  * - Display loading/disabled states
  * - Handle visual styling based on state
  * - Expose focus method via ref for programmatic focus
@@ -75,6 +82,7 @@ export const ChatInput = memo(
       const resources = useResourcesStore((state) => state.resources);
       const stopStreamingFromStore = useChatStore((state) => state.stopStreaming);
       const stopStreaming = onStopStreaming || stopStreamingFromStore;
+      const activeChat = useChatStore((state) => state.activeChat);
       const containerRef = useRef<HTMLDivElement>(null);
 
       // Delegate all business logic to handler
@@ -129,12 +137,16 @@ export const ChatInput = memo(
             // Reset model (null means use settings default)
             setModel(null as any);
           },
+          setText: (text: string) => {
+            setMessage(text);
+          },
         }),
-        [selectedAgentId]
+        [selectedAgentId, setMessage]
       );
 
       return (
         <div ref={containerRef} className="px-2 pb-2 pt-1 flex-shrink-0">
+          <MessageQueue agentId={activeChat} />
           <div className={cn('transition-all duration-200', isDisabled ? 'opacity-60' : '')}>
             <RichTextEditor
               value={message}
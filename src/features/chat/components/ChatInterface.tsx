@@ -1,8 +1,23 @@
 import { cn } from '@/commons/utils';
 import { logger } from '@/commons/utils/logger';
-import { useMessageMetadata, usePermissionHandling } from '@/hooks';
+import {
+  findCheckpointForMessage,
+  useMessageBranching,
+  useMessageMetadata,
+  usePermissionHandling,
+  useTurnCheckpoints,
+} from '@/hooks';
 import { useFileDragDrop } from '@/hooks/useFileDragDrop';
-import { CircleCheck, FileCheck2, Package2, Paperclip, Wrench } from 'lucide-react';
+import {
+  CircleCheck,
+  FileCheck2,
+  GitBranch,
+  Package2,
+  Paperclip,
+  RotateCcw,
+  Undo2,
+  Wrench,
+} from 'lucide-react';
 import {
   forwardRef,
   memo,
@@ -17,12 +32,14 @@ import { ThreeDots } from 'react-loader-spinner';
 import { toast } from 'sonner';
 
 import { ComputedMessage } from '@/stores/chat.selectors';
+import type { AgentTurnCheckpoint } from '@/types/ipc.types';
 import { ModelOption } from '@/types/model.types';
 import { PermissionMode } from '@/types/permission.types';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -31,6 +48,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 
@@ -45,7 +63,12 @@ import {
   ToolPairDisplay,
   ToolUsageDisplay,
 } from '@/features/monitoring';
-import { ClaudeErrorDisplay, PermissionActionDisplay, TodoDisplay } from '@/features/shared';
+import {
+  ClaudeErrorDisplay,
+  PermissionActionDisplay,
+  TodoDisplay,
+  TurnCheckpointDialog,
+} from '@/features/shared';
 import { AutoLinkedText } from './AutoLinkedText';
 import { CachedMarkdownRenderer } from './CachedMarkdownRenderer';
 import { ChatInput, ChatInputHandle } from './ChatInput';
@@ -76,10 +99,14 @@ interface MessageItemProps {
   isStreaming?: boolean;
   activeMetadataTab: Map<string, 'tools' | 'tokens' | 'todos' | null>;
   onMetadataToggle: (messageId: string, tab: 'tools' | 'tokens' | 'todos') => void;
+  onBranch?: (messageId: string, mode: BranchMode) => void;
+  onUndoTurn?: (messageId: string) => void;
   sessionId?: string;
   sessionName?: string;
 }
 
+type BranchMode = 'rewind' | 'fork';
+
 // Helper function to format token counts
 const formatTokenCount = (count: number): string => {
   if (count >= 1000) {
@@ -104,6 +131,8 @@ const MessageItem = memo<MessageItemProps>(
     isStreaming,
     activeMetadataTab,
     onMetadataToggle,
+    onBranch,
+    onUndoTurn,
   }) => {
     const [showSessionStats, setShowSessionStats] = useState(false);
 
@@ -259,6 +288,45 @@ const MessageItem = memo<MessageItemProps>(
             </>
           )}
 
+          {/* Rewind / fork actions on the user's own messages */}
+          {onBranch && message.role === 'user' && !isInterrupted && !isStreamingMessage && (
+            <div className="flex justify-end gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onBranch(message.id, 'rewind')}
+                title="Rewind here"
+                aria-label="Rewind here"
+              >
+                <Undo2 className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onBranch(message.id, 'fork')}
+                title="Fork into new tab"
+                aria-label="Fork into new tab"
+              >
+                <GitBranch className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
+          {/* Undo the file changes of the turn this reply belongs to */}
+          {onUndoTurn && message.role === 'assistant' && !isStreamingMessage && (
+            <div className="flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onUndoTurn(message.id)}
+                title="Undo this turn"
+                aria-label="Undo this turn"
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
           {/* Display errors and stop reason warnings */}
           {!isStreamingMessage &&
             message.role === 'assistant' &&
@@ -567,6 +635,12 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
     logger.debug('[ChatInterface] Rendering chat interface without MaximizeButton');
 
     const [showClearConfirm, setShowClearConfirm] = useState(false);
+    const [branchRequest, setBranchRequest] = useState<{
+      messageId: string;
+      mode: BranchMode;
+    } | null>(null);
+    const [restoreFilesOnBranch, setRestoreFilesOnBranch] = useState(false);
+    const [undoTurnRequest, setUndoTurnRequest] = useState<AgentTurnCheckpoint | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const chatInputRef = useRef<ChatInputHandle>(null);
     const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -676,11 +750,32 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
     );
 
     // Permission handling
-    const { handlePermissionApprove, handlePermissionReject } = usePermissionHandling({
-      activeChat,
-      currentPermissionRequest,
-      sendMessage: sendMessageWrapper,
-    });
+    const { handlePermissionApprove, handlePermissionApproveForSession, handlePermissionReject } =
+      usePermissionHandling({
+        activeChat,
+        currentPermissionRequest,
+        sendMessage: sendMessageWrapper,
+      });
+
+    // Optional guidance sent to the model when denying a live permission request
+    const [permissionDenyMessage, setPermissionDenyMessage] = useState('');
+    const isLivePermissionRequest = !!currentPermissionRequest?.request_id;
+
+    useEffect(() => {
+      setPermissionDenyMessage('');
+    }, [currentPermissionRequest?.request_id]);
+
+    // Tools without a dedicated preview (MCP tools, Glob, ...) show their raw input
+    const hasPermissionPreview =
+      !!currentPermissionRequest &&
+      !!(
+        currentPermissionRequest.old_string ||
+        currentPermissionRequest.new_string ||
+        currentPermissionRequest.content ||
+        currentPermissionRequest.command ||
+        currentPermissionRequest.url ||
+        currentPermissionRequest.query
+      );
 
     // Connect scrollRef to the actual scrollable viewport element (runs once, z-index keeps it mounted)
     useEffect(() => {
@@ -827,6 +922,91 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       setShowClearConfirm(false);
     };
 
+    const { rewindToMessage, forkFromMessage } = useMessageBranching();
+
+    const handleBranchRequest = useCallback((messageId: string, mode: BranchMode) => {
+      setRestoreFilesOnBranch(false);
+      setBranchRequest({ messageId, mode });
+    }, []);
+
+    const confirmBranch = async () => {
+      if (!branchRequest) return;
+      const { messageId, mode } = branchRequest;
+      setBranchRequest(null);
+
+      const branch = mode === 'rewind' ? rewindToMessage : forkFromMessage;
+      const result = await branch(messageId, { restoreFiles: restoreFilesOnBranch });
+      if (!result.success) {
+        toast.error(mode === 'rewind' ? 'Could not rewind' : 'Could not fork', {
+          description: result.error,
+        });
+        return;
+      }
+
+      if (mode === 'rewind' && activeChat) {
+        chatInputRef.current?.setText(useChatStore.getState().getDraftInput(activeChat));
+        chatInputRef.current?.focus();
+      }
+      toast.success(mode === 'rewind' ? 'Rewound conversation' : 'Forked into a new tab', {
+        ...(result.restoreMessage && { description: result.restoreMessage }),
+      });
+    };
+
+    const {
+      checkpoints,
+      refetch: refetchCheckpoints,
+      diffCheckpoint,
+      undoCheckpoint,
+    } = useTurnCheckpoints({ worktreeId: selectedProjectId });
+
+    // Pick up the checkpoint of a turn once it finishes
+    useEffect(() => {
+      if (!isStreaming) {
+        void refetchCheckpoints();
+      }
+    }, [isStreaming, activeChat, refetchCheckpoints]);
+
+    // Assistant message id -> checkpoint of its turn, for turns that changed files
+    // and have not been undone yet
+    const turnCheckpoints = useMemo(() => {
+      const undoable = checkpoints.filter(
+        (checkpoint) =>
+          checkpoint.agentId === activeChat &&
+          checkpoint.after &&
+          checkpoint.files?.length &&
+          !checkpoint.undoneAt
+      );
+      const byMessage = new Map<string, AgentTurnCheckpoint>();
+      if (undoable.length === 0) {
+        return byMessage;
+      }
+      for (const message of messages) {
+        if (message.role !== 'assistant') continue;
+        const checkpoint = findCheckpointForMessage(undoable, new Date(message.timestamp));
+        if (checkpoint) {
+          byMessage.set(message.id, checkpoint);
+        }
+      }
+      return byMessage;
+    }, [checkpoints, activeChat, messages]);
+
+    const handleUndoTurnRequest = useCallback(
+      (messageId: string) => {
+        setUndoTurnRequest(turnCheckpoints.get(messageId) ?? null);
+      },
+      [turnCheckpoints]
+    );
+
+    const confirmUndoTurn = async (checkpoint: AgentTurnCheckpoint) => {
+      const result = await undoCheckpoint(checkpoint);
+      if (!result.success) {
+        toast.error('Could not undo turn', { description: result.message || result.error });
+        return;
+      }
+      setUndoTurnRequest(null);
+      toast.success(result.message || 'Turn undone');
+    };
+
     const formatTimestamp = (date: Date) => {
       const now = new Date();
       const messageDate = new Date(date);
@@ -921,6 +1101,48 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
           </DialogContent>
         </Dialog>
 
+        {/* Rewind / Fork Confirmation Dialog */}
+        <Dialog open={!!branchRequest} onOpenChange={(open) => !open && setBranchRequest(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {branchRequest?.mode === 'fork' ? 'Fork Into New Tab?' : 'Rewind Conversation?'}
+              </DialogTitle>
+              <DialogDescription>
+                {branchRequest?.mode === 'fork'
+                  ? 'A new tab continues from just before this message. This conversation is left unchanged.'
+                  : 'This message and everything after it will be removed from this conversation. Its text is put back in the input.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="branch-restore-files-checkbox"
+                checked={restoreFilesOnBranch}
+                onCheckedChange={(checked) => setRestoreFilesOnBranch(checked as boolean)}
+              />
+              <label htmlFor="branch-restore-files-checkbox" className="text-sm cursor-pointer">
+                Also restore files to how they were before this message
+              </label>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setBranchRequest(null)}>
+                Cancel
+              </Button>
+              <Button onClick={() => void confirmBranch()}>
+                {branchRequest?.mode === 'fork' ? 'Fork' : 'Rewind'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Undo Turn Preview Dialog */}
+        <TurnCheckpointDialog
+          checkpoint={undoTurnRequest}
+          onOpenChange={(open) => !open && setUndoTurnRequest(null)}
+          onDiff={diffCheckpoint}
+          onUndo={confirmUndoTurn}
+        />
+
         {/* Messages Area */}
         <div className="flex-1 flex flex-col relative min-h-0 overflow-hidden">
           <ScrollArea ref={scrollAreaRef} className="flex-1 overflow-hidden">
@@ -941,6 +1163,9 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                   onMetadataToggle={(messageId, tab) =>
                     handleMetadataToggle(messageId, tab, index === messages.length - 1)
                   }
+                  {...(!isStreaming && { onBranch: handleBranchRequest })}
+                  {...(!isStreaming &&
+                    turnCheckpoints.has(message.id) && { onUndoTurn: handleUndoTurnRequest })}
                 />
               ))}
 
@@ -1005,6 +1230,12 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                           </div>
                         </div>
 
+                        {currentPermissionRequest.decision_reason && (
+                          <div className="text-xs text-muted-foreground mb-2 px-3">
+                            {currentPermissionRequest.decision_reason}
+                          </div>
+                        )}
+
                         {/* Show diff or content */}
                         <div className="space-y-0 overflow-hidden max-h-[400px] overflow-y-auto mb-2 pr-2 pl-5">
                           {currentPermissionRequest.old_string && (
@@ -1118,8 +1349,15 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                             </div>
                           )}
 
+                        {/* Raw tool input for tools without a dedicated preview */}
+                        {!hasPermissionPreview && currentPermissionRequest.tool_input && (
+                          <pre className="bg-slate-50 dark:bg-slate-900 p-3 rounded font-mono text-xs mb-2 mx-2 max-h-[200px] overflow-auto whitespace-pre-wrap break-all">
+                            {JSON.stringify(currentPermissionRequest.tool_input, null, 2)}
+                          </pre>
+                        )}
+
                         {/* Action buttons */}
-                        <div className="flex gap-2 pt-4 px-3 pb-1">
+                        <div className="flex items-center gap-2 pt-4 px-3 pb-1">
                           <Button
                             size="sm"
                             variant="outline"
@@ -1128,14 +1366,39 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                           >
                             Approve
                           </Button>
+                          {isLivePermissionRequest && !currentPermissionRequest.once_only && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={handlePermissionApproveForSession}
+                              className="h-auto py-0.5 px-2 text-[11px]"
+                              title="Allow matching tool calls for the rest of this session"
+                            >
+                              Allow for session
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={handlePermissionReject}
+                            onClick={() => handlePermissionReject(permissionDenyMessage)}
                             className="border-transparent h-auto py-0.5 px-2 text-[11px] bg-red-400 text-white  hover:bg-red hover:text-white hover:shadow-xs"
                           >
                             Reject
                           </Button>
+                          {isLivePermissionRequest && (
+                            <Input
+                              value={permissionDenyMessage}
+                              onChange={(e) => setPermissionDenyMessage(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  handlePermissionReject(permissionDenyMessage);
+                                }
+                              }}
+                              placeholder="Tell Claude what to do instead (optional)"
+                              className="h-6 flex-1 min-w-0 text-[11px]"
+                            />
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,158 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useChatStore } from '@/stores';
+import { ArrowDown, ArrowUp, Clock, Pause, Pencil, Play, SendHorizontal, X } from 'lucide-react';
+import { memo, useState } from 'react';
+
+interface MessageQueueProps {
+  agentId: string | null;
+}
+
+/**
+ * Pending follow-up messages typed while the agent was busy.
+ *
+ * Rendered as chips above ChatInput; each chip can be edited, moved, removed or
+ * sent immediately (interrupting the current turn). The queue itself lives in
+ * the chat store and is flushed when the turn ends. After a stopped or failed turn
+ * it waits until the user resumes it.
+ */
+export const MessageQueue = memo(({ agentId }: MessageQueueProps) => {
+  const queue = useChatStore((state) => state.getQueuedMessages(agentId ?? ''));
+  const updateQueuedMessage = useChatStore((state) => state.updateQueuedMessage);
+  const moveQueuedMessage = useChatStore((state) => state.moveQueuedMessage);
+  const removeQueuedMessage = useChatStore((state) => state.removeQueuedMessage);
+  const sendQueuedMessageNow = useChatStore((state) => state.sendQueuedMessageNow);
+  const isPaused = useChatStore((state) => state.isMessageQueuePaused(agentId ?? ''));
+  const resumeMessageQueue = useChatStore((state) => state.resumeMessageQueue);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  if (!agentId || queue.length === 0) {
+    return null;
+  }
+
+  const startEditing = (id: string, content: string) => {
+    setEditingId(id);
+    setEditText(content);
+  };
+
+  const commitEdit = () => {
+    if (editingId) {
+      if (editText.trim()) {
+        updateQueuedMessage(agentId, editingId, editText);
+      } else {
+        removeQueuedMessage(agentId, editingId);
+      }
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 mb-1" data-testid="message-queue">
+      {isPaused && (
+        <div className="flex items-center gap-1 px-2 text-xs text-muted-foreground">
+          <Pause className="h-3 w-3 flex-shrink-0" />
+          <span className="flex-1 min-w-0 truncate">
+            Paused after the last turn stopped or failed
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => void resumeMessageQueue(agentId)}
+            title="Send the queued messages"
+          >
+            <Play className="h-3 w-3" />
+            Resume
+          </Button>
+        </div>
+      )}
+      {queue.map((queued, index) => (
+        <div
+          key={queued.id}
+          className="flex items-center gap-1 rounded-md border border-border bg-muted px-2 py-0.5 text-xs"
+        >
+          <Clock className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+          {editingId === queued.id ? (
+            <Input
+              autoFocus
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  commitEdit();
+                } else if (e.key === 'Escape') {
+                  e.preventDefault();
+                  setEditingId(null);
+                }
+              }}
+              aria-label="Edit queued message"
+              className="h-6 flex-1 min-w-0 text-xs"
+            />
+          ) : (
+            <button
+              type="button"
+              className="flex-1 min-w-0 truncate text-left text-foreground"
+              onClick={() => startEditing(queued.id, queued.content)}
+              title={queued.content}
+            >
+              {queued.content}
+            </button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => startEditing(queued.id, queued.content)}
+            title="Edit"
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => moveQueuedMessage(agentId, queued.id, -1)}
+            disabled={index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => moveQueuedMessage(agentId, queued.id, 1)}
+            disabled={index === queue.length - 1}
+            title="Move down"
+          >
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => void sendQueuedMessageNow(agentId, queued.id)}
+            title="Send now (interrupts the current turn)"
+          >
+            <SendHorizontal className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => removeQueuedMessage(agentId, queued.id)}
+            title="Remove"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+MessageQueue.displayName = 'MessageQueue';
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { EditorToolbar } from '@/features/chat/components/EditorToolbar';
 import { FileMentions } from '@/features/chat/components/FileMentions';
 import { MentionPicker } from '@/features/chat/components/MentionPicker';
+import { SymbolMentions } from '@/features/chat/components/SymbolMentions';
 import {
   createFileMentionExtension,
   insertFileMention,
@@ -859,8 +860,27 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         </div>
       </div>
 
+      {/* Symbol and line range mentions: @path#Symbol, @path#L10-40 */}
+      {showFileMentions && pickerPosition && fileMentionQuery.includes('#') && (
+        <SymbolMentions
+          filePath={fileMentionQuery.slice(0, fileMentionQuery.indexOf('#'))}
+          query={fileMentionQuery.slice(fileMentionQuery.indexOf('#') + 1)}
+          projectPath={projectPath || undefined}
+          onSelect={(item) => {
+            if (!view) return;
+
+            insertFileMention(view, item.mention + ' ');
+            closeFileMentions();
+            view.focus();
+          }}
+          onClose={closeFileMentions}
+          position={pickerPosition}
+          className="absolute z-50"
+        />
+      )}
+
       {/* File Mentions Dropdown */}
-      {showFileMentions && pickerPosition && (
+      {showFileMentions && pickerPosition && !fileMentionQuery.includes('#') && (
         <FileMentions
           query={fileMentionQuery}
           projectPath={projectPath || undefined}
@@ -0,0 +1,117 @@
+import { cn } from '@/commons/utils';
+import { Card } from '@/components/ui/card';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SymbolMention, useSymbolMentions } from '@/hooks/useSymbolMentions';
+import React from 'react';
+
+export interface SymbolMentionsProps {
+  filePath: string;
+  query?: string;
+  onSelect: (item: SymbolMention) => void;
+  onClose: () => void;
+  position?: {
+    top?: number;
+    bottom?: number;
+    left: number;
+    width?: number;
+    maxHeight?: number;
+  };
+  className?: string;
+  projectPath?: string | undefined;
+}
+
+/**
+ * Picker for `@path#Symbol` and `@path#L10-40` mentions, shown once a # follows a file
+ * mention. Without a path (`@#name`) it searches the symbols of the whole worktree.
+ */
+export const SymbolMentions: React.FC<SymbolMentionsProps> = ({
+  filePath,
+  query = '',
+  onSelect,
+  onClose,
+  position,
+  className,
+  projectPath,
+}) => {
+  const { items, selectedIndex, setSelectedIndex, isLoading, pickerRef, scrollAreaRef } =
+    useSymbolMentions({
+      filePath,
+      query,
+      isOpen: true,
+      ...(projectPath && { projectPath }),
+      onSelect,
+      onClose,
+    });
+
+  const positionStyles: React.CSSProperties = position
+    ? {
+        position: 'fixed',
+        left: `${position.left}px`,
+        width: position.width ? `${position.width}px` : '600px',
+        maxWidth: 'calc(100vw - 32px)',
+        zIndex: 50,
+        ...(position.bottom !== undefined && { bottom: `${position.bottom}px` }),
+        ...(position.bottom === undefined &&
+          position.top !== undefined && { top: `${position.top}px` }),
+        ...(position.maxHeight && { maxHeight: `${position.maxHeight}px` }),
+      }
+    : {};
+
+  if (isLoading || items.length === 0) {
+    return (
+      <Card
+        ref={pickerRef}
+        className={cn('p-2 bg-background border-border', className)}
+        style={positionStyles}
+      >
+        <p className="text-sm text-muted-foreground text-center py-4">
+          {isLoading
+            ? 'Loading symbols...'
+            : query
+              ? `No symbols matching "${query}"`
+              : filePath
+                ? `No symbols found in ${filePath}; type L10-40 for lines`
+                : 'Type a symbol name'}
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card
+      ref={pickerRef}
+      className={cn('p-0 overflow-hidden bg-background border-border w-full max-w-full', className)}
+      style={positionStyles}
+    >
+      <Command className="border-0 bg-transparent w-full" loop={false} value="">
+        <ScrollArea ref={scrollAreaRef} className="max-h-[300px] w-full">
+          <CommandList className="bg-transparent !block w-full">
+            <CommandGroup className="bg-transparent w-full">
+              {items.map((item, index) => (
+                <CommandItem
+                  key={item.mention}
+                  data-index={index}
+                  className={cn(
+                    'px-2 py-1 !gap-2 overflow-hidden !grid grid-cols-[1fr_auto]',
+                    index === selectedIndex && 'bg-accent text-accent-foreground'
+                  )}
+                  onSelect={() => onSelect(item)}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  title={item.mention}
+                >
+                  <span className="min-w-0 overflow-hidden text-ellipsis whitespace-nowrap text-sm">
+                    #{item.label}
+                  </span>
+                  <span className="min-w-0 overflow-hidden text-ellipsis whitespace-nowrap text-xs text-muted-foreground">
+                    {item.detail}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </ScrollArea>
+      </Command>
+    </Card>
+  );
+};
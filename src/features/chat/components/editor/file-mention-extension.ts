@@ -49,8 +49,8 @@ export function createFileMentionExtension(options: FileMentionExtensionOptions)
         const line = state.doc.lineAt(from);
         const textBefore = line.text.slice(0, from - line.from);
 
-        // Check if we're typing after @ at word boundary
-        const fileMentionMatch = textBefore.match(/(^|[\s])@([\w/.-]*)$/);
+        // Check if we're typing after @ at word boundary; a # starts the symbol or line range
+        const fileMentionMatch = textBefore.match(/(^|[\s])@([\w/.-]*(?:#[\w.$-]*)?)$/);
 
         if (fileMentionMatch) {
           const query = fileMentionMatch[2];
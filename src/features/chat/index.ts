@@ -9,6 +9,7 @@ export * from './components/MarkdownRenderer';
 export * from './components/CachedMarkdownRenderer';
 export * from './components/RichTextEditor';
 export * from './components/FileMentions';
+export * from './components/SymbolMentions';
 export * from './components/MentionPicker';
 export * from './components/LinkDialog';
 export * from './components/EditorToolbar';
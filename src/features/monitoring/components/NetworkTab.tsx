@@ -0,0 +1,303 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { FetchTraceEntry, FetchTraceLogInfo } from '@/types/fetch-trace.types';
+import { Download, Loader2, RefreshCw } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+const ALL = 'all';
+// The SDK CLI; any other process writing to the log is an MCP server it started
+const SDK_SOURCE = 'cli.js';
+const MAX_BODY_LENGTH = 20000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatBody = (body: unknown): string => {
+  if (body === null || body === undefined) {
+    return '(empty)';
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.substring(0, MAX_BODY_LENGTH)}\n... [truncated ${text.length - MAX_BODY_LENGTH} chars]`
+    : text;
+};
+
+const getStatusClass = (entry: FetchTraceEntry): string => {
+  if (entry.error || entry.status === undefined || entry.status >= 500) return 'text-red-500';
+  if (entry.status >= 400) return 'text-yellow-600';
+  return 'text-green-600';
+};
+
+const getSourceLabel = (entry: FetchTraceEntry): string =>
+  !entry.source || entry.source === SDK_SOURCE ? 'SDK' : `MCP: ${entry.source}`;
+
+const HeaderList: React.FC<{ title: string; headers: Record<string, string> }> = ({
+  title,
+  headers,
+}) => (
+  <div>
+    <div className="text-xs font-semibold mb-1">{title}</div>
+    {Object.keys(headers).length === 0 ? (
+      <div className="text-xs text-muted-foreground">(none)</div>
+    ) : (
+      <div className="text-xs font-mono">
+        {Object.entries(headers).map(([name, value]) => (
+          <div key={name} className="break-all">
+            <span className="text-muted-foreground">{name}:</span> {value}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Network inspector for the HTTP traffic of the SDK subprocess and its MCP servers
+ */
+export const NetworkTab: React.FC = () => {
+  const [logs, setLogs] = useState<FetchTraceLogInfo[]>([]);
+  const [selectedLog, setSelectedLog] = useState<string>();
+  const [entries, setEntries] = useState<FetchTraceEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [sourceFilter, setSourceFilter] = useState(ALL);
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const loadLog = useCallback(async (filePath: string) => {
+    setIsLoading(true);
+    try {
+      const result = await window.electron.monitoring.readFetchTrace(filePath);
+      if (!result.success || !result.data) {
+        toastError(result.error || 'Failed to read fetch trace');
+        return;
+      }
+      setEntries(result.data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const result = await window.electron.monitoring.listFetchTraces();
+    if (!result.success || !result.data) {
+      toastError(result.error || 'Failed to list fetch traces');
+      return;
+    }
+    setLogs(result.data);
+
+    const filePath = selectedLog ?? result.data[0]?.filePath;
+    if (filePath) {
+      setSelectedLog(filePath);
+      await loadLog(filePath);
+    }
+  }, [selectedLog, loadLog]);
+
+  // Only on mount; later refreshes are explicit
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const sources = useMemo(() => [...new Set(entries.map(getSourceLabel))].sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (sourceFilter === ALL || getSourceLabel(entry) === sourceFilter) &&
+        (!query ||
+          entry.url.toLowerCase().includes(query) ||
+          entry.method.toLowerCase() === query ||
+          String(entry.status ?? '').startsWith(query))
+    );
+  }, [entries, search, sourceFilter]);
+
+  const selectedEntry = filteredEntries.find((entry) => entry.correlationId === selectedId);
+
+  const handleLogChange = (filePath: string) => {
+    setSelectedLog(filePath);
+    setSelectedId(undefined);
+    void loadLog(filePath);
+  };
+
+  const handleExport = async () => {
+    if (!selectedLog) return;
+    const isFiltered = filteredEntries.length !== entries.length;
+    const result = await window.electron.monitoring.exportHar(
+      selectedLog,
+      isFiltered ? filteredEntries.map((entry) => entry.correlationId) : undefined
+    );
+    if (!result.success) {
+      toastError(result.error || 'Failed to export HAR');
+    } else if (result.data) {
+      toastSuccess(`HAR exported to ${result.data}`);
+    }
+  };
+
+  if (logs.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-1 text-muted-foreground text-sm">
+        <span>No fetch traces yet</span>
+        <span className="text-xs">
+          Start AutoSteer with FETCH_TRACE_ENABLED=true to record SDK and MCP server traffic
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 h-full" style={{ userSelect: 'text' }}>
+      <div className="flex flex-wrap items-center gap-1">
+        <Select value={selectedLog ?? ''} onValueChange={handleLogChange}>
+          <SelectTrigger className="h-7 flex-1 min-w-[200px] text-xs" aria-label="Fetch trace">
+            <SelectValue placeholder="Select a fetch trace" />
+          </SelectTrigger>
+          <SelectContent>
+            {logs.map((log) => (
+              <SelectItem key={log.filePath} value={log.filePath}>
+                {log.name} ({new Date(log.modifiedAt).toLocaleString()})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          size="sm"
+          className="h-7 w-[200px] text-xs"
+          placeholder="Filter by URL, method or status..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select value={sourceFilter} onValueChange={setSourceFilter}>
+          <SelectTrigger className="h-7 w-[140px] text-xs" aria-label="Source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All sources</SelectItem>
+            {sources.map((source) => (
+              <SelectItem key={source} value={source}>
+                {source}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          title="Refresh"
+          onClick={() => void refresh()}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={filteredEntries.length === 0}
+        >
+          <Download className="h-4 w-4 mr-1" />
+          HAR
+        </Button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {filteredEntries.length} of {entries.length} requests
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto border border-border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+              <TableHead className="text-right">Time</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+              <TableHead>Cache</TableHead>
+              <TableHead>Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredEntries.map((entry, index) => (
+              <TableRow
+                key={`${entry.correlationId}-${index}`}
+                className={`cursor-pointer text-xs ${
+                  entry.correlationId === selectedId ? 'bg-accent/50' : ''
+                }`}
+                onClick={() => setSelectedId(entry.correlationId)}
+              >
+                <TableCell className="font-mono">{entry.method}</TableCell>
+                <TableCell className="max-w-[360px] truncate font-mono" title={entry.url}>
+                  {entry.url}
+                </TableCell>
+                <TableCell className={`text-right ${getStatusClass(entry)}`}>
+                  {entry.error ? 'failed' : (entry.status ?? '-')}
+                </TableCell>
+                <TableCell className="text-right">{entry.durationMs}ms</TableCell>
+                <TableCell className="text-right">{formatBytes(entry.responseSize)}</TableCell>
+                <TableCell>{entry.cache === 'none' ? '' : entry.cache}</TableCell>
+                <TableCell className="truncate">{getSourceLabel(entry)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedEntry && (
+        <div className="max-h-[40%] overflow-auto border border-border rounded-md p-2 flex flex-col gap-2">
+          <div className="text-xs font-mono break-all">
+            {selectedEntry.method} {selectedEntry.url}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Started {new Date(selectedEntry.startedAt).toLocaleTimeString()}, took{' '}
+            {selectedEntry.durationMs}ms, sent {formatBytes(selectedEntry.requestSize)}
+            {selectedEntry.pid !== undefined && `, pid ${selectedEntry.pid}`}
+          </div>
+          {selectedEntry.error && (
+            <div className="text-xs text-red-500 break-all">{selectedEntry.error}</div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <HeaderList title="Request Headers" headers={selectedEntry.requestHeaders} />
+            <HeaderList title="Response Headers" headers={selectedEntry.responseHeaders} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-xs font-semibold mb-1">Request Body</div>
+              <pre className="text-xs font-mono p-2 whitespace-pre-wrap break-words bg-muted/30 rounded">
+                {formatBody(selectedEntry.requestBody)}
+              </pre>
+            </div>
+            <div>
+              <div className="text-xs font-semibold mb-1">Response Body</div>
+              <pre className="text-xs font-mono p-2 whitespace-pre-wrap break-words bg-muted/30 rounded">
+                {formatBody(selectedEntry.responseBody)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,45 +1,247 @@
 import { useChatStore } from '@/stores';
-import { ArrowDownRight, ArrowUpRight, ChevronDown, ChevronRight } from 'lucide-react';
-import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toastError } from '@/components/ui/sonner';
+import type { TraceFileInfo } from '@/types/trace-logger.types';
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  ChevronDown,
+  ChevronRight,
+  FolderOpen,
+  Layers,
+  Pause,
+  Play,
+  SkipForward,
+} from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { VariableSizeList as List } from 'react-window';
 import { useVirtualScrollState } from '@/hooks';
+import { TraceTimeline } from './TraceTimeline';
+import {
+  LATENCY_GAP_MS,
+  TraceFilter,
+  TraceGroup,
+  TraceViewEntry,
+  filterTraceEntries,
+  formatGap,
+  fromChatTrace,
+  fromTraceFile,
+  getFilterOptions,
+  getLatencyGaps,
+  groupByCorrelation,
+} from '../utils/traceView';
 
 export interface TraceTabProps {
   agentId?: string;
 }
 
+type TraceRowItem =
+  | { kind: 'group'; id: string; group: TraceGroup }
+  | { kind: 'entry'; id: string; entry: TraceViewEntry; gapMs: number };
+
+const LIVE_SOURCE = 'live';
+const ALL = 'all';
+const GROUP_ROW_HEIGHT = 28;
+// Longest pause between two messages during replay, whatever the recorded gap
+const MAX_REPLAY_DELAY_MS = 2000;
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+const toRowItems = (entries: TraceViewEntry[], grouped: boolean): TraceRowItem[] => {
+  const entryRows = (groupEntries: TraceViewEntry[]): TraceRowItem[] => {
+    const gaps = getLatencyGaps(groupEntries);
+    return groupEntries.map((entry, index) => ({
+      kind: 'entry',
+      id: entry.id,
+      entry,
+      gapMs: gaps[index],
+    }));
+  };
+
+  if (!grouped) {
+    return entryRows(entries);
+  }
+  return groupByCorrelation(entries).flatMap((group) => [
+    { kind: 'group', id: `group-${group.correlationId}`, group } as TraceRowItem,
+    ...entryRows(group.entries),
+  ]);
+};
+
 export const TraceTab: React.FC<TraceTabProps> = ({ agentId: propAgentId }) => {
   const traceEntries = useChatStore((state) => state.traceEntries);
   const storeActiveChat = useChatStore((state) => state.activeChat);
   const activeChat = propAgentId || storeActiveChat;
 
-  const chatTraces = activeChat ? traceEntries.get(activeChat) || [] : [];
-
-  const { expandedItems, toggleExpanded, getRowHeight, listRef } = useVirtualScrollState(
-    chatTraces,
-    (entry) => entry.id,
-    (entry, isExpanded) => {
-      // Base height for collapsed entry (2 lines: time + snippet)
-      const baseHeight = 60;
-      // Additional height when expanded (full JSON)
-      const expandedHeight = isExpanded
-        ? Math.min(
-            // Estimate: ~15px per line of JSON, with a minimum of 100px
-            Math.max(100, JSON.stringify(entry.message, null, 2).split('\n').length * 15),
-            // Cap at 600px to prevent extremely tall entries
-            600
-          )
-        : 0;
-      return baseHeight + expandedHeight;
-    }
+  const [source, setSource] = useState<string>(LIVE_SOURCE);
+  const [traceFiles, setTraceFiles] = useState<TraceFileInfo[]>([]);
+  const [fileEntries, setFileEntries] = useState<TraceViewEntry[]>([]);
+  const [filter, setFilter] = useState<TraceFilter>({});
+  const [grouped, setGrouped] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+  // Number of file entries revealed so far; null shows the whole file
+  const [replayCount, setReplayCount] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+
+  const isLive = source === LIVE_SOURCE;
+  const liveTraces = activeChat ? traceEntries.get(activeChat) : undefined;
+  const sourceEntries = useMemo(
+    () => (isLive ? (liveTraces || []).map(fromChatTrace) : fileEntries),
+    [isLive, liveTraces, fileEntries]
+  );
+  const visibleEntries = useMemo(
+    () => (replayCount === null ? sourceEntries : sourceEntries.slice(0, replayCount)),
+    [sourceEntries, replayCount]
   );
+  const filterOptions = useMemo(() => getFilterOptions(sourceEntries), [sourceEntries]);
+  const filteredEntries = useMemo(
+    () => filterTraceEntries(visibleEntries, filter),
+    [visibleEntries, filter]
+  );
+  const rows = useMemo(() => toRowItems(filteredEntries, grouped), [filteredEntries, grouped]);
+
+  const { expandedItems, toggleExpanded, getRowHeight, listRef, clearCache } =
+    useVirtualScrollState(
+      rows,
+      (row) => row.id,
+      (row, isExpanded) => {
+        if (row.kind === 'group') {
+          return GROUP_ROW_HEIGHT;
+        }
+        // Base height for collapsed entry (2 lines: time + snippet)
+        const baseHeight = 60;
+        // Additional height when expanded (full JSON)
+        const expandedHeight = isExpanded
+          ? Math.min(
+              // Estimate: ~15px per line of JSON, with a minimum of 100px
+              Math.max(100, JSON.stringify(row.entry.message, null, 2).split('\n').length * 15),
+              // Cap at 600px to prevent extremely tall entries
+              600
+            )
+          : 0;
+        return baseHeight + expandedHeight;
+      }
+    );
+
+  useEffect(() => {
+    clearCache();
+  }, [rows, clearCache]);
 
   useEffect(() => {
     // Scroll to bottom when new traces are added
-    if (listRef.current && chatTraces.length > 0) {
-      listRef.current.scrollToItem(chatTraces.length - 1, 'end');
+    if (listRef.current && rows.length > 0 && (isLive || replayCount !== null)) {
+      listRef.current.scrollToItem(rows.length - 1, 'end');
+    }
+  }, [rows.length, listRef, isLive, replayCount]);
+
+  useEffect(() => {
+    window.electron.monitoring
+      .listTraceFiles()
+      .then((result) => {
+        if (result.success && result.data) {
+          setTraceFiles(result.data);
+        }
+      })
+      .catch(() => setTraceFiles([]));
+  }, []);
+
+  // Reveal the next recorded message after its (scaled) original delay
+  useEffect(() => {
+    if (!isPlaying || replayCount === null) {
+      return;
+    }
+    if (replayCount >= sourceEntries.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const gap =
+      replayCount === 0
+        ? 0
+        : sourceEntries[replayCount].timestamp.getTime() -
+          sourceEntries[replayCount - 1].timestamp.getTime();
+    const timer = setTimeout(
+      () => setReplayCount(replayCount + 1),
+      Math.min(Math.max(gap, 0) / replaySpeed, MAX_REPLAY_DELAY_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, replayCount, replaySpeed, sourceEntries]);
+
+  const showFile = useCallback((filePath: string, entries: TraceViewEntry[]) => {
+    setFileEntries(entries);
+    setSource(filePath);
+    setReplayCount(null);
+    setIsPlaying(false);
+    setSelectedId(undefined);
+  }, []);
+
+  const handleSourceChange = async (value: string) => {
+    if (value === LIVE_SOURCE) {
+      setSource(LIVE_SOURCE);
+      setReplayCount(null);
+      setIsPlaying(false);
+      return;
+    }
+    const result = await window.electron.monitoring.readTraceFile(value);
+    if (!result.success || !result.data) {
+      toastError(result.error || 'Failed to read trace file');
+      return;
+    }
+    showFile(value, fromTraceFile(result.data));
+  };
+
+  const handleOpenFile = async () => {
+    const result = await window.electron.monitoring.openTraceFile();
+    if (!result.success) {
+      toastError(result.error || 'Failed to open trace file');
+      return;
+    }
+    if (result.data) {
+      showFile(result.data.filePath, fromTraceFile(result.data.entries));
+    }
+  };
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (replayCount === null || replayCount >= sourceEntries.length) {
+      setReplayCount(0);
     }
-  }, [chatTraces.length, listRef]);
+    setIsPlaying(true);
+  };
+
+  const handleStep = () => {
+    setIsPlaying(false);
+    setReplayCount((count) => (count === null || count >= sourceEntries.length ? 1 : count + 1));
+  };
+
+  const handleTimelineSelect = (entry: TraceViewEntry) => {
+    setSelectedId(entry.id);
+    const index = rows.findIndex((row) => row.id === entry.id);
+    if (index !== -1) {
+      listRef.current?.scrollToItem(index, 'center');
+    }
+  };
+
+  const updateFilter = (key: keyof TraceFilter, value: string) => {
+    setFilter((prev) => {
+      const next = { ...prev };
+      if (value && value !== ALL) {
+        (next as Record<string, string>)[key] = value;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
 
   const formatTimestamp = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
@@ -96,16 +298,50 @@ export const TraceTab: React.FC<TraceTabProps> = ({ agentId: propAgentId }) => {
     }
   };
 
-  if (chatTraces.length === 0) {
-    return (
-      <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
-        No trace messages yet
-      </div>
-    );
-  }
+  const renderFilterSelect = (
+    key: keyof TraceFilter,
+    label: string,
+    options: Array<{ value: string; label: string }>
+  ) => (
+    <Select value={(filter[key] as string) || ALL} onValueChange={(v) => updateFilter(key, v)}>
+      <SelectTrigger className="h-7 w-[120px] text-xs" aria-label={label}>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All {label.toLowerCase()}s</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
 
   const TraceRow = ({ index, style }: { index: number; style: React.CSSProperties }) => {
-    const entry = chatTraces[index];
+    const row = rows[index];
+
+    if (row.kind === 'group') {
+      return (
+        <div
+          style={style}
+          className="flex items-center gap-2 px-1.5 border-b border-border bg-muted/50 text-xs"
+        >
+          <Layers className="h-3 w-3 flex-shrink-0" />
+          <span className="font-mono truncate">{row.group.correlationId}</span>
+          <span className="text-muted-foreground flex-shrink-0">
+            {row.group.entries.length} messages
+          </span>
+          <span className="ml-auto text-muted-foreground flex-shrink-0">
+            {formatGap(row.group.durationMs)}
+          </span>
+        </div>
+      );
+    }
+
+    const { entry, gapMs } = row;
     const isExpanded = expandedItems.has(entry.id);
 
     const handleContentMouseDown = (e: React.MouseEvent) => {
@@ -117,7 +353,10 @@ export const TraceTab: React.FC<TraceTabProps> = ({ agentId: propAgentId }) => {
     };
 
     return (
-      <div style={style} className="border-b border-border">
+      <div
+        style={style}
+        className={`border-b border-border ${entry.id === selectedId ? 'bg-accent/30' : ''}`}
+      >
         {/* Header: time, direction icon, tags, chevron - clickable to expand/collapse */}
         <div
           className="flex items-center gap-2 px-1.5 py-0.5 cursor-pointer hover:bg-accent/50 transition-colors"
@@ -131,14 +370,24 @@ export const TraceTab: React.FC<TraceTabProps> = ({ agentId: propAgentId }) => {
           ) : (
             <ArrowDownRight className="h-3 w-3 text-green-500 flex-shrink-0" />
           )}
-          {entry.message.type && (
+          {entry.messageType && (
             <span className="text-xs px-1.5 py-0.5 rounded bg-background border border-border flex-shrink-0">
-              {entry.message.type}
+              {entry.messageType}
             </span>
           )}
-          {entry.message.subtype && (
+          {entry.messageSubtype && (
             <span className="text-xs px-1.5 py-0.5 rounded bg-background border border-border flex-shrink-0">
-              {entry.message.subtype}
+              {entry.messageSubtype}
+            </span>
+          )}
+          {gapMs > 0 && (
+            <span
+              className={`text-xs font-mono flex-shrink-0 ${
+                gapMs >= LATENCY_GAP_MS ? 'text-yellow-600' : 'text-muted-foreground'
+              }`}
+              title="Time since previous message"
+            >
+              +{formatGap(gapMs)}
             </span>
           )}
           {isExpanded ? (
@@ -176,16 +425,104 @@ export const TraceTab: React.FC<TraceTabProps> = ({ agentId: propAgentId }) => {
   };
 
   return (
-    <div className="h-full" style={{ userSelect: 'text' }}>
-      <List
-        ref={listRef}
-        height={window.innerHeight - 200} // Adjust based on container
-        itemCount={chatTraces.length}
-        itemSize={getRowHeight}
-        width="100%"
-      >
-        {TraceRow}
-      </List>
+    <div className="h-full flex flex-col" style={{ userSelect: 'text' }}>
+      {/* Source: live chat or a recorded trace file */}
+      <div className="flex items-center gap-1 px-1.5 py-1 border-b border-border">
+        <Select value={source} onValueChange={handleSourceChange}>
+          <SelectTrigger className="h-7 flex-1 min-w-0 text-xs" aria-label="Trace source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LIVE_SOURCE}>Live session</SelectItem>
+            {traceFiles.map((file) => (
+              <SelectItem key={file.filePath} value={file.filePath}>
+                {file.sessionId} ({new Date(file.modifiedAt).toLocaleString()})
+              </SelectItem>
+            ))}
+            {!isLive && !traceFiles.some((file) => file.filePath === source) && (
+              <SelectItem value={source}>{source}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon-sm" title="Open trace file" onClick={handleOpenFile}>
+          <FolderOpen className="h-4 w-4" />
+        </Button>
+        {!isLive && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              title={isPlaying ? 'Pause replay' : 'Replay'}
+              onClick={handlePlayPause}
+            >
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="icon-sm" title="Next message" onClick={handleStep}>
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Select value={String(replaySpeed)} onValueChange={(v) => setReplaySpeed(Number(v))}>
+              <SelectTrigger className="h-7 w-[64px] text-xs" aria-label="Replay speed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPLAY_SPEEDS.map((speed) => (
+                  <SelectItem key={speed} value={String(speed)}>
+                    {speed}x
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-1 px-1.5 py-1 border-b border-border">
+        <Input
+          size="sm"
+          className="h-7 flex-1 min-w-[120px] text-xs"
+          placeholder="Search messages..."
+          value={filter.search || ''}
+          onChange={(e) => updateFilter('search', e.target.value)}
+        />
+        {renderFilterSelect('messageType', 'Type', toOptions(filterOptions.messageTypes))}
+        {renderFilterSelect('messageSubtype', 'Subtype', toOptions(filterOptions.messageSubtypes))}
+        {renderFilterSelect('direction', 'Direction', [
+          { value: 'to', label: 'To Claude' },
+          { value: 'from', label: 'From Claude' },
+        ])}
+        {renderFilterSelect('toolName', 'Tool', toOptions(filterOptions.toolNames))}
+        <Button
+          variant={grouped ? 'outline' : 'ghost'}
+          size="icon-sm"
+          title="Group by request"
+          onClick={() => setGrouped(!grouped)}
+        >
+          <Layers className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <TraceTimeline
+        entries={filteredEntries}
+        {...(selectedId && { selectedId })}
+        onSelect={handleTimelineSelect}
+      />
+
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center flex-1 text-muted-foreground text-sm">
+          {sourceEntries.length === 0 ? 'No trace messages yet' : 'No messages match the filters'}
+        </div>
+      ) : (
+        <List
+          ref={listRef}
+          height={window.innerHeight - 300} // Adjust based on container
+          itemCount={rows.length}
+          itemSize={getRowHeight}
+          width="100%"
+        >
+          {TraceRow}
+        </List>
+      )}
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import React from 'react';
+import { LATENCY_GAP_MS, TraceViewEntry, formatGap, getLatencyGaps } from '../utils/traceView';
+
+export interface TraceTimelineProps {
+  entries: TraceViewEntry[];
+  selectedId?: string;
+  onSelect?: (entry: TraceViewEntry) => void;
+}
+
+/**
+ * Messages placed along a time axis, with latency gaps shaded
+ */
+export const TraceTimeline: React.FC<TraceTimelineProps> = ({ entries, selectedId, onSelect }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const start = entries[0].timestamp.getTime();
+  const span = Math.max(entries[entries.length - 1].timestamp.getTime() - start, 1);
+  const gaps = getLatencyGaps(entries);
+  const offset = (entry: TraceViewEntry) => ((entry.timestamp.getTime() - start) / span) * 100;
+
+  return (
+    <div className="px-1.5 py-1 border-b border-border">
+      <div className="relative h-5 rounded bg-muted/30">
+        {entries.map((entry, index) =>
+          gaps[index] >= LATENCY_GAP_MS ? (
+            <div
+              key={`gap-${entry.id}`}
+              className="absolute top-0 h-5 bg-yellow-500/20 border-x border-yellow-500/50"
+              style={{
+                left: `${offset(entries[index - 1])}%`,
+                width: `${offset(entry) - offset(entries[index - 1])}%`,
+              }}
+              title={`${formatGap(gaps[index])} gap`}
+            />
+          ) : null
+        )}
+        {entries.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            className={`absolute top-0.5 h-4 w-0.5 -ml-px ${
+              entry.direction === 'to' ? 'bg-blue-500' : 'bg-green-500'
+            } ${entry.id === selectedId ? 'ring-1 ring-primary' : ''}`}
+            style={{ left: `${offset(entry)}%` }}
+            title={`${entry.timestamp.toLocaleTimeString()} ${entry.messageType ?? ''}`}
+            onClick={() => onSelect?.(entry)}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{entries[0].timestamp.toLocaleTimeString()}</span>
+        <span>{formatGap(span)}</span>
+        <span>{entries[entries.length - 1].timestamp.toLocaleTimeString()}</span>
+      </div>
+    </div>
+  );
+};
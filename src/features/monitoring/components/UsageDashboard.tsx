@@ -1,196 +1,256 @@
 import React, { useEffect, useState } from 'react';
 import { useMonitoringStore } from '@/stores';
-import { SessionBlock } from '@/entities/SessionBlock';
-import { formatCostUSD } from '@/monitoring/utils/costCalculator';
-import { UsageStats } from './UsageStats';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AnalyticsPeriod, UsageDimension, UsageTotals } from '@/monitoring/interfaces/types';
+import { formatCostUSD, getPricingTable } from '@/monitoring/utils/costCalculator';
+import { Button } from '@/components/ui/button';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, Loader2, RefreshCw } from 'lucide-react';
 
-export const UsageDashboard: React.FC = () => {
-  const { isInitialized, activeSession, error, initialize, fetchActiveSession } =
-    useMonitoringStore();
-
-  const [selectedSession, setSelectedSession] = useState<SessionBlock | null>(null);
-  const [allSessions, setAllSessions] = useState<SessionBlock[]>([]);
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
 
-  useEffect(() => {
-    if (!isInitialized) {
-      initialize().then(() => {
-        fetchActiveSession();
-      });
-    }
-  }, [isInitialized, initialize, fetchActiveSession]);
+const DIMENSION_LABELS: Record<UsageDimension, string> = {
+  model: 'Model',
+  worktree: 'Worktree',
+  agent: 'Agent',
+};
 
-  useEffect(() => {
-    // Update sessions list when active session changes
-    if (activeSession) {
-      setAllSessions((prev) => {
-        const exists = prev.find((s) => s.id === activeSession.id);
-        if (exists) {
-          return prev.map((s) => (s.id === activeSession.id ? activeSession : s));
-        }
-        return [...prev, activeSession];
-      });
-    }
-  }, [activeSession]);
+// Number of most recent buckets drawn in the chart
+const CHART_BUCKETS = 14;
 
-  const calculateTotalStats = () => {
-    const totalTokens = allSessions.reduce(
-      (sum: number, session: SessionBlock) => sum + session.getTotalTokens(),
-      0
-    );
-    const totalCost = allSessions.reduce(
-      (sum: number, session: SessionBlock) => sum + session.costUSD,
-      0
-    );
-    const totalDuration = allSessions.reduce(
-      (sum: number, session: SessionBlock) => sum + session.getDuration(),
-      0
-    );
+const formatPercent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
 
-    return {
-      sessions: allSessions.length,
-      tokens: totalTokens,
-      cost: totalCost,
-      durationHours: Math.round((totalDuration / 1000 / 60 / 60) * 10) / 10,
-    };
-  };
+const formatBucketLabel = (start: string, period: AnalyticsPeriod): string => {
+  const [year, month, day] = start.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (period === 'month') {
+    return date.toLocaleDateString([], { month: 'short', year: 'numeric' });
+  }
+  const label = date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return period === 'week' ? `Week of ${label}` : label;
+};
 
-  const formatSessionTime = (session: SessionBlock) => {
-    const date = new Date(session.startTime);
-    const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    const today = new Date();
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({
+  label,
+  value,
+  detail,
+}) => (
+  <div className="rounded-md border border-border p-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-semibold">{value}</div>
+    {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+  </div>
+);
 
-    if (date.toDateString() === today.toDateString()) {
-      return `Today at ${time}`;
-    }
+export const UsageDashboard: React.FC = () => {
+  const { analytics, analyticsPeriod, isLoadingAnalytics, error, fetchAnalytics, exportUsage } =
+    useMonitoringStore();
+  const [dimension, setDimension] = useState<UsageDimension>('model');
 
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
 
-    if (date.toDateString() === yesterday.toDateString()) {
-      return `Yesterday at ${time}`;
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const filePath = await exportUsage(format);
+      if (filePath) {
+        toastSuccess(`Usage exported to ${filePath}`);
+      }
+    } catch (exportError) {
+      toastError(exportError instanceof Error ? exportError.message : 'Failed to export usage');
     }
-
-    return date.toLocaleDateString([], { month: 'short', day: 'numeric' }) + ` at ${time}`;
   };
 
-  if (error) {
+  if (error && !analytics) {
     return (
-      <div>
-        <div>
-          <h3>Unable to load usage data</h3>
-          <p>{error}</p>
-        </div>
+      <div className="p-4">
+        <h3 className="font-semibold">Unable to load usage data</h3>
+        <p className="text-sm text-muted-foreground">{error}</p>
       </div>
     );
   }
 
-  const stats = calculateTotalStats();
+  const buckets = analytics?.buckets.slice(-CHART_BUCKETS) ?? [];
+  const maxBucketCost = Math.max(...buckets.map((bucket) => bucket.totals.costUSD), 0);
+  const rows: Array<[string, UsageTotals]> = analytics
+    ? Object.entries(analytics.breakdown[dimension]).sort(([, a], [, b]) => b.costUSD - a.costUSD)
+    : [];
+  const burnRate = analytics?.burnRate;
 
   return (
-    <div>
-      <h2>Claude Code Usage Monitor</h2>
-
-      <Tabs defaultValue="current" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="current">Current Session</TabsTrigger>
-          <TabsTrigger value="history">History</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="current">
-          <UsageStats />
-        </TabsContent>
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Usage Analytics</h2>
+        <div className="flex items-center gap-2">
+          <Tabs
+            value={analyticsPeriod}
+            onValueChange={(value) => fetchAnalytics(value as AnalyticsPeriod)}
+          >
+            <TabsList>
+              {(Object.keys(PERIOD_LABELS) as AnalyticsPeriod[]).map((period) => (
+                <TabsTrigger key={period} value={period}>
+                  {PERIOD_LABELS[period]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            title="Refresh"
+            onClick={() => fetchAnalytics()}
+            disabled={isLoadingAnalytics}
+          >
+            {isLoadingAnalytics ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </Button>
+        </div>
+      </div>
 
-        <TabsContent value="history">
-          <div>
-            <div>
-              <div>Total Sessions</div>
-              <div>{stats.sessions}</div>
-            </div>
-            <div>
-              <div>Total Tokens</div>
-              <div>{stats.tokens.toLocaleString()}</div>
-            </div>
-            <div>
-              <div>Total Cost</div>
-              <div>{formatCostUSD(stats.cost)}</div>
-            </div>
-            <div>
-              <div>Total Time</div>
-              <div>{stats.durationHours}h</div>
-            </div>
+      {!analytics ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading usage...
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-3">
+            <StatCard
+              label="Total Cost"
+              value={formatCostUSD(analytics.totals.costUSD)}
+              detail={`Prices as of ${getPricingTable().updatedAt}`}
+            />
+            <StatCard
+              label="Total Tokens"
+              value={analytics.totals.totalTokens.toLocaleString()}
+              detail={`${analytics.totals.requests.toLocaleString()} requests`}
+            />
+            <StatCard
+              label="Cache Hit Ratio"
+              value={formatPercent(analytics.totals.cacheHitRatio)}
+              detail={`${analytics.totals.cacheReadInputTokens.toLocaleString()} tokens read from cache`}
+            />
+            {burnRate ? (
+              <StatCard
+                label="Current Block"
+                value={`${formatCostUSD(burnRate.costUSD)} → ${formatCostUSD(burnRate.projectedCostUSD)}`}
+                detail={`${formatCostUSD(burnRate.costPerHour)}/h, ${Math.round(
+                  burnRate.tokensPerMinute
+                ).toLocaleString()} tokens/min until ${new Date(
+                  burnRate.blockEnd
+                ).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+              />
+            ) : (
+              <StatCard label="Current Block" value="Idle" detail="No active 5-hour block" />
+            )}
           </div>
 
           <div>
-            <h3>Session History</h3>
-            <div>
-              {allSessions.map((session) => (
-                <div key={session.id} onClick={() => setSelectedSession(session)}>
-                  <div>
-                    <span>{formatSessionTime(session)}</span>
-                    {session.isActive && <span>Active</span>}
-                    {session.isGap && <span>Gap</span>}
-                  </div>
-                  <div>
-                    <span>{session.getTotalTokens().toLocaleString()} tokens</span>
-                    <span>{formatCostUSD(session.costUSD)}</span>
-                    <span>{Math.round(session.getDuration() / 1000 / 60)} min</span>
-                  </div>
-                  <div>
-                    {session.models.slice(0, 2).map((model, idx) => (
-                      <span key={idx}>{model}</span>
-                    ))}
-                    {session.models.length > 2 && <span>+{session.models.length - 2}</span>}
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          {selectedSession && (
-            <div>
-              <h3>Session Details</h3>
-              <div>
-                <div>
-                  <span>Session ID:</span>
-                  <span>{selectedSession.id}</span>
-                </div>
-                <div>
-                  <span>Start Time:</span>
-                  <span>{new Date(selectedSession.startTime).toLocaleString()}</span>
-                </div>
-                <div>
-                  <span>End Time:</span>
-                  <span>
-                    {new Date(
-                      selectedSession.actualEndTime || selectedSession.endTime
-                    ).toLocaleString()}
-                  </span>
-                </div>
-                <div>
-                  <span>Messages:</span>
-                  <span>{selectedSession.entries.length}</span>
-                </div>
-                <div>
-                  <h4>Token Breakdown</h4>
-                  <div>
-                    <div>Input: {selectedSession.tokenCounts.inputTokens.toLocaleString()}</div>
-                    <div>Output: {selectedSession.tokenCounts.outputTokens.toLocaleString()}</div>
-                    <div>
-                      Cache Creation:{' '}
-                      {selectedSession.tokenCounts.cacheCreationInputTokens.toLocaleString()}
-                    </div>
-                    <div>
-                      Cache Read:{' '}
-                      {selectedSession.tokenCounts.cacheReadInputTokens.toLocaleString()}
+            <h3 className="text-sm font-semibold mb-2">{PERIOD_LABELS[analyticsPeriod]} Cost</h3>
+            {buckets.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No usage recorded</div>
+            ) : (
+              <div className="flex flex-col gap-1">
+                {buckets.map((bucket) => (
+                  <div key={bucket.start} className="flex items-center gap-2 text-xs">
+                    <span className="w-28 shrink-0 text-muted-foreground">
+                      {formatBucketLabel(bucket.start, analyticsPeriod)}
+                    </span>
+                    <div className="flex-1 h-3 rounded bg-muted">
+                      <div
+                        className="h-3 rounded bg-primary"
+                        style={{
+                          width: `${maxBucketCost > 0 ? (bucket.totals.costUSD / maxBucketCost) * 100 : 0}%`,
+                        }}
+                      />
                     </div>
+                    <span className="w-20 shrink-0 text-right">
+                      {formatCostUSD(bucket.totals.costUSD)}
+                    </span>
+                    <span className="w-28 shrink-0 text-right text-muted-foreground">
+                      {bucket.totals.totalTokens.toLocaleString()} tokens
+                    </span>
                   </div>
-                </div>
+                ))}
               </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Breakdown</h3>
+              <Tabs
+                value={dimension}
+                onValueChange={(value) => setDimension(value as UsageDimension)}
+              >
+                <TabsList>
+                  {(Object.keys(DIMENSION_LABELS) as UsageDimension[]).map((key) => (
+                    <TabsTrigger key={key} value={key}>
+                      {DIMENSION_LABELS[key]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
             </div>
-          )}
-        </TabsContent>
-      </Tabs>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{DIMENSION_LABELS[dimension]}</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cache Hits</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(([key, totals]) => (
+                  <TableRow key={key}>
+                    <TableCell className="max-w-[320px] truncate" title={key}>
+                      {key}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCostUSD(totals.costUSD)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatPercent(
+                        analytics.totals.costUSD > 0 ? totals.costUSD / analytics.totals.costUSD : 0
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {totals.totalTokens.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatPercent(totals.cacheHitRatio)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
     </div>
   );
 };
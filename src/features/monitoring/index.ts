@@ -6,6 +6,8 @@ export * from './components/UsageStats';
 export * from './components/ContextUsageIndicator';
 export * from './components/ToolPairDisplay';
 export * from './components/TraceTab';
+export * from './components/TraceTimeline';
+export * from './components/NetworkTab';
 export * from './components/ToolUsageDisplay';
 export * from './components/StreamingEventDisplay';
 export * from './components/RequestTiming';
@@ -0,0 +1,200 @@
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+
+/**
+ * Gaps between consecutive messages at least this long are highlighted as latency
+ */
+export const LATENCY_GAP_MS = 5000;
+
+/**
+ * A trace message from either the live chat or a trace file
+ */
+export interface TraceViewEntry {
+  id: string;
+  timestamp: Date;
+  direction: 'to' | 'from';
+  message: any;
+  messageType?: string;
+  messageSubtype?: string;
+  /** Pairs a prompt with the messages it produced; only trace files carry one */
+  correlationId?: string;
+  sequenceNumber?: number;
+}
+
+export interface TraceFilter {
+  messageType?: string;
+  messageSubtype?: string;
+  direction?: 'to' | 'from';
+  toolName?: string;
+  search?: string;
+}
+
+/**
+ * A prompt and the messages it produced
+ */
+export interface TraceGroup {
+  correlationId: string;
+  entries: TraceViewEntry[];
+  startTime: Date;
+  durationMs: number;
+}
+
+export const fromChatTrace = (entry: {
+  id: string;
+  timestamp: Date;
+  direction: 'to' | 'from';
+  message: any;
+}): TraceViewEntry => ({
+  ...entry,
+  ...(typeof entry.message?.type === 'string' && { messageType: entry.message.type }),
+  ...(typeof entry.message?.subtype === 'string' && { messageSubtype: entry.message.subtype }),
+});
+
+export const fromTraceFile = (entries: TraceFileEntry[]): TraceViewEntry[] =>
+  entries.map((entry, index) => ({
+    id: `${entry.correlationId}-${entry.sequenceNumber}-${index}`,
+    timestamp: new Date(entry.timestamp),
+    direction: entry.direction === 'to-claude' ? 'to' : 'from',
+    message: entry.rawMessage,
+    correlationId: entry.correlationId,
+    sequenceNumber: entry.sequenceNumber,
+    ...(entry.messageType && { messageType: entry.messageType }),
+    ...(entry.messageSubtype && { messageSubtype: entry.messageSubtype }),
+  }));
+
+/**
+ * Content blocks of an SDK message, or of a message rebuilt from chat history
+ */
+const getContentBlocks = (message: any): any[] => {
+  const blocks = [
+    ...(Array.isArray(message?.message?.content) ? message.message.content : []),
+    ...(Array.isArray(message?.tool_calls) ? message.tool_calls : []),
+    ...(Array.isArray(message?.tool_results) ? message.tool_results : []),
+  ];
+  return blocks.filter((block) => block && typeof block === 'object');
+};
+
+/**
+ * Map tool_use ids to tool names, so tool results can be matched by tool name too
+ */
+const buildToolNameIndex = (entries: TraceViewEntry[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  for (const entry of entries) {
+    for (const block of getContentBlocks(entry.message)) {
+      if (block.type === 'tool_use' && block.id && block.name) {
+        index.set(block.id, block.name);
+      }
+    }
+  }
+  return index;
+};
+
+const getToolNames = (entry: TraceViewEntry, toolNameIndex: Map<string, string>): string[] => {
+  const names = new Set<string>();
+  for (const block of getContentBlocks(entry.message)) {
+    if (block.type === 'tool_use' && block.name) {
+      names.add(block.name);
+    } else if (block.type === 'tool_result' && toolNameIndex.has(block.tool_use_id)) {
+      names.add(toolNameIndex.get(block.tool_use_id)!);
+    }
+  }
+  return [...names];
+};
+
+/**
+ * Values the filters can take, from the entries at hand
+ */
+export const getFilterOptions = (
+  entries: TraceViewEntry[]
+): { messageTypes: string[]; messageSubtypes: string[]; toolNames: string[] } => {
+  const messageTypes = new Set<string>();
+  const messageSubtypes = new Set<string>();
+  const toolNames = new Set<string>();
+  const toolNameIndex = buildToolNameIndex(entries);
+
+  for (const entry of entries) {
+    if (entry.messageType) messageTypes.add(entry.messageType);
+    if (entry.messageSubtype) messageSubtypes.add(entry.messageSubtype);
+    getToolNames(entry, toolNameIndex).forEach((name) => toolNames.add(name));
+  }
+
+  return {
+    messageTypes: [...messageTypes].sort(),
+    messageSubtypes: [...messageSubtypes].sort(),
+    toolNames: [...toolNames].sort(),
+  };
+};
+
+export const filterTraceEntries = (
+  entries: TraceViewEntry[],
+  filter: TraceFilter
+): TraceViewEntry[] => {
+  const toolNameIndex = filter.toolName ? buildToolNameIndex(entries) : null;
+  const search = filter.search?.trim().toLowerCase();
+
+  return entries.filter((entry) => {
+    if (filter.messageType && entry.messageType !== filter.messageType) return false;
+    if (filter.messageSubtype && entry.messageSubtype !== filter.messageSubtype) return false;
+    if (filter.direction && entry.direction !== filter.direction) return false;
+    if (toolNameIndex && !getToolNames(entry, toolNameIndex).includes(filter.toolName!)) {
+      return false;
+    }
+    if (search) {
+      try {
+        return JSON.stringify(entry.message).toLowerCase().includes(search);
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  });
+};
+
+/**
+ * Group entries by correlation id, in order of their first message
+ * Entries without one (the live chat) are grouped per prompt instead.
+ */
+export const groupByCorrelation = (entries: TraceViewEntry[]): TraceGroup[] => {
+  const groups = new Map<string, TraceViewEntry[]>();
+  let turn = 0;
+
+  for (const entry of entries) {
+    if (!entry.correlationId && entry.direction === 'to') {
+      turn++;
+    }
+    const key = entry.correlationId ?? `turn-${turn}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  return [...groups.entries()].map(([correlationId, groupEntries]) => {
+    const startTime = groupEntries[0].timestamp;
+    const endTime = groupEntries[groupEntries.length - 1].timestamp;
+    return {
+      correlationId,
+      entries: groupEntries,
+      startTime,
+      durationMs: endTime.getTime() - startTime.getTime(),
+    };
+  });
+};
+
+/**
+ * Milliseconds since the previous entry, 0 for the first
+ */
+export const getLatencyGaps = (entries: TraceViewEntry[]): number[] =>
+  entries.map((entry, index) =>
+    index === 0
+      ? 0
+      : Math.max(0, entry.timestamp.getTime() - entries[index - 1].timestamp.getTime())
+  );
+
+export const formatGap = (ms: number): string =>
+  ms < 1000
+    ? `${ms}ms`
+    : ms < 60_000
+      ? `${(ms / 1000).toFixed(1)}s`
+      : `${Math.round(ms / 60_000)}m`;
@@ -9,25 +9,70 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/features/shared/components/ui/Input';
 import { Modal } from '@/features/shared/components/ui/Modal';
 import { LLMConfig, LLMService } from '@/renderer/services/LLMService';
-import { useUIStore } from '@/stores';
+import { useAgentsStore, useProjectsStore, useUIStore } from '@/stores';
 import { useSettingsStore } from '@/stores/settings';
+import type { MessageQueueMode } from '@/stores/types';
+import type { FetchCacheConfig, TelemetryConfig } from '@/types/config.types';
 import { DEFAULT_MODEL, MODEL_OPTIONS, ModelOption } from '@/types/model.types';
 import {
   DEFAULT_PERMISSION_MODE,
   PERMISSION_MODES,
   PermissionMode,
+  PermissionRule,
 } from '@/types/permission.types';
 import type { IconName } from '@/features/shared/components/ui/Icon';
 import { Icon } from '@/features/shared/components/ui/Icon';
 import React, { useCallback, useEffect, useState } from 'react';
+import {
+  FetchCacheForm,
+  FetchCachePanel,
+  fromFetchCacheForm,
+  toFetchCacheForm,
+} from './FetchCachePanel';
+import { EffectiveSettingsPanel } from './EffectiveSettingsPanel';
+import { SecretsPanel } from './SecretsPanel';
+import { PermissionRulesEditor } from './PermissionRulesEditor';
 
 interface AppSettingsProps {
   onClose: () => void;
 }
 
+// Telemetry headers are edited as one `Name: value` per line
+const formatHeaders = (headers: Record<string, string> = {}): string =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map((line) => [
+        line.slice(0, line.indexOf(':')).trim(),
+        line.slice(line.indexOf(':') + 1).trim(),
+      ])
+      .filter(([name]) => name !== '')
+  );
+
+const buildTelemetryConfig = (
+  enabled: boolean,
+  endpoint: string,
+  headers: string,
+  filePath: string
+): TelemetryConfig => {
+  const parsedHeaders = parseHeaders(headers);
+  return {
+    enabled,
+    ...(endpoint.trim() && { endpoint: endpoint.trim() }),
+    ...(Object.keys(parsedHeaders).length > 0 && { headers: parsedHeaders }),
+    ...(filePath.trim() && { filePath: filePath.trim() }),
+  };
+};
+
 export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
   const [config, setConfig] = useState<LLMConfig>({
     provider: 'claude-code',
@@ -51,6 +96,7 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
 
   // Local state for maxTurns and defaultModel (loaded from settings store)
   const [maxTurns, setMaxTurns] = useState<number | null>(null); // null = unlimited
+  const [messageQueueMode, setMessageQueueMode] = useState<MessageQueueMode>('sequential');
   const [defaultModel, setDefaultModel] = useState<ModelOption>(DEFAULT_MODEL);
   const [fontFamily, setFontFamily] = useState<string>(
     'Fira Code, SF Mono, Monaco, Consolas, monospace'
@@ -79,6 +125,8 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
   const [initialDevMode, setInitialDevMode] = useState<boolean | null>(null);
   const [initialProjectDirectory, setInitialProjectDirectory] = useState<string | null>(null);
   const [initialMaxTurns, setInitialMaxTurns] = useState<number | null>(null); // null = unlimited
+  const [initialMessageQueueMode, setInitialMessageQueueMode] =
+    useState<MessageQueueMode>('sequential');
   const [initialDefaultModel, setInitialDefaultModel] = useState<ModelOption | null>(null);
   const [initialFontFamily, setInitialFontFamily] = useState<string | null>(null);
   const [initialFontSize, setInitialFontSize] = useState<'small' | 'medium' | 'large' | null>(null);
@@ -91,6 +139,29 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
     PermissionMode | undefined
   >(undefined);
 
+  // Permission rules of the selected worktree
+  const selectedProjectId = useProjectsStore((state) => state.selectedProjectId);
+  const selectedAgentId = useAgentsStore((state) => state.selectedAgentId);
+  const [permissionRules, setPermissionRules] = useState<PermissionRule[]>([]);
+  const [initialPermissionRules, setInitialPermissionRules] = useState<PermissionRule[]>([]);
+
+  // OpenTelemetry export (app.json)
+  const [telemetryEnabled, setTelemetryEnabled] = useState<boolean>(false);
+  const [telemetryEndpoint, setTelemetryEndpoint] = useState<string>('');
+  const [telemetryHeaders, setTelemetryHeaders] = useState<string>('');
+  const [telemetryFilePath, setTelemetryFilePath] = useState<string>('');
+  const [initialTelemetry, setInitialTelemetry] = useState<TelemetryConfig>({ enabled: false });
+  const telemetry = buildTelemetryConfig(
+    telemetryEnabled,
+    telemetryEndpoint,
+    telemetryHeaders,
+    telemetryFilePath
+  );
+
+  // Fetch cache (app.json over FETCH_CACHE_* variables)
+  const [fetchCacheForm, setFetchCacheForm] = useState<FetchCacheForm | null>(null);
+  const [initialFetchCacheForm, setInitialFetchCacheForm] = useState<FetchCacheForm | null>(null);
+
   // Check if any settings have changed
   const hasChanges = () => {
     if (
@@ -117,6 +188,9 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
     // Check if max turns changed
     if (maxTurns !== initialMaxTurns) return true;
 
+    // Check if message queue mode changed
+    if (messageQueueMode !== initialMessageQueueMode) return true;
+
     // Check if default model changed
     if (defaultModel !== initialDefaultModel) return true;
 
@@ -138,6 +212,15 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
     // Check if defaultPermissionMode changed
     if (defaultPermissionMode !== initialDefaultPermissionMode) return true;
 
+    // Check if permission rules changed
+    if (JSON.stringify(permissionRules) !== JSON.stringify(initialPermissionRules)) return true;
+
+    // Check if telemetry settings changed
+    if (JSON.stringify(telemetry) !== JSON.stringify(initialTelemetry)) return true;
+
+    // Check if fetch cache settings changed
+    if (JSON.stringify(fetchCacheForm) !== JSON.stringify(initialFetchCacheForm)) return true;
+
     // Check if LLM config changed
     return JSON.stringify(config) !== JSON.stringify(initialConfig);
   };
@@ -233,6 +316,12 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
     };
     loadMaxTurns();
 
+    // Load messageQueueMode from settings store
+    const currentMessageQueueMode =
+      useSettingsStore.getState().preferences.messageQueueMode ?? 'sequential';
+    setMessageQueueMode(currentMessageQueueMode);
+    setInitialMessageQueueMode(currentMessageQueueMode);
+
     // Load defaultModel from settings store
     const loadDefaultModel = () => {
       const currentDefaultModel =
@@ -309,8 +398,75 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
       logger.info('[AppSettings] Loaded defaultPermissionMode:', currentDefaultPermissionMode);
     };
     loadDefaultPermissionMode();
+
+    // Load OpenTelemetry export settings from app.json
+    const loadTelemetry = async () => {
+      try {
+        const saved: TelemetryConfig =
+          await window.electron.ipcRenderer.invoke('config:getTelemetry');
+        const loaded = buildTelemetryConfig(
+          !!saved?.enabled,
+          saved?.endpoint || '',
+          formatHeaders(saved?.headers),
+          saved?.filePath || ''
+        );
+        setTelemetryEnabled(!!loaded.enabled);
+        setTelemetryEndpoint(loaded.endpoint || '');
+        setTelemetryHeaders(formatHeaders(loaded.headers));
+        setTelemetryFilePath(loaded.filePath || '');
+        setInitialTelemetry(loaded);
+      } catch (error) {
+        logger.error('[AppSettings] Failed to load telemetry settings:', error);
+      }
+    };
+    void loadTelemetry();
+
+    // Load fetch cache settings in effect
+    const loadFetchCache = async () => {
+      try {
+        const current: Required<FetchCacheConfig> =
+          await window.electron.ipcRenderer.invoke('config:getFetchCache');
+        const form = toFetchCacheForm(current);
+        setFetchCacheForm(form);
+        setInitialFetchCacheForm(form);
+      } catch (error) {
+        logger.error('[AppSettings] Failed to load fetch cache settings:', error);
+      }
+    };
+    void loadFetchCache();
   }, []); // Only run once on mount
 
+  // Load permission rules for the selected worktree
+  useEffect(() => {
+    if (!selectedProjectId) {
+      setPermissionRules([]);
+      setInitialPermissionRules([]);
+      return;
+    }
+
+    const loadPermissionRules = async () => {
+      try {
+        const rules: PermissionRule[] = await window.electron.ipcRenderer.invoke(
+          'config:getPermissionRules',
+          selectedProjectId
+        );
+        setPermissionRules(rules);
+        setInitialPermissionRules(rules);
+      } catch (error) {
+        logger.error('[AppSettings] Failed to load permission rules:', error);
+      }
+    };
+    void loadPermissionRules();
+  }, [selectedProjectId]);
+
+  // Reload the imported settings everywhere; the form still holds the old values
+  const handleSettingsImported = async () => {
+    await useSettingsStore.getState().initialize();
+    const { toast } = await import('@/commons/utils/ui/toast_utils');
+    toast.success('Settings imported');
+    onClose();
+  };
+
   // Handle project directory input change
   const handleProjectDirectoryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setProjectDirectoryInput(e.target.value);
@@ -531,6 +687,18 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
         logger.info('[LLMSettings] fontSize unchanged, skipping save:', fontSize);
       }
 
+      // Save messageQueueMode if changed
+      if (messageQueueMode !== initialMessageQueueMode) {
+        try {
+          await useSettingsStore.getState().updatePreferences({ messageQueueMode });
+          logger.info('[AppSettings] Successfully saved messageQueueMode:', messageQueueMode);
+          setInitialMessageQueueMode(messageQueueMode);
+        } catch (error) {
+          logger.error('[AppSettings] Failed to save messageQueueMode:', error);
+          throw error;
+        }
+      }
+
       // Save confirmSessionTabDeletion if changed
       if (confirmSessionTabDeletion !== initialConfirmSessionTabDeletion) {
         try {
@@ -621,6 +789,64 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
         );
       }
 
+      // Save permission rules if changed (rules without a tool are dropped)
+      if (
+        selectedProjectId &&
+        JSON.stringify(permissionRules) !== JSON.stringify(initialPermissionRules)
+      ) {
+        const rules = permissionRules
+          .map((rule) => ({ ...rule, tool: rule.tool.trim(), pattern: rule.pattern?.trim() }))
+          .filter((rule) => rule.tool !== '')
+          .map(({ pattern, ...rule }) => (pattern ? { ...rule, pattern } : rule));
+        const result = await window.electron.ipcRenderer.invoke(
+          'config:savePermissionRules',
+          selectedProjectId,
+          rules
+        );
+        if (result && result.success === false) {
+          throw new Error(result.message || 'Failed to save permission rules');
+        }
+        logger.info('[AppSettings] Saved permission rules:', {
+          worktreeId: selectedProjectId,
+          ruleCount: rules.length,
+        });
+        setPermissionRules(rules);
+        setInitialPermissionRules(rules);
+      }
+
+      // Save telemetry settings if changed
+      if (JSON.stringify(telemetry) !== JSON.stringify(initialTelemetry)) {
+        const result = await window.electron.ipcRenderer.invoke('config:saveTelemetry', telemetry);
+        if (result && result.success === false) {
+          throw new Error(result.message || 'Failed to save telemetry settings');
+        }
+        logger.info('[AppSettings] Saved telemetry settings:', {
+          enabled: telemetry.enabled,
+          endpoint: telemetry.endpoint,
+          filePath: telemetry.filePath,
+        });
+        setInitialTelemetry(telemetry);
+      }
+
+      // Save fetch cache settings if changed
+      if (
+        fetchCacheForm &&
+        JSON.stringify(fetchCacheForm) !== JSON.stringify(initialFetchCacheForm)
+      ) {
+        const fetchCache = fromFetchCacheForm(fetchCacheForm);
+        const result = await window.electron.ipcRenderer.invoke(
+          'config:saveFetchCache',
+          fetchCache
+        );
+        if (result && result.success === false) {
+          throw new Error(result.message || 'Failed to save fetch cache settings');
+        }
+        logger.info('[AppSettings] Saved fetch cache settings:', fetchCache);
+        const form = toFetchCacheForm(fetchCache);
+        setFetchCacheForm(form);
+        setInitialFetchCacheForm(form);
+      }
+
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save configuration');
@@ -808,6 +1034,74 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground tracking-wide">Telemetry</h3>
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="telemetry-enabled-checkbox"
+                checked={telemetryEnabled}
+                onCheckedChange={(checked) => setTelemetryEnabled(checked as boolean)}
+              />
+              <label htmlFor="telemetry-enabled-checkbox" className="cursor-pointer">
+                <span className="text-sm text-foreground">Export OpenTelemetry Traces</span>
+              </label>
+            </div>
+            <p className="text-xs text-muted-foreground mt-0.5 m-0">
+              Each turn becomes a span, with a child span per tool call and token usage and cost as
+              attributes.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-foreground m-0">OTLP Endpoint</p>
+            <Input
+              id="telemetry-endpoint-input"
+              type="text"
+              value={telemetryEndpoint}
+              onChange={(e) => setTelemetryEndpoint(e.target.value)}
+              placeholder="http://localhost:4318/v1/traces"
+              disabled={!telemetryEnabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-foreground m-0">Headers</p>
+            <Textarea
+              id="telemetry-headers-input"
+              value={telemetryHeaders}
+              onChange={(e) => setTelemetryHeaders(e.target.value)}
+              placeholder="Authorization: Bearer <token>"
+              rows={2}
+              className="font-mono text-xs"
+              disabled={!telemetryEnabled}
+            />
+            <p className="text-xs text-muted-foreground mt-0.5 m-0">
+              One `Name: value` per line, sent with every export.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-foreground m-0">Output File</p>
+            <Input
+              id="telemetry-file-input"
+              type="text"
+              value={telemetryFilePath}
+              onChange={(e) => setTelemetryFilePath(e.target.value)}
+              placeholder="~/.autosteer/telemetry/traces.jsonl"
+              disabled={!telemetryEnabled}
+            />
+            <p className="text-xs text-muted-foreground mt-0.5 m-0">
+              For offline use: appends one OTLP JSON export per line. Leave the endpoint empty to
+              only write the file.
+            </p>
+          </div>
+        </div>
+
+        {fetchCacheForm && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-foreground tracking-wide">Fetch Cache</h3>
+            <FetchCachePanel form={fetchCacheForm} onChange={setFetchCacheForm} />
+          </div>
+        )}
+
         {/* Python Runtime Settings */}
         <div className="space-y-2">
           <h3 className="text-sm font-semibold text-foreground tracking-wide">Python Runtime</h3>
@@ -914,6 +1208,24 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
               messages using the permission selector in the chat input.
             </p>
           </div>
+          <div className="space-y-1 mt-4">
+            <p className="text-sm text-foreground m-0">
+              Permission Rules{selectedProjectId ? ` for ${selectedProjectId}` : ''}
+            </p>
+            {selectedProjectId ? (
+              <PermissionRulesEditor rules={permissionRules} onChange={setPermissionRules} />
+            ) : (
+              <p className="text-xs text-muted-foreground m-0">
+                Select a project to edit its permission rules.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground mt-0.5 m-0">
+              Enforced for every session in this worktree, whatever the permission mode. Rules are
+              checked top to bottom and the first match wins. Patterns match the Bash command (`npm
+              test:*` for a prefix), the file path relative to the worktree (`!src/**` for anything
+              outside src), or the WebFetch host; separate alternatives with commas.
+            </p>
+          </div>
         </div>
 
         <div className="space-y-2">
@@ -950,6 +1262,25 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
               "Unlimited" allows sessions to continue indefinitely.
             </p>
           </div>
+          <div className="space-y-1 mt-4">
+            <p className="text-sm text-foreground m-0">Queued Messages</p>
+            <Select
+              value={messageQueueMode}
+              onValueChange={(value) => setMessageQueueMode(value as MessageQueueMode)}
+            >
+              <SelectTrigger id="message-queue-mode-select" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sequential">Send one by one</SelectItem>
+                <SelectItem value="merged">Merge into one prompt</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-0.5 m-0">
+              Messages sent while Claude is still working are queued and sent when the turn ends,
+              either one per turn or combined into a single follow-up prompt.
+            </p>
+          </div>
           <div className="space-y-1 mt-4">
             <p className="text-sm text-foreground m-0">Default Model</p>
             <Select
@@ -994,6 +1325,22 @@ export const AppSettings: React.FC<AppSettingsProps> = ({ onClose }) => {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground tracking-wide">
+            Effective Settings
+          </h3>
+          <EffectiveSettingsPanel
+            worktreeId={selectedProjectId}
+            agentId={selectedAgentId}
+            onImported={() => void handleSettingsImported()}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground tracking-wide">Secrets</h3>
+          <SecretsPanel />
+        </div>
+
         <div className="space-y-2">
           <h3 className="text-sm font-semibold text-foreground tracking-wide">Data Directories</h3>
           <div className="space-y-1">
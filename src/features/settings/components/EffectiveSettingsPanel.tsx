@@ -0,0 +1,170 @@
+import { logger } from '@/commons/utils/logger';
+import { Button } from '@/components/ui/button';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type {
+  EffectiveSettings,
+  SettingsLayer,
+  SettingsSection,
+  SettingsSource,
+} from '@/types/settings.schema';
+import { Download, RefreshCw, Upload } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+const SOURCE_LABELS: Record<SettingsSource, string> = {
+  default: 'Default',
+  user: 'User',
+  project: 'Project',
+  session: 'Session',
+};
+
+const SOURCE_CLASSES: Record<SettingsSource, string> = {
+  default: 'text-muted-foreground',
+  user: 'text-foreground',
+  project: 'text-primary',
+  session: 'text-primary',
+};
+
+const formatSettingValue = (value: unknown): string => {
+  if (value === undefined) return 'not set';
+  if (value === null) return 'none';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+};
+
+interface EffectiveSettingsPanelProps {
+  worktreeId: string | null;
+  agentId: string | null;
+  onImported: (layer: SettingsLayer) => void;
+}
+
+/**
+ * Every setting's value in effect for the selected project and agent, and the layer it
+ * came from, plus export and import of the user settings
+ */
+export const EffectiveSettingsPanel: React.FC<EffectiveSettingsPanelProps> = ({
+  worktreeId,
+  agentId,
+  onImported,
+}) => {
+  const [effective, setEffective] = useState<EffectiveSettings | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await window.electron.ipcRenderer.invoke(
+        'config:getEffectiveSettings',
+        worktreeId ?? undefined,
+        agentId ?? undefined
+      );
+      if (result && result.success === false) {
+        throw new Error(result.message || 'Failed to resolve settings');
+      }
+      setEffective(result);
+    } catch (error) {
+      logger.error('[EffectiveSettingsPanel] Failed to load effective settings:', error);
+    }
+  }, [worktreeId, agentId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleExport = async () => {
+    const result = await window.electron.ipcRenderer.invoke('config:exportSettings');
+    if (result && result.success === false) {
+      toastError(result.message || 'Failed to export settings');
+      return;
+    }
+    if (result) {
+      toastSuccess(`Settings exported to ${result}`);
+    }
+  };
+
+  const handleImport = async () => {
+    const result = await window.electron.ipcRenderer.invoke('config:importSettings');
+    if (result && result.success === false) {
+      toastError(result.message || 'Failed to import settings');
+      return;
+    }
+    if (result) {
+      onImported(result);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground m-0">
+        Later layers win: defaults, your settings, the project&apos;s .autosteer.json, then the
+        agent session.{' '}
+        {!worktreeId
+          ? 'Select a project to include its .autosteer.json.'
+          : effective?.projectFile
+            ? `Project values come from ${effective.projectFile}.`
+            : 'The selected project has no .autosteer.json.'}
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => void handleExport()}>
+          <Download className="h-3 w-3 mr-1" />
+          Export...
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => void handleImport()}>
+          <Upload className="h-3 w-3 mr-1" />
+          Import...
+        </Button>
+        <Button variant="ghost" size="icon-sm" title="Refresh" onClick={() => void refresh()}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {effective && effective.issues.length > 0 && (
+        <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive space-y-0.5">
+          {effective.issues.map((issue) => (
+            <div key={`${issue.source}:${issue.key}:${issue.message}`}>
+              {SOURCE_LABELS[issue.source]} {issue.key && <code>{issue.key}</code>}: {issue.message}{' '}
+              (ignored)
+            </div>
+          ))}
+        </div>
+      )}
+
+      {effective && (
+        <div className="max-h-64 overflow-auto border border-border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Setting</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead className="text-right">Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(effective.sources).map(([key, source]) => {
+                const [section, name] = key.split('.') as [SettingsSection, string];
+                const value = (effective.settings[section] as Record<string, unknown>)[name];
+                return (
+                  <TableRow key={key} className="text-xs">
+                    <TableCell className="font-mono">{key}</TableCell>
+                    <TableCell className="max-w-[240px] truncate" title={formatSettingValue(value)}>
+                      {formatSettingValue(value)}
+                    </TableCell>
+                    <TableCell className={`text-right ${SOURCE_CLASSES[source]}`}>
+                      {SOURCE_LABELS[source]}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toastError } from '@/components/ui/sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/features/shared/components/ui/Input';
+import type { FetchCacheConfig } from '@/types/config.types';
+import type { FetchCacheEntryInfo, FetchCacheSummary } from '@/types/fetch-cache.types';
+import { Pin, PinOff, RefreshCw, Trash2 } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Fetch cache settings as edited in the form; numbers and pattern lists stay text until saved
+ */
+export interface FetchCacheForm {
+  enabled: boolean;
+  ttl: string;
+  maxSize: string;
+  includes: string;
+  excludes: string;
+}
+
+export const toFetchCacheForm = (config: Required<FetchCacheConfig>): FetchCacheForm => ({
+  enabled: config.enabled,
+  ttl: String(config.ttl),
+  maxSize: String(config.maxSize),
+  includes: config.includes.join('\n'),
+  excludes: config.excludes.join('\n'),
+});
+
+const parsePatterns = (text: string): string[] =>
+  text
+    .split('\n')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern !== '');
+
+/**
+ * @throws If TTL or max size is not a positive whole number, or a pattern contains a comma
+ */
+export const fromFetchCacheForm = (form: FetchCacheForm): Required<FetchCacheConfig> => {
+  const ttl = Number(form.ttl);
+  const maxSize = Number(form.maxSize);
+  if (!Number.isInteger(ttl) || ttl <= 0) {
+    throw new Error('Fetch cache TTL must be a positive number of seconds');
+  }
+  if (!Number.isInteger(maxSize) || maxSize <= 0) {
+    throw new Error('Fetch cache max size must be a positive number of entries');
+  }
+
+  const includes = parsePatterns(form.includes);
+  const excludes = parsePatterns(form.excludes);
+  // Patterns reach the SDK subprocess as comma-separated environment variables
+  if ([...includes, ...excludes].some((pattern) => pattern.includes(','))) {
+    throw new Error('Fetch cache URL patterns cannot contain commas');
+  }
+
+  return { enabled: form.enabled, ttl, maxSize, includes, excludes };
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatExpiry = (entry: FetchCacheEntryInfo): string => {
+  if (entry.pinned) return 'never';
+  const remaining = entry.expiresAt - Date.now();
+  if (remaining <= 0) return 'expired';
+  const minutes = Math.round(remaining / 60000);
+  return minutes < 60 ? `${minutes}m` : `${(minutes / 60).toFixed(1)}h`;
+};
+
+interface FetchCachePanelProps {
+  form: FetchCacheForm;
+  onChange: (form: FetchCacheForm) => void;
+}
+
+/**
+ * Fetch cache settings plus an inspector for the shared cache database.
+ * Settings are saved with the rest of the settings; entry actions apply immediately.
+ */
+export const FetchCachePanel: React.FC<FetchCachePanelProps> = ({ form, onChange }) => {
+  const [summary, setSummary] = useState<FetchCacheSummary | null>(null);
+  const [entries, setEntries] = useState<FetchCacheEntryInfo[]>([]);
+  const [search, setSearch] = useState('');
+
+  const refresh = useCallback(async () => {
+    const [summaryResult, entriesResult] = await Promise.all([
+      window.electron.monitoring.getFetchCacheSummary(),
+      window.electron.monitoring.listFetchCacheEntries({ search: search.trim() }),
+    ]);
+    if (!summaryResult.success || !entriesResult.success) {
+      toastError(summaryResult.error || entriesResult.error || 'Failed to read fetch cache');
+      return;
+    }
+    setSummary(summaryResult.data ?? null);
+    setEntries(entriesResult.data ?? []);
+  }, [search]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handlePin = async (entry: FetchCacheEntryInfo) => {
+    const result = await window.electron.monitoring.pinFetchCacheEntry(entry.key, !entry.pinned);
+    if (!result.success) {
+      toastError(result.error || 'Failed to pin cache entry');
+    }
+    await refresh();
+  };
+
+  const handleDelete = async (entry: FetchCacheEntryInfo) => {
+    const result = await window.electron.monitoring.deleteFetchCacheEntry(entry.key);
+    if (!result.success) {
+      toastError(result.error || 'Failed to delete cache entry');
+    }
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    const result = await window.electron.monitoring.clearFetchCache();
+    if (!result.success) {
+      toastError(result.error || 'Failed to clear fetch cache');
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id="fetch-cache-enabled-checkbox"
+            checked={form.enabled}
+            onCheckedChange={(checked) => onChange({ ...form, enabled: checked as boolean })}
+          />
+          <label htmlFor="fetch-cache-enabled-checkbox" className="cursor-pointer">
+            <span className="text-sm text-foreground">Cache SDK and MCP Server Requests</span>
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground mt-0.5 m-0">
+          Changes apply to queries started after saving; no restart needed.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <p className="text-sm text-foreground m-0">TTL (seconds)</p>
+          <Input
+            id="fetch-cache-ttl-input"
+            type="number"
+            min={1}
+            value={form.ttl}
+            onChange={(e) => onChange({ ...form, ttl: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-sm text-foreground m-0">Max Entries</p>
+          <Input
+            id="fetch-cache-max-size-input"
+            type="number"
+            min={1}
+            value={form.maxSize}
+            onChange={(e) => onChange({ ...form, maxSize: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <p className="text-sm text-foreground m-0">Include URLs</p>
+          <Textarea
+            value={form.includes}
+            onChange={(e) => onChange({ ...form, includes: e.target.value })}
+            placeholder="api.anthropic.com"
+            rows={2}
+            className="font-mono text-xs"
+            aria-label="Include URL patterns"
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-sm text-foreground m-0">Exclude URLs</p>
+          <Textarea
+            value={form.excludes}
+            onChange={(e) => onChange({ ...form, excludes: e.target.value })}
+            placeholder="/v1/messages"
+            rows={2}
+            className="font-mono text-xs"
+            aria-label="Exclude URL patterns"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mt-0.5 m-0">
+        One regex or substring per line. With no include patterns every URL is cached.
+      </p>
+
+      {summary && (
+        <div className="grid grid-cols-4 gap-2 text-xs">
+          <div>
+            <div className="text-muted-foreground">Entries</div>
+            <div className="text-foreground">
+              {summary.entryCount}
+              {summary.pinnedCount > 0 && ` (${summary.pinnedCount} pinned)`}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Size</div>
+            <div className="text-foreground">{formatBytes(summary.totalSize)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Hit Rate</div>
+            <div className="text-foreground">
+              {(summary.hitRate * 100).toFixed(1)}% ({summary.hits}/{summary.hits + summary.misses})
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Evictions</div>
+            <div className="text-foreground">{summary.evictions}</div>
+          </div>
+        </div>
+      )}
+
+      {summary && summary.topUrls.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm text-foreground m-0">Top URLs</p>
+          <div className="text-xs font-mono space-y-0.5">
+            {summary.topUrls.map((top) => (
+              <div key={top.url} className="flex gap-2">
+                <span className="flex-1 truncate" title={top.url}>
+                  {top.url}
+                </span>
+                <span className="text-muted-foreground flex-shrink-0">
+                  {top.hits} hits, {top.entries} entries
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Input
+            size="sm"
+            className="flex-1"
+            placeholder="Filter entries by URL..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Button variant="ghost" size="icon-sm" title="Refresh" onClick={() => void refresh()}>
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void handleClear()}
+            disabled={!summary || summary.entryCount === 0}
+          >
+            Clear Cache
+          </Button>
+        </div>
+        {entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground m-0">No cached responses.</p>
+        ) : (
+          <div className="max-h-64 overflow-auto border border-border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Hits</TableHead>
+                  <TableHead className="text-right">Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.key} className="text-xs">
+                    <TableCell className="max-w-[280px] truncate font-mono" title={entry.url}>
+                      {entry.method && `${entry.method} `}
+                      {entry.url ?? entry.key}
+                    </TableCell>
+                    <TableCell className="text-right">{formatBytes(entry.size)}</TableCell>
+                    <TableCell className="text-right">{entry.hitCount}</TableCell>
+                    <TableCell className="text-right">{formatExpiry(entry)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title={entry.pinned ? 'Unpin' : 'Pin (never expires)'}
+                        onClick={() => void handlePin(entry)}
+                      >
+                        {entry.pinned ? (
+                          <PinOff className="h-3 w-3" />
+                        ) : (
+                          <Pin className="h-3 w-3" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Delete entry"
+                        onClick={() => void handleDelete(entry)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
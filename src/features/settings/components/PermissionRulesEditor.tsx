@@ -0,0 +1,132 @@
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/features/shared/components/ui/Input';
+import {
+  PERMISSION_RULE_BEHAVIORS,
+  PermissionRule,
+  PermissionRuleBehavior,
+} from '@/types/permission.types';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { nanoid } from 'nanoid';
+import React from 'react';
+
+interface PermissionRulesEditorProps {
+  rules: PermissionRule[];
+  onChange: (rules: PermissionRule[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editable, ordered list of permission rules for one worktree.
+ * Order matters: the first matching rule wins.
+ */
+export const PermissionRulesEditor: React.FC<PermissionRulesEditorProps> = ({
+  rules,
+  onChange,
+  disabled = false,
+}) => {
+  const updateRule = (id: string, updates: Partial<PermissionRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: nanoid(), behavior: 'allow', tool: '', pattern: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 && (
+        <p className="text-xs text-muted-foreground m-0">No rules for this worktree.</p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="flex items-center gap-2">
+          <Select
+            value={rule.behavior}
+            onValueChange={(value) =>
+              updateRule(rule.id, { behavior: value as PermissionRuleBehavior })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-24 flex-shrink-0" aria-label="Rule behavior">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERMISSION_RULE_BEHAVIORS.map((behavior) => (
+                <SelectItem key={behavior.value} value={behavior.value}>
+                  {behavior.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            size="sm"
+            value={rule.tool}
+            onChange={(e) => updateRule(rule.id, { tool: e.target.value })}
+            placeholder="Tool (e.g. Bash)"
+            aria-label="Tool"
+            className="w-32 flex-shrink-0 font-mono"
+            disabled={disabled}
+          />
+          <Input
+            size="sm"
+            value={rule.pattern ?? ''}
+            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+            placeholder="Pattern (e.g. npm test:*, !src/**)"
+            aria-label="Pattern"
+            className="flex-1 min-w-0 font-mono"
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => moveRule(index, -1)}
+            disabled={disabled || index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => moveRule(index, 1)}
+            disabled={disabled || index === rules.length - 1}
+            title="Move down"
+          >
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="flex-shrink-0"
+            onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+            disabled={disabled}
+            title="Remove rule"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addRule} disabled={disabled}>
+        <Plus className="h-3 w-3 mr-1" />
+        Add rule
+      </Button>
+    </div>
+  );
+};
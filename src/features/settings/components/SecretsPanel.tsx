@@ -0,0 +1,114 @@
+import { Button } from '@/components/ui/button';
+import { toastError } from '@/components/ui/sonner';
+import { Input } from '@/features/shared/components/ui/Input';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Names of the encrypted secrets, with adding and deleting. Values are never read back
+ * into the renderer. Actions apply immediately.
+ */
+export const SecretsPanel: React.FC = () => {
+  const [names, setNames] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    const result = await window.electron.ipcRenderer.invoke('secrets:list');
+    if (result && result.success === false) {
+      toastError(result.message || 'Failed to read secrets');
+      return;
+    }
+    setNames(result ?? []);
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleAdd = async () => {
+    const result = await window.electron.ipcRenderer.invoke('secrets:set', name.trim(), value);
+    if (result && result.success === false) {
+      toastError(result.message || 'Failed to save secret');
+      return;
+    }
+    setName('');
+    setValue('');
+    await refresh();
+  };
+
+  const handleDelete = async (secretName: string) => {
+    const result = await window.electron.ipcRenderer.invoke('secrets:delete', secretName);
+    if (result && result.success === false) {
+      toastError(result.message || 'Failed to delete secret');
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground m-0">
+        Stored encrypted in ~/.autosteer/secrets.json. Use <code>{'${secret:NAME}'}</code> in the{' '}
+        <code>env</code> or <code>headers</code> of an MCP server in .mcp.json to pass a secret
+        without committing it. API keys are stored here as <code>api-key.&lt;service&gt;</code>.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Input
+          size="sm"
+          className="flex-1"
+          placeholder="NAME"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Secret name"
+        />
+        <Input
+          size="sm"
+          className="flex-1"
+          type="password"
+          placeholder="Value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          aria-label="Secret value"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => void handleAdd()}
+          disabled={!name.trim() || !value}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Save
+        </Button>
+        <Button variant="ghost" size="icon-sm" title="Refresh" onClick={() => void refresh()}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {names.length === 0 ? (
+        <p className="text-xs text-muted-foreground m-0">No secrets stored.</p>
+      ) : (
+        <div className="max-h-48 overflow-auto border border-border rounded-md">
+          {names.map((secretName) => (
+            <div
+              key={secretName}
+              className="flex items-center justify-between px-2 py-1 text-xs font-mono border-b border-border last:border-b-0"
+            >
+              <span className="truncate" title={secretName}>
+                {secretName}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                title="Delete secret"
+                onClick={() => void handleDelete(secretName)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import { logger } from '@/commons/utils/logger';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/features/shared/components/ui/ConfirmDialog';
+import { FanOut, FanOutRun, useWorktreeStatsStore } from '@/stores';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+interface FanOutComparisonProps {
+  fanOut: FanOut;
+  onOpen: (run: FanOutRun) => void;
+  onKeep: (run: FanOutRun) => Promise<void>;
+}
+
+interface DiffSummary {
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+interface GitDiffStatsResponse {
+  success: boolean;
+  stats: Array<{ additions: number; deletions: number }>;
+  error: string | null;
+}
+
+// Helper function to format cost with appropriate decimal places
+const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const STATUS_LABELS: Record<FanOutRun['status'], string> = {
+  creating: 'Creating worktree',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  deleted: 'Deleted',
+};
+
+/**
+ * Side-by-side results of a fan-out: what each variant changed, what it cost,
+ * how long it took and whether the tests passed. One variant can be kept,
+ * which deletes the worktrees and branches of all the others.
+ */
+export const FanOutComparison: React.FC<FanOutComparisonProps> = ({ fanOut, onOpen, onKeep }) => {
+  const worktreeStats = useWorktreeStatsStore((state) => state.worktreeStats);
+  const [diffs, setDiffs] = useState<Record<string, DiffSummary>>({});
+  const [keepCandidate, setKeepCandidate] = useState<FanOutRun | null>(null);
+  const [keeping, setKeeping] = useState(false);
+
+  // Re-read the diff stats whenever a variant finishes
+  const finishedKey = fanOut.runs
+    .map((run) => (run.status === 'done' || run.status === 'failed' ? run.projectId : ''))
+    .join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDiffs = async () => {
+      const next: Record<string, DiffSummary> = {};
+      for (const run of fanOut.runs) {
+        if (!run.projectId || !run.localPath || run.status === 'deleted') continue;
+        try {
+          const result = (await window.electron?.ipcRenderer?.invoke?.(
+            'git:diff-stats',
+            run.localPath
+          )) as GitDiffStatsResponse | undefined;
+          if (result?.success) {
+            next[run.projectId] = {
+              files: result.stats.length,
+              additions: result.stats.reduce((sum, stat) => sum + stat.additions, 0),
+              deletions: result.stats.reduce((sum, stat) => sum + stat.deletions, 0),
+            };
+          }
+        } catch (error) {
+          logger.warn('[FanOutComparison] Failed to load diff stats', {
+            projectId: run.projectId,
+            error: String(error),
+          });
+        }
+      }
+      if (!cancelled) setDiffs(next);
+    };
+
+    void loadDiffs();
+    return () => {
+      cancelled = true;
+    };
+  }, [finishedKey]);
+
+  const confirmKeep = async () => {
+    if (!keepCandidate) return;
+    setKeeping(true);
+    try {
+      await onKeep(keepCandidate);
+    } finally {
+      setKeeping(false);
+      setKeepCandidate(null);
+    }
+  };
+
+  const isFinished = fanOut.runs.every(
+    (run) => run.status !== 'creating' && run.status !== 'running'
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground line-clamp-3" title={fanOut.prompt}>
+        {fanOut.prompt}
+      </p>
+
+      <div
+        className="grid gap-2"
+        style={{ gridTemplateColumns: `repeat(${fanOut.runs.length}, minmax(0, 1fr))` }}
+      >
+        {fanOut.runs.map((run) => {
+          const diff = run.projectId ? diffs[run.projectId] : undefined;
+          const cost =
+            (run.projectId ? worktreeStats[run.projectId]?.totalCost : undefined) ?? run.costUsd;
+          const isKept =
+            fanOut.keptProjectId !== undefined && fanOut.keptProjectId === run.projectId;
+
+          return (
+            <div
+              key={run.branchName}
+              className={`flex flex-col gap-1 rounded border p-2 text-xs ${isKept ? 'border-primary' : 'border-border'} ${run.status === 'deleted' ? 'opacity-50' : ''}`}
+            >
+              <div className="font-medium text-sm truncate" title={run.label}>
+                {run.label}
+              </div>
+              <div className="truncate text-muted-foreground" title={run.branchName}>
+                {run.branchName}
+              </div>
+
+              <div className="flex items-center gap-1">
+                {(run.status === 'creating' || run.status === 'running') && (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                )}
+                <span className={run.status === 'failed' ? 'text-destructive' : ''}>
+                  {isKept ? 'Kept' : STATUS_LABELS[run.status]}
+                </span>
+              </div>
+              {run.error && (
+                <p className="text-destructive line-clamp-3" title={run.error}>
+                  {run.error}
+                </p>
+              )}
+
+              <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+                <dt className="text-muted-foreground">Changes</dt>
+                <dd>
+                  {diff ? (
+                    <>
+                      {diff.files} file{diff.files === 1 ? '' : 's'}{' '}
+                      <span className="text-success">+{diff.additions}</span>{' '}
+                      <span className="text-destructive">-{diff.deletions}</span>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </dd>
+                <dt className="text-muted-foreground">Cost</dt>
+                <dd>{cost !== undefined ? formatCost(cost) : '—'}</dd>
+                <dt className="text-muted-foreground">Duration</dt>
+                <dd>{run.durationMs !== undefined ? formatDuration(run.durationMs) : '—'}</dd>
+                <dt className="text-muted-foreground">Turns</dt>
+                <dd>{run.numTurns ?? '—'}</dd>
+                <dt className="text-muted-foreground">Tests</dt>
+                <dd>
+                  {run.tests ? (
+                    <span
+                      className={`inline-flex items-center gap-1 ${run.tests.passed ? 'text-success' : 'text-destructive'}`}
+                    >
+                      {run.tests.passed ? (
+                        <CheckCircle2 className="h-3 w-3" />
+                      ) : (
+                        <XCircle className="h-3 w-3" />
+                      )}
+                      {run.tests.passed ? 'Passed' : `Failed (exit ${run.tests.exitCode ?? '?'})`}
+                    </span>
+                  ) : (
+                    '—'
+                  )}
+                </dd>
+              </dl>
+
+              {run.tests?.output && (
+                <details>
+                  <summary className="cursor-pointer text-muted-foreground">Test output</summary>
+                  <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-muted p-1 font-mono text-[10px]">
+                    {run.tests.output}
+                  </pre>
+                </details>
+              )}
+
+              {run.projectId && run.status !== 'deleted' && (
+                <div className="mt-auto flex gap-1 pt-1">
+                  <Button variant="outline" size="sm" onClick={() => onOpen(run)}>
+                    Open
+                  </Button>
+                  {!fanOut.keptProjectId && (
+                    <Button
+                      size="sm"
+                      disabled={!isFinished || keeping}
+                      onClick={() => setKeepCandidate(run)}
+                      title={isFinished ? undefined : 'Wait for all variants to finish'}
+                    >
+                      Keep this one
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!keepCandidate}
+        title="Keep This Variant"
+        message={`Keep "${keepCandidate?.label}" on ${keepCandidate?.branchName}? The worktrees and branches of the other variants will be deleted, including any unpushed changes.`}
+        confirmText="Keep and Delete Others"
+        cancelText="Cancel"
+        onConfirm={() => void confirmKeep()}
+        onCancel={() => setKeepCandidate(null)}
+        variant="danger"
+      />
+    </div>
+  );
+};
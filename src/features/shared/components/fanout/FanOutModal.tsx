@@ -0,0 +1,258 @@
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import { Textarea } from '@/components/ui/textarea';
+import { FanOutComparison } from '@/features/shared/components/fanout/FanOutComparison';
+import { Input } from '@/features/shared/components/ui/Input';
+import { Modal } from '@/features/shared/components/ui/Modal';
+import { validateBranchName } from '@/services/validation/branchNameValidator';
+import { FanOutRun, FanOutVariant, useFanOutStore, useProjectsStore } from '@/stores';
+import { DEFAULT_MODEL, MODEL_OPTIONS, ModelOption } from '@/types/model.types';
+import {
+  DEFAULT_PERMISSION_MODE,
+  PERMISSION_MODES,
+  PermissionMode,
+} from '@/types/permission.types';
+import { Plus, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+
+interface FanOutModalProps {
+  onClose: () => void;
+}
+
+const MAX_VARIANTS = 5;
+
+const DEFAULT_VARIANTS: FanOutVariant[] = [
+  { model: DEFAULT_MODEL, permissionMode: DEFAULT_PERMISSION_MODE },
+  { model: 'claude-opus-4-5-20251101', permissionMode: DEFAULT_PERMISSION_MODE },
+];
+
+/**
+ * FanOutModal - Run one prompt in several fresh worktrees and compare the results
+ *
+ * The setup form picks the prompt, a base branch name (each variant gets
+ * `<base>-v1`, `<base>-v2`, ...), a model and permission mode per variant and
+ * an optional test command. Once started, or when the selected project's
+ * repository already has a fan-out, the comparison view is shown instead.
+ */
+export const FanOutModal: React.FC<FanOutModalProps> = ({ onClose }) => {
+  const selectedProject = useProjectsStore((state) =>
+    state.selectedProjectId ? state.projects.get(state.selectedProjectId) : undefined
+  );
+  const selectProject = useProjectsStore((state) => state.selectProject);
+  const fanOuts = useFanOutStore((state) => state.fanOuts);
+  const startFanOut = useFanOutStore((state) => state.startFanOut);
+  const keepRun = useFanOutStore((state) => state.keepRun);
+  const dismissFanOut = useFanOutStore((state) => state.dismissFanOut);
+
+  const githubRepo = selectedProject?.githubRepo ?? '';
+
+  const [fanOutId, setFanOutId] = useState<string | null>(
+    () => [...fanOuts].reverse().find((fanOut) => fanOut.githubRepo === githubRepo)?.id ?? null
+  );
+  const [prompt, setPrompt] = useState('');
+  const [baseBranch, setBaseBranch] = useState(
+    selectedProject?.branchName ? `${selectedProject.branchName}-fanout` : 'fanout'
+  );
+  const [variants, setVariants] = useState<FanOutVariant[]>(DEFAULT_VARIANTS);
+  const [testCommand, setTestCommand] = useState('');
+
+  const fanOut = fanOutId ? fanOuts.find((f) => f.id === fanOutId) : undefined;
+  const branchValidation = validateBranchName(baseBranch);
+  const isFormValid =
+    !!githubRepo && prompt.trim().length > 0 && branchValidation.valid && variants.length > 1;
+
+  const updateVariant = (index: number, updates: Partial<FanOutVariant>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...updates } : variant)));
+  };
+
+  const handleStart = () => {
+    if (!isFormValid) return;
+
+    const id = startFanOut({
+      prompt: prompt.trim(),
+      githubRepo,
+      baseBranch: baseBranch.trim(),
+      variants,
+      ...(testCommand.trim() && { testCommand: testCommand.trim() }),
+    });
+    setFanOutId(id);
+  };
+
+  const handleOpen = (run: FanOutRun) => {
+    if (!run.projectId) return;
+    void selectProject(run.projectId);
+    onClose();
+  };
+
+  const handleKeep = async (run: FanOutRun) => {
+    if (!fanOut || !run.projectId) return;
+    try {
+      await keepRun(fanOut.id, run.projectId);
+      toastSuccess(`Kept ${run.branchName}`);
+    } catch (error) {
+      toastError(error instanceof Error ? error.message : 'Failed to delete the other variants');
+    }
+  };
+
+  if (fanOut) {
+    return (
+      <Modal
+        onClose={onClose}
+        title="Fan-Out Results"
+        size="large"
+        secondaryAction={{
+          label: 'New Fan-Out',
+          onClick: () => {
+            if (fanOut.keptProjectId) {
+              dismissFanOut(fanOut.id);
+            }
+            setFanOutId(null);
+          },
+        }}
+        primaryAction={{ label: 'Close', onClick: onClose }}
+      >
+        <FanOutComparison fanOut={fanOut} onOpen={handleOpen} onKeep={handleKeep} />
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      onClose={onClose}
+      title="Fan Out"
+      description="Send one prompt to several fresh worktrees and compare the results"
+      size="large"
+      primaryAction={{
+        label: `Run ${variants.length} Variants`,
+        onClick: handleStart,
+        disabled: !isFormValid,
+      }}
+    >
+      <div className="space-y-4">
+        <div>
+          <label
+            htmlFor="fanout-prompt"
+            className="block text-sm font-semibold text-foreground tracking-wide mb-1"
+          >
+            Prompt
+          </label>
+          <Textarea
+            id="fanout-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Describe the task every variant should work on"
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="fanout-branch"
+            className="block text-sm font-semibold text-foreground tracking-wide mb-1"
+          >
+            Branch
+          </label>
+          <Input
+            id="fanout-branch"
+            value={baseBranch}
+            onChange={(e) => setBaseBranch(e.target.value)}
+            placeholder="feature/new-feature"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            {branchValidation.valid
+              ? `Variants use ${baseBranch.trim()}-v1 to ${baseBranch.trim()}-v${variants.length} in ${githubRepo || 'the selected repository'}`
+              : branchValidation.error}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <span className="block text-sm font-semibold text-foreground tracking-wide">
+            Variants
+          </span>
+          {variants.map((variant, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 flex-shrink-0 text-xs text-muted-foreground">v{index + 1}</span>
+              <Select
+                value={variant.model}
+                onValueChange={(value) => updateVariant(index, { model: value as ModelOption })}
+              >
+                <SelectTrigger className="flex-1" aria-label={`Model for variant ${index + 1}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODEL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={variant.permissionMode}
+                onValueChange={(value) =>
+                  updateVariant(index, { permissionMode: value as PermissionMode })
+                }
+              >
+                <SelectTrigger
+                  className="w-44 flex-shrink-0"
+                  aria-label={`Permission mode for variant ${index + 1}`}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERMISSION_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="flex-shrink-0"
+                onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                disabled={variants.length <= 2}
+                title="Remove variant"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setVariants([...variants, variants[variants.length - 1]])}
+            disabled={variants.length >= MAX_VARIANTS}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add variant
+          </Button>
+        </div>
+
+        <div>
+          <label
+            htmlFor="fanout-tests"
+            className="block text-sm font-semibold text-foreground tracking-wide mb-1"
+          >
+            Test command (optional)
+          </label>
+          <Input
+            id="fanout-tests"
+            value={testCommand}
+            onChange={(e) => setTestCommand(e.target.value)}
+            placeholder="npm test"
+            className="font-mono"
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+};
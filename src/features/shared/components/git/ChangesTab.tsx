@@ -1,12 +1,15 @@
 import { logger } from '@/commons/utils/logger';
 import { toastError, toastSuccess } from '@/components/ui/sonner';
+import { CommitComposer } from '@/features/shared/components/git/CommitComposer';
 import { FileChangesList } from '@/features/shared/components/git/FileChangesList';
 import { FileDiffViewer } from '@/features/shared/components/git/FileDiffViewer';
+import { TurnCheckpointList } from '@/features/shared/components/git/TurnCheckpointList';
 import { useChangesTabScrollPreservation, useFileDiff, useGitStats, useGitWatcher } from '@/hooks';
 import { GitDiscardService } from '@/services/GitDiscardService';
+import { GitStagingService } from '@/services/GitStagingService';
 import { useProjectsStore, useUIStore } from '@/stores';
 import { FileText, Loader2 } from 'lucide-react';
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 
 // Toggle this to use mock data for UX development
 const USE_MOCK_DATA = false;
@@ -50,16 +53,38 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
     useMockData: USE_MOCK_DATA,
   });
 
-  const { fileDiff, loadingDiff, fetchFileDiff } = useFileDiff({
+  const { fileDiff, stagedDiff, loadingDiff, fetchFileDiff, fetchStagedDiff } = useFileDiff({
     workingDirectory,
     useMockData: USE_MOCK_DATA,
   });
 
+  // Bumped whenever git state changes so the commit composer refreshes ahead/behind
+  const [syncRefreshKey, setSyncRefreshKey] = useState(0);
+
+  const handleGitChanged = useCallback(async () => {
+    setSyncRefreshKey((key) => key + 1);
+    await refetchGitStats();
+  }, [refetchGitStats]);
+
   useGitWatcher({
     workingDirectory,
-    onChangesDetected: refetchGitStats,
+    onChangesDetected: handleGitChanged,
   });
 
+  const hasStagedChanges = stats.some((s) => s.status === 'staged' || s.status === 'both');
+  const selectedFileHasStagedChanges = stats.some(
+    (s) => s.file === selectedFile && (s.status === 'staged' || s.status === 'both')
+  );
+
+  // Working diff is shown relative to the index (identical to HEAD until something is
+  // staged), with the staged part rendered separately
+  const loadFileDiff = useCallback(
+    async (file: string) => {
+      await Promise.all([fetchFileDiff(file, { source: 'unstaged' }), fetchStagedDiff(file)]);
+    },
+    [fetchFileDiff, fetchStagedDiff]
+  );
+
   // Save scroll positions when project changes
   useEffect(() => {
     return () => {
@@ -83,7 +108,7 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
 
   const handleFileSelect = async (file: string) => {
     setSelectedFile(file);
-    await fetchFileDiff(file);
+    await loadFileDiff(file);
   };
 
   // Auto-select first file when stats are loaded and no file is selected
@@ -95,10 +120,10 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
       if (!selectedFile || !selectedFileExists) {
         const firstFile = stats[0].file;
         setSelectedFile(firstFile);
-        void fetchFileDiff(firstFile);
+        void loadFileDiff(firstFile);
       }
     }
-  }, [stats, selectedFile, setSelectedFile, fetchFileDiff]);
+  }, [stats, selectedFile, setSelectedFile, loadFileDiff]);
 
   // Keyboard navigation (up/down arrow keys)
   useEffect(() => {
@@ -153,6 +178,37 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
     }
   };
 
+  const handleToggleStaged = async (filePath: string, stage: boolean) => {
+    if (!workingDirectory) {
+      toastError('No working directory selected');
+      return;
+    }
+
+    try {
+      if (stage) {
+        await GitStagingService.stageFile(workingDirectory, filePath);
+      } else {
+        await GitStagingService.unstageFile(workingDirectory, filePath);
+      }
+      await refetchGitStats();
+      if (selectedFile === filePath) {
+        await loadFileDiff(filePath);
+      }
+    } catch (error) {
+      logger.error(`Error ${stage ? 'staging' : 'unstaging'} file:`, error);
+      toastError(
+        `Failed to ${stage ? 'stage' : 'unstage'} ${filePath}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  };
+
+  const handleCommitted = async () => {
+    setSelectedFile(null);
+    await refetchGitStats();
+  };
+
   if (!workingDirectory && !USE_MOCK_DATA) {
     return (
       <div className="flex flex-col items-center justify-center h-full bg-background text-muted-foreground p-4">
@@ -172,9 +228,27 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
 
   if (stats.length === 0 && !loading) {
     return (
-      <div className="flex flex-col items-center justify-center h-full bg-background text-muted-foreground p-4">
-        <FileText className="h-8 w-8 mb-2 opacity-50" />
-        <p className="text-sm text-center">No changes in git</p>
+      <div className="flex flex-col h-full bg-background">
+        <div className="flex flex-col flex-1 items-center justify-center text-muted-foreground p-4">
+          <FileText className="h-8 w-8 mb-2 opacity-50" />
+          <p className="text-sm text-center">No changes in git</p>
+        </div>
+        {selectedProjectId && (
+          <TurnCheckpointList
+            worktreeId={selectedProjectId}
+            refreshKey={syncRefreshKey}
+            onUndone={handleGitChanged}
+          />
+        )}
+        {/* Keep commit/push available: amend or push already committed work */}
+        {workingDirectory && (
+          <CommitComposer
+            workingDirectory={workingDirectory}
+            hasStagedChanges={false}
+            refreshKey={syncRefreshKey}
+            onCommitted={handleCommitted}
+          />
+        )}
       </div>
     );
   }
@@ -183,17 +257,35 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
     <div className={`flex h-full bg-background ${className || ''}`}>
       {/* Left Panel - File List */}
       <div
-        ref={fileListRef}
-        className="flex-shrink-0 h-full overflow-auto"
+        className="flex-shrink-0 h-full flex flex-col"
         style={{ width: `${panelSizes.fileList}%` }}
       >
-        <FileChangesList
-          files={stats}
-          selectedFile={selectedFile}
-          onSelect={handleFileSelect}
-          onDiscardFile={handleDiscardFile}
-          {...(workingDirectory ? { workingDirectory } : {})}
-        />
+        <div ref={fileListRef} className="flex-1 min-h-0 overflow-auto">
+          <FileChangesList
+            files={stats}
+            selectedFile={selectedFile}
+            onSelect={handleFileSelect}
+            onDiscardFile={handleDiscardFile}
+            onStageFile={(filePath) => void handleToggleStaged(filePath, true)}
+            onUnstageFile={(filePath) => void handleToggleStaged(filePath, false)}
+            {...(workingDirectory ? { workingDirectory } : {})}
+          />
+        </div>
+        {selectedProjectId && (
+          <TurnCheckpointList
+            worktreeId={selectedProjectId}
+            refreshKey={syncRefreshKey}
+            onUndone={handleGitChanged}
+          />
+        )}
+        {workingDirectory && (
+          <CommitComposer
+            workingDirectory={workingDirectory}
+            hasStagedChanges={hasStagedChanges}
+            refreshKey={syncRefreshKey}
+            onCommitted={handleCommitted}
+          />
+        )}
       </div>
 
       {/* Resize Handle */}
@@ -237,12 +329,14 @@ export const ChangesTab: React.FC<ChangesTabProps> = ({ className }) => {
         ) : selectedFile ? (
           <FileDiffViewer
             files={fileDiff}
+            stagedFiles={stagedDiff}
+            hasStagedChanges={selectedFileHasStagedChanges}
             selectedFile={selectedFile}
             workingDirectory={workingDirectory}
             onRefresh={async () => {
               await refetchGitStats();
               if (selectedFile) {
-                await fetchFileDiff(selectedFile);
+                await loadFileDiff(selectedFile);
               }
             }}
           />
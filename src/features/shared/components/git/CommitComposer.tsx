@@ -0,0 +1,180 @@
+import { logger } from '@/commons/utils/logger';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/features/shared/components/ui/Button';
+import { useGitSyncStatus } from '@/hooks/useGitSyncStatus';
+import { GitCommitService } from '@/services/GitCommitService';
+import { ArrowDown, ArrowUp, GitBranch } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface CommitComposerProps {
+  workingDirectory: string;
+  /** Whether anything is staged; an amend can still be committed without staged changes */
+  hasStagedChanges: boolean;
+  /** Bumped by the parent whenever git state changes, to refresh ahead/behind counts */
+  refreshKey?: number;
+  onCommitted?: () => void | Promise<void>;
+}
+
+export const CommitComposer: React.FC<CommitComposerProps> = ({
+  workingDirectory,
+  hasStagedChanges,
+  refreshKey,
+  onCommitted,
+}) => {
+  const [message, setMessage] = useState('');
+  const [amend, setAmend] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const { status, syncing, refetch, push, pull } = useGitSyncStatus({ workingDirectory });
+
+  useEffect(() => {
+    if (refreshKey !== undefined) {
+      void refetch();
+    }
+  }, [refreshKey, refetch]);
+
+  // Reset the draft when switching worktrees
+  useEffect(() => {
+    setMessage('');
+    setAmend(false);
+  }, [workingDirectory]);
+
+  const handleAmendChange = useCallback(
+    async (checked: boolean) => {
+      setAmend(checked);
+      if (checked && message.trim() === '') {
+        setMessage((await GitCommitService.getLastCommitMessage(workingDirectory)).trimEnd());
+      }
+    },
+    [workingDirectory, message]
+  );
+
+  const canCommit = message.trim() !== '' && (hasStagedChanges || amend) && !committing;
+
+  const handleCommit = useCallback(async () => {
+    if (!canCommit) return;
+
+    setCommitting(true);
+    try {
+      const result = await GitCommitService.commit(workingDirectory, message, { amend });
+      toastSuccess(
+        `${amend ? 'Amended' : 'Committed'} ${result.commit.slice(0, 7)} on ${result.branch}`
+      );
+      setMessage('');
+      setAmend(false);
+      await onCommitted?.();
+      await refetch();
+    } catch (error) {
+      logger.error('[CommitComposer] Commit failed', error);
+      toastError(`Failed to commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCommitting(false);
+    }
+  }, [canCommit, workingDirectory, message, amend, onCommitted, refetch]);
+
+  const handleSync = useCallback(
+    async (operation: 'push' | 'pull') => {
+      try {
+        const result = operation === 'push' ? await push() : await pull();
+        toastSuccess(result || (operation === 'push' ? 'Pushed' : 'Pulled'));
+        if (operation === 'pull') {
+          await onCommitted?.();
+        }
+      } catch (error) {
+        logger.error(`[CommitComposer] ${operation} failed`, error);
+        toastError(
+          `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    },
+    [push, pull, onCommitted]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Stop arrow keys from reaching the Changes tab file navigation
+    e.stopPropagation();
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      void handleCommit();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-2 border-t border-border">
+      <Textarea
+        size="sm"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={hasStagedChanges || amend ? 'Commit message' : 'Stage changes to commit'}
+        disabled={committing}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="commit-amend-checkbox"
+            checked={amend}
+            onCheckedChange={(checked) => void handleAmendChange(checked as boolean)}
+            disabled={committing}
+          />
+          <label htmlFor="commit-amend-checkbox" className="text-sm cursor-pointer">
+            Amend
+          </label>
+        </div>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleCommit}
+          disabled={!canCommit}
+          loading={committing}
+        >
+          {amend ? 'Amend' : 'Commit'}
+        </Button>
+      </div>
+
+      {status?.branch && (
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          <div className="flex items-center gap-1 min-w-0">
+            <GitBranch className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate" title={status.branch}>
+              {status.branch}
+            </span>
+            {status.hasUpstream && (
+              <span className="font-mono flex-shrink-0">
+                ↑{status.ahead} ↓{status.behind}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleSync('pull')}
+              disabled={syncing !== null || !status.hasUpstream}
+              loading={syncing === 'pull'}
+              className="h-6 px-2"
+              title="Pull"
+            >
+              <ArrowDown className="h-3 w-3 mr-1" />
+              Pull
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => void handleSync('push')}
+              disabled={syncing !== null || (status.hasUpstream && status.ahead === 0)}
+              loading={syncing === 'push'}
+              className="h-6 px-2"
+              title={status.hasUpstream ? 'Push' : 'Publish branch'}
+            >
+              <ArrowUp className="h-3 w-3 mr-1" />
+              {status.hasUpstream ? 'Push' : 'Publish'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ import {
   FilePlus,
   FileX,
   GitBranch,
+  Minus,
+  Plus,
   Trash2,
 } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
@@ -27,6 +29,8 @@ interface FileChangesListProps {
   selectedFile: string | null;
   onSelect: (filePath: string) => void;
   onDiscardFile?: (filePath: string) => void;
+  onStageFile?: (filePath: string) => void;
+  onUnstageFile?: (filePath: string) => void;
   workingDirectory?: string;
 }
 
@@ -35,6 +39,8 @@ export const FileChangesList: React.FC<FileChangesListProps> = React.memo(functi
   selectedFile,
   onSelect,
   onDiscardFile,
+  onStageFile,
+  onUnstageFile,
   workingDirectory,
 }) {
   const [hoveredFile, setHoveredFile] = useState<string | null>(null);
@@ -173,6 +179,35 @@ export const FileChangesList: React.FC<FileChangesListProps> = React.memo(functi
                       <ExternalLink className="h-3 w-3" />
                     </button>
                   )}
+                  {stat.status === 'staged'
+                    ? onUnstageFile && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onUnstageFile(stat.file);
+                          }}
+                          className={`p-1 rounded transition-colors hover:bg-accent ${
+                            hoveredFile === stat.file ? 'opacity-100' : 'opacity-0'
+                          }`}
+                          title="Unstage file"
+                        >
+                          <Minus className="h-3 w-3" />
+                        </button>
+                      )
+                    : onStageFile && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onStageFile(stat.file);
+                          }}
+                          className={`p-1 rounded transition-colors hover:bg-accent ${
+                            hoveredFile === stat.file ? 'opacity-100' : 'opacity-0'
+                          }`}
+                          title="Stage file"
+                        >
+                          <Plus className="h-3 w-3" />
+                        </button>
+                      )}
                   {onDiscardFile && (
                     <button
                       onClick={(e) => {
@@ -5,6 +5,10 @@ import { GitDiffViewer } from '@/features/shared/components/git/GitDiffViewer';
 
 interface FileDiffViewerProps {
   files: FileDiff[];
+  /** Staged (HEAD -> index) diff; rendered as a separate section when non-empty */
+  stagedFiles?: FileDiff[];
+  /** True when `files` is relative to the index rather than HEAD */
+  hasStagedChanges?: boolean;
   selectedFile: string | null;
   workingDirectory: string | undefined;
   onRefresh?: () => void | Promise<void>;
@@ -12,6 +16,8 @@ interface FileDiffViewerProps {
 
 export const FileDiffViewer: React.FC<FileDiffViewerProps> = ({
   files,
+  stagedFiles = [],
+  hasStagedChanges = false,
   selectedFile,
   workingDirectory,
   onRefresh,
@@ -25,7 +31,10 @@ export const FileDiffViewer: React.FC<FileDiffViewerProps> = ({
   }
 
   // Defensive check: ensure files is an array
-  if (!Array.isArray(files) || files.length === 0) {
+  const hasWorkingFiles = Array.isArray(files) && files.length > 0;
+  const hasStagedFiles = Array.isArray(stagedFiles) && stagedFiles.length > 0;
+
+  if (!hasWorkingFiles && !hasStagedFiles) {
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground">
         <p className="text-sm"></p>
@@ -36,12 +45,37 @@ export const FileDiffViewer: React.FC<FileDiffViewerProps> = ({
   return (
     <div className="h-full flex flex-col border-l border-border">
       <ScrollArea className="flex-1 overflow-hidden">
-        <GitDiffViewer
-          files={files}
-          repoPath={workingDirectory}
-          hideFileHeader={false}
-          onRefresh={onRefresh}
-        />
+        {hasStagedFiles && (
+          <>
+            <div className="px-4 py-1 text-xs font-medium uppercase text-muted-foreground">
+              Staged changes
+            </div>
+            <GitDiffViewer
+              files={stagedFiles}
+              repoPath={workingDirectory}
+              hideFileHeader={false}
+              onRefresh={onRefresh}
+              stagingArea="index"
+            />
+          </>
+        )}
+        {hasWorkingFiles && (
+          <>
+            {hasStagedFiles && (
+              <div className="px-4 py-1 text-xs font-medium uppercase text-muted-foreground">
+                Changes
+              </div>
+            )}
+            <GitDiffViewer
+              files={files}
+              repoPath={workingDirectory}
+              hideFileHeader={false}
+              onRefresh={onRefresh}
+              stagingArea="working"
+              allowPartialDiscard={!hasStagedChanges}
+            />
+          </>
+        )}
       </ScrollArea>
     </div>
   );
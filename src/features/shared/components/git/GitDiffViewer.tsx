@@ -1,7 +1,8 @@
 import { cn } from '@/commons/utils/ui/cn';
 import { toastError, toastInfo } from '@/components/ui/sonner';
 import { GitDiscardService } from '@/services/GitDiscardService';
-import { Square, Trash2 } from 'lucide-react';
+import { GitStagingService } from '@/services/GitStagingService';
+import { Minus, Plus, Square, Trash2 } from 'lucide-react';
 import React, { useCallback, useState } from 'react';
 import { Button } from '@/features/shared/components/ui/Button';
 import { showUndoToast } from '@/features/shared/components/ui/UndoToast';
@@ -44,8 +45,20 @@ interface GitDiffViewerProps {
   onRefresh?: (() => void | Promise<void>) | undefined;
   onClose?: (() => void) | undefined;
   hideCheckboxes?: boolean;
+  /**
+   * Which side of the index the diff represents. When set, hunks and selected
+   * lines get Stage ('working') or Unstage ('index') actions.
+   */
+  stagingArea?: 'working' | 'index' | undefined;
+  /**
+   * Allow discarding hunks and lines. Partial discard only works on diffs
+   * against HEAD, so it is turned off for index-relative working diffs.
+   */
+  allowPartialDiscard?: boolean;
 }
 
+type StagingArea = NonNullable<GitDiffViewerProps['stagingArea']>;
+
 export const GitDiffViewer: React.FC<GitDiffViewerProps> = ({
   files,
   className,
@@ -53,6 +66,8 @@ export const GitDiffViewer: React.FC<GitDiffViewerProps> = ({
   repoPath,
   onRefresh,
   onClose,
+  stagingArea,
+  allowPartialDiscard = true,
 }) => {
   // Defensive check: ensure files is an array
   if (!Array.isArray(files) || files.length === 0) {
@@ -73,6 +88,8 @@ export const GitDiffViewer: React.FC<GitDiffViewerProps> = ({
           repoPath={repoPath}
           onRefresh={onRefresh}
           onClose={onClose}
+          stagingArea={stagingArea}
+          allowPartialDiscard={allowPartialDiscard}
         />
       ))}
     </div>
@@ -85,9 +102,18 @@ interface FileDiffProps {
   repoPath?: string | undefined;
   onRefresh?: (() => void | Promise<void>) | undefined;
   onClose?: (() => void) | undefined;
+  stagingArea?: StagingArea | undefined;
+  allowPartialDiscard: boolean;
 }
 
-const FileDiff: React.FC<FileDiffProps> = ({ file, hideHeader = false, repoPath, onRefresh }) => {
+const FileDiff: React.FC<FileDiffProps> = ({
+  file,
+  hideHeader = false,
+  repoPath,
+  onRefresh,
+  stagingArea,
+  allowPartialDiscard,
+}) => {
   const [selectedLines, setSelectedLines] = useState<Map<string, Set<string>>>(new Map());
 
   // Use the correct file path: avoid "/dev/null" for both new and deleted files
@@ -105,7 +131,13 @@ const FileDiff: React.FC<FileDiffProps> = ({ file, hideHeader = false, repoPath,
 
   // For new/untracked files, we can only discard the entire file (delete it)
   // We cannot discard individual lines or hunks because git apply doesn't work on untracked files
-  const canDiscardLinesOrHunks = isValidFilePath && !file.isNew;
+  // Staged diffs are never discarded directly - unstage first
+  const canDiscardLinesOrHunks =
+    isValidFilePath && !file.isNew && allowPartialDiscard && stagingArea !== 'index';
+
+  // Same restriction applies to staging: new files are staged/unstaged as a whole
+  const canStageLinesOrHunks = isValidFilePath && !file.isNew && stagingArea !== undefined;
+  const canSelectLines = canDiscardLinesOrHunks || canStageLinesOrHunks;
 
   // Debug logging for invalid filePath
   if (!isValidFilePath) {
@@ -171,6 +203,35 @@ const FileDiff: React.FC<FileDiffProps> = ({ file, hideHeader = false, repoPath,
     }
   }, [repoPath, filePath, hasSelectedLines, fileSelectedLines, onRefresh]);
 
+  const handleStageSelectedLines = useCallback(async () => {
+    if (!repoPath || !hasSelectedLines || !stagingArea) {
+      return;
+    }
+
+    const lines = Array.from(fileSelectedLines).map((lineKey) => {
+      const [lineNumber, type] = lineKey.split('-');
+      return {
+        lineNumber: parseInt(lineNumber, 10),
+        type: type as 'add' | 'del',
+      };
+    });
+
+    try {
+      if (stagingArea === 'working') {
+        await GitStagingService.stageLines(repoPath, filePath, lines);
+      } else {
+        await GitStagingService.unstageLines(repoPath, filePath, lines);
+      }
+      setSelectedLines(new Map());
+      await onRefresh?.();
+    } catch (error) {
+      const action = stagingArea === 'working' ? 'stage' : 'unstage';
+      toastError(
+        `Failed to ${action} lines: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }, [repoPath, filePath, hasSelectedLines, fileSelectedLines, stagingArea, onRefresh]);
+
   return (
     <div className={cn('overflow-hidden', !hideHeader && 'mb-6')}>
       {/* File header - GitHub style */}
@@ -184,6 +245,21 @@ const FileDiff: React.FC<FileDiffProps> = ({ file, hideHeader = false, repoPath,
               {filePath}
             </span>
             <div className="ml-auto flex items-center gap-2 flex-shrink-0">
+              {repoPath && canStageLinesOrHunks && hasSelectedLines && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleStageSelectedLines}
+                  className="h-7 px-2 text-sm"
+                >
+                  {stagingArea === 'working' ? (
+                    <Plus className="h-3 w-3 mr-1" />
+                  ) : (
+                    <Minus className="h-3 w-3 mr-1" />
+                  )}
+                  {stagingArea === 'working' ? 'Stage' : 'Unstage'} ({fileSelectedLines.size})
+                </Button>
+              )}
               {repoPath && isValidFilePath && canDiscardLinesOrHunks && hasSelectedLines && (
                 <Button
                   variant="ghost"
@@ -212,6 +288,9 @@ const FileDiff: React.FC<FileDiffProps> = ({ file, hideHeader = false, repoPath,
           setSelectedLines={setSelectedLines}
           fileKey={fileKey}
           canDiscardLinesOrHunks={canDiscardLinesOrHunks}
+          canStageLinesOrHunks={canStageLinesOrHunks}
+          canSelectLines={canSelectLines}
+          stagingArea={stagingArea}
         />
       ))}
     </div>
@@ -227,6 +306,9 @@ interface HunkProps {
   setSelectedLines: React.Dispatch<React.SetStateAction<Map<string, Set<string>>>>;
   fileKey: string;
   canDiscardLinesOrHunks: boolean;
+  canStageLinesOrHunks: boolean;
+  canSelectLines: boolean;
+  stagingArea?: StagingArea | undefined;
 }
 
 const Hunk: React.FC<HunkProps> = ({
@@ -238,6 +320,9 @@ const Hunk: React.FC<HunkProps> = ({
   setSelectedLines,
   fileKey,
   canDiscardLinesOrHunks,
+  canStageLinesOrHunks,
+  canSelectLines,
+  stagingArea,
 }) => {
   // Filter out git metadata lines like "\ No newline at end of file"
   const filteredChanges = hunk.changes.filter(
@@ -288,25 +373,65 @@ const Hunk: React.FC<HunkProps> = ({
     }
   }, [repoPath, filePath, hunk, onRefresh]);
 
+  const handleStageHunk = useCallback(async () => {
+    if (!repoPath || !stagingArea) {
+      toastError('Repository path not available');
+      return;
+    }
+
+    try {
+      if (stagingArea === 'working') {
+        await GitStagingService.stageHunk(repoPath, filePath, hunk);
+      } else {
+        await GitStagingService.unstageHunk(repoPath, filePath, hunk);
+      }
+      await onRefresh?.();
+    } catch (error) {
+      const action = stagingArea === 'working' ? 'stage' : 'unstage';
+      toastError(
+        `Failed to ${action} hunk: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }, [repoPath, filePath, hunk, stagingArea, onRefresh]);
+
   const hasDiscardableLines = filteredChanges.some((c) => c.type === 'add' || c.type === 'del');
 
   return (
     <div>
-      {/* Hunk header with discard button */}
-      {repoPath && canDiscardLinesOrHunks && hasDiscardableLines && (
+      {/* Hunk header with stage/discard buttons */}
+      {repoPath && (canDiscardLinesOrHunks || canStageLinesOrHunks) && hasDiscardableLines && (
         <div className="bg-muted/50 px-2 py-1 flex items-center justify-between">
           <span className="text-sm text-muted-foreground font-mono">
             @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
           </span>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleDiscardHunk}
-            className="h-6 px-2 text-sm"
-          >
-            <Trash2 className="h-3 w-3 mr-1" />
-            Hunk
-          </Button>
+          <div className="flex items-center gap-1">
+            {canStageLinesOrHunks && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleStageHunk}
+                className="h-6 px-2 text-sm"
+              >
+                {stagingArea === 'working' ? (
+                  <Plus className="h-3 w-3 mr-1" />
+                ) : (
+                  <Minus className="h-3 w-3 mr-1" />
+                )}
+                {stagingArea === 'working' ? 'Stage' : 'Unstage'}
+              </Button>
+            )}
+            {canDiscardLinesOrHunks && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDiscardHunk}
+                className="h-6 px-2 text-sm"
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Hunk
+              </Button>
+            )}
+          </div>
         </div>
       )}
 
@@ -320,7 +445,7 @@ const Hunk: React.FC<HunkProps> = ({
             selectedLines={selectedLines}
             setSelectedLines={setSelectedLines}
             fileKey={fileKey}
-            canDiscardLinesOrHunks={canDiscardLinesOrHunks}
+            canSelectLines={canSelectLines}
           />
         ))}
       </div>
@@ -334,7 +459,7 @@ interface DiffLineProps {
   selectedLines: Map<string, Set<string>>;
   setSelectedLines: React.Dispatch<React.SetStateAction<Map<string, Set<string>>>>;
   fileKey: string;
-  canDiscardLinesOrHunks: boolean;
+  canSelectLines: boolean;
 }
 
 const DiffLine: React.FC<DiffLineProps> = ({
@@ -343,7 +468,7 @@ const DiffLine: React.FC<DiffLineProps> = ({
   selectedLines,
   setSelectedLines,
   fileKey,
-  canDiscardLinesOrHunks,
+  canSelectLines,
 }) => {
   const isConflictMarker =
     change.content.startsWith('<<<<<<<') ||
@@ -460,15 +585,13 @@ const DiffLine: React.FC<DiffLineProps> = ({
         className={cn(
           'flex items-center shrink-0',
           isConflictMarker ? styles.lineNumber : 'bg-muted',
-          repoPath && isDiscardable && canDiscardLinesOrHunks && 'cursor-pointer hover:bg-muted/50'
+          repoPath && isDiscardable && canSelectLines && 'cursor-pointer hover:bg-muted/50'
         )}
-        onClick={
-          repoPath && isDiscardable && canDiscardLinesOrHunks ? handleToggleSelection : undefined
-        }
+        onClick={repoPath && isDiscardable && canSelectLines ? handleToggleSelection : undefined}
       >
         {/* Selection icon for discardable lines */}
         <div className="px-2 py-0 flex items-center cursor-pointer w-7">
-          {repoPath && isDiscardable && canDiscardLinesOrHunks && (
+          {repoPath && isDiscardable && canSelectLines && (
             <Square
               className={cn(
                 'w-3.5 h-3.5',
@@ -0,0 +1,151 @@
+import { logger } from '@/commons/utils/logger';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { GitDiffViewer } from '@/features/shared/components/git/GitDiffViewer';
+import { FileDiff } from '@/types/git-diff.types';
+import type { AgentTurnCheckpoint } from '@/types/ipc.types';
+import { Loader2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+interface TurnCheckpointDialogProps {
+  checkpoint: AgentTurnCheckpoint | null;
+  onOpenChange: (open: boolean) => void;
+  onDiff: (checkpoint: AgentTurnCheckpoint, against: 'turn' | 'current') => Promise<FileDiff[]>;
+  onUndo: (checkpoint: AgentTurnCheckpoint) => void | Promise<void>;
+}
+
+/**
+ * Read-only diff preview for one agent turn, with the option to undo it.
+ *
+ * "This turn" shows what the agent changed between the start and end of the
+ * turn (what undo reverts); "Compare with now" shows everything that changed
+ * since the turn started, including later turns and manual edits.
+ */
+export const TurnCheckpointDialog: React.FC<TurnCheckpointDialogProps> = ({
+  checkpoint,
+  onOpenChange,
+  onDiff,
+  onUndo,
+}) => {
+  const [against, setAgainst] = useState<'turn' | 'current'>('turn');
+  const [files, setFiles] = useState<FileDiff[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [undoing, setUndoing] = useState(false);
+
+  useEffect(() => {
+    setAgainst('turn');
+  }, [checkpoint?.id]);
+
+  useEffect(() => {
+    if (!checkpoint) {
+      setFiles([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    onDiff(checkpoint, against)
+      .then((diff) => {
+        if (!cancelled) setFiles(diff);
+      })
+      .catch((err) => {
+        logger.warn('[TurnCheckpointDialog] Failed to load diff', { error: String(err) });
+        if (!cancelled) {
+          setFiles([]);
+          setError(err instanceof Error ? err.message : 'Failed to load diff');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [checkpoint, against, onDiff]);
+
+  const handleUndo = async () => {
+    if (!checkpoint) return;
+    setUndoing(true);
+    try {
+      await onUndo(checkpoint);
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  const canUndo = !!checkpoint?.after && !checkpoint.undoneAt;
+
+  return (
+    <Dialog open={!!checkpoint} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{canUndo ? 'Undo This Turn?' : 'Turn Changes'}</DialogTitle>
+          <DialogDescription className="truncate" title={checkpoint?.prompt}>
+            {checkpoint?.prompt || 'Agent turn'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          <Button
+            variant={against === 'turn' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setAgainst('turn')}
+          >
+            This turn
+          </Button>
+          <Button
+            variant={against === 'current' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setAgainst('current')}
+          >
+            Compare with now
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-[200px] border border-border rounded">
+          {loading ? (
+            <div className="flex items-center justify-center h-[200px]">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="p-4 text-sm text-destructive">{error}</p>
+          ) : files.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No file changes</p>
+          ) : (
+            <GitDiffViewer files={files} hideCheckboxes />
+          )}
+        </ScrollArea>
+
+        {canUndo && (
+          <p className="text-xs text-muted-foreground">
+            Only this turn&apos;s changes are reverted. Edits made afterwards are kept; if they
+            overlap, nothing is changed.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {canUndo ? 'Cancel' : 'Close'}
+          </Button>
+          {canUndo && (
+            <Button variant="destructive" disabled={undoing} onClick={() => void handleUndo()}>
+              {undoing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Undo Turn
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,116 @@
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import { TurnCheckpointDialog } from '@/features/shared/components/git/TurnCheckpointDialog';
+import { useTurnCheckpoints } from '@/hooks/useTurnCheckpoints';
+import { useAgentsStore } from '@/stores';
+import type { AgentTurnCheckpoint } from '@/types/ipc.types';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface TurnCheckpointListProps {
+  worktreeId: string;
+  /** Bumped by the parent whenever git state changes, to pick up finished turns */
+  refreshKey?: number;
+  onUndone?: () => void | Promise<void>;
+}
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Collapsible list of agent turns recorded in this worktree. Selecting a turn
+ * opens its diff preview, from which it can be undone.
+ */
+export const TurnCheckpointList: React.FC<TurnCheckpointListProps> = ({
+  worktreeId,
+  refreshKey,
+  onUndone,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [selected, setSelected] = useState<AgentTurnCheckpoint | null>(null);
+  const agents = useAgentsStore((state) => state.agents);
+
+  const { checkpoints, refetch, diffCheckpoint, undoCheckpoint } = useTurnCheckpoints({
+    worktreeId,
+  });
+
+  useEffect(() => {
+    if (refreshKey !== undefined) {
+      void refetch();
+    }
+  }, [refreshKey, refetch]);
+
+  const handleUndo = useCallback(
+    async (checkpoint: AgentTurnCheckpoint) => {
+      const result = await undoCheckpoint(checkpoint);
+      if (result.success) {
+        toastSuccess(result.message || 'Turn undone');
+        setSelected(null);
+        await onUndone?.();
+      } else {
+        toastError(result.message || result.error || 'Failed to undo turn');
+      }
+    },
+    [undoCheckpoint, onUndone]
+  );
+
+  // Turns that changed nothing are not worth listing
+  const turns = checkpoints.filter((checkpoint) => !checkpoint.files || checkpoint.files.length);
+
+  if (turns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-border">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 px-2 py-1 text-xs font-medium uppercase text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <History className="h-3 w-3" />
+        Agent turns ({turns.length})
+      </button>
+
+      {expanded && (
+        <ul className="max-h-48 overflow-auto pb-1">
+          {turns.map((checkpoint) => (
+            <li key={checkpoint.id}>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 px-3 py-0.5 text-left text-xs hover:bg-muted"
+                onClick={() => setSelected(checkpoint)}
+                title={checkpoint.prompt}
+              >
+                <span className="flex-shrink-0 text-muted-foreground">
+                  {formatTime(checkpoint.startedAt)}
+                </span>
+                <span
+                  className={`flex-1 min-w-0 truncate ${checkpoint.undoneAt ? 'line-through text-muted-foreground' : ''}`}
+                >
+                  {checkpoint.prompt || 'Agent turn'}
+                </span>
+                <span className="flex-shrink-0 text-muted-foreground">
+                  {agents.get(checkpoint.agentId)?.title}
+                </span>
+                <span className="flex-shrink-0 text-muted-foreground">
+                  {checkpoint.files
+                    ? `${checkpoint.files.length} file${checkpoint.files.length === 1 ? '' : 's'}`
+                    : 'not finished'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <TurnCheckpointDialog
+        checkpoint={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onDiff={diffCheckpoint}
+        onUndo={handleUndo}
+      />
+    </div>
+  );
+};
@@ -6,7 +6,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { ChangesTab } from '@/features/shared/components/git/ChangesTab';
 import { AgentChatInterface } from '@/features/shared/components/layout/AgentChatInterface';
 import { EmptyState } from '@/features/shared/components/layout/EmptyState';
+import { ContentSearchTab } from '@/features/shared/components/search/ContentSearchTab';
 import { SessionTabs } from '@/features/shared/components/session/SessionTabs';
+import { TaskRunnerTab } from '@/features/shared/components/tasks/TaskRunnerTab';
 import { TerminalTab } from '@/features/shared/components/terminal/TerminalTab';
 import { MaximizeSessionTab } from '@/features/shared/components/ui/MaximizeSessionTab';
 import {
@@ -19,7 +21,7 @@ import {
   useProjectHeader,
 } from '@/hooks';
 import { useAgentsStore, useProjectsStore, useUIStore } from '@/stores';
-import { TOOLS_TAB_ID } from '@/constants/tabs';
+import { SEARCH_TAB_ID, TASKS_TAB_ID, TOOLS_TAB_ID } from '@/constants/tabs';
 import { ExternalLink, Link2 } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
 import { toast } from 'sonner';
@@ -260,6 +262,26 @@ export const MainContent: React.FC = () => {
                 <MaximizeSessionTab isActive={activeTabId === TOOLS_TAB_ID} />
               </div>
 
+              <div
+                data-agent-id="tasks-tab"
+                className={cn('flex flex-col min-h-0 min-w-0 absolute inset-0', {
+                  'z-10': activeTabId === TASKS_TAB_ID,
+                  'z-0 pointer-events-none': activeTabId !== TASKS_TAB_ID,
+                })}
+              >
+                <TaskRunnerTab className="flex-1" />
+              </div>
+
+              <div
+                data-agent-id="search-tab"
+                className={cn('flex flex-col min-h-0 min-w-0 absolute inset-0', {
+                  'z-10': activeTabId === SEARCH_TAB_ID,
+                  'z-0 pointer-events-none': activeTabId !== SEARCH_TAB_ID,
+                })}
+              >
+                <ContentSearchTab className="flex-1" />
+              </div>
+
               {agentIdsWithInstances.map((agentId) => (
                 <AgentChatInterface
                   key={agentId}
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { ProjectList } from '@/features/shared/components/projects/ProjectList';
 import { useSidebarHandler } from '@/hooks/useSidebarHandler';
 import { useProjects } from '@/hooks/useProjects';
-import { Keyboard, LogOut, Settings } from 'lucide-react';
+import { BarChart3, Keyboard, LogOut, Settings } from 'lucide-react';
 import React from 'react';
 import { ThemeToggle } from '@/features/settings/components/ThemeToggle';
 
@@ -11,6 +11,7 @@ interface SidebarProps {
   collapsed: boolean;
   onToggleCollapse: () => void;
   onOpenLLMSettings?: () => void;
+  onOpenUsageMonitor?: () => void;
   onOpenKeyboardShortcuts?: () => void;
   onLogout?: () => void;
 }
@@ -37,6 +38,7 @@ TaskIndicator.displayName = 'TaskIndicator';
 export const Sidebar: React.FC<SidebarProps> = ({
   collapsed,
   onOpenLLMSettings,
+  onOpenUsageMonitor,
   onOpenKeyboardShortcuts,
   onLogout,
 }) => {
@@ -92,6 +94,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
             >
               <Keyboard className="h-4 w-4" />
             </Button>
+            {/* Usage Button */}
+            <Button
+              id="usage-monitor-btn"
+              data-action="open-usage-monitor"
+              variant="icon-secondary"
+              size="icon"
+              title="Usage Analytics"
+              onClick={onOpenUsageMonitor}
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Button>
             {/* Settings Button */}
             <Button
               id="settings-btn"
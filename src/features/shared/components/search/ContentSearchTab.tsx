@@ -0,0 +1,259 @@
+import { cn } from '@/commons/utils/ui/cn';
+import { Input } from '@/components/ui/input';
+import { toastError, toastSuccess } from '@/components/ui/sonner';
+import { Toggle } from '@/components/ui/toggle';
+import { useAppendToChat } from '@/hooks/useAppendToChat';
+import { useContentSearch, type ContentSearchOptions } from '@/hooks/useContentSearch';
+import { useProjectsStore } from '@/stores';
+import type { ContentSearchFileResult, ContentSearchMatch } from '@/types/ipc.types';
+import { formatLineMention } from '@/utils/codeMentions';
+import {
+  AtSign,
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Regex,
+  WholeWord,
+} from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+interface ContentSearchTabProps {
+  className?: string;
+}
+
+// "*.ts, src/**" → ['*.ts', 'src/**']
+const parseGlobs = (value: string): string[] =>
+  value
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+
+/**
+ * Search tab: full-text search of the selected worktree. Hits open in the IDE at their
+ * line and column, and can be added to the chat as `@path#L12` mentions.
+ */
+export const ContentSearchTab: React.FC<ContentSearchTabProps> = ({ className }) => {
+  const selectedProjectId = useProjectsStore((state) => state.selectedProjectId);
+  const project = useProjectsStore((state) =>
+    selectedProjectId ? state.projects.get(selectedProjectId) : undefined
+  );
+  const worktreeId = project?.folderName || project?.id;
+
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const options = useMemo<ContentSearchOptions>(
+    () => ({
+      isRegex,
+      caseSensitive,
+      wholeWord,
+      include: parseGlobs(include),
+      exclude: parseGlobs(exclude),
+    }),
+    [isRegex, caseSensitive, wholeWord, include, exclude]
+  );
+
+  const { results, summary, searching, error } = useContentSearch({
+    workspacePath: project?.localPath,
+    query,
+    options,
+  });
+
+  const appendToChat = useAppendToChat();
+
+  // Expand every file again for a new search
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [query, options]);
+
+  const toggleFile = (filePath: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(filePath)) {
+        next.delete(filePath);
+      } else {
+        next.add(filePath);
+      }
+      return next;
+    });
+  };
+
+  const handleOpen = useCallback(
+    async (file: ContentSearchFileResult, match: ContentSearchMatch) => {
+      const result = await window.electron.ide.openFile({
+        file: file.absolutePath,
+        line: match.line,
+        column: match.column,
+      });
+      if (!result.success) {
+        toastError(result.error || `Failed to open ${file.path}`);
+      }
+    },
+    []
+  );
+
+  const handleMention = useCallback(
+    async (file: ContentSearchFileResult, match: ContentSearchMatch) => {
+      if (!worktreeId) return;
+
+      const mention = formatLineMention(file.path, match.line);
+      const agent = await appendToChat(worktreeId, `${mention} `, {
+        separator: ' ',
+        openChat: false,
+      });
+      if (agent) {
+        toastSuccess(`Added ${mention} to ${agent.title}`, { duration: 2000 });
+      } else {
+        toastError('Open a chat in this worktree to add mentions');
+      }
+    },
+    [worktreeId, appendToChat]
+  );
+
+  if (!worktreeId) {
+    return null;
+  }
+
+  const matchCount = summary?.matchCount ?? results.reduce((n, f) => n + f.matches.length, 0);
+
+  return (
+    <div className={cn('flex min-h-0 flex-col', className)}>
+      <div className="flex flex-col gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-1">
+          <Input
+            size="sm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search"
+            aria-label="Search"
+          />
+          <Toggle
+            size="sm"
+            pressed={caseSensitive}
+            onPressedChange={setCaseSensitive}
+            title="Match case"
+            aria-label="Match case"
+          >
+            <CaseSensitive />
+          </Toggle>
+          <Toggle
+            size="sm"
+            pressed={wholeWord}
+            onPressedChange={setWholeWord}
+            title="Match whole word"
+            aria-label="Match whole word"
+          >
+            <WholeWord />
+          </Toggle>
+          <Toggle
+            size="sm"
+            pressed={isRegex}
+            onPressedChange={setIsRegex}
+            title="Use regular expression"
+            aria-label="Use regular expression"
+          >
+            <Regex />
+          </Toggle>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            size="sm"
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+            placeholder="Files to include, e.g. *.ts, src/**"
+            aria-label="Files to include"
+          />
+          <Input
+            size="sm"
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            placeholder="Files to exclude"
+            aria-label="Files to exclude"
+          />
+        </div>
+        {query && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {searching && <Loader2 className="h-3 w-3 animate-spin" />}
+            {error ? (
+              <span className="text-red-500">{error}</span>
+            ) : (
+              <span>
+                {matchCount} result{matchCount === 1 ? '' : 's'} in {results.length} file
+                {results.length === 1 ? '' : 's'}
+                {summary?.limitHit && ' (stopped at the result limit, narrow the search)'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-auto py-1 font-mono text-xs">
+        {results.map((file) => (
+          <div key={file.path}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-1 px-2 py-0.5 text-left hover:bg-muted"
+              onClick={() => toggleFile(file.path)}
+              aria-expanded={!collapsed.has(file.path)}
+              title={file.absolutePath}
+            >
+              {collapsed.has(file.path) ? (
+                <ChevronRight className="h-3 w-3 flex-shrink-0" />
+              ) : (
+                <ChevronDown className="h-3 w-3 flex-shrink-0" />
+              )}
+              <span className="min-w-0 flex-1 truncate font-medium">{file.path}</span>
+              <span className="flex-shrink-0 text-muted-foreground">{file.matches.length}</span>
+            </button>
+            {!collapsed.has(file.path) && (
+              <ul>
+                {file.matches.map((match) => (
+                  <li
+                    key={`${match.line}:${match.column}`}
+                    className="group flex items-center gap-2 pl-7 pr-2 hover:bg-muted"
+                  >
+                    <button
+                      type="button"
+                      className="flex min-w-0 flex-1 items-baseline gap-2 py-0.5 text-left"
+                      onClick={() => void handleOpen(file, match)}
+                      title={`Open ${file.path}:${match.line}:${match.column}`}
+                    >
+                      <span className="w-10 flex-shrink-0 text-right text-muted-foreground">
+                        {match.line}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate whitespace-pre">
+                        {match.before.trimStart()}
+                        <mark className="rounded-sm bg-yellow-500/30 text-foreground">
+                          {match.text}
+                        </mark>
+                        {match.after}
+                      </span>
+                    </button>
+                    <button
+                      type="button"
+                      className="invisible flex-shrink-0 p-1 text-muted-foreground hover:text-foreground group-hover:visible"
+                      onClick={() => void handleMention(file, match)}
+                      title={`Add ${formatLineMention(file.path, match.line)} to the chat`}
+                      aria-label="Add to chat"
+                    >
+                      <AtSign className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+        {query && !searching && !error && results.length === 0 && (
+          <div className="px-3 py-2 font-sans text-sm text-muted-foreground">No results</div>
+        )}
+      </div>
+    </div>
+  );
+};
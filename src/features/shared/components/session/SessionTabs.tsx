@@ -9,11 +9,12 @@ import { Input } from '@/components/ui/input';
 import { toastError } from '@/components/ui/sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MAX_TABS } from '@/constants/tabs';
+import { FanOutModal } from '@/features/shared/components/fanout/FanOutModal';
 import { ConfirmDialog } from '@/features/shared/components/ui/ConfirmDialog';
 import { Icon } from '@/features/shared/components/ui/Icon';
 import { useSessionTabs } from '@/hooks/useSessionTabs';
 import { useAgentsStore, useChatStore, useSettingsStore } from '@/stores';
-import { Bot, Eye, GitBranch, Terminal, X } from 'lucide-react';
+import { Bot, Eye, GitBranch, GitFork, ListChecks, Search, Terminal, X } from 'lucide-react';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 interface SessionTabsProps {
@@ -49,6 +50,7 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
     agentName: null,
   });
 
+  const [showFanOut, setShowFanOut] = useState(false);
   const [editingTabId, setEditingTabId] = useState<string | null>(null);
   const [editingTabName, setEditingTabName] = useState<string>('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -107,8 +109,14 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
       const tab = tabs.find((t) => t.id === tabId);
       if (!tab) return;
 
-      // Prevent closing persistent tabs (terminal, changes, tools)
-      if (tab.tabType === 'terminal' || tab.tabType === 'changes' || tab.tabType === 'tools') {
+      // Prevent closing persistent tabs (terminal, changes, tools, tasks, search)
+      if (
+        tab.tabType === 'terminal' ||
+        tab.tabType === 'changes' ||
+        tab.tabType === 'tools' ||
+        tab.tabType === 'tasks' ||
+        tab.tabType === 'search'
+      ) {
         logger.debug('[SessionTabs] Cannot close persistent tab', {
           tabId,
           tabType: tab.tabType,
@@ -270,7 +278,9 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
         tabs.length > 1 &&
         activeTab.tabType !== 'terminal' &&
         activeTab.tabType !== 'changes' &&
-        activeTab.tabType !== 'tools'
+        activeTab.tabType !== 'tools' &&
+        activeTab.tabType !== 'tasks' &&
+        activeTab.tabType !== 'search'
       ) {
         if (confirmSessionTabDeletion) {
           setDeleteConfirm({
@@ -294,6 +304,8 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
         activeTab.tabType !== 'terminal' &&
         activeTab.tabType !== 'changes' &&
         activeTab.tabType !== 'tools' &&
+        activeTab.tabType !== 'tasks' &&
+        activeTab.tabType !== 'search' &&
         !editingTabId
       ) {
         setEditingTabId(activeTab.id);
@@ -386,6 +398,22 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
                         }}
                         className="opacity-60"
                       />
+                    ) : tab.tabType === 'tasks' ? (
+                      <ListChecks
+                        style={{
+                          width: 'var(--font-size-base)',
+                          height: 'var(--font-size-base)',
+                        }}
+                        className="opacity-60"
+                      />
+                    ) : tab.tabType === 'search' ? (
+                      <Search
+                        style={{
+                          width: 'var(--font-size-base)',
+                          height: 'var(--font-size-base)',
+                        }}
+                        className="opacity-60"
+                      />
                     ) : (
                       <Bot
                         style={{
@@ -415,12 +443,16 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
                       tab.tabType !== 'terminal' &&
                         tab.tabType !== 'changes' &&
                         tab.tabType !== 'tools' &&
+                        tab.tabType !== 'tasks' &&
+                        tab.tabType !== 'search' &&
                         'cursor-text'
                     )}
                     onDoubleClick={
                       tab.tabType !== 'terminal' &&
                       tab.tabType !== 'changes' &&
-                      tab.tabType !== 'tools'
+                      tab.tabType !== 'tools' &&
+                      tab.tabType !== 'tasks' &&
+                      tab.tabType !== 'search'
                         ? (e) => handleStartEdit(e, tab.id, tab.agentName)
                         : undefined
                     }
@@ -449,6 +481,22 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
                         }}
                         className="opacity-60"
                       />
+                    ) : tab.tabType === 'tasks' ? (
+                      <ListChecks
+                        style={{
+                          width: 'var(--font-size-base)',
+                          height: 'var(--font-size-base)',
+                        }}
+                        className="opacity-60"
+                      />
+                    ) : tab.tabType === 'search' ? (
+                      <Search
+                        style={{
+                          width: 'var(--font-size-base)',
+                          height: 'var(--font-size-base)',
+                        }}
+                        className="opacity-60"
+                      />
                     ) : (
                       <Bot
                         style={{
@@ -466,7 +514,9 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
                 )}
                 {tab.tabType !== 'terminal' &&
                   tab.tabType !== 'changes' &&
-                  tab.tabType !== 'tools' && (
+                  tab.tabType !== 'tools' &&
+                  tab.tabType !== 'tasks' &&
+                  tab.tabType !== 'search' && (
                     <span
                       onClick={(e) => handleCloseTab(e, tab.id)}
                       className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-0.5 text-muted-foreground hover:text-foreground hover:bg-card-hover opacity-0 group-hover:opacity-100 group-data-[state=active]:opacity-100 cursor-pointer"
@@ -511,8 +561,23 @@ export const SessionTabs: React.FC<SessionTabsProps> = ({
             <Icon name="plus" size={14} />
           </Button>
         )}
+
+        {isTabsEnabled && (
+          <Button
+            variant="outline"
+            size="icon-sm"
+            className={cn('mr-4 bg-background shadow-xs', !canAddNewTab && 'ml-4')}
+            onClick={() => setShowFanOut(true)}
+            title="Fan out: run one prompt in several worktrees"
+            aria-label="Fan out"
+          >
+            <GitFork className="h-3.5 w-3.5" />
+          </Button>
+        )}
       </div>
 
+      {showFanOut && <FanOutModal onClose={() => setShowFanOut(false)} />}
+
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
         title="Delete Session"
@@ -0,0 +1,78 @@
+import { logger } from '@/commons/utils/logger';
+import { getTaskRunOutput } from '@/hooks/useWorktreeTasks';
+import type { TaskRun } from '@/types/task-runner.types';
+import { FitAddon } from '@xterm/addon-fit';
+import { Terminal } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import React, { useEffect, useRef } from 'react';
+import { setupTerminalTheme } from '../terminal/theme';
+
+interface TaskRunOutputProps {
+  worktreeId: string;
+  run: TaskRun;
+  className?: string;
+}
+
+/**
+ * Read-only terminal view of a task run. Replays the output so far and follows
+ * the run's pty while it is still running.
+ */
+export const TaskRunOutput: React.FC<TaskRunOutputProps> = ({ worktreeId, run, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const fontFamily =
+      getComputedStyle(document.documentElement).getPropertyValue('--font-family-mono').trim() ||
+      'inherit';
+
+    const term = new Terminal({
+      disableStdin: true,
+      fontSize: 12,
+      fontFamily,
+      scrollback: 10000,
+      convertEol: true,
+    });
+    const fitAddon = new FitAddon();
+    term.loadAddon(fitAddon);
+    term.open(containerRef.current);
+    fitAddon.fit();
+
+    const themeObserver = setupTerminalTheme(term);
+    const resizeObserver = new ResizeObserver(() => fitAddon.fit());
+    resizeObserver.observe(containerRef.current);
+
+    // Live chunks that arrive before the replay are already part of it
+    let replayed = false;
+    const unsubscribe =
+      run.status === 'running'
+        ? window.electron.terminal.onData(run.terminalId, (data) => {
+            if (replayed) {
+              term.write(data);
+            }
+          })
+        : undefined;
+
+    getTaskRunOutput(worktreeId, run.id)
+      .then((output) => {
+        term.write(output);
+      })
+      .catch((error) => {
+        logger.warn('[TaskRunOutput] Failed to load task output', { error: String(error) });
+      })
+      .finally(() => {
+        replayed = true;
+      });
+
+    return () => {
+      unsubscribe?.();
+      resizeObserver.disconnect();
+      themeObserver.disconnect();
+      term.dispose();
+    };
+    // A finished run keeps its id, so re-replay when the status changes too
+  }, [worktreeId, run.id, run.terminalId, run.status]);
+
+  return <div ref={containerRef} className={className} />;
+};
@@ -0,0 +1,224 @@
+import { cn } from '@/commons/utils/ui/cn';
+import { Button } from '@/components/ui/button';
+import { toastError } from '@/components/ui/sonner';
+import { TaskRunOutput } from '@/features/shared/components/tasks/TaskRunOutput';
+import { useAppendToChat } from '@/hooks/useAppendToChat';
+import { useWorktreeTasks } from '@/hooks/useWorktreeTasks';
+import { useProjectsStore } from '@/stores';
+import type { TaskRun } from '@/types/task-runner.types';
+import { Loader2, MessageSquarePlus, Pin, PinOff, Play, RotateCcw, Square } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface TaskRunnerTabProps {
+  className?: string;
+}
+
+const statusClasses: Record<TaskRun['status'], string> = {
+  running: 'bg-blue-500/15 text-blue-500',
+  passed: 'bg-green-500/15 text-green-500',
+  failed: 'bg-red-500/15 text-red-500',
+};
+
+const StatusBadge: React.FC<{ run: TaskRun }> = ({ run }) => (
+  <span
+    className={cn(
+      'inline-flex flex-shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+      statusClasses[run.status]
+    )}
+  >
+    {run.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+    {run.status}
+    {run.status !== 'running' && (run.exitCode === null ? ' (stopped)' : ` (${run.exitCode})`)}
+  </span>
+);
+
+/**
+ * Chat message text for a failed run's output
+ */
+const formatRunForChat = (run: TaskRun): string =>
+  [
+    `Task \`${run.name}\` failed (${run.exitCode === null ? 'stopped' : `exit code ${run.exitCode}`}):`,
+    '',
+    `$ ${run.command}`,
+    '```',
+    run.output || '(no output)',
+    '```',
+  ].join('\n');
+
+/**
+ * Tasks tab: scripts detected in the selected worktree, run in managed terminals.
+ * Failed runs can be attached to the worktree's chat.
+ */
+export const TaskRunnerTab: React.FC<TaskRunnerTabProps> = ({ className }) => {
+  const selectedProjectId = useProjectsStore((state) => state.selectedProjectId);
+  const project = useProjectsStore((state) =>
+    selectedProjectId ? state.projects.get(selectedProjectId) : undefined
+  );
+  const worktreeId = project?.folderName || project?.id;
+
+  const { tasks, runs, lastTaskId, loading, refetch, runTask, rerunLast, stopTask, setPinned } =
+    useWorktreeTasks({ worktreeId });
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+
+  const appendToChat = useAppendToChat();
+
+  useEffect(() => {
+    setSelectedTaskId(null);
+  }, [worktreeId]);
+
+  const handleAction = useCallback(async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toastError(error instanceof Error ? error.message : message);
+    }
+  }, []);
+
+  const handleRun = (taskId: string) => {
+    setSelectedTaskId(taskId);
+    void handleAction(() => runTask(taskId), 'Failed to run task');
+  };
+
+  const handleRerunLast = () => {
+    if (lastTaskId) {
+      setSelectedTaskId(lastTaskId);
+    }
+    void handleAction(rerunLast, 'Failed to re-run task');
+  };
+
+  const handleAttach = useCallback(
+    async (run: TaskRun) => {
+      if (worktreeId && !(await appendToChat(worktreeId, formatRunForChat(run)))) {
+        toastError('Open a chat in this worktree to attach task output');
+      }
+    },
+    [worktreeId, appendToChat]
+  );
+
+  const selectedRun = selectedTaskId ? runs[selectedTaskId] : undefined;
+
+  if (!worktreeId) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex min-h-0 flex-col', className)}>
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">Tasks</span>
+        {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRerunLast}
+          disabled={!lastTaskId}
+          title={lastTaskId ? `Re-run ${runs[lastTaskId]?.name ?? lastTaskId}` : undefined}
+        >
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Re-run last
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => void refetch()}>
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <ul className="w-72 flex-shrink-0 overflow-auto border-r border-border py-1">
+          {tasks.length === 0 && !loading && (
+            <li className="px-3 py-2 text-xs text-muted-foreground">
+              No package.json scripts, Makefile targets, justfile recipes or pyproject scripts
+              found.
+            </li>
+          )}
+          {tasks.map((task) => {
+            const run = runs[task.id];
+            return (
+              <li
+                key={task.id}
+                className={cn('group flex items-center gap-1 px-2 py-1 text-xs hover:bg-muted', {
+                  'bg-muted': task.id === selectedTaskId,
+                })}
+              >
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 flex-col text-left"
+                  onClick={() => setSelectedTaskId(task.id)}
+                  title={task.command}
+                >
+                  <span className="truncate font-medium">{task.name}</span>
+                  <span className="truncate text-muted-foreground">{task.source}</span>
+                </button>
+                {run && <StatusBadge run={run} />}
+                <button
+                  type="button"
+                  className={cn('p-1 text-muted-foreground hover:text-foreground', {
+                    'invisible group-hover:visible': !task.pinned,
+                  })}
+                  onClick={() =>
+                    void handleAction(
+                      () => setPinned(task.id, !task.pinned),
+                      'Failed to update pinned tasks'
+                    )
+                  }
+                  title={task.pinned ? 'Unpin' : 'Pin'}
+                >
+                  {task.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                </button>
+                {run?.status === 'running' ? (
+                  <button
+                    type="button"
+                    className="p-1 text-muted-foreground hover:text-foreground"
+                    onClick={() =>
+                      void handleAction(() => stopTask(task.id), 'Failed to stop task')
+                    }
+                    title="Stop"
+                  >
+                    <Square className="h-3 w-3" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="p-1 text-muted-foreground hover:text-foreground"
+                    onClick={() => handleRun(task.id)}
+                    title={`Run ${task.command}`}
+                  >
+                    <Play className="h-3 w-3" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex min-w-0 flex-1 flex-col">
+          {selectedRun ? (
+            <>
+              <div className="flex items-center gap-2 border-b border-border px-3 py-1 text-xs">
+                <span className="min-w-0 flex-1 truncate font-mono text-muted-foreground">
+                  $ {selectedRun.command}
+                </span>
+                <StatusBadge run={selectedRun} />
+                {selectedRun.status === 'failed' && (
+                  <Button variant="ghost" size="sm" onClick={() => void handleAttach(selectedRun)}>
+                    <MessageSquarePlus className="mr-1 h-3 w-3" />
+                    Attach to chat
+                  </Button>
+                )}
+              </div>
+              <TaskRunOutput
+                key={selectedRun.id}
+                worktreeId={worktreeId}
+                run={selectedRun}
+                className="min-h-0 flex-1 p-2"
+              />
+            </>
+          ) : (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              {selectedTaskId ? 'This task has not been run yet' : 'Select or run a task'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
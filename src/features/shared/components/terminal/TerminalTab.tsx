@@ -3,7 +3,7 @@ import { useTerminalTabHandler } from '@/hooks/useTerminalTabHandler';
 import { useProjectsStore } from '@/stores';
 import { Terminal } from '@/types/terminal.types';
 import '@xterm/xterm/css/xterm.css';
-import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { AlertTriangle, Play, RefreshCw, X } from 'lucide-react';
 import React, { useRef } from 'react';
 
 interface TerminalTabProps {
@@ -45,13 +45,14 @@ export const TerminalTab: React.FC<TerminalTabProps> = ({
   const terminalProjectId = project?.folderName || null;
 
   // Always call hooks unconditionally (React rules)
-  const { error, isLoading, handleRetry } = useTerminalTabHandler({
-    projectId: terminalProjectId,
-    projectPath: project?.localPath,
-    terminalRef,
-    onTerminalCreated,
-    isActive,
-  });
+  const { error, isLoading, handleRetry, rerunCommand, handleRerun, handleDismissRerun } =
+    useTerminalTabHandler({
+      projectId: terminalProjectId,
+      projectPath: project?.localPath,
+      terminalRef,
+      onTerminalCreated,
+      isActive,
+    });
 
   // Guard: Wait for project to load before rendering terminal
   // This prevents race conditions where projectId updates but project is stale
@@ -102,6 +103,21 @@ export const TerminalTab: React.FC<TerminalTabProps> = ({
 
   return (
     <div className={`flex flex-col h-full bg-terminal-bg ${className} p-2`}>
+      {rerunCommand && (
+        <div className="flex items-center gap-2 mb-2 px-2 py-1 rounded-md bg-muted text-xs">
+          <span className="text-muted-foreground flex-shrink-0">Restored terminal. Re-run</span>
+          <code className="flex-1 truncate" title={rerunCommand}>
+            {rerunCommand}
+          </code>
+          <Button variant="outline" size="sm" onClick={handleRerun}>
+            <Play className="h-3 w-3 mr-1" />
+            Run
+          </Button>
+          <Button variant="ghost" size="icon-sm" title="Dismiss" onClick={handleDismissRerun}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
       <div
         ref={terminalRef}
         className="flex-1 overflow-hidden text-sm bg-terminal-bg"
@@ -2,6 +2,7 @@ import { cn } from '@/commons/utils';
 import { logger } from '@/commons/utils/logger';
 import { Button } from '@/components/ui/button';
 import { StatusDisplay } from '@/features/shared/components/agent/StatusDisplay';
+import { NetworkTab } from '@/features/monitoring/components/NetworkTab';
 import { TraceTab } from '@/features/monitoring/components/TraceTab';
 import React, { useState } from 'react';
 
@@ -9,7 +10,7 @@ interface MaximizeSessionTabProps {
   isActive: boolean;
 }
 
-type SubTabType = 'status' | 'trace';
+type SubTabType = 'status' | 'trace' | 'network';
 
 export const MaximizeSessionTab: React.FC<MaximizeSessionTabProps> = ({ isActive }) => {
   const [activeSubTab, setActiveSubTab] = useState<SubTabType>('status');
@@ -22,7 +23,7 @@ export const MaximizeSessionTab: React.FC<MaximizeSessionTabProps> = ({ isActive
     setActiveSubTab(subTab);
   };
 
-  const subTabs: SubTabType[] = ['status', 'trace'];
+  const subTabs: SubTabType[] = ['status', 'trace', 'network'];
 
   return (
     <div
@@ -56,6 +57,7 @@ export const MaximizeSessionTab: React.FC<MaximizeSessionTabProps> = ({ isActive
       <div className="flex-1 overflow-auto p-6">
         {activeSubTab === 'status' && <StatusDisplay />}
         {activeSubTab === 'trace' && <TraceTab />}
+        {activeSubTab === 'network' && <NetworkTab />}
       </div>
     </div>
   );
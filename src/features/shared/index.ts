@@ -14,6 +14,11 @@ export * from './components/git/GitDiffViewer';
 export * from './components/git/FileChangesList';
 export * from './components/git/FileDiffViewer';
 export * from './components/git/GitDiffStats';
+export * from './components/git/TurnCheckpointDialog';
+
+// Fan-out components
+export * from './components/fanout/FanOutComparison';
+export * from './components/fanout/FanOutModal';
 
 // Layout components
 export * from './components/layout/MainContent';
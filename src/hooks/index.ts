@@ -12,10 +12,13 @@ export * from './useContentEditor';
 // Chat Management Hooks
 export * from './useChatMessages';
 export * from './useChatActions';
+export * from './useAppendToChat';
 export * from './useChatInput';
 export * from './useChatInputFocus';
 export * from './usePermissionHandling';
 export * from './useMessageMetadata';
+export * from './useMessageBranching';
+export * from './useTurnCheckpoints';
 export * from './useAgentChatState';
 export * from './useChatMessageHandlers';
 export * from './useResourceAttachment';
@@ -34,6 +37,7 @@ export * from './useGitActions';
 export * from './useGitStats';
 export * from './useFileDiff';
 export * from './useGitWatcher';
+export * from './useGitSyncStatus';
 
 // Terminal Management Hooks
 export * from './useTerminals';
@@ -53,6 +57,8 @@ export * from './useSessionTabs';
 export * from './useTerminal';
 export * from './use-toast';
 export * from './useVimMode';
+export * from './useWorktreeTasks';
+export * from './useContentSearch';
 
 // Scroll Management Hooks
 export * from './useChatScroll';
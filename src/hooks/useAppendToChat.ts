@@ -0,0 +1,72 @@
+/**
+ * useAppendToChat Hook
+ * Adds text to the chat input of a worktree's agent from outside the chat, e.g. task
+ * output from the Tasks tab or search hits from the Search tab
+ *
+ * The text goes to the selected agent when it belongs to the worktree, otherwise to the
+ * worktree's first agent. It is appended to the agent's draft, which the chat input picks up.
+ *
+ * @example
+ * ```tsx
+ * const appendToChat = useAppendToChat();
+ * const agent = await appendToChat(worktreeId, '@src/index.ts#L12', { separator: ' ' });
+ * ```
+ */
+
+import { logger } from '@/commons/utils/logger';
+import type { Agent } from '@/entities';
+import { useAgentsStore, useChatStore, useUIStore } from '@/stores';
+import { useCallback } from 'react';
+
+interface AppendToChatOptions {
+  separator?: string; // Between the existing draft and the text (default a blank line)
+  openChat?: boolean; // Switch to the agent's tab (default true)
+}
+
+/**
+ * Custom hook for appending text to a worktree's chat input
+ *
+ * @returns Function that appends the text and resolves to the agent it went to, or null
+ * when the worktree has no agents
+ */
+export const useAppendToChat = () => {
+  const selectAgent = useAgentsStore((state) => state.selectAgent);
+  const setActiveTab = useUIStore((state) => state.setActiveTab);
+
+  return useCallback(
+    async (
+      worktreeId: string,
+      text: string,
+      { separator = '\n\n', openChat = true }: AppendToChatOptions = {}
+    ): Promise<Agent | null> => {
+      // Prefer the chat the user was last in, if it belongs to this worktree
+      const { agents, selectedAgentId } = useAgentsStore.getState();
+      const worktreeAgents = Array.from(agents.values()).filter(
+        (agent) => agent.projectId === worktreeId
+      );
+      const agent =
+        worktreeAgents.find((candidate) => candidate.id === selectedAgentId) || worktreeAgents[0];
+      if (!agent) {
+        return null;
+      }
+
+      const { getDraftInput, setDraftInput } = useChatStore.getState();
+      const draft = getDraftInput(agent.id);
+      const needsSeparator = draft.length > 0 && !/\s$/.test(draft);
+      setDraftInput(agent.id, `${draft}${needsSeparator ? separator : ''}${text}`);
+
+      if (openChat) {
+        await selectAgent(agent.id);
+        setActiveTab(agent.id);
+        try {
+          await window.electron.worktree.setActiveTab(worktreeId, agent.id);
+        } catch (error) {
+          logger.warn('[useAppendToChat] Failed to persist active tab', { error: String(error) });
+        }
+      }
+
+      return agent;
+    },
+    [selectAgent, setActiveTab]
+  );
+};
@@ -19,7 +19,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
  * Key Features:
  * - Command parsing (slash commands: /clear, /compact, custom commands)
  * - Input validation (non-empty, HTML to plain text conversion)
- * - Message submission to Claude SDK
+ * - Message submission to Claude SDK (queued per agent while a turn is streaming)
  * - Chat store updates (clear, compact workflows)
  * - Error state management
  * - Loading state management
@@ -178,7 +178,7 @@ export const useChatInputHandler = ({
   const isStreaming = useChatStore((state) =>
     activeChat ? state.streamingStates.get(activeChat) || false : false
   );
-  const cancelAndSend = useChatStore((state) => state.cancelAndSend);
+  const enqueueMessage = useChatStore((state) => state.enqueueMessage);
 
   // Get model from UI store
   const model = useUIStore((state) => state.selectedModel);
@@ -194,6 +194,17 @@ export const useChatInputHandler = ({
     }
   }, [activeChat, getDraftInput]);
 
+  // Pick up drafts written from outside the input (e.g. task output attached from the Tasks tab)
+  const storedDraft = useChatStore((state) =>
+    activeChat ? state.getDraftInput(activeChat) : undefined
+  );
+  useEffect(() => {
+    if (storedDraft !== undefined && storedDraft !== messageRef.current) {
+      setMessageState(storedDraft);
+      messageRef.current = storedDraft;
+    }
+  }, [storedDraft]);
+
   // Get cursor position for current chat (use activeChat for proper per-tab isolation)
   const cursorPosition = activeChat ? getDraftCursorPosition(activeChat) : null;
 
@@ -372,7 +383,7 @@ export const useChatInputHandler = ({
    * Flow:
    * 1. Validate input (non-empty after HTML stripping)
    * 2. Check if it's a built-in command (/clear, /compact)
-   * 3. Execute built-in command OR send to Claude (with silent cancellation if query active)
+   * 3. Execute built-in command OR send to Claude (queued if a turn is still running)
    * 4. Clear input on success
    *
    * Error Cases:
@@ -425,13 +436,11 @@ export const useChatInputHandler = ({
         return;
       }
 
-      // Use cancelAndSend if streaming is active (silent interruption)
+      // Queue the message if a turn is still running; it is sent when the turn ends
       // Otherwise, use regular sendMessage
-      if (isStreaming) {
-        logger.debug(
-          '[useChatInputHandler] Active stream detected, using cancelAndSend for silent interruption'
-        );
-        await cancelAndSend(messageToSend, undefined, undefined, { permissionMode, model });
+      if (isStreaming && activeChat) {
+        logger.debug('[useChatInputHandler] Active stream detected, queueing message');
+        enqueueMessage(activeChat, messageToSend, { permissionMode, model });
       } else {
         onSendMessage(messageToSend, { permissionMode, model });
       }
@@ -447,7 +456,7 @@ export const useChatInputHandler = ({
     }
   }, [
     isStreaming,
-    cancelAndSend,
+    enqueueMessage,
     onSendMessage,
     permissionMode,
     model,
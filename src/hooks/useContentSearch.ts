@@ -0,0 +1,139 @@
+/**
+ * useContentSearch Hook
+ * Custom hook for full-text search of a worktree, run in the main process
+ *
+ * Features:
+ * - Debounced: a search starts once the query and options stop changing
+ * - Results stream in file by file; a new search cancels the one still running
+ * - Regex, case and whole-word toggles, include/exclude globs
+ *
+ * @example
+ * ```tsx
+ * const { results, summary, searching } = useContentSearch({
+ *   workspacePath: project.localPath,
+ *   query: 'TODO',
+ *   options: { caseSensitive: true },
+ * });
+ * ```
+ */
+
+import { logger } from '@/commons/utils/logger';
+import type {
+  ContentSearchFileResult,
+  ContentSearchRequest,
+  ContentSearchSummary,
+} from '@/types/ipc.types';
+import { useEffect, useRef, useState } from 'react';
+
+export type ContentSearchOptions = Pick<
+  ContentSearchRequest,
+  'isRegex' | 'caseSensitive' | 'wholeWord' | 'include' | 'exclude'
+>;
+
+interface UseContentSearchOptions {
+  workspacePath: string | undefined;
+  query: string;
+  options?: ContentSearchOptions;
+  debounceMs?: number;
+}
+
+interface UseContentSearchReturn {
+  results: ContentSearchFileResult[]; // In the order files were found
+  summary: ContentSearchSummary | null; // Set once the search has finished
+  searching: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook for worktree content search
+ *
+ * @param options - Configuration options
+ * @param options.workspacePath - Directory to search
+ * @param options.query - Text or regex to search for; empty clears the results
+ * @param options.options - Search toggles and globs
+ * @param options.debounceMs - Delay before a search starts (default 300ms)
+ * @returns Results so far and the state of the search
+ */
+export const useContentSearch = ({
+  workspacePath,
+  query,
+  options = {},
+  debounceMs = 300,
+}: UseContentSearchOptions): UseContentSearchReturn => {
+  const [results, setResults] = useState<ContentSearchFileResult[]>([]);
+  const [summary, setSummary] = useState<ContentSearchSummary | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const searchIdRef = useRef<string | null>(null);
+
+  // Options arrive as a fresh object each render; only their values matter
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => {
+    const unsubscribeResults = window.electron.file.onContentSearchResults((searchId, files) => {
+      if (searchId === searchIdRef.current) {
+        setResults((current) => [...current, ...files]);
+      }
+    });
+    const unsubscribeDone = window.electron.file.onContentSearchDone((searchId, done) => {
+      if (searchId === searchIdRef.current) {
+        searchIdRef.current = null;
+        setSummary(done);
+        setSearching(false);
+        setError(done.error ?? null);
+      }
+    });
+    return () => {
+      unsubscribeResults();
+      unsubscribeDone();
+    };
+  }, []);
+
+  useEffect(() => {
+    setResults([]);
+    setSummary(null);
+    setError(null);
+
+    if (!workspacePath || !query) {
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await window.electron.file.searchContent({
+          workspacePath,
+          query,
+          ...(JSON.parse(optionsKey) as ContentSearchOptions),
+        });
+        if ('searchId' in response && !cancelled) {
+          searchIdRef.current = response.searchId;
+        } else if ('searchId' in response) {
+          void window.electron.file.cancelContentSearch(response.searchId);
+        } else if (!cancelled) {
+          setError(response.message || response.error || 'Search failed');
+          setSearching(false);
+        }
+      } catch (err) {
+        logger.warn('[useContentSearch] Failed to start search', { error: String(err) });
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+          setSearching(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (searchIdRef.current) {
+        void window.electron.file.cancelContentSearch(searchIdRef.current);
+        searchIdRef.current = null;
+      }
+    };
+  }, [workspacePath, query, optionsKey, debounceMs]);
+
+  return { results, summary, searching, error };
+};
@@ -4,6 +4,8 @@
  *
  * Features:
  * - Fetches uncommitted diff for a specific file
+ * - Optionally fetches the unstaged (index -> worktree) diff instead
+ * - Fetches staged diff for a specific file
  * - Provides loading state for async operations
  * - Handles cleanup on unmount
  * - Mock data support for development
@@ -30,10 +32,21 @@ interface UseFileDiffOptions {
   useMockData?: boolean;
 }
 
+interface FetchFileDiffOptions {
+  /**
+   * Which diff to show for the working copy:
+   * - 'uncommitted': working directory vs HEAD (default)
+   * - 'unstaged': working directory vs index, used once a file has staged changes
+   */
+  source?: 'uncommitted' | 'unstaged';
+}
+
 interface UseFileDiffReturn {
   fileDiff: FileDiff[];
+  stagedDiff: FileDiff[];
   loadingDiff: boolean;
-  fetchFileDiff: (file: string) => Promise<void>;
+  fetchFileDiff: (file: string, options?: FetchFileDiffOptions) => Promise<void>;
+  fetchStagedDiff: (file: string) => Promise<void>;
 }
 
 /**
@@ -49,15 +62,17 @@ export const useFileDiff = ({
   useMockData = false,
 }: UseFileDiffOptions): UseFileDiffReturn => {
   const [fileDiff, setFileDiff] = useState<FileDiff[]>([]);
+  const [stagedDiff, setStagedDiff] = useState<FileDiff[]>([]);
   const [loadingDiff, setLoadingDiff] = useState(false);
 
   /**
    * Fetch diff for a specific file
    *
    * @param file - Relative path to the file from the repository root
+   * @param options - Which working copy diff to fetch
    */
   const fetchFileDiff = useCallback(
-    async (file: string) => {
+    async (file: string, options?: FetchFileDiffOptions) => {
       setLoadingDiff(true);
 
       try {
@@ -83,7 +98,10 @@ export const useFileDiff = ({
           workingDirectory: workingDirectory.substring(workingDirectory.lastIndexOf('/') + 1),
         });
 
-        const result = (await window.electron?.ipcRenderer?.invoke?.('git-diff:get-uncommitted', {
+        const channel =
+          options?.source === 'unstaged' ? 'git-diff:get-unstaged' : 'git-diff:get-uncommitted';
+
+        const result = (await window.electron?.ipcRenderer?.invoke?.(channel, {
           repoPath: workingDirectory,
           filePath: file,
         })) as FileDiff[] | undefined | { success: false; error: string; message: string };
@@ -120,9 +138,41 @@ export const useFileDiff = ({
     [workingDirectory, useMockData]
   );
 
+  /**
+   * Fetch staged (HEAD -> index) diff for a specific file
+   *
+   * @param file - Relative path to the file from the repository root
+   */
+  const fetchStagedDiff = useCallback(
+    async (file: string) => {
+      if (useMockData || !workingDirectory) {
+        setStagedDiff([]);
+        return;
+      }
+
+      try {
+        const result = (await window.electron?.ipcRenderer?.invoke?.('git-diff:get-staged', {
+          repoPath: workingDirectory,
+          filePath: file,
+        })) as FileDiff[] | undefined | { success: false; error: string; message: string };
+
+        setStagedDiff(Array.isArray(result) ? result : []);
+      } catch (err) {
+        logger.error('[useFileDiff] Error fetching staged diff', {
+          file,
+          error: err instanceof Error ? err.message : 'Failed to fetch staged diff',
+        });
+        setStagedDiff([]);
+      }
+    },
+    [workingDirectory, useMockData]
+  );
+
   return {
     fileDiff,
+    stagedDiff,
     loadingDiff,
     fetchFileDiff,
+    fetchStagedDiff,
   };
 };
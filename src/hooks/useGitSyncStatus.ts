@@ -0,0 +1,97 @@
+/**
+ * useGitSyncStatus Hook
+ * Custom hook for the current branch's ahead/behind state and push/pull actions
+ *
+ * Features:
+ * - Fetches branch name and ahead/behind counts against origin
+ * - Push and pull actions that refresh the counts afterwards
+ * - Tracks which remote operation is in flight
+ *
+ * @example
+ * ```tsx
+ * const { status, syncing, push, pull, refetch } = useGitSyncStatus({
+ *   workingDirectory: '/path/to/repo',
+ * });
+ * ```
+ */
+
+import { logger } from '@/commons/utils/logger';
+import { GitCommitService } from '@/services/GitCommitService';
+import { GitSyncStatus } from '@/types/git-diff.types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface UseGitSyncStatusOptions {
+  workingDirectory: string | undefined;
+}
+
+interface UseGitSyncStatusReturn {
+  status: GitSyncStatus | null;
+  syncing: 'push' | 'pull' | null;
+  refetch: () => Promise<void>;
+  push: () => Promise<string>;
+  pull: () => Promise<string>;
+}
+
+/**
+ * Custom hook for git push/pull state
+ *
+ * @param options - Configuration options
+ * @param options.workingDirectory - Path to the git repository
+ * @returns Sync status, in-flight operation and push/pull actions
+ */
+export const useGitSyncStatus = ({
+  workingDirectory,
+}: UseGitSyncStatusOptions): UseGitSyncStatusReturn => {
+  const [status, setStatus] = useState<GitSyncStatus | null>(null);
+  const [syncing, setSyncing] = useState<'push' | 'pull' | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!workingDirectory) {
+      setStatus(null);
+      return;
+    }
+
+    try {
+      setStatus(await GitCommitService.getSyncStatus(workingDirectory));
+    } catch (err) {
+      logger.warn('[useGitSyncStatus] Failed to fetch sync status', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      setStatus(null);
+    }
+  }, [workingDirectory]);
+
+  const runSync = useCallback(
+    async (operation: 'push' | 'pull'): Promise<string> => {
+      if (!workingDirectory) {
+        throw new Error('No working directory selected');
+      }
+
+      setSyncing(operation);
+      try {
+        return operation === 'push'
+          ? await GitCommitService.push(workingDirectory)
+          : await GitCommitService.pull(workingDirectory);
+      } finally {
+        setSyncing(null);
+        await refetch();
+      }
+    },
+    [workingDirectory, refetch]
+  );
+
+  const push = useCallback(() => runSync('push'), [runSync]);
+  const pull = useCallback(() => runSync('pull'), [runSync]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  return {
+    status,
+    syncing,
+    refetch,
+    push,
+    pull,
+  };
+};
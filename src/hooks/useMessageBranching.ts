@@ -0,0 +1,110 @@
+import { logger } from '@/commons/utils/logger';
+import { generateSessionName } from '@/commons/utils/project/session_name_generator';
+import { AgentStatus, AgentType } from '@/entities';
+import { useAgentsStore, useChatStore, useProjectsStore, useUIStore } from '@/stores';
+import type { BranchSessionResponse } from '@/types/ipc.types';
+import { useCallback } from 'react';
+
+/**
+ * Rewind or fork the active conversation at one of the user's messages.
+ *
+ * - Rewind: the same tab drops the message and everything after it; the next
+ *   message continues the Claude session from just before it.
+ * - Fork: a new agent tab gets the history up to the message while the
+ *   original conversation is left untouched.
+ *
+ * In both cases the message text is put back in the input so it can be edited
+ * and resent. With `restoreFiles`, the worktree is reset to the git state
+ * recorded when the message was sent (current changes are stashed first).
+ */
+export interface UseMessageBranchingReturn {
+  rewindToMessage: (
+    messageId: string,
+    options?: { restoreFiles?: boolean }
+  ) => Promise<BranchSessionResponse>;
+  forkFromMessage: (
+    messageId: string,
+    options?: { restoreFiles?: boolean }
+  ) => Promise<BranchSessionResponse>;
+}
+
+export const useMessageBranching = (): UseMessageBranchingReturn => {
+  const activeChat = useChatStore((state) => state.activeChat);
+  const branchFromMessage = useChatStore((state) => state.branchFromMessage);
+  const agents = useAgentsStore((state) => state.agents);
+  const createAgent = useAgentsStore((state) => state.createAgent);
+  const deleteAgent = useAgentsStore((state) => state.deleteAgent);
+  const selectAgent = useAgentsStore((state) => state.selectAgent);
+  const projectId = useProjectsStore((state) => state.selectedProjectId);
+  const setActiveTab = useUIStore((state) => state.setActiveTab);
+
+  const rewindToMessage = useCallback(
+    async (messageId: string, options?: { restoreFiles?: boolean }) => {
+      if (!activeChat) {
+        return { success: false, error: 'No active conversation' };
+      }
+      return branchFromMessage(activeChat, messageId, activeChat, options);
+    },
+    [activeChat, branchFromMessage]
+  );
+
+  const forkFromMessage = useCallback(
+    async (messageId: string, options?: { restoreFiles?: boolean }) => {
+      if (!activeChat || !projectId) {
+        return { success: false, error: 'No active conversation' };
+      }
+
+      const existingNames = new Set(
+        Array.from(agents.values())
+          .filter((agent) => agent.projectId === projectId)
+          .map((agent) => agent.title)
+      );
+
+      let forkId: string;
+      try {
+        const fork = await createAgent({
+          title: generateSessionName(existingNames),
+          content: '',
+          type: AgentType.TEXT,
+          status: AgentStatus.DRAFT,
+          projectId,
+        });
+        forkId = fork.id;
+      } catch (error) {
+        logger.error('[useMessageBranching] Failed to create fork agent', { error: String(error) });
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create a new tab',
+        };
+      }
+
+      const result = await branchFromMessage(activeChat, messageId, forkId, options);
+      if (!result.success) {
+        await deleteAgent(forkId);
+        return result;
+      }
+
+      await selectAgent(forkId);
+      setActiveTab(forkId);
+      try {
+        await window.electron.worktree.setActiveTab(projectId, forkId);
+      } catch (error) {
+        logger.warn('[useMessageBranching] Failed to persist active tab', { error: String(error) });
+      }
+
+      return result;
+    },
+    [
+      activeChat,
+      projectId,
+      agents,
+      createAgent,
+      deleteAgent,
+      selectAgent,
+      setActiveTab,
+      branchFromMessage,
+    ]
+  );
+
+  return { rewindToMessage, forkFromMessage };
+};
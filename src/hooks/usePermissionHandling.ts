@@ -2,7 +2,9 @@ import { useCallback, useState } from 'react';
 import { ComputedMessage } from '@/stores/chat.selectors';
 import { PermissionRequest } from '@/stores/types';
 import { logger } from '@/commons/utils/logger';
+import { claudeCodeService } from '@/renderer/services/ClaudeCodeService';
 import { useChatStore } from '@/stores';
+import type { ToolPermissionDecision } from '@/types/permission.types';
 
 /**
  * Parameters for the permission handling hook
@@ -31,10 +33,33 @@ export interface UsePermissionHandlingReturn {
   setShowPermissionDialog: (show: boolean) => void;
   /** Handle permission approval */
   handlePermissionApprove: () => Promise<void>;
-  /** Handle permission rejection */
-  handlePermissionReject: () => void;
+  /** Approve and stop asking for matching tool calls in this session (live requests only) */
+  handlePermissionApproveForSession: () => Promise<void>;
+  /** Handle permission rejection; for live requests `message` is passed to the model */
+  handlePermissionReject: (message?: string) => void;
 }
 
+/**
+ * Build the permission action message shown in the chat after a decision
+ */
+const createPermissionActionMessage = (
+  type: 'accepted' | 'rejected',
+  request: PermissionRequest
+): ComputedMessage => ({
+  id: `permission-${type === 'accepted' ? 'approved' : 'rejected'}-${Date.now()}`,
+  role: 'assistant',
+  content: '',
+  timestamp: new Date(),
+  permissionAction: {
+    type,
+    file_path: request.file_path,
+    ...(request.old_string && { old_string: request.old_string }),
+    ...(request.new_string && { new_string: request.new_string }),
+    ...(request.content && { content: request.content }),
+    timestamp: new Date(),
+  },
+});
+
 /**
  * usePermissionHandling Hook
  *
@@ -44,6 +69,8 @@ export interface UsePermissionHandlingReturn {
  * - State management for permission dialog visibility
  * - Permission approval flow with action message creation
  * - Permission rejection flow with action message creation
+ * - Live requests (with `request_id`) are answered over IPC while the query keeps running
+ * - After-the-fact denials are approved by re-sending the turn in bypass mode
  * - Streaming state cleanup on approval/rejection
  * - Comprehensive error logging
  * - Stable callback references with useCallback
@@ -52,7 +79,7 @@ export interface UsePermissionHandlingReturn {
  * - React hook pattern
  * - Directly updates chat store state
  * - Creates permission action messages for UI display
- * - Continues conversation after approval with bypass mode
+ * - Continues conversation after approval with bypass mode (denials from a finished turn)
  *
  * Usage:
  * ```tsx
@@ -87,11 +114,52 @@ export const usePermissionHandling = ({
 }: UsePermissionHandlingParams): UsePermissionHandlingReturn => {
   const [showPermissionDialog, setShowPermissionDialog] = useState(false);
 
+  /**
+   * Answer a live permission request
+   *
+   * The query is still running, so only the request is cleared from the
+   * streaming message; the action message is added once the answer is delivered.
+   */
+  const respondToLiveRequest = useCallback(
+    async (chatId: string, request: PermissionRequest, decision: ToolPermissionDecision) => {
+      const delivered = await claudeCodeService.respondToPermission(request.request_id!, decision);
+
+      useChatStore.setState((state) => {
+        if (delivered) {
+          const messages = state.messages.get(chatId) || [];
+          state.messages.set(chatId, [
+            ...messages,
+            createPermissionActionMessage(
+              decision.behavior === 'allow' ? 'accepted' : 'rejected',
+              request
+            ),
+          ]);
+        }
+        const streamingMsg = state.streamingMessages.get(chatId);
+        if (streamingMsg && streamingMsg.permissionRequest?.request_id === request.request_id) {
+          const updatedMsg = { ...streamingMsg };
+          delete updatedMsg.permissionRequest;
+          state.streamingMessages.set(chatId, updatedMsg);
+        }
+        return state;
+      });
+
+      if (!delivered) {
+        logger.warn('[usePermissionHandling] Permission request is no longer pending', {
+          chatId,
+          requestId: request.request_id,
+        });
+      }
+    },
+    []
+  );
+
   /**
    * Handle permission approval
    *
-   * Creates a permission action message showing the accepted change,
-   * clears streaming state, and continues conversation with bypass mode.
+   * Live requests are allowed once over IPC. Otherwise creates a permission
+   * action message showing the accepted change, clears streaming state, and
+   * continues conversation with bypass mode.
    */
   const handlePermissionApprove = useCallback(async () => {
     logger.debug('[usePermissionHandling] Permission approved', {
@@ -105,27 +173,19 @@ export const usePermissionHandling = ({
       const chatId = activeChat;
 
       try {
+        if (currentPermissionRequest.request_id) {
+          await respondToLiveRequest(chatId, currentPermissionRequest, {
+            behavior: 'allow',
+            scope: 'once',
+          });
+          return;
+        }
+
         // Add a permission action message to show the accepted change
-        const permissionActionMessage: ComputedMessage = {
-          id: `permission-approved-${Date.now()}`,
-          role: 'assistant',
-          content: '',
-          timestamp: new Date(),
-          permissionAction: {
-            type: 'accepted',
-            file_path: currentPermissionRequest.file_path,
-            ...(currentPermissionRequest.old_string && {
-              old_string: currentPermissionRequest.old_string,
-            }),
-            ...(currentPermissionRequest.new_string && {
-              new_string: currentPermissionRequest.new_string,
-            }),
-            ...(currentPermissionRequest.content && {
-              content: currentPermissionRequest.content,
-            }),
-            timestamp: new Date(),
-          },
-        };
+        const permissionActionMessage = createPermissionActionMessage(
+          'accepted',
+          currentPermissionRequest
+        );
 
         // Add the permission action message to the chat
         useChatStore.setState((state) => {
@@ -154,74 +214,109 @@ export const usePermissionHandling = ({
         throw error;
       }
     }
-  }, [activeChat, currentPermissionRequest, sendMessage]);
+  }, [activeChat, currentPermissionRequest, sendMessage, respondToLiveRequest]);
 
   /**
-   * Handle permission rejection
+   * Handle "allow for session" on a live permission request
    *
-   * Creates a permission action message showing the rejected change
-   * and clears streaming state.
+   * The main process turns this into session-scoped allow rules, so matching
+   * tool calls in later turns of this session are not prompted again.
    */
-  const handlePermissionReject = useCallback(() => {
-    logger.debug('[usePermissionHandling] Permission rejected', {
+  const handlePermissionApproveForSession = useCallback(async () => {
+    logger.debug('[usePermissionHandling] Permission approved for session', {
       activeChat,
       hasPermissionRequest: !!currentPermissionRequest,
     });
 
     setShowPermissionDialog(false);
 
-    if (activeChat && currentPermissionRequest) {
-      const chatId = activeChat;
+    if (!activeChat || !currentPermissionRequest?.request_id) {
+      return;
+    }
 
-      try {
-        // Add a permission action message to show the rejected change
-        const permissionActionMessage: ComputedMessage = {
-          id: `permission-rejected-${Date.now()}`,
-          role: 'assistant',
-          content: '',
-          timestamp: new Date(),
-          permissionAction: {
-            type: 'rejected',
-            file_path: currentPermissionRequest.file_path,
-            ...(currentPermissionRequest.old_string && {
-              old_string: currentPermissionRequest.old_string,
-            }),
-            ...(currentPermissionRequest.new_string && {
-              new_string: currentPermissionRequest.new_string,
-            }),
-            ...(currentPermissionRequest.content && {
-              content: currentPermissionRequest.content,
-            }),
-            timestamp: new Date(),
-          },
-        };
+    try {
+      await respondToLiveRequest(activeChat, currentPermissionRequest, {
+        behavior: 'allow',
+        scope: 'session',
+      });
+    } catch (error) {
+      logger.error('[usePermissionHandling] Failed to approve permission for session', {
+        chatId: activeChat,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }, [activeChat, currentPermissionRequest, respondToLiveRequest]);
 
-        // Add the permission action message to the chat
-        useChatStore.setState((state) => {
-          const messages = state.messages.get(chatId) || [];
-          state.messages.set(chatId, [...messages, permissionActionMessage]);
-          state.streamingMessages.delete(chatId);
-          return state;
-        });
+  /**
+   * Handle permission rejection
+   *
+   * Live requests are denied over IPC (with the optional message as guidance
+   * for the model). Otherwise creates a permission action message showing the
+   * rejected change and clears streaming state.
+   */
+  const handlePermissionReject = useCallback(
+    (message?: string) => {
+      logger.debug('[usePermissionHandling] Permission rejected', {
+        activeChat,
+        hasPermissionRequest: !!currentPermissionRequest,
+      });
 
-        logger.debug('[usePermissionHandling] Permission rejection message added', {
-          chatId,
-          messageId: permissionActionMessage.id,
-        });
-      } catch (error) {
-        logger.error('[usePermissionHandling] Failed to handle permission rejection', {
-          chatId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-        throw error;
+      setShowPermissionDialog(false);
+
+      if (activeChat && currentPermissionRequest) {
+        const chatId = activeChat;
+
+        if (currentPermissionRequest.request_id) {
+          const trimmed = message?.trim();
+          respondToLiveRequest(chatId, currentPermissionRequest, {
+            behavior: 'deny',
+            ...(trimmed && { message: trimmed }),
+          }).catch((error) => {
+            logger.error('[usePermissionHandling] Failed to deny live permission request', {
+              chatId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+          return;
+        }
+
+        try {
+          // Add a permission action message to show the rejected change
+          const permissionActionMessage = createPermissionActionMessage(
+            'rejected',
+            currentPermissionRequest
+          );
+
+          // Add the permission action message to the chat
+          useChatStore.setState((state) => {
+            const messages = state.messages.get(chatId) || [];
+            state.messages.set(chatId, [...messages, permissionActionMessage]);
+            state.streamingMessages.delete(chatId);
+            return state;
+          });
+
+          logger.debug('[usePermissionHandling] Permission rejection message added', {
+            chatId,
+            messageId: permissionActionMessage.id,
+          });
+        } catch (error) {
+          logger.error('[usePermissionHandling] Failed to handle permission rejection', {
+            chatId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
       }
-    }
-  }, [activeChat, currentPermissionRequest]);
+    },
+    [activeChat, currentPermissionRequest, respondToLiveRequest]
+  );
 
   return {
     showPermissionDialog,
     setShowPermissionDialog,
     handlePermissionApprove,
+    handlePermissionApproveForSession,
     handlePermissionReject,
   };
 };
@@ -8,22 +8,29 @@ import { useProjectsStore } from '../stores/projects.store';
 import { useUIStore } from '../stores/ui';
 import { useSettingsStore } from '../stores/settings';
 import { SessionTab } from '../types/ui.types';
-import { MAX_TABS, TERMINAL_TAB_ID, CHANGES_TAB_ID, TOOLS_TAB_ID } from '../constants/tabs';
+import {
+  MAX_TABS,
+  TERMINAL_TAB_ID,
+  CHANGES_TAB_ID,
+  TOOLS_TAB_ID,
+  TASKS_TAB_ID,
+  SEARCH_TAB_ID,
+} from '../constants/tabs';
 
 /**
- * Creates a system tab (terminal, changes, or tools).
+ * Creates a system tab (terminal, changes, tools, tasks, or search).
  * System tabs are always present and cannot be closed.
  *
  * @param id - Unique tab identifier
  * @param name - Display name for the tab
- * @param type - System tab type ('terminal', 'changes', or 'tools')
+ * @param type - System tab type ('terminal', 'changes', 'tools', 'tasks', or 'search')
  * @param isActive - Whether this tab is currently active
  * @returns SessionTab configured as a system tab
  */
 const createSystemTab = (
   id: string,
   name: string,
-  type: 'terminal' | 'changes' | 'tools',
+  type: 'terminal' | 'changes' | 'tools' | 'tasks' | 'search',
   isActive: boolean
 ): SessionTab => ({
   id,
@@ -133,7 +140,13 @@ export const useSessionTabs = () => {
         );
 
         const agentIds = projectAgents.map((agent) => agent.id);
-        const systemTabIds = [TERMINAL_TAB_ID, CHANGES_TAB_ID, TOOLS_TAB_ID];
+        const systemTabIds = [
+          TERMINAL_TAB_ID,
+          CHANGES_TAB_ID,
+          TOOLS_TAB_ID,
+          TASKS_TAB_ID,
+          SEARCH_TAB_ID,
+        ];
         const allTabIds = [...agentIds, ...systemTabIds];
 
         // IMPORTANT: If activeTabId is already set AND it exists in current project tabs
@@ -234,8 +247,17 @@ export const useSessionTabs = () => {
     // Create Tools tab (system tab - same pattern as terminal/changes)
     const toolsTab = createSystemTab(TOOLS_TAB_ID, 'Tools', 'tools', activeTabId === TOOLS_TAB_ID);
 
+    const tasksTab = createSystemTab(TASKS_TAB_ID, 'Tasks', 'tasks', activeTabId === TASKS_TAB_ID);
+
+    const searchTab = createSystemTab(
+      SEARCH_TAB_ID,
+      'Search',
+      'search',
+      activeTabId === SEARCH_TAB_ID
+    );
+
     // Place tools tab before terminal (to the left in the UI)
-    return [...agentTabs, toolsTab, terminalTab, changesTab];
+    return [...agentTabs, toolsTab, terminalTab, tasksTab, searchTab, changesTab];
   }, [agents, projectId, activeTabId]); // REMOVED: selectedAgentId (unused in memo)
 
   const activeTab = useMemo(() => tabs.find((tab) => tab.isActive) || null, [tabs]);
@@ -256,10 +278,14 @@ export const useSessionTabs = () => {
         return;
       }
 
-      // For system tabs (terminal, changes, tools), DON'T select an agent - just set the active tab
-      // The MainContent component uses activeTabId to control visibility
+      // For system tabs (terminal, changes, tools, tasks, search), DON'T select an agent - just
+      // set the active tab. The MainContent component uses activeTabId to control visibility
       const isSystemTab =
-        tab.tabType === 'terminal' || tab.tabType === 'changes' || tab.tabType === 'tools';
+        tab.tabType === 'terminal' ||
+        tab.tabType === 'changes' ||
+        tab.tabType === 'tools' ||
+        tab.tabType === 'tasks' ||
+        tab.tabType === 'search';
 
       if (!isSystemTab) {
         await selectAgent(tab.agentId);
@@ -0,0 +1,157 @@
+import { logger } from '@/commons/utils/logger';
+import { usePickerKeyboardNav } from '@/hooks/usePickerKeyboardNav';
+import type { CodeSymbol } from '@/types/ipc.types';
+import { formatLineMention } from '@/utils/codeMentions';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface SymbolMention {
+  mention: string; // Text to insert, e.g. "@src/foo.ts#MyClass.method"
+  label: string;
+  detail: string;
+}
+
+export interface UseSymbolMentionsProps {
+  filePath: string; // Empty to search the whole worktree
+  query: string; // Text after the #
+  isOpen: boolean;
+  projectPath?: string;
+  onSelect: (item: SymbolMention) => void;
+  onClose: () => void;
+}
+
+export interface UseSymbolMentionsReturn {
+  items: SymbolMention[];
+  selectedIndex: number;
+  setSelectedIndex: (index: number | ((prev: number) => number)) => void;
+  isLoading: boolean;
+  pickerRef: React.RefObject<HTMLDivElement>;
+  scrollAreaRef: React.RefObject<HTMLDivElement>;
+}
+
+const LINE_RANGE = /^L(\d+)(?:-L?(\d+))?$/;
+
+const toMention = (symbol: CodeSymbol): SymbolMention => ({
+  mention: `@${symbol.path}#${symbol.qualifiedName}`,
+  label: symbol.qualifiedName,
+  detail: `${symbol.kind} · ${symbol.path}:${symbol.startLine}-${symbol.endLine}`,
+});
+
+/**
+ * Business logic hook for SymbolMentions component
+ *
+ * Responsibilities:
+ * - Look up symbols in the worktree's symbol index via IPC, for `@path#Symbol` mentions
+ * - Offer `#L10` and `#L10-40` line ranges as typed
+ * - Handle keyboard navigation (delegated to usePickerKeyboardNav)
+ * - Handle click outside to close
+ *
+ * @see useFileMentions for the file picker shown before the #
+ */
+export const useSymbolMentions = ({
+  filePath,
+  query,
+  isOpen,
+  projectPath,
+  onSelect,
+  onClose,
+}: UseSymbolMentionsProps): UseSymbolMentionsReturn => {
+  const [items, setItems] = useState<SymbolMention[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+
+  const loadSymbols = useCallback(async () => {
+    // A line range needs no lookup
+    const lineRange = LINE_RANGE.exec(query);
+    if (lineRange) {
+      const start = Number(lineRange[1]);
+      const end = lineRange[2] ? Number(lineRange[2]) : start;
+      setItems(
+        filePath
+          ? [
+              {
+                mention: formatLineMention(filePath, start, end),
+                label: end === start ? `Line ${start}` : `Lines ${start}-${end}`,
+                detail: filePath,
+              },
+            ]
+          : []
+      );
+      setIsLoading(false);
+      return;
+    }
+
+    if (!projectPath || !window.electron?.file?.searchSymbols) {
+      setItems([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await window.electron.file.searchSymbols({
+        workspacePath: projectPath,
+        query,
+        ...(filePath && { path: filePath }),
+      });
+      setItems('symbols' in response ? response.symbols.map(toMention) : []);
+    } catch (error) {
+      logger.error('Failed to load symbols:', error);
+      setItems([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filePath, query, projectPath]);
+
+  // Debounce lookups while typing
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const timeoutId = setTimeout(
+      () => {
+        void loadSymbols();
+      },
+      query ? 150 : 0
+    );
+
+    return () => clearTimeout(timeoutId);
+  }, [isOpen, query, loadSymbols]);
+
+  const { selectedIndex, setSelectedIndex } = usePickerKeyboardNav({
+    items,
+    isOpen,
+    pickerRef,
+    onSelect,
+    onClose,
+    onTabSelect: onSelect,
+    enableLogging: false,
+    componentName: 'SymbolMentions',
+  });
+
+  // Auto-scroll to selected item
+  useEffect(() => {
+    const scrollContainer = scrollAreaRef.current?.querySelector(
+      '[data-radix-scroll-area-viewport]'
+    );
+    scrollContainer
+      ?.querySelector(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedIndex, items.length]);
+
+  // Handle clicks outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+    };
+  }, [isOpen, onClose]);
+
+  return { items, selectedIndex, setSelectedIndex, isLoading, pickerRef, scrollAreaRef };
+};
@@ -47,6 +47,7 @@ export const useTerminalTabHandler = ({
   const [terminal, setTerminal] = useState<Terminal | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [rerunCommand, setRerunCommand] = useState<string | null>(null);
 
   const xtermRef = useRef<XTerm | null>(null);
   const isCreatingRef = useRef<boolean>(false);
@@ -87,16 +88,23 @@ export const useTerminalTabHandler = ({
       setIsLoading(true);
       setError(null);
 
-      // Create terminal via IPC
+      // Create terminal via IPC, restoring the project's terminal from the last session
       const newTerminal = await createTerminalIPC(
         projectPath
           ? {
               size: { cols: 80, rows: 24 },
               cwd: projectPath,
+              persistKey: projectId,
             }
-          : { size: { cols: 80, rows: 24 } }
+          : { size: { cols: 80, rows: 24 }, persistKey: projectId }
       );
 
+      // Offer to start again what was running when the app quit
+      const { restored } = newTerminal;
+      if (restored?.launchCommand && !restored.reattached) {
+        setRerunCommand(restored.launchCommand);
+      }
+
       // Add to store
       const { addTerminal } = useTerminalStore.getState();
       addTerminal(newTerminal);
@@ -132,6 +140,24 @@ export const useTerminalTabHandler = ({
     void handleCreateTerminal();
   }, [handleCreateTerminal]);
 
+  const handleRerun = useCallback(() => {
+    if (!terminal || !rerunCommand) {
+      return;
+    }
+    setRerunCommand(null);
+    writeToTerminal(terminal.id, `${rerunCommand}\r`).catch((err) => {
+      logger.error('[useTerminalTabHandler] Failed to re-run command', {
+        terminalId: terminal.id,
+        error: err,
+      });
+    });
+    xtermRef.current?.focus();
+  }, [terminal, rerunCommand, writeToTerminal]);
+
+  const handleDismissRerun = useCallback(() => {
+    setRerunCommand(null);
+  }, []);
+
   // Effect 1: Project changed - attach/create terminal for this project
   useEffect(() => {
     if (!projectId || !terminalRef.current) {
@@ -186,6 +212,15 @@ export const useTerminalTabHandler = ({
       } else {
         // Create new terminal in pool - attaches permanently on creation
         adapter = createPoolTerminal(projectId, terminal, container);
+
+        // Show the scrollback saved when the app last quit
+        if (adapter && terminal.restored?.content) {
+          const savedAt = new Date(terminal.restored.savedAt).toLocaleString();
+          adapter.getXtermInstance().write(terminal.restored.content);
+          adapter
+            .getXtermInstance()
+            .write(`\r\n\x1b[2m--- Restored from session saved ${savedAt} ---\x1b[0m\r\n`);
+        }
       }
 
       if (!adapter) {
@@ -337,5 +372,8 @@ export const useTerminalTabHandler = ({
     isLoading,
     xtermRef,
     handleRetry,
+    rerunCommand,
+    handleRerun,
+    handleDismissRerun,
   };
 };
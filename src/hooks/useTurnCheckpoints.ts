@@ -0,0 +1,134 @@
+/**
+ * useTurnCheckpoints Hook
+ * Custom hook for the per-turn worktree checkpoints recorded for a worktree's agents
+ *
+ * Features:
+ * - Lists checkpoints for every agent in the worktree, newest first
+ * - Diffs a checkpoint against the end of its turn or the current worktree
+ * - Undoes one turn's file changes and refreshes the list afterwards
+ *
+ * @example
+ * ```tsx
+ * const { checkpoints, refetch, diffCheckpoint, undoCheckpoint } = useTurnCheckpoints({
+ *   worktreeId: 'my-project-feature',
+ * });
+ * ```
+ */
+
+import { logger } from '@/commons/utils/logger';
+import { FileDiff } from '@/types/git-diff.types';
+import type { AgentTurnCheckpoint, UndoCheckpointResponse } from '@/types/ipc.types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface UseTurnCheckpointsOptions {
+  worktreeId: string | null | undefined;
+}
+
+interface UseTurnCheckpointsReturn {
+  checkpoints: AgentTurnCheckpoint[];
+  refetch: () => Promise<void>;
+  diffCheckpoint: (
+    checkpoint: AgentTurnCheckpoint,
+    against?: 'turn' | 'current'
+  ) => Promise<FileDiff[]>;
+  undoCheckpoint: (checkpoint: AgentTurnCheckpoint) => Promise<UndoCheckpointResponse>;
+}
+
+/**
+ * Find the checkpoint of the turn a message was produced in
+ *
+ * @param checkpoints - Checkpoints of a single agent
+ * @param timestamp - When the message was created
+ */
+export const findCheckpointForMessage = (
+  checkpoints: AgentTurnCheckpoint[],
+  timestamp: Date
+): AgentTurnCheckpoint | undefined => {
+  const time = timestamp.getTime();
+  return checkpoints.find(
+    (checkpoint) =>
+      new Date(checkpoint.startedAt).getTime() <= time &&
+      (!checkpoint.endedAt || time <= new Date(checkpoint.endedAt).getTime())
+  );
+};
+
+/**
+ * Custom hook for turn checkpoints
+ *
+ * @param options - Configuration options
+ * @param options.worktreeId - Worktree folder name (the project id)
+ * @returns Checkpoints plus diff and undo actions
+ */
+export const useTurnCheckpoints = ({
+  worktreeId,
+}: UseTurnCheckpointsOptions): UseTurnCheckpointsReturn => {
+  const [checkpoints, setCheckpoints] = useState<AgentTurnCheckpoint[]>([]);
+
+  const refetch = useCallback(async () => {
+    if (!worktreeId) {
+      setCheckpoints([]);
+      return;
+    }
+
+    try {
+      const result = await window.electron.agents.listCheckpoints(worktreeId);
+      setCheckpoints(Array.isArray(result) ? result : []);
+    } catch (err) {
+      logger.warn('[useTurnCheckpoints] Failed to list checkpoints', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      setCheckpoints([]);
+    }
+  }, [worktreeId]);
+
+  const diffCheckpoint = useCallback(
+    async (checkpoint: AgentTurnCheckpoint, against: 'turn' | 'current' = 'turn') => {
+      if (!worktreeId) {
+        throw new Error('No worktree selected');
+      }
+
+      const result: unknown = await window.electron.agents.diffCheckpoint({
+        worktreeId,
+        agentId: checkpoint.agentId,
+        checkpointId: checkpoint.id,
+        against,
+      });
+      if (!Array.isArray(result)) {
+        const failure = result as { error?: string } | undefined;
+        throw new Error(failure?.error || 'Failed to load checkpoint diff');
+      }
+      return result as FileDiff[];
+    },
+    [worktreeId]
+  );
+
+  const undoCheckpoint = useCallback(
+    async (checkpoint: AgentTurnCheckpoint) => {
+      if (!worktreeId) {
+        return { success: false, error: 'No worktree selected' };
+      }
+
+      try {
+        return await window.electron.agents.undoCheckpoint({
+          worktreeId,
+          agentId: checkpoint.agentId,
+          checkpointId: checkpoint.id,
+        });
+      } finally {
+        await refetch();
+      }
+    },
+    [worktreeId, refetch]
+  );
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  return {
+    checkpoints,
+    refetch,
+    diffCheckpoint,
+    undoCheckpoint,
+  };
+};
@@ -0,0 +1,172 @@
+/**
+ * useWorktreeTasks Hook
+ * Custom hook for the Tasks tab: scripts detected in a worktree and their runs
+ *
+ * Features:
+ * - Lists package.json, Makefile, justfile and pyproject.toml tasks, pinned tasks first
+ * - Runs, stops and re-runs tasks; run results arrive from the main process as they finish
+ * - Pins tasks in the worktree config
+ *
+ * @example
+ * ```tsx
+ * const { tasks, runs, runTask, rerunLast } = useWorktreeTasks({ worktreeId: 'my-project' });
+ * ```
+ */
+
+import { logger } from '@/commons/utils/logger';
+import type { TaskRun, WorktreeTask, WorktreeTasks } from '@/types/task-runner.types';
+import { useCallback, useEffect, useState } from 'react';
+
+const TASK_RUN_UPDATED_CHANNEL = 'tasks:runUpdated';
+
+interface UseWorktreeTasksOptions {
+  worktreeId: string | null | undefined;
+}
+
+interface UseWorktreeTasksReturn {
+  tasks: WorktreeTask[];
+  runs: Record<string, TaskRun>; // Latest run by task id
+  lastTaskId: string | undefined;
+  loading: boolean;
+  refetch: () => Promise<void>;
+  runTask: (taskId: string) => Promise<void>;
+  rerunLast: () => Promise<void>;
+  stopTask: (taskId: string) => Promise<void>;
+  setPinned: (taskId: string, pinned: boolean) => Promise<void>;
+}
+
+/**
+ * Invoke a tasks IPC channel, turning a failed safe-handler response into an error
+ */
+const invokeTasks = async <T>(channel: string, ...args: unknown[]): Promise<T> => {
+  const result = await window.electron.ipcRenderer.invoke(channel, ...args);
+  if (result && result.success === false) {
+    throw new Error(result.message || result.error || `${channel} failed`);
+  }
+  return result as T;
+};
+
+/**
+ * Output of a task run with ANSI codes, for replaying it into a terminal view
+ */
+export const getTaskRunOutput = async (worktreeId: string, runId: string): Promise<string> => {
+  const output = await invokeTasks<unknown>('tasks:getOutput', worktreeId, runId);
+  return typeof output === 'string' ? output : '';
+};
+
+/**
+ * Custom hook for worktree tasks
+ *
+ * @param options - Configuration options
+ * @param options.worktreeId - Worktree folder name (the project id)
+ * @returns Tasks, their latest runs and run actions
+ */
+export const useWorktreeTasks = ({
+  worktreeId,
+}: UseWorktreeTasksOptions): UseWorktreeTasksReturn => {
+  const [tasks, setTasks] = useState<WorktreeTask[]>([]);
+  const [runs, setRuns] = useState<Record<string, TaskRun>>({});
+  const [lastTaskId, setLastTaskId] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    if (!worktreeId) {
+      setTasks([]);
+      setRuns({});
+      setLastTaskId(undefined);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await invokeTasks<WorktreeTasks>('tasks:list', worktreeId);
+      setTasks(result.tasks);
+      setRuns(Object.fromEntries(result.runs.map((run) => [run.taskId, run])));
+      setLastTaskId(result.lastTaskId);
+    } catch (err) {
+      logger.warn('[useWorktreeTasks] Failed to list tasks', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      setTasks([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [worktreeId]);
+
+  const addRun = useCallback((run: TaskRun) => {
+    setRuns((current) => ({ ...current, [run.taskId]: run }));
+    setLastTaskId(run.taskId);
+  }, []);
+
+  const runTask = useCallback(
+    async (taskId: string) => {
+      if (worktreeId) {
+        addRun(await invokeTasks<TaskRun>('tasks:run', worktreeId, taskId));
+      }
+    },
+    [worktreeId, addRun]
+  );
+
+  const rerunLast = useCallback(async () => {
+    if (worktreeId) {
+      addRun(await invokeTasks<TaskRun>('tasks:rerunLast', worktreeId));
+    }
+  }, [worktreeId, addRun]);
+
+  const stopTask = useCallback(
+    async (taskId: string) => {
+      if (worktreeId) {
+        await invokeTasks<void>('tasks:stop', worktreeId, taskId);
+        await refetch();
+      }
+    },
+    [worktreeId, refetch]
+  );
+
+  const setPinned = useCallback(
+    async (taskId: string, pinned: boolean) => {
+      if (worktreeId) {
+        await invokeTasks<void>('tasks:setPinned', worktreeId, taskId, pinned);
+        await refetch();
+      }
+    },
+    [worktreeId, refetch]
+  );
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  // Finished runs are pushed by the main process
+  useEffect(() => {
+    if (!worktreeId) {
+      return;
+    }
+    return window.electron.ipcRenderer.on(
+      TASK_RUN_UPDATED_CHANNEL,
+      (_event: unknown, runWorktreeId: unknown, run: unknown) => {
+        if (runWorktreeId === worktreeId) {
+          const taskRun = run as TaskRun;
+          setRuns((current) =>
+            // Ignore results of runs that were replaced in the meantime
+            current[taskRun.taskId] && current[taskRun.taskId].id !== taskRun.id
+              ? current
+              : { ...current, [taskRun.taskId]: taskRun }
+          );
+        }
+      }
+    );
+  }, [worktreeId]);
+
+  return {
+    tasks,
+    runs,
+    lastTaskId,
+    loading,
+    refetch,
+    runTask,
+    rerunLast,
+    stopTask,
+    setPinned,
+  };
+};
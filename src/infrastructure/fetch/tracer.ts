@@ -15,12 +15,18 @@
 const fs = require('fs');
 const os = require('os');
 const path = require('path');
-import { getFetchCacheSettings, getFetchTraceSettings } from '../../config/settings';
+import {
+  getFetchCacheSettings,
+  getFetchCassetteSettings,
+  getFetchTraceSettings,
+} from '../../config/settings';
 import { FetchCacheService } from '../../services/FetchCacheService';
+import { FetchCassetteService } from '../../services/FetchCassetteService';
 
 // Load settings once (reads from process.env which was populated by main process)
 const traceSettings = getFetchTraceSettings();
 const cacheSettings = getFetchCacheSettings();
+const cassetteSettings = getFetchCassetteSettings();
 
 // Use ~/.autosteer/sessions directory for logs (same location as session manifest JSONs)
 const logDir = path.join(os.homedir(), '.autosteer', 'sessions');
@@ -77,12 +83,21 @@ const log = {
 
 const SENSITIVE_HEADERS = ['x-api-key', 'authorization', 'cookie', 'set-cookie'];
 
+// MCP servers inherit the tracer through NODE_OPTIONS and write to the same log file,
+// so every entry names the process that made the request
+const processInfo = {
+  pid: process.pid,
+  source: path.basename(process.argv[1] || process.execPath),
+};
+
 let originalFetch: typeof fetch | null = null;
 let isInstrumented = false;
 let traceIncludes: string[] = [];
 let traceExcludes: string[] = [];
 let fetchCache: FetchCacheService | null = null;
 let cacheIncludePatterns: string[] = [];
+let cacheExcludePatterns: string[] = [];
+let cassette: FetchCassetteService | null = null;
 
 const generateCorrelationId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -167,6 +182,83 @@ const shouldTrace = (url: string): boolean => {
   return true;
 };
 
+const parseRequestBody = (init?: RequestInit): any => {
+  if (!init?.body) {
+    return null;
+  }
+  if (typeof init.body !== 'string') {
+    return '[Non-string body]';
+  }
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return init.body;
+  }
+};
+
+/**
+ * Fetch over the network, or through the cassette when recording or replaying.
+ * A replayed request without a recording, or sent more often than it was recorded,
+ * fails instead of reaching the network.
+ */
+const cassetteFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  if (!cassette) {
+    return originalFetch!(input, init);
+  }
+
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const method = init?.method ?? 'GET';
+  const body = parseRequestBody(init);
+
+  if (cassetteSettings.mode === 'replay') {
+    let recorded: Response | undefined;
+    try {
+      recorded = cassette.replay(method, url, body);
+    } catch (error) {
+      log.error('[fetch-tracer] Cassette replay diverged from the recording', {
+        cassette: cassette.name,
+        method,
+        url,
+        error: String(error),
+        ...processInfo,
+      });
+      throw error;
+    }
+    if (!recorded) {
+      log.error('[fetch-tracer] Cassette has no recording for request', {
+        cassette: cassette.name,
+        method,
+        url,
+        ...processInfo,
+      });
+      throw new Error(`No recording in cassette "${cassette.name}" for ${method} ${url}`);
+    }
+    log.info('[fetch-tracer] Cassette REPLAY', { cassette: cassette.name, method, url });
+    return recorded;
+  }
+
+  const response = await originalFetch!(input, init);
+  cassette
+    .record(method, url, body, response.clone())
+    .then(() => {
+      log.info('[fetch-tracer] Cassette RECORD', {
+        cassette: cassette?.name,
+        method,
+        url,
+        status: response.status,
+      });
+    })
+    .catch((error) => {
+      log.error('[fetch-tracer] Failed to record response', { url, error: String(error) });
+    });
+  return response;
+};
+
+const matchesCacheFilters = (url: string): boolean =>
+  !!fetchCache &&
+  fetchCache.matchesIncludeFilter(url, cacheIncludePatterns) &&
+  !fetchCache.matchesExcludeFilter(url, cacheExcludePatterns);
+
 const shouldCacheContentType = (contentType: string): boolean => {
   // Allow caching of JSON, text, and SSE responses
   const cacheableTypes = [
@@ -226,6 +318,7 @@ const logRequestComplete = (entry: {
     response: entry.response,
     duration: entry.duration,
     correlationId: entry.correlationId,
+    ...processInfo,
   };
 
   const timestamp = new Date().toISOString();
@@ -263,6 +356,7 @@ const logRequestError = (entry: {
     error: entry.error,
     duration: entry.duration,
     correlationId: entry.correlationId,
+    ...processInfo,
   };
 
   const timestamp = new Date().toISOString();
@@ -304,8 +398,24 @@ export const instrumentFetchTracer = (): void => {
   originalFetch = globalThis.fetch;
   isInstrumented = true;
 
-  // Initialize cache if enabled
-  if (cacheSettings.enabled) {
+  // Open the cassette when recording or replaying
+  if (cassetteSettings.mode !== 'off') {
+    if (cassetteSettings.name) {
+      cassette = new FetchCassetteService(cassetteSettings.name);
+      log.info('[fetch-tracer] Cassette opened', {
+        mode: cassetteSettings.mode,
+        name: cassetteSettings.name,
+        path: FetchCassetteService.getPath(cassetteSettings.name),
+      });
+    } else {
+      log.error('[fetch-tracer] Cassette mode set without a cassette name, ignoring', {
+        mode: cassetteSettings.mode,
+      });
+    }
+  }
+
+  // Initialize cache if enabled; a cassette replaces it so every exchange is recorded or replayed
+  if (cacheSettings.enabled && !cassette) {
     // Use TTL in milliseconds from settings
     const ttlMs = cacheSettings.ttlMs;
     const maxSize = cacheSettings.maxSize;
@@ -313,8 +423,9 @@ export const instrumentFetchTracer = (): void => {
 
     fetchCache = new FetchCacheService({ maxSize, ttl: ttlMs, persistenceEnabled });
 
-    // Get include patterns from settings
+    // Get include/exclude patterns from settings
     cacheIncludePatterns = cacheSettings.includes;
+    cacheExcludePatterns = cacheSettings.excludes;
 
     log.info('[fetch-tracer] Cache initialized', {
       maxSize,
@@ -322,6 +433,7 @@ export const instrumentFetchTracer = (): void => {
       ttlMs,
       persistenceEnabled,
       includePatterns: cacheIncludePatterns,
+      excludePatterns: cacheExcludePatterns,
     });
   }
 
@@ -331,7 +443,7 @@ export const instrumentFetchTracer = (): void => {
 
     const shouldTraceResult = shouldTrace(url);
     if (!shouldTraceResult) {
-      return originalFetch!(input, init);
+      return cassetteFetch(input, init);
     }
 
     const correlationId = generateCorrelationId();
@@ -363,21 +475,10 @@ export const instrumentFetchTracer = (): void => {
     }
 
     // Capture request body (if available and not a stream)
-    let requestBody: any = null;
-    if (init?.body) {
-      if (typeof init.body === 'string') {
-        try {
-          requestBody = JSON.parse(init.body);
-        } catch {
-          requestBody = init.body;
-        }
-      } else {
-        requestBody = '[Non-string body]';
-      }
-    }
+    const requestBody = parseRequestBody(init);
 
-    // Check cache if enabled and URL matches include patterns
-    if (fetchCache && fetchCache.matchesIncludeFilter(url, cacheIncludePatterns)) {
+    // Check cache if enabled and URL matches include/exclude patterns
+    if (fetchCache && matchesCacheFilters(url)) {
       const cacheKey = fetchCache.generateCacheKey(method, url, requestBody);
       const cachedResponse = fetchCache.getWithMetadata(method, url, requestBody);
       if (cachedResponse) {
@@ -386,8 +487,10 @@ export const instrumentFetchTracer = (): void => {
           cacheKey,
           method,
           url,
+          status: cachedResponse.status,
           duration,
           correlationId,
+          ...processInfo,
         });
 
         // Log cache stats periodically
@@ -408,7 +511,7 @@ export const instrumentFetchTracer = (): void => {
     }
 
     try {
-      const response = await originalFetch!(input, init);
+      const response = await cassetteFetch(input, init);
       const responseTime = new Date().toISOString();
       const duration = Math.round(performance.now() - startTime);
 
@@ -457,14 +560,14 @@ export const instrumentFetchTracer = (): void => {
             // Note: flush() is synchronous, so we fire-and-forget the async cache operation
             const shouldCache =
               fetchCache &&
-              fetchCache.matchesIncludeFilter(url, cacheIncludePatterns) &&
+              matchesCacheFilters(url) &&
               response.status >= 200 &&
               response.status < 300;
 
             log.debug('[fetch-tracer] SSE flush - cache decision', {
               shouldCache,
               hasFetchCache: !!fetchCache,
-              matchesFilter: fetchCache?.matchesIncludeFilter(url, cacheIncludePatterns),
+              matchesFilter: matchesCacheFilters(url),
               status: response.status,
               streamSize: fullStream.length,
               correlationId,
@@ -590,7 +693,7 @@ export const instrumentFetchTracer = (): void => {
 
       // Store in cache if enabled, URL matches patterns, and response is successful
       if (fetchCache) {
-        const matchesFilter = fetchCache.matchesIncludeFilter(url, cacheIncludePatterns);
+        const matchesFilter = matchesCacheFilters(url);
         const statusOk = response.status >= 200 && response.status < 300;
 
         // Only cache JSON and text responses (not images, PDFs, videos, etc.)
@@ -686,6 +789,8 @@ export const uninstrumentFetchTracer = (): void => {
   globalThis.fetch = originalFetch;
   originalFetch = null;
   isInstrumented = false;
+  cassette?.close();
+  cassette = null;
 };
 
 export interface RedactionConfig {
@@ -0,0 +1,418 @@
+/**
+ * Localhost control API
+ *
+ * Lets editor plugins, scripts and dashboards drive AutoSteer sessions without
+ * the renderer: list projects and worktrees, create worktrees and agents, send
+ * messages, stream the responses over WebSocket and abort queries.
+ *
+ * - Off unless `api.enabled` is true in ~/.autosteer/app.json
+ * - Binds to 127.0.0.1 only and rejects other Host headers (DNS rebinding)
+ * - Every request needs the token from app.json, as "Authorization: Bearer <token>".
+ *   Only the WebSocket upgrade, whose clients cannot set headers, may pass it as a
+ *   `token` query parameter; URLs end up in logs and shell history
+ *
+ * @see src/types/controlApi.types.ts for the routes and payloads
+ */
+
+import { AgentRunService } from '@/services/AgentRunService';
+import { ClaudeCodeSDKService } from '@/services/ClaudeCodeSDKService';
+import { FileDataStoreService } from '@/services/FileDataStoreService';
+import type { ControlApiConfig } from '@/types/config.types';
+import type {
+  ControlApiCommand,
+  ControlApiCreateAgentRequest,
+  ControlApiCreateWorktreeRequest,
+  ControlApiEvent,
+  ControlApiProject,
+  ControlApiSendMessageRequest,
+} from '@/types/controlApi.types';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import log from 'electron-log';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { addWorktreeAgent, ensureWorktree } from '../utils/worktreeSetup';
+import { acceptWebSocket, WebSocketConnection } from './websocket';
+
+export const DEFAULT_CONTROL_API_PORT = 7862;
+const MAX_BODY_BYTES = 1024 * 1024; // 1MB
+
+/**
+ * Error with the HTTP status to answer with
+ */
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface RunningQuery {
+  agentId: string;
+  worktreeId: string;
+}
+
+export class ControlApiServer {
+  private static instance: ControlApiServer;
+  private server: http.Server | null = null;
+  private token = '';
+  private port = 0;
+  private clients = new Set<WebSocketConnection>();
+  private runningQueries = new Map<string, RunningQuery>();
+
+  static getInstance(): ControlApiServer {
+    if (!ControlApiServer.instance) {
+      ControlApiServer.instance = new ControlApiServer();
+    }
+    return ControlApiServer.instance;
+  }
+
+  /**
+   * Start the server if it is enabled in app.json, generating the token on first start
+   */
+  async start(): Promise<void> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const appConfig = await fileDataStore.readAppConfig();
+    const config: ControlApiConfig = appConfig.api ?? {};
+    if (!config.enabled) {
+      log.info('[ControlApi] Disabled; set api.enabled in app.json to turn it on');
+      return;
+    }
+
+    let token = config.token;
+    if (!token) {
+      token = randomBytes(32).toString('hex');
+      await fileDataStore.writeAppConfig({ ...appConfig, api: { ...config, token } });
+      log.info('[ControlApi] Generated a new token in app.json');
+    }
+
+    const port = await this.listen(config.port ?? DEFAULT_CONTROL_API_PORT, token);
+    log.info(`[ControlApi] Listening on http://127.0.0.1:${port}`);
+  }
+
+  /**
+   * Listen on 127.0.0.1
+   * @param port - Port to bind, 0 for any free port
+   * @returns The bound port
+   */
+  async listen(port: number, token: string): Promise<number> {
+    await this.stop();
+    this.token = token;
+
+    const server = http.createServer((request, response) => {
+      void this.handleRequest(request, response);
+    });
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex) =>
+      this.handleUpgrade(request, socket)
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const address = server.address();
+    this.port = typeof address === 'object' && address ? address.port : port;
+    return this.port;
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // ==================== HTTP ====================
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', `http://127.0.0.1:${this.port}`);
+
+    try {
+      this.checkAccess(request, url, false);
+      const body = request.method === 'POST' ? await this.readBody(request) : undefined;
+      const { status, data } = await this.route(request.method ?? 'GET', url.pathname, body);
+      this.sendJson(response, status, data);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        log.error('[ControlApi] Request failed:', { path: url.pathname, error: message });
+      }
+      this.sendJson(response, status, { error: message });
+    }
+  }
+
+  private async route(
+    method: string,
+    pathname: string,
+    body: unknown
+  ): Promise<{ status: number; data: unknown }> {
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== 'api') {
+      throw new HttpError(404, 'Not found');
+    }
+    const [, resource, id, action] = segments;
+    const fileDataStore = FileDataStoreService.getInstance();
+
+    if (resource === 'projects' && !id && method === 'GET') {
+      return { status: 200, data: await this.listProjects() };
+    }
+
+    if (resource === 'worktrees' && !id) {
+      if (method === 'GET') {
+        return { status: 200, data: await fileDataStore.getWorktrees() };
+      }
+      if (method === 'POST') {
+        const { githubRepo, branchName } = (body ?? {}) as ControlApiCreateWorktreeRequest;
+        if (!githubRepo || !branchName) {
+          throw new HttpError(400, 'githubRepo and branchName are required');
+        }
+        return { status: 201, data: await ensureWorktree(githubRepo, branchName) };
+      }
+    }
+
+    if (resource === 'worktrees' && id && action === 'agents') {
+      if (!(await fileDataStore.getWorktrees()).some((worktree) => worktree.folder_name === id)) {
+        throw new HttpError(404, `Worktree ${id} not found`);
+      }
+      if (method === 'GET') {
+        return { status: 200, data: await fileDataStore.getAgentsByProjectId(id) };
+      }
+      if (method === 'POST') {
+        const { title } = (body ?? {}) as ControlApiCreateAgentRequest;
+        try {
+          return { status: 201, data: await addWorktreeAgent(id, title) };
+        } catch (error) {
+          throw new HttpError(409, error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    if (resource === 'agents' && id && action === 'messages' && method === 'POST') {
+      const queryId = await this.sendMessage(id, (body ?? {}) as ControlApiSendMessageRequest);
+      return { status: 202, data: { queryId } };
+    }
+
+    if (resource === 'queries' && id && action === 'abort' && method === 'POST') {
+      this.abortQuery(id);
+      return { status: 200, data: { success: true } };
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  private async listProjects(): Promise<ControlApiProject[]> {
+    const projects = new Map<string, ControlApiProject>();
+    for (const worktree of await FileDataStoreService.getInstance().getWorktrees()) {
+      const project = projects.get(worktree.git_repo) ?? {
+        githubRepo: worktree.git_repo,
+        worktrees: [],
+      };
+      project.worktrees.push(worktree);
+      projects.set(worktree.git_repo, project);
+    }
+    return [...projects.values()];
+  }
+
+  /**
+   * @param allowQueryToken - Accept the token as a `token` query parameter (WebSocket upgrade)
+   */
+  private checkAccess(request: IncomingMessage, url: URL, allowQueryToken: boolean): void {
+    const host = request.headers.host;
+    if (host !== `127.0.0.1:${this.port}` && host !== `localhost:${this.port}`) {
+      throw new HttpError(403, 'Forbidden host');
+    }
+
+    const header = request.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : allowQueryToken
+        ? url.searchParams.get('token')
+        : null;
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(provided ?? '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new HttpError(401, 'Invalid or missing token');
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'Request body too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        try {
+          resolve(text ? JSON.parse(text) : undefined);
+        } catch {
+          reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private sendJson(response: ServerResponse, status: number, data: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(data));
+  }
+
+  // ==================== WEBSOCKET ====================
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex): void {
+    const url = new URL(request.url ?? '/', `http://127.0.0.1:${this.port}`);
+    try {
+      this.checkAccess(request, url, true);
+      if (url.pathname !== '/api/stream') {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n\r\n`);
+      return;
+    }
+
+    const client = acceptWebSocket(request, socket);
+    if (!client) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    this.clients.add(client);
+    client.on('message', (text: string) => void this.handleCommand(client, text));
+    client.on('close', () => this.clients.delete(client));
+  }
+
+  private async handleCommand(client: WebSocketConnection, text: string): Promise<void> {
+    let command: ControlApiCommand;
+    try {
+      command = JSON.parse(text) as ControlApiCommand;
+    } catch {
+      this.sendEvent(client, { type: 'error', error: 'Command is not valid JSON' });
+      return;
+    }
+
+    try {
+      if (command.type === 'send') {
+        await this.sendMessage(command.agentId, command, command.requestId);
+      } else if (command.type === 'abort') {
+        this.abortQuery(command.queryId);
+      } else {
+        throw new Error(`Unknown command type: ${(command as { type?: unknown }).type}`);
+      }
+    } catch (error) {
+      this.sendEvent(client, {
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        ...(command.requestId && { requestId: command.requestId }),
+      });
+    }
+  }
+
+  private sendEvent(client: WebSocketConnection, event: ControlApiEvent): void {
+    client.send(JSON.stringify(event));
+  }
+
+  private broadcast(event: ControlApiEvent): void {
+    const text = JSON.stringify(event);
+    for (const client of this.clients) {
+      client.send(text);
+    }
+  }
+
+  // ==================== QUERIES ====================
+
+  /**
+   * Start a query for the agent, continuing its saved conversation.
+   * Messages are broadcast to WebSocket clients as they arrive.
+   * @returns Query ID
+   */
+  private async sendMessage(
+    agentId: string,
+    request: ControlApiSendMessageRequest,
+    requestId?: string
+  ): Promise<string> {
+    if (typeof request.prompt !== 'string' || !request.prompt.trim()) {
+      throw new HttpError(400, 'prompt is required');
+    }
+
+    const agent = await FileDataStoreService.getInstance().getAgent(agentId);
+    if (!agent) {
+      throw new HttpError(404, `Agent ${agentId} not found`);
+    }
+    if ([...this.runningQueries.values()].some((query) => query.agentId === agentId)) {
+      throw new HttpError(409, `Agent ${agentId} is already running a query`);
+    }
+
+    const worktreeId = agent.project_id;
+    const agentRunService = AgentRunService.getInstance();
+    const resume = await agentRunService.getSavedSession(worktreeId, agent);
+    const queryId = uuidv4();
+
+    this.runningQueries.set(queryId, { agentId, worktreeId });
+    this.broadcast({
+      type: 'query-start',
+      queryId,
+      agentId,
+      worktreeId,
+      ...(requestId && { requestId }),
+    });
+
+    void agentRunService
+      .run(
+        {
+          worktreeId,
+          agentId,
+          prompt: request.prompt,
+          queryId,
+          ...(request.model && { model: request.model }),
+          ...(request.permissionMode && { permissionMode: request.permissionMode }),
+          ...(request.maxTurns !== undefined && { maxTurns: request.maxTurns }),
+          ...(resume && { resume }),
+        },
+        (message) => this.broadcast({ type: 'message', queryId, agentId, message })
+      )
+      .then((run) => {
+        this.runningQueries.delete(queryId);
+        this.broadcast({
+          type: 'query-complete',
+          queryId,
+          agentId,
+          durationMs: run.durationMs,
+          ...(run.sessionId && { sessionId: run.sessionId }),
+          ...(run.error && { error: run.error }),
+        });
+      });
+
+    return queryId;
+  }
+
+  private abortQuery(queryId: string): void {
+    if (!this.runningQueries.has(queryId)) {
+      throw new HttpError(404, `Query ${queryId} is not running`);
+    }
+    ClaudeCodeSDKService.getInstance().abortQuery(queryId);
+  }
+}
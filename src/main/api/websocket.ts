@@ -0,0 +1,225 @@
+/**
+ * Minimal server-side WebSocket (RFC 6455) for the control API
+ *
+ * Supports what the API needs: text messages (fragmented or not), ping/pong
+ * and the close handshake. Binary messages are rejected.
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024; // 10MB
+
+export const OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+export interface WebSocketFrame {
+  fin: boolean;
+  opcode: number;
+  masked: boolean;
+  payload: Buffer;
+}
+
+/**
+ * Encode a single frame. Servers send unmasked frames; pass a mask to encode client frames.
+ */
+export function encodeFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+  const lengthBytes = payload.length < 126 ? 0 : payload.length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+
+  header[0] = 0x80 | opcode; // FIN + opcode
+  const maskBit = mask ? 0x80 : 0;
+  if (lengthBytes === 0) {
+    header[1] = maskBit | payload.length;
+  } else if (lengthBytes === 2) {
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  if (!mask) {
+    return Buffer.concat([header, payload]);
+  }
+  mask.copy(header, 2 + lengthBytes);
+  return Buffer.concat([header, applyMask(payload, mask)]);
+}
+
+/**
+ * Decode the first frame in the buffer
+ * @returns The frame and the number of bytes it used, or null if the buffer holds a partial frame
+ * @throws Error when the frame is larger than the message limit
+ */
+export function decodeFrame(buffer: Buffer): { frame: WebSocketFrame; bytes: number } | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    const longLength = buffer.readBigUInt64BE(2);
+    if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+      throw new Error('WebSocket frame too large');
+    }
+    length = Number(longLength);
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) {
+    throw new Error('WebSocket frame too large');
+  }
+
+  const mask = masked ? buffer.subarray(offset, offset + 4) : undefined;
+  if (mask) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const data = buffer.subarray(offset, offset + length);
+  return {
+    frame: { fin, opcode, masked, payload: mask ? applyMask(data, mask) : Buffer.from(data) },
+    bytes: offset + length,
+  };
+}
+
+function applyMask(payload: Buffer, mask: Buffer): Buffer {
+  const result = Buffer.alloc(payload.length);
+  for (let i = 0; i < payload.length; i++) {
+    result[i] = payload[i] ^ mask[i % 4];
+  }
+  return result;
+}
+
+/**
+ * An open WebSocket connection
+ * Emits `message` (text: string) and `close` (code: number)
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(private socket: Duplex) {
+    super();
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+    socket.on('close', () => this.handleClosed(1006));
+    socket.on('error', () => this.handleClosed(1006));
+  }
+
+  send(text: string): void {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODES.TEXT, Buffer.from(text, 'utf-8')));
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.end(encodeFrame(OPCODES.CLOSE, payload));
+    this.handleClosed(code);
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let decoded = decodeFrame(this.buffer);
+      while (decoded && !this.closed) {
+        this.buffer = this.buffer.subarray(decoded.bytes);
+        this.handleFrame(decoded.frame);
+        decoded = decodeFrame(this.buffer);
+      }
+    } catch {
+      this.close(1009, 'Message too large');
+    }
+  }
+
+  private handleFrame(frame: WebSocketFrame): void {
+    // Clients must mask every frame
+    if (!frame.masked) {
+      this.close(1002, 'Frames must be masked');
+      return;
+    }
+
+    switch (frame.opcode) {
+      case OPCODES.TEXT:
+      case OPCODES.CONTINUATION: {
+        this.fragments.push(frame.payload);
+        const size = this.fragments.reduce((sum, fragment) => sum + fragment.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          this.close(1009, 'Message too large');
+          return;
+        }
+        if (frame.fin) {
+          const text = Buffer.concat(this.fragments).toString('utf-8');
+          this.fragments = [];
+          this.emit('message', text);
+        }
+        break;
+      }
+      case OPCODES.PING:
+        this.socket.write(encodeFrame(OPCODES.PONG, frame.payload));
+        break;
+      case OPCODES.PONG:
+        break;
+      case OPCODES.CLOSE:
+        this.close(frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1000);
+        break;
+      default:
+        this.close(1003, 'Only text messages are supported');
+    }
+  }
+
+  private handleClosed(code: number): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close', code);
+  }
+}
+
+/**
+ * Complete the opening handshake of an HTTP upgrade request
+ * @returns The connection, or null if the request is not a valid WebSocket upgrade
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (
+    request.headers.upgrade?.toLowerCase() !== 'websocket' ||
+    request.headers['sec-websocket-version'] !== '13' ||
+    typeof key !== 'string'
+  ) {
+    return null;
+  }
+
+  const accept = createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n')
+  );
+  return new WebSocketConnection(socket);
+}
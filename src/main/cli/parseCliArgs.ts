@@ -0,0 +1,164 @@
+import { MODEL_OPTIONS } from '@/types/model.types';
+import { PERMISSION_MODES } from '@/types/permission.types';
+
+/**
+ * Options of `autosteer run`
+ */
+export interface RunCommandOptions {
+  project: string; // Repository name (e.g. "autosteer") or Git URL
+  worktree: string; // Branch name; the worktree is created if it does not exist yet
+  prompt?: string;
+  promptFile?: string; // "-" reads the prompt from stdin
+  model?: string;
+  permissionMode?: string;
+  agent?: string; // Agent id or title to continue; a new agent is created otherwise
+  maxTurns?: number;
+  record?: string; // Cassette to record the run's HTTP exchanges into
+  replay?: string; // Cassette to answer the run's HTTP requests from, without network access
+}
+
+export type CliCommand = { name: 'run'; options: RunCommandOptions } | { name: 'help' };
+
+/**
+ * Invalid command line; reported with the usage text and exit code 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const CLI_USAGE = `Usage: autosteer run --project <name> --worktree <branch> (--prompt <text> | --prompt-file <path>) [options]
+
+Runs one prompt headless in a worktree and streams the agent's messages to stdout as JSON lines.
+
+Options:
+  --project <name>          Repository name of an existing worktree, or a Git URL
+  --worktree <branch>       Branch to work on; its worktree is created if needed
+  --prompt <text>           Prompt to send
+  --prompt-file <path>      Read the prompt from a file ("-" for stdin)
+  --model <model>           ${MODEL_OPTIONS.map((option) => option.value).join(', ')}
+  --permission-mode <mode>  ${PERMISSION_MODES.map((mode) => mode.value).join(', ')}
+  --agent <id|title>        Continue an existing agent's session instead of starting a new one
+  --max-turns <n>           Stop after n agent turns
+  --record <cassette>       Record every API and MCP HTTP exchange into a cassette
+  --replay <cassette>       Serve every HTTP request from a recorded cassette; unrecorded requests fail
+  -h, --help                Show this help
+
+Exit codes: 0 success, 1 agent run failed, 2 invalid arguments, 3 project or worktree setup failed`;
+
+const VALUE_FLAGS: Record<string, keyof RunCommandOptions> = {
+  '--project': 'project',
+  '--worktree': 'worktree',
+  '--prompt': 'prompt',
+  '--prompt-file': 'promptFile',
+  '--model': 'model',
+  '--permission-mode': 'permissionMode',
+  '--agent': 'agent',
+  '--max-turns': 'maxTurns',
+  '--record': 'record',
+  '--replay': 'replay',
+};
+
+// Cassettes are files in ~/.autosteer/cassettes
+const CASSETTE_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Whether the arguments start a headless command rather than the GUI
+ */
+export function isCliCommand(args: string[]): boolean {
+  return args[0] === 'run';
+}
+
+/**
+ * Parse the command line arguments after the executable (and app path in development)
+ * @returns The command to run, or null when the GUI should start
+ * @throws CliUsageError when the arguments of a command are invalid
+ */
+export function parseCliArgs(args: string[]): CliCommand | null {
+  if (!isCliCommand(args)) {
+    return null;
+  }
+
+  const values: Partial<Record<keyof RunCommandOptions, string>> = {};
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') {
+      return { name: 'help' };
+    }
+
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=') ? splitOnce(arg) : [arg];
+    const key = VALUE_FLAGS[flag];
+    if (!key) {
+      throw new CliUsageError(`Unknown option: ${arg}`);
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new CliUsageError(`Missing value for ${flag}`);
+    }
+    values[key] = value;
+  }
+
+  if (!values.project) {
+    throw new CliUsageError('Missing required option --project');
+  }
+  if (!values.worktree) {
+    throw new CliUsageError('Missing required option --worktree');
+  }
+  if (values.prompt === undefined && values.promptFile === undefined) {
+    throw new CliUsageError('Either --prompt or --prompt-file is required');
+  }
+  if (values.prompt !== undefined && values.promptFile !== undefined) {
+    throw new CliUsageError('Use either --prompt or --prompt-file, not both');
+  }
+  if (values.model && !MODEL_OPTIONS.some((option) => option.value === values.model)) {
+    throw new CliUsageError(`Unknown model: ${values.model}`);
+  }
+  if (
+    values.permissionMode &&
+    !PERMISSION_MODES.some((mode) => mode.value === values.permissionMode)
+  ) {
+    throw new CliUsageError(`Unknown permission mode: ${values.permissionMode}`);
+  }
+
+  if (values.record !== undefined && values.replay !== undefined) {
+    throw new CliUsageError('Use either --record or --replay, not both');
+  }
+  const cassette = values.record ?? values.replay;
+  if (cassette !== undefined && !CASSETTE_NAME_PATTERN.test(cassette)) {
+    throw new CliUsageError(
+      `Invalid cassette name: ${cassette} (use letters, digits, ".", "-" and "_")`
+    );
+  }
+
+  let maxTurns: number | undefined;
+  if (values.maxTurns !== undefined) {
+    maxTurns = Number(values.maxTurns);
+    if (!Number.isInteger(maxTurns) || maxTurns < 1) {
+      throw new CliUsageError('--max-turns must be a positive integer');
+    }
+  }
+
+  return {
+    name: 'run',
+    options: {
+      project: values.project,
+      worktree: values.worktree,
+      ...(values.prompt !== undefined && { prompt: values.prompt }),
+      ...(values.promptFile !== undefined && { promptFile: values.promptFile }),
+      ...(values.model && { model: values.model }),
+      ...(values.permissionMode && { permissionMode: values.permissionMode }),
+      ...(values.agent && { agent: values.agent }),
+      ...(maxTurns !== undefined && { maxTurns }),
+      ...(values.record && { record: values.record }),
+      ...(values.replay && { replay: values.replay }),
+    },
+  };
+}
+
+function splitOnce(arg: string): [string, string] {
+  const index = arg.indexOf('=');
+  return [arg.slice(0, index), arg.slice(index + 1)];
+}
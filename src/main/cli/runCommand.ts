@@ -0,0 +1,246 @@
+import { updateFetchCassetteSettings } from '@/config/settings';
+import { AgentRunService } from '@/services/AgentRunService';
+import { FetchCassetteService } from '@/services/FetchCassetteService';
+import { FileDataStoreService } from '@/services/FileDataStoreService';
+import { GitService } from '@/services/GitService';
+import type { AgentConfig, WorktreeConfig } from '@/types/config.types';
+import log from 'electron-log';
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { addWorktreeAgent, ensureWorktree } from '../utils/worktreeSetup';
+import { CLI_USAGE, CliUsageError, parseCliArgs, RunCommandOptions } from './parseCliArgs';
+
+export const CLI_EXIT_CODES = {
+  SUCCESS: 0,
+  AGENT_FAILED: 1,
+  USAGE: 2,
+  SETUP_FAILED: 3,
+} as const;
+
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+/**
+ * Project or worktree could not be resolved or created; exit code 3
+ */
+class CliSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliSetupError';
+  }
+}
+
+/**
+ * Run a command line invocation without a window
+ * @param args - Arguments after the executable (and app path in development)
+ * @returns Process exit code
+ */
+export async function runCli(args: string[], io: CliIO = process): Promise<number> {
+  try {
+    const command = parseCliArgs(args);
+    if (!command || command.name === 'help') {
+      io.stdout.write(`${CLI_USAGE}\n`);
+      return CLI_EXIT_CODES.SUCCESS;
+    }
+
+    const prompt = await readPrompt(command.options, io);
+    return await runCommand(command.options, prompt, io);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr.write(`autosteer: ${error.message}\n\n${CLI_USAGE}\n`);
+      return CLI_EXIT_CODES.USAGE;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log.error('[CLI] Run failed:', message);
+    io.stderr.write(`autosteer: ${message}\n`);
+    return error instanceof CliSetupError
+      ? CLI_EXIT_CODES.SETUP_FAILED
+      : CLI_EXIT_CODES.AGENT_FAILED;
+  }
+}
+
+/**
+ * Run the prompt in the worktree and stream every message to stdout as one JSON line.
+ * The stream starts with an `autosteer`/`start` line naming the worktree and agent
+ * and ends with an `autosteer`/`exit` line carrying the exit code.
+ */
+async function runCommand(options: RunCommandOptions, prompt: string, io: CliIO) {
+  await applyCassette(options);
+
+  const fileDataStore = await FileDataStoreService.initialize();
+  await fileDataStore.ensureDirectories();
+
+  const worktree = await resolveWorktree(options.project, options.worktree);
+  const { agent, isNew } = await resolveAgent(worktree.folder_name, options.agent);
+  const agentRunService = AgentRunService.getInstance();
+  const resume = isNew
+    ? undefined
+    : await agentRunService.getSavedSession(worktree.folder_name, agent);
+
+  const writeLine = (line: unknown) => io.stdout.write(`${JSON.stringify(line)}\n`);
+
+  writeLine({
+    type: 'autosteer',
+    subtype: 'start',
+    project: worktree.git_repo,
+    branch: worktree.branch_name,
+    worktree_id: worktree.folder_name,
+    agent_id: agent.id,
+    cwd: fileDataStore.getWorktreePath(worktree.folder_name),
+  });
+
+  const run = await agentRunService.run(
+    {
+      worktreeId: worktree.folder_name,
+      agentId: agent.id,
+      prompt,
+      ...(options.model && { model: options.model }),
+      ...(options.permissionMode && { permissionMode: options.permissionMode }),
+      ...(options.maxTurns !== undefined && { maxTurns: options.maxTurns }),
+      ...(resume && { resume }),
+    },
+    writeLine
+  );
+
+  const exitCode = run.error ? CLI_EXIT_CODES.AGENT_FAILED : CLI_EXIT_CODES.SUCCESS;
+  log.info('[CLI] Run finished', {
+    worktreeId: worktree.folder_name,
+    agentId: agent.id,
+    durationMs: run.durationMs,
+    error: run.error,
+  });
+
+  // Wait for the last line to be flushed; pipes are asynchronous on macOS
+  await new Promise<void>((resolve) => {
+    io.stdout.write(
+      `${JSON.stringify({
+        type: 'autosteer',
+        subtype: 'exit',
+        exit_code: exitCode,
+        duration_ms: run.durationMs,
+        ...(run.sessionId && { session_id: run.sessionId }),
+        ...(run.error && { error: run.error }),
+      })}\n`,
+      () => resolve()
+    );
+  });
+
+  return exitCode;
+}
+
+/**
+ * Point the agent's subprocess at the cassette to record or replay.
+ * Recording starts the cassette over so it holds exactly this run.
+ */
+async function applyCassette(options: RunCommandOptions): Promise<void> {
+  if (options.record) {
+    await FetchCassetteService.remove(options.record);
+    updateFetchCassetteSettings({ mode: 'record', name: options.record });
+  } else if (options.replay) {
+    if (!existsSync(FetchCassetteService.getPath(options.replay))) {
+      throw new CliUsageError(`No cassette named ${options.replay}`);
+    }
+    updateFetchCassetteSettings({ mode: 'replay', name: options.replay });
+  }
+}
+
+async function readPrompt(options: RunCommandOptions, io: CliIO): Promise<string> {
+  let prompt = options.prompt;
+
+  if (options.promptFile === '-') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of io.stdin) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    prompt = Buffer.concat(chunks).toString('utf-8');
+  } else if (options.promptFile) {
+    try {
+      prompt = await fs.readFile(path.resolve(options.promptFile), 'utf-8');
+    } catch {
+      throw new CliUsageError(`Cannot read prompt file ${options.promptFile}`);
+    }
+  }
+
+  if (!prompt?.trim()) {
+    throw new CliUsageError('The prompt is empty');
+  }
+  return prompt.trim();
+}
+
+function getRepoName(gitRepo: string): string {
+  const segments = gitRepo
+    .trim()
+    .replace(/[/\\]+$/, '')
+    .replace(/\.git$/, '')
+    .split(/[/:\\]/);
+  return segments[segments.length - 1].toLowerCase();
+}
+
+/**
+ * Find the worktree for the project's branch, creating it like the GUI does if needed.
+ * The project is the repository name of existing worktrees or a Git URL.
+ */
+async function resolveWorktree(project: string, branchName: string): Promise<WorktreeConfig> {
+  const worktrees = await FileDataStoreService.getInstance().getWorktrees();
+
+  const repos = [
+    ...new Set(
+      worktrees
+        .filter(
+          (worktree) =>
+            worktree.git_repo === project ||
+            getRepoName(worktree.git_repo) === project.toLowerCase()
+        )
+        .map((worktree) => worktree.git_repo)
+    ),
+  ];
+  if (repos.length > 1) {
+    throw new CliSetupError(
+      `Project "${project}" matches several repositories (${repos.join(', ')}); pass the Git URL instead`
+    );
+  }
+
+  const githubRepo =
+    repos[0] ?? (GitService.getInstance().isValidGitUrl(project) ? project : undefined);
+  if (!githubRepo) {
+    throw new CliSetupError(
+      `No project named "${project}". Pass the Git URL to create the first worktree`
+    );
+  }
+
+  try {
+    return await ensureWorktree(githubRepo, branchName);
+  } catch (error) {
+    throw new CliSetupError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Continue the agent given by id or title, or add a new one to the worktree
+ */
+async function resolveAgent(
+  worktreeId: string,
+  agentIdOrTitle?: string
+): Promise<{ agent: AgentConfig; isNew: boolean }> {
+  if (!agentIdOrTitle) {
+    try {
+      return { agent: await addWorktreeAgent(worktreeId), isNew: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CliSetupError(`${message} Pass --agent to continue one.`);
+    }
+  }
+
+  const agents = await FileDataStoreService.getInstance().getAgentsByProjectId(worktreeId);
+  const agent = agents.find(
+    (candidate) => candidate.id === agentIdOrTitle || candidate.title === agentIdOrTitle
+  );
+  if (!agent) {
+    throw new CliSetupError(`No agent "${agentIdOrTitle}" in worktree ${worktreeId}`);
+  }
+  return { agent, isNew: false };
+}
@@ -20,6 +20,7 @@ import {
   GitHandlers,
   SystemHandlers,
   IdeHandlers,
+  MonitoringHandlers,
 } from './handlers';
 import { CacheHandlers } from './handlers/cache.handlers';
 import { registerClaudeCodeHandlers } from './claudeCodeHandlers';
@@ -34,6 +35,7 @@ import { UpdateService } from '@/services/UpdateService';
 // - SystemHandlers (Terminal, Badge, Config, Log, Store, Update)
 // - CacheHandlers
 // - IdeHandlers (IDE detection and file opening)
+// - MonitoringHandlers (Usage analytics and export)
 
 /**
  * Centralized IPC registrar that replaces SimplifiedIpcManager, IpcManager, and IpcMigrationManager
@@ -48,6 +50,7 @@ export class IpcRegistrar {
   private systemHandlers: SystemHandlers;
   private cacheHandlers: CacheHandlers;
   private ideHandlers: IdeHandlers;
+  private monitoringHandlers: MonitoringHandlers;
 
   constructor(private applicationContainer: ApplicationContainer) {
     this.fileDataStore = FileDataStoreService.getInstance();
@@ -58,6 +61,7 @@ export class IpcRegistrar {
     this.systemHandlers = new SystemHandlers();
     this.cacheHandlers = new CacheHandlers();
     this.ideHandlers = new IdeHandlers();
+    this.monitoringHandlers = new MonitoringHandlers();
   }
 
   initialize(): void {
@@ -72,6 +76,7 @@ export class IpcRegistrar {
       this.systemHandlers.registerHandlers();
       this.cacheHandlers.registerHandlers();
       this.ideHandlers.registerHandlers();
+      this.monitoringHandlers.registerHandlers();
 
       // Specialized utility handlers (separate from domain handler consolidation)
       // These handle specific SDK/utility operations not part of core IPC domains
@@ -400,174 +405,187 @@ export class IpcRegistrar {
       }
     );
 
-    ipcMain.handle('worktree:delete', async (event: IpcMainInvokeEvent, folderName: string) => {
-      try {
-        const config = await this.fileDataStore.readConfig();
-        const worktree = config.worktrees.find((w) => w.folder_name === folderName);
-
-        if (!worktree) {
-          throw new Error('Worktree not found in config');
-        }
+    ipcMain.handle(
+      'worktree:delete',
+      async (
+        event: IpcMainInvokeEvent,
+        folderName: string,
+        options?: { skipConfirmation?: boolean }
+      ) => {
+        try {
+          const config = await this.fileDataStore.readConfig();
+          const worktree = config.worktrees.find((w) => w.folder_name === folderName);
 
-        const worktreePath = this.fileDataStore.getWorktreePath(folderName);
-        const mainRepoPath = this.fileDataStore.getMainRepoPath(worktree.git_repo);
-        const branchName = worktree.branch_name;
+          if (!worktree) {
+            throw new Error('Worktree not found in config');
+          }
 
-        // Check if branch is protected
-        const isProtected = this.gitService.isProtectedBranch(branchName);
-        if (isProtected) {
-          log.info(`[worktree:delete] Branch "${branchName}" is protected, will not delete branch`);
-        }
+          const worktreePath = this.fileDataStore.getWorktreePath(folderName);
+          const mainRepoPath = this.fileDataStore.getMainRepoPath(worktree.git_repo);
+          const branchName = worktree.branch_name;
 
-        // Initialize deleteBranch flag - don't delete protected branches
-        let deleteBranch = false;
+          // Check if branch is protected
+          const isProtected = this.gitService.isProtectedBranch(branchName);
+          if (isProtected) {
+            log.info(
+              `[worktree:delete] Branch "${branchName}" is protected, will not delete branch`
+            );
+          }
 
-        // Only check for user confirmation if branch is not protected
-        if (!isProtected) {
-          // Check if local branch exists
-          const localBranchExists = await this.gitService.localBranchExists(
-            mainRepoPath,
-            branchName
-          );
+          // Initialize deleteBranch flag - don't delete protected branches
+          let deleteBranch = false;
 
-          if (localBranchExists) {
-            // Check for unpushed commits
-            const unpushedCount = await this.gitService.getUnpushedCommitCount(
+          // Only check for user confirmation if branch is not protected
+          if (!isProtected) {
+            // Check if local branch exists
+            const localBranchExists = await this.gitService.localBranchExists(
               mainRepoPath,
               branchName
             );
 
-            log.debug(
-              `[worktree:delete] Branch "${branchName}" has ${unpushedCount} unpushed commits`
-            );
-
-            // Build confirmation message
-            let confirmMessage = `Delete branch "${branchName}"?\n\n`;
-            confirmMessage += `This will:\n`;
-            confirmMessage += `• Remove the worktree\n`;
-            confirmMessage += `• Delete the local branch "${branchName}"\n`;
-            confirmMessage += `• Delete the remote branch "${branchName}" (if it exists)\n`;
-
-            if (unpushedCount > 0) {
-              confirmMessage += `\n⚠️ WARNING: This branch has ${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''} that will be lost!`;
-            }
-
-            // Get the browser window for the dialog
-            const window = BrowserWindow.fromWebContents(event.sender);
-            if (!window) {
-              log.warn('[worktree:delete] No window found for confirmation dialog');
-            } else {
-              // Show confirmation dialog
-              const result = await dialog.showMessageBox(window, {
-                type: 'warning',
-                title: 'Delete Branch',
-                message: 'Are you sure?',
-                detail: confirmMessage,
-                buttons: ['Cancel', 'Force Delete'],
-                defaultId: 0,
-                cancelId: 0,
-              });
+            if (localBranchExists) {
+              // Check for unpushed commits
+              const unpushedCount = await this.gitService.getUnpushedCommitCount(
+                mainRepoPath,
+                branchName
+              );
 
-              log.info(
-                `[worktree:delete] User choice: ${result.response === 1 ? 'Force Delete' : 'Cancel'}`
+              log.debug(
+                `[worktree:delete] Branch "${branchName}" has ${unpushedCount} unpushed commits`
               );
 
-              // If user cancelled, abort deletion
-              if (result.response === 0) {
-                log.info(`[worktree:delete] User cancelled deletion of branch "${branchName}"`);
-                return {
-                  success: false,
-                  message: 'Deletion cancelled by user',
-                };
+              // Build confirmation message
+              let confirmMessage = `Delete branch "${branchName}"?\n\n`;
+              confirmMessage += `This will:\n`;
+              confirmMessage += `• Remove the worktree\n`;
+              confirmMessage += `• Delete the local branch "${branchName}"\n`;
+              confirmMessage += `• Delete the remote branch "${branchName}" (if it exists)\n`;
+
+              if (unpushedCount > 0) {
+                confirmMessage += `\n⚠️ WARNING: This branch has ${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''} that will be lost!`;
               }
 
-              // User chose "Force Delete"
-              deleteBranch = true;
-              log.info(`[worktree:delete] User confirmed deletion of branch "${branchName}"`);
+              // Get the browser window for the dialog
+              const window = BrowserWindow.fromWebContents(event.sender);
+              if (options?.skipConfirmation) {
+                // The caller already confirmed, e.g. discarding fan-out variants
+                deleteBranch = true;
+                log.info(`[worktree:delete] Deleting branch "${branchName}" without confirmation`);
+              } else if (!window) {
+                log.warn('[worktree:delete] No window found for confirmation dialog');
+              } else {
+                // Show confirmation dialog
+                const result = await dialog.showMessageBox(window, {
+                  type: 'warning',
+                  title: 'Delete Branch',
+                  message: 'Are you sure?',
+                  detail: confirmMessage,
+                  buttons: ['Cancel', 'Force Delete'],
+                  defaultId: 0,
+                  cancelId: 0,
+                });
+
+                log.info(
+                  `[worktree:delete] User choice: ${result.response === 1 ? 'Force Delete' : 'Cancel'}`
+                );
+
+                // If user cancelled, abort deletion
+                if (result.response === 0) {
+                  log.info(`[worktree:delete] User cancelled deletion of branch "${branchName}"`);
+                  return {
+                    success: false,
+                    message: 'Deletion cancelled by user',
+                  };
+                }
+
+                // User chose "Force Delete"
+                deleteBranch = true;
+                log.info(`[worktree:delete] User confirmed deletion of branch "${branchName}"`);
+              }
             }
           }
-        }
-
-        // Remove worktree with branch deletion if confirmed
-        const removeResult = await this.gitService.removeWorktree({
-          mainRepoPath,
-          worktreePath,
-          branchName,
-          deleteBranch,
-        });
 
-        if (!removeResult.success) {
-          log.warn('[worktree:delete] Git worktree remove failed:', removeResult.error);
-        }
+          // Remove worktree with branch deletion if confirmed
+          const removeResult = await this.gitService.removeWorktree({
+            mainRepoPath,
+            worktreePath,
+            branchName,
+            deleteBranch,
+          });
 
-        // Delete trace files for all sessions in this worktree
-        try {
-          const { SessionManifestService } = await import('@/services/SessionManifestService');
-          const { TraceLogger } = await import('@/services/TraceLogger');
+          if (!removeResult.success) {
+            log.warn('[worktree:delete] Git worktree remove failed:', removeResult.error);
+          }
 
-          const sessionManifest = SessionManifestService.getInstance();
-          const traceLogger = TraceLogger.getInstance();
+          // Delete trace files for all sessions in this worktree
+          try {
+            const { SessionManifestService } = await import('@/services/SessionManifestService');
+            const { TraceLogger } = await import('@/services/TraceLogger');
 
-          // Get all session IDs for this worktree
-          const sessions = await sessionManifest.getAllAgentSessions(folderName);
-          const sessionIds = Object.values(sessions);
+            const sessionManifest = SessionManifestService.getInstance();
+            const traceLogger = TraceLogger.getInstance();
 
-          // Delete trace files for all sessions
-          if (sessionIds.length > 0) {
-            await traceLogger.deleteTraceFiles(sessionIds);
-            log.info(
-              `Deleted trace files for ${sessionIds.length} sessions in worktree: ${folderName}`
-            );
-          }
+            // Get all session IDs for this worktree
+            const sessions = await sessionManifest.getAllAgentSessions(folderName);
+            const sessionIds = Object.values(sessions);
 
-          // Delete session manifest for this worktree
-          await sessionManifest.deleteWorktreeManifest(folderName);
-        } catch (error) {
-          log.warn('Failed to delete trace files and session manifest:', error);
-          // Don't fail the entire deletion if cleanup fails
-        }
+            // Delete trace files for all sessions
+            if (sessionIds.length > 0) {
+              await traceLogger.deleteTraceFiles(sessionIds);
+              log.info(
+                `Deleted trace files for ${sessionIds.length} sessions in worktree: ${folderName}`
+              );
+            }
 
-        // Delete Claude Code chat history (JSONL files) for this worktree
-        try {
-          const os = await import('os');
-          const homedir = os.homedir();
-          const homedirFormatted = homedir.substring(1).replace(/[^a-zA-Z0-9]/g, '-');
-          const projectDirName = `-${homedirFormatted}--autosteer-worktrees-${folderName}`;
-          const claudeProjectsDir = path.join(homedir, '.claude', 'projects', projectDirName);
+            // Delete session manifest for this worktree
+            await sessionManifest.deleteWorktreeManifest(folderName);
+          } catch (error) {
+            log.warn('Failed to delete trace files and session manifest:', error);
+            // Don't fail the entire deletion if cleanup fails
+          }
 
-          // Check if directory exists before attempting to delete
+          // Delete Claude Code chat history (JSONL files) for this worktree
           try {
-            await fsPromises.access(claudeProjectsDir, fs.constants.F_OK);
-            await fsPromises.rm(claudeProjectsDir, { recursive: true, force: true });
-            log.info(`Deleted Claude Code chat history for worktree: ${folderName}`);
-          } catch (err) {
-            log.debug(`No Claude Code chat history to delete for worktree: ${folderName}`);
+            const os = await import('os');
+            const homedir = os.homedir();
+            const homedirFormatted = homedir.substring(1).replace(/[^a-zA-Z0-9]/g, '-');
+            const projectDirName = `-${homedirFormatted}--autosteer-worktrees-${folderName}`;
+            const claudeProjectsDir = path.join(homedir, '.claude', 'projects', projectDirName);
+
+            // Check if directory exists before attempting to delete
+            try {
+              await fsPromises.access(claudeProjectsDir, fs.constants.F_OK);
+              await fsPromises.rm(claudeProjectsDir, { recursive: true, force: true });
+              log.info(`Deleted Claude Code chat history for worktree: ${folderName}`);
+            } catch (err) {
+              log.debug(`No Claude Code chat history to delete for worktree: ${folderName}`);
+            }
+          } catch (error) {
+            log.warn('Failed to delete Claude Code chat history:', error);
+            // Don't fail the entire deletion if chat history cleanup fails
           }
-        } catch (error) {
-          log.warn('Failed to delete Claude Code chat history:', error);
-          // Don't fail the entire deletion if chat history cleanup fails
-        }
 
-        await this.fileDataStore.removeWorktree(folderName);
+          await this.fileDataStore.removeWorktree(folderName);
 
-        return {
-          success: true,
-          message: 'Successfully removed worktree',
-        };
-      } catch (error) {
-        const errorMessage = ErrorHandler.log({
-          operation: 'delete worktree',
-          error,
-          context: { folderName },
-        });
+          return {
+            success: true,
+            message: 'Successfully removed worktree',
+          };
+        } catch (error) {
+          const errorMessage = ErrorHandler.log({
+            operation: 'delete worktree',
+            error,
+            context: { folderName },
+          });
 
-        return {
-          success: false,
-          message: ErrorHandler.formatUserMessage('delete worktree', error),
-          error: errorMessage,
-        };
+          return {
+            success: false,
+            message: ErrorHandler.formatUserMessage('delete worktree', error),
+            error: errorMessage,
+          };
+        }
       }
-    });
+    );
 
     ipcMain.handle('worktree:getAll', async () => {
       try {
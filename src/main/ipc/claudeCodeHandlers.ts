@@ -2,10 +2,11 @@
  * IPC handlers for Claude Code SDK operations
  */
 
-import { ClaudeCodeSDKService } from '@/services/ClaudeCodeSDKService';
+import { ClaudeCodeSDKService, ToolPermissionRequester } from '@/services/ClaudeCodeSDKService';
 import { MessageValidator } from '@/services/MessageValidator';
 import type { ClaudeCodeMessage, ClaudeCodeQueryOptions } from '@/types/claudeCode.types';
-import { ipcMain } from 'electron';
+import type { ToolPermissionDecision, ToolPermissionPrompt } from '@/types/permission.types';
+import { ipcMain, WebContents } from 'electron';
 import log from 'electron-log/main';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -42,6 +43,73 @@ function inferPydanticClassname(message: ClaudeCodeMessage): string {
   // Fallback for unknown types
   return `unknown (type: ${type}, subtype: ${subtype || 'none'})`;
 }
+
+/**
+ * Tool calls paused in canUseTool, waiting for the renderer to answer.
+ * Keyed by requestId.
+ */
+const pendingPermissionRequests = new Map<
+  string,
+  { queryId: string; resolve: (decision: ToolPermissionDecision) => void }
+>();
+
+const CANCELLED_PERMISSION_DECISION: ToolPermissionDecision = {
+  behavior: 'deny',
+  message: 'Permission request was cancelled.',
+};
+
+/**
+ * Build a requester that forwards permission requests for one query to the renderer
+ */
+function createPermissionRequester(sender: WebContents, queryId: string): ToolPermissionRequester {
+  return (request, signal) =>
+    new Promise<ToolPermissionDecision>((resolve) => {
+      const requestId = uuidv4();
+      const prompt: ToolPermissionPrompt = { ...request, requestId, queryId };
+
+      const settle = (decision: ToolPermissionDecision) => {
+        signal.removeEventListener('abort', onAbort);
+        pendingPermissionRequests.delete(requestId);
+        resolve(decision);
+      };
+
+      const onAbort = () => {
+        if (!sender.isDestroyed()) {
+          sender.send(`claude-code:permission-cancelled:${queryId}`, { requestId });
+        }
+        settle(CANCELLED_PERMISSION_DECISION);
+      };
+
+      if (signal.aborted || sender.isDestroyed()) {
+        settle(CANCELLED_PERMISSION_DECISION);
+        return;
+      }
+
+      pendingPermissionRequests.set(requestId, { queryId, resolve: settle });
+      signal.addEventListener('abort', onAbort);
+
+      log.info('[IPC Handler] Requesting tool permission:', {
+        queryId,
+        requestId,
+        toolName: request.toolName,
+      });
+      sender.send(`claude-code:permission-request:${queryId}`, prompt);
+    });
+}
+
+/**
+ * Deny and drop every pending permission request of a query
+ */
+function cancelPendingPermissionRequests(sender: WebContents, queryId: string): void {
+  for (const [requestId, pending] of pendingPermissionRequests) {
+    if (pending.queryId !== queryId) continue;
+    if (!sender.isDestroyed()) {
+      sender.send(`claude-code:permission-cancelled:${queryId}`, { requestId });
+    }
+    pending.resolve(CANCELLED_PERMISSION_DECISION);
+  }
+}
+
 export function registerClaudeCodeHandlers(): void {
   try {
     const claudeService = ClaudeCodeSDKService.getInstance();
@@ -68,7 +136,12 @@ export function registerClaudeCodeHandlers(): void {
           });
 
           let messageCount = 0;
-          for await (const message of claudeService.queryClaudeCode(queryId, options)) {
+          const requestPermission = createPermissionRequester(event.sender, queryId);
+          for await (const message of claudeService.queryClaudeCode(
+            queryId,
+            options,
+            requestPermission
+          )) {
             messageCount++;
 
             // Infer Pydantic classname from message type/subtype
@@ -148,6 +221,8 @@ export function registerClaudeCodeHandlers(): void {
             error: error instanceof Error ? error.message : 'Unknown error',
           });
           event.sender.send(`claude-code:complete:${queryId}`);
+        } finally {
+          cancelPendingPermissionRequests(event.sender, queryId);
         }
       }, 0);
 
@@ -157,11 +232,28 @@ export function registerClaudeCodeHandlers(): void {
     /**
      * Abort a Claude Code query
      */
-    ipcMain.handle('claude-code:query-abort', async (_event, queryId: string) => {
+    ipcMain.handle('claude-code:query-abort', async (event, queryId: string) => {
+      cancelPendingPermissionRequests(event.sender, queryId);
       claudeService.abortQuery(queryId);
       return { success: true };
     });
 
+    /**
+     * Answer a pending tool permission request
+     */
+    ipcMain.handle(
+      'claude-code:permission-response',
+      async (_event, requestId: string, decision: ToolPermissionDecision) => {
+        const pending = pendingPermissionRequests.get(requestId);
+        if (!pending) {
+          log.warn('[IPC Handler] Permission response for unknown request:', requestId);
+          return { success: false, error: 'Permission request is no longer pending' };
+        }
+        pending.resolve(decision);
+        return { success: true };
+      }
+    );
+
     /**
      * Get session ID for an entry
      */
@@ -169,6 +261,13 @@ export function registerClaudeCodeHandlers(): void {
       return claudeService.getSessionId(entryId);
     });
 
+    /**
+     * Get the metrics of an agent's long-lived chat process
+     */
+    ipcMain.handle('claude-code:get-session-metrics', async (_event, entryId: string) => {
+      return claudeService.getSessionMetrics(entryId);
+    });
+
     /**
      * Clear all sessions
      */
@@ -3,12 +3,29 @@ import { extractToolCalls } from '@/commons/utils/message-transformers';
 import { isValidationEnabled } from '@/config/validation.config';
 import { CHANGES_TAB_ID, MAX_TABS, TERMINAL_TAB_ID } from '@/constants/tabs';
 import { Agent, AgentStatus, AgentType } from '@/entities';
+import { calculateCost } from '@/monitoring/utils/costCalculator';
+import { FanOutService } from '@/services/FanOutService';
 import { FileDataStoreService } from '@/services/FileDataStoreService';
+import { GitService } from '@/services/GitService';
 import { McpAuthService, McpServerConfig } from '@/services/McpAuthService';
-import { SessionManifestService } from '@/services/SessionManifestService';
+import {
+  SessionBranchPoint,
+  SessionManifestService,
+  TurnCheckpoint,
+} from '@/services/SessionManifestService';
 import { ComputedMessage, formatToolDescription } from '@/stores/chat.selectors';
 import { AgentConfig } from '@/types/config.types';
-import { IPC_CHANNELS, SlashCommand } from '@/types/ipc.types';
+import {
+  AgentTurnCheckpoint,
+  BranchSessionRequest,
+  BranchSessionResponse,
+  CheckpointRequest,
+  FanOutRunRequest,
+  FanOutRunResponse,
+  IPC_CHANNELS,
+  SlashCommand,
+  UndoCheckpointResponse,
+} from '@/types/ipc.types';
 import { IpcMainInvokeEvent, shell } from 'electron';
 import log from 'electron-log';
 import { createReadStream, existsSync, readFileSync } from 'fs';
@@ -17,23 +34,15 @@ import * as os from 'os';
 import * as path from 'path';
 import * as readline from 'readline';
 import { v4 as uuidv4 } from 'uuid';
+import { FileDiff, GitDiffService } from '../../services/GitDiffService';
+import {
+  SessionEntry,
+  findBranchPoint,
+  findCheckpointAt,
+  truncateAtMessage,
+} from '../../utils/sessionBranching';
 import { registerSafeHandler } from '../safeHandlerWrapper';
 
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'claude-3-5-sonnet-20241022': { input: 3.0, output: 15.0 },
-  'claude-3-5-sonnet-20240620': { input: 3.0, output: 15.0 },
-  'claude-3-opus-20240229': { input: 15.0, output: 75.0 },
-  'claude-3-sonnet-20240229': { input: 3.0, output: 15.0 },
-  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-  'claude-3-5-haiku-20241022': { input: 1.0, output: 5.0 },
-  'claude-opus-4-20250514': { input: 15.0, output: 75.0 },
-  'claude-opus-4-1-20250805': { input: 15.0, output: 75.0 },
-  'claude-opus-4-5-20251101': { input: 5.0, output: 25.0 },
-  'claude-sonnet-4-20250514': { input: 3.0, output: 15.0 },
-  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
-  'claude-haiku-4-5-20251001': { input: 1.0, output: 5.0 },
-};
-
 /**
  * ClaudeHandlers class
  * Consolidated IPC handler for Claude Code operations including agent management,
@@ -69,19 +78,19 @@ export class ClaudeHandlers {
   }
 
   /**
-   * Calculate token cost based on usage and model pricing
+   * Calculate token cost of one request from the pricing table
    */
   private calculateTokenCost(usage: any, model: string): number {
-    const pricing = MODEL_PRICING[model] || { input: 15.0, output: 75.0 };
-
-    const inputCost = ((usage.input_tokens || 0) / 1_000_000) * pricing.input;
-    const outputCost = ((usage.output_tokens || 0) / 1_000_000) * pricing.output;
-    const cacheCreationCost =
-      ((usage.cache_creation_input_tokens || 0) / 1_000_000) * pricing.input;
-    const cacheReadCost = ((usage.cache_read_input_tokens || 0) / 1_000_000) * pricing.input;
-
-    const totalCost = inputCost + outputCost + cacheCreationCost + cacheReadCost;
-    return Math.round(totalCost * 1_000_000) / 1_000_000;
+    return calculateCost(
+      {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+        cacheCreation1hInputTokens: usage.cache_creation?.ephemeral_1h_input_tokens || 0,
+      },
+      model
+    );
   }
 
   /**
@@ -194,6 +203,67 @@ export class ClaudeHandlers {
     return config;
   }
 
+  /**
+   * Path of a Claude session transcript for a worktree
+   */
+  private getClaudeSessionPath(folderName: string, sessionId: string): string {
+    const homedir = os.homedir();
+    const homedirFormatted = homedir.substring(1).replace(/[^a-zA-Z0-9]/g, '-');
+    const projectDirName = `-${homedirFormatted}--autosteer-worktrees-${folderName}`;
+    return path.join(homedir, '.claude', 'projects', projectDirName, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Read the raw JSONL entries of a Claude session, skipping unparsable lines
+   */
+  private async readSessionEntries(folderName: string, sessionId: string): Promise<SessionEntry[]> {
+    const content = await fs.readFile(this.getClaudeSessionPath(folderName, sessionId), 'utf-8');
+    const entries: SessionEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (e) {
+        log.warn(`[ClaudeHandlers] Failed to parse JSONL line: ${e}`);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Turn checkpoints of an agent and, for forks, its ancestors, oldest first
+   */
+  private async getCheckpointsWithAncestors(
+    worktreeId: string,
+    agentId: string
+  ): Promise<TurnCheckpoint[]> {
+    const byAgent = await this.sessionManifest.getCheckpoints(worktreeId);
+    const checkpoints: TurnCheckpoint[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = agentId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      checkpoints.push(...(byAgent[currentId] || []));
+      currentId = (await this.sessionManifest.getLineage(worktreeId, currentId))?.parentAgentId;
+    }
+
+    return checkpoints.sort(
+      (a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime()
+    );
+  }
+
+  private getWorktreePath(worktreeId: string): string {
+    return path.join(os.homedir(), '.autosteer', 'worktrees', worktreeId);
+  }
+
+  private async findCheckpoint(request: CheckpointRequest): Promise<TurnCheckpoint | undefined> {
+    const checkpoints = await this.sessionManifest.getCheckpoints(request.worktreeId);
+    return checkpoints[request.agentId]?.find(
+      (checkpoint) => checkpoint.id === request.checkpointId
+    );
+  }
+
   /**
    * Load slash commands from a directory structure
    */
@@ -427,25 +497,25 @@ export class ClaudeHandlers {
           return { messages: [], sessionId: null };
         }
 
-        const homedir = os.homedir();
-        const homedirFormatted = homedir.substring(1).replace(/[^a-zA-Z0-9]/g, '-');
-        const projectDirName = `-${homedirFormatted}--autosteer-worktrees-${worktree.folder_name}`;
-        const claudeProjectsDir = path.join(homedir, '.claude', 'projects', projectDirName);
-
         let jsonlFilePath: string;
         let actualSessionId: string | undefined;
+        let pendingBranch: SessionBranchPoint | undefined;
 
         try {
-          actualSessionId = await this.sessionManifest.getAgentSession(
+          // A rewound or forked agent shows the source session up to the branch point
+          pendingBranch = await this.sessionManifest.getPendingBranch(
             worktree.folder_name,
             agentId
           );
+          actualSessionId =
+            pendingBranch?.sourceSessionId ??
+            (await this.sessionManifest.getAgentSession(worktree.folder_name, agentId));
 
           if (!actualSessionId) {
             return { messages: [], sessionId: null };
           }
 
-          jsonlFilePath = path.join(claudeProjectsDir, `${actualSessionId}.jsonl`);
+          jsonlFilePath = this.getClaudeSessionPath(worktree.folder_name, actualSessionId);
 
           try {
             await fs.access(jsonlFilePath);
@@ -491,7 +561,11 @@ export class ClaudeHandlers {
           }
         >();
 
-        for (const sdkMsg of sdkMessages) {
+        const sessionEntries = pendingBranch
+          ? truncateAtMessage(sdkMessages, pendingBranch.cutAtMessageId)
+          : sdkMessages;
+
+        for (const sdkMsg of sessionEntries) {
           try {
             // Use sdkMsg directly (already typed as any from JSONL parsing)
             const data = sdkMsg;
@@ -897,11 +971,201 @@ export class ClaudeHandlers {
           });
         }
 
-        return { messages, sessionId: actualSessionId };
+        // The branch is not a session of its own until the next query starts
+        return { messages, sessionId: pendingBranch ? null : actualSessionId };
       },
       { operationName: 'Load chat history' }
     );
 
+    // Agent: Rewind a session to a user message or fork it into another agent
+    registerSafeHandler(
+      IPC_CHANNELS.AGENTS_BRANCH_SESSION,
+      async (
+        _event: IpcMainInvokeEvent,
+        request: BranchSessionRequest
+      ): Promise<BranchSessionResponse> => {
+        const agent = await this.fileDataStore.getAgent(request.sourceAgentId);
+        if (!agent || !agent.project_id) {
+          return { success: false, error: 'Agent not found' };
+        }
+        const worktreeId = agent.project_id;
+
+        // Branching again before sending keeps cutting the same source session
+        const pendingBranch = await this.sessionManifest.getPendingBranch(
+          worktreeId,
+          request.sourceAgentId
+        );
+        const sourceSessionId =
+          pendingBranch?.sourceSessionId ??
+          (await this.sessionManifest.getAgentSession(worktreeId, request.sourceAgentId));
+        if (!sourceSessionId) {
+          return { success: false, error: 'This conversation has no Claude session yet' };
+        }
+
+        let entries: SessionEntry[];
+        try {
+          entries = await this.readSessionEntries(worktreeId, sourceSessionId);
+        } catch (error) {
+          log.warn(`[ClaudeHandlers] Could not read session ${sourceSessionId}: ${error}`);
+          return { success: false, error: 'Session history not found' };
+        }
+        if (pendingBranch) {
+          entries = truncateAtMessage(entries, pendingBranch.cutAtMessageId);
+        }
+
+        const branchPoint = findBranchPoint(entries, request);
+        if (!branchPoint) {
+          return { success: false, error: 'Message not found in session history' };
+        }
+
+        const createdAt = new Date().toISOString();
+        await this.sessionManifest.setPendingBranch(worktreeId, request.targetAgentId, {
+          sourceSessionId,
+          cutAtMessageId: branchPoint.cutAtMessageId,
+          ...(branchPoint.resumeAt && { resumeAt: branchPoint.resumeAt }),
+          createdAt,
+        });
+
+        if (request.targetAgentId !== request.sourceAgentId) {
+          await this.sessionManifest.recordLineage(worktreeId, request.targetAgentId, {
+            parentAgentId: request.sourceAgentId,
+            parentSessionId: sourceSessionId,
+            forkedAtMessageId: branchPoint.cutAtMessageId,
+            createdAt,
+          });
+        }
+
+        log.info('[ClaudeHandlers] Branched session', {
+          sourceAgentId: request.sourceAgentId,
+          targetAgentId: request.targetAgentId,
+          cutAtMessageId: branchPoint.cutAtMessageId,
+          resumeAt: branchPoint.resumeAt,
+        });
+
+        if (!request.restoreFiles) {
+          return { success: true };
+        }
+
+        const checkpoints = await this.getCheckpointsWithAncestors(
+          worktreeId,
+          request.sourceAgentId
+        );
+        const checkpoint = branchPoint.timestamp
+          ? findCheckpointAt(checkpoints, branchPoint.timestamp)
+          : undefined;
+        if (!checkpoint) {
+          return { success: true, restoreMessage: 'No file state was recorded for this message' };
+        }
+
+        const worktreePath = this.getWorktreePath(worktreeId);
+        const restored = await GitService.getInstance().restoreCheckpoint(
+          worktreePath,
+          checkpoint.before
+        );
+        return {
+          success: true,
+          restoreMessage: restored.success
+            ? restored.message
+            : `${restored.message}: ${restored.error}`,
+        };
+      },
+      { operationName: 'Branch agent session' }
+    );
+
+    // Agent: List per-turn worktree checkpoints for all agents in a worktree, newest first
+    registerSafeHandler(
+      IPC_CHANNELS.AGENTS_LIST_CHECKPOINTS,
+      async (_event: IpcMainInvokeEvent, worktreeId: string): Promise<AgentTurnCheckpoint[]> => {
+        const checkpoints = await this.sessionManifest.getCheckpoints(worktreeId);
+        return Object.entries(checkpoints)
+          .flatMap(([agentId, list]) => list.map((checkpoint) => ({ ...checkpoint, agentId })))
+          .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+      },
+      { operationName: 'List turn checkpoints', suppressNotification: true }
+    );
+
+    // Agent: Diff a turn checkpoint against the end of the turn or the current worktree
+    registerSafeHandler(
+      IPC_CHANNELS.AGENTS_DIFF_CHECKPOINT,
+      async (_event: IpcMainInvokeEvent, request: CheckpointRequest): Promise<FileDiff[]> => {
+        const checkpoint = await this.findCheckpoint(request);
+        if (!checkpoint) {
+          throw new Error('Checkpoint not found');
+        }
+
+        const worktreePath = this.getWorktreePath(request.worktreeId);
+        const to =
+          request.against !== 'current' && checkpoint.after
+            ? checkpoint.after
+            : await GitService.getInstance().createCheckpoint(worktreePath);
+        if (!to) {
+          throw new Error('Could not read the current worktree state');
+        }
+
+        return new GitDiffService(worktreePath).getDiff({
+          repoPath: worktreePath,
+          from: checkpoint.before,
+          to,
+        });
+      },
+      { operationName: 'Diff turn checkpoint' }
+    );
+
+    // Agent: Undo the file changes made during one turn, keeping later edits
+    registerSafeHandler(
+      IPC_CHANNELS.AGENTS_UNDO_CHECKPOINT,
+      async (
+        _event: IpcMainInvokeEvent,
+        request: CheckpointRequest
+      ): Promise<UndoCheckpointResponse> => {
+        const checkpoint = await this.findCheckpoint(request);
+        if (!checkpoint) {
+          return { success: false, error: 'Checkpoint not found' };
+        }
+        if (!checkpoint.after) {
+          return { success: false, error: 'This turn has not finished' };
+        }
+        if (checkpoint.undoneAt) {
+          return { success: false, error: 'This turn was already undone' };
+        }
+
+        const result = await GitService.getInstance().revertCheckpointRange(
+          this.getWorktreePath(request.worktreeId),
+          checkpoint.before,
+          checkpoint.after
+        );
+        if (!result.success) {
+          return {
+            success: false,
+            message: result.message,
+            ...(result.error && { error: result.error }),
+          };
+        }
+
+        await this.sessionManifest.updateCheckpoint(
+          request.worktreeId,
+          request.agentId,
+          request.checkpointId,
+          { undoneAt: new Date().toISOString() }
+        );
+        log.info('[ClaudeHandlers] Undid agent turn', {
+          agentId: request.agentId,
+          checkpointId: request.checkpointId,
+        });
+        return { success: true, message: result.message };
+      },
+      { operationName: 'Undo agent turn' }
+    );
+
+    // Agent: Run one fan-out variant headless and report its results
+    registerSafeHandler(
+      IPC_CHANNELS.AGENTS_RUN_FANOUT,
+      async (_event: IpcMainInvokeEvent, request: FanOutRunRequest): Promise<FanOutRunResponse> => {
+        return FanOutService.getInstance().run(request);
+      },
+      { operationName: 'Run fan-out variant' }
+    );
+
     // Agent: Update additional directories
     registerSafeHandler(
       'agents:updateAdditionalDirectories',
@@ -947,6 +1211,8 @@ export class ClaudeHandlers {
           throw new Error(`Server "${serverName}" not found in MCP configuration`);
         }
 
+        // The project's .mcp.json comes from the repository, so its secret references are
+        // not filled in
         const mcpServerConfig: McpServerConfig = serverConfig;
         const authResult = await this.mcpAuthService.captureAuthUrl(serverName, mcpServerConfig);
 
@@ -11,6 +11,8 @@
  * - Git change watching and notifications
  * - File and hunk discard operations
  * - Deleted file restoration
+ * - File, hunk and line staging/unstaging
+ * - Commit (with amend), push, pull and ahead/behind status
  *
  * Success Criteria:
  * - Type-safe IPC channels
@@ -19,8 +21,17 @@
  * - ~150 LoC target
  */
 
+import { GitService } from '@/services/GitService';
+import { GitSyncStatus } from '@/types/git-diff.types';
 import { IpcMainInvokeEvent } from 'electron';
-import { DiffHunk, DiffOptions, FileDiff, GitDiffService } from '../../services/GitDiffService';
+import {
+  CommitResult,
+  DiffHunk,
+  DiffOptions,
+  FileDiff,
+  GitDiffService,
+  LineSelection,
+} from '../../services/GitDiffService';
 import { log as logger } from '../../services/logger';
 import { registerSafeHandler } from '../safeHandlerWrapper';
 
@@ -50,6 +61,24 @@ interface DiscardLinesParams {
   lines: Array<{ lineNumber: number; type: 'add' | 'del' }>;
 }
 
+interface StageHunkParams {
+  repoPath: string;
+  filePath: string;
+  hunk: DiffHunk;
+}
+
+interface StageLinesParams {
+  repoPath: string;
+  filePath: string;
+  lines: LineSelection[];
+}
+
+interface CommitParams {
+  repoPath: string;
+  message: string;
+  amend?: boolean;
+}
+
 // Store active watchers by repo path
 const activeWatchers = new Map<string, { service: GitDiffService; cleanup: () => void }>();
 
@@ -224,5 +253,131 @@ export class GitHandlers {
       },
       { operationName: 'Restore deleted file' }
     );
+
+    // Get unstaged changes (working directory vs index)
+    registerSafeHandler(
+      'git-diff:get-unstaged',
+      async (
+        _event: IpcMainInvokeEvent,
+        params: { repoPath: string; filePath?: string }
+      ): Promise<FileDiff[]> => {
+        const service = new GitDiffService(params.repoPath);
+        return await service.getUnstagedDiff(params.filePath);
+      },
+      { operationName: 'Get unstaged changes', suppressNotification: true }
+    );
+
+    // Stage all changes in a file
+    registerSafeHandler(
+      'git-diff:stage-file',
+      async (
+        _event: IpcMainInvokeEvent,
+        params: { repoPath: string; filePath: string }
+      ): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.stageFile(params.filePath);
+      },
+      { operationName: 'Stage file' }
+    );
+
+    // Unstage all changes in a file
+    registerSafeHandler(
+      'git-diff:unstage-file',
+      async (
+        _event: IpcMainInvokeEvent,
+        params: { repoPath: string; filePath: string }
+      ): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.unstageFile(params.filePath);
+      },
+      { operationName: 'Unstage file' }
+    );
+
+    // Stage a hunk from the unstaged diff
+    registerSafeHandler(
+      'git-diff:stage-hunk',
+      async (__event: IpcMainInvokeEvent, params: StageHunkParams): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.stageHunk(params.filePath, params.hunk);
+      },
+      { operationName: 'Stage hunk' }
+    );
+
+    // Unstage a hunk from the staged diff
+    registerSafeHandler(
+      'git-diff:unstage-hunk',
+      async (__event: IpcMainInvokeEvent, params: StageHunkParams): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.unstageHunk(params.filePath, params.hunk);
+      },
+      { operationName: 'Unstage hunk' }
+    );
+
+    // Stage specific lines from the unstaged diff
+    registerSafeHandler(
+      'git-diff:stage-lines',
+      async (__event: IpcMainInvokeEvent, params: StageLinesParams): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.stageLines(params.filePath, params.lines);
+      },
+      { operationName: 'Stage lines' }
+    );
+
+    // Unstage specific lines from the staged diff
+    registerSafeHandler(
+      'git-diff:unstage-lines',
+      async (__event: IpcMainInvokeEvent, params: StageLinesParams): Promise<void> => {
+        const service = new GitDiffService(params.repoPath);
+        await service.unstageLines(params.filePath, params.lines);
+      },
+      { operationName: 'Unstage lines' }
+    );
+
+    // Commit staged changes (optionally amending HEAD)
+    registerSafeHandler(
+      'git:commit',
+      async (__event: IpcMainInvokeEvent, params: CommitParams): Promise<CommitResult> => {
+        const service = new GitDiffService(params.repoPath);
+        return await service.commit(params.message, { amend: Boolean(params.amend) });
+      },
+      { operationName: 'Commit changes' }
+    );
+
+    // Get HEAD commit message (prefills amend)
+    registerSafeHandler(
+      'git:last-commit-message',
+      async (__event: IpcMainInvokeEvent, repoPath: string): Promise<string> => {
+        const service = new GitDiffService(repoPath);
+        return await service.getLastCommitMessage();
+      },
+      { operationName: 'Get last commit message', suppressNotification: true }
+    );
+
+    // Get branch ahead/behind counts against origin
+    registerSafeHandler(
+      'git:sync-status',
+      async (__event: IpcMainInvokeEvent, repoPath: string): Promise<GitSyncStatus> => {
+        return await GitService.getInstance().getSyncStatus(repoPath);
+      },
+      { operationName: 'Get sync status', suppressNotification: true }
+    );
+
+    // Push current branch
+    registerSafeHandler(
+      'git:push',
+      async (__event: IpcMainInvokeEvent, repoPath: string) => {
+        return await GitService.getInstance().push(repoPath);
+      },
+      { operationName: 'Push changes' }
+    );
+
+    // Pull current branch
+    registerSafeHandler(
+      'git:pull',
+      async (__event: IpcMainInvokeEvent, repoPath: string) => {
+        return await GitService.getInstance().pullLatest(repoPath);
+      },
+      { operationName: 'Pull changes' }
+    );
   }
 }
@@ -21,3 +21,4 @@ export { ProjectHandlers } from './project.handlers';
 export { GitHandlers } from './git.handlers';
 export { SystemHandlers } from './system.handlers';
 export { IdeHandlers } from './ide.handlers';
+export { MonitoringHandlers } from './monitoring.handlers';
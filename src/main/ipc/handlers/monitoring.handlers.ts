@@ -0,0 +1,283 @@
+/**
+ * Monitoring Handlers - IPC handlers for usage analytics and trace files
+ *
+ * Responsibilities:
+ * - Usage analytics per day, week or month
+ * - CSV/JSON export of usage for chargeback
+ * - Listing and reading SDK trace files
+ * - Reading fetch trace logs and exporting them as HAR
+ * - Browsing, pinning and deleting fetch cache entries
+ */
+
+import { AnalyticsPeriod, UsageAnalytics } from '@/monitoring/interfaces/types';
+import { FetchCacheInspectorService } from '@/services/FetchCacheInspectorService';
+import { FetchTraceService } from '@/services/FetchTraceService';
+import { TraceLogger } from '@/services/TraceLogger';
+import { UsageAnalyticsService, UsageExportFormat } from '@/services/UsageAnalyticsService';
+import {
+  FetchCacheEntryInfo,
+  FetchCacheEntryQuery,
+  FetchCacheSummary,
+} from '@/types/fetch-cache.types';
+import { FetchTraceEntry, FetchTraceLogInfo } from '@/types/fetch-trace.types';
+import { TraceFileEntry, TraceFileInfo } from '@/types/trace-logger.types';
+import { BrowserWindow, IpcMainInvokeEvent, dialog } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { registerSafeHandler } from '../safeHandlerWrapper';
+
+/**
+ * Monitoring operation response type
+ */
+interface MonitoringResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * MonitoringHandlers class
+ * Centralized handler for all usage monitoring IPC operations
+ */
+export class MonitoringHandlers {
+  private analyticsService: UsageAnalyticsService;
+  private traceLogger: TraceLogger;
+  private fetchTraceService: FetchTraceService;
+  private fetchCacheInspector: FetchCacheInspectorService;
+
+  constructor() {
+    this.analyticsService = UsageAnalyticsService.getInstance();
+    this.traceLogger = TraceLogger.getInstance();
+    this.fetchTraceService = FetchTraceService.getInstance();
+    this.fetchCacheInspector = FetchCacheInspectorService.getInstance();
+  }
+
+  /**
+   * Register all Monitoring IPC handlers
+   */
+  registerHandlers(): void {
+    this.registerUsageHandlers();
+    this.registerTraceHandlers();
+    this.registerFetchTraceHandlers();
+    this.registerFetchCacheHandlers();
+  }
+
+  /**
+   * Usage Analytics Operations
+   */
+  private registerUsageHandlers(): void {
+    registerSafeHandler(
+      'monitoring:getAnalytics',
+      async (
+        _event: IpcMainInvokeEvent,
+        period: AnalyticsPeriod
+      ): Promise<MonitoringResponse<UsageAnalytics>> => {
+        const data = await this.analyticsService.getAnalytics(period);
+        return { success: true, data };
+      },
+      { operationName: 'Load usage analytics' }
+    );
+
+    // Returns the path written to, or null when the dialog was cancelled
+    registerSafeHandler(
+      'monitoring:exportUsage',
+      async (
+        event: IpcMainInvokeEvent,
+        period: AnalyticsPeriod,
+        format: UsageExportFormat
+      ): Promise<MonitoringResponse<string | null>> => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        const result = await dialog.showSaveDialog(window, {
+          defaultPath: `autosteer-usage-${period}-${date}.${format}`,
+          filters: [{ name: format.toUpperCase(), extensions: [format] }],
+        });
+        if (result.canceled || !result.filePath) {
+          return { success: true, data: null };
+        }
+
+        const content = await this.analyticsService.export(period, format);
+        await fs.writeFile(result.filePath, content, 'utf-8');
+        return { success: true, data: result.filePath };
+      },
+      { operationName: 'Export usage' }
+    );
+  }
+
+  /**
+   * Trace File Operations
+   */
+  private registerTraceHandlers(): void {
+    registerSafeHandler(
+      'monitoring:listTraceFiles',
+      async (): Promise<MonitoringResponse<TraceFileInfo[]>> => {
+        const data = await this.traceLogger.listTraceFiles();
+        return { success: true, data };
+      },
+      { operationName: 'List trace files' }
+    );
+
+    // Only files in the traces directory; others are opened through the dialog
+    registerSafeHandler(
+      'monitoring:readTraceFile',
+      async (
+        _event: IpcMainInvokeEvent,
+        filePath: string
+      ): Promise<MonitoringResponse<TraceFileEntry[]>> => {
+        const tracesDir = this.traceLogger.getTracesDirectory();
+        if (path.dirname(path.resolve(filePath)) !== tracesDir) {
+          return { success: false, error: 'Not a trace file' };
+        }
+
+        const data = await this.traceLogger.readTraceFile(filePath);
+        return { success: true, data };
+      },
+      { operationName: 'Read trace file' }
+    );
+
+    // Pick any trace file from disk; returns null when the dialog was cancelled
+    registerSafeHandler(
+      'monitoring:openTraceFile',
+      async (
+        event: IpcMainInvokeEvent
+      ): Promise<MonitoringResponse<{ filePath: string; entries: TraceFileEntry[] } | null>> => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+
+        const result = await dialog.showOpenDialog(window, {
+          defaultPath: this.traceLogger.getTracesDirectory(),
+          properties: ['openFile'],
+          filters: [
+            { name: 'Trace Files', extensions: ['jsonl'] },
+            { name: 'All Files', extensions: ['*'] },
+          ],
+        });
+        const filePath = result.filePaths[0];
+        if (result.canceled || !filePath) {
+          return { success: true, data: null };
+        }
+
+        const entries = await this.traceLogger.readTraceFile(filePath);
+        return { success: true, data: { filePath, entries } };
+      },
+      { operationName: 'Open trace file' }
+    );
+  }
+
+  /**
+   * Fetch Trace Operations
+   */
+  private registerFetchTraceHandlers(): void {
+    registerSafeHandler(
+      'monitoring:listFetchTraces',
+      async (): Promise<MonitoringResponse<FetchTraceLogInfo[]>> => {
+        const data = await this.fetchTraceService.listLogs();
+        return { success: true, data };
+      },
+      { operationName: 'List fetch traces' }
+    );
+
+    registerSafeHandler(
+      'monitoring:readFetchTrace',
+      async (
+        _event: IpcMainInvokeEvent,
+        filePath: string
+      ): Promise<MonitoringResponse<FetchTraceEntry[]>> => {
+        const data = await this.fetchTraceService.readLog(filePath);
+        return { success: true, data };
+      },
+      { operationName: 'Read fetch trace' }
+    );
+
+    // Returns the path written to, or null when the dialog was cancelled
+    registerSafeHandler(
+      'monitoring:exportHar',
+      async (
+        event: IpcMainInvokeEvent,
+        filePath: string,
+        correlationIds?: string[]
+      ): Promise<MonitoringResponse<string | null>> => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+
+        const result = await dialog.showSaveDialog(window, {
+          defaultPath: path.basename(filePath).replace(/\.log$/, '.har'),
+          filters: [{ name: 'HAR', extensions: ['har'] }],
+        });
+        if (result.canceled || !result.filePath) {
+          return { success: true, data: null };
+        }
+
+        const content = await this.fetchTraceService.exportHar(filePath, correlationIds);
+        await fs.writeFile(result.filePath, content, 'utf-8');
+        return { success: true, data: result.filePath };
+      },
+      { operationName: 'Export HAR' }
+    );
+  }
+
+  /**
+   * Fetch Cache Operations
+   */
+  private registerFetchCacheHandlers(): void {
+    registerSafeHandler(
+      'monitoring:getFetchCacheSummary',
+      async (): Promise<MonitoringResponse<FetchCacheSummary>> => {
+        const data = this.fetchCacheInspector.getSummary();
+        return { success: true, data };
+      },
+      { operationName: 'Load fetch cache summary' }
+    );
+
+    registerSafeHandler(
+      'monitoring:listFetchCacheEntries',
+      async (
+        _event: IpcMainInvokeEvent,
+        query?: FetchCacheEntryQuery
+      ): Promise<MonitoringResponse<FetchCacheEntryInfo[]>> => {
+        const data = this.fetchCacheInspector.listEntries(query);
+        return { success: true, data };
+      },
+      { operationName: 'List fetch cache entries' }
+    );
+
+    registerSafeHandler(
+      'monitoring:deleteFetchCacheEntry',
+      async (_event: IpcMainInvokeEvent, key: string): Promise<MonitoringResponse<boolean>> => {
+        const data = this.fetchCacheInspector.deleteEntry(key);
+        return { success: true, data };
+      },
+      { operationName: 'Delete fetch cache entry' }
+    );
+
+    registerSafeHandler(
+      'monitoring:pinFetchCacheEntry',
+      async (
+        _event: IpcMainInvokeEvent,
+        key: string,
+        pinned: boolean
+      ): Promise<MonitoringResponse<boolean>> => {
+        const data = this.fetchCacheInspector.setPinned(key, pinned);
+        return { success: true, data };
+      },
+      { operationName: 'Pin fetch cache entry' }
+    );
+
+    registerSafeHandler(
+      'monitoring:clearFetchCache',
+      async (): Promise<MonitoringResponse<void>> => {
+        this.fetchCacheInspector.clear();
+        return { success: true };
+      },
+      { operationName: 'Clear fetch cache' }
+    );
+  }
+}
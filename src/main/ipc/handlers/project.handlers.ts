@@ -1,13 +1,17 @@
 import {
+  ContentSearchRequest,
   DirectoryListingRequest,
   DirectoryListingResponse,
   FileSystemEntry,
   IPC_CHANNELS,
   IpcChannelNames,
+  SymbolSearchRequest,
   WorkspaceSearchRequest,
   WorkspaceSearchResponse,
 } from '@/types/ipc.types';
 import { Resource, ResourceType } from '@/entities';
+import { ContentSearchService } from '@/services/ContentSearchService';
+import { SymbolIndexService } from '@/services/SymbolIndexService';
 import { BrowserWindow, IpcMainInvokeEvent, dialog, shell, app } from 'electron';
 import log from 'electron-log';
 import fg from 'fast-glob';
@@ -452,6 +456,36 @@ export class ProjectHandlers {
       operationName: 'Search workspace',
     });
 
+    // File: Search file contents, streaming results to the window
+    registerSafeHandler(
+      IpcChannelNames.FILE_SEARCH_CONTENT,
+      async (event: IpcMainInvokeEvent, request: ContentSearchRequest) => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+        return { searchId: ContentSearchService.getInstance().search(window, request) };
+      },
+      { operationName: 'Search file contents' }
+    );
+
+    registerSafeHandler(
+      IpcChannelNames.FILE_SEARCH_CONTENT_CANCEL,
+      async (__event: IpcMainInvokeEvent, searchId: string) => {
+        ContentSearchService.getInstance().cancel(searchId);
+      },
+      { operationName: 'Cancel file content search' }
+    );
+
+    // File: Look up symbols for @path#Symbol mentions
+    registerSafeHandler(
+      IpcChannelNames.FILE_SEARCH_SYMBOLS,
+      async (__event: IpcMainInvokeEvent, request: SymbolSearchRequest) => ({
+        symbols: await SymbolIndexService.getInstance().searchSymbols(request),
+      }),
+      { operationName: 'Search symbols' }
+    );
+
     // File: Check if path exists
     registerSafeHandler(
       'file:pathExists',
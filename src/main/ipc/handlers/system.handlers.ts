@@ -25,15 +25,31 @@
  * - ~150 LoC target per domain
  */
 
+import { EffectiveSettingsService } from '@/services/EffectiveSettingsService';
+import { FetchCacheInspectorService } from '@/services/FetchCacheInspectorService';
 import { FileDataStoreService } from '@/services/FileDataStoreService';
 import { UpdateService } from '@/services/UpdateService';
 import { XtermService } from '@/services/XtermService';
+import { PricingService } from '@/services/PricingService';
 import { PythonRuntimeService } from '@/services/PythonRuntimeService';
-import { AutosteerConfig, CustomCommand } from '@/types/config.types';
+import { API_KEY_SECRET_PREFIX, SecretsService } from '@/services/SecretsService';
+import { TaskRunnerService } from '@/services/TaskRunnerService';
+import { TelemetryService } from '@/services/TelemetryService';
+import { PricingTable } from '@/monitoring/interfaces/types';
+import {
+  AutosteerConfig,
+  CustomCommand,
+  FetchCacheConfig,
+  TelemetryConfig,
+} from '@/types/config.types';
 import { IPC_CHANNELS } from '@/types/ipc.types';
+import { PermissionRule } from '@/types/permission.types';
+import { TaskRun, WorktreeTasks } from '@/types/task-runner.types';
+import { EffectiveSettings, ProjectSettings, SettingsLayer } from '@/types/settings.schema';
 import { TerminalCreateParams, TerminalResponse } from '@/types/terminal.types';
 import { TestPythonRuntimeResponse } from '@/types/python-runtime.types';
-import { BrowserWindow, IpcMainInvokeEvent } from 'electron';
+import { BrowserWindow, dialog, IpcMainInvokeEvent } from 'electron';
+import * as fs from 'fs/promises';
 import log from 'electron-log';
 import { BadgeService } from '../../services/BadgeService';
 import { mainLogger } from '../../services/logger';
@@ -143,6 +159,66 @@ export class SystemHandlers {
       },
       { operationName: 'List terminals' }
     );
+
+    // Tasks detected in a worktree, with the latest run of each
+    registerSafeHandler(
+      'tasks:list',
+      async (_event: IpcMainInvokeEvent, worktreeId: string): Promise<WorktreeTasks> =>
+        TaskRunnerService.getInstance().list(worktreeId),
+      { operationName: 'List tasks' }
+    );
+
+    // Run a task in a new terminal of the calling window
+    registerSafeHandler(
+      'tasks:run',
+      async (event: IpcMainInvokeEvent, worktreeId: string, taskId: string): Promise<TaskRun> =>
+        TaskRunnerService.getInstance().run(this.getSenderWindow(event), worktreeId, taskId),
+      { operationName: 'Run task' }
+    );
+
+    // Run the worktree's most recently started task again
+    registerSafeHandler(
+      'tasks:rerunLast',
+      async (event: IpcMainInvokeEvent, worktreeId: string): Promise<TaskRun> =>
+        TaskRunnerService.getInstance().rerunLast(this.getSenderWindow(event), worktreeId),
+      { operationName: 'Re-run last task' }
+    );
+
+    // Stop a running task
+    registerSafeHandler(
+      'tasks:stop',
+      async (_event: IpcMainInvokeEvent, worktreeId: string, taskId: string): Promise<void> =>
+        TaskRunnerService.getInstance().stop(worktreeId, taskId),
+      { operationName: 'Stop task' }
+    );
+
+    // Output of a task run with ANSI codes, to show it in a terminal view
+    registerSafeHandler(
+      'tasks:getOutput',
+      async (_event: IpcMainInvokeEvent, worktreeId: string, runId: string): Promise<string> =>
+        TaskRunnerService.getInstance().getOutput(worktreeId, runId),
+      { operationName: 'Get task output' }
+    );
+
+    // Pin or unpin a task in the worktree config
+    registerSafeHandler(
+      'tasks:setPinned',
+      async (
+        _event: IpcMainInvokeEvent,
+        worktreeId: string,
+        taskId: string,
+        pinned: boolean
+      ): Promise<void> => TaskRunnerService.getInstance().setPinned(worktreeId, taskId, pinned),
+      { operationName: 'Pin task' }
+    );
+  }
+
+  private getSenderWindow(event: IpcMainInvokeEvent): BrowserWindow {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    if (!window) {
+      throw new Error('Window not found');
+    }
+    return window;
   }
 
   /**
@@ -308,19 +384,75 @@ export class SystemHandlers {
       { operationName: 'Get session settings' }
     );
 
-    // Set API key
+    // Get permission rules for a worktree
     registerSafeHandler(
-      'config:setApiKey',
-      async (_event: IpcMainInvokeEvent, service: string, key: string): Promise<void> => {
+      'config:getPermissionRules',
+      async (_event: IpcMainInvokeEvent, worktreeId: string): Promise<PermissionRule[]> => {
         try {
           const config = await this.fileDataStore.readConfig();
+          return config.permissionRules?.[worktreeId] || [];
+        } catch (error) {
+          ErrorHandler.log({ operation: 'get permission rules', error, context: { worktreeId } });
+          return [];
+        }
+      },
+      { operationName: 'Get permission rules' }
+    );
+
+    // Save permission rules for a worktree (replaces the whole list to keep rule order)
+    registerSafeHandler(
+      'config:savePermissionRules',
+      async (
+        _event: IpcMainInvokeEvent,
+        worktreeId: string,
+        rules: PermissionRule[]
+      ): Promise<void> => {
+        try {
+          const config = await this.fileDataStore.readConfig();
+
+          if (!config.permissionRules) {
+            config.permissionRules = {};
+          }
 
-          if (!config.apiKeys) {
-            config.apiKeys = {};
+          if (rules.length > 0) {
+            config.permissionRules[worktreeId] = rules;
+          } else {
+            delete config.permissionRules[worktreeId];
           }
 
-          config.apiKeys[service] = key;
           await this.fileDataStore.writeConfig(config);
+        } catch (error) {
+          ErrorHandler.log({
+            operation: 'save permission rules',
+            error,
+            context: { worktreeId, ruleCount: rules.length },
+          });
+          throw error;
+        }
+      },
+      { operationName: 'Save permission rules' }
+    );
+
+    // Get API keys, decrypted from secret storage
+    registerSafeHandler(
+      'config:getApiKeys',
+      async (): Promise<Record<string, string>> => {
+        try {
+          return await SecretsService.getInstance().getApiKeys();
+        } catch (error) {
+          ErrorHandler.log({ operation: 'get api keys', error });
+          return {};
+        }
+      },
+      { operationName: 'Get API keys' }
+    );
+
+    // Set API key (encrypted in secret storage)
+    registerSafeHandler(
+      'config:setApiKey',
+      async (_event: IpcMainInvokeEvent, service: string, key: string): Promise<void> => {
+        try {
+          await SecretsService.getInstance().set(`${API_KEY_SECRET_PREFIX}${service}`, key);
         } catch (error) {
           ErrorHandler.log({ operation: 'set api key', error, context: { service } });
           throw error;
@@ -329,13 +461,14 @@ export class SystemHandlers {
       { operationName: 'Set API key' }
     );
 
-    // Remove API key
+    // Remove API key (also from config.json, where keys stay until they can be migrated)
     registerSafeHandler(
       'config:removeApiKey',
       async (_event: IpcMainInvokeEvent, service: string): Promise<void> => {
         try {
-          const config = await this.fileDataStore.readConfig();
+          await SecretsService.getInstance().delete(`${API_KEY_SECRET_PREFIX}${service}`);
 
+          const config = await this.fileDataStore.readConfig();
           if (config.apiKeys && config.apiKeys[service]) {
             delete config.apiKeys[service];
             await this.fileDataStore.writeConfig(config);
@@ -353,9 +486,13 @@ export class SystemHandlers {
       'config:clearApiKeys',
       async (): Promise<void> => {
         try {
+          await SecretsService.getInstance().deleteAll(API_KEY_SECRET_PREFIX);
+
           const config = await this.fileDataStore.readConfig();
-          config.apiKeys = {};
-          await this.fileDataStore.writeConfig(config);
+          if (config.apiKeys) {
+            delete config.apiKeys;
+            await this.fileDataStore.writeConfig(config);
+          }
         } catch (error) {
           ErrorHandler.log({ operation: 'clear api keys', error });
           throw error;
@@ -364,6 +501,41 @@ export class SystemHandlers {
       { operationName: 'Clear API keys' }
     );
 
+    // List secret names; values never leave the main process
+    registerSafeHandler(
+      'secrets:list',
+      async (): Promise<string[]> => SecretsService.getInstance().list(),
+      { operationName: 'List secrets' }
+    );
+
+    // Set a secret for ${secret:NAME} references in MCP server configs
+    registerSafeHandler(
+      'secrets:set',
+      async (_event: IpcMainInvokeEvent, name: string, value: string): Promise<void> => {
+        try {
+          await SecretsService.getInstance().set(name, value);
+        } catch (error) {
+          ErrorHandler.log({ operation: 'set secret', error, context: { name } });
+          throw error;
+        }
+      },
+      { operationName: 'Set secret' }
+    );
+
+    // Delete a secret
+    registerSafeHandler(
+      'secrets:delete',
+      async (_event: IpcMainInvokeEvent, name: string): Promise<void> => {
+        try {
+          await SecretsService.getInstance().delete(name);
+        } catch (error) {
+          ErrorHandler.log({ operation: 'delete secret', error, context: { name } });
+          throw error;
+        }
+      },
+      { operationName: 'Delete secret' }
+    );
+
     // Add custom command
     registerSafeHandler(
       'config:addCustomCommand',
@@ -477,6 +649,13 @@ export class SystemHandlers {
       { operationName: 'Get config section' }
     );
 
+    // Get the pricing table loaded from ~/.autosteer/pricing.json
+    registerSafeHandler(
+      'config:getPricingTable',
+      async (): Promise<PricingTable> => PricingService.getInstance().getTable(),
+      { operationName: 'Get pricing table' }
+    );
+
     // Get dev mode setting
     registerSafeHandler(
       'config:getDevMode',
@@ -605,6 +784,136 @@ export class SystemHandlers {
       },
       { operationName: 'Set project directory' }
     );
+
+    // Get OpenTelemetry export settings from app.json
+    registerSafeHandler(
+      'config:getTelemetry',
+      async (): Promise<TelemetryConfig> => {
+        try {
+          const appConfig = await this.fileDataStore.readAppConfig();
+          return appConfig.telemetry || {};
+        } catch (error) {
+          ErrorHandler.log({ operation: 'get telemetry settings', error });
+          return {};
+        }
+      },
+      { operationName: 'Get telemetry settings' }
+    );
+
+    // Save OpenTelemetry export settings and apply them right away
+    registerSafeHandler(
+      'config:saveTelemetry',
+      async (_event: IpcMainInvokeEvent, telemetry: TelemetryConfig): Promise<void> => {
+        try {
+          const appConfig = await this.fileDataStore.readAppConfig();
+          // serviceName is only set by hand in app.json, keep it
+          const serviceName = appConfig.telemetry?.serviceName;
+          appConfig.telemetry = { ...telemetry, ...(serviceName && { serviceName }) };
+          await this.fileDataStore.writeAppConfig(appConfig);
+
+          TelemetryService.getInstance().configure(appConfig.telemetry);
+        } catch (error) {
+          ErrorHandler.log({ operation: 'save telemetry settings', error });
+          throw error;
+        }
+      },
+      { operationName: 'Save telemetry settings' }
+    );
+
+    // Get the fetch cache settings in effect (app.json over FETCH_CACHE_* variables)
+    registerSafeHandler(
+      'config:getFetchCache',
+      async (): Promise<Required<FetchCacheConfig>> =>
+        FetchCacheInspectorService.getInstance().getConfig(),
+      { operationName: 'Get fetch cache settings' }
+    );
+
+    // Save fetch cache settings; SDK subprocesses started afterwards use them
+    registerSafeHandler(
+      'config:saveFetchCache',
+      async (_event: IpcMainInvokeEvent, fetchCache: FetchCacheConfig): Promise<void> => {
+        try {
+          await FetchCacheInspectorService.getInstance().saveConfig(fetchCache);
+        } catch (error) {
+          ErrorHandler.log({ operation: 'save fetch cache settings', error });
+          throw error;
+        }
+      },
+      { operationName: 'Save fetch cache settings' }
+    );
+
+    // Resolve settings through the default, user, project and session layers
+    registerSafeHandler(
+      'config:getEffectiveSettings',
+      async (
+        _event: IpcMainInvokeEvent,
+        worktreeId?: string,
+        agentId?: string
+      ): Promise<EffectiveSettings> =>
+        EffectiveSettingsService.getInstance().resolve(worktreeId, agentId),
+      { operationName: 'Get effective settings' }
+    );
+
+    // Get the settings of a worktree's .autosteer.json
+    registerSafeHandler(
+      'config:getProjectSettings',
+      async (_event: IpcMainInvokeEvent, worktreeId: string): Promise<ProjectSettings> =>
+        EffectiveSettingsService.getInstance().getProjectSettings(worktreeId),
+      { operationName: 'Get project settings' }
+    );
+
+    // Export user settings; returns the path written to, or null when the dialog was cancelled
+    registerSafeHandler(
+      'config:exportSettings',
+      async (event: IpcMainInvokeEvent): Promise<string | null> => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+
+        const result = await dialog.showSaveDialog(window, {
+          defaultPath: 'autosteer-settings.json',
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+        });
+        if (result.canceled || !result.filePath) {
+          return null;
+        }
+
+        const content = await EffectiveSettingsService.getInstance().exportUserSettings();
+        await fs.writeFile(result.filePath, content, 'utf-8');
+        return result.filePath;
+      },
+      { operationName: 'Export settings' }
+    );
+
+    // Import user settings; returns the imported values, or null when the dialog was cancelled
+    registerSafeHandler(
+      'config:importSettings',
+      async (event: IpcMainInvokeEvent): Promise<SettingsLayer | null> => {
+        const window = BrowserWindow.fromWebContents(event.sender);
+        if (!window) {
+          throw new Error('No window found');
+        }
+
+        const result = await dialog.showOpenDialog(window, {
+          properties: ['openFile'],
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+        });
+        const filePath = result.filePaths[0];
+        if (result.canceled || !filePath) {
+          return null;
+        }
+
+        try {
+          const content = await fs.readFile(filePath, 'utf-8');
+          return await EffectiveSettingsService.getInstance().importUserSettings(content);
+        } catch (error) {
+          ErrorHandler.log({ operation: 'import settings', error, context: { filePath } });
+          throw error;
+        }
+      },
+      { operationName: 'Import settings' }
+    );
   }
 
   /**
@@ -1,16 +1,36 @@
 import { getDevSettings, logSettingsAtStartup } from '@/config/settings';
 import { ApplicationContainer } from '@/services/ApplicationContainer';
+import { BudgetService } from '@/services/BudgetService';
+import { EffectiveSettingsService } from '@/services/EffectiveSettingsService';
+import { FetchCacheInspectorService } from '@/services/FetchCacheInspectorService';
 import { FileDataStoreService } from '@/services/FileDataStoreService';
+import { PricingService } from '@/services/PricingService';
+import { SecretsService } from '@/services/SecretsService';
+import { TelemetryService } from '@/services/TelemetryService';
 import { UpdateService } from '@/services/UpdateService';
+import { XtermService } from '@/services/XtermService';
 import { app, BrowserWindow } from 'electron';
 import contextMenu from 'electron-context-menu';
 import log from 'electron-log';
 import path from 'path';
+import { ControlApiServer } from './api/ControlApiServer';
+import { isCliCommand } from './cli/parseCliArgs';
+import { runCli } from './cli/runCommand';
 import { IpcRegistrar } from './ipc/IpcRegistrar';
+import { BadgeService } from './services/BadgeService';
 import { mainLogger } from './services/logger';
+import { TerminalBufferService } from './services/TerminalBufferService';
 import { getTestModeHandler, isTestModeActive } from './test-mode';
 import { WindowManager } from './windows/WindowManager';
 
+// `autosteer run ...` runs one prompt headless instead of starting the GUI.
+// Its stdout carries JSON lines only, so logs go to the log file.
+const cliArgs = process.argv.slice(process.defaultApp ? 2 : 1);
+const isCliRun = isCliCommand(cliArgs);
+if (isCliRun) {
+  log.transports.console.level = false;
+}
+
 if (process.platform === 'darwin' || process.platform === 'linux') {
   import('fix-path')
     .then((fixPath) => fixPath.default())
@@ -76,7 +96,7 @@ if (app.isPackaged) {
 
 // Configure logging
 log.transports.file.level = 'debug';
-log.transports.console.level = !app.isPackaged ? 'debug' : false;
+log.transports.console.level = !app.isPackaged && !isCliRun ? 'debug' : false;
 
 class ElectronApp {
   private windowManager: WindowManager;
@@ -193,6 +213,9 @@ class ElectronApp {
           // Don't fail the entire startup for this
         }
 
+        // Load ~/.autosteer/pricing.json before anything calculates costs
+        await PricingService.getInstance().load();
+
         // Set dock icon for macOS (skip if USE_PLAIN_ICON is set for dev-no-reload mode)
         if (process.platform === 'darwin' && app.dock && !process.env.USE_PLAIN_ICON) {
           try {
@@ -214,6 +237,56 @@ class ElectronApp {
           // Continue with app startup even if IPC fails
         }
 
+        // Surface budget warnings as toasts and a badge on the app icon
+        BudgetService.getInstance().onAlert((alert) => {
+          BadgeService.getInstance()
+            .showBadge()
+            .catch(() => undefined);
+          const channel =
+            alert.level === 'exceeded' ? 'notification:error' : 'notification:warning';
+          BrowserWindow.getAllWindows().forEach((window) => {
+            window.webContents.send(channel, { title: 'Budget', message: alert.message });
+          });
+        });
+
+        // Start the localhost control API if it is enabled in app.json
+        ControlApiServer.getInstance()
+          .start()
+          .catch((error) => {
+            log.error('[READY] Failed to start control API:', error);
+          });
+
+        // Apply fetch cache settings saved in app.json before the first query starts
+        FetchCacheInspectorService.getInstance()
+          .start()
+          .catch((error) => {
+            log.error('[READY] Failed to apply fetch cache settings:', error);
+          });
+
+        // Apply fetch trace settings saved in app.json before the first query starts
+        EffectiveSettingsService.getInstance()
+          .start()
+          .catch((error) => {
+            log.error('[READY] Failed to apply fetch trace settings:', error);
+          });
+
+        // Move API keys stored in plain text in config.json into encrypted secret storage
+        SecretsService.getInstance()
+          .migrateApiKeys()
+          .catch((error) => {
+            log.error('[READY] Failed to migrate API keys to secret storage:', error);
+          });
+
+        // Capture terminal output with scrollback limits, for saving and reading it back
+        XtermService.getInstance().setBufferStore(new TerminalBufferService());
+
+        // Export agent turns as OpenTelemetry spans if it is enabled in app.json
+        TelemetryService.getInstance()
+          .start()
+          .catch((error) => {
+            log.error('[READY] Failed to start telemetry export:', error);
+          });
+
         log.info('[READY] Creating main window...');
         this.createMainWindow();
         log.info('[READY] Main window created');
@@ -253,6 +326,8 @@ class ElectronApp {
     app.on('before-quit', () => {
       try {
         this.applicationContainer.cleanup();
+        void ControlApiServer.getInstance().stop();
+        FetchCacheInspectorService.getInstance().close();
 
         if (this.updateService) {
           this.updateService.destroy();
@@ -450,5 +525,17 @@ class ElectronApp {
 }
 
 // Create and initialize the app
-const electronApp = new ElectronApp();
-electronApp.initialize();
+if (isCliRun) {
+  app.dock?.hide();
+  app
+    .whenReady()
+    .then(() => runCli(cliArgs))
+    .then((exitCode) => app.exit(exitCode))
+    .catch((error) => {
+      log.error('[CLI] Unexpected failure:', error);
+      app.exit(1);
+    });
+} else {
+  const electronApp = new ElectronApp();
+  electronApp.initialize();
+}
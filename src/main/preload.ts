@@ -1,3 +1,9 @@
+import type {
+  ContentSearchFileResult,
+  ContentSearchRequest,
+  ContentSearchSummary,
+  SymbolSearchRequest,
+} from '@/types/ipc.types';
 import { contextBridge, ipcRenderer, webUtils } from 'electron';
 
 // Type definitions for IPC listeners
@@ -82,6 +88,28 @@ const electronAPI = {
     openFolder: (path: string) => ipcRenderer.invoke('folder:open', path),
     listDirectory: (request: any) => ipcRenderer.invoke('file:list-directory', request),
     searchWorkspace: (request: any) => ipcRenderer.invoke('file:search-workspace', request),
+    searchContent: (request: ContentSearchRequest) =>
+      ipcRenderer.invoke('file:search-content', request),
+    cancelContentSearch: (searchId: string) =>
+      ipcRenderer.invoke('file:search-content-cancel', searchId),
+    onContentSearchResults: (
+      callback: (searchId: string, results: ContentSearchFileResult[]) => void
+    ) => {
+      const channel = 'file:search-content-results';
+      const listener: IpcListener = (_event, searchId, results) =>
+        callback(searchId as string, results as ContentSearchFileResult[]);
+      ipcRenderer.on(channel, listener);
+      return () => ipcRenderer.removeListener(channel, listener);
+    },
+    onContentSearchDone: (callback: (searchId: string, summary: ContentSearchSummary) => void) => {
+      const channel = 'file:search-content-done';
+      const listener: IpcListener = (_event, searchId, summary) =>
+        callback(searchId as string, summary as ContentSearchSummary);
+      ipcRenderer.on(channel, listener);
+      return () => ipcRenderer.removeListener(channel, listener);
+    },
+    searchSymbols: (request: SymbolSearchRequest) =>
+      ipcRenderer.invoke('file:search-symbols', request),
     // Get file path from File object (for drag and drop in Electron 29+)
     getPathForFile: (file: File) => webUtils.getPathForFile(file),
   },
@@ -157,6 +185,29 @@ const electronAPI = {
     import: (filePath?: string) => ipcRenderer.invoke('store:import', filePath),
   },
 
+  // Usage monitoring methods
+  monitoring: {
+    getAnalytics: (period: 'day' | 'week' | 'month') =>
+      ipcRenderer.invoke('monitoring:getAnalytics', period),
+    exportUsage: (period: 'day' | 'week' | 'month', format: 'csv' | 'json') =>
+      ipcRenderer.invoke('monitoring:exportUsage', period, format),
+    listTraceFiles: () => ipcRenderer.invoke('monitoring:listTraceFiles'),
+    readTraceFile: (filePath: string) => ipcRenderer.invoke('monitoring:readTraceFile', filePath),
+    openTraceFile: () => ipcRenderer.invoke('monitoring:openTraceFile'),
+    listFetchTraces: () => ipcRenderer.invoke('monitoring:listFetchTraces'),
+    readFetchTrace: (filePath: string) => ipcRenderer.invoke('monitoring:readFetchTrace', filePath),
+    exportHar: (filePath: string, correlationIds?: string[]) =>
+      ipcRenderer.invoke('monitoring:exportHar', filePath, correlationIds),
+    getFetchCacheSummary: () => ipcRenderer.invoke('monitoring:getFetchCacheSummary'),
+    listFetchCacheEntries: (query?: { search?: string; limit?: number; offset?: number }) =>
+      ipcRenderer.invoke('monitoring:listFetchCacheEntries', query),
+    deleteFetchCacheEntry: (key: string) =>
+      ipcRenderer.invoke('monitoring:deleteFetchCacheEntry', key),
+    pinFetchCacheEntry: (key: string, pinned: boolean) =>
+      ipcRenderer.invoke('monitoring:pinFetchCacheEntry', key, pinned),
+    clearFetchCache: () => ipcRenderer.invoke('monitoring:clearFetchCache'),
+  },
+
   // Agent methods
   agents: {
     loadAll: () => ipcRenderer.invoke('agents:loadAll'),
@@ -170,6 +221,32 @@ const electronAPI = {
       ipcRenderer.invoke('agents:updateAdditionalDirectories', worktreeId, agentId, directories),
     getAdditionalDirectories: (worktreeId: string, agentId: string) =>
       ipcRenderer.invoke('agents:getAdditionalDirectories', worktreeId, agentId),
+    branchSession: (request: {
+      sourceAgentId: string;
+      targetAgentId: string;
+      messageId: string;
+      content?: string;
+      ordinal?: number;
+      restoreFiles?: boolean;
+    }) => ipcRenderer.invoke('agents:branchSession', request),
+    listCheckpoints: (worktreeId: string) =>
+      ipcRenderer.invoke('agents:listCheckpoints', worktreeId),
+    diffCheckpoint: (request: {
+      worktreeId: string;
+      agentId: string;
+      checkpointId: string;
+      against?: 'turn' | 'current';
+    }) => ipcRenderer.invoke('agents:diffCheckpoint', request),
+    undoCheckpoint: (request: { worktreeId: string; agentId: string; checkpointId: string }) =>
+      ipcRenderer.invoke('agents:undoCheckpoint', request),
+    runFanOut: (request: {
+      worktreeId: string;
+      agentId: string;
+      prompt: string;
+      model?: string;
+      permissionMode?: string;
+      testCommand?: string;
+    }) => ipcRenderer.invoke('agents:runFanOut', request),
   },
 
   // Session management
@@ -183,7 +260,8 @@ const electronAPI = {
       ipcRenderer.invoke('worktree:getCurrentDirectory', projectPath),
     create: (options: { githubRepo: string; branchName: string }) =>
       ipcRenderer.invoke('worktree:create', options),
-    delete: (folderName: string) => ipcRenderer.invoke('worktree:delete', folderName),
+    delete: (folderName: string, options?: { skipConfirmation?: boolean }) =>
+      ipcRenderer.invoke('worktree:delete', folderName, options),
     getAll: () => ipcRenderer.invoke('worktree:getAll'),
     getRepoUrls: () => ipcRenderer.invoke('worktree:getRepoUrls'),
     getVimMode: () => ipcRenderer.invoke('worktree:getVimMode'),
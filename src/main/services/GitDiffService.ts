@@ -41,6 +41,20 @@ export interface DiffHunk {
   hasConflicts: boolean;
 }
 
+export interface LineSelection {
+  lineNumber: number;
+  type: 'add' | 'del';
+}
+
+export interface CommitOptions {
+  amend?: boolean;
+}
+
+export interface CommitResult {
+  commit: string;
+  branch: string;
+}
+
 export interface FileDiff {
   from: string;
   to: string;
@@ -53,6 +67,75 @@ export interface FileDiff {
   hasConflicts: boolean;
 }
 
+/**
+ * Build a patch that applies only part of a hunk to the index.
+ *
+ * `forward` patches come from the unstaged diff (index -> worktree) and are applied with
+ * `git apply --cached`. `reverse` patches come from the staged diff (HEAD -> index) and are
+ * applied with `git apply --cached --reverse`. Unselected lines are either dropped or turned
+ * into context so the patch still matches the side git checks it against; hunk line counts
+ * are left to `git apply --recount`.
+ *
+ * @param filePath - Relative path from repository root
+ * @param hunk - Parsed diff hunk object
+ * @param selection - Lines to include, or null to include every change in the hunk
+ * @param direction - Whether the patch is applied forward (stage) or reversed (unstage)
+ */
+export function buildPartialHunkPatch(
+  filePath: string,
+  hunk: DiffHunk,
+  selection: LineSelection[] | null,
+  direction: 'forward' | 'reverse'
+): string {
+  const selected = selection ? new Set(selection.map((l) => `${l.lineNumber}-${l.type}`)) : null;
+  const body: string[] = [];
+  let lastLineKept = false;
+
+  for (const change of hunk.changes) {
+    // Git metadata such as "\ No newline at end of file" belongs to the previous line
+    if (change.content.startsWith('\\')) {
+      if (lastLineKept) {
+        body.push(change.content);
+      }
+      continue;
+    }
+
+    if (change.type === 'normal') {
+      body.push(' ' + change.content);
+      lastLineKept = true;
+      continue;
+    }
+
+    const isSelected = !selected || selected.has(`${change.lineNumber}-${change.type}`);
+    if (isSelected) {
+      body.push((change.type === 'add' ? '+' : '-') + change.content);
+      lastLineKept = true;
+    } else if (
+      (direction === 'forward' && change.type === 'del') ||
+      (direction === 'reverse' && change.type === 'add')
+    ) {
+      // The line exists on the side the patch is checked against, so keep it as context
+      body.push(' ' + change.content);
+      lastLineKept = true;
+    } else {
+      lastLineKept = false;
+    }
+  }
+
+  const oldLines = body.filter((l) => l.startsWith(' ') || l.startsWith('-')).length;
+  const newLines = body.filter((l) => l.startsWith(' ') || l.startsWith('+')).length;
+
+  return (
+    [
+      `diff --git a/${filePath} b/${filePath}`,
+      `--- a/${filePath}`,
+      `+++ b/${filePath}`,
+      `@@ -${hunk.oldStart},${oldLines} +${hunk.newStart},${newLines} @@`,
+      ...body,
+    ].join('\n') + '\n'
+  );
+}
+
 export class GitDiffService {
   private git: SimpleGit;
   private repoPath: string;
@@ -685,6 +768,270 @@ export class GitDiffService {
     }
   }
 
+  /**
+   * Get diff for unstaged changes (working directory vs index)
+   * Untracked files are shown in full, the same way as getUncommittedDiff
+   */
+  async getUnstagedDiff(filePath?: string): Promise<FileDiff[]> {
+    try {
+      if (filePath) {
+        const status = await this.git.status();
+        if (status.not_added.includes(filePath)) {
+          return this.getUncommittedDiff(filePath);
+        }
+      }
+
+      const args = ['--unified=3', '--no-color', '--no-ext-diff', '--no-prefix'];
+
+      if (filePath) {
+        args.push('--', filePath);
+      }
+
+      const diffOutput = await this.git.diff(args);
+
+      if (!diffOutput) {
+        return [];
+      }
+
+      const parsedFiles = parseDiff(diffOutput);
+      return this.processFiles(parsedFiles);
+    } catch (error) {
+      logger.error('Failed to get unstaged diff:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stage all changes in a file (including untracked and deleted files)
+   * @param filePath - Relative path from repository root
+   */
+  async stageFile(filePath: string): Promise<void> {
+    try {
+      await this.git.raw(['add', '--all', '--', filePath]);
+      logger.info(`Staged file: ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to stage file ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all changes in a file from the index, keeping the working copy
+   * @param filePath - Relative path from repository root
+   */
+  async unstageFile(filePath: string): Promise<void> {
+    try {
+      await this.git.raw(['restore', '--staged', '--', filePath]);
+      logger.info(`Unstaged file: ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to unstage file ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stage a single hunk of the unstaged diff
+   * @param filePath - Relative path from repository root
+   * @param hunk - Hunk from the unstaged diff (index -> worktree)
+   * @throws Error if the hunk is no longer part of the unstaged diff
+   */
+  async stageHunk(filePath: string, hunk: DiffHunk): Promise<void> {
+    await this.applyToIndex(filePath, hunk, 'forward');
+    logger.info(`[stageHunk] Staged hunk in ${filePath}`, { oldStart: hunk.oldStart });
+  }
+
+  /**
+   * Unstage a single hunk of the staged diff
+   * @param filePath - Relative path from repository root
+   * @param hunk - Hunk from the staged diff (HEAD -> index)
+   * @throws Error if the hunk is no longer part of the staged diff
+   */
+  async unstageHunk(filePath: string, hunk: DiffHunk): Promise<void> {
+    await this.applyToIndex(filePath, hunk, 'reverse');
+    logger.info(`[unstageHunk] Unstaged hunk in ${filePath}`, { oldStart: hunk.oldStart });
+  }
+
+  /**
+   * Stage specific lines of the unstaged diff
+   * @param filePath - Relative path from repository root
+   * @param lines - Line numbers and types to stage, as used by discardLineChanges
+   */
+  async stageLines(filePath: string, lines: LineSelection[]): Promise<void> {
+    await this.applyLinesToIndex(filePath, lines, 'forward');
+    logger.info(`[stageLines] Staged ${lines.length} lines in ${filePath}`);
+  }
+
+  /**
+   * Unstage specific lines of the staged diff
+   * @param filePath - Relative path from repository root
+   * @param lines - Line numbers and types to unstage
+   */
+  async unstageLines(filePath: string, lines: LineSelection[]): Promise<void> {
+    await this.applyLinesToIndex(filePath, lines, 'reverse');
+    logger.info(`[unstageLines] Unstaged ${lines.length} lines in ${filePath}`);
+  }
+
+  /**
+   * Commit the staged changes
+   * @param message - Commit message
+   * @param options - Commit options (amend the previous commit)
+   * @throws Error if the message is empty or git commit fails
+   */
+  async commit(message: string, options: CommitOptions = {}): Promise<CommitResult> {
+    try {
+      if (!message.trim()) {
+        throw new Error('Commit message cannot be empty');
+      }
+
+      const result = await this.git.commit(
+        message,
+        undefined,
+        options.amend ? { '--amend': null } : undefined
+      );
+
+      if (!result.commit) {
+        throw new Error('Nothing to commit. Stage some changes first.');
+      }
+
+      logger.info(`Created commit ${result.commit} on ${result.branch}`, {
+        amend: Boolean(options.amend),
+      });
+
+      return { commit: result.commit, branch: result.branch };
+    } catch (error) {
+      logger.error('Failed to commit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the full message of the HEAD commit (used to prefill amend)
+   * @returns Commit message, or an empty string if the repository has no commits
+   */
+  async getLastCommitMessage(): Promise<string> {
+    try {
+      const message = await this.git.raw(['log', '-1', '--format=%B']);
+      return message.trim();
+    } catch (error) {
+      logger.debug('[GitDiffService] No previous commit message available', error);
+      return '';
+    }
+  }
+
+  /**
+   * Find the selected lines in the current diff and apply them to the index
+   * @private
+   */
+  private async applyLinesToIndex(
+    filePath: string,
+    lines: LineSelection[],
+    direction: 'forward' | 'reverse'
+  ): Promise<void> {
+    const fileDiff = await this.getIndexDiff(filePath, direction);
+    const selected = new Set(lines.map((l) => `${l.lineNumber}-${l.type}`));
+
+    const hunks = fileDiff.hunks.filter((h) =>
+      h.changes.some((c) => c.type !== 'normal' && selected.has(`${c.lineNumber}-${c.type}`))
+    );
+
+    if (hunks.length === 0) {
+      throw new Error('Selected lines are no longer part of the diff. Refresh and try again.');
+    }
+
+    // Apply one hunk at a time so line numbers stay valid for each patch
+    for (const hunk of hunks) {
+      this.applyPatchToIndex(buildPartialHunkPatch(filePath, hunk, lines, direction), direction);
+    }
+  }
+
+  /**
+   * Apply a whole hunk, after checking it still matches the current diff
+   * @private
+   */
+  private async applyToIndex(
+    filePath: string,
+    hunk: DiffHunk,
+    direction: 'forward' | 'reverse'
+  ): Promise<void> {
+    try {
+      const fileDiff = await this.getIndexDiff(filePath, direction);
+      const current = fileDiff.hunks.find(
+        (h) => h.oldStart === hunk.oldStart && h.newStart === hunk.newStart
+      );
+
+      if (!current) {
+        throw new Error('Hunk is no longer part of the diff. Refresh and try again.');
+      }
+
+      this.applyPatchToIndex(buildPartialHunkPatch(filePath, current, null, direction), direction);
+    } catch (error) {
+      logger.error(`[applyToIndex] Failed to update index for ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the diff a staging operation works against: unstaged for staging, staged for unstaging
+   * @private
+   */
+  private async getIndexDiff(
+    filePath: string,
+    direction: 'forward' | 'reverse'
+  ): Promise<FileDiff> {
+    if (direction === 'forward') {
+      const trackedFiles = await this.git.raw(['ls-files', filePath]);
+      if (trackedFiles.trim().length === 0) {
+        throw new Error(
+          `Cannot stage part of untracked file "${filePath}". Please stage the entire file instead.`
+        );
+      }
+    }
+
+    const diffs =
+      direction === 'forward'
+        ? await this.getUnstagedDiff(filePath)
+        : await this.getStagedDiff(filePath);
+
+    if (diffs.length === 0) {
+      throw new Error('No changes found for file');
+    }
+
+    if (direction === 'reverse' && diffs[0].isNew) {
+      throw new Error(
+        `Cannot unstage part of new file "${filePath}". Please unstage the entire file instead.`
+      );
+    }
+
+    return diffs[0];
+  }
+
+  /**
+   * Run git apply against the index
+   * @private
+   */
+  private applyPatchToIndex(patch: string, direction: 'forward' | 'reverse'): void {
+    const args = ['apply', '--cached', '--recount', '--whitespace=nowarn'];
+    if (direction === 'reverse') {
+      args.push('--reverse');
+    }
+
+    const result = spawnSync('git', args, {
+      cwd: this.repoPath,
+      input: patch,
+      encoding: 'utf-8',
+    });
+
+    if (result.error || result.status !== 0) {
+      const errorMessage = result.stderr || result.error?.message || 'Unknown error';
+      logger.error('[applyPatchToIndex] git apply failed:', {
+        status: result.status,
+        stderr: result.stderr,
+        patch,
+      });
+      throw new Error(`Failed to update index: ${errorMessage}`);
+    }
+  }
+
   /**
    * Generate unified diff patch for a hunk
    * @private
@@ -0,0 +1,123 @@
+/**
+ * Helpers for rewinding or forking a Claude session at a user message.
+ * Operate on raw JSONL entries as written to ~/.claude/projects.
+ */
+
+export interface SessionEntry {
+  type?: string;
+  uuid?: string;
+  timestamp?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  message?: { role?: string; content?: unknown };
+  [key: string]: unknown;
+}
+
+/**
+ * Identifies the user message to branch at. Messages loaded from disk carry
+ * the JSONL uuid as their id; messages sent in the current app session do
+ * not, so they are matched by text and occurrence instead.
+ */
+export interface BranchTarget {
+  messageId: string;
+  content?: string;
+  ordinal?: number; // Index among earlier user messages with the same content
+}
+
+export interface BranchPoint {
+  cutIndex: number;
+  cutAtMessageId: string;
+  resumeAt?: string;
+  timestamp?: string;
+}
+
+/**
+ * Get the prompt text of a user entry, or null if the entry is not a user
+ * prompt (assistant output, tool results, sidechains, meta entries)
+ */
+export function extractUserPromptText(entry: SessionEntry): string | null {
+  if (entry.type !== 'user' || entry.isSidechain === true || entry.isMeta === true) {
+    return null;
+  }
+
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return null;
+  }
+  if (content.some((block) => block?.type === 'tool_result')) {
+    return null;
+  }
+
+  const textParts = content
+    .filter((block) => block?.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text as string);
+  return textParts.length > 0 ? textParts.join('\n') : null;
+}
+
+/**
+ * Find where to cut a session so that the target user message and everything
+ * after it are dropped. `resumeAt` is the last main-chain assistant message
+ * before the cut, which is where the SDK can resume from.
+ */
+export function findBranchPoint(entries: SessionEntry[], target: BranchTarget): BranchPoint | null {
+  let cutIndex = entries.findIndex(
+    (entry) => entry.uuid === target.messageId && extractUserPromptText(entry) !== null
+  );
+
+  if (cutIndex === -1 && target.content !== undefined) {
+    const wanted = target.content.trim();
+    let seen = 0;
+    cutIndex = entries.findIndex((entry) => {
+      if (extractUserPromptText(entry)?.trim() !== wanted) {
+        return false;
+      }
+      return seen++ === (target.ordinal ?? 0);
+    });
+  }
+
+  if (cutIndex === -1) {
+    return null;
+  }
+
+  const cutEntry = entries[cutIndex];
+  const resumeEntry = entries
+    .slice(0, cutIndex)
+    .reverse()
+    .find((entry) => entry.type === 'assistant' && entry.isSidechain !== true && entry.uuid);
+
+  return {
+    cutIndex,
+    cutAtMessageId: cutEntry.uuid || target.messageId,
+    ...(resumeEntry?.uuid && { resumeAt: resumeEntry.uuid }),
+    ...(cutEntry.timestamp && { timestamp: cutEntry.timestamp }),
+  };
+}
+
+/**
+ * Drop the entry with the given uuid and everything after it.
+ * Entries are returned unchanged if the uuid is not found.
+ */
+export function truncateAtMessage(entries: SessionEntry[], messageId: string): SessionEntry[] {
+  const index = entries.findIndex((entry) => entry.uuid === messageId);
+  return index === -1 ? entries : entries.slice(0, index);
+}
+
+// Turn checkpoints are taken just before the SDK writes the user message
+const CHECKPOINT_TOLERANCE_MS = 5000;
+
+/**
+ * Pick the turn checkpoint taken when the message at `timestamp` was sent
+ * @param checkpoints - Checkpoints sorted oldest first
+ */
+export function findCheckpointAt<T extends { startedAt: string }>(
+  checkpoints: T[],
+  timestamp: string
+): T | undefined {
+  const limit = new Date(timestamp).getTime() + CHECKPOINT_TOLERANCE_MS;
+  return checkpoints
+    .filter((checkpoint) => new Date(checkpoint.startedAt).getTime() <= limit)
+    .pop();
+}
@@ -0,0 +1,85 @@
+import { generateSessionName } from '@/commons/utils/project/session_name_generator';
+import { MAX_TABS } from '@/constants/tabs';
+import { AgentStatus, AgentType } from '@/entities';
+import { FileDataStoreService } from '@/services/FileDataStoreService';
+import { GitService } from '@/services/GitService';
+import type { AgentConfig, WorktreeConfig } from '@/types/config.types';
+import log from 'electron-log';
+import { v4 as uuidv4 } from 'uuid';
+import { convertToFolderName } from './folderName';
+
+/**
+ * Worktree and agent setup for callers without a renderer (`autosteer run`, the control API).
+ * Mirrors the `worktree:create` and `agents:create` handlers so the GUI sees the same config.
+ */
+
+/**
+ * Return the worktree of a repository branch, creating it if it does not exist yet
+ * @throws Error when the git worktree cannot be created
+ */
+export async function ensureWorktree(
+  githubRepo: string,
+  branchName: string
+): Promise<WorktreeConfig> {
+  const fileDataStore = FileDataStoreService.getInstance();
+  await fileDataStore.ensureDirectories();
+
+  const existing = (await fileDataStore.getWorktrees()).find(
+    (worktree) => worktree.git_repo === githubRepo && worktree.branch_name === branchName
+  );
+  if (existing && (await fileDataStore.worktreeExists(existing.folder_name))) {
+    return existing;
+  }
+
+  const folderName = convertToFolderName(githubRepo, branchName);
+  const worktree: WorktreeConfig = {
+    git_repo: githubRepo,
+    branch_name: branchName,
+    folder_name: folderName,
+  };
+
+  if (!(await fileDataStore.worktreeExists(folderName))) {
+    log.info('[worktreeSetup] Creating worktree', { githubRepo, branchName, folderName });
+    const result = await GitService.getInstance().createWorktree({
+      repoUrl: githubRepo,
+      mainRepoPath: fileDataStore.getMainRepoPath(githubRepo),
+      worktreePath: fileDataStore.getWorktreePath(folderName),
+      branchName,
+    });
+    if (!result.success) {
+      throw new Error(`Failed to create worktree: ${result.error || result.message}`);
+    }
+  }
+
+  await fileDataStore.addWorktree(worktree);
+  return worktree;
+}
+
+/**
+ * Add a new agent (tab) to a worktree, named like the ones the GUI creates
+ * @throws Error when the worktree already has the maximum number of tabs
+ */
+export async function addWorktreeAgent(worktreeId: string, title?: string): Promise<AgentConfig> {
+  const fileDataStore = FileDataStoreService.getInstance();
+  const agents = await fileDataStore.getAgentsByProjectId(worktreeId);
+  if (agents.length >= MAX_TABS) {
+    throw new Error(`Maximum tab limit reached. Each worktree can have up to ${MAX_TABS} tabs.`);
+  }
+
+  const now = new Date().toISOString();
+  const agent: AgentConfig = {
+    id: uuidv4(),
+    title: title || generateSessionName(new Set(agents.map((candidate) => candidate.title))),
+    content: '',
+    preview: '',
+    type: AgentType.TEXT,
+    status: AgentStatus.DRAFT,
+    project_id: worktreeId,
+    created_at: now,
+    updated_at: now,
+    tags: [],
+    resource_ids: [],
+  };
+  await fileDataStore.addAgent(agent);
+  return agent;
+}
@@ -3,12 +3,7 @@ import { logger } from '@/commons/utils/logger';
 import { UserMonitor } from '../interfaces/UserMonitor';
 import { MonitoringConfig, UsageData } from '../interfaces/types';
 import { calculateCostForEntry } from '../utils/costCalculator';
-import {
-  getEarliestTimestamp,
-  globUsageFiles,
-  parseUsageFile,
-  sortFilesByTimestamp,
-} from '../utils/fileUtils';
+import { getModifiedTime, globUsageFiles, parseUsageFile } from '../utils/fileUtils';
 import { identifySessionBlocks } from '../utils/sessionIdentifier';
 
 /**
@@ -57,6 +52,14 @@ export class CCUsageMonitor implements UserMonitor {
     });
   }
 
+  /**
+   * Get all usage entries, oldest first
+   */
+  async getEntries(): Promise<LoadedUsageEntry[]> {
+    await this.loadNewEntries();
+    return this.entries;
+  }
+
   /**
    * Clear all cached data
    */
@@ -96,15 +99,13 @@ export class CCUsageMonitor implements UserMonitor {
       return;
     }
 
-    // Sort files by timestamp
-    const sortedFiles = await sortFilesByTimestamp(files);
-
-    // Process each file
-    for (const file of sortedFiles) {
-      const fileTimestamp = await getEarliestTimestamp(file);
+    // Process each file (entries are sorted below)
+    for (const file of files) {
+      // Check if file has been modified since last check; sessions append to their file,
+      // and already loaded entries are skipped by hash
+      const fileTimestamp = await getModifiedTime(file);
       if (!fileTimestamp) continue;
 
-      // Check if file has been modified since last check
       const lastTimestamp = this.fileTimestamps.get(file);
       if (lastTimestamp && fileTimestamp <= lastTimestamp) {
         continue; // Skip unchanged files
@@ -154,7 +155,10 @@ export class CCUsageMonitor implements UserMonitor {
       }
 
       // Calculate cost if needed
-      if (entry.costUSD === null && this.config.costMode !== 'display') {
+      if (
+        this.config.costMode === 'calculate' ||
+        (entry.costUSD === null && this.config.costMode !== 'display')
+      ) {
         entry.costUSD = calculateCostForEntry(entry);
       }
 
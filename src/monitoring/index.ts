@@ -1,6 +1,19 @@
 // Interfaces
 export { UserMonitor } from './interfaces/UserMonitor';
-export type { MonitoringConfig, UsageData, TokenCounts as ITokenCounts } from './interfaces/types';
+export type {
+  AnalyticsPeriod,
+  BurnRate,
+  MonitoringConfig,
+  UsageData,
+  TokenCounts as ITokenCounts,
+  ModelPricing,
+  PricingOverrides,
+  PricingTable,
+  UsageAnalytics,
+  UsageBucket,
+  UsageDimension,
+  UsageTotals,
+} from './interfaces/types';
 
 // Entities
 export { LoadedUsageEntry, SessionBlock, TokenCounts } from '@/entities';
@@ -9,4 +22,18 @@ export { LoadedUsageEntry, SessionBlock, TokenCounts } from '@/entities';
 export { CCUsageMonitor } from './adapters/CCUsageMonitor';
 
 // Utilities
-export { formatCostUSD, getModelPricing } from './utils/costCalculator';
+export {
+  calculateCost,
+  calculateResultCost,
+  DEFAULT_PRICING_TABLE,
+  formatCostUSD,
+  getModelPricing,
+  getPricingTable,
+  setPricingTable,
+} from './utils/costCalculator';
+export {
+  buildUsageAnalytics,
+  calculateBurnRate,
+  getPeriodStart,
+  usageAnalyticsToCSV,
+} from './utils/usageAnalytics';
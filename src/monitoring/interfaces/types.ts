@@ -6,6 +6,7 @@ export interface TokenCounts {
   outputTokens: number;
   cacheCreationInputTokens: number;
   cacheReadInputTokens: number;
+  cacheCreation1hInputTokens?: number;
 }
 
 /**
@@ -20,6 +21,10 @@ export interface UsageData {
       output_tokens: number;
       cache_creation_input_tokens?: number;
       cache_read_input_tokens?: number;
+      cache_creation?: {
+        ephemeral_5m_input_tokens?: number;
+        ephemeral_1h_input_tokens?: number;
+      };
     };
     model?: string;
     id?: string;
@@ -66,3 +71,134 @@ export interface MonitoringConfig {
    */
   debug?: boolean;
 }
+
+/**
+ * Multipliers applied to a model's input price for prompt caching
+ */
+export interface CacheMultipliers {
+  /** Cache writes with the default 5 minute TTL */
+  write5m: number;
+  /** Cache writes with the 1 hour TTL */
+  write1h: number;
+  /** Cache hits and refreshes */
+  read: number;
+}
+
+/**
+ * Premium rates for requests over a model's long-context threshold
+ */
+export interface LongContextPricing {
+  /** Applies when input + cache write + cache read tokens of one request exceed this */
+  thresholdTokens: number;
+  /** Multiplier on the input price (and the cache prices derived from it) */
+  inputMultiplier: number;
+  /** Multiplier on the output price */
+  outputMultiplier: number;
+}
+
+/**
+ * Rates for one model, in USD per 1M tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Overrides the table's cache multipliers for this model */
+  cacheMultipliers?: Partial<CacheMultipliers>;
+  longContext?: LongContextPricing;
+}
+
+/**
+ * Pricing table used for every cost shown in the app
+ *
+ * Model keys match either a full model id or a prefix of one
+ * (`claude-sonnet-4-5` matches `claude-sonnet-4-5-20250929`); the longest key wins.
+ */
+export interface PricingTable {
+  /** Schema version of the table */
+  version: number;
+  /** Date the rates were last checked against the published price list */
+  updatedAt: string;
+  cacheMultipliers: CacheMultipliers;
+  models: Record<string, ModelPricing>;
+  /** Rates for models no key matches */
+  fallback: ModelPricing;
+  /** Fixed number of decimals for displayed costs; by default precision grows for small amounts */
+  displayDecimals?: number;
+}
+
+/**
+ * Contents of ~/.autosteer/pricing.json, merged over the built-in table
+ */
+export interface PricingOverrides {
+  version: number;
+  updatedAt?: string;
+  cacheMultipliers?: Partial<CacheMultipliers>;
+  /** Per-model overrides; unknown keys add new models */
+  models?: Record<string, Partial<ModelPricing>>;
+  fallback?: Partial<ModelPricing>;
+  displayDecimals?: number;
+}
+
+/**
+ * Length of the buckets usage analytics are grouped in
+ */
+export type AnalyticsPeriod = 'day' | 'week' | 'month';
+
+/**
+ * What usage analytics can be split by
+ */
+export type UsageDimension = 'model' | 'worktree' | 'agent';
+
+/**
+ * Summed usage of a group of requests
+ */
+export interface UsageTotals {
+  requests: number;
+  costUSD: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  totalTokens: number;
+  /** Share of prompt tokens served from the cache, 0 when there were none */
+  cacheHitRatio: number;
+}
+
+/**
+ * Usage of one day, week or month, split by every dimension
+ */
+export interface UsageBucket {
+  /** Local date the bucket starts on, as YYYY-MM-DD */
+  start: string;
+  totals: UsageTotals;
+  breakdown: Record<UsageDimension, Record<string, UsageTotals>>;
+}
+
+/**
+ * Spend rate of the current session block and where it ends up at that rate
+ */
+export interface BurnRate {
+  blockStart: string;
+  blockEnd: string;
+  costUSD: number;
+  totalTokens: number;
+  costPerHour: number;
+  tokensPerMinute: number;
+  projectedCostUSD: number;
+  projectedTokens: number;
+}
+
+/**
+ * Usage analytics over the Claude Code usage logs
+ * Plain data, so it can be sent over IPC and exported as is
+ */
+export interface UsageAnalytics {
+  period: AnalyticsPeriod;
+  generatedAt: string;
+  /** Buckets with usage, oldest first */
+  buckets: UsageBucket[];
+  totals: UsageTotals;
+  breakdown: Record<UsageDimension, Record<string, UsageTotals>>;
+  /** Null when no session block is active */
+  burnRate: BurnRate | null;
+}
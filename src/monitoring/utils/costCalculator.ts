@@ -1,52 +1,260 @@
 import { LoadedUsageEntry } from '@/entities';
+import {
+  CacheMultipliers,
+  ModelPricing,
+  PricingOverrides,
+  PricingTable,
+} from '../interfaces/types';
 
 /**
- * Pricing data for different models
+ * Schema version of PricingTable; pricing.json files with another version are ignored
+ */
+export const PRICING_TABLE_VERSION = 1;
+
+const SONNET_LONG_CONTEXT = { thresholdTokens: 200_000, inputMultiplier: 2, outputMultiplier: 1.5 };
+
+/**
+ * Built-in pricing, from the published Anthropic price list
  * Prices are per 1M tokens
  */
-const PRICING_DATA: Record<string, { input: number; output: number }> = {
-  'claude-3-5-sonnet-20241022': { input: 3.0, output: 15.0 },
-  'claude-3-5-sonnet-20240620': { input: 3.0, output: 15.0 },
-  'claude-3-opus-20240229': { input: 15.0, output: 75.0 },
-  'claude-3-sonnet-20240229': { input: 3.0, output: 15.0 },
-  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-  'claude-3-5-haiku-20241022': { input: 1.0, output: 5.0 },
-  // Claude 4 models
-  'claude-opus-4-20250514': { input: 15.0, output: 75.0 },
-  'claude-opus-4-1-20250805': { input: 15.0, output: 75.0 },
-  'claude-opus-4-5-20251101': { input: 5.0, output: 25.0 },
-  'claude-sonnet-4-20250514': { input: 3.0, output: 15.0 },
-  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
-  'claude-haiku-4-5-20251001': { input: 1.0, output: 5.0 },
-  // Default fallback
-  default: { input: 3.0, output: 15.0 },
+export const DEFAULT_PRICING_TABLE: PricingTable = {
+  version: PRICING_TABLE_VERSION,
+  updatedAt: '2025-11-24',
+  cacheMultipliers: { write5m: 1.25, write1h: 2, read: 0.1 },
+  models: {
+    'claude-3-haiku': {
+      input: 0.25,
+      output: 1.25,
+      cacheMultipliers: { write5m: 1.2, write1h: 2, read: 0.12 },
+    },
+    'claude-3-sonnet': { input: 3.0, output: 15.0 },
+    'claude-3-opus': { input: 15.0, output: 75.0 },
+    'claude-3-5-haiku': { input: 0.8, output: 4.0 },
+    'claude-3-5-sonnet': { input: 3.0, output: 15.0 },
+    'claude-3-7-sonnet': { input: 3.0, output: 15.0 },
+    // Claude 4 models
+    'claude-opus-4': { input: 15.0, output: 75.0 },
+    'claude-opus-4-1': { input: 15.0, output: 75.0 },
+    'claude-opus-4-5': { input: 5.0, output: 25.0 },
+    'claude-sonnet-4': { input: 3.0, output: 15.0, longContext: SONNET_LONG_CONTEXT },
+    'claude-sonnet-4-5': { input: 3.0, output: 15.0, longContext: SONNET_LONG_CONTEXT },
+    'claude-haiku-4-5': { input: 1.0, output: 5.0 },
+  },
+  fallback: { input: 3.0, output: 15.0 },
 };
 
+let activeTable: PricingTable = DEFAULT_PRICING_TABLE;
+
+/**
+ * Replace the table used by default in this process
+ * The main process loads it from ~/.autosteer/pricing.json; the renderer receives it over IPC
+ */
+export function setPricingTable(table: PricingTable): void {
+  activeTable = table;
+}
+
+export function getPricingTable(): PricingTable {
+  return activeTable;
+}
+
+/**
+ * Merge the contents of a pricing.json file over a base table
+ * @throws Error when the file's version does not match PRICING_TABLE_VERSION
+ */
+export function mergePricingOverrides(
+  overrides: PricingOverrides,
+  base: PricingTable = DEFAULT_PRICING_TABLE
+): PricingTable {
+  if (overrides.version !== PRICING_TABLE_VERSION) {
+    throw new Error(
+      `Unsupported pricing table version ${overrides.version} (expected ${PRICING_TABLE_VERSION})`
+    );
+  }
+
+  const models = { ...base.models };
+  for (const [key, override] of Object.entries(overrides.models ?? {})) {
+    const merged = { ...base.fallback, ...models[key], ...override };
+    if (!isValidRate(merged.input) || !isValidRate(merged.output)) {
+      throw new Error(`Invalid rates for model "${key}"`);
+    }
+    models[key] = merged;
+  }
+
+  const displayDecimals = overrides.displayDecimals ?? base.displayDecimals;
+  return {
+    version: PRICING_TABLE_VERSION,
+    updatedAt: overrides.updatedAt ?? base.updatedAt,
+    cacheMultipliers: { ...base.cacheMultipliers, ...overrides.cacheMultipliers },
+    models,
+    fallback: { ...base.fallback, ...overrides.fallback },
+    ...(displayDecimals !== undefined && { displayDecimals }),
+  };
+}
+
+function isValidRate(rate: unknown): boolean {
+  return typeof rate === 'number' && Number.isFinite(rate) && rate >= 0;
+}
+
+/**
+ * Get pricing info for a model
+ * Matches the longest table key that is the model id or a prefix of it; provider prefixes
+ * such as `us.anthropic.` are ignored.
+ */
+export function getModelPricing(model: string, table: PricingTable = activeTable): ModelPricing {
+  const start = model.indexOf('claude-');
+  const id = start > 0 ? model.slice(start) : model;
+
+  let match: string | undefined;
+  for (const key of Object.keys(table.models)) {
+    if ((id === key || id.startsWith(`${key}-`)) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? table.models[match] : table.fallback;
+}
+
+/**
+ * Token counts of one request, or of several when pricing aggregates
+ */
+export interface CostUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** All cache writes, including the 1 hour ones */
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+  /** Part of cacheCreationInputTokens written with the 1 hour TTL */
+  cacheCreation1hInputTokens?: number;
+}
+
+function priceUsage(
+  usage: CostUsage,
+  pricing: ModelPricing,
+  multipliers: CacheMultipliers,
+  longContext: boolean
+): number {
+  const cacheMultipliers = { ...multipliers, ...pricing.cacheMultipliers };
+  const inputPrice = pricing.input * (longContext ? pricing.longContext!.inputMultiplier : 1);
+  const outputPrice = pricing.output * (longContext ? pricing.longContext!.outputMultiplier : 1);
+
+  const cacheWrites = usage.cacheCreationInputTokens || 0;
+  const cacheWrites1h = Math.min(usage.cacheCreation1hInputTokens || 0, cacheWrites);
+
+  const totalCost =
+    (usage.inputTokens * inputPrice +
+      usage.outputTokens * outputPrice +
+      (cacheWrites - cacheWrites1h) * inputPrice * cacheMultipliers.write5m +
+      cacheWrites1h * inputPrice * cacheMultipliers.write1h +
+      (usage.cacheReadInputTokens || 0) * inputPrice * cacheMultipliers.read) /
+    1_000_000;
+
+  // Round to reasonable precision (6 decimal places)
+  return Math.round(totalCost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Calculate the cost of a single request
+ * Applies the model's long-context rates when the request's prompt exceeds the threshold.
+ */
+export function calculateCost(
+  usage: CostUsage,
+  model: string,
+  table: PricingTable = activeTable
+): number {
+  const pricing = getModelPricing(model, table);
+  const promptTokens =
+    usage.inputTokens + (usage.cacheCreationInputTokens || 0) + (usage.cacheReadInputTokens || 0);
+  const longContext =
+    pricing.longContext !== undefined && promptTokens > pricing.longContext.thresholdTokens;
+
+  return priceUsage(usage, pricing, table.cacheMultipliers, longContext);
+}
+
 /**
  * Calculate cost for a usage entry based on token counts
  */
 export function calculateCostForEntry(entry: LoadedUsageEntry): number {
-  const pricing = PRICING_DATA[entry.model] || PRICING_DATA.default;
+  return calculateCost(entry.usage, entry.model);
+}
 
-  // Calculate costs per component
-  const inputCost = (entry.usage.inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (entry.usage.outputTokens / 1_000_000) * pricing.output;
+/**
+ * Usage fields of an SDK result message
+ */
+export interface ResultUsage {
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation?: { ephemeral_1h_input_tokens?: number } | null;
+  };
+  modelUsage?: Record<
+    string,
+    {
+      inputTokens: number;
+      outputTokens: number;
+      cacheCreationInputTokens: number;
+      cacheReadInputTokens: number;
+    }
+  >;
+}
 
-  // Cache tokens use the same pricing as input tokens
-  const cacheCreationCost = (entry.usage.cacheCreationInputTokens / 1_000_000) * pricing.input;
-  const cacheReadCost = (entry.usage.cacheReadInputTokens / 1_000_000) * pricing.input;
+/**
+ * Calculate the cost of a whole query from its SDK result message
+ *
+ * Results only carry totals, so per-request long-context rates cannot be applied and the
+ * 1 hour share of cache writes is spread evenly across models.
+ *
+ * @param model - Model to price `usage` with when the result has no per-model breakdown
+ */
+export function calculateResultCost(
+  result: ResultUsage,
+  model: string,
+  table: PricingTable = activeTable
+): number {
+  const usage = result.usage ?? {};
+  const cacheWrites = usage.cache_creation_input_tokens || 0;
+  const share1h =
+    cacheWrites > 0 ? (usage.cache_creation?.ephemeral_1h_input_tokens || 0) / cacheWrites : 0;
 
-  // Total cost
-  const totalCost = inputCost + outputCost + cacheCreationCost + cacheReadCost;
+  const perModel: Array<[string, CostUsage]> =
+    result.modelUsage && Object.keys(result.modelUsage).length > 0
+      ? Object.entries(result.modelUsage)
+      : [
+          [
+            model,
+            {
+              inputTokens: usage.input_tokens || 0,
+              outputTokens: usage.output_tokens || 0,
+              cacheCreationInputTokens: cacheWrites,
+              cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+            },
+          ],
+        ];
 
-  // Round to reasonable precision (6 decimal places)
+  const totalCost = perModel.reduce(
+    (sum, [modelId, counts]) =>
+      sum +
+      priceUsage(
+        {
+          ...counts,
+          cacheCreation1hInputTokens: Math.round((counts.cacheCreationInputTokens || 0) * share1h),
+        },
+        getModelPricing(modelId, table),
+        table.cacheMultipliers,
+        false
+      ),
+    0
+  );
   return Math.round(totalCost * 1_000_000) / 1_000_000;
 }
 
 /**
  * Format cost as USD string
  */
-export function formatCostUSD(cost: number): string {
+export function formatCostUSD(cost: number, table: PricingTable = activeTable): string {
+  if (table.displayDecimals !== undefined) {
+    return `$${cost.toFixed(table.displayDecimals)}`;
+  }
   if (cost < 0.01) {
     return `$${cost.toFixed(6)}`;
   } else if (cost < 1) {
@@ -55,10 +263,3 @@ export function formatCostUSD(cost: number): string {
     return `$${cost.toFixed(2)}`;
   }
 }
-
-/**
- * Get pricing info for a model
- */
-export function getModelPricing(model: string): { input: number; output: number } {
-  return PRICING_DATA[model] || PRICING_DATA.default;
-}
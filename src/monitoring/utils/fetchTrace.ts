@@ -0,0 +1,244 @@
+import type { FetchTraceEntry } from '@/types/fetch-trace.types';
+
+export const FETCH_TRACE_SUFFIX = '-fetch-trace.log';
+
+// Headers never shown or exported, even from logs written before the tracer redacted them
+const SENSITIVE_HEADERS = [
+  'x-api-key',
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+];
+const REDACTED = '[REDACTED]';
+
+// Every log record starts with "[<ISO timestamp>] [<LEVEL>] "; FETCH records span several lines
+const RECORD_HEADER = /^\[(\d{4}-\d{2}-\d{2}T[\d:.]+Z)\] \[([A-Z-]+)\] (.*)$/;
+const CACHE_LINE = /^\[fetch-tracer\] Cache (HIT|MISS) (\[.*\])$/;
+const LAUNCH_TIMESTAMP = /-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  comment?: string;
+}
+
+/**
+ * Name shown for a log file: {worktreeId}-{sessionId} without the launch timestamp
+ */
+export const getFetchTraceLogName = (fileName: string): string =>
+  fileName.slice(0, -FETCH_TRACE_SUFFIX.length).replace(LAUNCH_TIMESTAMP, '');
+
+export const redactHeaders = (headers: unknown): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return result;
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : String(value);
+  }
+  return result;
+};
+
+const bodyText = (body: unknown): string | undefined => {
+  if (body === null || body === undefined) {
+    return undefined;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+};
+
+const byteLength = (body: unknown): number => {
+  const text = bodyText(body);
+  return text === undefined ? 0 : Buffer.byteLength(text);
+};
+
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const toEntry = (record: any, fallbackTime: string): FetchTraceEntry => ({
+  correlationId: String(record.correlationId ?? ''),
+  startedAt: record.request?.time ?? fallbackTime,
+  method: record.method ?? 'GET',
+  url: record.url ?? '',
+  ...(typeof record.response?.status === 'number' && { status: record.response.status }),
+  durationMs: typeof record.duration === 'number' ? record.duration : 0,
+  requestHeaders: redactHeaders(record.request?.headers),
+  responseHeaders: redactHeaders(record.response?.headers),
+  requestBody: record.request?.body ?? null,
+  responseBody: record.response?.body ?? null,
+  requestSize: byteLength(record.request?.body),
+  // The tracer only knows the size when the server sent Content-Length or the body was streamed
+  responseSize: record.response?.size || byteLength(record.response?.body),
+  cache: 'none',
+  ...(record.error && { error: String(record.error) }),
+  ...(typeof record.pid === 'number' && { pid: record.pid }),
+  ...(record.source && { source: String(record.source) }),
+});
+
+/**
+ * Parse a fetch trace log into requests, in the order they were logged
+ *
+ * Completed and failed requests come from FETCH and FETCH-ERROR records. Cache hits never
+ * reach the network, so they are rebuilt from the "Cache HIT" line; "Cache MISS" lines mark
+ * the request they precede. Other log lines and unreadable records are skipped.
+ */
+export const parseFetchTraceLog = (content: string): FetchTraceEntry[] => {
+  const records: Array<{ time: string; level: string; text: string }> = [];
+  for (const line of content.split('\n')) {
+    const header = RECORD_HEADER.exec(line);
+    if (header) {
+      records.push({ time: header[1], level: header[2], text: header[3] });
+    } else if (records.length > 0) {
+      records[records.length - 1].text += `\n${line}`;
+    }
+  }
+
+  const entries: FetchTraceEntry[] = [];
+  const misses = new Set<string>();
+
+  for (const { time, level, text } of records) {
+    if (level === 'FETCH' || level === 'FETCH-ERROR') {
+      const record = parseJson(text);
+      if (record && typeof record === 'object') {
+        entries.push(toEntry(record, time));
+      }
+      continue;
+    }
+
+    const cacheLine = level === 'INFO' ? CACHE_LINE.exec(text) : null;
+    const details = cacheLine ? parseJson(cacheLine[2])?.[0] : undefined;
+    if (!details || !details.correlationId) {
+      continue;
+    }
+    if (cacheLine![1] === 'MISS') {
+      misses.add(String(details.correlationId));
+    } else {
+      entries.push({
+        ...toEntry({ ...details, response: { status: details.status } }, time),
+        cache: 'hit',
+      });
+    }
+  }
+
+  return entries.map((entry) =>
+    misses.has(entry.correlationId) ? { ...entry, cache: 'miss' } : entry
+  );
+};
+
+const toNameValues = (record: Record<string, string>): HarNameValue[] =>
+  Object.entries(record).map(([name, value]) => ({ name, value }));
+
+const getQueryString = (url: string): HarNameValue[] => {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+};
+
+const getMimeType = (headers: Record<string, string>, body: unknown): string => {
+  const contentType = Object.entries(headers).find(
+    ([name]) => name.toLowerCase() === 'content-type'
+  )?.[1];
+  if (contentType) {
+    return contentType;
+  }
+  return typeof body === 'string' ? 'text/plain' : 'application/json';
+};
+
+/**
+ * Convert requests to a HAR 1.2 log
+ * Headers stay redacted; failed requests get status 0 and the error in response._error.
+ */
+export const fetchTraceToHar = (entries: FetchTraceEntry[], creatorVersion: string): HarLog => ({
+  log: {
+    version: '1.2',
+    creator: { name: 'AutoSteer', version: creatorVersion },
+    entries: entries.map((entry): HarEntry => {
+      const requestText = bodyText(entry.requestBody);
+      const responseText = bodyText(entry.responseBody);
+      return {
+        startedDateTime: entry.startedAt,
+        time: entry.durationMs,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toNameValues(entry.requestHeaders),
+          queryString: getQueryString(entry.url),
+          ...(requestText !== undefined && {
+            postData: {
+              mimeType: getMimeType(entry.requestHeaders, entry.requestBody),
+              text: requestText,
+            },
+          }),
+          headersSize: -1,
+          bodySize: entry.requestSize,
+        },
+        response: {
+          status: entry.status ?? 0,
+          statusText: '',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toNameValues(entry.responseHeaders),
+          content: {
+            size: entry.responseSize,
+            mimeType: getMimeType(entry.responseHeaders, entry.responseBody),
+            ...(responseText !== undefined && { text: responseText }),
+          },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: entry.responseSize,
+          ...(entry.error && { _error: entry.error }),
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.durationMs, receive: 0 },
+        ...(entry.cache === 'hit' && { comment: 'Served from the AutoSteer fetch cache' }),
+      };
+    }),
+  },
+});
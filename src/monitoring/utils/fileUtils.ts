@@ -65,6 +65,18 @@ export async function getEarliestTimestamp(filePath: string): Promise<Date | nul
   }
 }
 
+/**
+ * Get the last modification time of a file
+ */
+export async function getModifiedTime(filePath: string): Promise<Date | null> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    return stats.mtime;
+  } catch (error) {
+    return null;
+  }
+}
+
 /**
  * Parse a usage JSONL file and return all valid entries
  */
@@ -0,0 +1,189 @@
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+import { createHash } from 'crypto';
+
+// OTLP span kinds and status codes (opentelemetry-proto trace.proto)
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export type OtlpAttributeValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean };
+
+export interface OtlpAttribute {
+  key: string;
+  value: OtlpAttributeValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+/**
+ * Body of an OTLP/HTTP JSON export (ExportTraceServiceRequest)
+ */
+export interface OtlpExportRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{
+      scope: { name: string; version: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+type AttributeInput = string | number | boolean | undefined | null;
+
+const toAttributes = (values: Record<string, AttributeInput>): OtlpAttribute[] =>
+  Object.entries(values)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] != null)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === 'string'
+          ? { stringValue: value }
+          : typeof value === 'boolean'
+            ? { boolValue: value }
+            : Number.isInteger(value)
+              ? { intValue: String(value) }
+              : { doubleValue: value },
+    }));
+
+// Ids are derived from the turn's correlation id, so exporting a turn twice yields the same spans
+const hashId = (input: string, bytes: number): string =>
+  createHash('sha256')
+    .update(input)
+    .digest('hex')
+    .slice(0, bytes * 2);
+
+const toUnixNano = (timestamp: string): string => `${new Date(timestamp).getTime()}000000`;
+
+const contentBlocks = (message: any): any[] =>
+  Array.isArray(message?.message?.content) ? message.message.content : [];
+
+/**
+ * Spans for one user turn: the turn itself, with a child span per tool call
+ *
+ * The turn runs from the prompt to the last message of the query. Token usage and cost
+ * come from the result message; a tool span runs from its tool_use to the matching
+ * tool_result and is marked as an error when the result is, or when it never arrived.
+ *
+ * @param entries - Trace entries of one query, as written by TraceLogger
+ * @param error - Why the query ended early, if it did
+ */
+export const buildTurnSpans = (entries: TraceFileEntry[], error?: string): OtlpSpan[] => {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const correlationId = entries[0].correlationId;
+  const traceId = hashId(correlationId, 16);
+  const turnSpanId = hashId(`${correlationId}:turn`, 8);
+  const startTime = toUnixNano(entries[0].timestamp);
+  const endTime = toUnixNano(entries[entries.length - 1].timestamp);
+
+  const messages = entries.map((entry) => entry.rawMessage as any);
+  const init = messages.find((message) => message?.type === 'system' && message.subtype === 'init');
+  const result = messages.find((message) => message?.type === 'result');
+  const usage = result?.usage ?? {};
+
+  const toolSpans: OtlpSpan[] = [];
+  entries.forEach((entry, index) => {
+    for (const block of contentBlocks(entry.rawMessage)) {
+      if (block?.type !== 'tool_use' || !block.id) continue;
+
+      const resultIndex = entries.findIndex(
+        (candidate, candidateIndex) =>
+          candidateIndex > index &&
+          contentBlocks(candidate.rawMessage).some(
+            (resultBlock) =>
+              resultBlock?.type === 'tool_result' && resultBlock.tool_use_id === block.id
+          )
+      );
+      const toolResult =
+        resultIndex === -1
+          ? undefined
+          : contentBlocks(entries[resultIndex].rawMessage).find(
+              (resultBlock) => resultBlock?.tool_use_id === block.id
+            );
+      const isError = !toolResult || toolResult.is_error === true;
+
+      toolSpans.push({
+        traceId,
+        spanId: hashId(`${correlationId}:${block.id}`, 8),
+        parentSpanId: turnSpanId,
+        name: `execute_tool ${block.name}`,
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: toUnixNano(entry.timestamp),
+        endTimeUnixNano: resultIndex === -1 ? endTime : toUnixNano(entries[resultIndex].timestamp),
+        attributes: toAttributes({
+          'gen_ai.operation.name': 'execute_tool',
+          'gen_ai.tool.name': block.name,
+          'gen_ai.tool.call.id': block.id,
+        }),
+        status: isError
+          ? { code: STATUS_CODE_ERROR, message: toolResult ? 'Tool failed' : 'No tool result' }
+          : { code: STATUS_CODE_OK },
+      });
+    }
+  });
+
+  const turnError =
+    error ||
+    (result?.is_error ? result.subtype || 'Query failed' : undefined) ||
+    (result ? undefined : 'Query ended without a result');
+
+  const turnSpan: OtlpSpan = {
+    traceId,
+    spanId: turnSpanId,
+    name: 'invoke_agent',
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: startTime,
+    endTimeUnixNano: endTime,
+    attributes: toAttributes({
+      'gen_ai.operation.name': 'invoke_agent',
+      'gen_ai.system': 'anthropic',
+      'gen_ai.conversation.id': entries[0].sessionId,
+      'gen_ai.request.model': init?.model,
+      'gen_ai.usage.input_tokens': usage.input_tokens,
+      'gen_ai.usage.output_tokens': usage.output_tokens,
+      'autosteer.usage.cache_creation_input_tokens': usage.cache_creation_input_tokens,
+      'autosteer.usage.cache_read_input_tokens': usage.cache_read_input_tokens,
+      'autosteer.cost_usd': result?.total_cost_usd,
+      'autosteer.num_turns': result?.num_turns,
+      'autosteer.tool_calls': toolSpans.length,
+      'autosteer.correlation_id': correlationId,
+      'autosteer.cwd': init?.cwd,
+    }),
+    status: turnError ? { code: STATUS_CODE_ERROR, message: turnError } : { code: STATUS_CODE_OK },
+  };
+
+  return [turnSpan, ...toolSpans];
+};
+
+export const toOtlpExportRequest = (
+  spans: OtlpSpan[],
+  resource: { serviceName: string; serviceVersion: string }
+): OtlpExportRequest => ({
+  resourceSpans: [
+    {
+      resource: {
+        attributes: toAttributes({
+          'service.name': resource.serviceName,
+          'service.version': resource.serviceVersion,
+        }),
+      },
+      scopeSpans: [{ scope: { name: 'autosteer', version: resource.serviceVersion }, spans }],
+    },
+  ],
+});
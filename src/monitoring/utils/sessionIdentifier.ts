@@ -34,15 +34,14 @@ export function identifySessionBlocks(
   // Sort entries by timestamp
   const sortedEntries = [...entries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
-  // Group entries into session blocks
+  // Group entries into session blocks; a block starts at the hour of its first entry and
+  // collects every entry until it ends
+  let block: SessionBlock | undefined;
   for (const entry of sortedEntries) {
-    const blockStart = floorToHour(entry.timestamp);
-    const blockEnd = new Date(blockStart.getTime() + sessionMs);
-    const blockId = blockStart.toISOString();
-
-    // Find existing block or create new one
-    let block = blocks.find((b) => b.id === blockId);
-    if (!block) {
+    if (!block || entry.timestamp >= block.endTime) {
+      const blockStart = floorToHour(entry.timestamp);
+      const blockEnd = new Date(blockStart.getTime() + sessionMs);
+      const blockId = blockStart.toISOString();
       const isActive = blockEnd > now;
 
       // Extract session ID from the first entry's source file
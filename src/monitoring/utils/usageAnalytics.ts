@@ -0,0 +1,245 @@
+import { LoadedUsageEntry, SessionBlock } from '@/entities';
+import {
+  AnalyticsPeriod,
+  BurnRate,
+  UsageAnalytics,
+  UsageBucket,
+  UsageDimension,
+  UsageTotals,
+} from '../interfaces/types';
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['model', 'worktree', 'agent'];
+
+/**
+ * Names the worktree and agent a usage entry belongs to
+ */
+export interface UsageLabeler {
+  worktree: (entry: LoadedUsageEntry) => string;
+  agent: (entry: LoadedUsageEntry) => string;
+}
+
+interface UsageAnalyticsOptions {
+  period: AnalyticsPeriod;
+  labeler: UsageLabeler;
+  /** Current session block, for the burn rate */
+  activeBlock?: SessionBlock | null;
+  now?: Date;
+}
+
+/**
+ * Directory name Claude Code uses for a working directory under ~/.claude/projects
+ */
+export function claudeProjectDirName(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    requests: 0,
+    costUSD: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    totalTokens: 0,
+    cacheHitRatio: 0,
+  };
+}
+
+function addEntry(totals: UsageTotals, entry: LoadedUsageEntry): void {
+  totals.requests += 1;
+  totals.costUSD += entry.costUSD || 0;
+  totals.inputTokens += entry.usage.inputTokens;
+  totals.outputTokens += entry.usage.outputTokens;
+  totals.cacheCreationInputTokens += entry.usage.cacheCreationInputTokens;
+  totals.cacheReadInputTokens += entry.usage.cacheReadInputTokens;
+  totals.totalTokens += entry.getTotalTokens();
+}
+
+function finishTotals(totals: UsageTotals): UsageTotals {
+  const promptTokens =
+    totals.inputTokens + totals.cacheCreationInputTokens + totals.cacheReadInputTokens;
+  return {
+    ...totals,
+    costUSD: Math.round(totals.costUSD * 1_000_000) / 1_000_000,
+    cacheHitRatio: promptTokens > 0 ? totals.cacheReadInputTokens / promptTokens : 0,
+  };
+}
+
+function emptyBreakdown(): Record<UsageDimension, Record<string, UsageTotals>> {
+  return { model: {}, worktree: {}, agent: {} };
+}
+
+function addToBreakdown(
+  breakdown: Record<UsageDimension, Record<string, UsageTotals>>,
+  keys: Record<UsageDimension, string>,
+  entry: LoadedUsageEntry
+): void {
+  for (const dimension of USAGE_DIMENSIONS) {
+    const key = keys[dimension];
+    if (!breakdown[dimension][key]) {
+      breakdown[dimension][key] = emptyUsageTotals();
+    }
+    addEntry(breakdown[dimension][key], entry);
+  }
+}
+
+function finishBreakdown(
+  breakdown: Record<UsageDimension, Record<string, UsageTotals>>
+): Record<UsageDimension, Record<string, UsageTotals>> {
+  const finished = emptyBreakdown();
+  for (const dimension of USAGE_DIMENSIONS) {
+    for (const [key, totals] of Object.entries(breakdown[dimension])) {
+      finished[dimension][key] = finishTotals(totals);
+    }
+  }
+  return finished;
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local start of the day, week (starting Monday) or month a date falls in
+ */
+export function getPeriodStart(date: Date, period: AnalyticsPeriod): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (period === 'month') {
+    start.setDate(1);
+  }
+  return start;
+}
+
+/**
+ * Spend rate of an active session block, projected to the end of the block
+ * The rate is measured from the block's first request, at least one minute back.
+ */
+export function calculateBurnRate(
+  block: SessionBlock | null | undefined,
+  now: Date = new Date()
+): BurnRate | null {
+  if (!block || block.isGap || block.entries.length === 0 || block.endTime <= now) {
+    return null;
+  }
+
+  const firstEntry = block.entries[0].timestamp.getTime();
+  const elapsedMinutes = Math.max((now.getTime() - firstEntry) / 60_000, 1);
+  const remainingMinutes = (block.endTime.getTime() - now.getTime()) / 60_000;
+  const totalTokens = block.getTotalTokens();
+  const costPerMinute = block.costUSD / elapsedMinutes;
+  const tokensPerMinute = totalTokens / elapsedMinutes;
+
+  return {
+    blockStart: block.startTime.toISOString(),
+    blockEnd: block.endTime.toISOString(),
+    costUSD: block.costUSD,
+    totalTokens,
+    costPerHour: costPerMinute * 60,
+    tokensPerMinute,
+    projectedCostUSD: block.costUSD + costPerMinute * remainingMinutes,
+    projectedTokens: Math.round(totalTokens + tokensPerMinute * remainingMinutes),
+  };
+}
+
+/**
+ * Group usage entries into day, week or month buckets, split by model, worktree and agent
+ */
+export function buildUsageAnalytics(
+  entries: LoadedUsageEntry[],
+  { period, labeler, activeBlock, now = new Date() }: UsageAnalyticsOptions
+): UsageAnalytics {
+  const buckets = new Map<string, { totals: UsageTotals; breakdown: UsageBucket['breakdown'] }>();
+  const totals = emptyUsageTotals();
+  const breakdown = emptyBreakdown();
+
+  for (const entry of entries) {
+    const start = formatLocalDate(getPeriodStart(entry.timestamp, period));
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { totals: emptyUsageTotals(), breakdown: emptyBreakdown() };
+      buckets.set(start, bucket);
+    }
+
+    const keys = {
+      model: entry.model,
+      worktree: labeler.worktree(entry),
+      agent: labeler.agent(entry),
+    };
+    addEntry(bucket.totals, entry);
+    addToBreakdown(bucket.breakdown, keys, entry);
+    addEntry(totals, entry);
+    addToBreakdown(breakdown, keys, entry);
+  }
+
+  return {
+    period,
+    generatedAt: now.toISOString(),
+    buckets: [...buckets.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([start, bucket]) => ({
+        start,
+        totals: finishTotals(bucket.totals),
+        breakdown: finishBreakdown(bucket.breakdown),
+      })),
+    totals: finishTotals(totals),
+    breakdown: finishBreakdown(breakdown),
+    burnRate: calculateBurnRate(activeBlock, now),
+  };
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per bucket and dimension value, for spreadsheets and chargeback
+ */
+export function usageAnalyticsToCSV(analytics: UsageAnalytics): string {
+  const header = [
+    'period',
+    'period_start',
+    'dimension',
+    'key',
+    'requests',
+    'cost_usd',
+    'input_tokens',
+    'output_tokens',
+    'cache_creation_tokens',
+    'cache_read_tokens',
+    'total_tokens',
+    'cache_hit_ratio',
+  ];
+  const rows = [header.join(',')];
+
+  for (const bucket of analytics.buckets) {
+    for (const dimension of USAGE_DIMENSIONS) {
+      for (const [key, totals] of Object.entries(bucket.breakdown[dimension])) {
+        rows.push(
+          [
+            analytics.period,
+            bucket.start,
+            dimension,
+            key,
+            totals.requests,
+            totals.costUSD.toFixed(6),
+            totals.inputTokens,
+            totals.outputTokens,
+            totals.cacheCreationInputTokens,
+            totals.cacheReadInputTokens,
+            totals.totalTokens,
+            totals.cacheHitRatio.toFixed(4),
+          ]
+            .map(escapeCsv)
+            .join(',')
+        );
+      }
+    }
+  }
+  return `${rows.join('\n')}\n`;
+}
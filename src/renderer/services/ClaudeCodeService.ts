@@ -5,6 +5,8 @@
 import { transformSDKMessage } from '@/commons/utils/message-transformers';
 import { toastError } from '@/components/ui/sonner';
 import { setupAutoBadgeClear, showBadgeIfNotFocused } from '@/renderer/utils/badgeUtils';
+import type { ToolPermissionDecision, ToolPermissionPrompt } from '@/types/permission.types';
+import type { SessionMetrics } from '@/types/query-manager.types';
 import {
   ConversationOptions,
   ResultMessage,
@@ -46,6 +48,10 @@ export interface ClaudeStreamingCallbacks {
   onError?: (error: Error) => void;
   onComplete?: (finalContent: string) => void;
   onTrace?: (direction: 'to' | 'from', message: any) => void;
+  /** A tool call is paused until respondToPermission is called with the request ID */
+  onPermissionRequest?: (request: ToolPermissionPrompt) => void;
+  /** A pending permission request was withdrawn (query aborted or finished) */
+  onPermissionCancelled?: (requestId: string) => void;
 }
 
 export class ClaudeCodeService {
@@ -313,6 +319,22 @@ export class ClaudeCodeService {
             toastError(`Validation Error: ${data.details}`, { duration: 5000 });
           };
 
+          const permissionRequestListener: IpcListener = (_event, ...args) => {
+            const request = args[0] as ToolPermissionPrompt;
+            logger.debug('[ClaudeCodeService] Permission request:', {
+              queryId,
+              requestId: request.requestId,
+              toolName: request.toolName,
+            });
+            void showBadgeIfNotFocused();
+            callbacks.onPermissionRequest?.(request);
+          };
+
+          const permissionCancelledListener: IpcListener = (_event, ...args) => {
+            const data = args[0] as { requestId: string };
+            callbacks.onPermissionCancelled?.(data.requestId);
+          };
+
           // Cleanup function
           const cleanup = () => {
             logger.debug('[DEBUG ClaudeCodeService] Cleanup called', {
@@ -327,6 +349,14 @@ export class ClaudeCodeService {
               `claude-code:validation-error:${queryId}`,
               validationErrorListener
             );
+            ipcRenderer?.removeListener?.(
+              `claude-code:permission-request:${queryId}`,
+              permissionRequestListener
+            );
+            ipcRenderer?.removeListener?.(
+              `claude-code:permission-cancelled:${queryId}`,
+              permissionCancelledListener
+            );
             this.activeQueries.delete(queryId);
             // Clean up agent-specific abort controller if it matches
             if (options?.sessionId) {
@@ -343,6 +373,11 @@ export class ClaudeCodeService {
           ipcRenderer?.on?.(`claude-code:error:${queryId}`, errorListener);
           ipcRenderer?.on?.(`claude-code:trace:${queryId}`, traceListener);
           ipcRenderer?.on?.(`claude-code:validation-error:${queryId}`, validationErrorListener);
+          ipcRenderer?.on?.(`claude-code:permission-request:${queryId}`, permissionRequestListener);
+          ipcRenderer?.on?.(
+            `claude-code:permission-cancelled:${queryId}`,
+            permissionCancelledListener
+          );
 
           // Store query info for abort capability
           this.activeQueries.set(queryId, {
@@ -688,6 +723,20 @@ export class ClaudeCodeService {
     return await ipcRenderer?.invoke?.('claude-code:get-session', entryId);
   }
 
+  /**
+   * Get the metrics of an agent's long-lived chat process (process starts, turns and
+   * prompt cache usage), or null if it has none
+   */
+  async getSessionMetrics(entryId: string): Promise<SessionMetrics | null> {
+    const ipcRenderer = window.electron.ipcRenderer;
+    if (!ipcRenderer) {
+      throw new Error(
+        'IPC renderer not available. Make sure this is running in Electron renderer process.'
+      );
+    }
+    return (await ipcRenderer?.invoke?.('claude-code:get-session-metrics', entryId)) ?? null;
+  }
+
   /**
    * Clear session mapping
    */
@@ -715,6 +764,25 @@ export class ClaudeCodeService {
     return result.cleared;
   }
 
+  /**
+   * Answer a live tool permission request raised during a query
+   * @returns false if the request is no longer pending (e.g. the query was aborted)
+   */
+  async respondToPermission(requestId: string, decision: ToolPermissionDecision): Promise<boolean> {
+    const ipcRenderer = window.electron.ipcRenderer;
+    if (!ipcRenderer) {
+      throw new Error(
+        'IPC renderer not available. Make sure this is running in Electron renderer process.'
+      );
+    }
+    const result = await ipcRenderer?.invoke?.(
+      'claude-code:permission-response',
+      requestId,
+      decision
+    );
+    return !!result?.success;
+  }
+
   /**
    * Stop the streaming query for a specific agent
    * @param agentId - The ID of the agent/session to stop streaming for
@@ -0,0 +1,134 @@
+import type { ClaudeCodeMessage } from '@/types/claudeCode.types';
+import type { AgentConfig } from '@/types/config.types';
+import log from 'electron-log';
+import { v4 as uuidv4 } from 'uuid';
+import { ClaudeCodeSDKService } from './ClaudeCodeSDKService';
+import { FileDataStoreService } from './FileDataStoreService';
+import { SessionManifestService } from './SessionManifestService';
+
+export interface AgentRunOptions {
+  worktreeId: string;
+  agentId: string;
+  prompt: string;
+  model?: string;
+  permissionMode?: string;
+  maxTurns?: number;
+  resume?: string; // Claude session id to continue
+  queryId?: string; // Lets the caller abort the run via ClaudeCodeSDKService.abortQuery
+}
+
+export interface AgentRunResult {
+  sessionId?: string;
+  result?: ClaudeCodeMessage;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * AgentRunService - runs a prompt for an agent without a UI attached
+ *
+ * Used by fan-out variants and the `autosteer run` command. The run goes
+ * through ClaudeCodeSDKService like a chat turn, so git state and turn
+ * checkpoints are recorded, and the Claude session id is saved the same way
+ * the chat UI does so the conversation can be opened and continued later.
+ * Tool calls the permission mode does not allow are denied rather than prompted.
+ */
+export class AgentRunService {
+  private static instance: AgentRunService;
+
+  static getInstance(): AgentRunService {
+    if (!AgentRunService.instance) {
+      AgentRunService.instance = new AgentRunService();
+    }
+    return AgentRunService.instance;
+  }
+
+  /**
+   * Run the prompt in the agent's worktree
+   * @param onMessage - Called with every SDK message as it arrives
+   */
+  async run(
+    options: AgentRunOptions,
+    onMessage?: (message: ClaudeCodeMessage) => void
+  ): Promise<AgentRunResult> {
+    const { worktreeId, agentId, prompt, model, permissionMode, maxTurns, resume, queryId } =
+      options;
+    const cwd = FileDataStoreService.getInstance().getWorktreePath(worktreeId);
+    const startedAt = Date.now();
+
+    let sessionId: string | undefined;
+    let result: ClaudeCodeMessage | undefined;
+    let error: string | undefined;
+
+    try {
+      for await (const message of ClaudeCodeSDKService.getInstance().queryClaudeCode(
+        queryId ?? uuidv4(),
+        {
+          prompt,
+          sessionId: agentId,
+          options: {
+            cwd,
+            ...(model && { model }),
+            ...(permissionMode && { permissionMode }),
+            ...(maxTurns !== undefined && { maxTurns }),
+            ...(resume && { resume }),
+          },
+        }
+      )) {
+        onMessage?.(message);
+
+        if (message.type === 'system' && message.subtype === 'init' && message.session_id) {
+          if (!sessionId) {
+            sessionId = message.session_id;
+            await this.saveSession(worktreeId, agentId, sessionId);
+          }
+        } else if (message.type === 'result') {
+          result = message;
+        } else if (message.type === 'error') {
+          error = typeof message.error === 'string' ? message.error : 'Agent run failed';
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (result?.is_error && !error) {
+      error = result.result || `Agent run ended with ${result.subtype || 'an error'}`;
+    }
+
+    return {
+      durationMs: result?.duration_ms ?? Date.now() - startedAt,
+      ...(sessionId && { sessionId }),
+      ...(result && { result }),
+      ...(error && { error }),
+    };
+  }
+
+  /**
+   * Claude session id an existing agent's conversation continues from
+   */
+  async getSavedSession(worktreeId: string, agent: AgentConfig): Promise<string | undefined> {
+    return (
+      (await SessionManifestService.getInstance().getAgentSession(worktreeId, agent.id)) ??
+      agent.claude_session_id
+    );
+  }
+
+  /**
+   * Store the Claude session id in the session manifest and on the agent
+   */
+  private async saveSession(worktreeId: string, agentId: string, sessionId: string) {
+    try {
+      await SessionManifestService.getInstance().updateAgentSession(worktreeId, agentId, sessionId);
+      const fileDataStore = FileDataStoreService.getInstance();
+      const agent = await fileDataStore.getAgent(agentId);
+      await fileDataStore.updateAgent(agentId, {
+        metadata: { ...agent?.metadata, claude_session_id: sessionId },
+        claude_session_id: sessionId,
+        updated_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      log.warn('[AgentRunService] Failed to save session id', { agentId, error: String(error) });
+    }
+  }
+}
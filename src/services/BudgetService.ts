@@ -0,0 +1,218 @@
+import { logger } from '@/commons/utils/logger';
+import { LoadedUsageEntry } from '@/entities';
+import type { CCUsageMonitor } from '@/monitoring/adapters/CCUsageMonitor';
+import { claudeProjectDirName } from '@/monitoring/utils/usageAnalytics';
+import type { BudgetLimit, BudgetsConfig } from '@/types/config.types';
+import * as path from 'path';
+import { FileDataStoreService } from './FileDataStoreService';
+
+const DEFAULT_WARN_AT = [0.8];
+const REFRESH_INTERVAL_MS = 5000;
+
+export type BudgetScope = 'daily' | 'perWorktree' | 'perSession';
+
+/**
+ * What a query spends against: the worktree it runs in and its Claude session
+ */
+export interface BudgetTarget {
+  cwd: string;
+  sessionId?: string;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  budget: BudgetLimit;
+  spent: number; // In the budget's unit
+  fraction: number;
+}
+
+export interface BudgetAlert extends BudgetStatus {
+  level: 'warning' | 'exceeded';
+  message: string;
+}
+
+/**
+ * Thrown when a query is started while a budget with a hard stop is used up
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    super(`${describeStatus(status)}. Raise the limit in config.json to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  daily: 'Daily budget',
+  perWorktree: 'Worktree budget',
+  perSession: 'Session budget',
+};
+
+function formatAmount(amount: number, unit: BudgetLimit['unit']): string {
+  return unit === 'usd' ? `$${amount.toFixed(2)}` : `${Math.round(amount).toLocaleString()} tokens`;
+}
+
+function describeStatus({ scope, budget, spent }: BudgetStatus): string {
+  return `${SCOPE_LABELS[scope]} used: ${formatAmount(spent, budget.unit)} of ${formatAmount(budget.limit, budget.unit)}`;
+}
+
+/**
+ * BudgetService - enforces the spending budgets in config.json
+ *
+ * Spend is read from Claude Code's usage logs through CCUsageMonitor, so it covers
+ * every query (UI, fan-out, CLI and control API) and survives restarts. Each budget
+ * raises an alert once per threshold; with `hardStop` set, queries are refused and
+ * running ones are stopped once a budget is used up.
+ */
+export class BudgetService {
+  private static instance: BudgetService;
+  private monitor: CCUsageMonitor | null = null;
+  private entries: LoadedUsageEntry[] = [];
+  private lastRefresh = 0;
+  private alerted = new Set<string>();
+  private alertListeners: Array<(alert: BudgetAlert) => void> = [];
+
+  static getInstance(): BudgetService {
+    if (!BudgetService.instance) {
+      BudgetService.instance = new BudgetService();
+    }
+    return BudgetService.instance;
+  }
+
+  /**
+   * Register a listener for threshold and limit alerts
+   * @returns A function that removes the listener
+   */
+  onAlert(listener: (alert: BudgetAlert) => void): () => void {
+    this.alertListeners.push(listener);
+    return () => {
+      this.alertListeners = this.alertListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Check every budget that applies to the target, raising alerts for newly crossed thresholds
+   * @returns The budgets that are used up
+   */
+  async check(target: BudgetTarget): Promise<{ exceeded: BudgetStatus[]; hardStop: boolean }> {
+    const budgets = await this.loadBudgets();
+    if (!budgets || (!budgets.daily && !budgets.perWorktree && !budgets.perSession)) {
+      return { exceeded: [], hardStop: false };
+    }
+
+    const statuses = await this.getStatuses(budgets, target);
+    const thresholds = [...(budgets.warnAt ?? DEFAULT_WARN_AT), 1].sort((a, b) => a - b);
+    for (const status of statuses) {
+      this.raiseAlerts(status, thresholds, target);
+    }
+
+    return {
+      exceeded: statuses.filter((status) => status.fraction >= 1),
+      hardStop: budgets.hardStop === true,
+    };
+  }
+
+  /**
+   * Refuse to start a query when a budget with a hard stop is used up
+   * @throws BudgetExceededError
+   */
+  async assertWithinBudget(target: BudgetTarget): Promise<void> {
+    const { exceeded, hardStop } = await this.check(target);
+    if (hardStop && exceeded.length > 0) {
+      throw new BudgetExceededError(exceeded[0]);
+    }
+  }
+
+  /**
+   * Whether a running query should be stopped
+   */
+  async shouldStop(target: BudgetTarget): Promise<boolean> {
+    const { exceeded, hardStop } = await this.check(target);
+    return hardStop && exceeded.length > 0;
+  }
+
+  private async loadBudgets(): Promise<BudgetsConfig | undefined> {
+    try {
+      const config = await FileDataStoreService.getInstance().readConfig();
+      return config.budgets;
+    } catch (error) {
+      logger.warn('[BudgetService] Failed to read budgets:', error);
+      return undefined;
+    }
+  }
+
+  private async getStatuses(budgets: BudgetsConfig, target: BudgetTarget): Promise<BudgetStatus[]> {
+    await this.refresh();
+
+    const today = new Date().toDateString();
+    const worktreeDir = `${path.sep}${claudeProjectDirName(target.cwd)}${path.sep}`;
+    const matchers: Array<[BudgetScope, (entry: LoadedUsageEntry) => boolean]> = [
+      ['daily', (entry) => entry.timestamp.toDateString() === today],
+      ['perWorktree', (entry) => !!entry.sourceFile?.includes(worktreeDir)],
+    ];
+    if (target.sessionId) {
+      const sessionId = target.sessionId;
+      matchers.push(['perSession', (entry) => !!entry.sourceFile?.includes(sessionId)]);
+    }
+
+    const statuses: BudgetStatus[] = [];
+    for (const [scope, matches] of matchers) {
+      const budget = budgets[scope];
+      if (!budget || budget.limit <= 0) continue;
+
+      const spent = this.entries
+        .filter(matches)
+        .reduce(
+          (sum, entry) =>
+            sum + (budget.unit === 'usd' ? entry.costUSD || 0 : entry.getTotalTokens()),
+          0
+        );
+      statuses.push({ scope, budget, spent, fraction: spent / budget.limit });
+    }
+    return statuses;
+  }
+
+  private async refresh(): Promise<void> {
+    if (Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS) return;
+
+    try {
+      if (!this.monitor) {
+        // Loaded on first use: the usage logs are only read when budgets are configured
+        const { CCUsageMonitor } = await import('@/monitoring/adapters/CCUsageMonitor');
+        // Always price with the pricing table so USD budgets match the rest of the app
+        this.monitor = new CCUsageMonitor({ costMode: 'calculate' });
+      }
+      this.entries = await this.monitor.getEntries();
+      this.lastRefresh = Date.now();
+    } catch (error) {
+      logger.error('[BudgetService] Failed to load usage:', error);
+    }
+  }
+
+  private raiseAlerts(status: BudgetStatus, thresholds: number[], target: BudgetTarget): void {
+    const scopeKey =
+      status.scope === 'daily'
+        ? new Date().toDateString()
+        : status.scope === 'perWorktree'
+          ? target.cwd
+          : target.sessionId;
+    const crossed = thresholds.filter((threshold) => status.fraction >= threshold).pop();
+    if (crossed === undefined) return;
+
+    const key = `${status.scope}:${scopeKey}:${crossed}`;
+    if (this.alerted.has(key)) return;
+    this.alerted.add(key);
+
+    const alert: BudgetAlert = {
+      ...status,
+      level: crossed >= 1 ? 'exceeded' : 'warning',
+      message:
+        crossed >= 1
+          ? `${describeStatus(status)} (${path.basename(target.cwd)})`
+          : `${describeStatus(status)}, ${Math.round(status.fraction * 100)}% (${path.basename(target.cwd)})`,
+    };
+    logger.warn(`[BudgetService] ${alert.message}`);
+    for (const listener of this.alertListeners) {
+      listener(alert);
+    }
+  }
+}
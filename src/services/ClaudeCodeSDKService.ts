@@ -3,26 +3,82 @@
  * Replaces CLI-based implementation for better performance and reliability
  */
 
-import { getNodeOptions, getSettingsAsEnv, updateRuntimeSettings } from '@/config/settings';
+import {
+  FetchSettingsOverrides,
+  getNodeOptions,
+  getSettingsAsEnv,
+  updateRuntimeSettings,
+} from '@/config/settings';
 import { useSettingsStore } from '@/stores/settings';
 import type { ClaudeCodeMessage, ClaudeCodeQueryOptions } from '@/types/claudeCode.types';
 import type { FileChangeMessage } from '@/types/fileChange.types';
+import type { SessionMetrics } from '@/types/query-manager.types';
 import { extractFileChanges, isFileChangeMessage } from '@/types/fileChange.types';
+import type {
+  PermissionRule,
+  ToolPermissionDecision,
+  ToolPermissionRequest,
+} from '@/types/permission.types';
+import { parseCodeMentions } from '@/utils/codeMentions';
+import { evaluatePermissionRules, formatPermissionRule } from '@/utils/permissionRules';
 import { getScopedMcpConfig } from '@/utils/scopedConfig';
-import { Options, Query, SDKMessage, query } from '@anthropic-ai/claude-agent-sdk';
+import {
+  CanUseTool,
+  HookCallbackMatcher,
+  Options,
+  PermissionResult,
+  PermissionRuleValue,
+  PermissionUpdate,
+  Query,
+  SDKMessage,
+  query,
+} from '@anthropic-ai/claude-agent-sdk';
 import log from 'electron-log';
 import { existsSync } from 'fs';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import type { BudgetTarget } from './BudgetService';
+import { QueryManager } from './QueryManager';
+
+const BUDGET_CHECK_INTERVAL_MS = 10_000;
+
+/**
+ * Asks the user about a paused tool call. Resolves once they answer; `signal`
+ * fires if the SDK cancels the request (e.g. the query was interrupted).
+ */
+export type ToolPermissionRequester = (
+  request: ToolPermissionRequest,
+  signal: AbortSignal
+) => Promise<ToolPermissionDecision>;
+
+/**
+ * Writes one query's messages to its session's trace file
+ * Messages are held until the Claude session id is known, then written in order.
+ * Flushing also ends the turn for telemetry export.
+ */
+interface QueryTrace {
+  record: (direction: 'to-claude' | 'from-claude', message: unknown, sessionId?: string) => void;
+  flush: (fallbackSessionId: string, error?: string) => void;
+}
+
+interface TurnCheckpointStart {
+  cwd: string;
+  worktreeId: string;
+  agentId: string;
+  id: string;
+  before: string;
+}
 
 export class ClaudeCodeSDKService {
   private static instance: ClaudeCodeSDKService;
   private static fetchTraceTimestamp: string | null = null; // Shared timestamp for all fetch trace logs
   private sessionMap: Map<string, string> = new Map(); // agentId -> claudeSessionId
-  private activeQueries: Map<string, Query> = new Map(); // queryId -> Query
+  private activeQueries: Map<string, Pick<Query, 'interrupt'>> = new Map(); // queryId -> Query
+  private queryManagers: Map<string, QueryManager> = new Map(); // worktree path -> chat processes
   private authCheckedSessions: Set<string> = new Set(); // Track sessions where auth has been checked
+  private sessionAllowedTools: Map<string, Set<string>> = new Map(); // agentId -> "allow for session" rules
 
   private constructor() {
     // Generate timestamp once for all fetch trace logs during this app session
@@ -40,13 +96,21 @@ export class ClaudeCodeSDKService {
 
   /**
    * Query Claude Code SDK and yield messages as they arrive
+   *
+   * Chat turns (an agent with a worktree and a live permission prompt) go to the agent's
+   * long-lived SDK process in its worktree's QueryManager, so follow-ups reuse the process
+   * and its prompt cache. Other queries, e.g. headless runs, get a process of their own.
+   *
    * @param queryId - Unique identifier for this query
    * @param queryOptions - Query configuration including prompt, sessionId, attachments
+   * @param requestPermission - Optional live permission prompt; when omitted, tool calls the
+   *   permission mode does not allow are denied and surface as `permission_denials`
    * @yields ClaudeCodeMessage - Messages in CLI-compatible format
    */
   async *queryClaudeCode(
     queryId: string,
-    queryOptions: ClaudeCodeQueryOptions
+    queryOptions: ClaudeCodeQueryOptions,
+    requestPermission?: ToolPermissionRequester
   ): AsyncGenerator<ClaudeCodeMessage, void, unknown> {
     const { prompt, sessionId, attachments, options = {} } = queryOptions;
 
@@ -87,6 +151,15 @@ export class ClaudeCodeSDKService {
       // Convert slash command format from /command:subcommand to /command/subcommand
       modifiedPrompt = modifiedPrompt.replace(/^\/([a-zA-Z0-9]+):([a-zA-Z0-9]+)/, '/$1/$2');
 
+      // Inline the code that `@path#L10-40` and `@path#Symbol` mentions refer to
+      if (options.cwd && !modifiedPrompt.startsWith('/') && parseCodeMentions(prompt).length > 0) {
+        const { SymbolIndexService } = await import('./SymbolIndexService');
+        modifiedPrompt = await SymbolIndexService.getInstance().expandMentions(
+          modifiedPrompt,
+          options.cwd
+        );
+      }
+
       // Handle session resumption
       // IMPORTANT: Check options.resume FIRST (passed from renderer), then fall back to sessionMap
       let resumeSessionId: string | undefined;
@@ -101,8 +174,20 @@ export class ClaudeCodeSDKService {
         }
       }
 
+      // Refuse to start once a budget with a hard stop is used up
+      const { BudgetService } = await import('./BudgetService');
+      const budgets = BudgetService.getInstance();
+      const budgetTarget: BudgetTarget = {
+        cwd: options.cwd || process.cwd(),
+        ...(resumeSessionId && { sessionId: resumeSessionId }),
+      };
+      await budgets.assertWithinBudget(budgetTarget);
+      let lastBudgetCheck = Date.now();
+
       // Load additional directories from session manifest
       let additionalDirectories: string[] = [];
+      let resumeSessionAt: string | undefined;
+      let turnCheckpoint: TurnCheckpointStart | null = null;
       if (sessionId && options.cwd) {
         try {
           // Import SessionManifestService
@@ -116,24 +201,83 @@ export class ClaudeCodeSDKService {
               worktreeId,
               sessionId
             );
+
+            // A rewound or forked agent continues from the branch point, not its last session
+            const branch = await sessionManifestService.getPendingBranch(worktreeId, sessionId);
+            if (branch) {
+              resumeSessionId = branch.resumeAt ? branch.sourceSessionId : undefined;
+              resumeSessionAt = branch.resumeAt;
+            }
+
+            // Checkpoint the worktree so this turn's file changes can be undone on their own,
+            // and so branching from this message can restore the files as they were
+            turnCheckpoint = await this.startTurnCheckpoint(
+              options.cwd,
+              worktreeId,
+              sessionId,
+              prompt
+            );
           }
         } catch (error) {
-          // Failed to load additional directories
+          // Failed to load session manifest data
         }
       }
 
       // Load MCP servers from scoped configuration
       let mcpServers: Record<string, any> | undefined;
+      let userOwnedServers: string[] = [];
       try {
         const scopedConfig = await getScopedMcpConfig({
           cwd: options.cwd || process.cwd(),
           debug: false,
         });
         mcpServers = scopedConfig.mcpServers;
+        userOwnedServers = scopedConfig.userOwnedServers;
       } catch (error) {
         // Failed to load scoped MCP config
       }
 
+      // Fill in ${secret:NAME} references in MCP server env values and headers. Only servers
+      // the user's own configs point somewhere get them: a repository's config could
+      // otherwise send them to a server of its choosing.
+      if (mcpServers && userOwnedServers.length > 0) {
+        try {
+          const { SecretsService } = await import('./SecretsService');
+          const userServers = Object.fromEntries(
+            userOwnedServers.map((name) => [name, mcpServers![name]])
+          );
+          const resolved = await SecretsService.getInstance().resolveReferences(userServers);
+          mcpServers = { ...mcpServers, ...resolved.value };
+          if (resolved.missing.length > 0) {
+            log.warn('[SDK Service] MCP config references unknown secrets:', resolved.missing);
+          }
+        } catch (error) {
+          log.error('[SDK Service] Failed to resolve secrets in MCP config:', error);
+        }
+      }
+
+      // Built-in tools to see and drive the user's terminal tabs in this worktree
+      let terminalTools: string[] = [];
+      let terminalInputTool: string | undefined;
+      if (options.cwd) {
+        try {
+          const {
+            READ_ONLY_TERMINAL_TOOLS,
+            SEND_TERMINAL_INPUT_TOOL,
+            TERMINAL_TOOLS_SERVER,
+            TerminalToolsService,
+          } = await import('./TerminalToolsService');
+          mcpServers = {
+            ...mcpServers,
+            [TERMINAL_TOOLS_SERVER]: TerminalToolsService.getInstance().createServer(options.cwd),
+          };
+          terminalTools = READ_ONLY_TERMINAL_TOOLS;
+          terminalInputTool = SEND_TERMINAL_INPUT_TOOL;
+        } catch (error) {
+          log.error('[SDK Service] Failed to create terminal tools:', error);
+        }
+      }
+
       // Build SDK options
       // The SDK includes a bundled CLI at node_modules/@anthropic-ai/claude-agent-sdk/cli.js
       // In packaged apps, we need to use the unpacked path
@@ -158,20 +302,27 @@ export class ClaudeCodeSDKService {
       }
       updateRuntimeSettings(runtimeUpdates);
 
-      // Get settings as environment variables for subprocess
-      const settingsEnv = getSettingsAsEnv();
+      // Get settings as environment variables for subprocess, with the fetch trace/cache
+      // values of the worktree's .autosteer.json applied to this query only
+      const fetchOverrides = options.cwd ? await this.loadProjectFetchOverrides(options.cwd) : {};
+      const settingsEnv = getSettingsAsEnv(fetchOverrides);
       log.info('[SDK Service] Subprocess environment (settingsEnv):', {
         FETCH_TRACE_ENABLED: settingsEnv.FETCH_TRACE_ENABLED,
         FETCH_CACHE_ENABLED: settingsEnv.FETCH_CACHE_ENABLED,
         FETCH_TRACE_DEBUG: settingsEnv.FETCH_TRACE_DEBUG,
         FETCH_TRACE_CWD: settingsEnv.FETCH_TRACE_CWD,
         FETCH_TRACE_SESSION_ID: settingsEnv.FETCH_TRACE_SESSION_ID,
+        FETCH_CASSETTE_MODE: settingsEnv.FETCH_CASSETTE_MODE,
       });
 
+      // The tracer also records and replays cassettes, so load it for either
+      const injectFetchTracer =
+        settingsEnv.FETCH_TRACE_ENABLED === 'true' || settingsEnv.FETCH_CASSETTE_MODE !== 'off';
+
       // Build NODE_OPTIONS for child process inheritance
       // This is CRITICAL for MCP servers to inherit the fetch tracer
       let nodeOptions = getNodeOptions();
-      if (settingsEnv.FETCH_TRACE_ENABLED === 'true') {
+      if (injectFetchTracer) {
         let loaderPath = path.resolve(__dirname, 'fetch-tracer-loader.cjs');
         if (loaderPath.includes('.asar') && !loaderPath.includes('.asar.unpacked')) {
           loaderPath = loaderPath.replace(/\.asar([/\\])/, '.asar.unpacked$1');
@@ -193,12 +344,14 @@ export class ClaudeCodeSDKService {
         MCP_TIMEOUT: '5000',
         // CRITICAL: Set NODE_OPTIONS so MCP server child processes inherit the fetch tracer
         ...(nodeOptions && { NODE_OPTIONS: nodeOptions }),
+        // Agents can read their environment; the passphrase stays in this process
+        AUTOSTEER_SECRETS_PASSPHRASE: undefined,
       };
 
       // Prepare executableArgs for fetch tracer injection
       // Using executableArgs because SDK properly passes these to Node executable
       const executableArgs: string[] = [];
-      if (settingsEnv.FETCH_TRACE_ENABLED === 'true') {
+      if (injectFetchTracer) {
         let loaderPath = path.resolve(__dirname, 'fetch-tracer-loader.cjs');
         if (loaderPath.includes('.asar') && !loaderPath.includes('.asar.unpacked')) {
           loaderPath = loaderPath.replace(/\.asar([/\\])/, '.asar.unpacked$1');
@@ -237,6 +390,20 @@ export class ClaudeCodeSDKService {
         sdkOptions.resume = resumeSessionId;
       }
 
+      if (resumeSessionAt) {
+        // Branch into a new session so the source session stays intact
+        sdkOptions.resumeSessionAt = resumeSessionAt;
+        sdkOptions.forkSession = true;
+      }
+
+      if (requestPermission) {
+        sdkOptions.canUseTool = this.createCanUseTool(
+          sessionId,
+          requestPermission,
+          terminalInputTool
+        );
+      }
+
       if (options.permissionMode) {
         sdkOptions.permissionMode = options.permissionMode as any;
       }
@@ -265,6 +432,25 @@ export class ClaudeCodeSDKService {
         }
       }
 
+      // Reading terminals needs no prompt; sending input is always confirmed (see the hook below)
+      for (const terminalTool of terminalTools) {
+        if (!allowedTools.includes(terminalTool)) {
+          allowedTools.push(terminalTool);
+        }
+      }
+
+      // Rules approved with "allow for session" are not part of the process key: a live
+      // process already has them, and a restarted one gets them from here
+      const processAllowedTools = [...allowedTools];
+
+      // Rules the user approved with "allow for session" in earlier turns
+      // (a new SDK process does not carry over session-scoped SDK rules)
+      for (const rule of (sessionId && this.sessionAllowedTools.get(sessionId)) || []) {
+        if (!allowedTools.includes(rule)) {
+          allowedTools.push(rule);
+        }
+      }
+
       if (allowedTools.length > 0) {
         sdkOptions.allowedTools = allowedTools;
         log.info('[ClaudeCodeSDKService] Final allowedTools:', {
@@ -282,6 +468,7 @@ export class ClaudeCodeSDKService {
       }
 
       // Set working directory if provided
+      let permissionRules: PermissionRule[] = [];
       if (options.cwd) {
         const homedir = os.homedir();
         let cwd = options.cwd;
@@ -311,6 +498,14 @@ export class ClaudeCodeSDKService {
         }
 
         sdkOptions.cwd = cwd;
+
+        // Enforce the worktree's permission rules before any tool runs
+        permissionRules = await this.loadPermissionRules(path.basename(options.cwd));
+        if (permissionRules.length > 0 || terminalInputTool) {
+          sdkOptions.hooks = {
+            PreToolUse: [this.createPermissionRulesHook(permissionRules, cwd, terminalInputTool)],
+          };
+        }
       }
 
       // Log the query details before sending
@@ -324,19 +519,62 @@ export class ClaudeCodeSDKService {
         resumeSessionId: !!resumeSessionId,
       });
 
-      // Start SDK query with correct format: {prompt, options}
-      const result = query({
+      const trace = await this.createQueryTrace(queryId);
+      trace.record('to-claude', {
+        type: 'user',
         prompt: modifiedPrompt,
-        options: sdkOptions,
+        ...(resumeSessionId && { resume: resumeSessionId }),
       });
 
-      this.activeQueries.set(queryId, result);
+      let result: AsyncIterable<SDKMessage>;
+      let queryManager: QueryManager | undefined;
+      if (requestPermission && sessionId && sdkOptions.cwd) {
+        // Everything the process is started with that cannot change on a live one
+        const processKey = JSON.stringify({
+          cwd: sdkOptions.cwd,
+          additionalDirectories,
+          mcpServers: Object.fromEntries(
+            Object.entries(mcpServers ?? {}).map(([name, server]) => [
+              name,
+              server?.type === 'sdk' ? 'sdk' : server,
+            ])
+          ),
+          systemPrompt: sdkOptions.systemPrompt,
+          maxTurns: sdkOptions.maxTurns,
+          allowedTools: processAllowedTools,
+          settingsEnv: { ...settingsEnv, FETCH_TRACE_SESSION_ID: undefined },
+          executableArgs,
+          permissionRules,
+        });
+
+        queryManager = this.getQueryManager(sdkOptions.cwd);
+        await queryManager.getOrCreateSession(sessionId, sessionId);
+        const { canUseTool, ...processOptions } = sdkOptions;
+        result = await queryManager.sendMessage(sessionId, modifiedPrompt, {
+          sdkOptions: processOptions,
+          processKey,
+          ...(canUseTool && { canUseTool }),
+        });
+        const manager = queryManager;
+        this.activeQueries.set(queryId, { interrupt: () => manager.interrupt(sessionId) });
+      } else {
+        // Start SDK query with correct format: {prompt, options}
+        const oneShotQuery = query({
+          prompt: modifiedPrompt,
+          options: sdkOptions,
+        });
+        result = oneShotQuery;
+        this.activeQueries.set(queryId, oneShotQuery);
+      }
 
       const actualSessionId = sessionId || uuidv4();
+      let queryError: string | undefined;
 
       try {
         // Yield messages as they arrive
         for await (const sdkMessage of result) {
+          trace.record('from-claude', sdkMessage, sdkMessage.session_id);
+
           // Adapt SDK message to CLI-compatible format
           const cliMessage = this.adaptSDKMessageToCLI(sdkMessage, sessionId);
 
@@ -356,6 +594,28 @@ export class ClaudeCodeSDKService {
             }
           }
 
+          if (
+            cliMessage.type === 'system' &&
+            cliMessage.subtype === 'init' &&
+            cliMessage.session_id
+          ) {
+            budgetTarget.sessionId = cliMessage.session_id;
+          }
+
+          // Stop the query if a budget with a hard stop runs out while it works
+          if (
+            cliMessage.type !== 'result' &&
+            Date.now() - lastBudgetCheck >= BUDGET_CHECK_INTERVAL_MS
+          ) {
+            lastBudgetCheck = Date.now();
+            void budgets.shouldStop({ ...budgetTarget }).then((stop) => {
+              if (stop) {
+                log.warn('[SDK Service] Budget used up, aborting query:', queryId);
+                this.abortQuery(queryId);
+              }
+            });
+          }
+
           // Ensure session_id is set
           cliMessage.session_id = cliMessage.session_id || actualSessionId;
 
@@ -426,6 +686,7 @@ export class ClaudeCodeSDKService {
         // Yield an error message before throwing
         const errorMessage =
           iterationError instanceof Error ? iterationError.message : String(iterationError);
+        queryError = errorMessage;
 
         // Map common error messages to error types
         let errorType: 'api_error' | 'authentication_error' = 'api_error';
@@ -450,6 +711,16 @@ export class ClaudeCodeSDKService {
         throw iterationError;
       } finally {
         this.activeQueries.delete(queryId);
+        trace.flush(resumeSessionId || actualSessionId, queryError);
+        if (queryManager && sessionId) {
+          log.info('[SDK Service] Session process metrics:', {
+            sessionId,
+            ...queryManager.getSessionMetrics(sessionId),
+          });
+        }
+        if (turnCheckpoint) {
+          await this.finishTurnCheckpoint(turnCheckpoint);
+        }
       }
     } catch (error) {
       this.activeQueries.delete(queryId);
@@ -473,11 +744,29 @@ export class ClaudeCodeSDKService {
   abortQuery(queryId: string): void {
     const query = this.activeQueries.get(queryId);
     if (query) {
-      query.interrupt();
+      // The query may have finished already, which rejects the interrupt
+      query.interrupt().catch((error: unknown) => {
+        log.warn('[SDK Service] Failed to interrupt query:', { queryId, error: String(error) });
+      });
       this.activeQueries.delete(queryId);
     }
   }
 
+  /**
+   * Metrics of an agent's long-lived chat process: how often it was started, turns
+   * served and prompt cache reads/writes
+   * @param sessionId - Agent session ID
+   */
+  getSessionMetrics(sessionId: string): SessionMetrics | null {
+    for (const queryManager of this.queryManagers.values()) {
+      const metrics = queryManager.getSessionMetrics(sessionId);
+      if (metrics) {
+        return { ...metrics };
+      }
+    }
+    return null;
+  }
+
   /**
    * Get Claude session ID for a given agent session ID
    * @param sessionId - Agent session ID
@@ -492,6 +781,11 @@ export class ClaudeCodeSDKService {
    */
   clearSessions(): void {
     this.sessionMap.clear();
+    this.sessionAllowedTools.clear();
+    for (const queryManager of this.queryManagers.values()) {
+      void queryManager.destroy();
+    }
+    this.queryManagers.clear();
   }
 
   /**
@@ -503,9 +797,343 @@ export class ClaudeCodeSDKService {
     if (hasSession) {
       this.sessionMap.delete(entryId);
     }
+    this.sessionAllowedTools.delete(entryId);
+    // The next message starts a fresh process instead of continuing the old conversation
+    for (const queryManager of this.queryManagers.values()) {
+      if (queryManager.getSessionMetrics(entryId)) {
+        void queryManager.closeSession(entryId);
+      }
+    }
     return hasSession;
   }
 
+  /**
+   * QueryManager holding the long-lived chat processes of a worktree
+   */
+  private getQueryManager(cwd: string): QueryManager {
+    let queryManager = this.queryManagers.get(cwd);
+    if (!queryManager) {
+      queryManager = new QueryManager(path.basename(cwd), cwd);
+      this.queryManagers.set(cwd, queryManager);
+    }
+    return queryManager;
+  }
+
+  /**
+   * Build the SDK canUseTool callback that forwards paused tool calls to the user
+   * @param sessionId - Agent session ID ("allow for session" rules are stored per agent)
+   * @param requestPermission - Prompt implementation supplied by the IPC layer
+   * @param terminalInputTool - Tool that types into terminals, which is only allowed once
+   */
+  private createCanUseTool(
+    sessionId: string | undefined,
+    requestPermission: ToolPermissionRequester,
+    terminalInputTool?: string
+  ): CanUseTool {
+    return async (toolName, input, options): Promise<PermissionResult> => {
+      const onceOnly = toolName === terminalInputTool;
+      const decision = await requestPermission(
+        {
+          ...(sessionId && { sessionId }),
+          toolName,
+          toolUseId: options.toolUseID,
+          input,
+          ...(onceOnly && { onceOnly }),
+          ...(options.decisionReason && { decisionReason: options.decisionReason }),
+          ...(options.blockedPath && { blockedPath: options.blockedPath }),
+        },
+        options.signal
+      );
+
+      log.info('[SDK Service] Permission decision:', {
+        toolName,
+        toolUseId: options.toolUseID,
+        behavior: decision.behavior,
+        ...(decision.behavior === 'allow' && { scope: decision.scope }),
+      });
+
+      if (decision.behavior === 'deny') {
+        // Without guidance the model has nothing to act on, so stop the turn
+        return decision.message
+          ? { behavior: 'deny', message: decision.message }
+          : { behavior: 'deny', message: 'The user denied this tool use.', interrupt: true };
+      }
+
+      if (decision.scope === 'once' || onceOnly) {
+        return { behavior: 'allow', updatedInput: input };
+      }
+
+      const updatedPermissions = this.toSessionPermissionUpdates(
+        toolName,
+        input,
+        options.suggestions
+      );
+
+      if (sessionId) {
+        const allowed = this.sessionAllowedTools.get(sessionId) ?? new Set<string>();
+        for (const update of updatedPermissions) {
+          if (update.type === 'addRules' && update.behavior === 'allow') {
+            update.rules.forEach((rule) => allowed.add(this.formatPermissionRule(rule)));
+          }
+        }
+        this.sessionAllowedTools.set(sessionId, allowed);
+      }
+
+      return { behavior: 'allow', updatedInput: input, updatedPermissions };
+    };
+  }
+
+  /**
+   * Create the trace writer for one query, correlated by the query id
+   */
+  private async createQueryTrace(queryId: string): Promise<QueryTrace> {
+    const { TraceLogger } = await import('./TraceLogger');
+    const { TelemetryService } = await import('./TelemetryService');
+    const traceLogger = TraceLogger.getInstance();
+    const pending: Array<['to-claude' | 'from-claude', unknown, Date]> = [];
+    let traceSessionId: string | undefined;
+    let writes = Promise.resolve();
+
+    const write = (direction: 'to-claude' | 'from-claude', message: unknown, at: Date) => {
+      const sessionId = traceSessionId!;
+      // The query id pairs the prompt with every message it produced
+      writes = writes.then(() => traceLogger.log(sessionId, direction, message, queryId, at));
+    };
+    const start = (sessionId: string) => {
+      traceSessionId = sessionId;
+      for (const [direction, message, at] of pending.splice(0)) {
+        write(direction, message, at);
+      }
+    };
+
+    return {
+      record: (direction, message, sessionId) => {
+        if (!traceSessionId && sessionId) {
+          start(sessionId);
+        }
+        if (traceSessionId) {
+          write(direction, message, new Date());
+        } else {
+          pending.push([direction, message, new Date()]);
+        }
+      },
+      flush: (fallbackSessionId, error) => {
+        if (!traceSessionId && pending.length > 0) {
+          start(fallbackSessionId);
+        }
+        // The turn is exported once all of its messages have reached the trace
+        void writes.then(() => TelemetryService.getInstance().endTurn(queryId, error));
+      },
+    };
+  }
+
+  /**
+   * Take the "before" checkpoint of an agent turn and record it in the session manifest
+   * @returns What finishTurnCheckpoint needs, or null if the worktree could not be checkpointed
+   */
+  private async startTurnCheckpoint(
+    cwd: string,
+    worktreeId: string,
+    agentId: string,
+    prompt: string
+  ): Promise<TurnCheckpointStart | null> {
+    try {
+      const { GitService } = await import('./GitService');
+      const { SessionManifestService } = await import('./SessionManifestService');
+      const gitService = GitService.getInstance();
+
+      const id = uuidv4();
+      const before = await gitService.createCheckpoint(cwd, `${agentId}/${id}/before`);
+      if (!before) {
+        return null;
+      }
+
+      const dropped = await SessionManifestService.getInstance().addCheckpoint(
+        worktreeId,
+        agentId,
+        {
+          id,
+          prompt: prompt.trim().split('\n')[0].slice(0, 200),
+          before,
+          startedAt: new Date().toISOString(),
+        }
+      );
+      await gitService.deleteCheckpointRefs(
+        cwd,
+        dropped.flatMap((checkpoint) => [
+          `${agentId}/${checkpoint.id}/before`,
+          `${agentId}/${checkpoint.id}/after`,
+        ])
+      );
+
+      return { cwd, worktreeId, agentId, id, before };
+    } catch (error) {
+      log.warn('[SDK Service] Failed to create turn checkpoint:', { worktreeId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Take the "after" checkpoint once the turn is over and record which files it changed
+   */
+  private async finishTurnCheckpoint(start: TurnCheckpointStart): Promise<void> {
+    try {
+      const { GitService } = await import('./GitService');
+      const { SessionManifestService } = await import('./SessionManifestService');
+      const gitService = GitService.getInstance();
+
+      const after = await gitService.createCheckpoint(
+        start.cwd,
+        `${start.agentId}/${start.id}/after`
+      );
+      if (!after) {
+        return;
+      }
+
+      const files = await gitService.getCheckpointChangedFiles(start.cwd, start.before, after);
+      await SessionManifestService.getInstance().updateCheckpoint(
+        start.worktreeId,
+        start.agentId,
+        start.id,
+        { after, files, endedAt: new Date().toISOString() }
+      );
+    } catch (error) {
+      log.warn('[SDK Service] Failed to finish turn checkpoint:', {
+        worktreeId: start.worktreeId,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Load the fetch settings a worktree's project files override
+   * @param cwd - Worktree path, as given in the query options
+   */
+  private async loadProjectFetchOverrides(cwd: string): Promise<FetchSettingsOverrides> {
+    try {
+      const { EffectiveSettingsService } = await import('./EffectiveSettingsService');
+      const homedir = os.homedir();
+      let worktreePath = cwd.startsWith('~') ? path.join(homedir, cwd.slice(1)) : cwd;
+      if (!path.isAbsolute(worktreePath)) {
+        worktreePath = path.join(homedir, '.autosteer', 'worktrees', worktreePath);
+      }
+      return await EffectiveSettingsService.getInstance().getProjectFetchOverrides(worktreePath);
+    } catch (error) {
+      log.warn('[SDK Service] Failed to load project fetch settings:', { cwd, error });
+      return {};
+    }
+  }
+
+  /**
+   * Load the declarative permission rules configured for a worktree
+   * @param worktreeId - Worktree folder name
+   */
+  private async loadPermissionRules(worktreeId: string): Promise<PermissionRule[]> {
+    try {
+      const { FileDataStoreService } = await import('./FileDataStoreService');
+      const config = await FileDataStoreService.getInstance().readConfig();
+      return config.permissionRules?.[worktreeId] ?? [];
+    } catch (error) {
+      log.warn('[SDK Service] Failed to load permission rules:', { worktreeId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Build a PreToolUse hook that applies permission rules, regardless of permission mode
+   * @param rules - Rules in evaluation order (first match wins)
+   * @param cwd - Worktree path that file patterns are relative to
+   * @param terminalInputTool - Tool that types into terminals. Its input is matched like a
+   *   Bash command where only deny rules count, and it is always confirmed unless
+   *   permissions are bypassed.
+   */
+  private createPermissionRulesHook(
+    rules: PermissionRule[],
+    cwd: string,
+    terminalInputTool?: string
+  ): HookCallbackMatcher {
+    return {
+      hooks: [
+        async (input) => {
+          if (input.hook_event_name !== 'PreToolUse') {
+            return {};
+          }
+
+          const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+          let match = evaluatePermissionRules(rules, input.tool_name, toolInput, cwd);
+          if (input.tool_name === terminalInputTool) {
+            const command = typeof toolInput.input === 'string' ? toolInput.input : '';
+            const bashMatch = evaluatePermissionRules(rules, 'Bash', { command }, cwd);
+            match = [match, bashMatch].find((found) => found?.behavior === 'deny') ?? null;
+            if (!match) {
+              // A live process changes mode without a new hook, so the input carries it
+              return input.permission_mode === 'bypassPermissions'
+                ? {}
+                : {
+                    hookSpecificOutput: {
+                      hookEventName: 'PreToolUse',
+                      permissionDecision: 'ask',
+                      permissionDecisionReason:
+                        "Input typed into the user's terminal is always confirmed",
+                    },
+                  };
+            }
+          }
+          if (!match) {
+            return {};
+          }
+
+          const ruleText = formatPermissionRule(match.rule);
+          log.info('[SDK Service] Permission rule matched:', {
+            toolName: input.tool_name,
+            rule: ruleText,
+          });
+
+          return {
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse',
+              permissionDecision: match.behavior,
+              permissionDecisionReason:
+                match.behavior === 'deny'
+                  ? `Blocked by project permission rule "${ruleText}"${match.rule.description ? `: ${match.rule.description}` : ''}`
+                  : match.partial
+                    ? `Project permission rule "${ruleText}" does not cover every command in this call`
+                    : `Project permission rule "${ruleText}"`,
+            },
+          };
+        },
+      ],
+    };
+  }
+
+  /**
+   * Scope the SDK's "always allow" suggestions to this session, falling back to a rule
+   * for the tool itself (or the exact command for Bash) when the SDK offers none
+   */
+  private toSessionPermissionUpdates(
+    toolName: string,
+    input: Record<string, unknown>,
+    suggestions: PermissionUpdate[] | undefined
+  ): PermissionUpdate[] {
+    if (suggestions && suggestions.length > 0) {
+      return suggestions.map((suggestion) => ({ ...suggestion, destination: 'session' }));
+    }
+
+    const rule: PermissionRuleValue =
+      toolName === 'Bash' && typeof input.command === 'string'
+        ? { toolName, ruleContent: input.command }
+        : { toolName };
+
+    return [{ type: 'addRules', rules: [rule], behavior: 'allow', destination: 'session' }];
+  }
+
+  /**
+   * Format a rule the way allowedTools expects it, e.g. `Bash(npm test:*)`
+   */
+  private formatPermissionRule(rule: PermissionRuleValue): string {
+    return rule.ruleContent ? `${rule.toolName}(${rule.ruleContent})` : rule.toolName;
+  }
+
   /**
    * Set session mapping for an agent
    * @param agentId - Agent ID
@@ -0,0 +1,399 @@
+import { getSearchSettings } from '@/config/settings';
+import {
+  ContentSearchFileResult,
+  ContentSearchMatch,
+  ContentSearchRequest,
+  ContentSearchSummary,
+  IpcChannelNames,
+} from '@/types/ipc.types';
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { BrowserWindow } from 'electron';
+import log from 'electron-log';
+import fg from 'fast-glob';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_MAX_RESULTS = 2000;
+const MAX_FILE_BYTES = 1024 * 1024; // Larger files are skipped, e.g. bundles and data dumps
+const PREVIEW_BEFORE_CHARS = 40;
+const PREVIEW_AFTER_CHARS = 200;
+const MAX_MATCH_CHARS = 200;
+const RESULT_BATCH_MS = 50;
+
+interface ActiveSearch {
+  cancelled: boolean;
+  process?: ChildProcess;
+}
+
+/**
+ * Collects the results of one search, stopping at the match limit
+ */
+interface ResultSink {
+  add: (file: ContentSearchFileResult) => boolean; // false once the limit is hit
+  isFull: () => boolean;
+}
+
+const shorten = (text: string, max: number, fromEnd = false): string => {
+  if (text.length <= max) {
+    return text;
+  }
+  return fromEnd ? `…${text.slice(-max)}` : `${text.slice(0, max)}…`;
+};
+
+/**
+ * Match in a line, with start and end as character offsets
+ */
+const createMatch = (
+  lineText: string,
+  line: number,
+  start: number,
+  end: number
+): ContentSearchMatch => {
+  const text = lineText.replace(/\r?\n?$/, '');
+  return {
+    line,
+    column: start + 1,
+    length: end - start,
+    text: shorten(text.slice(start, end), MAX_MATCH_CHARS),
+    before: shorten(text.slice(0, start), PREVIEW_BEFORE_CHARS, true),
+    after: shorten(text.slice(end), PREVIEW_AFTER_CHARS),
+  };
+};
+
+// ripgrep globs without a slash match at any depth
+const toGlob = (pattern: string): string =>
+  pattern.includes('/') ? pattern.replace(/^\.?\//, '') : `**/${pattern}`;
+
+/**
+ * ContentSearchService - full-text search of a worktree's files
+ *
+ * Searches with ripgrep when it is installed and with a slower built-in scanner otherwise;
+ * both honour .gitignore. Results are streamed to the window file by file as
+ * FILE_SEARCH_CONTENT_RESULTS events, followed by one FILE_SEARCH_CONTENT_DONE summary.
+ */
+export class ContentSearchService {
+  private static instance: ContentSearchService;
+  private searches = new Map<string, ActiveSearch>();
+  private ripgrepMissing = false;
+
+  static getInstance(): ContentSearchService {
+    if (!ContentSearchService.instance) {
+      ContentSearchService.instance = new ContentSearchService();
+    }
+    return ContentSearchService.instance;
+  }
+
+  /**
+   * Start a search and return its id; results arrive as events tagged with the id
+   */
+  search(window: BrowserWindow, request: ContentSearchRequest): string {
+    if (!request.query) {
+      throw new Error('Search query is empty');
+    }
+
+    const searchId = uuidv4();
+    const active: ActiveSearch = { cancelled: false };
+    this.searches.set(searchId, active);
+
+    const send = (channel: IpcChannelNames, ...args: unknown[]) => {
+      if (!window.isDestroyed()) {
+        window.webContents.send(channel, searchId, ...args);
+      }
+    };
+
+    // Files found within a short interval go out as one event
+    let batch: ContentSearchFileResult[] = [];
+    let flushTimer: NodeJS.Timeout | null = null;
+    const flush = () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+      if (batch.length > 0) {
+        send(IpcChannelNames.FILE_SEARCH_CONTENT_RESULTS, batch);
+        batch = [];
+      }
+    };
+
+    void this.runSearch(searchId, request, active, (file) => {
+      batch.push(file);
+      flushTimer ??= setTimeout(flush, RESULT_BATCH_MS);
+    }).then((summary) => {
+      flush();
+      this.searches.delete(searchId);
+      send(IpcChannelNames.FILE_SEARCH_CONTENT_DONE, summary);
+    });
+
+    return searchId;
+  }
+
+  cancel(searchId: string): void {
+    const active = this.searches.get(searchId);
+    if (active) {
+      active.cancelled = true;
+      active.process?.kill();
+    }
+  }
+
+  private async runSearch(
+    searchId: string,
+    request: ContentSearchRequest,
+    active: ActiveSearch,
+    onFile: (file: ContentSearchFileResult) => void
+  ): Promise<ContentSearchSummary> {
+    const maxResults = request.maxResults || DEFAULT_MAX_RESULTS;
+    const summary: ContentSearchSummary = {
+      searchId,
+      engine: 'ripgrep',
+      fileCount: 0,
+      matchCount: 0,
+      limitHit: false,
+    };
+
+    const sink: ResultSink = {
+      add: (file) => {
+        if (active.cancelled || summary.limitHit) {
+          return false;
+        }
+        const remaining = maxResults - summary.matchCount;
+        if (file.matches.length >= remaining) {
+          summary.limitHit = true;
+          file.matches = file.matches.slice(0, remaining);
+        }
+        summary.fileCount++;
+        summary.matchCount += file.matches.length;
+        onFile(file);
+        return !summary.limitHit;
+      },
+      isFull: () => active.cancelled || summary.limitHit,
+    };
+
+    try {
+      // A missing cwd would look like a missing ripgrep
+      const stat = await fs.stat(request.workspacePath).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`Not a directory: ${request.workspacePath}`);
+      }
+
+      const ranRipgrep =
+        !this.ripgrepMissing && (await this.searchWithRipgrep(request, active, sink));
+      if (!ranRipgrep) {
+        summary.engine = 'fallback';
+        await this.searchWithScanner(request, sink);
+      }
+    } catch (error) {
+      log.warn('[ContentSearchService] Search failed:', error);
+      summary.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      ...summary,
+      ...(active.cancelled && { cancelled: true }),
+    };
+  }
+
+  /**
+   * Search with ripgrep's JSON output. Resolves false when ripgrep is not installed.
+   */
+  private searchWithRipgrep(
+    request: ContentSearchRequest,
+    active: ActiveSearch,
+    sink: ResultSink
+  ): Promise<boolean> {
+    const args = [
+      '--json',
+      '--hidden',
+      '--glob',
+      '!.git',
+      '--max-filesize',
+      `${MAX_FILE_BYTES}`,
+      request.caseSensitive ? '--case-sensitive' : '--ignore-case',
+      ...(request.wholeWord ? ['--word-regexp'] : []),
+      ...(request.isRegex ? [] : ['--fixed-strings']),
+      ...(request.include ?? []).flatMap((glob) => ['--glob', glob]),
+      ...(request.exclude ?? []).flatMap((glob) => ['--glob', `!${glob}`]),
+      '--regexp',
+      request.query,
+      '--',
+      '.',
+    ];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(getSearchSettings().ripgrepPath, args, { cwd: request.workspacePath });
+      active.process = child;
+
+      let current: ContentSearchFileResult | null = null;
+      let pending = '';
+      let stderr = '';
+      let found = false;
+
+      const handleLine = (line: string) => {
+        if (!line || sink.isFull()) {
+          return;
+        }
+        const message = JSON.parse(line);
+        if (message.type === 'begin') {
+          // Paths that are not valid UTF-8 only come as bytes; skip those files
+          current =
+            message.data.path.text !== undefined
+              ? this.createFileResult(request.workspacePath, message.data.path.text)
+              : null;
+        } else if (message.type === 'match' && current && message.data.lines.text !== undefined) {
+          const lineText: string = message.data.lines.text;
+          const bytes = Buffer.from(lineText);
+          // Submatch offsets are in bytes
+          const toChars = (offset: number) => bytes.subarray(0, offset).toString().length;
+          for (const submatch of message.data.submatches) {
+            current.matches.push(
+              createMatch(
+                lineText,
+                message.data.line_number,
+                toChars(submatch.start),
+                toChars(submatch.end)
+              )
+            );
+          }
+        } else if (message.type === 'end' && current) {
+          if (current.matches.length > 0) {
+            found = true;
+            if (!sink.add(current)) {
+              child.kill();
+            }
+          }
+          current = null;
+        }
+      };
+
+      child.stdout?.on('data', (data: Buffer) => {
+        const lines = (pending + data.toString()).split('\n');
+        pending = lines.pop() ?? '';
+        try {
+          lines.forEach(handleLine);
+        } catch (error) {
+          child.kill();
+          reject(error);
+        }
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          log.info('[ContentSearchService] ripgrep not found, using the built-in search');
+          this.ripgrepMissing = true;
+          resolve(false);
+        } else {
+          reject(error);
+        }
+      });
+
+      child.on('close', (code) => {
+        // 1 means no matches; 2 also covers unreadable files next to real matches
+        if (code === 2 && !found && !sink.isFull()) {
+          reject(new Error(stderr.trim() || 'ripgrep failed'));
+        } else {
+          resolve(true);
+        }
+      });
+    });
+  }
+
+  /**
+   * Search file by file in this process, for machines without ripgrep
+   */
+  private async searchWithScanner(request: ContentSearchRequest, sink: ResultSink): Promise<void> {
+    const source = request.isRegex
+      ? request.query
+      : request.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(
+      request.wholeWord ? `\\b(?:${source})\\b` : source,
+      request.caseSensitive ? 'g' : 'gi'
+    );
+
+    for (const file of await this.listFiles(request)) {
+      if (sink.isFull()) {
+        return;
+      }
+
+      const absolutePath = path.join(request.workspacePath, file);
+      let content: Buffer;
+      try {
+        const stat = await fs.stat(absolutePath);
+        if (stat.size > MAX_FILE_BYTES) {
+          continue;
+        }
+        content = await fs.readFile(absolutePath);
+      } catch {
+        continue; // Deleted or unreadable since it was listed
+      }
+      // Same binary check as git: a NUL byte near the start
+      if (content.subarray(0, 8000).includes(0)) {
+        continue;
+      }
+
+      const result = this.createFileResult(request.workspacePath, file);
+      content
+        .toString()
+        .split('\n')
+        .forEach((lineText, index) => {
+          for (const match of lineText.matchAll(pattern)) {
+            if (match[0].length > 0 && match.index !== undefined) {
+              result.matches.push(
+                createMatch(lineText, index + 1, match.index, match.index + match[0].length)
+              );
+            }
+          }
+        });
+
+      if (result.matches.length > 0 && !sink.add(result)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Files to search: those matching the globs that git does not ignore
+   */
+  private async listFiles(request: ContentSearchRequest): Promise<string[]> {
+    const include = request.include?.length ? request.include.map(toGlob) : ['**/*'];
+    const files = await fg(include, {
+      cwd: request.workspacePath,
+      ignore: ['**/.git/**', ...(request.exclude ?? []).map(toGlob)],
+      onlyFiles: true,
+      dot: true,
+      followSymbolicLinks: false,
+      suppressErrors: true,
+    });
+
+    let visible: Set<string> | null = null;
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['ls-files', '-z', '--cached', '--others', '--exclude-standard'],
+        { cwd: request.workspacePath, maxBuffer: 64 * 1024 * 1024 }
+      );
+      visible = new Set(stdout.split('\0').filter(Boolean));
+    } catch {
+      // Not a git checkout; skip dependency folders at least
+    }
+
+    return files
+      .filter((file) => (visible ? visible.has(file) : !file.split('/').includes('node_modules')))
+      .sort();
+  }
+
+  private createFileResult(workspacePath: string, file: string): ContentSearchFileResult {
+    const relativePath = path.normalize(file).split(path.sep).join('/');
+    return {
+      path: relativePath,
+      absolutePath: path.join(workspacePath, relativePath),
+      matches: [],
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { logger } from '@/commons/utils/logger';
+import {
+  FetchSettingsOverrides,
+  getEnvironmentSettings,
+  updateFetchTraceSettings,
+} from '@/config/settings';
+import {
+  EffectiveSettings,
+  PROJECT_SETTINGS_FILE,
+  ProjectSettings,
+  SETTINGS_DEFAULTS,
+  SettingsIssue,
+  SettingsLayer,
+  SettingsLayerSchema,
+  SettingsSource,
+  UnifiedSettings,
+  parseSettingsLayer,
+  resolveSettings,
+} from '@/types/settings.schema';
+import Store from 'electron-store';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FetchCacheInspectorService } from './FetchCacheInspectorService';
+import { FileDataStoreService } from './FileDataStoreService';
+
+/**
+ * EffectiveSettingsService - resolves settings through their layers
+ * (default → user → project → session, see src/types/settings.schema.ts)
+ *
+ * Each layer is read from where it is already stored, so the existing settings screens
+ * keep writing to the same places. The user layer can be exported to and imported from
+ * one JSON file, in the same format as a project's .autosteer.json.
+ */
+export class EffectiveSettingsService {
+  private static instance: EffectiveSettingsService;
+  private ideStore: Store<{ preferredEditor?: string }>;
+
+  private constructor() {
+    // Shared with IdeHandlers, which detects editors and saves the preferred one
+    this.ideStore = new Store<{ preferredEditor?: string }>({ name: 'ide-settings' });
+  }
+
+  static getInstance(): EffectiveSettingsService {
+    if (!EffectiveSettingsService.instance) {
+      EffectiveSettingsService.instance = new EffectiveSettingsService();
+    }
+    return EffectiveSettingsService.instance;
+  }
+
+  /**
+   * Apply the fetch trace settings saved in app.json over the FETCH_TRACE_* environment
+   */
+  async start(): Promise<void> {
+    const appConfig = await FileDataStoreService.getInstance().readAppConfig();
+    if (appConfig.fetchTrace) {
+      updateFetchTraceSettings(appConfig.fetchTrace);
+      logger.info('[EffectiveSettingsService] Applied fetch trace settings from app.json');
+    }
+  }
+
+  /**
+   * Resolve every setting and where its value came from
+   * @param worktreeId - Worktree folder name whose .autosteer.json applies
+   * @param agentId - Agent whose session model and permission mode apply
+   */
+  async resolve(worktreeId?: string, agentId?: string): Promise<EffectiveSettings> {
+    const user = await this.readUserLayer();
+    const layers: Array<{ source: SettingsSource; layer: SettingsLayer }> = [
+      { source: 'user', layer: user.layer },
+    ];
+    const issues: SettingsIssue[] = [...user.issues];
+    let projectFile: string | undefined;
+
+    if (worktreeId) {
+      const project = await this.getProjectSettings(worktreeId);
+      layers.push({ source: 'project', layer: project.settings });
+      issues.push(...project.issues);
+      if (project.exists) {
+        projectFile = project.file;
+      }
+    }
+
+    if (agentId) {
+      const session = await this.readSessionLayer(agentId);
+      layers.push({ source: 'session', layer: session.layer });
+      issues.push(...session.issues);
+    }
+
+    const { settings, sources } = resolveSettings(this.getDefaults(), layers);
+    return { settings, sources, ...(projectFile && { projectFile }), issues };
+  }
+
+  /**
+   * Settings of a worktree's .autosteer.json
+   */
+  async getProjectSettings(worktreeId: string): Promise<ProjectSettings> {
+    const worktreePath = path.join(
+      FileDataStoreService.getInstance().getWorktreesDirectory(),
+      path.basename(worktreeId)
+    );
+    return this.readProjectFile(worktreePath);
+  }
+
+  /**
+   * Project fetch trace/cache values for an SDK subprocess started in the worktree
+   */
+  async getProjectFetchOverrides(worktreePath: string): Promise<FetchSettingsOverrides> {
+    const { settings } = await this.readProjectFile(worktreePath);
+    return {
+      ...(settings.fetchTrace && { fetchTrace: settings.fetchTrace }),
+      ...(settings.fetchCache && { fetchCache: settings.fetchCache }),
+    };
+  }
+
+  /**
+   * User settings as a JSON file that importUserSettings() or a .autosteer.json accepts
+   */
+  async exportUserSettings(): Promise<string> {
+    const { layer } = await this.readUserLayer();
+    return JSON.stringify({ version: 1, ...layer }, null, 2);
+  }
+
+  /**
+   * Validate an exported settings file and save its values as user settings.
+   * Values missing from the file are kept. Throws without saving anything when the file
+   * is invalid.
+   */
+  async importUserSettings(content: string): Promise<SettingsLayer> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      throw new Error('Invalid settings file: not valid JSON');
+    }
+
+    const result = SettingsLayerSchema.safeParse(raw);
+    if (!result.success) {
+      const problems = result.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`
+      );
+      throw new Error(`Invalid settings file: ${problems.join('; ')}`);
+    }
+    const layer = result.data as SettingsLayer;
+    const fileDataStore = FileDataStoreService.getInstance();
+
+    if (layer.preferences) {
+      const config = await fileDataStore.readConfig();
+      config.settings = { ...config.settings, ...layer.preferences };
+      await fileDataStore.writeConfig(config);
+    }
+
+    if (layer.ide?.preferredEditor) {
+      this.ideStore.set('preferredEditor', layer.ide.preferredEditor);
+    }
+
+    if (layer.fetchTrace) {
+      const appConfig = await fileDataStore.readAppConfig();
+      const fetchTrace = { ...appConfig.fetchTrace, ...layer.fetchTrace };
+      appConfig.fetchTrace = fetchTrace;
+      await fileDataStore.writeAppConfig(appConfig);
+      updateFetchTraceSettings(fetchTrace);
+    }
+
+    if (layer.fetchCache) {
+      const appConfig = await fileDataStore.readAppConfig();
+      await FetchCacheInspectorService.getInstance().saveConfig({
+        ...appConfig.fetchCache,
+        ...layer.fetchCache,
+      });
+    }
+
+    logger.info('[EffectiveSettingsService] Imported settings:', {
+      sections: Object.keys(layer).filter((section) => section !== 'version'),
+    });
+    return layer;
+  }
+
+  // Built-in defaults, with fetch trace/cache defaults taken from the environment
+  private getDefaults(): UnifiedSettings {
+    const { fetchTrace, fetchCache } = getEnvironmentSettings();
+    return {
+      ...SETTINGS_DEFAULTS,
+      fetchTrace: {
+        enabled: fetchTrace.enabled,
+        includes: fetchTrace.includes,
+        excludes: fetchTrace.excludes,
+      },
+      fetchCache: {
+        enabled: fetchCache.enabled,
+        ttl: fetchCache.ttl,
+        maxSize: fetchCache.maxSize,
+        includes: fetchCache.includes,
+        excludes: fetchCache.excludes,
+      },
+    };
+  }
+
+  // config.json settings also hold state that is not a preference (layout, dev mode, ...)
+  private async readUserLayer(): Promise<{ layer: SettingsLayer; issues: SettingsIssue[] }> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const [config, appConfig] = await Promise.all([
+      fileDataStore.readConfig(),
+      fileDataStore.readAppConfig(),
+    ]);
+    const preferredEditor = this.ideStore.get('preferredEditor');
+
+    return parseSettingsLayer(
+      {
+        preferences: config.settings ?? {},
+        ide: { ...(preferredEditor && { preferredEditor }) },
+        fetchTrace: appConfig.fetchTrace ?? {},
+        fetchCache: appConfig.fetchCache ?? {},
+      },
+      'user',
+      'ignore'
+    );
+  }
+
+  private async readSessionLayer(
+    agentId: string
+  ): Promise<{ layer: SettingsLayer; issues: SettingsIssue[] }> {
+    const config = await FileDataStoreService.getInstance().readConfig();
+    const session = config.sessionSettings?.[agentId];
+
+    return parseSettingsLayer(
+      {
+        preferences: {
+          ...(session?.model && { defaultModel: session.model }),
+          ...(session?.permissionMode && { defaultPermissionMode: session.permissionMode }),
+        },
+      },
+      'session'
+    );
+  }
+
+  private async readProjectFile(worktreePath: string): Promise<ProjectSettings> {
+    const file = path.join(worktreePath, PROJECT_SETTINGS_FILE);
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('[EffectiveSettingsService] Failed to read project settings:', { file, error });
+      }
+      return { file, exists: false, settings: {}, issues: [] };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        file,
+        exists: true,
+        settings: {},
+        issues: [{ source: 'project', key: '', message: `Invalid JSON: ${message}` }],
+      };
+    }
+
+    const { layer, issues } = parseSettingsLayer(raw, 'project');
+    if (layer.ide) {
+      delete layer.ide;
+      issues.push({
+        source: 'project',
+        key: 'ide',
+        message: 'Editor settings depend on the machine and cannot be set by a project',
+      });
+    }
+    if (layer.preferences?.defaultPermissionMode !== undefined) {
+      delete layer.preferences.defaultPermissionMode;
+      issues.push({
+        source: 'project',
+        key: 'preferences.defaultPermissionMode',
+        message:
+          'The permission mode decides which tools run unasked and cannot be set by a project',
+      });
+    }
+    return { file, exists: true, settings: layer, issues };
+  }
+}
@@ -0,0 +1,108 @@
+import { calculateResultCost, ResultUsage } from '@/monitoring/utils/costCalculator';
+import type { FanOutRunRequest, FanOutRunResponse, FanOutTestResult } from '@/types/ipc.types';
+import { DEFAULT_MODEL } from '@/types/model.types';
+import { exec } from 'child_process';
+import log from 'electron-log';
+import { promisify } from 'util';
+import { AgentRunService } from './AgentRunService';
+import { FileDataStoreService } from './FileDataStoreService';
+
+const execAsync = promisify(exec);
+
+const TEST_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const TEST_OUTPUT_TAIL_CHARS = 4000;
+
+/**
+ * FanOutService - runs one variant of a fan-out
+ *
+ * A fan-out sends the same prompt to several agents, each in its own fresh
+ * worktree, so their results can be compared. The renderer creates the
+ * worktrees and agents; this service runs the prompt in one of them without
+ * a UI attached and reports cost, duration and test results.
+ */
+export class FanOutService {
+  private static instance: FanOutService;
+
+  static getInstance(): FanOutService {
+    if (!FanOutService.instance) {
+      FanOutService.instance = new FanOutService();
+    }
+    return FanOutService.instance;
+  }
+
+  /**
+   * Run the prompt headless, then the test command if there is one
+   */
+  async run(request: FanOutRunRequest): Promise<FanOutRunResponse> {
+    const { worktreeId, agentId, prompt, model, permissionMode, testCommand } = request;
+    const cwd = FileDataStoreService.getInstance().getWorktreePath(worktreeId);
+
+    const { sessionId, result, error, durationMs } = await AgentRunService.getInstance().run({
+      worktreeId,
+      agentId,
+      prompt,
+      ...(model && { model }),
+      ...(permissionMode && { permissionMode }),
+    });
+
+    const tests = testCommand && !error ? await this.runTests(cwd, testCommand) : undefined;
+    const costUsd = result
+      ? calculateResultCost(result as ResultUsage, model ?? DEFAULT_MODEL)
+      : undefined;
+
+    log.info('[FanOutService] Variant finished', {
+      worktreeId,
+      agentId,
+      durationMs,
+      costUsd,
+      testsPassed: tests?.passed,
+      error,
+    });
+
+    return {
+      success: !error,
+      durationMs,
+      ...(error && { error }),
+      ...(sessionId && { sessionId }),
+      ...(costUsd !== undefined && { costUsd }),
+      ...(result?.num_turns !== undefined && { numTurns: result.num_turns }),
+      ...(tests && { tests }),
+    };
+  }
+
+  /**
+   * Run a shell command in the worktree; a non-zero exit code means the tests failed
+   */
+  async runTests(cwd: string, command: string): Promise<FanOutTestResult> {
+    const startedAt = Date.now();
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd,
+        timeout: TEST_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return {
+        command,
+        passed: true,
+        exitCode: 0,
+        output: this.tail(`${stdout}${stderr}`),
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (err) {
+      const failure = err as { code?: unknown; stdout?: string; stderr?: string; message?: string };
+      return {
+        command,
+        passed: false,
+        exitCode: typeof failure.code === 'number' ? failure.code : null,
+        output: this.tail(`${failure.stdout ?? ''}${failure.stderr ?? failure.message ?? ''}`),
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private tail(output: string): string {
+    return output.length > TEST_OUTPUT_TAIL_CHARS
+      ? output.slice(output.length - TEST_OUTPUT_TAIL_CHARS)
+      : output;
+  }
+}
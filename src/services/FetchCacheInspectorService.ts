@@ -0,0 +1,95 @@
+import { logger } from '@/commons/utils/logger';
+import { PersistentFetchCache } from '@/commons/utils/persistent-fetch-cache';
+import { getFetchCacheSettings, updateFetchCacheSettings } from '@/config/settings';
+import type { FetchCacheConfig } from '@/types/config.types';
+import type {
+  FetchCacheEntryInfo,
+  FetchCacheEntryQuery,
+  FetchCacheSummary,
+} from '@/types/fetch-cache.types';
+import { FileDataStoreService } from './FileDataStoreService';
+
+/**
+ * FetchCacheInspectorService - inspects and tunes the persistent fetch cache
+ *
+ * The cache itself lives in the SDK subprocesses (see src/infrastructure/fetch), which share
+ * ~/.autosteer/cache/fetch-cache.db. This service opens the same database from the main
+ * process to browse, pin and delete entries, and keeps the cache settings in app.json so
+ * changes reach the next subprocess without restarting the app.
+ */
+export class FetchCacheInspectorService {
+  private static instance: FetchCacheInspectorService;
+  private cache: PersistentFetchCache | null = null;
+
+  static getInstance(): FetchCacheInspectorService {
+    if (!FetchCacheInspectorService.instance) {
+      FetchCacheInspectorService.instance = new FetchCacheInspectorService();
+    }
+    return FetchCacheInspectorService.instance;
+  }
+
+  /**
+   * Apply the cache settings saved in app.json over the FETCH_CACHE_* environment
+   */
+  async start(): Promise<void> {
+    const appConfig = await FileDataStoreService.getInstance().readAppConfig();
+    if (appConfig.fetchCache) {
+      updateFetchCacheSettings(appConfig.fetchCache);
+      logger.info('[FetchCacheInspectorService] Applied fetch cache settings from app.json');
+    }
+  }
+
+  /**
+   * Settings in effect for new SDK subprocesses
+   */
+  getConfig(): Required<FetchCacheConfig> {
+    const { enabled, ttl, maxSize, includes, excludes } = getFetchCacheSettings();
+    return { enabled, ttl, maxSize, includes, excludes };
+  }
+
+  /**
+   * Save settings to app.json and apply them to subprocesses started from now on
+   */
+  async saveConfig(config: FetchCacheConfig): Promise<void> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const appConfig = await fileDataStore.readAppConfig();
+    appConfig.fetchCache = config;
+    await fileDataStore.writeAppConfig(appConfig);
+
+    updateFetchCacheSettings(config);
+  }
+
+  getSummary(): FetchCacheSummary {
+    return this.getCache().getSummary();
+  }
+
+  listEntries(query: FetchCacheEntryQuery = {}): FetchCacheEntryInfo[] {
+    return this.getCache().listEntries(query);
+  }
+
+  deleteEntry(key: string): boolean {
+    return this.getCache().delete(key);
+  }
+
+  setPinned(key: string, pinned: boolean): boolean {
+    return this.getCache().setPinned(key, pinned);
+  }
+
+  clear(): void {
+    this.getCache().clear();
+  }
+
+  close(): void {
+    this.cache?.close();
+    this.cache = null;
+  }
+
+  // Opened on first use; opening prunes expired entries like a subprocess would
+  private getCache(): PersistentFetchCache {
+    if (!this.cache) {
+      const { maxSize, ttlMs } = getFetchCacheSettings();
+      this.cache = new PersistentFetchCache({ maxSize, ttl: ttlMs, logEnabled: false });
+    }
+    return this.cache;
+  }
+}
@@ -5,6 +5,8 @@ export interface FetchCacheOptions {
   maxSize?: number;
   ttl?: number;
   persistenceEnabled?: boolean;
+  cacheDir?: string;
+  fileName?: string;
 }
 
 export interface CacheStats {
@@ -16,7 +18,7 @@ export interface CacheStats {
 }
 
 export class FetchCacheService {
-  private cache: PersistentFetchCache;
+  protected cache: PersistentFetchCache;
   private readonly maxSize: number;
   private readonly ttl: number;
 
@@ -29,6 +31,8 @@ export class FetchCacheService {
       maxSize: this.maxSize,
       ttl: this.ttl,
       persistenceEnabled: options.persistenceEnabled ?? true,
+      ...(options.cacheDir && { cacheDir: options.cacheDir }),
+      ...(options.fileName && { fileName: options.fileName }),
     });
 
     // Note: No logging here - FetchCacheService runs in SDK subprocess where console output corrupts JSON protocol
@@ -52,7 +56,7 @@ export class FetchCacheService {
   async setWithMetadata(method: string, url: string, body: any, value: any): Promise<void> {
     const normalizedUrl = this.normalizeUrl(url);
     const key = this.generateCacheKey(method, normalizedUrl, body);
-    await this.cache.set(key, value);
+    await this.cache.set(key, value, { method, url: normalizedUrl });
   }
 
   has(key: string): boolean {
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FetchCacheService } from './FetchCacheService';
+
+export const CASSETTE_DIR = path.join(os.homedir(), '.autosteer', 'cassettes');
+
+// Request body fields that change between otherwise identical runs: the system prompt
+// carries the date and working directory, metadata carries the session id
+const IGNORED_BODY_FIELDS = ['system', 'metadata'];
+
+/**
+ * Named recording of the HTTP exchanges of an agent session, for deterministic replays.
+ * Stored like the fetch cache (SQLite at ~/.autosteer/cassettes/{name}.db) with every
+ * entry pinned, so recordings never expire. The SDK subprocess and the MCP servers it
+ * starts each open the cassette and append to it while recording.
+ *
+ * Requests are matched on method, URL and body (minus IGNORED_BODY_FIELDS). A request
+ * sent several times by a process gets the responses in the order they were recorded;
+ * sending it more often than it was recorded is an error, since the replay has diverged.
+ */
+export class FetchCassetteService extends FetchCacheService {
+  readonly name: string;
+  private occurrences = new Map<string, number>();
+
+  constructor(name: string) {
+    super({
+      maxSize: Number.MAX_SAFE_INTEGER,
+      cacheDir: CASSETTE_DIR,
+      fileName: FetchCassetteService.getFileName(name),
+    });
+    this.name = name;
+  }
+
+  /**
+   * Path of the cassette database
+   */
+  static getPath(name: string): string {
+    return path.join(CASSETTE_DIR, FetchCassetteService.getFileName(name));
+  }
+
+  /**
+   * Delete a cassette so it can be recorded again
+   */
+  static async remove(name: string): Promise<void> {
+    const dbPath = FetchCassetteService.getPath(name);
+    await Promise.all(
+      ['', '-wal', '-shm'].map((suffix) => fs.promises.rm(`${dbPath}${suffix}`, { force: true }))
+    );
+  }
+
+  private static getFileName(name: string): string {
+    return `${path.basename(name)}.db`;
+  }
+
+  /**
+   * Store a response; the response is read to its end, so pass a clone
+   */
+  async record(method: string, url: string, body: any, response: Response): Promise<void> {
+    const { baseKey, occurrence } = this.nextRequest(method, url, body);
+    const key = `${baseKey}:${occurrence}`;
+    await this.cache.set(key, response, { method, url: this.normalizeUrl(url) });
+    this.cache.setPinned(key, true);
+  }
+
+  /**
+   * Recorded response for the request, or undefined when the cassette has none
+   * @throws When the request is sent more often than it was recorded
+   */
+  replay(method: string, url: string, body: any): Response | undefined {
+    const { baseKey, occurrence } = this.nextRequest(method, url, body);
+    const response = this.cache.get(`${baseKey}:${occurrence}`);
+    if (!response && occurrence > 0 && this.cache.has(`${baseKey}:${occurrence - 1}`)) {
+      throw new Error(
+        `Cassette "${this.name}" recorded ${method} ${url} only ${occurrence} time${occurrence === 1 ? '' : 's'}`
+      );
+    }
+    return response;
+  }
+
+  close(): void {
+    this.cache.close();
+  }
+
+  /**
+   * Key of the request plus how often this process sent it before
+   */
+  private nextRequest(
+    method: string,
+    url: string,
+    body: any
+  ): { baseKey: string; occurrence: number } {
+    const baseKey = this.generateCacheKey(method, this.normalizeUrl(url), this.stripBody(body));
+    const occurrence = this.occurrences.get(baseKey) ?? 0;
+    this.occurrences.set(baseKey, occurrence + 1);
+    return { baseKey, occurrence };
+  }
+
+  private stripBody(body: any): any {
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+      return body;
+    }
+    return Object.fromEntries(
+      Object.entries(body).filter(([field]) => !IGNORED_BODY_FIELDS.includes(field))
+    );
+  }
+}
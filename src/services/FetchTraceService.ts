@@ -0,0 +1,99 @@
+import { app } from 'electron';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '@/commons/utils/logger';
+import {
+  FETCH_TRACE_SUFFIX,
+  fetchTraceToHar,
+  getFetchTraceLogName,
+  parseFetchTraceLog,
+} from '@/monitoring/utils/fetchTrace';
+import { FetchTraceEntry, FetchTraceLogInfo } from '@/types/fetch-trace.types';
+
+/**
+ * FetchTraceService - reads the HTTP traffic logged by the fetch tracer
+ *
+ * The tracer runs inside the SDK subprocess and every MCP server it starts (through
+ * NODE_OPTIONS), appending to one log per session and app launch:
+ * ~/.autosteer/sessions/{worktreeId}-{sessionId}-{timestamp}-fetch-trace.log
+ *
+ * @see src/infrastructure/fetch/tracer.ts
+ */
+export class FetchTraceService {
+  private static instance: FetchTraceService;
+  private logDir: string;
+
+  private constructor() {
+    // Use app.getPath if available (production), otherwise use fallback for tests
+    const homeDir = app?.getPath ? app.getPath('home') : os.homedir();
+    this.logDir = path.join(homeDir, '.autosteer', 'sessions');
+  }
+
+  static getInstance(): FetchTraceService {
+    if (!FetchTraceService.instance) {
+      FetchTraceService.instance = new FetchTraceService();
+    }
+    return FetchTraceService.instance;
+  }
+
+  /**
+   * List fetch trace logs, most recently modified first
+   */
+  async listLogs(): Promise<FetchTraceLogInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.logDir);
+    } catch (error) {
+      logger.warn('[FetchTraceService] Failed to read sessions directory:', {
+        error: String(error),
+      });
+      return [];
+    }
+
+    const logs: FetchTraceLogInfo[] = [];
+    for (const file of files.filter((name) => name.endsWith(FETCH_TRACE_SUFFIX))) {
+      const filePath = path.join(this.logDir, file);
+      try {
+        const stats = await fs.stat(filePath);
+        logs.push({
+          filePath,
+          name: getFetchTraceLogName(file),
+          size: stats.size,
+          modifiedAt: stats.mtime.toISOString(),
+        });
+      } catch (error) {
+        // File removed while listing, skip it
+      }
+    }
+
+    return logs.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+  }
+
+  /**
+   * Read the requests of a fetch trace log
+   * @throws If the path is not a fetch trace log in the sessions directory
+   */
+  async readLog(filePath: string): Promise<FetchTraceEntry[]> {
+    const resolved = path.resolve(filePath);
+    if (path.dirname(resolved) !== this.logDir || !resolved.endsWith(FETCH_TRACE_SUFFIX)) {
+      throw new Error('Not a fetch trace log');
+    }
+
+    const content = await fs.readFile(resolved, 'utf-8');
+    return parseFetchTraceLog(content);
+  }
+
+  /**
+   * Export requests of a log as HAR 1.2 JSON
+   * @param correlationIds - Only these requests; all of them when omitted
+   */
+  async exportHar(filePath: string, correlationIds?: string[]): Promise<string> {
+    const entries = await this.readLog(filePath);
+    const selected = correlationIds
+      ? entries.filter((entry) => correlationIds.includes(entry.correlationId))
+      : entries;
+    const version = app?.getVersion ? app.getVersion() : 'unknown';
+    return JSON.stringify(fetchTraceToHar(selected, version), null, 2);
+  }
+}
@@ -0,0 +1,78 @@
+import { logger } from '@/commons/utils/logger';
+import { GitCommitOptions, GitCommitResult, GitSyncStatus } from '@/types/git-diff.types';
+
+interface GitOperationResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Renderer-side wrapper for commit, push and pull IPC channels
+ */
+export class GitCommitService {
+  static async commit(
+    repoPath: string,
+    message: string,
+    options: GitCommitOptions = {}
+  ): Promise<GitCommitResult> {
+    logger.debug('[GitCommitService] Committing', { repoPath, amend: Boolean(options.amend) });
+
+    const result = await window.electron.ipcRenderer.invoke('git:commit', {
+      repoPath,
+      message,
+      amend: Boolean(options.amend),
+    });
+
+    return GitCommitService.unwrap<GitCommitResult>(result, 'Commit failed');
+  }
+
+  static async getLastCommitMessage(repoPath: string): Promise<string> {
+    const result = await window.electron.ipcRenderer.invoke('git:last-commit-message', repoPath);
+    return typeof result === 'string' ? result : '';
+  }
+
+  static async getSyncStatus(repoPath: string): Promise<GitSyncStatus> {
+    const result = await window.electron.ipcRenderer.invoke('git:sync-status', repoPath);
+    return GitCommitService.unwrap<GitSyncStatus>(result, 'Failed to get sync status');
+  }
+
+  static async push(repoPath: string): Promise<string> {
+    logger.debug('[GitCommitService] Pushing', { repoPath });
+    const result = await window.electron.ipcRenderer.invoke('git:push', repoPath);
+    return GitCommitService.unwrapOperation(result, 'Push failed');
+  }
+
+  static async pull(repoPath: string): Promise<string> {
+    logger.debug('[GitCommitService] Pulling', { repoPath });
+    const result = await window.electron.ipcRenderer.invoke('git:pull', repoPath);
+    return GitCommitService.unwrapOperation(result, 'Pull failed');
+  }
+
+  /**
+   * Throw on safe-handler error responses, otherwise return the payload
+   */
+  private static unwrap<T>(result: unknown, fallbackMessage: string): T {
+    if (
+      result &&
+      typeof result === 'object' &&
+      'success' in result &&
+      (result as GitOperationResponse).success === false
+    ) {
+      const { message, error } = result as GitOperationResponse;
+      throw new Error(message || error || fallbackMessage);
+    }
+    return result as T;
+  }
+
+  /**
+   * GitService operations resolve with { success, message, error } instead of throwing
+   */
+  private static unwrapOperation(result: unknown, fallbackMessage: string): string {
+    const response = result as GitOperationResponse | undefined;
+    if (!response?.success) {
+      throw new Error(response?.error || response?.message || fallbackMessage);
+    }
+    return response.message || '';
+  }
+}
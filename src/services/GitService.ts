@@ -1,8 +1,10 @@
 import { exec, spawn } from 'child_process';
 import log from 'electron-log/main';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
+import { GitSyncStatus } from '@/types/git-diff.types';
 
 const execAsync = promisify(exec);
 
@@ -77,10 +79,26 @@ function execWithStreaming(
 }
 const fsPromises = {
   access: promisify(fs.access),
+  copyFile: promisify(fs.copyFile),
   mkdir: promisify(fs.mkdir),
   rm: promisify(fs.rm),
+  writeFile: promisify(fs.writeFile),
 };
 
+// Hidden refs that keep turn checkpoint commits from being garbage collected
+export const CHECKPOINT_REF_PREFIX = 'refs/autosteer/checkpoints';
+
+// Fixed identity so checkpoint commits work without a configured git user
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'AutoSteer',
+  GIT_AUTHOR_EMAIL: 'checkpoints@autosteer.local',
+  GIT_COMMITTER_NAME: 'AutoSteer',
+  GIT_COMMITTER_EMAIL: 'checkpoints@autosteer.local',
+};
+
+// Minimum time between the fetches that refresh a repository's behind count
+const SYNC_FETCH_INTERVAL_MS = 60 * 1000;
+
 export interface GitOperationResult {
   success: boolean;
   message: string;
@@ -95,6 +113,7 @@ export interface GitCloneOptions {
 
 export class GitService {
   private static instance: GitService;
+  private lastSyncFetchAt = new Map<string, number>();
 
   private constructor() {}
 
@@ -894,16 +913,18 @@ export class GitService {
    *
    * @param repoPath - Path to the git repository
    * @param branchName - Name of the branch to check
+   * @param upstream - Ref the branch is compared with, `origin/<branchName>` by default
    * @returns Number of unpushed commits, or 0 if branch is up to date or on error
    */
-  async getUnpushedCommitCount(repoPath: string, branchName: string): Promise<number> {
+  async getUnpushedCommitCount(
+    repoPath: string,
+    branchName: string,
+    upstream = `origin/${branchName}`
+  ): Promise<number> {
     try {
-      const { stdout } = await execAsync(
-        `git rev-list origin/${branchName}..${branchName} --count`,
-        {
-          cwd: repoPath,
-        }
-      );
+      const { stdout } = await execAsync(`git rev-list ${upstream}..${branchName} --count`, {
+        cwd: repoPath,
+      });
 
       const count = parseInt(stdout.trim(), 10);
       return isNaN(count) ? 0 : count;
@@ -914,6 +935,129 @@ export class GitService {
     }
   }
 
+  /**
+   * Get the current branch and how far it is ahead of / behind its upstream
+   *
+   * The upstream's remote is fetched first, at most once per SYNC_FETCH_INTERVAL_MS per
+   * repository, so the behind count reflects the remote rather than the last manual fetch.
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @returns Sync status; ahead/behind are 0 when the branch has no tracking upstream
+   */
+  async getSyncStatus(repoPath: string): Promise<GitSyncStatus> {
+    const branch = await this.getCurrentBranch(repoPath);
+
+    if (!branch || branch === 'HEAD') {
+      return { branch: null, ahead: 0, behind: 0, hasUpstream: false };
+    }
+
+    // Only a configured tracking branch counts: a bare `git pull` needs one
+    let upstream: string;
+    try {
+      const { stdout } = await execAsync('git rev-parse --abbrev-ref --symbolic-full-name @{u}', {
+        cwd: repoPath,
+      });
+      upstream = stdout.trim();
+    } catch {
+      return { branch, ahead: 0, behind: 0, hasUpstream: false };
+    }
+
+    await this.fetchUpstream(repoPath);
+
+    // Behind counts the other way round: upstream commits the branch does not have
+    const ahead = await this.getUnpushedCommitCount(repoPath, branch, upstream);
+    const behind = await this.getUnpushedCommitCount(repoPath, upstream, branch);
+    return { branch, ahead, behind, hasUpstream: true };
+  }
+
+  /**
+   * Fetch the current branch's remote unless it was fetched recently. Failures (offline,
+   * missing credentials) are logged and leave the last fetched state in place.
+   */
+  private async fetchUpstream(repoPath: string): Promise<void> {
+    const lastFetchAt = this.lastSyncFetchAt.get(repoPath) ?? 0;
+    if (Date.now() - lastFetchAt < SYNC_FETCH_INTERVAL_MS) {
+      return;
+    }
+    this.lastSyncFetchAt.set(repoPath, Date.now());
+
+    try {
+      await execAsync('git fetch --quiet', {
+        cwd: repoPath,
+        timeout: 30000,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log.debug(`[GitService] Could not fetch upstream for "${repoPath}": ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Push the current branch to its configured upstream. A branch without one is pushed
+   * to origin and set to track it.
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   */
+  async push(repoPath: string): Promise<GitOperationResult> {
+    try {
+      const branch = await this.getCurrentBranch(repoPath);
+      if (!branch || branch === 'HEAD') {
+        return {
+          success: false,
+          message: 'Failed to push changes',
+          error: 'Cannot push from a detached HEAD',
+        };
+      }
+
+      const upstream = await this.getUpstreamConfig(repoPath, branch);
+      const command = upstream
+        ? `git push "${upstream.remote}" "HEAD:${upstream.mergeRef}"`
+        : `git push -u origin "${branch}"`;
+      await execAsync(command, {
+        cwd: repoPath,
+        timeout: 120000, // 2 minute timeout
+      });
+
+      const remote = upstream?.remote ?? 'origin';
+      log.info(`[GitService] Pushed branch "${branch}" to "${remote}"`);
+      return {
+        success: true,
+        message: `Pushed ${branch} to ${remote}`,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log.error('[GitService] Failed to push:', errorMessage);
+      return {
+        success: false,
+        message: 'Failed to push changes',
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Remote and remote branch a local branch tracks, or null when it has no upstream
+   */
+  private async getUpstreamConfig(
+    repoPath: string,
+    branch: string
+  ): Promise<{ remote: string; mergeRef: string } | null> {
+    try {
+      const { stdout: remote } = await execAsync(`git config --get "branch.${branch}.remote"`, {
+        cwd: repoPath,
+      });
+      const { stdout: mergeRef } = await execAsync(`git config --get "branch.${branch}.merge"`, {
+        cwd: repoPath,
+      });
+      return remote.trim() && mergeRef.trim()
+        ? { remote: remote.trim(), mergeRef: mergeRef.trim() }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Check if a branch is protected (main, master, develop, staging, production)
    *
@@ -1010,4 +1154,199 @@ export class GitService {
       return 0;
     }
   }
+
+  /**
+   * Restore the files of a checkpoint created by createCheckpoint.
+   * Current changes are stashed first so they can be recovered with `git stash pop`;
+   * files created after the checkpoint are left in place. The files are written from a
+   * temporary index, so nothing ends up staged.
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @param checkpoint - Checkpoint sha
+   */
+  async restoreCheckpoint(repoPath: string, checkpoint: string): Promise<GitOperationResult> {
+    const tempIndex = path.join(
+      os.tmpdir(),
+      `autosteer-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    const env = { ...process.env, GIT_INDEX_FILE: tempIndex };
+
+    try {
+      const { stdout: status } = await execAsync('git status --porcelain', { cwd: repoPath });
+      const stashed = status.trim().length > 0;
+      if (stashed) {
+        await execAsync('git stash push --include-untracked -m "autosteer: before restore"', {
+          cwd: repoPath,
+        });
+      }
+
+      await execAsync(`git read-tree ${checkpoint}`, { cwd: repoPath, env });
+      await execAsync('git checkout-index -a -f', { cwd: repoPath, env });
+
+      const short = checkpoint.slice(0, 7);
+      log.info(`[GitService] Restored worktree to ${short}`);
+      return {
+        success: true,
+        message: stashed
+          ? `Restored files to ${short}; previous changes were stashed`
+          : `Restored files to ${short}`,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log.error('[GitService] Failed to restore checkpoint:', errorMessage);
+      return {
+        success: false,
+        message: 'Failed to restore files',
+        error: errorMessage,
+      };
+    } finally {
+      await fsPromises.rm(tempIndex, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Record the full worktree state, tracked and untracked files alike, as a
+   * shadow commit on top of HEAD. A temporary index is used, so the real index,
+   * the working tree and the branch are left untouched.
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @param refName - Optional ref under CHECKPOINT_REF_PREFIX that keeps the commit alive
+   * @returns The commit sha, or null if the directory is not a git checkout
+   */
+  async createCheckpoint(repoPath: string, refName?: string): Promise<string | null> {
+    const tempIndex = path.join(
+      os.tmpdir(),
+      `autosteer-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    const env = { ...process.env, ...CHECKPOINT_IDENTITY, GIT_INDEX_FILE: tempIndex };
+
+    try {
+      let head: string | null = null;
+      try {
+        const { stdout } = await execAsync('git rev-parse --verify -q HEAD', { cwd: repoPath });
+        head = stdout.trim() || null;
+      } catch {
+        // Repository without commits yet
+      }
+
+      // Start from a copy of the real index so unchanged files are not rehashed
+      const { stdout: indexPath } = await execAsync('git rev-parse --git-path index', {
+        cwd: repoPath,
+      });
+      try {
+        await fsPromises.copyFile(path.resolve(repoPath, indexPath.trim()), tempIndex);
+      } catch {
+        await execAsync(head ? 'git read-tree HEAD' : 'git read-tree --empty', {
+          cwd: repoPath,
+          env,
+        });
+      }
+
+      await execAsync('git add -A', { cwd: repoPath, env });
+      const { stdout: tree } = await execAsync('git write-tree', { cwd: repoPath, env });
+      const { stdout: commit } = await execAsync(
+        `git commit-tree ${tree.trim()}${head ? ` -p ${head}` : ''} -m "autosteer checkpoint"`,
+        { cwd: repoPath, env }
+      );
+      const sha = commit.trim();
+
+      if (refName) {
+        await execAsync(`git update-ref ${CHECKPOINT_REF_PREFIX}/${refName} ${sha}`, {
+          cwd: repoPath,
+        });
+      }
+      return sha;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log.debug(`[GitService] Could not create checkpoint: ${errorMessage}`);
+      return null;
+    } finally {
+      await fsPromises.rm(tempIndex, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * List the files that differ between two checkpoints
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @param from - Older checkpoint sha
+   * @param to - Newer checkpoint sha
+   */
+  async getCheckpointChangedFiles(repoPath: string, from: string, to: string): Promise<string[]> {
+    const { stdout } = await execAsync(`git diff --name-only ${from} ${to}`, { cwd: repoPath });
+    return stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  }
+
+  /**
+   * Undo the changes made between two checkpoints by applying their diff in
+   * reverse to the working tree. Edits made outside that range are kept; when
+   * they touch the same lines nothing is changed and the conflict is reported.
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @param from - Checkpoint taken before the changes
+   * @param to - Checkpoint taken after the changes
+   */
+  async revertCheckpointRange(
+    repoPath: string,
+    from: string,
+    to: string
+  ): Promise<GitOperationResult> {
+    const patchPath = path.join(
+      os.tmpdir(),
+      `autosteer-revert-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.patch`
+    );
+
+    try {
+      const { stdout: patch } = await execAsync(`git diff --binary ${from} ${to}`, {
+        cwd: repoPath,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      if (!patch.trim()) {
+        return { success: true, message: 'Nothing to undo' };
+      }
+
+      await fsPromises.writeFile(patchPath, patch, 'utf-8');
+      try {
+        await execAsync(`git apply -R --check "${patchPath}"`, { cwd: repoPath });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          success: false,
+          message: 'Files were changed again after this turn; nothing was undone',
+          error: errorMessage,
+        };
+      }
+
+      await execAsync(`git apply -R "${patchPath}"`, { cwd: repoPath });
+      log.info(`[GitService] Reverted changes ${from.slice(0, 7)}..${to.slice(0, 7)}`);
+      return { success: true, message: 'Changes from this turn were undone' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      log.error('[GitService] Failed to revert checkpoint range:', errorMessage);
+      return { success: false, message: 'Failed to undo changes', error: errorMessage };
+    } finally {
+      await fsPromises.rm(patchPath, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Delete checkpoint refs so their commits can be garbage collected
+   *
+   * @param repoPath - Path to the git repository (or worktree)
+   * @param refNames - Ref names relative to CHECKPOINT_REF_PREFIX
+   */
+  async deleteCheckpointRefs(repoPath: string, refNames: string[]): Promise<void> {
+    for (const refName of refNames) {
+      try {
+        await execAsync(`git update-ref -d ${CHECKPOINT_REF_PREFIX}/${refName}`, {
+          cwd: repoPath,
+        });
+      } catch (error) {
+        log.debug(`[GitService] Could not delete checkpoint ref ${refName}: ${error}`);
+      }
+    }
+  }
 }
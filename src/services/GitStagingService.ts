@@ -0,0 +1,62 @@
+import { logger } from '@/commons/utils/logger';
+import { DiffHunk, StageLineInfo } from '@/types/git-diff.types';
+
+/**
+ * Renderer-side wrapper for the git-diff staging IPC channels.
+ *
+ * Hunks and lines passed to the stage* methods must come from the unstaged diff
+ * (`git-diff:get-unstaged`), and those passed to unstage* from the staged diff
+ * (`git-diff:get-staged`).
+ */
+export class GitStagingService {
+  static async stageFile(repoPath: string, filePath: string): Promise<void> {
+    await GitStagingService.invoke('git-diff:stage-file', { repoPath, filePath });
+  }
+
+  static async unstageFile(repoPath: string, filePath: string): Promise<void> {
+    await GitStagingService.invoke('git-diff:unstage-file', { repoPath, filePath });
+  }
+
+  static async stageHunk(repoPath: string, filePath: string, hunk: DiffHunk): Promise<void> {
+    await GitStagingService.invoke('git-diff:stage-hunk', { repoPath, filePath, hunk });
+  }
+
+  static async unstageHunk(repoPath: string, filePath: string, hunk: DiffHunk): Promise<void> {
+    await GitStagingService.invoke('git-diff:unstage-hunk', { repoPath, filePath, hunk });
+  }
+
+  static async stageLines(
+    repoPath: string,
+    filePath: string,
+    lines: StageLineInfo[]
+  ): Promise<void> {
+    await GitStagingService.invoke('git-diff:stage-lines', { repoPath, filePath, lines });
+  }
+
+  static async unstageLines(
+    repoPath: string,
+    filePath: string,
+    lines: StageLineInfo[]
+  ): Promise<void> {
+    await GitStagingService.invoke('git-diff:unstage-lines', { repoPath, filePath, lines });
+  }
+
+  /**
+   * Invoke a staging channel and turn safe-handler error responses into exceptions
+   */
+  private static async invoke(
+    channel: string,
+    params: { repoPath: string; filePath: string; hunk?: DiffHunk; lines?: StageLineInfo[] }
+  ): Promise<void> {
+    logger.debug(`[GitStagingService] Calling ${channel}`, {
+      repoPath: params.repoPath,
+      filePath: params.filePath,
+    });
+
+    const result = await window.electron.ipcRenderer.invoke(channel, params);
+
+    if (result && typeof result === 'object' && 'success' in result && !result.success) {
+      throw new Error(result.message || result.error || `${channel} failed`);
+    }
+  }
+}
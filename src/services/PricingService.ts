@@ -0,0 +1,57 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '@/commons/utils/logger';
+import { PricingOverrides, PricingTable } from '@/monitoring/interfaces/types';
+import {
+  DEFAULT_PRICING_TABLE,
+  mergePricingOverrides,
+  setPricingTable,
+} from '@/monitoring/utils/costCalculator';
+
+/**
+ * Loads the pricing table from ~/.autosteer/pricing.json
+ *
+ * The file holds overrides merged over the built-in table, e.g. negotiated rates:
+ * `{ "version": 1, "models": { "claude-opus-4-5": { "input": 4.5 } } }`.
+ * A missing or invalid file leaves the built-in table in place.
+ */
+export class PricingService {
+  private static instance: PricingService;
+  private pricingPath: string;
+  private table: PricingTable = DEFAULT_PRICING_TABLE;
+
+  private constructor() {
+    this.pricingPath = path.join(app.getPath('home'), '.autosteer', 'pricing.json');
+  }
+
+  static getInstance(): PricingService {
+    if (!PricingService.instance) {
+      PricingService.instance = new PricingService();
+    }
+    return PricingService.instance;
+  }
+
+  /**
+   * Read pricing.json and make the result the table for the main process
+   */
+  async load(): Promise<PricingTable> {
+    this.table = DEFAULT_PRICING_TABLE;
+    try {
+      const content = await fs.promises.readFile(this.pricingPath, 'utf-8');
+      this.table = mergePricingOverrides(JSON.parse(content) as PricingOverrides);
+      logger.info(`[PricingService] Loaded pricing overrides from ${this.pricingPath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('[PricingService] Ignoring invalid pricing.json:', error);
+      }
+    }
+
+    setPricingTable(this.table);
+    return this.table;
+  }
+
+  getTable(): PricingTable {
+    return this.table;
+  }
+}
@@ -2,9 +2,18 @@ import type {
   QueryManagerOptions,
   QueryManagerStats,
   SessionMetrics,
+  StreamingTurnOptions,
   VirtualSession,
 } from '@/types/query-manager.types';
-import { query, type Options, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  query,
+  type CanUseTool,
+  type Options,
+  type PermissionMode,
+  type Query,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
 import { EventEmitter } from 'node:events';
 import log from 'electron-log';
 import { nanoid } from 'nanoid';
@@ -13,24 +22,117 @@ const DEFAULT_MAX_SESSIONS = 10;
 const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 const DEFAULT_MCP_TIMEOUT = 5000; // 5 seconds
 
+/**
+ * Minimal unbounded async queue: producers push, a single consumer iterates.
+ * Used both as the prompt stream fed to the SDK and as the per-turn output stream.
+ */
+class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private closed = false;
+  private error: Error | null = null;
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  push(item: T): void {
+    if (this.closed) {
+      throw new Error('Cannot push to a closed stream');
+    }
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ done: false, value: item });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * End the stream; buffered items are still delivered before `done` (or the error)
+   */
+  close(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error ?? null;
+    if (this.waiting) {
+      const { resolve, reject } = this.waiting;
+      this.waiting = null;
+      if (this.error) {
+        reject(this.error);
+      } else {
+        resolve({ done: true, value: undefined });
+      }
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ done: false, value: this.items.shift()! });
+        }
+        if (this.closed) {
+          return this.error
+            ? Promise.reject(this.error)
+            : Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise((resolve, reject) => {
+          this.waiting = { resolve, reject };
+        });
+      },
+    };
+  }
+}
+
+/**
+ * One user message in flight and the stream its SDK messages are routed to
+ */
+interface PendingTurn {
+  correlationId: string;
+  output: AsyncQueue<SDKMessage>;
+  canUseTool?: CanUseTool;
+}
+
+/**
+ * Long-lived SDK query backing a virtual session
+ */
+interface StreamingQuery {
+  query: Query;
+  prompt: AsyncQueue<SDKUserMessage>;
+  turns: PendingTurn[]; // FIFO; the SDK answers user messages in order
+  idleTimer: NodeJS.Timeout | null;
+  stopping: boolean;
+  processKey: string | null;
+  model: string | undefined;
+  permissionMode: PermissionMode | undefined;
+}
+
 /**
  * QueryManager - Manages SDK queries with session abstraction
  *
- * CURRENT LIMITATION (SDK Architecture):
- * Due to SDK constraints, each message creates a new Agent instance and sends
- * an init message, recreating the prompt cache (~28K tokens per message).
- *
- * This is a KNOWN LIMITATION of the current SDK design. The architecture is
- * kept simple and ready for future upgrade when SDK adds proper session
- * management (AsyncIterable prompt support).
+ * Each virtual session owns one long-lived SDK query whose prompt is an
+ * AsyncIterable. Follow-up messages are pushed into that stream, so the same
+ * Agent process (and its ~28K-token prompt cache) serves every turn, and
+ * interrupts go to the same process via `Query.interrupt()`.
  *
- * Performance Impact:
- * - Message 1: init sent, cache created (28K tokens)
- * - Message 2+: init sent, cache created (28K tokens) ← unavoidable with current SDK
+ * Output is split into turns: the SDK answers user messages in order and ends
+ * each answer with a `result` message, so messages are routed to the oldest
+ * pending turn until its result arrives.
  *
- * TODO: When SDK adds proper session management:
- * - Expected performance: 60% faster, no cache recreation
+ * Callers pass the SDK options of each turn. The model and permission mode are
+ * switched on the live process; any other change (see `processKey`), or a
+ * request to resume a different SDK session, restarts it. Permission prompts
+ * go to the `canUseTool` of the turn they belong to.
  *
+ * The process is closed when the session is closed, evicted or idle for
+ * `sessionIdleTimeout`; the next message starts a new query that resumes the
+ * SDK session from disk. `SessionMetrics` counts query starts and cache
+ * read/creation tokens so the savings can be measured.
  */
 export class QueryManager extends EventEmitter {
   private readonly projectId: string;
@@ -40,6 +142,7 @@ export class QueryManager extends EventEmitter {
   private virtualSessions: Map<string, VirtualSession> = new Map();
   private sessionMetrics: Map<string, SessionMetrics> = new Map();
   private sdkSessionIds: Map<string, string> = new Map(); // virtual sessionId → SDK session_id
+  private streamingQueries: Map<string, StreamingQuery> = new Map();
 
   constructor(projectId: string, projectPath: string, options: QueryManagerOptions = {}) {
     super();
@@ -61,8 +164,8 @@ export class QueryManager extends EventEmitter {
   /**
    * Get or create a virtual session
    *
-   * Sessions are lightweight - just metadata tracking.
-   * The actual SDK session (Agent instance) is created per-message.
+   * Sessions are lightweight metadata; the SDK query is started lazily by the
+   * first sendMessage() and then kept alive across turns.
    */
   async getOrCreateSession(agentId: string, sessionId: string): Promise<string> {
     // Check session limit
@@ -83,6 +186,7 @@ export class QueryManager extends EventEmitter {
         lastActivity: new Date(),
         sequenceNumber: 0,
         isActive: true,
+        isStreaming: false,
       };
       this.virtualSessions.set(sessionId, session);
 
@@ -94,6 +198,10 @@ export class QueryManager extends EventEmitter {
         validationErrors: 0,
         cacheHits: 0,
         cacheMisses: 0,
+        queryStarts: 0,
+        turnsCompleted: 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
       });
 
       log.info('[QueryManager] 📝 Created virtual session', {
@@ -110,21 +218,20 @@ export class QueryManager extends EventEmitter {
   }
 
   /**
-   * Send a message and get SDK message stream
+   * Send a message and get the SDK message stream for this turn
    *
-   * PERFORMANCE NOTE:
-   * Each call creates a new Agent instance → sends init → recreates cache.
-   * This is unavoidable with current SDK architecture.
+   * The message is pushed into the session's long-lived query (started on
+   * first use). Messages sent while an earlier turn is still running are
+   * answered after it, in order.
    *
-   * The `resume` parameter loads conversation history from disk but still
-   * creates a new Agent and sends init.
-   *
-   * @returns AsyncIterable of SDK messages for this query
+   * @param turnOptions - SDK options for this turn; without them the query runs
+   *   in the project directory with default settings
+   * @returns AsyncIterable of SDK messages for this turn, ending with its result
    */
   async sendMessage(
     sessionId: string,
     content: string,
-    attachments?: unknown[]
+    turnOptions?: StreamingTurnOptions
   ): Promise<AsyncIterable<SDKMessage>> {
     const session = this.virtualSessions.get(sessionId);
     if (!session) {
@@ -143,27 +250,141 @@ export class QueryManager extends EventEmitter {
       metrics.messagesSent++;
     }
 
+    let streaming = this.streamingQueries.get(sessionId);
+    if (streaming && turnOptions && this.needsRestart(sessionId, streaming, turnOptions)) {
+      log.info('[QueryManager] 🔁 Restarting streaming query for new options', {
+        projectId: this.projectId,
+        sessionId,
+        pendingTurns: streaming.turns.length,
+      });
+      await this.stopStreamingQuery(sessionId);
+      streaming = undefined;
+    }
+    if (streaming) {
+      await this.applyTurnSettings(sessionId, streaming, turnOptions);
+    } else {
+      streaming = this.startStreamingQuery(sessionId, turnOptions);
+    }
+
+    if (streaming.idleTimer) {
+      clearTimeout(streaming.idleTimer);
+      streaming.idleTimer = null;
+    }
+
     log.info('[QueryManager] 📤 Sending message', {
       projectId: this.projectId,
       sessionId,
       correlationId,
       sequenceNumber: session.sequenceNumber,
       contentLength: content.length,
-      hasAttachments: !!attachments?.length,
+      queuedBehind: streaming.turns.length,
     });
 
-    // Build SDK options
-    const sdkOptions: Options = {
-      cwd: this.projectPath,
-      settingSources: ['project', 'local', 'user'],
-      env: {
-        ...process.env,
-        MCP_TIMEOUT: String(this.options.mcpTimeout),
-      },
+    const turn: PendingTurn = {
+      correlationId,
+      output: new AsyncQueue<SDKMessage>(),
+      ...(turnOptions?.canUseTool && { canUseTool: turnOptions.canUseTool }),
     };
+    streaming.turns.push(turn);
+
+    streaming.prompt.push({
+      type: 'user',
+      message: { role: 'user', content },
+      parent_tool_use_id: null,
+      session_id: this.sdkSessionIds.get(sessionId) ?? '',
+    });
+
+    return turn.output;
+  }
+
+  /**
+   * Interrupt the running turn of a session
+   *
+   * The interrupt goes to the live SDK process; the turn still ends with a
+   * result message and the session stays usable for follow-up messages.
+   */
+  async interrupt(sessionId: string): Promise<void> {
+    const streaming = this.streamingQueries.get(sessionId);
+    if (!streaming || streaming.turns.length === 0) {
+      return;
+    }
+
+    log.info('[QueryManager] ⏹️ Interrupting session', {
+      projectId: this.projectId,
+      sessionId,
+      pendingTurns: streaming.turns.length,
+    });
+    await streaming.query.interrupt();
+  }
+
+  /**
+   * Whether a turn's options cannot be served by the running process
+   */
+  private needsRestart(
+    sessionId: string,
+    streaming: StreamingQuery,
+    turnOptions: StreamingTurnOptions
+  ): boolean {
+    const { sdkOptions, processKey } = turnOptions;
+    return (
+      processKey !== streaming.processKey ||
+      // Branching from an earlier message, or continuing another (or no) SDK session
+      !!sdkOptions.resumeSessionAt ||
+      sdkOptions.resume !== this.sdkSessionIds.get(sessionId)
+    );
+  }
+
+  /**
+   * Switch the live process to the model and permission mode of this turn
+   */
+  private async applyTurnSettings(
+    sessionId: string,
+    streaming: StreamingQuery,
+    turnOptions: StreamingTurnOptions | undefined
+  ): Promise<void> {
+    if (!turnOptions) {
+      return;
+    }
+
+    const { model, permissionMode = 'default' } = turnOptions.sdkOptions;
+    if (model !== streaming.model) {
+      await streaming.query.setModel(model);
+      streaming.model = model;
+    }
+    if (permissionMode !== streaming.permissionMode) {
+      await streaming.query.setPermissionMode(permissionMode);
+      streaming.permissionMode = permissionMode;
+    }
+
+    log.debug('[QueryManager] Applied turn settings', {
+      projectId: this.projectId,
+      sessionId,
+      model,
+      permissionMode,
+    });
+  }
 
-    // Add resume parameter if we have an SDK session ID from previous messages
-    const sdkSessionId = this.sdkSessionIds.get(sessionId);
+  /**
+   * Start the long-lived SDK query for a session
+   */
+  private startStreamingQuery(
+    sessionId: string,
+    turnOptions?: StreamingTurnOptions
+  ): StreamingQuery {
+    const sdkOptions: Options = turnOptions
+      ? { ...turnOptions.sdkOptions }
+      : {
+          cwd: this.projectPath,
+          settingSources: ['project', 'local', 'user'],
+          env: {
+            ...process.env,
+            MCP_TIMEOUT: String(this.options.mcpTimeout),
+          },
+        };
+
+    // Resume the SDK session when the previous process was closed (idle/crash);
+    // callers passing options decide what to resume themselves
+    const sdkSessionId = turnOptions ? sdkOptions.resume : this.sdkSessionIds.get(sessionId);
     if (sdkSessionId) {
       sdkOptions.resume = sdkSessionId;
       log.debug('[QueryManager] 🔄 Resuming SDK session', {
@@ -173,93 +394,228 @@ export class QueryManager extends EventEmitter {
       });
     }
 
-    // Create query (this creates a new Agent instance)
-    // TODO: When SDK supports AsyncIterable, switch to persistent Agent per session
-    const messageQuery = query({
-      prompt: content,
-      options: sdkOptions,
+    // Permission prompts belong to the turn that is running
+    const turns: PendingTurn[] = [];
+    sdkOptions.canUseTool = async (toolName, input, options) => {
+      const canUseTool = turns[0]?.canUseTool;
+      return canUseTool
+        ? canUseTool(toolName, input, options)
+        : { behavior: 'deny', message: 'No one is available to approve this tool use.' };
+    };
+
+    const prompt = new AsyncQueue<SDKUserMessage>();
+    const streaming: StreamingQuery = {
+      query: query({ prompt, options: sdkOptions }),
+      prompt,
+      turns,
+      idleTimer: null,
+      stopping: false,
+      processKey: turnOptions?.processKey ?? null,
+      model: sdkOptions.model,
+      permissionMode: sdkOptions.permissionMode ?? 'default',
+    };
+    this.streamingQueries.set(sessionId, streaming);
+
+    const session = this.virtualSessions.get(sessionId);
+    if (session) {
+      session.isStreaming = true;
+    }
+    const metrics = this.sessionMetrics.get(sessionId);
+    if (metrics) {
+      metrics.queryStarts++;
+    }
+
+    log.info('[QueryManager] 🔌 Started streaming query', {
+      projectId: this.projectId,
+      virtualSessionId: sessionId,
+      resumed: !!sdkSessionId,
+      queryStarts: metrics?.queryStarts,
     });
 
-    // Wrap the query to:
-    // 1. Capture SDK session ID from init message
-    // 2. Add virtual session_id for routing
-    // 3. Update metrics
-    return this.wrapQuery(sessionId, correlationId, messageQuery);
+    void this.pumpStreamingQuery(sessionId, streaming);
+    return streaming;
   }
 
   /**
-   * Wrap SDK query to capture session ID and add virtual routing metadata
+   * Read the session's SDK output for its whole lifetime and route it to turns
    */
-  private async *wrapQuery(
+  private async pumpStreamingQuery(
     virtualSessionId: string,
-    correlationId: string,
-    sdkQuery: AsyncIterable<SDKMessage>
-  ): AsyncGenerator<SDKMessage, void, unknown> {
-    let messageCount = 0;
-    const metrics = this.sessionMetrics.get(virtualSessionId);
+    streaming: StreamingQuery
+  ): Promise<void> {
+    let failure: Error | null = null;
 
     try {
-      for await (const sdkMessage of sdkQuery) {
-        messageCount++;
-
-        // Capture SDK session ID from init message (first message)
-        if (sdkMessage.type === 'system' && (sdkMessage as any).subtype === 'init') {
-          const sdkSessionId = (sdkMessage as any).session_id;
-          if (sdkSessionId) {
-            this.sdkSessionIds.set(virtualSessionId, sdkSessionId);
-            log.info('[QueryManager] 💾 Stored SDK session ID', {
-              projectId: this.projectId,
-              virtualSessionId,
-              sdkSessionId,
-            });
-          }
-        }
+      for await (const sdkMessage of streaming.query) {
+        this.routeMessage(virtualSessionId, streaming, sdkMessage);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+      log.error('[QueryManager] ❌ Query error', {
+        projectId: this.projectId,
+        virtualSessionId,
+        error: String(error),
+      });
+    }
 
-        // Add virtual routing metadata
-        (sdkMessage as any).session_id = virtualSessionId;
-        (sdkMessage as any).correlation_id = correlationId;
-
-        // Update metrics
-        if (metrics) {
-          metrics.messagesReceived++;
-
-          // Track cache usage from usage data
-          if (sdkMessage.type === 'result' && (sdkMessage as any).usage) {
-            const usage = (sdkMessage as any).usage;
-            if (usage.cache_read_input_tokens > 0) {
-              metrics.cacheHits++;
-            }
-            if (usage.cache_creation_input_tokens > 0) {
-              metrics.cacheMisses++;
-            }
-          }
-        }
+    // The process is gone: fail whatever it still owed, and let the next
+    // message start a fresh (resumed) query
+    const orphanedTurns = streaming.turns.splice(0);
+    for (const turn of orphanedTurns) {
+      turn.output.close(
+        streaming.stopping ? undefined : (failure ?? new Error('SDK query ended unexpectedly'))
+      );
+    }
+    this.detachStreamingQuery(virtualSessionId, streaming);
 
-        log.debug('[QueryManager] 📡 Yielding SDK message', {
-          projectId: this.projectId,
-          virtualSessionId,
-          correlationId,
-          messageType: sdkMessage.type,
-          messageNumber: messageCount,
-        });
+    log.info('[QueryManager] ✅ Streaming query ended', {
+      projectId: this.projectId,
+      virtualSessionId,
+      orphanedTurns: orphanedTurns.length,
+      failed: !!failure,
+    });
+  }
 
-        yield sdkMessage;
-      }
+  /**
+   * Route one SDK message to the oldest pending turn and update metrics
+   */
+  private routeMessage(
+    virtualSessionId: string,
+    streaming: StreamingQuery,
+    sdkMessage: SDKMessage
+  ): void {
+    const metrics = this.sessionMetrics.get(virtualSessionId);
 
-      log.info('[QueryManager] ✅ Query completed', {
+    // Capture SDK session ID from init message
+    if (sdkMessage.type === 'system' && sdkMessage.subtype === 'init') {
+      this.sdkSessionIds.set(virtualSessionId, sdkMessage.session_id);
+      log.info('[QueryManager] 💾 Stored SDK session ID', {
         projectId: this.projectId,
         virtualSessionId,
-        correlationId,
-        totalMessages: messageCount,
+        sdkSessionId: sdkMessage.session_id,
       });
-    } catch (error) {
-      log.error('[QueryManager] ❌ Query error', {
+    }
+
+    const turn = streaming.turns[0];
+    if (!turn) {
+      if (metrics) {
+        metrics.misrouted++;
+      }
+      log.warn('[QueryManager] Dropping SDK message outside of a turn', {
         projectId: this.projectId,
         virtualSessionId,
-        correlationId,
-        error: String(error),
+        messageType: sdkMessage.type,
+      });
+      return;
+    }
+
+    // Add virtual routing metadata; session_id stays the SDK's so callers can resume it
+    (sdkMessage as any).correlation_id = turn.correlationId;
+
+    if (metrics) {
+      metrics.messagesReceived++;
+
+      // Track cache usage from usage data
+      if (sdkMessage.type === 'result') {
+        metrics.turnsCompleted++;
+        const cacheRead = sdkMessage.usage?.cache_read_input_tokens ?? 0;
+        const cacheCreation = sdkMessage.usage?.cache_creation_input_tokens ?? 0;
+        metrics.cacheReadTokens += cacheRead;
+        metrics.cacheCreationTokens += cacheCreation;
+        if (cacheRead > 0) {
+          metrics.cacheHits++;
+        }
+        if (cacheCreation > 0) {
+          metrics.cacheMisses++;
+        }
+      }
+    }
+
+    log.debug('[QueryManager] 📡 Routing SDK message', {
+      projectId: this.projectId,
+      virtualSessionId,
+      correlationId: turn.correlationId,
+      messageType: sdkMessage.type,
+    });
+
+    turn.output.push(sdkMessage);
+
+    if (sdkMessage.type === 'result') {
+      streaming.turns.shift();
+      turn.output.close();
+
+      log.info('[QueryManager] ✅ Turn completed', {
+        projectId: this.projectId,
+        virtualSessionId,
+        correlationId: turn.correlationId,
+        pendingTurns: streaming.turns.length,
+      });
+
+      if (streaming.turns.length === 0) {
+        this.scheduleIdleClose(virtualSessionId, streaming);
+      }
+    }
+  }
+
+  /**
+   * Close the SDK process after the session has been idle for a while
+   */
+  private scheduleIdleClose(sessionId: string, streaming: StreamingQuery): void {
+    streaming.idleTimer = setTimeout(() => {
+      log.info('[QueryManager] 💤 Closing idle streaming query', {
+        projectId: this.projectId,
+        sessionId,
+      });
+      void this.stopStreamingQuery(sessionId);
+    }, this.options.sessionIdleTimeout);
+    streaming.idleTimer.unref?.();
+  }
+
+  /**
+   * Stop a session's SDK process (pending turns are interrupted and ended)
+   */
+  private async stopStreamingQuery(sessionId: string): Promise<void> {
+    const streaming = this.streamingQueries.get(sessionId);
+    if (!streaming) {
+      return;
+    }
+
+    streaming.stopping = true;
+    if (streaming.idleTimer) {
+      clearTimeout(streaming.idleTimer);
+      streaming.idleTimer = null;
+    }
+
+    if (streaming.turns.length > 0) {
+      await streaming.query.interrupt().catch((error: unknown) => {
+        log.warn('[QueryManager] Interrupt during stop failed', {
+          projectId: this.projectId,
+          sessionId,
+          error: String(error),
+        });
       });
-      throw error;
+    }
+
+    // Ending the prompt stream lets the SDK process exit
+    streaming.prompt.close();
+    for (const turn of streaming.turns.splice(0)) {
+      turn.output.close();
+    }
+    this.detachStreamingQuery(sessionId, streaming);
+  }
+
+  private detachStreamingQuery(sessionId: string, streaming: StreamingQuery): void {
+    if (this.streamingQueries.get(sessionId) !== streaming) {
+      return;
+    }
+    if (streaming.idleTimer) {
+      clearTimeout(streaming.idleTimer);
+    }
+    this.streamingQueries.delete(sessionId);
+
+    const session = this.virtualSessions.get(sessionId);
+    if (session) {
+      session.isStreaming = false;
     }
   }
 
@@ -278,6 +634,8 @@ export class QueryManager extends EventEmitter {
 
     session.isActive = false;
 
+    await this.stopStreamingQuery(sessionId);
+
     // Clean up session data
     this.virtualSessions.delete(sessionId);
     this.sessionMetrics.delete(sessionId);
@@ -292,6 +650,13 @@ export class QueryManager extends EventEmitter {
     });
   }
 
+  /**
+   * Get the metrics of one session, if it exists
+   */
+  getSessionMetrics(sessionId: string): SessionMetrics | undefined {
+    return this.sessionMetrics.get(sessionId);
+  }
+
   /**
    * Get current stats
    */
@@ -299,7 +664,7 @@ export class QueryManager extends EventEmitter {
     return {
       projectId: this.projectId,
       activeSessionCount: this.virtualSessions.size,
-      mcpInitialized: true, // Always true with per-message approach
+      mcpInitialized: this.streamingQueries.size > 0, // MCP servers live in the SDK processes
       sessionMetrics: Object.fromEntries(this.sessionMetrics),
     };
   }
@@ -322,6 +687,7 @@ export class QueryManager extends EventEmitter {
     this.virtualSessions.clear();
     this.sessionMetrics.clear();
     this.sdkSessionIds.clear();
+    this.streamingQueries.clear();
 
     // Remove all event listeners
     this.removeAllListeners();
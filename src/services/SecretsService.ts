@@ -0,0 +1,304 @@
+import { logger } from '@/commons/utils/logger';
+import { getSecretsSettings } from '@/config/settings';
+import * as crypto from 'crypto';
+import { safeStorage } from 'electron';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDataStoreService } from './FileDataStoreService';
+
+export const SECRETS_FILE = path.join(os.homedir(), '.autosteer', 'secrets.json');
+
+/**
+ * Secrets holding the API keys set in Settings are named api-key.<service>
+ */
+export const API_KEY_SECRET_PREFIX = 'api-key.';
+
+export const SECRET_NAME_PATTERN = /^[\w.-]+$/;
+
+// ${secret:NAME} in MCP server env values and headers
+const SECRET_REFERENCE = /\$\{secret:([\w.-]+)\}/g;
+
+// Encrypted with the passphrase key to tell a wrong passphrase from a corrupt secret
+const PASSPHRASE_CHECK = 'autosteer-secrets';
+
+type SecretsBackend = 'safeStorage' | 'passphrase';
+
+interface SecretsFile {
+  version: 1;
+  backend: SecretsBackend;
+  salt?: string; // Passphrase backend: scrypt salt (base64)
+  check?: string; // Passphrase backend: PASSPHRASE_CHECK, encrypted
+  secrets: Record<string, string>; // Name → ciphertext (base64)
+}
+
+/**
+ * SecretsService - encrypted storage for API keys and MCP server credentials
+ *
+ * Secrets are kept in ~/.autosteer/secrets.json, encrypted one by one:
+ * - with Electron safeStorage (macOS Keychain, Windows DPAPI, libsecret/kwallet) when the
+ *   OS provides a key store
+ * - otherwise (e.g. headless Linux) with AES-256-GCM under a key derived from the
+ *   AUTOSTEER_SECRETS_PASSPHRASE environment variable
+ *
+ * The backend is chosen when the file is created and kept afterwards, so secrets written
+ * with a passphrase still need it once a keychain becomes available.
+ */
+export class SecretsService {
+  private static instance: SecretsService;
+  private passphraseKeys = new Map<string, Buffer>(); // Salt → derived key
+  private writes: Promise<void> = Promise.resolve();
+
+  static getInstance(): SecretsService {
+    if (!SecretsService.instance) {
+      SecretsService.instance = new SecretsService();
+    }
+    return SecretsService.instance;
+  }
+
+  /**
+   * Names of the stored secrets
+   */
+  async list(): Promise<string[]> {
+    const file = await this.readFile();
+    return Object.keys(file?.secrets ?? {}).sort();
+  }
+
+  async get(name: string): Promise<string | undefined> {
+    const file = await this.readFile();
+    const encrypted = file?.secrets[name];
+    return file && encrypted !== undefined ? this.decrypt(file, encrypted) : undefined;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name: ${name} (use letters, digits, ".", "-" and "_")`);
+    }
+    await this.update((file) => {
+      file.secrets[name] = this.encrypt(file, value);
+    });
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.update((file) => {
+      delete file.secrets[name];
+    });
+  }
+
+  /**
+   * Delete every secret whose name starts with the prefix
+   */
+  async deleteAll(prefix: string): Promise<void> {
+    await this.update((file) => {
+      for (const name of Object.keys(file.secrets)) {
+        if (name.startsWith(prefix)) {
+          delete file.secrets[name];
+        }
+      }
+    });
+  }
+
+  /**
+   * API keys by service, decrypted
+   */
+  async getApiKeys(): Promise<Record<string, string>> {
+    const file = await this.readFile();
+    if (!file) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(file.secrets)
+        .filter(([name]) => name.startsWith(API_KEY_SECRET_PREFIX))
+        .map(([name, encrypted]) => [
+          name.slice(API_KEY_SECRET_PREFIX.length),
+          this.decrypt(file, encrypted),
+        ])
+    );
+  }
+
+  /**
+   * Replace ${secret:NAME} references in every string of a value (e.g. an MCP server
+   * config). Unknown secrets are left as written and reported in `missing`.
+   */
+  async resolveReferences<T>(value: T): Promise<{ value: T; missing: string[] }> {
+    const names = new Set<string>();
+    this.mapStrings(value, (text) => {
+      for (const match of text.matchAll(SECRET_REFERENCE)) {
+        names.add(match[1]);
+      }
+      return text;
+    });
+    if (names.size === 0) {
+      return { value, missing: [] };
+    }
+
+    const file = await this.readFile();
+    const resolved = new Map<string, string>();
+    for (const name of names) {
+      const encrypted = file?.secrets[name];
+      if (file && encrypted !== undefined) {
+        resolved.set(name, this.decrypt(file, encrypted));
+      }
+    }
+
+    return {
+      value: this.mapStrings(value, (text) =>
+        text.replace(SECRET_REFERENCE, (reference, name: string) => resolved.get(name) ?? reference)
+      ),
+      missing: [...names].filter((name) => !resolved.has(name)),
+    };
+  }
+
+  /**
+   * Move API keys stored in plain text in config.json into secret storage.
+   * Keys stay in config.json when secrets cannot be encrypted on this machine.
+   */
+  async migrateApiKeys(): Promise<void> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const config = await fileDataStore.readConfig();
+    const apiKeys = Object.entries(config.apiKeys ?? {});
+    if (apiKeys.length === 0) {
+      return;
+    }
+
+    await this.update((file) => {
+      for (const [service, key] of apiKeys) {
+        file.secrets[`${API_KEY_SECRET_PREFIX}${service}`] = this.encrypt(file, key);
+      }
+    });
+    delete config.apiKeys;
+    await fileDataStore.writeConfig(config);
+    logger.info('[SecretsService] Moved API keys from config.json into secret storage:', {
+      count: apiKeys.length,
+    });
+  }
+
+  private mapStrings<T>(value: T, map: (text: string) => string): T {
+    if (typeof value === 'string') {
+      return map(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.mapStrings(item, map)) as T;
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, map)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private async readFile(): Promise<SecretsFile | null> {
+    try {
+      return JSON.parse(await fs.readFile(SECRETS_FILE, 'utf-8')) as SecretsFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Writes are queued so concurrent updates do not overwrite each other
+  private update(mutate: (file: SecretsFile) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      const file = (await this.readFile()) ?? this.createFile();
+      mutate(file);
+
+      // Write then rename, so an interrupted write never leaves a truncated file
+      const tempPath = `${SECRETS_FILE}.tmp`;
+      await fs.mkdir(path.dirname(SECRETS_FILE), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, SECRETS_FILE);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private createFile(): SecretsFile {
+    if (this.isSafeStorageAvailable()) {
+      return { version: 1, backend: 'safeStorage', secrets: {} };
+    }
+
+    const file: SecretsFile = {
+      version: 1,
+      backend: 'passphrase',
+      salt: crypto.randomBytes(16).toString('base64'),
+      secrets: {},
+    };
+    file.check = this.encrypt(file, PASSPHRASE_CHECK);
+    return file;
+  }
+
+  // Linux without a keyring falls back to a hard-coded key ("basic_text"), which is no better
+  // than plain text
+  private isSafeStorageAvailable(): boolean {
+    try {
+      return (
+        safeStorage.isEncryptionAvailable() &&
+        (process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text')
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private encrypt(file: SecretsFile, value: string): string {
+    if (file.backend === 'safeStorage') {
+      this.assertSafeStorage();
+      return safeStorage.encryptString(value).toString('base64');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getPassphraseKey(file), iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  private decrypt(file: SecretsFile, encrypted: string): string {
+    const data = Buffer.from(encrypted, 'base64');
+    if (file.backend === 'safeStorage') {
+      this.assertSafeStorage();
+      return safeStorage.decryptString(data);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getPassphraseKey(file),
+      data.subarray(0, 12)
+    );
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  }
+
+  private assertSafeStorage(): void {
+    if (!this.isSafeStorageAvailable()) {
+      throw new Error('Secrets were encrypted with the OS keychain, which is not available');
+    }
+  }
+
+  private getPassphraseKey(file: SecretsFile): Buffer {
+    const { passphrase } = getSecretsSettings();
+    if (!passphrase) {
+      throw new Error(
+        'No OS keychain is available to encrypt secrets. Set AUTOSTEER_SECRETS_PASSPHRASE to encrypt them with a passphrase.'
+      );
+    }
+
+    const salt = file.salt ?? '';
+    let key = this.passphraseKeys.get(salt);
+    if (!key) {
+      key = crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32);
+      this.passphraseKeys.set(salt, key);
+      if (file.check) {
+        try {
+          this.decrypt(file, file.check);
+        } catch {
+          this.passphraseKeys.delete(salt);
+          throw new Error('Wrong AUTOSTEER_SECRETS_PASSPHRASE for ~/.autosteer/secrets.json');
+        }
+      }
+    }
+    return key;
+  }
+}
@@ -13,9 +13,48 @@ const fsPromises = {
   unlink: promisify(fs.unlink),
 };
 
+/**
+ * A rewind or fork waiting for the agent's next query. The agent keeps showing
+ * the source session cut at `cutAtMessageId` until a new session id is saved.
+ */
+export interface SessionBranchPoint {
+  sourceSessionId: string;
+  cutAtMessageId: string;
+  resumeAt?: string; // Last assistant message uuid kept; absent when cutting before the first turn
+  createdAt: string;
+}
+
+export interface SessionLineage {
+  parentAgentId: string;
+  parentSessionId: string;
+  forkedAtMessageId: string;
+  createdAt: string;
+}
+
+/**
+ * Worktree checkpoints taken around one agent turn. `before` and `after` are
+ * shadow commits created by GitService.createCheckpoint; `before` is also the
+ * file state restored when branching from the turn's message.
+ */
+export interface TurnCheckpoint {
+  id: string;
+  prompt: string; // First line of the user message, for display
+  before: string;
+  after?: string; // Absent while the turn is running or if it never finished
+  files?: string[]; // Files the turn changed, set when it finishes
+  startedAt: string;
+  endedAt?: string;
+  undoneAt?: string;
+}
+
+const MAX_CHECKPOINTS_PER_AGENT = 50;
+
 interface SessionManifest {
   agents: Record<string, string>; // agentId -> sessionId
   additionalDirectories?: Record<string, string[]>; // agentId -> additional directories
+  pendingBranches?: Record<string, SessionBranchPoint>; // agentId -> branch point
+  lineage?: Record<string, SessionLineage>; // child agentId -> parent
+  checkpoints?: Record<string, TurnCheckpoint[]>; // agentId -> checkpoints, oldest first
   lastUpdated: string;
 }
 
@@ -65,6 +104,34 @@ export class SessionManifestService {
     }
   }
 
+  private async readManifest(worktreeId: string): Promise<SessionManifest> {
+    try {
+      const content = await fsPromises.readFile(this.getManifestPath(worktreeId), 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return {
+        agents: {},
+        lastUpdated: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async writeManifest(worktreeId: string, manifest: SessionManifest): Promise<void> {
+    await this.ensureSessionsDirectory();
+
+    const manifestPath = this.getManifestPath(worktreeId);
+    const tempPath = `${manifestPath}.tmp.${Date.now()}`;
+
+    try {
+      manifest.lastUpdated = new Date().toISOString();
+      await fsPromises.writeFile(tempPath, JSON.stringify(manifest, null, 2), 'utf-8');
+      await fsPromises.rename(tempPath, manifestPath);
+    } catch (error) {
+      await this.cleanupTempFile(tempPath);
+      throw error;
+    }
+  }
+
   private async cleanupTempFile(tempPath: string): Promise<void> {
     try {
       await fsPromises.unlink(tempPath);
@@ -94,6 +161,11 @@ export class SessionManifestService {
         }
 
         manifest.agents[agentId] = sessionId;
+        // A new session means the pending branch has been taken
+        const pendingBranch = manifest.pendingBranches?.[agentId];
+        if (pendingBranch && pendingBranch.sourceSessionId !== sessionId) {
+          delete manifest.pendingBranches![agentId];
+        }
         manifest.lastUpdated = new Date().toISOString();
 
         await fsPromises.writeFile(tempPath, JSON.stringify(manifest, null, 2), 'utf-8');
@@ -196,8 +268,17 @@ export class SessionManifestService {
         const content = await fsPromises.readFile(manifestPath, 'utf-8');
         const manifest: SessionManifest = JSON.parse(content);
 
-        if (manifest.agents[agentId]) {
+        const hasEntries =
+          manifest.agents[agentId] ||
+          manifest.pendingBranches?.[agentId] ||
+          manifest.lineage?.[agentId] ||
+          manifest.checkpoints?.[agentId];
+
+        if (hasEntries) {
           delete manifest.agents[agentId];
+          delete manifest.pendingBranches?.[agentId];
+          delete manifest.lineage?.[agentId];
+          delete manifest.checkpoints?.[agentId];
           manifest.lastUpdated = new Date().toISOString();
 
           const tempPath = `${manifestPath}.tmp.${Date.now()}`;
@@ -320,4 +401,110 @@ export class SessionManifestService {
       return [];
     }
   }
+
+  /**
+   * Mark an agent as branched from another session. Used for both rewinds
+   * (same agent) and forks (new agent).
+   */
+  async setPendingBranch(
+    worktreeId: string,
+    agentId: string,
+    branch: SessionBranchPoint
+  ): Promise<void> {
+    return this.withLock(worktreeId, async () => {
+      const manifest = await this.readManifest(worktreeId);
+      manifest.pendingBranches = { ...manifest.pendingBranches, [agentId]: branch };
+      await this.writeManifest(worktreeId, manifest);
+    });
+  }
+
+  /**
+   * Get the agent's branch point if it has not been taken yet, i.e. no new
+   * session has been recorded for the agent since the branch was made
+   */
+  async getPendingBranch(
+    worktreeId: string,
+    agentId: string
+  ): Promise<SessionBranchPoint | undefined> {
+    const manifest = await this.readManifest(worktreeId);
+    const branch = manifest.pendingBranches?.[agentId];
+    if (!branch) {
+      return undefined;
+    }
+
+    const currentSession = manifest.agents[agentId];
+    if (currentSession && currentSession !== branch.sourceSessionId) {
+      return undefined;
+    }
+    return branch;
+  }
+
+  /**
+   * Record that an agent was forked from another agent's session
+   */
+  async recordLineage(worktreeId: string, agentId: string, lineage: SessionLineage): Promise<void> {
+    return this.withLock(worktreeId, async () => {
+      const manifest = await this.readManifest(worktreeId);
+      manifest.lineage = { ...manifest.lineage, [agentId]: lineage };
+      await this.writeManifest(worktreeId, manifest);
+    });
+  }
+
+  async getLineage(worktreeId: string, agentId: string): Promise<SessionLineage | undefined> {
+    const manifest = await this.readManifest(worktreeId);
+    return manifest.lineage?.[agentId];
+  }
+
+  /**
+   * Append a checkpoint for a turn that is starting.
+   * Only the most recent MAX_CHECKPOINTS_PER_AGENT are kept.
+   *
+   * @returns Checkpoints that were dropped, so their git refs can be deleted
+   */
+  async addCheckpoint(
+    worktreeId: string,
+    agentId: string,
+    checkpoint: TurnCheckpoint
+  ): Promise<TurnCheckpoint[]> {
+    return this.withLock(worktreeId, async () => {
+      const manifest = await this.readManifest(worktreeId);
+      const checkpoints = [...(manifest.checkpoints?.[agentId] || []), checkpoint];
+      const dropped = checkpoints.slice(0, -MAX_CHECKPOINTS_PER_AGENT);
+      manifest.checkpoints = {
+        ...manifest.checkpoints,
+        [agentId]: checkpoints.slice(-MAX_CHECKPOINTS_PER_AGENT),
+      };
+      await this.writeManifest(worktreeId, manifest);
+      return dropped;
+    });
+  }
+
+  /**
+   * Merge fields into an existing checkpoint; unknown ids are ignored
+   */
+  async updateCheckpoint(
+    worktreeId: string,
+    agentId: string,
+    checkpointId: string,
+    updates: Partial<Omit<TurnCheckpoint, 'id'>>
+  ): Promise<void> {
+    return this.withLock(worktreeId, async () => {
+      const manifest = await this.readManifest(worktreeId);
+      const checkpoints = manifest.checkpoints?.[agentId];
+      const index = checkpoints?.findIndex((checkpoint) => checkpoint.id === checkpointId) ?? -1;
+      if (!checkpoints || index === -1) {
+        return;
+      }
+      checkpoints[index] = { ...checkpoints[index], ...updates };
+      await this.writeManifest(worktreeId, manifest);
+    });
+  }
+
+  /**
+   * Get checkpoints for every agent in the worktree
+   */
+  async getCheckpoints(worktreeId: string): Promise<Record<string, TurnCheckpoint[]>> {
+    const manifest = await this.readManifest(worktreeId);
+    return manifest.checkpoints || {};
+  }
 }
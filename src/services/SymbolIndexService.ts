@@ -0,0 +1,322 @@
+import { CodeSymbol, SymbolSearchRequest } from '@/types/ipc.types';
+import { CodeMention, parseCodeMentions } from '@/utils/codeMentions';
+import { isSymbolFile, parseCodeSymbols } from '@/utils/codeSymbols';
+import { execFile } from 'child_process';
+import log from 'electron-log';
+import fg from 'fast-glob';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_INDEXED_FILES = 10000;
+const MAX_FILE_BYTES = 512 * 1024; // Larger files are skipped, e.g. bundles and generated code
+const INDEX_TTL_MS = 30 * 1000; // How long a workspace index is used before files are re-checked
+const MAX_SNIPPET_LINES = 400;
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.jsx': 'jsx',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.cs': 'csharp',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.css': 'css',
+  '.html': 'html',
+  '.sh': 'bash',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+};
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  symbols: CodeSymbol[];
+}
+
+interface WorkspaceIndex {
+  files: Map<string, IndexedFile>;
+  refreshedAt: number;
+  refreshing: Promise<void> | null;
+}
+
+// Index keys and symbol paths use forward slashes without a leading ./
+const toRelativePath = (file: string): string =>
+  path.normalize(file).split(path.sep).join('/').replace(/^\.\//, '');
+
+/**
+ * Lower is better: exact name, name prefix, qualified name prefix, then substrings
+ */
+const rankSymbol = (symbol: CodeSymbol, query: string): number | null => {
+  const name = symbol.name.toLowerCase();
+  const qualifiedName = symbol.qualifiedName.toLowerCase();
+  if (name === query || qualifiedName === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (qualifiedName.startsWith(query)) return 2;
+  if (name.includes(query)) return 3;
+  if (qualifiedName.includes(query)) return 4;
+  return null;
+};
+
+/**
+ * SymbolIndexService - declarations of a worktree's source files for `@path#Symbol` mentions
+ *
+ * Symbols are parsed on demand and cached per file until its modification time changes, so
+ * the index stays cheap to keep up to date. It also expands code mentions in prompts into
+ * the snippets they refer to, which saves the agent reading whole files.
+ */
+export class SymbolIndexService {
+  private static instance: SymbolIndexService;
+  private indexes = new Map<string, WorkspaceIndex>();
+
+  static getInstance(): SymbolIndexService {
+    if (!SymbolIndexService.instance) {
+      SymbolIndexService.instance = new SymbolIndexService();
+    }
+    return SymbolIndexService.instance;
+  }
+
+  /**
+   * Symbols matching the query, best matches first. With a path only that file is searched,
+   * and an empty query lists its symbols in source order.
+   */
+  async searchSymbols(request: SymbolSearchRequest): Promise<CodeSymbol[]> {
+    const maxResults = request.maxResults || DEFAULT_MAX_RESULTS;
+    const query = request.query.trim().toLowerCase();
+
+    let symbols: CodeSymbol[];
+    if (request.path) {
+      symbols = await this.getFileSymbols(request.workspacePath, request.path);
+      if (!query) {
+        return symbols.slice(0, maxResults);
+      }
+    } else {
+      if (!query) {
+        return [];
+      }
+      symbols = await this.getWorkspaceSymbols(request.workspacePath);
+    }
+
+    return symbols
+      .map((symbol) => ({ symbol, rank: rankSymbol(symbol, query) }))
+      .filter((entry): entry is { symbol: CodeSymbol; rank: number } => entry.rank !== null)
+      .sort(
+        (a, b) =>
+          a.rank - b.rank ||
+          a.symbol.qualifiedName.length - b.symbol.qualifiedName.length ||
+          a.symbol.path.localeCompare(b.symbol.path)
+      )
+      .slice(0, maxResults)
+      .map((entry) => entry.symbol);
+  }
+
+  /**
+   * Append the code that `@path#L10-40` and `@path#Symbol` mentions refer to. Mentions that
+   * cannot be resolved are left for the agent to read itself.
+   */
+  async expandMentions(prompt: string, workspacePath: string): Promise<string> {
+    const snippets: string[] = [];
+    for (const mention of parseCodeMentions(prompt)) {
+      try {
+        const snippet = await this.readMention(workspacePath, mention);
+        if (snippet) {
+          snippets.push(snippet);
+        } else {
+          log.info('[SymbolIndexService] Could not resolve mention:', mention.raw);
+        }
+      } catch (error) {
+        log.warn('[SymbolIndexService] Failed to read mention:', mention.raw, error);
+      }
+    }
+
+    if (snippets.length === 0) {
+      return prompt;
+    }
+    return `${prompt}\n\nReferenced code:\n\n${snippets.join('\n\n')}`;
+  }
+
+  private async readMention(workspacePath: string, mention: CodeMention): Promise<string | null> {
+    const absolutePath = this.resolvePath(workspacePath, mention.path);
+    if (!absolutePath) {
+      return null;
+    }
+    const stat = await fs.stat(absolutePath).catch(() => null);
+    if (!stat?.isFile() || stat.size > MAX_FILE_BYTES) {
+      return null;
+    }
+
+    const content = await fs.readFile(absolutePath, 'utf-8');
+    const lines = content.split('\n').map((line) => line.replace(/\r$/, ''));
+
+    let range = mention.lines;
+    if (mention.symbol) {
+      const symbols = await this.parseFile(mention.path, content);
+      // `#method` also finds `MyClass.method` when no top-level symbol has that name
+      const symbol =
+        symbols.find((candidate) => candidate.qualifiedName === mention.symbol) ||
+        symbols.find((candidate) => candidate.qualifiedName.endsWith(`.${mention.symbol}`));
+      range = symbol && { start: symbol.startLine, end: symbol.endLine };
+    }
+    if (!range || range.start > lines.length) {
+      return null;
+    }
+
+    const start = range.start;
+    const end = Math.min(range.end, lines.length, start + MAX_SNIPPET_LINES - 1);
+    const code = lines.slice(start - 1, end).join('\n');
+    const truncated = end < Math.min(range.end, lines.length);
+
+    // The fence must be longer than any run of backticks in the code
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const language = FENCE_LANGUAGES[path.extname(mention.path).toLowerCase()] ?? '';
+
+    const lineLabel = end === start ? `line ${start}` : `lines ${start}-${end}`;
+
+    return [
+      `${mention.raw} (${mention.path}, ${lineLabel}${truncated ? ', truncated' : ''}):`,
+      `${fence}${language}`,
+      code,
+      fence,
+    ].join('\n');
+  }
+
+  private async getFileSymbols(workspacePath: string, relativePath: string): Promise<CodeSymbol[]> {
+    const absolutePath = this.resolvePath(workspacePath, relativePath);
+    if (!absolutePath || !isSymbolFile(relativePath)) {
+      return [];
+    }
+    const index = this.getIndex(workspacePath);
+    const file = await this.indexFile(index, workspacePath, toRelativePath(relativePath));
+    return file?.symbols ?? [];
+  }
+
+  private async getWorkspaceSymbols(workspacePath: string): Promise<CodeSymbol[]> {
+    const index = this.getIndex(workspacePath);
+    if (Date.now() - index.refreshedAt > INDEX_TTL_MS) {
+      index.refreshing ??= this.refresh(index, workspacePath).finally(() => {
+        index.refreshing = null;
+      });
+      await index.refreshing;
+    }
+    return Array.from(index.files.values()).flatMap((file) => file.symbols);
+  }
+
+  private getIndex(workspacePath: string): WorkspaceIndex {
+    let index = this.indexes.get(workspacePath);
+    if (!index) {
+      index = { files: new Map(), refreshedAt: 0, refreshing: null };
+      this.indexes.set(workspacePath, index);
+    }
+    return index;
+  }
+
+  /**
+   * Re-list the workspace and re-parse the files that changed since the last refresh
+   */
+  private async refresh(index: WorkspaceIndex, workspacePath: string): Promise<void> {
+    const files = await this.listFiles(workspacePath);
+    const listed = new Set(files);
+    for (const file of index.files.keys()) {
+      if (!listed.has(file)) {
+        index.files.delete(file);
+      }
+    }
+    for (const file of files) {
+      await this.indexFile(index, workspacePath, file);
+    }
+    index.refreshedAt = Date.now();
+  }
+
+  private async indexFile(
+    index: WorkspaceIndex,
+    workspacePath: string,
+    relativePath: string
+  ): Promise<IndexedFile | null> {
+    const absolutePath = path.join(workspacePath, relativePath);
+    const stat = await fs.stat(absolutePath).catch(() => null);
+    if (!stat?.isFile() || stat.size > MAX_FILE_BYTES) {
+      index.files.delete(relativePath);
+      return null;
+    }
+
+    const cached = index.files.get(relativePath);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+      return cached;
+    }
+
+    try {
+      const content = await fs.readFile(absolutePath, 'utf-8');
+      const file: IndexedFile = {
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+        symbols: await this.parseFile(relativePath, content),
+      };
+      index.files.set(relativePath, file);
+      return file;
+    } catch (error) {
+      log.warn('[SymbolIndexService] Failed to index file:', relativePath, error);
+      index.files.delete(relativePath);
+      return null;
+    }
+  }
+
+  private async parseFile(relativePath: string, content: string): Promise<CodeSymbol[]> {
+    const symbols = await parseCodeSymbols(relativePath, content);
+    return symbols.map((symbol) => ({ ...symbol, path: toRelativePath(relativePath) }));
+  }
+
+  /**
+   * Source files git does not ignore, or outside git every source file but dependencies
+   */
+  private async listFiles(workspacePath: string): Promise<string[]> {
+    let files: string[];
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['ls-files', '-z', '--cached', '--others', '--exclude-standard'],
+        { cwd: workspacePath, maxBuffer: 64 * 1024 * 1024 }
+      );
+      files = stdout.split('\0').filter(Boolean);
+    } catch {
+      files = await fg('**/*', {
+        cwd: workspacePath,
+        ignore: ['**/.git/**', '**/node_modules/**'],
+        onlyFiles: true,
+        followSymbolicLinks: false,
+        suppressErrors: true,
+      });
+    }
+
+    const sourceFiles = files.filter(isSymbolFile).sort();
+    if (sourceFiles.length > MAX_INDEXED_FILES) {
+      log.warn(
+        `[SymbolIndexService] Indexing the first ${MAX_INDEXED_FILES} of ${sourceFiles.length} files in ${workspacePath}`
+      );
+    }
+    return sourceFiles.slice(0, MAX_INDEXED_FILES);
+  }
+
+  /**
+   * Absolute path of a mention, or null if it points outside the workspace
+   */
+  private resolvePath(workspacePath: string, relativePath: string): string | null {
+    const absolutePath = path.resolve(workspacePath, relativePath);
+    const relative = path.relative(workspacePath, absolutePath);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+      ? absolutePath
+      : null;
+  }
+}
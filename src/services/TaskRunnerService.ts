@@ -0,0 +1,408 @@
+import { TaskRun, TaskSource, WorktreeTask, WorktreeTasks } from '@/types/task-runner.types';
+import { BrowserWindow } from 'electron';
+import log from 'electron-log';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { FileDataStoreService } from './FileDataStoreService';
+import { XtermService } from './XtermService';
+
+export const TASK_RUN_UPDATED_CHANNEL = 'tasks:runUpdated';
+
+const FAILED_OUTPUT_LINES = 200; // Plain-text tail kept to attach to a chat message
+const MAX_RUN_OUTPUT_CHARS = 512 * 1024; // Output with ANSI codes kept per finished run
+
+const MAKEFILES = ['GNUmakefile', 'makefile', 'Makefile'];
+const JUSTFILES = ['justfile', 'Justfile', '.justfile'];
+
+// Quote a task name for the shell unless it only has safe characters
+const quote = (name: string): string =>
+  /^[\w:.@/+-]+$/.test(name) ? name : `'${name.replace(/'/g, `'\\''`)}'`;
+
+// Running task, by terminal id
+interface ActiveRun {
+  worktreeId: string;
+  window: BrowserWindow;
+  run: TaskRun;
+}
+
+/**
+ * TaskRunnerService - runs a worktree's scripts in terminals
+ *
+ * Tasks are detected from package.json scripts, Makefile targets, justfile recipes and
+ * pyproject.toml scripts. Each run gets its own XtermService terminal that exits with the
+ * task, so the exit code decides whether it passed. The latest run of each task is kept in
+ * memory with its output; pinned tasks are saved in the worktree's entry in config.json.
+ */
+export class TaskRunnerService {
+  private static instance: TaskRunnerService;
+  private runs = new Map<string, Map<string, TaskRun>>(); // Worktree → task id → latest run
+  private lastTaskIds = new Map<string, string>(); // Worktree → task started most recently
+  private activeRuns = new Map<string, ActiveRun>();
+  private outputs = new Map<string, string>(); // Run id → output of the finished run
+
+  private constructor() {
+    XtermService.getInstance().onExit((terminalId, exitCode, signal) =>
+      this.handleExit(terminalId, exitCode, signal)
+    );
+  }
+
+  static getInstance(): TaskRunnerService {
+    if (!TaskRunnerService.instance) {
+      TaskRunnerService.instance = new TaskRunnerService();
+    }
+    return TaskRunnerService.instance;
+  }
+
+  async list(worktreeId: string): Promise<WorktreeTasks> {
+    const [detected, pinned] = await Promise.all([
+      this.detectTasks(this.getWorktreePath(worktreeId)),
+      this.getPinnedTasks(worktreeId),
+    ]);
+
+    const tasks = detected
+      .map((task) => ({ ...task, pinned: pinned.includes(task.id) }))
+      .sort((a, b) => {
+        const rankA = a.pinned ? pinned.indexOf(a.id) : pinned.length;
+        const rankB = b.pinned ? pinned.indexOf(b.id) : pinned.length;
+        return rankA - rankB;
+      });
+    const lastTaskId = this.lastTaskIds.get(worktreeId);
+
+    return {
+      tasks,
+      runs: Array.from(this.runs.get(worktreeId)?.values() ?? []),
+      ...(lastTaskId && { lastTaskId }),
+    };
+  }
+
+  /**
+   * Start a task in a new terminal. A run of the same task that is still going is stopped.
+   */
+  async run(window: BrowserWindow, worktreeId: string, taskId: string): Promise<TaskRun> {
+    const worktreePath = this.getWorktreePath(worktreeId);
+    const task = (await this.detectTasks(worktreePath)).find((t) => t.id === taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+
+    await this.stop(worktreeId, taskId);
+
+    const terminal = await XtermService.getInstance().createTerminal(window, {
+      cwd: worktreePath,
+      title: task.name,
+      command: task.command,
+      exec: true,
+    });
+
+    const run: TaskRun = {
+      id: uuidv4(),
+      taskId,
+      name: task.name,
+      command: task.command,
+      terminalId: terminal.id,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date().toISOString(),
+    };
+    this.activeRuns.set(terminal.id, { worktreeId, window, run });
+    this.lastTaskIds.set(worktreeId, taskId);
+    this.setRun(worktreeId, run);
+    log.info(`[TaskRunnerService] Started ${taskId} in ${worktreeId}: ${task.command}`);
+    return run;
+  }
+
+  /**
+   * Run the task started most recently in the worktree again
+   */
+  async rerunLast(window: BrowserWindow, worktreeId: string): Promise<TaskRun> {
+    const taskId = this.lastTaskIds.get(worktreeId);
+    if (!taskId) {
+      throw new Error('No task has been run in this worktree yet');
+    }
+    return this.run(window, worktreeId, taskId);
+  }
+
+  /**
+   * Stop a running task. It counts as failed, without an exit code.
+   */
+  async stop(worktreeId: string, taskId: string): Promise<void> {
+    const entry = Array.from(this.activeRuns.entries()).find(
+      ([, active]) => active.worktreeId === worktreeId && active.run.taskId === taskId
+    );
+    if (!entry) {
+      return;
+    }
+
+    const [terminalId, active] = entry;
+    this.activeRuns.delete(terminalId);
+    this.finishRun(active, null);
+    await XtermService.getInstance().killTerminal(terminalId);
+  }
+
+  /**
+   * Output of a run with ANSI codes: live while it runs, saved once it has finished
+   */
+  getOutput(worktreeId: string, runId: string): string {
+    const run = Array.from(this.runs.get(worktreeId)?.values() ?? []).find((r) => r.id === runId);
+    if (!run) {
+      return '';
+    }
+    if (run.status === 'running') {
+      return XtermService.getInstance().getOutput(run.terminalId);
+    }
+    return this.outputs.get(run.id) ?? '';
+  }
+
+  async setPinned(worktreeId: string, taskId: string, pinned: boolean): Promise<void> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const config = await fileDataStore.readConfig();
+    const worktree = config.worktrees.find((wt) => wt.folder_name === worktreeId);
+    if (!worktree) {
+      throw new Error(`Worktree not found: ${worktreeId}`);
+    }
+
+    const pinnedTasks = (worktree.pinnedTasks ?? []).filter((id) => id !== taskId);
+    worktree.pinnedTasks = pinned ? [...pinnedTasks, taskId] : pinnedTasks;
+    await fileDataStore.writeConfig(config);
+  }
+
+  /**
+   * Tasks defined in the worktree's root, in file order
+   */
+  async detectTasks(worktreePath: string): Promise<WorktreeTask[]> {
+    const tasks = [
+      ...(await this.detectPackageScripts(worktreePath)),
+      ...(await this.detectMakeTargets(worktreePath)),
+      ...(await this.detectJustRecipes(worktreePath)),
+      ...(await this.detectPyprojectScripts(worktreePath)),
+    ];
+    // The same name can be defined twice (e.g. in two pyproject tables); the first one wins
+    return tasks.filter((task, index) => tasks.findIndex((t) => t.id === task.id) === index);
+  }
+
+  private handleExit(terminalId: string, exitCode: number, signal?: number): void {
+    const active = this.activeRuns.get(terminalId);
+    if (!active) {
+      return;
+    }
+    this.activeRuns.delete(terminalId);
+    this.finishRun(active, exitCode, signal);
+  }
+
+  private finishRun(active: ActiveRun, exitCode: number | null, signal?: number): void {
+    const xtermService = XtermService.getInstance();
+    const passed = exitCode === 0 && !signal;
+    let output = '';
+    let failedOutput = '';
+    try {
+      output = xtermService.getOutput(active.run.terminalId);
+      failedOutput = passed
+        ? ''
+        : xtermService.readOutput(active.run.terminalId, FAILED_OUTPUT_LINES);
+    } catch (error) {
+      log.warn(`[TaskRunnerService] Could not read the output of ${active.run.taskId}:`, error);
+    }
+
+    const run: TaskRun = {
+      ...active.run,
+      status: passed ? 'passed' : 'failed',
+      exitCode,
+      finishedAt: new Date().toISOString(),
+      ...(!passed && { output: failedOutput }),
+    };
+    this.outputs.set(run.id, output.slice(-MAX_RUN_OUTPUT_CHARS));
+    this.setRun(active.worktreeId, run);
+
+    if (!active.window.isDestroyed()) {
+      active.window.webContents.send(TASK_RUN_UPDATED_CHANNEL, active.worktreeId, run);
+    }
+  }
+
+  private setRun(worktreeId: string, run: TaskRun): void {
+    let runs = this.runs.get(worktreeId);
+    if (!runs) {
+      runs = new Map();
+      this.runs.set(worktreeId, runs);
+    }
+    const previous = runs.get(run.taskId);
+    if (previous && previous.id !== run.id) {
+      this.outputs.delete(previous.id);
+    }
+    runs.set(run.taskId, run);
+  }
+
+  private getWorktreePath(worktreeId: string): string {
+    return FileDataStoreService.getInstance().getWorktreePath(worktreeId);
+  }
+
+  private async getPinnedTasks(worktreeId: string): Promise<string[]> {
+    const config = await FileDataStoreService.getInstance().readConfig();
+    return config.worktrees.find((wt) => wt.folder_name === worktreeId)?.pinnedTasks ?? [];
+  }
+
+  private async detectPackageScripts(worktreePath: string): Promise<WorktreeTask[]> {
+    const content = await this.readFirst(worktreePath, ['package.json']);
+    if (!content) {
+      return [];
+    }
+
+    let manifest: { scripts?: Record<string, unknown>; packageManager?: string };
+    try {
+      manifest = JSON.parse(content.text);
+    } catch {
+      log.warn(`[TaskRunnerService] Invalid package.json in ${worktreePath}`);
+      return [];
+    }
+
+    const runner = await this.getPackageRunner(worktreePath, manifest.packageManager);
+    return Object.entries(manifest.scripts ?? {})
+      .filter(([, script]) => typeof script === 'string')
+      .map(([name]) => this.createTask('package.json', name, `${runner} run ${quote(name)}`));
+  }
+
+  private async getPackageRunner(worktreePath: string, packageManager?: string): Promise<string> {
+    const declared = packageManager?.split('@')[0];
+    if (declared && ['npm', 'pnpm', 'yarn', 'bun'].includes(declared)) {
+      return declared;
+    }
+    const lockfiles: Array<[string, string]> = [
+      ['pnpm-lock.yaml', 'pnpm'],
+      ['yarn.lock', 'yarn'],
+      ['bun.lock', 'bun'],
+      ['bun.lockb', 'bun'],
+    ];
+    for (const [lockfile, runner] of lockfiles) {
+      if (await this.exists(path.join(worktreePath, lockfile))) {
+        return runner;
+      }
+    }
+    return 'npm';
+  }
+
+  private async detectMakeTargets(worktreePath: string): Promise<WorktreeTask[]> {
+    const content = await this.readFirst(worktreePath, MAKEFILES);
+    if (!content) {
+      return [];
+    }
+
+    const targets: string[] = [];
+    for (const line of content.text.split('\n')) {
+      // Rule lines start at column 0; "a := b" and "a ?= b" are variables
+      const match = line.match(/^([^\s#:=][^:=]*?)\s*::?(?!=)/);
+      if (!match || /^\s*(export|override|define|include|-include)\b/.test(match[1])) {
+        continue;
+      }
+      for (const target of match[1].split(/\s+/)) {
+        // Skip special targets (.PHONY), pattern rules and computed names
+        if (target && !/^\.|[%$]/.test(target) && !targets.includes(target)) {
+          targets.push(target);
+        }
+      }
+    }
+    const command = content.name === 'Makefile' ? 'make' : `make -f ${content.name}`;
+    return targets.map((target) =>
+      this.createTask('Makefile', target, `${command} ${quote(target)}`)
+    );
+  }
+
+  private async detectJustRecipes(worktreePath: string): Promise<WorktreeTask[]> {
+    const content = await this.readFirst(worktreePath, JUSTFILES);
+    if (!content) {
+      return [];
+    }
+
+    const recipes: string[] = [];
+    for (const line of content.text.split('\n')) {
+      if (/^(set|alias|export|import|mod)\s/.test(line)) {
+        continue;
+      }
+      // "name param='x': deps", optionally quiet with @; not "name := value"
+      const match = line.match(/^@?([A-Za-z][\w-]*)(?:\s[^:]*)?:(?!=)/);
+      if (match && !recipes.includes(match[1])) {
+        recipes.push(match[1]);
+      }
+    }
+    return recipes.map((recipe) => this.createTask('justfile', recipe, `just ${recipe}`));
+  }
+
+  private async detectPyprojectScripts(worktreePath: string): Promise<WorktreeTask[]> {
+    const content = await this.readFirst(worktreePath, ['pyproject.toml']);
+    if (!content) {
+      return [];
+    }
+
+    const projectRunner = (await this.exists(path.join(worktreePath, 'uv.lock')))
+      ? 'uv run '
+      : (await this.exists(path.join(worktreePath, 'poetry.lock')))
+        ? 'poetry run '
+        : (await this.exists(path.join(worktreePath, 'pdm.lock')))
+          ? 'pdm run '
+          : '';
+    // Table → prefix of the command that runs one of its entries
+    const runners: Record<string, string> = {
+      'project.scripts': projectRunner,
+      'tool.poetry.scripts': 'poetry run ',
+      'tool.pdm.scripts': 'pdm run ',
+      'tool.poe.tasks': 'poe ',
+    };
+
+    const tasks: WorktreeTask[] = [];
+    const add = (runner: string, name: string) => {
+      // pdm settings such as _.env_file live next to the scripts
+      if (!name.startsWith('_')) {
+        tasks.push(this.createTask('pyproject.toml', name, `${runner}${quote(name)}`));
+      }
+    };
+
+    let table: string | null = null;
+    for (const line of content.text.split('\n')) {
+      const header = line.match(/^\s*\[([^[\]]+)\]\s*(#.*)?$/);
+      if (header) {
+        table = header[1].trim();
+        // [tool.poe.tasks.build] defines the task "build" as a table
+        const parent = Object.keys(runners).find((key) => table?.startsWith(`${key}.`));
+        if (parent) {
+          add(runners[parent], table.slice(parent.length + 1).replace(/^"(.*)"$/, '$1'));
+        }
+        continue;
+      }
+      if (/^\s*\[\[/.test(line)) {
+        table = null;
+        continue;
+      }
+      const key = line.match(/^\s*(?:"([^"]+)"|([\w.-]+))\s*=/);
+      if (table && key && runners[table] !== undefined) {
+        add(runners[table], key[1] ?? key[2]);
+      }
+    }
+    return tasks;
+  }
+
+  private createTask(source: TaskSource, name: string, command: string): WorktreeTask {
+    return { id: `${source}:${name}`, name, source, command, pinned: false };
+  }
+
+  private async readFirst(
+    dir: string,
+    names: string[]
+  ): Promise<{ name: string; text: string } | null> {
+    for (const name of names) {
+      try {
+        return { name, text: await fs.readFile(path.join(dir, name), 'utf-8') };
+      } catch {
+        // Try the next name
+      }
+    }
+    return null;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { logger } from '@/commons/utils/logger';
+import { buildTurnSpans, OtlpSpan, toOtlpExportRequest } from '@/monitoring/utils/otlp';
+import type { TelemetryConfig } from '@/types/config.types';
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+import { app } from 'electron';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDataStoreService } from './FileDataStoreService';
+import { TraceLogger } from './TraceLogger';
+
+const DEFAULT_SERVICE_NAME = 'autosteer';
+const EXPORT_TIMEOUT_MS = 10000;
+
+/**
+ * TelemetryService - exports agent turns to an OpenTelemetry backend
+ *
+ * Collects each query's messages from TraceLogger, keyed by correlation id, and
+ * converts them to spans when ClaudeCodeSDKService reports the turn as finished.
+ * Spans are POSTed as OTLP/HTTP JSON to the configured endpoint and/or appended
+ * to a file. Export failures are logged and never affect the query.
+ */
+export class TelemetryService {
+  private static instance: TelemetryService;
+  private config: TelemetryConfig = {};
+  private turns: Map<string, TraceFileEntry[]> = new Map();
+  private unsubscribe: (() => void) | null = null;
+
+  static getInstance(): TelemetryService {
+    if (!TelemetryService.instance) {
+      TelemetryService.instance = new TelemetryService();
+    }
+    return TelemetryService.instance;
+  }
+
+  /**
+   * Start exporting if telemetry is enabled in app.json
+   */
+  async start(): Promise<void> {
+    const appConfig = await FileDataStoreService.getInstance().readAppConfig();
+    this.configure(appConfig.telemetry ?? {});
+  }
+
+  /**
+   * Apply new settings; turns in progress are dropped when export is turned off
+   */
+  configure(config: TelemetryConfig): void {
+    this.config = config;
+    const active = !!config.enabled && !!(config.endpoint || config.filePath);
+
+    if (active && !this.unsubscribe) {
+      this.unsubscribe = TraceLogger.getInstance().onEntry((entry) => this.collect(entry));
+      logger.info('[TelemetryService] Exporting agent turns', {
+        endpoint: config.endpoint,
+        filePath: config.filePath,
+      });
+    } else if (!active && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      this.turns.clear();
+    }
+  }
+
+  /**
+   * Export a finished turn
+   * @param error - Why the query ended early, if it did
+   */
+  async endTurn(correlationId: string, error?: string): Promise<void> {
+    const entries = this.turns.get(correlationId);
+    this.turns.delete(correlationId);
+    if (!entries || !this.unsubscribe) {
+      return;
+    }
+
+    try {
+      await this.export(buildTurnSpans(entries, error));
+    } catch (exportError) {
+      logger.warn('[TelemetryService] Failed to export turn:', {
+        correlationId,
+        error: String(exportError),
+      });
+    }
+  }
+
+  private collect(entry: TraceFileEntry): void {
+    const entries = this.turns.get(entry.correlationId);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      this.turns.set(entry.correlationId, [entry]);
+    }
+  }
+
+  private async export(spans: OtlpSpan[]): Promise<void> {
+    if (spans.length === 0) {
+      return;
+    }
+
+    const body = JSON.stringify(
+      toOtlpExportRequest(spans, {
+        serviceName: this.config.serviceName || DEFAULT_SERVICE_NAME,
+        serviceVersion: app?.getVersion ? app.getVersion() : 'unknown',
+      })
+    );
+
+    const { endpoint, filePath } = this.config;
+    await Promise.all([
+      endpoint ? this.post(endpoint, body) : undefined,
+      filePath ? this.appendToFile(filePath, body) : undefined,
+    ]);
+  }
+
+  private async appendToFile(filePath: string, body: string): Promise<void> {
+    const resolved = filePath.startsWith('~/')
+      ? path.join(app?.getPath ? app.getPath('home') : os.homedir(), filePath.slice(2))
+      : filePath;
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.appendFile(resolved, `${body}\n`, 'utf-8');
+  }
+
+  private post(endpoint: string, body: string): Promise<void> {
+    const url = new URL(endpoint);
+    const transport = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...this.config.headers,
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+          },
+          timeout: EXPORT_TIMEOUT_MS,
+        },
+        (res) => {
+          res.resume();
+          res.on('end', () => {
+            if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+              resolve();
+            } else {
+              reject(new Error(`Collector responded with ${res.statusCode}`));
+            }
+          });
+        }
+      );
+      req.on('timeout', () => req.destroy(new Error('Export timed out')));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
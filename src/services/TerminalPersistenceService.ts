@@ -0,0 +1,70 @@
+import log from 'electron-log';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PersistedTerminalSession } from '@/types/terminal.types';
+
+/**
+ * TerminalPersistenceService - Terminal Restore Across Restarts
+ *
+ * Saves each persistent terminal (scrollback, cwd, env, launch command) to
+ * ~/.autosteer/terminals/{key}.json and loads it when a terminal with the same key is
+ * created again.
+ *
+ * Architecture:
+ * - Main process service, owned by XtermService
+ * - One file per key; keys are project folder names
+ * - Writes go through a temp file and rename so a crash never leaves a truncated file
+ */
+export class TerminalPersistenceService {
+  private directory: string | null = null;
+
+  /**
+   * Load the saved session for a key
+   * @returns The session, or undefined if none was saved or the file is unreadable
+   */
+  async load(key: string): Promise<PersistedTerminalSession | undefined> {
+    try {
+      const content = await fs.readFile(this.getSessionPath(key), 'utf-8');
+      return JSON.parse(content) as PersistedTerminalSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('[TerminalPersistenceService] Ignoring unreadable terminal session', {
+          key,
+          error,
+        });
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a session, replacing any previous one for its key
+   */
+  async save(session: PersistedTerminalSession): Promise<void> {
+    const sessionPath = this.getSessionPath(session.key);
+    const tempPath = `${sessionPath}.tmp`;
+    await fs.mkdir(path.dirname(sessionPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(session), { mode: 0o600 });
+    await fs.rename(tempPath, sessionPath);
+
+    log.debug('[TerminalPersistenceService] Session saved', {
+      key: session.key,
+      sizeBytes: session.bufferState.sizeBytes,
+    });
+  }
+
+  /**
+   * Remove the saved session for a key
+   */
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.getSessionPath(key), { force: true });
+    log.debug('[TerminalPersistenceService] Session removed', { key });
+  }
+
+  private getSessionPath(key: string): string {
+    // Resolved on first use: the home directory is not needed until a terminal is saved
+    this.directory ??= path.join(os.homedir(), '.autosteer', 'terminals');
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
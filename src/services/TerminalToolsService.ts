@@ -0,0 +1,155 @@
+import {
+  createSdkMcpServer,
+  tool,
+  type McpSdkServerConfigWithInstance,
+} from '@anthropic-ai/claude-agent-sdk';
+import * as path from 'path';
+import { z } from 'zod';
+import { XtermService } from './XtermService';
+
+export const TERMINAL_TOOLS_SERVER = 'autosteer-terminals';
+
+/**
+ * Tools that only read terminals, allowed without a permission prompt
+ */
+export const READ_ONLY_TERMINAL_TOOLS = [
+  `mcp__${TERMINAL_TOOLS_SERVER}__list_terminals`,
+  `mcp__${TERMINAL_TOOLS_SERVER}__read_terminal_output`,
+];
+
+/**
+ * Types into the user's shell, so its input is checked against Bash permission rules and
+ * every call is confirmed unless permissions are bypassed
+ */
+export const SEND_TERMINAL_INPUT_TOOL = `mcp__${TERMINAL_TOOLS_SERVER}__send_terminal_input`;
+
+const DEFAULT_OUTPUT_LINES = 100;
+const MAX_OUTPUT_LINES = 1000;
+
+type TerminalInfo = ReturnType<XtermService['getAllTerminals']>[number];
+
+const textResult = (text: string, isError = false) => ({
+  content: [{ type: 'text' as const, text }],
+  ...(isError && { isError }),
+});
+
+/**
+ * TerminalToolsService - lets the agent see and drive the user's terminal tabs
+ *
+ * Builds an in-process MCP server per query with tools to list the worktree's terminals,
+ * read their recent output and type into them. Only terminals opened for the agent's
+ * worktree (by tab or working directory) are visible.
+ */
+export class TerminalToolsService {
+  private static instance: TerminalToolsService;
+
+  static getInstance(): TerminalToolsService {
+    if (!TerminalToolsService.instance) {
+      TerminalToolsService.instance = new TerminalToolsService();
+    }
+    return TerminalToolsService.instance;
+  }
+
+  /**
+   * Terminals belonging to the worktree
+   */
+  listTerminals(worktreePath: string): TerminalInfo[] {
+    const worktreeId = path.basename(worktreePath);
+    return XtermService.getInstance()
+      .getAllTerminals()
+      .filter((terminal) => {
+        const relative = path.relative(worktreePath, terminal.cwd);
+        return (
+          terminal.persistKey === worktreeId ||
+          relative === '' ||
+          (!relative.startsWith('..') && !path.isAbsolute(relative))
+        );
+      });
+  }
+
+  /**
+   * SDK MCP server with the terminal tools, scoped to the worktree. A server instance
+   * connects to one query, so each query needs its own.
+   */
+  createServer(worktreePath: string): McpSdkServerConfigWithInstance {
+    const xtermService = XtermService.getInstance();
+
+    const findTerminal = (terminalId: string) =>
+      this.listTerminals(worktreePath).find((terminal) => terminal.id === terminalId);
+    const notFound = (terminalId: string) =>
+      textResult(
+        `No terminal ${terminalId} in this worktree. Use list_terminals to see the open terminals.`,
+        true
+      );
+
+    return createSdkMcpServer({
+      name: TERMINAL_TOOLS_SERVER,
+      version: '1.0.0',
+      tools: [
+        tool(
+          'list_terminals',
+          "List the user's open terminal tabs in this worktree, with their shell, working directory and last command.",
+          {},
+          async () => {
+            const terminals = this.listTerminals(worktreePath).map((terminal) => ({
+              terminalId: terminal.id,
+              shell: terminal.shell,
+              cwd: terminal.cwd,
+              running: terminal.isActive,
+              ...(terminal.launchCommand && { lastCommand: terminal.launchCommand }),
+            }));
+            return textResult(
+              terminals.length > 0
+                ? JSON.stringify(terminals, null, 2)
+                : 'No terminals are open in this worktree.'
+            );
+          }
+        ),
+        tool(
+          'read_terminal_output',
+          "Read the most recent output of one of the user's terminals as plain text, e.g. a dev server's log or a failing test run.",
+          {
+            terminalId: z.string().describe('Terminal ID from list_terminals'),
+            lines: z
+              .number()
+              .int()
+              .min(1)
+              .max(MAX_OUTPUT_LINES)
+              .optional()
+              .describe(`Number of lines from the end (default ${DEFAULT_OUTPUT_LINES})`),
+          },
+          async ({ terminalId, lines }) => {
+            if (!findTerminal(terminalId)) {
+              return notFound(terminalId);
+            }
+            const output = xtermService.readOutput(terminalId, lines ?? DEFAULT_OUTPUT_LINES);
+            return textResult(output || '(no output)');
+          }
+        ),
+        tool(
+          'send_terminal_input',
+          "Type into one of the user's terminals, e.g. to restart a dev server. The user sees the input in the terminal tab. Send \\u0003 to press Ctrl+C. Read the output afterwards to see the result.",
+          {
+            terminalId: z.string().describe('Terminal ID from list_terminals'),
+            input: z.string().describe('Text to type'),
+            pressEnter: z
+              .boolean()
+              .optional()
+              .describe('Press Enter after the text (default true)'),
+          },
+          async ({ terminalId, input, pressEnter }) => {
+            const terminal = findTerminal(terminalId);
+            if (!terminal) {
+              return notFound(terminalId);
+            }
+            if (!terminal.isActive) {
+              return textResult(`Terminal ${terminalId} has exited.`, true);
+            }
+            await xtermService.sendInput(terminalId, pressEnter === false ? input : `${input}\r`);
+            return textResult(`Sent input to terminal ${terminalId}.`);
+          }
+        ),
+      ],
+    });
+  }
+}
@@ -4,6 +4,7 @@ import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
 import { logger } from '@/commons/utils/logger';
+import { TraceFileEntry, TraceFileInfo } from '@/types/trace-logger.types';
 
 const fsPromises = {
   mkdir: promisify(fs.mkdir),
@@ -12,6 +13,7 @@ const fsPromises = {
   unlink: promisify(fs.unlink),
   stat: promisify(fs.stat),
   readdir: promisify(fs.readdir),
+  readFile: promisify(fs.readFile),
   rename: promisify(fs.rename),
   access: promisify(fs.access),
 };
@@ -19,18 +21,6 @@ const fsPromises = {
 // 100MB rotation limit
 const ROTATION_SIZE_LIMIT = 100 * 1024 * 1024;
 
-interface TraceLogEntry {
-  timestamp: string;
-  sessionId: string;
-  direction: 'to-claude' | 'from-claude';
-  rawMessage: unknown;
-  sdkVersion: string;
-  correlationId: string;
-  sequenceNumber: number;
-  messageType?: string; // Pydantic message type (e.g., 'system', 'user', 'assistant', 'tool', 'result', 'error', 'stream_event')
-  messageSubtype?: string; // Pydantic message subtype if applicable (e.g., 'init', 'compact_boundary' for system messages)
-}
-
 /**
  * TraceLogger - SDK message trace logging service
  *
@@ -56,6 +46,7 @@ export class TraceLogger {
   private tracesDir: string;
   private sequenceCounters: Map<string, number> = new Map();
   private pendingWrites: Map<string, Promise<void>> = new Map();
+  private entryListeners: Array<(entry: TraceFileEntry) => void> = [];
 
   private constructor() {
     // Use app.getPath if available (production), otherwise use fallback for tests
@@ -163,12 +154,14 @@ export class TraceLogger {
    * @param direction - Message direction (to-claude or from-claude)
    * @param rawMessage - Raw SDK message object
    * @param correlationId - Correlation ID for request/response pairing
+   * @param timestamp - When the message was sent or received, if it was logged later
    */
   async log(
     sessionId: string,
     direction: 'to-claude' | 'from-claude',
     rawMessage: unknown,
-    correlationId: string
+    correlationId: string,
+    timestamp: Date = new Date()
   ): Promise<void> {
     // Ensure directory exists
     await this.ensureTracesDirectory();
@@ -185,8 +178,8 @@ export class TraceLogger {
     const { type: messageType, subtype: messageSubtype } = this.extractMessageType(rawMessage);
 
     // Create trace log entry (conditionally add optional fields)
-    const entry: TraceLogEntry = {
-      timestamp: new Date().toISOString(),
+    const entry: TraceFileEntry = {
+      timestamp: timestamp.toISOString(),
       sessionId,
       direction,
       rawMessage,
@@ -197,6 +190,14 @@ export class TraceLogger {
       ...(messageSubtype && { messageSubtype }),
     };
 
+    for (const listener of this.entryListeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        logger.error('[TraceLogger] Entry listener failed:', { error: String(error) });
+      }
+    }
+
     // Serialize to JSONL format (one JSON object per line)
     const logLine = JSON.stringify(entry) + '\n';
 
@@ -355,6 +356,89 @@ export class TraceLogger {
     }
   }
 
+  /**
+   * List trace files in the traces directory, most recently modified first
+   */
+  async listTraceFiles(): Promise<TraceFileInfo[]> {
+    let files: string[];
+    try {
+      files = await fsPromises.readdir(this.tracesDir);
+    } catch (error) {
+      logger.warn('[TraceLogger] Failed to read traces directory:', { error: String(error) });
+      return [];
+    }
+
+    const traceFiles: TraceFileInfo[] = [];
+    for (const file of files) {
+      const match = /^(.+)\.trace\.jsonl(\.rotated\.\d+)?$/.exec(file);
+      if (!match) continue;
+
+      const filePath = path.join(this.tracesDir, file);
+      try {
+        const stats = await fsPromises.stat(filePath);
+        traceFiles.push({
+          sessionId: match[1],
+          filePath,
+          size: stats.size,
+          modifiedAt: stats.mtime.toISOString(),
+        });
+      } catch (error) {
+        // File removed while listing, skip it
+      }
+    }
+
+    return traceFiles.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+  }
+
+  /**
+   * Read a trace file, in the order entries were written
+   * Lines that are not valid trace entries (e.g. a partially written last line) are skipped.
+   *
+   * @param filePath - Any trace file, not only those in the traces directory
+   */
+  async readTraceFile(filePath: string): Promise<TraceFileEntry[]> {
+    const content = await fsPromises.readFile(filePath, 'utf-8');
+    const entries: TraceFileEntry[] = [];
+    let skipped = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as TraceFileEntry;
+        if (entry.direction && entry.timestamp && 'rawMessage' in entry) {
+          entries.push(entry);
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('[TraceLogger] Skipped invalid trace lines', { filePath, skipped });
+    }
+    return entries;
+  }
+
+  /**
+   * Subscribe to every entry as it is logged
+   * @returns Unsubscribe function
+   */
+  onEntry(listener: (entry: TraceFileEntry) => void): () => void {
+    this.entryListeners.push(listener);
+    return () => {
+      this.entryListeners = this.entryListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Get the directory trace files are written to
+   */
+  getTracesDirectory(): string {
+    return this.tracesDir;
+  }
+
   /**
    * Delete all trace files for multiple sessions
    * Used for project deletion cleanup
@@ -0,0 +1,104 @@
+import { LoadedUsageEntry } from '@/entities';
+import type { CCUsageMonitor } from '@/monitoring/adapters/CCUsageMonitor';
+import { AnalyticsPeriod, UsageAnalytics } from '@/monitoring/interfaces/types';
+import {
+  buildUsageAnalytics,
+  claudeProjectDirName,
+  UsageLabeler,
+  usageAnalyticsToCSV,
+} from '@/monitoring/utils/usageAnalytics';
+import * as path from 'path';
+import { FileDataStoreService } from './FileDataStoreService';
+import { SessionManifestService } from './SessionManifestService';
+
+export type UsageExportFormat = 'csv' | 'json';
+
+const UNATTRIBUTED = 'Unattributed';
+
+/**
+ * UsageAnalyticsService - usage history across every Claude Code session
+ *
+ * Reads Claude Code's usage logs through CCUsageMonitor and attributes each request to
+ * the worktree it ran in (by project directory) and the agent that owns its session.
+ * Sessions no agent currently points to are reported as unattributed.
+ */
+export class UsageAnalyticsService {
+  private static instance: UsageAnalyticsService;
+  private monitor: CCUsageMonitor | null = null;
+
+  static getInstance(): UsageAnalyticsService {
+    if (!UsageAnalyticsService.instance) {
+      UsageAnalyticsService.instance = new UsageAnalyticsService();
+    }
+    return UsageAnalyticsService.instance;
+  }
+
+  async getAnalytics(period: AnalyticsPeriod): Promise<UsageAnalytics> {
+    const monitor = await this.getMonitor();
+    const entries = await monitor.getEntries();
+    const activeBlock = await monitor.getActiveBlock();
+    const labeler = await this.createLabeler();
+
+    return buildUsageAnalytics(entries, { period, labeler, activeBlock });
+  }
+
+  /**
+   * Usage analytics as the contents of a CSV or JSON file
+   */
+  async export(period: AnalyticsPeriod, format: UsageExportFormat): Promise<string> {
+    const analytics = await this.getAnalytics(period);
+    return format === 'csv' ? usageAnalyticsToCSV(analytics) : JSON.stringify(analytics, null, 2);
+  }
+
+  private async getMonitor(): Promise<CCUsageMonitor> {
+    if (!this.monitor) {
+      // Loaded on first use: the usage logs are only read when analytics are requested
+      const { CCUsageMonitor } = await import('@/monitoring/adapters/CCUsageMonitor');
+      this.monitor = new CCUsageMonitor({ costMode: 'calculate' });
+    }
+    return this.monitor;
+  }
+
+  private async createLabeler(): Promise<UsageLabeler> {
+    const fileDataStore = FileDataStoreService.getInstance();
+    const sessionManifest = SessionManifestService.getInstance();
+    const [worktrees, agents] = await Promise.all([
+      fileDataStore.getWorktrees(),
+      fileDataStore.getAgents(),
+    ]);
+
+    const worktreesByDir = new Map<string, string>();
+    const agentsBySession = new Map<string, string>();
+    const agentTitles = new Map(agents.map((agent) => [agent.id, agent.title]));
+
+    for (const agent of agents) {
+      if (agent.claude_session_id) {
+        agentsBySession.set(agent.claude_session_id, `${agent.title} (${agent.project_id})`);
+      }
+    }
+    for (const worktree of worktrees) {
+      const worktreePath = fileDataStore.getWorktreePath(worktree.folder_name);
+      worktreesByDir.set(claudeProjectDirName(worktreePath), worktree.folder_name);
+
+      const sessions = await sessionManifest.getAllAgentSessions(worktree.folder_name);
+      for (const [agentId, sessionId] of Object.entries(sessions)) {
+        const title = agentTitles.get(agentId);
+        if (title) {
+          agentsBySession.set(sessionId, `${title} (${worktree.folder_name})`);
+        }
+      }
+    }
+
+    return {
+      worktree: (entry: LoadedUsageEntry) => {
+        if (!entry.sourceFile) return UNATTRIBUTED;
+        const projectDir = path.basename(path.dirname(entry.sourceFile));
+        return worktreesByDir.get(projectDir) ?? projectDir;
+      },
+      agent: (entry: LoadedUsageEntry) => {
+        if (!entry.sourceFile) return UNATTRIBUTED;
+        return agentsBySession.get(path.basename(entry.sourceFile, '.jsonl')) ?? UNATTRIBUTED;
+      },
+    };
+  }
+}
@@ -1,9 +1,32 @@
-import { TerminalCreateParams, TerminalData } from '@/types/terminal.types';
+import { getTerminalSettings } from '@/config/settings';
+import {
+  RestoredTerminalSession,
+  TerminalBufferState,
+  TerminalBufferStore,
+  TerminalCreateParams,
+  TerminalData,
+} from '@/types/terminal.types';
+import { execFile } from 'child_process';
 import { BrowserWindow, ipcMain } from 'electron';
 import log from 'electron-log';
+import * as fs from 'fs/promises';
 import { IPty, spawn as ptySpawn } from 'node-pty';
 import * as os from 'os';
+import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
+import { TerminalPersistenceService } from './TerminalPersistenceService';
+
+const execFileAsync = promisify(execFile);
+
+const ESC = '\u001b';
+const MAX_OUTPUT_CHARS = 2 * 1024 * 1024; // Recent output kept per terminal
+const SAVE_DELAY_MS = 2000; // Persistent terminals are saved at most this often while busy
+const MAX_ECHO_CHARS = 4096; // Output kept per input line to check the line was echoed
+
+// CSI and OSC sequences and two-character escapes, removed when output is read as text
+const ANSI_SEQUENCE =
+  // eslint-disable-next-line no-control-regex
+  /\u001b\[[0-?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-_]/g;
 
 export interface XtermTerminal {
   id: string;
@@ -16,8 +39,19 @@ export interface XtermTerminal {
   size: { cols: number; rows: number };
   hasExited: boolean;
   disposables: Array<{ dispose: () => void }>;
+  env?: Record<string, string>; // Variables set for this terminal on top of the app environment
+  persistKey?: string;
+  launchCommand?: string; // Last command entered at the prompt
+  multiplexerSession?: string;
+  output?: string; // Recent PTY output with ANSI codes
+  inputLine?: string | null; // Line being typed; null when history recall makes it unknown
+  inputEcho?: string; // Output since the line being typed began
+  pendingCommand?: string; // Line entered but not yet seen in the output
+  saveTimer?: NodeJS.Timeout;
 }
 
+export type TerminalExitListener = (terminalId: string, exitCode: number, signal?: number) => void;
+
 /**
  * XTerm.js Service for Electron Main Process
  * Handles PTY-based terminal process management with full readline support
@@ -26,6 +60,10 @@ export class XtermService {
   private static instance: XtermService;
   private terminals = new Map<string, XtermTerminal>();
   private readonly maxTerminals = 10;
+  private bufferStore: TerminalBufferStore | null = null;
+  private readonly persistence = new TerminalPersistenceService();
+  private multiplexerAvailable: Promise<boolean> | null = null;
+  private exitListeners = new Set<TerminalExitListener>();
 
   private constructor() {
     this.setupIpcHandlers();
@@ -38,6 +76,22 @@ export class XtermService {
     return XtermService.instance;
   }
 
+  /**
+   * Capture terminal output into this store (TerminalBufferService lives in the main process)
+   */
+  setBufferStore(bufferStore: TerminalBufferStore): void {
+    this.bufferStore = bufferStore;
+  }
+
+  /**
+   * Be told when a terminal's process exits by itself (not when it is killed). Listeners run
+   * while the terminal's output can still be read. Returns a function that removes the listener.
+   */
+  onExit(listener: TerminalExitListener): () => void {
+    this.exitListeners.add(listener);
+    return () => this.exitListeners.delete(listener);
+  }
+
   /**
    * Setup IPC handlers for terminal operations
    */
@@ -94,26 +148,49 @@ export class XtermService {
     }
 
     const terminalId = uuidv4();
-    const shell = params?.shell || this.getDefaultShell();
-    const cwd = params?.cwd || os.homedir();
+    const persistKey = params?.persistKey;
+    const saved = persistKey ? await this.persistence.load(persistKey) : undefined;
+    const shell = params?.shell || saved?.shell || this.getDefaultShell();
+    const cwd =
+      (saved && (await this.isDirectory(saved.cwd)) ? saved.cwd : params?.cwd) || os.homedir();
     const size = params?.size || { cols: 80, rows: 24 };
     const title = params?.title || 'Terminal';
+    const terminalEnv = { ...saved?.env, ...this.toStringEnv(params?.env) };
     const env = this.getFilteredEnv();
 
+    const execCommand = params?.exec ? params.command : undefined;
+
+    // With a multiplexer, the shell runs inside a tmux session that outlives the app
+    const multiplexerSession =
+      persistKey && !execCommand && (await this.useMultiplexer())
+        ? saved?.multiplexerSession || `autosteer-${persistKey.replace(/[^\w-]/g, '_')}`
+        : undefined;
+    const reattached =
+      !!multiplexerSession && (await this.hasMultiplexerSession(multiplexerSession));
+
     try {
       // Spawn PTY with persistent shell session
-      const pty = ptySpawn(shell, [], {
-        name: 'xterm-256color',
-        cols: size.cols,
-        rows: size.rows,
-        cwd,
-        env: {
-          ...env,
-          TERM: 'xterm-256color',
-          COLORTERM: 'truecolor',
-          FORCE_COLOR: '1',
-        },
-      });
+      const pty = ptySpawn(
+        multiplexerSession ? 'tmux' : shell,
+        multiplexerSession
+          ? ['new-session', '-A', '-s', multiplexerSession, shell]
+          : execCommand
+            ? this.getCommandArgs(shell, execCommand)
+            : [],
+        {
+          name: 'xterm-256color',
+          cols: size.cols,
+          rows: size.rows,
+          cwd,
+          env: {
+            ...env,
+            ...terminalEnv,
+            TERM: 'xterm-256color',
+            COLORTERM: 'truecolor',
+            FORCE_COLOR: '1',
+          },
+        }
+      );
 
       const terminal: XtermTerminal = {
         id: terminalId,
@@ -126,6 +203,10 @@ export class XtermService {
         size,
         hasExited: false,
         disposables: [],
+        env: terminalEnv,
+        ...(persistKey && { persistKey }),
+        ...(saved?.launchCommand && { launchCommand: saved.launchCommand }),
+        ...(multiplexerSession && { multiplexerSession }),
       };
 
       this.terminals.set(terminalId, terminal);
@@ -133,6 +214,25 @@ export class XtermService {
       // Setup PTY event handlers
       this.setupPtyHandlers(terminalId, pty, window);
 
+      let restored: RestoredTerminalSession | undefined;
+      if (saved) {
+        restored = {
+          content: reattached ? '' : saved.bufferState.content,
+          ...(saved.launchCommand && { launchCommand: saved.launchCommand }),
+          savedAt: saved.bufferState.timestamp,
+          reattached,
+        };
+        // Keep the old scrollback in front of the new output when the terminal is saved again
+        terminal.output = restored.content;
+      }
+
+      if (params?.command) {
+        if (!execCommand) {
+          pty.write(`${params.command}\r`);
+        }
+        terminal.launchCommand = params.command;
+      }
+
       log.debug(
         `[XtermService] Created terminal ${terminalId} (pid: ${pty.pid}). PTY count: ${this.terminals.size}/${this.maxTerminals}`
       );
@@ -149,6 +249,7 @@ export class XtermService {
         cwd,
         size,
         status: 'running',
+        ...(restored && { restored }),
       };
     } catch (error) {
       log.error(`[XtermService] Failed to create PTY terminal. PTY count: ${ptyCount}`, error);
@@ -168,6 +269,7 @@ export class XtermService {
 
     // Handle PTY data output
     const dataDisposable = pty.onData((data: string) => {
+      this.recordOutput(terminal, data);
       if (!window.isDestroyed()) {
         window.webContents.send(`terminal:data:${terminalId}`, data);
       }
@@ -180,6 +282,15 @@ export class XtermService {
         if (term) {
           term.isActive = false;
           term.hasExited = true;
+          void this.saveTerminal(term);
+
+          this.exitListeners.forEach((listener) => {
+            try {
+              listener(terminalId, exitCode, signal);
+            } catch (error) {
+              log.error(`Terminal ${terminalId} exit listener failed:`, error);
+            }
+          });
 
           // Cleanup disposables
           term.disposables.forEach((d) => {
@@ -228,6 +339,215 @@ export class XtermService {
       log.error(`Failed to write to PTY terminal ${terminalId}:`, error);
       throw error;
     }
+    this.trackInput(terminal, data);
+  }
+
+  /**
+   * Remember the last command entered at the prompt, so a restored terminal can offer to
+   * run it again. Pasted text counts as typed; history recall and tab completion make the
+   * line unknown until the next Enter. A line only counts once the terminal echoed it, so
+   * passwords typed at prompts that turn echo off are never recorded.
+   */
+  private trackInput(terminal: XtermTerminal, data: string): void {
+    const text = data.split(`${ESC}[200~`).join('').split(`${ESC}[201~`).join('');
+    let line = terminal.inputLine;
+    delete terminal.pendingCommand;
+    for (const char of text) {
+      if (char === '\r' || char === '\n') {
+        if (line && line.trim() && line.trim() !== terminal.launchCommand) {
+          terminal.pendingCommand = line.trim();
+        }
+        line = '';
+      } else if (char === '\x7f' || char === '\b') {
+        line = line?.slice(0, -1) ?? null;
+      } else if (char === '\x03' || char === '\x15') {
+        // Ctrl+C and Ctrl+U discard the line
+        line = '';
+      } else if (char < ' ') {
+        line = null;
+      } else if (line !== null) {
+        if (!line) {
+          terminal.inputEcho = '';
+        }
+        line = (line ?? '') + char;
+      }
+    }
+    terminal.inputLine = line ?? null;
+    this.trackEcho(terminal, '');
+  }
+
+  /**
+   * Keep recent output for buffer capture and schedule a save
+   */
+  private recordOutput(terminal: XtermTerminal, data: string): void {
+    const output = (terminal.output ?? '') + data;
+    terminal.output =
+      output.length > MAX_OUTPUT_CHARS ? output.slice(output.length - MAX_OUTPUT_CHARS) : output;
+    this.trackEcho(terminal, data);
+    this.scheduleSave(terminal);
+  }
+
+  /**
+   * Record the pending command once its echo appears. Without echo by the end of the output
+   * line that follows Enter, the line was typed at a prompt that hides input and is dropped.
+   */
+  private trackEcho(terminal: XtermTerminal, data: string): void {
+    if (terminal.inputEcho === undefined) {
+      return;
+    }
+    let echo = terminal.inputEcho;
+    for (const char of data.replace(ANSI_SEQUENCE, '')) {
+      if (char === '\b') {
+        echo = echo.slice(0, -1);
+      } else if (char === '\n' && terminal.pendingCommand) {
+        this.commitPendingCommand(terminal, echo);
+        delete terminal.pendingCommand;
+      } else {
+        echo += char;
+      }
+    }
+    terminal.inputEcho = echo.length > MAX_ECHO_CHARS ? echo.slice(-MAX_ECHO_CHARS) : echo;
+    this.commitPendingCommand(terminal, echo);
+  }
+
+  private commitPendingCommand(terminal: XtermTerminal, echo: string): void {
+    const command = terminal.pendingCommand;
+    if (!command || !echo.includes(command)) {
+      return;
+    }
+    delete terminal.pendingCommand;
+    terminal.launchCommand = command;
+    this.scheduleSave(terminal);
+  }
+
+  private scheduleSave(terminal: XtermTerminal): void {
+    if (terminal.saveTimer) {
+      return;
+    }
+    terminal.saveTimer = setTimeout(() => {
+      delete terminal.saveTimer;
+      void this.saveTerminal(terminal);
+    }, SAVE_DELAY_MS);
+  }
+
+  /**
+   * Capture the terminal's buffer into TerminalBufferService and, for persistent terminals,
+   * save it to disk with the cwd, env and launch command
+   */
+  private async saveTerminal(terminal: XtermTerminal): Promise<void> {
+    if (terminal.saveTimer) {
+      clearTimeout(terminal.saveTimer);
+      delete terminal.saveTimer;
+    }
+
+    const bufferState = this.captureBuffer(terminal);
+    if (!terminal.persistKey) {
+      return;
+    }
+
+    try {
+      await this.persistence.save({
+        key: terminal.persistKey,
+        shell: terminal.shell,
+        cwd: await this.getCurrentCwd(terminal),
+        env: terminal.env ?? {},
+        ...(terminal.launchCommand && { launchCommand: terminal.launchCommand }),
+        ...(terminal.multiplexerSession && { multiplexerSession: terminal.multiplexerSession }),
+        // Scrollback is the content split into lines, so only the content is saved
+        bufferState: {
+          terminalId: bufferState.terminalId,
+          content: bufferState.content,
+          cursorX: bufferState.cursorX,
+          cursorY: bufferState.cursorY,
+          cols: bufferState.cols,
+          rows: bufferState.rows,
+          timestamp: bufferState.timestamp.toISOString(),
+          sizeBytes: bufferState.sizeBytes,
+        },
+      });
+    } catch (error) {
+      log.error(`[XtermService] Failed to save terminal ${terminal.id}:`, error);
+    }
+  }
+
+  /**
+   * Capture the terminal's buffer into TerminalBufferService; the store trims the scrollback
+   * to its limits
+   */
+  private captureBuffer(terminal: XtermTerminal): TerminalBufferState {
+    const content = terminal.output ?? '';
+    const bufferState: TerminalBufferState = {
+      terminalId: terminal.id,
+      content,
+      scrollback: content.split('\n'),
+      cursorX: 0,
+      cursorY: 0,
+      cols: terminal.size.cols,
+      rows: terminal.size.rows,
+      timestamp: new Date(),
+      sizeBytes: content.length,
+    };
+    if (!this.bufferStore) {
+      return bufferState;
+    }
+    this.bufferStore.saveBufferState(bufferState);
+    return this.bufferStore.getBufferState(terminal.id) ?? bufferState;
+  }
+
+  /**
+   * The shell's working directory, where the OS exposes it (Linux); otherwise the directory
+   * the terminal started in
+   */
+  private async getCurrentCwd(terminal: XtermTerminal): Promise<string> {
+    if (os.platform() !== 'linux' || terminal.multiplexerSession || terminal.hasExited) {
+      return terminal.cwd;
+    }
+    try {
+      return await fs.readlink(`/proc/${terminal.pid}/cwd`);
+    } catch {
+      return terminal.cwd;
+    }
+  }
+
+  private async isDirectory(dirPath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(dirPath)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private toStringEnv(env: NodeJS.ProcessEnv | undefined): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(env ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+  }
+
+  /**
+   * Whether persistent terminals run inside tmux (AUTOSTEER_TERMINAL_MULTIPLEXER=tmux and
+   * tmux is installed)
+   */
+  private useMultiplexer(): Promise<boolean> {
+    if (getTerminalSettings().multiplexer !== 'tmux' || os.platform() === 'win32') {
+      return Promise.resolve(false);
+    }
+    this.multiplexerAvailable ??= execFileAsync('tmux', ['-V']).then(
+      () => true,
+      (error) => {
+        log.warn('[XtermService] tmux not found, terminals run without a multiplexer:', error);
+        return false;
+      }
+    );
+    return this.multiplexerAvailable;
+  }
+
+  private async hasMultiplexerSession(session: string): Promise<boolean> {
+    try {
+      await execFileAsync('tmux', ['has-session', '-t', `=${session}`]);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -263,10 +583,48 @@ export class XtermService {
       `[XtermService] Removed terminal ${terminalId} from map. PTY count: ${this.terminals.size}/${this.maxTerminals}`
     );
 
+    // Closing a terminal discards what would restore it
+    this.discardTerminalState(terminal);
+
     // Kill the PTY process
     await this.killTerminalPty(terminalId, terminal);
   }
 
+  private discardTerminalState(terminal: XtermTerminal): void {
+    if (terminal.saveTimer) {
+      clearTimeout(terminal.saveTimer);
+      delete terminal.saveTimer;
+    }
+    this.bufferStore?.removeBufferState(terminal.id);
+
+    if (terminal.persistKey) {
+      this.persistence.remove(terminal.persistKey).catch((error) => {
+        log.error(`[XtermService] Failed to remove saved terminal ${terminal.id}:`, error);
+      });
+    }
+    if (terminal.multiplexerSession) {
+      execFileAsync('tmux', ['kill-session', '-t', `=${terminal.multiplexerSession}`]).catch(
+        (error) => {
+          log.warn(`[XtermService] Failed to end tmux session for ${terminal.id}:`, error);
+        }
+      );
+    }
+  }
+
+  /**
+   * Stop a terminal's PTY, first saving persistent terminals so they are restored on the
+   * next start. tmux sessions keep running.
+   */
+  private async detachTerminal(terminalId: string, terminal: XtermTerminal): Promise<void> {
+    this.terminals.delete(terminalId);
+    if (terminal.persistKey) {
+      await this.saveTerminal(terminal);
+    } else {
+      this.discardTerminalState(terminal);
+    }
+    await this.killTerminalPty(terminalId, terminal);
+  }
+
   /**
    * Kill PTY process with graceful shutdown
    * This is separated to allow cleanup without map removal
@@ -329,6 +687,8 @@ export class XtermService {
     cwd: string;
     isActive: boolean;
     pid: number;
+    persistKey?: string;
+    launchCommand?: string;
   }> {
     return Array.from(this.terminals.values()).map((terminal) => ({
       id: terminal.id,
@@ -336,9 +696,63 @@ export class XtermService {
       cwd: terminal.cwd,
       isActive: terminal.isActive,
       pid: terminal.pid,
+      ...(terminal.persistKey && { persistKey: terminal.persistKey }),
+      ...(terminal.launchCommand && { launchCommand: terminal.launchCommand }),
     }));
   }
 
+  /**
+   * Last lines of a terminal's output as plain text, read from TerminalBufferService.
+   * Lines overwritten with carriage returns (progress bars) keep only their final text.
+   */
+  readOutput(terminalId: string, lines: number): string {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      throw new Error(`Terminal not found: ${terminalId}`);
+    }
+
+    const text = this.captureBuffer(terminal)
+      .scrollback.map((line) => {
+        const plain = line.replace(ANSI_SEQUENCE, '').replace(/\r+$/, '');
+        return plain.slice(plain.lastIndexOf('\r') + 1);
+      })
+      .join('\n')
+      .trimEnd();
+    return text ? text.split('\n').slice(-lines).join('\n') : '';
+  }
+
+  /**
+   * Recent output of a terminal with ANSI codes, e.g. to replay it into a new view
+   */
+  getOutput(terminalId: string): string {
+    const terminal = this.terminals.get(terminalId);
+    if (!terminal) {
+      throw new Error(`Terminal not found: ${terminalId}`);
+    }
+    return terminal.output ?? '';
+  }
+
+  /**
+   * Type into a terminal as if the user had, e.g. for the agent's terminal tools
+   */
+  async sendInput(terminalId: string, data: string): Promise<void> {
+    await this.writeToTerminal(terminalId, data);
+  }
+
+  /**
+   * Arguments that make the shell run one command and exit with its exit code
+   */
+  private getCommandArgs(shell: string, command: string): string[] {
+    const name = shell.split(/[\\/]/).pop()?.toLowerCase() ?? '';
+    if (name === 'cmd.exe' || name === 'cmd') {
+      return ['/d', '/s', '/c', command];
+    }
+    if (name.startsWith('powershell') || name.startsWith('pwsh')) {
+      return ['-NoProfile', '-Command', command];
+    }
+    return ['-c', command];
+  }
+
   /**
    * Get platform-appropriate default shell
    */
@@ -405,10 +819,10 @@ export class XtermService {
       `[XtermService] Removed ${terminalsToKill.length} terminals from map. Remaining: ${this.terminals.size}`
     );
 
-    // Kill PTY processes in background (async cleanup)
+    // Save and kill PTY processes in background (async cleanup)
     const killPromises = terminalsToKill.map(({ id, terminal }) => {
       log.debug(`[XtermService] Killing PTY for terminal ${id}`);
-      return this.killTerminalPty(id, terminal).catch((error) => {
+      return this.detachTerminal(id, terminal).catch((error) => {
         log.error(`[XtermService] Error killing PTY terminal ${id}:`, error);
       });
     });
@@ -422,11 +836,11 @@ export class XtermService {
   }
 
   /**
-   * Cleanup all PTY sessions
+   * Cleanup all PTY sessions, saving persistent terminals for the next start
    */
   async cleanup(): Promise<void> {
-    const killPromises = Array.from(this.terminals.keys()).map((terminalId) => {
-      return this.killTerminal(terminalId).catch((error) => {
+    const killPromises = Array.from(this.terminals.entries()).map(([terminalId, terminal]) => {
+      return this.detachTerminal(terminalId, terminal).catch((error) => {
         log.error(`Error killing PTY terminal ${terminalId}:`, error);
       });
     });
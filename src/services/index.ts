@@ -1,16 +1,31 @@
+export { AgentRunService } from './AgentRunService';
 export { ApplicationContainer } from './ApplicationContainer';
+export { BudgetService } from './BudgetService';
 export { ClaudeCodeCLIService } from './ClaudeCodeCLIService';
 export { ClaudeCodeSDKService } from './ClaudeCodeSDKService';
+export { EffectiveSettingsService } from './EffectiveSettingsService';
+export { FanOutService } from './FanOutService';
+export { FetchCacheInspectorService } from './FetchCacheInspectorService';
 export { FetchCacheService } from './FetchCacheService';
+export { FetchCassetteService } from './FetchCassetteService';
+export { FetchTraceService } from './FetchTraceService';
 export { FileDataStoreService } from './FileDataStoreService';
+export { GitCommitService } from './GitCommitService';
 export { GitDiscardService } from './GitDiscardService';
 export { GitService } from './GitService';
+export { GitStagingService } from './GitStagingService';
 export { McpAuthService } from './McpAuthService';
 export { monitoringService } from './monitoring';
+export { PricingService } from './PricingService';
 export { PythonRuntimeService } from './PythonRuntimeService';
 export { QueryManager } from './QueryManager';
 export { SearchService } from './SearchService';
+export { SecretsService } from './SecretsService';
 export { SessionManifestService } from './SessionManifestService';
 export { SettingsService } from './SettingsService';
+export { TaskRunnerService } from './TaskRunnerService';
+export { TelemetryService } from './TelemetryService';
+export { TerminalToolsService } from './TerminalToolsService';
 export { UpdateService } from './UpdateService';
+export { UsageAnalyticsService } from './UsageAnalyticsService';
 export { XtermService } from './XtermService';
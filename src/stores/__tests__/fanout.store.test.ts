@@ -0,0 +1,154 @@
+/**
+ * Fan-Out Store Tests
+ * Tests variant creation, headless runs and keeping one variant
+ */
+
+import { getVariantLabel, useFanOutStore } from '@/stores/fanout.store';
+import { useWorktreeStatsStore } from '@/stores/worktreestats.store';
+
+const mockLoadProjects = jest.fn();
+const mockDeleteProject = jest.fn();
+const mockSelectProject = jest.fn();
+const mockLoadAgents = jest.fn();
+
+jest.mock('@/commons/utils/logger');
+jest.mock('@/stores/projects.store', () => ({
+  useProjectsStore: {
+    getState: jest.fn(() => ({
+      loadProjects: mockLoadProjects,
+      deleteProject: mockDeleteProject,
+      selectProject: mockSelectProject,
+    })),
+  },
+}));
+jest.mock('@/stores/agents.store', () => ({
+  useAgentsStore: {
+    getState: jest.fn(() => ({ loadAgents: mockLoadAgents })),
+  },
+}));
+
+// tests/setup.ts provides window.electron; add the fan-out runner
+Object.assign(window.electron.agents, { runFanOut: jest.fn() });
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const waitForRuns = async () => {
+  for (let i = 0; i < 20; i++) {
+    const runs = useFanOutStore.getState().fanOuts[0]?.runs ?? [];
+    if (runs.every((run) => run.status !== 'creating' && run.status !== 'running')) return;
+    await flush();
+  }
+};
+
+describe('FanOutStore', () => {
+  const config = {
+    prompt: 'fix the bug',
+    githubRepo: 'https://github.com/acme/app.git',
+    baseBranch: 'fix-bug',
+    testCommand: 'npm test',
+    variants: [
+      { model: 'claude-sonnet-4-5-20250929' as const, permissionMode: 'acceptEdits' as const },
+      { model: 'claude-haiku-4-5-20251001' as const, permissionMode: 'bypassPermissions' as const },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useFanOutStore.setState({ fanOuts: [] });
+    useWorktreeStatsStore.setState({ worktreeStats: {} });
+
+    (window.electron.worktree.create as jest.Mock).mockImplementation(
+      async ({ branchName }: { branchName: string }) => ({
+        success: true,
+        message: 'Successfully created new worktree',
+        folderName: `app-${branchName}`,
+        localPath: `/worktrees/app-${branchName}`,
+      })
+    );
+    (window.electron.agents.create as jest.Mock).mockImplementation(async (data: any) => ({
+      ...data,
+      id: `agent-${data.projectId}`,
+    }));
+    (window.electron.agents.runFanOut as jest.Mock).mockResolvedValue({
+      success: true,
+      costUsd: 0.25,
+      durationMs: 4000,
+      numTurns: 2,
+      tests: { command: 'npm test', passed: true, exitCode: 0, output: '', durationMs: 10 },
+    });
+  });
+
+  it('should label variants by model and permission mode', () => {
+    expect(getVariantLabel(config.variants[0])).toBe('Sonnet 4.5 · Edit');
+  });
+
+  it('should create one worktree and agent per variant and run them', async () => {
+    const id = useFanOutStore.getState().startFanOut(config);
+    await waitForRuns();
+
+    expect(window.electron.worktree.create).toHaveBeenCalledWith({
+      githubRepo: config.githubRepo,
+      branchName: 'fix-bug-v1',
+    });
+    expect(window.electron.worktree.create).toHaveBeenCalledWith({
+      githubRepo: config.githubRepo,
+      branchName: 'fix-bug-v2',
+    });
+    expect(window.electron.agents.runFanOut).toHaveBeenCalledWith({
+      worktreeId: 'app-fix-bug-v2',
+      agentId: 'agent-app-fix-bug-v2',
+      prompt: 'fix the bug',
+      model: 'claude-haiku-4-5-20251001',
+      permissionMode: 'bypassPermissions',
+      testCommand: 'npm test',
+    });
+    expect(mockLoadProjects).toHaveBeenCalled();
+    expect(mockLoadAgents).toHaveBeenCalled();
+
+    const fanOut = useFanOutStore.getState().fanOuts[0];
+    expect(fanOut.id).toBe(id);
+    expect(fanOut.runs.map((run) => run.status)).toEqual(['done', 'done']);
+    expect(fanOut.runs[0]).toMatchObject({ costUsd: 0.25, durationMs: 4000, numTurns: 2 });
+    expect(useWorktreeStatsStore.getState().worktreeStats['app-fix-bug-v1'].totalCost).toBe(0.25);
+  });
+
+  it('should mark a variant failed when its worktree cannot be created', async () => {
+    (window.electron.worktree.create as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      message: 'Branch already exists',
+    });
+
+    useFanOutStore.getState().startFanOut(config);
+    await waitForRuns();
+
+    const [first, second] = useFanOutStore.getState().fanOuts[0].runs;
+    expect(first).toMatchObject({ status: 'failed', error: 'Branch already exists' });
+    expect(second.status).toBe('done');
+    expect(window.electron.agents.runFanOut).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep one variant and delete the others without confirmation', async () => {
+    const id = useFanOutStore.getState().startFanOut(config);
+    await waitForRuns();
+
+    await useFanOutStore.getState().keepRun(id, 'app-fix-bug-v2');
+
+    expect(mockDeleteProject).toHaveBeenCalledTimes(1);
+    expect(mockDeleteProject).toHaveBeenCalledWith('app-fix-bug-v1', { skipConfirmation: true });
+    expect(mockSelectProject).toHaveBeenCalledWith('app-fix-bug-v2');
+
+    const fanOut = useFanOutStore.getState().fanOuts[0];
+    expect(fanOut.keptProjectId).toBe('app-fix-bug-v2');
+    expect(fanOut.runs[0].status).toBe('deleted');
+  });
+
+  it('should report variants that could not be deleted', async () => {
+    const id = useFanOutStore.getState().startFanOut(config);
+    await waitForRuns();
+    mockDeleteProject.mockRejectedValueOnce(new Error('Worktree not found in config'));
+
+    await expect(useFanOutStore.getState().keepRun(id, 'app-fix-bug-v2')).rejects.toThrow(
+      'Failed to delete fix-bug-v1'
+    );
+  });
+});
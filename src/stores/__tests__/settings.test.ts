@@ -108,6 +108,48 @@ describe('SettingsStore', () => {
     });
   });
 
+  describe('Project Overrides', () => {
+    it('should apply preferences from the project settings file', async () => {
+      mockInvoke.mockResolvedValueOnce({
+        file: '/worktrees/repo-main/.autosteer.json',
+        exists: true,
+        settings: { preferences: { maxTurns: 5 } },
+        issues: [],
+      });
+
+      await useSettingsStore.getState().loadProjectSettings('repo-main');
+
+      expect(mockInvoke).toHaveBeenCalledWith('config:getProjectSettings', 'repo-main');
+      expect(useSettingsStore.getState().preferences.maxTurns).toBe(5);
+    });
+
+    it("should restore the user's values when switching projects", () => {
+      const { applyProjectPreferences } = useSettingsStore.getState();
+
+      applyProjectPreferences({ theme: 'dark' });
+      expect(useSettingsStore.getState().preferences.theme).toBe('dark');
+
+      applyProjectPreferences({ fontSize: 'small' });
+      const state = useSettingsStore.getState();
+      expect(state.preferences.theme).toBe('system');
+      expect(state.preferences.fontSize).toBe('small');
+    });
+
+    it('should save overridden preferences without changing the effective value', async () => {
+      mockInvoke.mockResolvedValue({});
+      const { applyProjectPreferences, updatePreferences } = useSettingsStore.getState();
+
+      applyProjectPreferences({ theme: 'dark' });
+      await updatePreferences({ theme: 'light' });
+
+      expect(mockInvoke).toHaveBeenCalledWith('config:updateSettings', { theme: 'light' });
+      expect(useSettingsStore.getState().preferences.theme).toBe('dark');
+
+      applyProjectPreferences({});
+      expect(useSettingsStore.getState().preferences.theme).toBe('light');
+    });
+  });
+
   describe('API Key Management', () => {
     it('should set API key', async () => {
       mockInvoke.mockResolvedValueOnce({});
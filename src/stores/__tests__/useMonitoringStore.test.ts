@@ -6,6 +6,8 @@ const mockInitialize = window.electron.monitoring.initialize as jest.MockedFunct
 const mockGetActiveSession = window.electron.monitoring
   .getActiveSession as jest.MockedFunction<any>;
 const mockOnSessionUpdate = window.electron.monitoring.onSessionUpdate as jest.MockedFunction<any>;
+const mockGetAnalytics = window.electron.monitoring.getAnalytics as jest.MockedFunction<any>;
+const mockExportUsage = window.electron.monitoring.exportUsage as jest.MockedFunction<any>;
 
 describe('MonitoringStore', () => {
   beforeEach(() => {
@@ -15,6 +17,9 @@ describe('MonitoringStore', () => {
       isInitialized: false,
       activeSession: null,
       error: null,
+      analyticsPeriod: 'day',
+      analytics: null,
+      isLoadingAnalytics: false,
     });
   });
 
@@ -205,6 +210,63 @@ describe('MonitoringStore', () => {
     });
   });
 
+  describe('Usage Analytics', () => {
+    const analytics = {
+      period: 'week',
+      generatedAt: '2025-11-24T12:00:00.000Z',
+      buckets: [],
+      totals: { requests: 0, costUSD: 0 },
+      breakdown: { model: {}, worktree: {}, agent: {} },
+      burnRate: null,
+    };
+
+    it('should fetch analytics for the requested period', async () => {
+      mockGetAnalytics.mockResolvedValueOnce({ success: true, data: analytics });
+
+      await useMonitoringStore.getState().fetchAnalytics('week');
+
+      const state = useMonitoringStore.getState();
+      expect(mockGetAnalytics).toHaveBeenCalledWith('week');
+      expect(state.analyticsPeriod).toBe('week');
+      expect(state.analytics).toEqual(analytics);
+      expect(state.isLoadingAnalytics).toBe(false);
+    });
+
+    it('should refresh the current period when none is given', async () => {
+      useMonitoringStore.setState({ analyticsPeriod: 'month' });
+
+      await useMonitoringStore.getState().fetchAnalytics();
+
+      expect(mockGetAnalytics).toHaveBeenCalledWith('month');
+    });
+
+    it('should handle analytics errors', async () => {
+      mockGetAnalytics.mockResolvedValueOnce({ success: false, error: 'No usage logs' });
+
+      await useMonitoringStore.getState().fetchAnalytics('day');
+
+      const state = useMonitoringStore.getState();
+      expect(state.error).toBe('No usage logs');
+      expect(state.isLoadingAnalytics).toBe(false);
+    });
+
+    it('should export usage for the current period', async () => {
+      useMonitoringStore.setState({ analyticsPeriod: 'month' });
+      mockExportUsage.mockResolvedValueOnce({ success: true, data: '/tmp/usage.csv' });
+
+      const filePath = await useMonitoringStore.getState().exportUsage('csv');
+
+      expect(mockExportUsage).toHaveBeenCalledWith('month', 'csv');
+      expect(filePath).toBe('/tmp/usage.csv');
+    });
+
+    it('should throw when the export fails', async () => {
+      mockExportUsage.mockResolvedValueOnce({ success: false, error: 'Disk full' });
+
+      await expect(useMonitoringStore.getState().exportUsage('json')).rejects.toThrow('Disk full');
+    });
+  });
+
   describe('Reset Functionality', () => {
     it('should reset all store state', async () => {
       // Set up initial state with data
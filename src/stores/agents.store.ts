@@ -302,6 +302,11 @@ export const useAgentsStore = create<AgentsStore>()(
         set((state) => {
           state.selectedAgentId = id;
         });
+
+        // Send follow-ups that were queued while this agent finished in the background
+        if (id) {
+          void useChatStore.getState().flushMessageQueue(id);
+        }
       },
     })),
     {
@@ -18,13 +18,16 @@
 
 import { logger } from '@/commons/utils/logger';
 import { isSyntheticMessage } from '@/commons/utils/message-filters';
+import { calculateResultCost } from '@/monitoring/utils/costCalculator';
 import {
   claudeCodeService,
   type Attachment as ClaudeAttachment,
 } from '@/renderer/services/ClaudeCodeService';
 import { getTodoMonitor } from '@/renderer/services/TodoActivityMonitorManager';
 import { ComputedMessage } from '@/stores/chat.selectors';
-import { PermissionMode } from '@/types/permission.types';
+import type { BranchSessionResponse } from '@/types/ipc.types';
+import { PermissionMode, ToolPermissionPrompt } from '@/types/permission.types';
+import { DEFAULT_MODEL } from '@/types/model.types';
 import type { ConversationOptions } from '@/types/streaming.types';
 import { enableMapSet } from 'immer';
 import { nanoid } from 'nanoid';
@@ -36,12 +39,27 @@ import { formatToolDescription } from './chat.selectors';
 import { useContextUsageStore } from './contextusage.store';
 import { useProjectsStore } from './projects.store';
 import { useSettingsStore } from './settings';
-import { Attachment, StreamChunk, StreamingMessage } from './types';
+import {
+  Attachment,
+  PermissionRequest,
+  QueuedMessage,
+  StreamChunk,
+  StreamingMessage,
+} from './types';
 import { useWorktreeStatsStore } from './worktreestats.store';
 
 // Enable MapSet plugin for Immer to work with Map objects
 enableMapSet();
 
+// Shared empty queue so selectors return a stable reference
+const EMPTY_QUEUE: QueuedMessage[] = [];
+
+// Queued messages flushMessageQueue() hands to the sendMessage() call that sends them
+const queuedBatchesBeingSent = new Map<string, QueuedMessage[]>();
+
+// Turn each agent is running; stopStreaming() removes it, so a stopped turn no longer matches
+const activeTurnIds = new Map<string, string>();
+
 // DevTools configuration - only in development
 // Support both main process (Node.js) and renderer process (Vite)
 const isDevelopment =
@@ -75,6 +93,44 @@ function batchStreamingUpdate(updateFn: () => void) {
   }, STREAMING_BATCH_WINDOW_MS);
 }
 
+/**
+ * Map a live tool permission prompt onto the PermissionRequest shape the chat UI renders
+ */
+function toPermissionRequest(prompt: ToolPermissionPrompt): PermissionRequest {
+  const { input } = prompt;
+  const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const filePath = str(input.file_path) ?? str(input.notebook_path) ?? str(input.path);
+  const description =
+    str(input.command) ?? str(input.url) ?? str(input.query) ?? filePath ?? prompt.toolName;
+
+  const request: PermissionRequest = {
+    tool_name: prompt.toolName,
+    tool_use_id: prompt.toolUseId,
+    file_path: filePath ?? description,
+    message: `Permission required to ${prompt.toolName.toLowerCase()} ${description}`,
+    request_id: prompt.requestId,
+    tool_input: input,
+  };
+
+  if (prompt.decisionReason) {
+    request.decision_reason = prompt.decisionReason;
+  }
+
+  if (prompt.onceOnly) {
+    request.once_only = true;
+  }
+
+  // Tool-specific parameters the permission card previews
+  for (const key of ['old_string', 'new_string', 'content', 'command', 'url', 'query'] as const) {
+    const value = str(input[key]);
+    if (value !== undefined) {
+      request[key] = value;
+    }
+  }
+
+  return request;
+}
+
 /**
  * TraceEntry Interface
  * Represents a trace entry for debugging SDK communication
@@ -117,6 +173,8 @@ export interface ChatStore {
   traceEntries: Map<string, TraceEntry[]>; // Per-chat trace entries
   draftInputs: Map<string, string>; // Per-agent draft input text
   draftCursorPositions: Map<string, number>; // Per-agent cursor positions
+  messageQueues: Map<string, QueuedMessage[]>; // Per-agent follow-ups waiting for the current turn
+  pausedMessageQueues: Set<string>; // Agents whose queue waits after a stopped or failed turn
   sessionPermissionModes: Map<string, PermissionMode>; // Per-session permission modes
   sessionModels: Map<string, string | null>; // Per-session model selections
   validationErrors: Map<string, Array<{ message: string; timestamp: number }>>; // Per-agent validation errors
@@ -136,6 +194,8 @@ export interface ChatStore {
   getTraceEntries: (agentId: string) => TraceEntry[];
   getDraftInput: (agentId: string) => string;
   getDraftCursorPosition: (agentId: string) => number | null;
+  getQueuedMessages: (agentId: string) => QueuedMessage[];
+  isMessageQueuePaused: (agentId: string) => boolean;
   getSessionPermissionMode: (agentId: string) => PermissionMode | null;
   getSessionModel: (agentId: string) => string | null;
   getValidationErrors: (agentId: string) => Array<{ message: string; timestamp: number }>;
@@ -175,6 +235,29 @@ export interface ChatStore {
     options?: { permissionMode?: PermissionMode; model?: string }
   ) => Promise<void>;
 
+  // Message Queue Operations
+  enqueueMessage: (
+    agentId: string,
+    content: string,
+    options?: { permissionMode?: PermissionMode; model?: string }
+  ) => void;
+  updateQueuedMessage: (agentId: string, messageId: string, content: string) => void;
+  moveQueuedMessage: (agentId: string, messageId: string, offset: -1 | 1) => void;
+  removeQueuedMessage: (agentId: string, messageId: string) => void;
+  clearMessageQueue: (agentId: string) => void;
+  flushMessageQueue: (agentId: string) => Promise<boolean>;
+  pauseMessageQueue: (agentId: string, failedBatch?: QueuedMessage[]) => void;
+  resumeMessageQueue: (agentId: string) => Promise<boolean>;
+  sendQueuedMessageNow: (agentId: string, messageId: string) => Promise<void>;
+
+  // Session Branching Operations
+  branchFromMessage: (
+    sourceAgentId: string,
+    messageId: string,
+    targetAgentId: string,
+    options?: { restoreFiles?: boolean }
+  ) => Promise<BranchSessionResponse>;
+
   // Draft Input Operations
   setDraftInput: (agentId: string, text: string) => void;
   clearDraftInput: (agentId: string) => void;
@@ -226,6 +309,8 @@ export const useChatStore = create<ChatStore>()(
       traceEntries: new Map(),
       draftInputs: new Map(),
       draftCursorPositions: new Map(),
+      messageQueues: new Map(),
+      pausedMessageQueues: new Set(),
       sessionPermissionModes: new Map(),
       sessionModels: new Map(),
       validationErrors: new Map(),
@@ -333,6 +418,24 @@ export const useChatStore = create<ChatStore>()(
         return state.draftCursorPositions.get(agentId) ?? null;
       },
 
+      /**
+       * Get queued follow-up messages for a specific agent
+       * @param agentId - Agent ID
+       * @returns Queued messages in send order or empty array
+       */
+      getQueuedMessages: (agentId: string) => {
+        const state = get();
+        return state.messageQueues.get(agentId) ?? EMPTY_QUEUE;
+      },
+
+      /**
+       * Check whether an agent's queue waits for the user after a stopped or failed turn
+       * @param agentId - Agent ID
+       */
+      isMessageQueuePaused: (agentId: string) => {
+        return get().pausedMessageQueues.has(agentId);
+      },
+
       /**
        * Get session permission mode for a specific agent
        * @param agentId - Agent ID
@@ -563,6 +666,19 @@ export const useChatStore = create<ChatStore>()(
         const streamingMessageId = nanoid();
         const streamingChatId = activeChat;
 
+        // A failed turn pauses the queue, and puts the messages it sent from there back
+        const queuedBatch = queuedBatchesBeingSent.get(activeChat);
+        queuedBatchesBeingSent.delete(activeChat);
+        const turnId = nanoid();
+        activeTurnIds.set(activeChat, turnId);
+        let turnFailed = false;
+        const failTurn = (requeue: boolean) => {
+          if (!turnFailed) {
+            turnFailed = true;
+            get().pauseMessageQueue(streamingChatId, requeue ? queuedBatch : undefined);
+          }
+        };
+
         set((state) => {
           const existingMessages = state.messages.get(activeChat) || [];
           const messages = [...existingMessages, chatMessage];
@@ -699,6 +815,31 @@ export const useChatStore = create<ChatStore>()(
               onTrace: (direction, message) => {
                 get().addTraceEntry(streamingChatId, direction, message);
               },
+              onPermissionRequest: (prompt) => {
+                set((state) => {
+                  const streamingMsg = state.streamingMessages.get(streamingChatId);
+                  if (streamingMsg) {
+                    const newStreamingMessages = new Map(state.streamingMessages);
+                    newStreamingMessages.set(streamingChatId, {
+                      ...streamingMsg,
+                      permissionRequest: toPermissionRequest(prompt),
+                    });
+                    state.streamingMessages = newStreamingMessages;
+                  }
+                });
+              },
+              onPermissionCancelled: (requestId) => {
+                set((state) => {
+                  const streamingMsg = state.streamingMessages.get(streamingChatId);
+                  if (streamingMsg?.permissionRequest?.request_id === requestId) {
+                    const newStreamingMessages = new Map(state.streamingMessages);
+                    const updatedMsg = { ...streamingMsg };
+                    delete updatedMsg.permissionRequest;
+                    newStreamingMessages.set(streamingChatId, updatedMsg);
+                    state.streamingMessages = newStreamingMessages;
+                  }
+                });
+              },
               onChunk: (chunk) => {
                 // Batch streaming updates to reduce re-render frequency
                 batchStreamingUpdate(() =>
@@ -1076,6 +1217,9 @@ export const useChatStore = create<ChatStore>()(
                       if (result.usage) {
                         streamingMsg.resultData.usage = result.usage;
                       }
+                      if (result.modelUsage) {
+                        streamingMsg.resultData.modelUsage = result.modelUsage;
+                      }
                       if (result.total_cost_usd !== undefined) {
                         streamingMsg.resultData.total_cost_usd = result.total_cost_usd;
                       }
@@ -1110,8 +1254,16 @@ export const useChatStore = create<ChatStore>()(
                   }
                   state.chatError = error.message;
                 });
+
+                failTurn(true);
               },
               onComplete: (_finalContent) => {
+                const resultError = get().streamingMessages.get(streamingChatId)?.resultData?.error;
+                const stopped = activeTurnIds.get(streamingChatId) !== turnId;
+                if (!stopped) {
+                  activeTurnIds.delete(streamingChatId);
+                }
+
                 set((state) => {
                   const messages = state.messages.get(streamingChatId) || [];
                   const lastAssistantMessageIndex = messages.length - 1;
@@ -1130,8 +1282,18 @@ export const useChatStore = create<ChatStore>()(
                           resultData.usage?.cache_creation_input_tokens || 0,
                         cacheReadInputTokens: resultData.usage?.cache_read_input_tokens || 0,
                       };
-                      if (resultData.total_cost_usd !== undefined) {
-                        message.totalCostUSD = resultData.total_cost_usd;
+                      // Price the query with the pricing table rather than the SDK's estimate
+                      const cost =
+                        resultData.usage || resultData.modelUsage
+                          ? calculateResultCost(
+                              resultData,
+                              options?.model ??
+                                useSettingsStore.getState().preferences.defaultModel ??
+                                DEFAULT_MODEL
+                            )
+                          : resultData.total_cost_usd;
+                      if (cost !== undefined) {
+                        message.totalCostUSD = cost;
                       }
                       if (resultData.stop_reason) {
                         const validStopReasons = [
@@ -1166,10 +1328,10 @@ export const useChatStore = create<ChatStore>()(
                       }
 
                       // Update worktree stats with actual cost
-                      if (agent?.projectId && resultData.total_cost_usd) {
+                      if (agent?.projectId && cost) {
                         const worktreeStatsStore = useWorktreeStatsStore.getState();
                         const projectId = agent.projectId;
-                        worktreeStatsStore.updateWorktreeCost(projectId, resultData.total_cost_usd);
+                        worktreeStatsStore.updateWorktreeCost(projectId, cost);
                       }
                     }
 
@@ -1236,8 +1398,11 @@ export const useChatStore = create<ChatStore>()(
                     false
                   );
 
+                  // Keep after-the-fact permission denials so the user can approve a re-run;
+                  // live requests can no longer be answered once the query has finished
                   const streamingMsgForCheck = state.streamingMessages.get(streamingChatId);
-                  if (!streamingMsgForCheck?.permissionRequest) {
+                  const pendingPermission = streamingMsgForCheck?.permissionRequest;
+                  if (!pendingPermission || pendingPermission.request_id) {
                     const newStreamingMessages = new Map(state.streamingMessages);
                     newStreamingMessages.delete(streamingChatId);
                     state.streamingMessages = newStreamingMessages;
@@ -1245,6 +1410,13 @@ export const useChatStore = create<ChatStore>()(
 
                   state.chatError = null;
                 });
+
+                // Send follow-ups queued while this turn was running, unless it was stopped
+                if (resultError) {
+                  failTurn(true);
+                } else if (!stopped) {
+                  void get().resumeMessageQueue(streamingChatId);
+                }
               },
             }
           );
@@ -1266,6 +1438,7 @@ export const useChatStore = create<ChatStore>()(
               newStreamingMessages.delete(streamingChatId);
               state.streamingMessages = newStreamingMessages;
             });
+            failTurn(false);
             return;
           }
 
@@ -1284,6 +1457,7 @@ export const useChatStore = create<ChatStore>()(
             newStreamingMessages.delete(streamingChatId);
             state.streamingMessages = newStreamingMessages;
           });
+          failTurn(true);
           throw error;
         }
       },
@@ -1563,6 +1737,12 @@ export const useChatStore = create<ChatStore>()(
 
         claudeCodeService.stopStreaming(activeAgentId || undefined);
 
+        // Stop means stop: queued follow-ups wait until the user continues
+        if (activeAgentId) {
+          activeTurnIds.delete(activeAgentId);
+          get().pauseMessageQueue(activeAgentId);
+        }
+
         set((state) => {
           if (state.activeChat) {
             const streamingMsg = state.streamingMessages.get(state.activeChat);
@@ -1650,6 +1830,280 @@ export const useChatStore = create<ChatStore>()(
         await get().sendMessage(message, attachments, resourceIds, options);
       },
 
+      /**
+       * Queue a follow-up message while the agent is busy
+       * Queued messages are sent by flushMessageQueue() when the current turn ends
+       * @param agentId - Agent ID
+       * @param content - Message text
+       * @param options - Settings captured at submit time (permission mode, model)
+       */
+      enqueueMessage: (
+        agentId: string,
+        content: string,
+        options?: { permissionMode?: PermissionMode; model?: string }
+      ) => {
+        const queuedMessage: QueuedMessage = {
+          id: nanoid(),
+          content,
+          createdAt: new Date(),
+          ...(options && { options }),
+        };
+        set((state) => {
+          const queue = state.messageQueues.get(agentId) || [];
+          state.messageQueues.set(agentId, [...queue, queuedMessage]);
+        });
+        logger.debug('[ChatStore] Queued message', {
+          agentId,
+          messageId: queuedMessage.id,
+          queueLength: (get().messageQueues.get(agentId) || []).length,
+        });
+      },
+
+      /**
+       * Replace the text of a queued message
+       * @param agentId - Agent ID
+       * @param messageId - Queued message ID
+       * @param content - New message text
+       */
+      updateQueuedMessage: (agentId: string, messageId: string, content: string) => {
+        set((state) => {
+          const queue = state.messageQueues.get(agentId);
+          if (!queue) return;
+          state.messageQueues.set(
+            agentId,
+            queue.map((m) => (m.id === messageId ? { ...m, content } : m))
+          );
+        });
+      },
+
+      /**
+       * Move a queued message one position earlier or later
+       * @param agentId - Agent ID
+       * @param messageId - Queued message ID
+       * @param offset - -1 to send earlier, 1 to send later
+       */
+      moveQueuedMessage: (agentId: string, messageId: string, offset: -1 | 1) => {
+        set((state) => {
+          const queue = state.messageQueues.get(agentId);
+          if (!queue) return;
+          const index = queue.findIndex((m) => m.id === messageId);
+          const target = index + offset;
+          if (index === -1 || target < 0 || target >= queue.length) return;
+          const next = [...queue];
+          [next[index], next[target]] = [next[target], next[index]];
+          state.messageQueues.set(agentId, next);
+        });
+      },
+
+      /**
+       * Remove a queued message without sending it
+       * @param agentId - Agent ID
+       * @param messageId - Queued message ID
+       */
+      removeQueuedMessage: (agentId: string, messageId: string) => {
+        set((state) => {
+          const queue = state.messageQueues.get(agentId);
+          if (!queue) return;
+          const remaining = queue.filter((m) => m.id !== messageId);
+          if (remaining.length > 0) {
+            state.messageQueues.set(agentId, remaining);
+          } else {
+            state.messageQueues.delete(agentId);
+          }
+        });
+      },
+
+      /**
+       * Drop all queued messages for an agent
+       * @param agentId - Agent ID
+       */
+      clearMessageQueue: (agentId: string) => {
+        set((state) => {
+          state.messageQueues.delete(agentId);
+          state.pausedMessageQueues.delete(agentId);
+        });
+      },
+
+      /**
+       * Send the next queued message(s) if the agent is idle
+       *
+       * Called when a turn completes and when an agent is selected.
+       * Depending on the `messageQueueMode` preference, either the first queued message
+       * is sent (sequential) or all of them are joined into one prompt (merged); merged
+       * prompts use the options of the most recently queued message.
+       *
+       * The queue is held while a permission request is pending, while it is paused after
+       * a stopped or failed turn, and for agents that are not the active chat (sendMessage
+       * always targets the active chat).
+       *
+       * @param agentId - Agent ID
+       * @returns True if a message was sent
+       */
+      flushMessageQueue: async (agentId: string): Promise<boolean> => {
+        const state = get();
+        const queue = state.messageQueues.get(agentId);
+        if (!queue || queue.length === 0) {
+          return false;
+        }
+
+        const isBusy =
+          state.streamingStates.get(agentId) ||
+          !!state.streamingMessages.get(agentId)?.permissionRequest;
+        const isActive =
+          state.activeChat === agentId && useAgentsStore.getState().selectedAgentId === agentId;
+        if (isBusy || !isActive || state.pausedMessageQueues.has(agentId)) {
+          return false;
+        }
+
+        const mode = useSettingsStore.getState().preferences.messageQueueMode ?? 'sequential';
+        const batch = mode === 'merged' ? queue : queue.slice(0, 1);
+        const content = batch.map((m) => m.content).join('\n\n');
+        const options = batch[batch.length - 1].options;
+
+        set((state) => {
+          const remaining = queue.slice(batch.length);
+          if (remaining.length > 0) {
+            state.messageQueues.set(agentId, remaining);
+          } else {
+            state.messageQueues.delete(agentId);
+          }
+        });
+
+        logger.debug('[ChatStore] Sending queued messages', {
+          agentId,
+          mode,
+          sent: batch.length,
+          remaining: queue.length - batch.length,
+        });
+
+        queuedBatchesBeingSent.set(agentId, batch);
+        try {
+          await get().sendMessage(content, undefined, undefined, options);
+          return true;
+        } catch (error) {
+          // sendMessage puts the batch back once it started the turn; before that, do it here
+          if (queuedBatchesBeingSent.get(agentId) === batch) {
+            queuedBatchesBeingSent.delete(agentId);
+            get().pauseMessageQueue(agentId, batch);
+          }
+          logger.error('[ChatStore] Failed to send queued messages:', error);
+          return false;
+        }
+      },
+
+      /**
+       * Hold an agent's queue after a stopped or failed turn, so follow-ups are not sent
+       * into the same failure. Messages the turn sent from the queue are put back first.
+       * @param agentId - Agent ID
+       * @param failedBatch - Queued messages the failed turn sent
+       */
+      pauseMessageQueue: (agentId: string, failedBatch?: QueuedMessage[]) => {
+        set((state) => {
+          if (failedBatch) {
+            const current = state.messageQueues.get(agentId) || [];
+            state.messageQueues.set(agentId, [...failedBatch, ...current]);
+          }
+          state.pausedMessageQueues.add(agentId);
+        });
+      },
+
+      /**
+       * Let an agent's queue send again, after a successful turn or when the user continues
+       * @param agentId - Agent ID
+       * @returns True if a queued message was sent
+       */
+      resumeMessageQueue: async (agentId: string): Promise<boolean> => {
+        if (get().pausedMessageQueues.has(agentId)) {
+          set((state) => {
+            state.pausedMessageQueues.delete(agentId);
+          });
+        }
+        return get().flushMessageQueue(agentId);
+      },
+
+      /**
+       * Send one queued message immediately, interrupting the current turn if needed
+       * @param agentId - Agent ID (must be the active chat)
+       * @param messageId - Queued message ID
+       */
+      sendQueuedMessageNow: async (agentId: string, messageId: string): Promise<void> => {
+        const state = get();
+        const queuedMessage = state.messageQueues.get(agentId)?.find((m) => m.id === messageId);
+        if (!queuedMessage || state.activeChat !== agentId) {
+          return;
+        }
+
+        get().removeQueuedMessage(agentId, messageId);
+        await get().cancelAndSend(
+          queuedMessage.content,
+          undefined,
+          undefined,
+          queuedMessage.options
+        );
+      },
+
+      /**
+       * Rewind (target === source) or fork a conversation at one of the user's messages.
+       * The target shows the history before that message with its text back in the input.
+       * @param sourceAgentId - Agent whose conversation is branched
+       * @param messageId - User message to branch at; it and everything after it are dropped
+       * @param targetAgentId - Agent that continues from the branch point
+       */
+      branchFromMessage: async (
+        sourceAgentId: string,
+        messageId: string,
+        targetAgentId: string,
+        options?: { restoreFiles?: boolean }
+      ): Promise<BranchSessionResponse> => {
+        const state = get();
+        if (state.streamingStates.get(sourceAgentId)) {
+          return { success: false, error: 'Wait for the current turn to finish first' };
+        }
+
+        const messages = state.messages.get(sourceAgentId) || [];
+        const index = messages.findIndex((m) => m.id === messageId);
+        const message = messages[index];
+        if (!message || message.role !== 'user') {
+          return { success: false, error: 'Only your own messages can be branched from' };
+        }
+
+        // Messages sent in this app session have no transcript id, so the main
+        // process falls back to matching the n-th message with the same text
+        const ordinal = messages
+          .slice(0, index)
+          .filter((m) => m.role === 'user' && m.content === message.content).length;
+
+        try {
+          const result = await window.electron.agents.branchSession({
+            sourceAgentId,
+            targetAgentId,
+            messageId,
+            content: message.content,
+            ordinal,
+            ...(options?.restoreFiles && { restoreFiles: true }),
+          });
+          if (!result.success) {
+            return result;
+          }
+
+          set((state) => {
+            state.messages.delete(targetAgentId);
+            state.sessionIds.delete(targetAgentId);
+            state.traceEntries.delete(targetAgentId);
+            state.draftInputs.set(targetAgentId, message.content);
+          });
+          await get().loadChatHistory(targetAgentId);
+
+          return result;
+        } catch (error) {
+          logger.error('[ChatStore] Failed to branch session:', error);
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+
       /**
        * Set draft input text for a specific agent
        * @param agentId - Agent ID
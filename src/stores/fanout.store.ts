@@ -0,0 +1,294 @@
+/**
+ * Fan-Out Store - Parallel Agent Runs
+ *
+ * Handles sending one prompt to several fresh worktrees and comparing the results
+ *
+ * Key features:
+ * - One worktree and agent per variant (model + permission mode)
+ * - Variants run headless in the main process, side by side
+ * - Cost, duration, turns and test results per variant
+ * - Keep one variant and delete the other worktrees
+ *
+ * @see docs/guides-architecture.md - Store Architecture
+ */
+
+import { logger } from '@/commons/utils/logger';
+import { AgentStatus, AgentType } from '@/entities';
+import type { FanOutTestResult } from '@/types/ipc.types';
+import { MODEL_OPTIONS, ModelOption } from '@/types/model.types';
+import { PERMISSION_MODES, PermissionMode } from '@/types/permission.types';
+import { nanoid } from 'nanoid';
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+
+// DevTools configuration - only in development
+// DevTools configuration - only in development
+// Support both main process (Node.js) and renderer process (Vite)
+const isDevelopment =
+  (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') ||
+  (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development');
+const withDevtools = isDevelopment ? devtools : (f: any) => f;
+
+export interface FanOutVariant {
+  model: ModelOption;
+  permissionMode: PermissionMode;
+}
+
+export type FanOutRunStatus = 'creating' | 'running' | 'done' | 'failed' | 'deleted';
+
+export interface FanOutRun extends FanOutVariant {
+  label: string;
+  branchName: string;
+  status: FanOutRunStatus;
+  projectId?: string; // Worktree folder name, once created
+  localPath?: string;
+  agentId?: string;
+  error?: string;
+  costUsd?: number;
+  durationMs?: number;
+  numTurns?: number;
+  tests?: FanOutTestResult;
+}
+
+export interface FanOut {
+  id: string;
+  prompt: string;
+  githubRepo: string;
+  baseBranch: string;
+  testCommand?: string;
+  startedAt: Date;
+  runs: FanOutRun[];
+  keptProjectId?: string;
+}
+
+export interface FanOutConfig {
+  prompt: string;
+  githubRepo: string;
+  baseBranch: string;
+  variants: FanOutVariant[];
+  testCommand?: string;
+}
+
+/**
+ * Human-readable name of a variant, e.g. "Sonnet 4.5 · Edit"
+ */
+export const getVariantLabel = (variant: FanOutVariant): string => {
+  const model = MODEL_OPTIONS.find((option) => option.value === variant.model)?.label;
+  const mode = PERMISSION_MODES.find((option) => option.value === variant.permissionMode)?.label;
+  return `${model || variant.model} · ${mode || variant.permissionMode}`;
+};
+
+/**
+ * FanOutStore Interface
+ * Defines all state and actions for fan-out runs
+ */
+export interface FanOutStore {
+  // ==================== STATE ====================
+
+  fanOuts: FanOut[];
+
+  // ==================== ACTIONS ====================
+
+  startFanOut: (config: FanOutConfig) => string;
+  keepRun: (fanOutId: string, projectId: string) => Promise<void>;
+  dismissFanOut: (fanOutId: string) => void;
+}
+
+/**
+ * Fan-Out Store
+ * Worktrees are created one at a time (they share the main repository),
+ * while the agents run concurrently as soon as their worktree exists.
+ */
+export const useFanOutStore = create<FanOutStore>()(
+  withDevtools(
+    immer<FanOutStore>((set, get) => {
+      const updateRun = (fanOutId: string, index: number, updates: Partial<FanOutRun>) => {
+        set((state) => {
+          const run = state.fanOuts.find((fanOut) => fanOut.id === fanOutId)?.runs[index];
+          if (run) {
+            Object.assign(run, updates);
+          }
+        });
+      };
+
+      const executeRun = async (fanOut: FanOut, index: number) => {
+        const run = get().fanOuts.find((f) => f.id === fanOut.id)?.runs[index];
+        if (!run?.projectId || !run.agentId) return;
+
+        try {
+          const result = await window.electron.agents.runFanOut({
+            worktreeId: run.projectId,
+            agentId: run.agentId,
+            prompt: fanOut.prompt,
+            model: run.model,
+            permissionMode: run.permissionMode,
+            ...(fanOut.testCommand && { testCommand: fanOut.testCommand }),
+          });
+
+          updateRun(fanOut.id, index, {
+            status: result.success ? 'done' : 'failed',
+            durationMs: result.durationMs,
+            ...(result.error && { error: result.error }),
+            ...(result.costUsd !== undefined && { costUsd: result.costUsd }),
+            ...(result.numTurns !== undefined && { numTurns: result.numTurns }),
+            ...(result.tests && { tests: result.tests }),
+          });
+
+          // Count the run towards the worktree's usage like a chat turn
+          const { useWorktreeStatsStore } = await import('./worktreestats.store');
+          const statsStore = useWorktreeStatsStore.getState();
+          statsStore.updateWorktreeStats(run.projectId, { duration: result.durationMs });
+          if (result.costUsd !== undefined) {
+            statsStore.updateWorktreeCost(run.projectId, result.costUsd);
+          }
+        } catch (error) {
+          logger.error('[FanOutStore] Variant run failed', { branchName: run.branchName, error });
+          updateRun(fanOut.id, index, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Variant run failed',
+          });
+        }
+      };
+
+      const createRuns = async (fanOut: FanOut) => {
+        for (const [index, run] of fanOut.runs.entries()) {
+          try {
+            const result = await window.electron.worktree.create({
+              githubRepo: fanOut.githubRepo,
+              branchName: run.branchName,
+            });
+            if (!result.success) {
+              throw new Error(result.message);
+            }
+
+            const agent = await window.electron.agents.create({
+              title: run.label,
+              content: '',
+              type: AgentType.TEXT,
+              status: AgentStatus.DRAFT,
+              tags: [],
+              resourceIds: [],
+              projectId: result.folderName,
+            });
+
+            updateRun(fanOut.id, index, {
+              status: 'running',
+              projectId: result.folderName,
+              localPath: result.localPath,
+              agentId: agent.id,
+            });
+            void executeRun(fanOut, index);
+          } catch (error) {
+            logger.error('[FanOutStore] Failed to create variant worktree', {
+              branchName: run.branchName,
+              error,
+            });
+            updateRun(fanOut.id, index, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Failed to create worktree',
+            });
+          }
+        }
+
+        // Show the new worktrees and their agents in the sidebar
+        const { useProjectsStore } = await import('./projects.store');
+        const { useAgentsStore } = await import('./agents.store');
+        await useProjectsStore.getState().loadProjects();
+        await useAgentsStore.getState().loadAgents();
+      };
+
+      return {
+        // ==================== STATE ====================
+
+        fanOuts: [],
+
+        // ==================== ACTIONS ====================
+
+        /**
+         * Create a worktree and agent per variant and start the runs.
+         * Returns right away; progress is tracked on the fan-out's runs.
+         * @param config - Prompt, repository, base branch name and variants
+         * @returns Fan-out ID
+         */
+        startFanOut: (config: FanOutConfig) => {
+          const fanOut: FanOut = {
+            id: nanoid(),
+            prompt: config.prompt,
+            githubRepo: config.githubRepo,
+            baseBranch: config.baseBranch,
+            ...(config.testCommand && { testCommand: config.testCommand }),
+            startedAt: new Date(),
+            runs: config.variants.map((variant, index) => ({
+              ...variant,
+              label: getVariantLabel(variant),
+              branchName: `${config.baseBranch}-v${index + 1}`,
+              status: 'creating',
+            })),
+          };
+
+          set((state) => {
+            state.fanOuts.push(fanOut);
+          });
+
+          void createRuns(fanOut);
+          return fanOut.id;
+        },
+
+        /**
+         * Keep one variant's worktree and delete the others, including their branches
+         * @param fanOutId - Fan-out ID
+         * @param projectId - Worktree folder name of the variant to keep
+         */
+        keepRun: async (fanOutId: string, projectId: string) => {
+          const fanOut = get().fanOuts.find((f) => f.id === fanOutId);
+          if (!fanOut) return;
+
+          const { useProjectsStore } = await import('./projects.store');
+          const projectsStore = useProjectsStore.getState();
+          const failures: string[] = [];
+
+          for (const [index, run] of fanOut.runs.entries()) {
+            if (!run.projectId || run.projectId === projectId || run.status === 'deleted') {
+              continue;
+            }
+            try {
+              await projectsStore.deleteProject(run.projectId, { skipConfirmation: true });
+              updateRun(fanOutId, index, { status: 'deleted' });
+            } catch (error) {
+              logger.error('[FanOutStore] Failed to delete variant worktree', {
+                projectId: run.projectId,
+                error,
+              });
+              failures.push(run.branchName);
+            }
+          }
+
+          set((state) => {
+            const target = state.fanOuts.find((f) => f.id === fanOutId);
+            if (target) {
+              target.keptProjectId = projectId;
+            }
+          });
+
+          await projectsStore.selectProject(projectId);
+
+          if (failures.length > 0) {
+            throw new Error(`Failed to delete ${failures.join(', ')}`);
+          }
+        },
+
+        /**
+         * Forget a fan-out without touching its worktrees
+         * @param fanOutId - Fan-out ID
+         */
+        dismissFanOut: (fanOutId: string) => {
+          set((state) => {
+            state.fanOuts = state.fanOuts.filter((fanOut) => fanOut.id !== fanOutId);
+          });
+        },
+      };
+    }),
+    { name: 'fanout-store', trace: true }
+  )
+);
@@ -86,6 +86,14 @@ export type { SlashCommandsStore } from './slashcommands.store';
 export { useWorktreeStatsStore } from './worktreestats.store';
 export type { WorktreeStatsStore } from './worktreestats.store';
 
+/**
+ * Fan-Out Store - Dedicated store for parallel agent runs
+ * Handles: one prompt across several fresh worktrees, result comparison, keeping a variant
+ * Usage: const { fanOuts, startFanOut, keepRun } = useFanOutStore();
+ */
+export { useFanOutStore, getVariantLabel } from './fanout.store';
+export type { FanOutStore, FanOut, FanOutRun, FanOutVariant } from './fanout.store';
+
 /**
  * Context Usage Store - Dedicated store for context window tracking
  * Handles: agent context usage per model, compaction detection
@@ -58,7 +58,7 @@ export interface ProjectsStore {
   loadProjects: () => Promise<void>;
   createProject: (config: ProjectConfig) => Promise<Project>;
   selectProject: (id: string, skipAgentSelection?: boolean) => Promise<void>;
-  deleteProject: (id: string) => Promise<void>;
+  deleteProject: (id: string, options?: { skipConfirmation?: boolean }) => Promise<void>;
 }
 
 /**
@@ -315,6 +315,10 @@ export const useProjectsStore = create<ProjectsStore>()(
         const { useSlashCommandsStore } = await import('./slashcommands.store');
         await useSlashCommandsStore.getState().loadSlashCommands();
 
+        // Apply the preferences set in the project's .autosteer.json
+        const { useSettingsStore } = await import('./settings');
+        await useSettingsStore.getState().loadProjectSettings(id);
+
         // Skip automatic agent selection if requested (e.g., when manually selecting a specific agent)
         if (skipAgentSelection) {
           return;
@@ -383,9 +387,10 @@ export const useProjectsStore = create<ProjectsStore>()(
       /**
        * Delete a project/worktree and clean up associated resources
        * @param id - Project ID to delete
+       * @param options.skipConfirmation - Delete the branch without asking the user first
        * @throws Error if deletion fails
        */
-      deleteProject: async (id: string) => {
+      deleteProject: async (id: string, options?: { skipConfirmation?: boolean }) => {
         try {
           // Get the project to find its folderName
           const project = get().projects.get(id);
@@ -395,7 +400,7 @@ export const useProjectsStore = create<ProjectsStore>()(
 
           // Delete the worktree from disk and config
           if (window.electron?.worktree?.delete) {
-            const result = await window.electron.worktree.delete(project.folderName);
+            const result = await window.electron.worktree.delete(project.folderName, options);
             if (!result.success) {
               throw new Error(result.error || 'Failed to delete worktree');
             }
@@ -443,10 +448,12 @@ export const useProjectsStore = create<ProjectsStore>()(
             }
           });
 
-          // Clear selected agent when deleting the selected project
+          // Clear selected agent and project overrides when deleting the selected project
           if (get().selectedProjectId === null) {
             const { useAgentsStore } = await import('./agents.store');
             await useAgentsStore.getState().selectAgent(null);
+            const { useSettingsStore } = await import('./settings');
+            await useSettingsStore.getState().loadProjectSettings(null);
           }
         } catch (error) {
           set((state) => {
@@ -1,7 +1,7 @@
 import { logger } from '@/commons/utils/logger';
 import { SlashCommand } from '@/types/ipc.types';
-import { DEFAULT_MODEL } from '@/types/model.types';
 import { DEFAULT_PERMISSION_MODE } from '@/types/permission.types';
+import { ProjectSettings, SETTINGS_DEFAULTS } from '@/types/settings.schema';
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
@@ -21,12 +21,17 @@ import { CustomCommand, UserPreferences } from './types';
  * - Integration with ~/.autosteer/config.json via IPC
  * - Initialize method to load from config file on startup
  * - All actions persist to config file
+ * - Preferences set in the selected worktree's .autosteer.json override the user's
  */
 
 export interface SettingsStore {
-  // User Preferences State
+  // User Preferences State (effective: the user's values with project overrides applied)
   preferences: UserPreferences;
 
+  // Project overrides from .autosteer.json, and the user's values they hide
+  projectPreferences: Partial<UserPreferences>;
+  shadowedPreferences: Partial<UserPreferences>;
+
   // API Configuration
   apiKeys: Record<string, string>;
   selectedProvider: 'mock' | 'claude-code' | 'openai';
@@ -47,6 +52,8 @@ export interface SettingsStore {
   // Preference Actions
   updatePreferences: (updates: Partial<UserPreferences>) => Promise<void>;
   resetPreferences: () => Promise<void>;
+  loadProjectSettings: (worktreeId: string | null) => Promise<void>;
+  applyProjectPreferences: (overrides: Partial<UserPreferences>) => void;
 
   // API Key Actions
   setApiKey: (service: string, key: string) => Promise<void>;
@@ -73,23 +80,25 @@ export interface SettingsStore {
 }
 
 /**
- * Default user preferences following TRD specification
+ * Default user preferences (see SETTINGS_DEFAULTS in settings.schema.ts)
+ */
+const getDefaultPreferences = (): UserPreferences => ({ ...SETTINGS_DEFAULTS.preferences });
+
+/**
+ * Replace the project overrides in effect: restore the values hidden by the previous
+ * ones, then hide the user's values for the keys the new ones set
  */
-const getDefaultPreferences = (): UserPreferences => ({
-  theme: 'system',
-  fontSize: 'medium',
-  fontFamily: 'Fira Code, SF Mono, Monaco, Consolas, monospace', // Default to Fira Code
-  autoSave: true,
-  compactOnTokenLimit: true,
-  maxTokens: 4000,
-  badgeNotifications: true,
-  defaultModel: DEFAULT_MODEL, // Default model for new conversations
-  maxTurns: null, // Default: unlimited (null = no limit)
-  confirmSessionTabDeletion: true, // Default: show confirmation dialog
-  enableSkills: true, // Default: enable skills
-  autoSelectFirstTab: true, // Default: auto-select first tab when no active tab
-  defaultPermissionMode: DEFAULT_PERMISSION_MODE, // Default: 'edit'
-});
+const overlayProjectPreferences = (
+  state: Pick<SettingsStore, 'preferences' | 'projectPreferences' | 'shadowedPreferences'>,
+  overrides: Partial<UserPreferences>
+): void => {
+  const userPreferences = { ...state.preferences, ...state.shadowedPreferences };
+  state.shadowedPreferences = Object.fromEntries(
+    Object.keys(overrides).map((key) => [key, userPreferences[key as keyof UserPreferences]])
+  );
+  state.preferences = { ...userPreferences, ...overrides };
+  state.projectPreferences = overrides;
+};
 
 // DevTools configuration - only in development
 // Use process.env (works in both Node and Vite)
@@ -105,6 +114,8 @@ export const useSettingsStore = create<SettingsStore>()(
     immer((set, get) => ({
       // Initial State
       preferences: getDefaultPreferences(),
+      projectPreferences: {},
+      shadowedPreferences: {},
       apiKeys: {},
       selectedProvider: 'claude-code',
       slashCommands: [],
@@ -130,6 +141,13 @@ export const useSettingsStore = create<SettingsStore>()(
             settingsKeys: config.settings ? Object.keys(config.settings) : [],
           });
 
+          // API keys are kept encrypted in secret storage, outside config.json
+          const storedApiKeys = await window.electron.ipc.invoke('config:getApiKeys');
+          const apiKeys: Record<string, string> = {
+            ...config.apiKeys,
+            ...(storedApiKeys && storedApiKeys.success !== false && storedApiKeys),
+          };
+
           // Load slash commands for current project (if any)
           logger.info('[SETTINGS_STORE] Loading slash commands...');
           await get().loadSlashCommands();
@@ -202,14 +220,17 @@ export const useSettingsStore = create<SettingsStore>()(
               }
             }
 
+            // Keep the selected project's overrides on top of the reloaded preferences
+            if (Object.keys(state.projectPreferences).length > 0) {
+              const overrides = state.projectPreferences;
+              state.shadowedPreferences = {};
+              overlayProjectPreferences(state, overrides);
+            }
+
             // Load API keys (handled securely via IPC)
-            if (config.apiKeys) {
-              logger.info('[SETTINGS_STORE] Loading API keys...');
-              state.apiKeys = config.apiKeys;
-              logger.info(
-                '[SETTINGS_STORE] API keys loaded, count:',
-                Object.keys(config.apiKeys).length
-              );
+            if (Object.keys(apiKeys).length > 0) {
+              state.apiKeys = apiKeys;
+              logger.info('[SETTINGS_STORE] API keys loaded, count:', Object.keys(apiKeys).length);
             }
 
             // Load selected provider
@@ -251,9 +272,13 @@ export const useSettingsStore = create<SettingsStore>()(
 
       // Preference Actions
       updatePreferences: async (updates: Partial<UserPreferences>) => {
-        // Update local state immediately (optimistic update)
+        // Update local state immediately (optimistic update); values the project
+        // overrides are saved but stay hidden until the project no longer sets them
         set((state) => {
-          state.preferences = { ...state.preferences, ...updates };
+          for (const [key, value] of Object.entries(updates)) {
+            const target = key in state.projectPreferences ? 'shadowedPreferences' : 'preferences';
+            (state[target] as Record<string, unknown>)[key] = value;
+          }
         });
 
         try {
@@ -269,6 +294,7 @@ export const useSettingsStore = create<SettingsStore>()(
             const revertedPreferences = { ...state.preferences };
             Object.keys(updates).forEach((key) => {
               // This is a simplistic revert - in production you might want to reload from config
+              if (key in state.projectPreferences) return;
               delete revertedPreferences[key as keyof UserPreferences];
             });
             state.preferences = { ...getDefaultPreferences(), ...revertedPreferences };
@@ -282,6 +308,35 @@ export const useSettingsStore = create<SettingsStore>()(
         await get().updatePreferences(defaultPrefs);
       },
 
+      loadProjectSettings: async (worktreeId: string | null) => {
+        if (!worktreeId) {
+          get().applyProjectPreferences({});
+          return;
+        }
+
+        try {
+          const project: ProjectSettings = await window.electron.ipc.invoke(
+            'config:getProjectSettings',
+            worktreeId
+          );
+          if (project.issues?.length) {
+            logger.warn('[SETTINGS_STORE] Ignored project settings:', {
+              file: project.file,
+              issues: project.issues,
+            });
+          }
+          get().applyProjectPreferences(project.settings?.preferences ?? {});
+        } catch (error) {
+          logger.error('[SETTINGS_STORE] Failed to load project settings:', error);
+        }
+      },
+
+      applyProjectPreferences: (overrides: Partial<UserPreferences>) => {
+        set((state) => {
+          overlayProjectPreferences(state, overrides);
+        });
+      },
+
       // API Key Actions
       setApiKey: async (service: string, key: string) => {
         // Update local state
@@ -495,7 +550,7 @@ export const useSettingsStore = create<SettingsStore>()(
       exportSettings: async (): Promise<string> => {
         const state = get();
         const settingsExport = {
-          preferences: state.preferences,
+          preferences: { ...state.preferences, ...state.shadowedPreferences },
           selectedProvider: state.selectedProvider,
           customCommands: state.customCommands,
           // Note: API keys are excluded from export for security
@@ -552,6 +607,8 @@ export const useSettingsStore = create<SettingsStore>()(
       reset: () => {
         set((state) => {
           state.preferences = getDefaultPreferences();
+          state.projectPreferences = {};
+          state.shadowedPreferences = {};
           state.apiKeys = {};
           state.selectedProvider = 'claude-code';
           state.customCommands = [];
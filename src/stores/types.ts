@@ -46,6 +46,27 @@ export interface PermissionRequest {
   url?: string;
   query?: string;
   message: string;
+  /** Set when the tool call is paused waiting for an answer (live canUseTool prompt) */
+  request_id?: string;
+  tool_input?: Record<string, unknown>;
+  decision_reason?: string;
+  /** Only a one-time allow is offered */
+  once_only?: boolean;
+}
+
+/**
+ * How queued follow-ups are sent when a turn ends:
+ * - sequential: one queued message per turn, in order
+ * - merged: all queued messages joined into a single next prompt
+ */
+export type MessageQueueMode = 'sequential' | 'merged';
+
+// Follow-up message typed while the agent was busy, waiting to be sent
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  options?: { permissionMode?: PermissionMode; model?: string };
+  createdAt: Date;
 }
 
 export interface StreamingMessage {
@@ -61,6 +82,7 @@ export interface StreamingMessage {
   };
   resultData?: {
     usage?: any;
+    modelUsage?: Record<string, any>;
     total_cost_usd?: number;
     stop_reason?:
       | 'end_turn'
@@ -162,6 +184,8 @@ export interface UserPreferences {
   autoSelectFirstTab?: boolean;
   /** Default permission mode for Claude Code sessions (default: 'edit') */
   defaultPermissionMode?: PermissionMode;
+  /** How messages queued while the agent is busy are sent (default: 'sequential') */
+  messageQueueMode?: MessageQueueMode;
 }
 
 // Custom command
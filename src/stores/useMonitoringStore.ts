@@ -1,23 +1,32 @@
 import { create } from 'zustand';
 import { SessionBlock } from '@/entities/SessionBlock';
+import { AnalyticsPeriod, UsageAnalytics } from '@/monitoring/interfaces/types';
 
 interface MonitoringState {
   // State
   isInitialized: boolean;
   activeSession: SessionBlock | null;
   error: string | null;
+  analyticsPeriod: AnalyticsPeriod;
+  analytics: UsageAnalytics | null;
+  isLoadingAnalytics: boolean;
 
   // Actions
   initialize: () => Promise<void>;
   fetchActiveSession: () => Promise<void>;
+  fetchAnalytics: (period?: AnalyticsPeriod) => Promise<void>;
+  exportUsage: (format: 'csv' | 'json') => Promise<string | null>;
   reset: () => void;
 }
 
-export const useMonitoringStore = create<MonitoringState>((set) => ({
+export const useMonitoringStore = create<MonitoringState>((set, get) => ({
   // Initial state
   isInitialized: false,
   activeSession: null,
   error: null,
+  analyticsPeriod: 'day',
+  analytics: null,
+  isLoadingAnalytics: false,
 
   // Initialize monitoring
   initialize: async () => {
@@ -54,12 +63,42 @@ export const useMonitoringStore = create<MonitoringState>((set) => ({
     }
   },
 
+  // Fetch usage analytics, keeping the current period unless one is given
+  fetchAnalytics: async (period) => {
+    const analyticsPeriod = period ?? get().analyticsPeriod;
+    set({ analyticsPeriod, isLoadingAnalytics: true });
+    try {
+      const result = await window.electron.monitoring.getAnalytics(analyticsPeriod);
+      if (result.success) {
+        set({ analytics: result.data || null, error: null });
+      } else {
+        set({ error: result.error || 'Failed to load usage analytics' });
+      }
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      set({ isLoadingAnalytics: false });
+    }
+  },
+
+  // Export usage for the current period; resolves to the saved path, or null when cancelled
+  exportUsage: async (format) => {
+    const result = await window.electron.monitoring.exportUsage(get().analyticsPeriod, format);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to export usage');
+    }
+    return result.data ?? null;
+  },
+
   // Reset store
   reset: () => {
     set({
       isInitialized: false,
       activeSession: null,
       error: null,
+      analyticsPeriod: 'day',
+      analytics: null,
+      isLoadingAnalytics: false,
     });
   },
 }));
@@ -1,9 +1,58 @@
+import type { PermissionRule } from '@/types/permission.types';
+
 /**
  * Application configuration structure for ~/.autosteer/app.json
- * This file is always at the fixed location and contains only the project directory pointer
+ * This file is always at the fixed location and contains the project directory pointer,
+ * the control API settings, the telemetry export settings and the fetch trace/cache settings
  */
 export interface AppConfig {
   projectDirectory?: string; // Path to the project directory (defaults to ~/.autosteer if not set)
+  api?: ControlApiConfig;
+  telemetry?: TelemetryConfig;
+  fetchTrace?: FetchTraceConfig;
+  fetchCache?: FetchCacheConfig;
+}
+
+/**
+ * Localhost control API (see src/main/api/ControlApiServer.ts)
+ */
+export interface ControlApiConfig {
+  enabled?: boolean; // Off unless set to true
+  port?: number; // Defaults to 7862
+  token?: string; // Generated on first start; sent as "Authorization: Bearer <token>"
+}
+
+/**
+ * OpenTelemetry export of agent turns (see src/services/TelemetryService.ts)
+ */
+export interface TelemetryConfig {
+  enabled?: boolean; // Off unless set to true
+  endpoint?: string; // OTLP/HTTP traces URL, e.g. http://localhost:4318/v1/traces
+  headers?: Record<string, string>; // Sent with every export, e.g. an API key for the backend
+  filePath?: string; // Append each export as a line of OTLP JSON, for offline use
+  serviceName?: string; // Defaults to "autosteer"
+}
+
+/**
+ * Fetch trace settings; unset fields fall back to the FETCH_TRACE_* environment variables
+ * (see src/config/settings.ts). Applied to SDK subprocesses started after saving.
+ */
+export interface FetchTraceConfig {
+  enabled?: boolean;
+  includes?: string[]; // URL patterns (regex or substring) to trace; all URLs when empty
+  excludes?: string[]; // URL patterns never traced
+}
+
+/**
+ * Fetch cache settings; unset fields fall back to the FETCH_CACHE_* environment variables
+ * (see src/config/settings.ts). Applied to SDK subprocesses started after saving.
+ */
+export interface FetchCacheConfig {
+  enabled?: boolean;
+  ttl?: number; // Seconds
+  maxSize?: number; // Entries
+  includes?: string[]; // URL patterns (regex or substring) to cache; all URLs when empty
+  excludes?: string[]; // URL patterns never cached
 }
 
 /**
@@ -17,6 +66,7 @@ export interface WorktreeConfig {
   folder_name: string;
   agent_ids?: string[];
   activeTabId?: string;
+  pinnedTasks?: string[]; // Task runner task ids shown first in the Tasks tab
 }
 
 export interface AgentConfig {
@@ -42,6 +92,25 @@ export interface AgentConfig {
   }>;
 }
 
+/**
+ * A spending limit, in USD (priced with the pricing table) or in total tokens
+ */
+export interface BudgetLimit {
+  limit: number;
+  unit: 'usd' | 'tokens';
+}
+
+/**
+ * Spending budgets (see src/services/BudgetService.ts)
+ */
+export interface BudgetsConfig {
+  daily?: BudgetLimit; // All usage on the current local day
+  perWorktree?: BudgetLimit; // All usage in one worktree
+  perSession?: BudgetLimit; // All usage in one Claude session
+  warnAt?: number[]; // Fractions of a limit that trigger a warning, defaults to [0.8]
+  hardStop?: boolean; // Block new queries and abort running ones once a limit is reached
+}
+
 // Custom command interface for user-defined commands
 export interface CustomCommand {
   id: string;
@@ -57,7 +126,7 @@ export interface AutosteerConfig {
   settings?: {
     // UI preferences
     theme?: 'light' | 'dark' | 'system';
-    fontSize?: number;
+    fontSize?: 'small' | 'medium' | 'large' | number; // Numbers are legacy pixel sizes
     fontFamily?: string;
     vimMode?: boolean;
 
@@ -79,7 +148,8 @@ export interface AutosteerConfig {
     };
   };
 
-  // API keys (encrypted in future)
+  // API keys from older versions; moved to encrypted secret storage (~/.autosteer/secrets.json)
+  // on startup, and kept here only while no OS keychain or passphrase is available
   apiKeys?: Record<string, string>;
 
   // Custom slash commands
@@ -96,6 +166,14 @@ export interface AutosteerConfig {
     };
   };
 
+  // Spending budgets
+  budgets?: BudgetsConfig;
+
+  // Per-worktree permission rules, keyed by worktree folder name
+  permissionRules?: {
+    [worktreeId: string]: PermissionRule[];
+  };
+
   // Generic store for miscellaneous data
   store?: Record<string, unknown>;
 }
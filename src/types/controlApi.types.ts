@@ -0,0 +1,74 @@
+import type { ClaudeCodeMessage } from '@/types/claudeCode.types';
+import type { WorktreeConfig } from '@/types/config.types';
+
+/**
+ * Types of the localhost control API (src/main/api/ControlApiServer.ts)
+ *
+ * HTTP routes (JSON, "Authorization: Bearer <token>"):
+ *   GET  /api/projects                        -> ControlApiProject[]
+ *   GET  /api/worktrees                       -> WorktreeConfig[]
+ *   POST /api/worktrees                       ControlApiCreateWorktreeRequest -> WorktreeConfig
+ *   GET  /api/worktrees/:worktreeId/agents    -> AgentConfig[]
+ *   POST /api/worktrees/:worktreeId/agents    ControlApiCreateAgentRequest -> AgentConfig
+ *   POST /api/agents/:agentId/messages        ControlApiSendMessageRequest -> ControlApiSendMessageResponse
+ *   POST /api/queries/:queryId/abort          -> { success: true }
+ *   GET  /api/stream                          WebSocket of ControlApiEvent, accepts ControlApiCommand
+ */
+
+export interface ControlApiProject {
+  githubRepo: string;
+  worktrees: WorktreeConfig[];
+}
+
+export interface ControlApiCreateWorktreeRequest {
+  githubRepo: string;
+  branchName: string;
+}
+
+export interface ControlApiCreateAgentRequest {
+  title?: string;
+}
+
+export interface ControlApiSendMessageRequest {
+  prompt: string;
+  model?: string;
+  permissionMode?: string;
+  maxTurns?: number;
+}
+
+export interface ControlApiSendMessageResponse {
+  queryId: string;
+}
+
+export interface ControlApiErrorResponse {
+  error: string;
+}
+
+/**
+ * Events broadcast to every WebSocket client
+ */
+export type ControlApiEvent =
+  | {
+      type: 'query-start';
+      queryId: string;
+      agentId: string;
+      worktreeId: string;
+      requestId?: string; // Echoed from the `send` command that started the query
+    }
+  | { type: 'message'; queryId: string; agentId: string; message: ClaudeCodeMessage }
+  | {
+      type: 'query-complete';
+      queryId: string;
+      agentId: string;
+      durationMs: number;
+      sessionId?: string;
+      error?: string;
+    }
+  | { type: 'error'; error: string; requestId?: string };
+
+/**
+ * Commands a WebSocket client can send
+ */
+export type ControlApiCommand =
+  | ({ type: 'send'; agentId: string; requestId?: string } & ControlApiSendMessageRequest)
+  | { type: 'abort'; queryId: string; requestId?: string };
@@ -1,8 +1,21 @@
 import { Agent, Resource, ComputedMessage } from '@/entities';
 import { ComputedMessage } from '@/stores/chat.selectors';
 import { SessionBlock } from '@/entities/SessionBlock';
-import { MonitoringConfig } from '@/monitoring/interfaces/types';
-import { SlashCommand } from '@/types/ipc.types';
+import { AnalyticsPeriod, MonitoringConfig, UsageAnalytics } from '@/monitoring/interfaces/types';
+import { FetchCacheEntryInfo, FetchCacheEntryQuery, FetchCacheSummary } from './fetch-cache.types';
+import { FetchTraceEntry, FetchTraceLogInfo } from './fetch-trace.types';
+import { TraceFileEntry, TraceFileInfo } from './trace-logger.types';
+import { FileDiff } from '@/types/git-diff.types';
+import {
+  AgentTurnCheckpoint,
+  BranchSessionRequest,
+  BranchSessionResponse,
+  CheckpointRequest,
+  FanOutRunRequest,
+  FanOutRunResponse,
+  SlashCommand,
+  UndoCheckpointResponse,
+} from '@/types/ipc.types';
 
 export interface ElectronAPI {
   invoke: (channel: string, ...args: any[]) => Promise<any>;
@@ -63,6 +76,50 @@ export interface ElectronAPI {
     onSessionUpdate: (
       callback: (data: { type: string; session: SessionBlock }) => void
     ) => () => void;
+    getAnalytics: (
+      period: AnalyticsPeriod
+    ) => Promise<{ success: boolean; data?: UsageAnalytics; error?: string }>;
+    exportUsage: (
+      period: AnalyticsPeriod,
+      format: 'csv' | 'json'
+    ) => Promise<{ success: boolean; data?: string | null; error?: string }>;
+    listTraceFiles: () => Promise<{ success: boolean; data?: TraceFileInfo[]; error?: string }>;
+    readTraceFile: (
+      filePath: string
+    ) => Promise<{ success: boolean; data?: TraceFileEntry[]; error?: string }>;
+    openTraceFile: () => Promise<{
+      success: boolean;
+      data?: { filePath: string; entries: TraceFileEntry[] } | null;
+      error?: string;
+    }>;
+    listFetchTraces: () => Promise<{
+      success: boolean;
+      data?: FetchTraceLogInfo[];
+      error?: string;
+    }>;
+    readFetchTrace: (
+      filePath: string
+    ) => Promise<{ success: boolean; data?: FetchTraceEntry[]; error?: string }>;
+    exportHar: (
+      filePath: string,
+      correlationIds?: string[]
+    ) => Promise<{ success: boolean; data?: string | null; error?: string }>;
+    getFetchCacheSummary: () => Promise<{
+      success: boolean;
+      data?: FetchCacheSummary;
+      error?: string;
+    }>;
+    listFetchCacheEntries: (
+      query?: FetchCacheEntryQuery
+    ) => Promise<{ success: boolean; data?: FetchCacheEntryInfo[]; error?: string }>;
+    deleteFetchCacheEntry: (
+      key: string
+    ) => Promise<{ success: boolean; data?: boolean; error?: string }>;
+    pinFetchCacheEntry: (
+      key: string,
+      pinned: boolean
+    ) => Promise<{ success: boolean; data?: boolean; error?: string }>;
+    clearFetchCache: () => Promise<{ success: boolean; error?: string }>;
   };
   store: {
     get: <T = any>(key: string) => Promise<T | undefined>;
@@ -81,7 +138,10 @@ export interface ElectronAPI {
       folderName?: string;
       localPath?: string;
     }>;
-    delete: (folderName: string) => Promise<{
+    delete: (
+      folderName: string,
+      options?: { skipConfirmation?: boolean }
+    ) => Promise<{
       success: boolean;
       message: string;
       error?: string;
@@ -168,6 +228,11 @@ declare global {
           worktreeId: string,
           agentId: string
         ) => Promise<{ success: boolean; directories: string[]; error?: string }>;
+        branchSession: (request: BranchSessionRequest) => Promise<BranchSessionResponse>;
+        listCheckpoints: (worktreeId: string) => Promise<AgentTurnCheckpoint[]>;
+        diffCheckpoint: (request: CheckpointRequest) => Promise<FileDiff[]>;
+        undoCheckpoint: (request: CheckpointRequest) => Promise<UndoCheckpointResponse>;
+        runFanOut: (request: FanOutRunRequest) => Promise<FanOutRunResponse>;
       };
       // Session management
       updateAgentSession: (
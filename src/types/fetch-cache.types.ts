@@ -0,0 +1,45 @@
+/**
+ * Fetch cache inspector types
+ */
+
+/**
+ * One row of the persistent fetch cache
+ */
+export interface FetchCacheEntryInfo {
+  key: string;
+  method?: string;
+  url?: string;
+  size: number; // Stored value in bytes
+  createdAt: number;
+  lastAccessedAt: number;
+  expiresAt: number;
+  hitCount: number;
+  pinned: boolean;
+}
+
+export interface FetchCacheUrlStats {
+  url: string;
+  entries: number;
+  hits: number;
+  size: number;
+}
+
+/**
+ * Cache contents and hit/miss counters, accumulated across all SDK subprocesses
+ */
+export interface FetchCacheSummary {
+  entryCount: number;
+  pinnedCount: number;
+  totalSize: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+  topUrls: FetchCacheUrlStats[];
+}
+
+export interface FetchCacheEntryQuery {
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,42 @@
+/**
+ * Fetch trace types for the network inspector
+ */
+
+/**
+ * Whether FetchCacheService answered the request
+ * 'none' when the URL is not covered by the cache include patterns.
+ */
+export type FetchCacheStatus = 'hit' | 'miss' | 'none';
+
+/**
+ * One HTTP request made by the SDK subprocess or an MCP server it started,
+ * as recorded in a ~/.autosteer/sessions/*-fetch-trace.log file
+ */
+export interface FetchTraceEntry {
+  correlationId: string;
+  startedAt: string; // ISO 8601
+  method: string;
+  url: string;
+  status?: number; // Absent when the request failed before a response
+  durationMs: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  requestBody: unknown;
+  responseBody: unknown;
+  requestSize: number; // In bytes
+  responseSize: number; // In bytes
+  cache: FetchCacheStatus;
+  error?: string;
+  pid?: number;
+  source?: string; // Script the process was started with, e.g. cli.js for the SDK
+}
+
+/**
+ * A fetch trace log on disk
+ */
+export interface FetchTraceLogInfo {
+  filePath: string;
+  name: string; // {worktreeId}-{sessionId}, without the launch timestamp
+  size: number;
+  modifiedAt: string;
+}
@@ -49,3 +49,21 @@ export interface DiscardOperation {
   hunk?: DiffHunk;
   lines?: DiscardLineInfo[];
 }
+
+export type StageLineInfo = DiscardLineInfo;
+
+export interface GitCommitOptions {
+  amend?: boolean;
+}
+
+export interface GitCommitResult {
+  commit: string;
+  branch: string;
+}
+
+export interface GitSyncStatus {
+  branch: string | null;
+  ahead: number;
+  behind: number;
+  hasUpstream: boolean;
+}
@@ -78,6 +78,22 @@ interface Window {
       saveAs: (content: string, defaultPath?: string) => Promise<string | null>;
       openFolder: (path: string) => Promise<void>;
       listDirectory: (request: any) => Promise<any>;
+      searchContent: (
+        request: import('./ipc.types').ContentSearchRequest
+      ) => Promise<{ searchId: string } | IpcResponse>;
+      cancelContentSearch: (searchId: string) => Promise<void>;
+      onContentSearchResults: (
+        callback: (
+          searchId: string,
+          results: import('./ipc.types').ContentSearchFileResult[]
+        ) => void
+      ) => () => void;
+      onContentSearchDone: (
+        callback: (searchId: string, summary: import('./ipc.types').ContentSearchSummary) => void
+      ) => () => void;
+      searchSymbols: (
+        request: import('./ipc.types').SymbolSearchRequest
+      ) => Promise<import('./ipc.types').SymbolSearchResponse | IpcResponse>;
     };
 
     // Dialog methods
@@ -105,6 +121,42 @@ interface Window {
       startPolling: (intervalMs?: number) => Promise<IpcResponse>;
       stopPolling: () => Promise<IpcResponse>;
       onSessionUpdate: (callback: (data: any) => void) => () => void;
+      getAnalytics: (
+        period: import('@/monitoring/interfaces/types').AnalyticsPeriod
+      ) => Promise<IpcResponse<import('@/monitoring/interfaces/types').UsageAnalytics>>;
+      exportUsage: (
+        period: import('@/monitoring/interfaces/types').AnalyticsPeriod,
+        format: 'csv' | 'json'
+      ) => Promise<IpcResponse<string | null>>;
+      listTraceFiles: () => Promise<IpcResponse<import('./trace-logger.types').TraceFileInfo[]>>;
+      readTraceFile: (
+        filePath: string
+      ) => Promise<IpcResponse<import('./trace-logger.types').TraceFileEntry[]>>;
+      openTraceFile: () => Promise<
+        IpcResponse<{
+          filePath: string;
+          entries: import('./trace-logger.types').TraceFileEntry[];
+        } | null>
+      >;
+      listFetchTraces: () => Promise<
+        IpcResponse<import('./fetch-trace.types').FetchTraceLogInfo[]>
+      >;
+      readFetchTrace: (
+        filePath: string
+      ) => Promise<IpcResponse<import('./fetch-trace.types').FetchTraceEntry[]>>;
+      exportHar: (
+        filePath: string,
+        correlationIds?: string[]
+      ) => Promise<IpcResponse<string | null>>;
+      getFetchCacheSummary: () => Promise<
+        IpcResponse<import('./fetch-cache.types').FetchCacheSummary>
+      >;
+      listFetchCacheEntries: (
+        query?: import('./fetch-cache.types').FetchCacheEntryQuery
+      ) => Promise<IpcResponse<import('./fetch-cache.types').FetchCacheEntryInfo[]>>;
+      deleteFetchCacheEntry: (key: string) => Promise<IpcResponse<boolean>>;
+      pinFetchCacheEntry: (key: string, pinned: boolean) => Promise<IpcResponse<boolean>>;
+      clearFetchCache: () => Promise<IpcResponse>;
     };
 
     // Store methods
@@ -125,6 +177,19 @@ interface Window {
       delete: (id: string) => Promise<void>;
       search: (query: string) => Promise<any[]>;
       loadChatHistory: (agentId: string) => Promise<any>;
+      branchSession: (
+        request: import('./ipc.types').BranchSessionRequest
+      ) => Promise<import('./ipc.types').BranchSessionResponse>;
+      listCheckpoints: (worktreeId: string) => Promise<import('./ipc.types').AgentTurnCheckpoint[]>;
+      diffCheckpoint: (
+        request: import('./ipc.types').CheckpointRequest
+      ) => Promise<import('./git-diff.types').FileDiff[]>;
+      undoCheckpoint: (
+        request: import('./ipc.types').CheckpointRequest
+      ) => Promise<import('./ipc.types').UndoCheckpointResponse>;
+      runFanOut: (
+        request: import('./ipc.types').FanOutRunRequest
+      ) => Promise<import('./ipc.types').FanOutRunResponse>;
     };
 
     // Worktree methods
@@ -132,7 +197,10 @@ interface Window {
       getDataDirectory: () => Promise<string>;
       getCurrentDirectory: (projectPath?: string) => Promise<string>;
       create: (options: { githubRepo: string; branchName: string }) => Promise<any>;
-      delete: (folderName: string) => Promise<IpcResponse>;
+      delete: (
+        folderName: string,
+        options?: { skipConfirmation?: boolean }
+      ) => Promise<IpcResponse>;
       getAll: () => Promise<any[]>;
       getRepoUrls: () => Promise<string[]>;
       getVimMode: () => Promise<boolean>;
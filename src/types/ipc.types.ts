@@ -1,6 +1,8 @@
 import { Agent, Resource } from '@/entities';
+import type { TurnCheckpoint } from '@/services/SessionManifestService';
 import { ComputedMessage } from '@/stores/chat.selectors';
 import {} from '@/stores/chat.selectors';
+import type { FileDiff } from './git-diff.types';
 import type {
   MessageBoxOptions,
   MessageBoxReturnValue,
@@ -27,6 +29,11 @@ export const IPC_CHANNELS = {
   AGENTS_SEARCH: 'agents:search',
   AGENTS_LOAD_CHAT_HISTORY: 'agents:loadChatHistory',
   AGENTS_UPDATE_SESSION: 'agents:updateSession',
+  AGENTS_BRANCH_SESSION: 'agents:branchSession',
+  AGENTS_LIST_CHECKPOINTS: 'agents:listCheckpoints',
+  AGENTS_DIFF_CHECKPOINT: 'agents:diffCheckpoint',
+  AGENTS_UNDO_CHECKPOINT: 'agents:undoCheckpoint',
+  AGENTS_RUN_FANOUT: 'agents:runFanOut',
 
   // Resource channels
   RESOURCES_LOAD_BY_IDS: 'resources:loadByIds',
@@ -111,6 +118,11 @@ export enum IpcChannelNames {
   // File System Operations
   FILE_LIST_DIRECTORY = 'file:list-directory',
   FILE_SEARCH_WORKSPACE = 'file:search-workspace',
+  FILE_SEARCH_CONTENT = 'file:search-content',
+  FILE_SEARCH_CONTENT_CANCEL = 'file:search-content-cancel',
+  FILE_SEARCH_CONTENT_RESULTS = 'file:search-content-results',
+  FILE_SEARCH_CONTENT_DONE = 'file:search-content-done',
+  FILE_SEARCH_SYMBOLS = 'file:search-symbols',
 
   // Badge Operations
   BADGE_SHOW = 'badge:show',
@@ -243,10 +255,161 @@ export interface WorkspaceSearchResponse {
   totalFound: number;
 }
 
+/**
+ * Full-text search of a workspace's file contents
+ */
+export interface ContentSearchRequest {
+  workspacePath: string;
+  query: string;
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  include?: string[]; // Globs such as "*.ts" or "src/**"
+  exclude?: string[];
+  maxResults?: number; // Matches, across all files
+}
+
+export interface ContentSearchMatch {
+  line: number; // 1-based
+  column: number; // 1-based, in characters
+  length: number;
+  text: string; // Matched text, shortened if very long
+  before: string; // Rest of the line before and after the match, shortened if very long
+  after: string;
+}
+
+/**
+ * Matches in one file, streamed as soon as the file has been searched
+ */
+export interface ContentSearchFileResult {
+  path: string; // Relative to the workspace, with forward slashes
+  absolutePath: string;
+  matches: ContentSearchMatch[];
+}
+
+export interface ContentSearchSummary {
+  searchId: string;
+  engine: 'ripgrep' | 'fallback';
+  fileCount: number;
+  matchCount: number;
+  limitHit: boolean; // Stopped at maxResults
+  cancelled?: boolean;
+  error?: string;
+}
+
+export type CodeSymbolKind =
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'function'
+  | 'method'
+  | 'property'
+  | 'variable'
+  | 'namespace';
+
+/**
+ * Declaration found by the symbol index, e.g. a class or one of its methods
+ */
+export interface CodeSymbol {
+  name: string;
+  qualifiedName: string; // Including enclosing declarations, e.g. "MyClass.method"
+  kind: CodeSymbolKind;
+  path: string; // Relative to the workspace, with forward slashes
+  startLine: number; // 1-based, including a leading doc comment
+  endLine: number; // 1-based, inclusive
+}
+
+/**
+ * Symbol lookup for `@path#Symbol` mentions. Without a path the whole workspace is searched.
+ */
+export interface SymbolSearchRequest {
+  workspacePath: string;
+  query: string; // Matched against qualified names; empty lists every symbol
+  path?: string;
+  maxResults?: number;
+}
+
+export interface SymbolSearchResponse {
+  symbols: CodeSymbol[];
+}
+
 /**
  * Legacy type definitions for IPC handlers
  * @deprecated Migrate to typed channel definitions
  */
+/**
+ * Rewind an agent to a user message, or fork it into another agent.
+ * The target agent equals the source agent for a rewind.
+ */
+export interface BranchSessionRequest {
+  sourceAgentId: string;
+  targetAgentId: string;
+  messageId: string;
+  content?: string;
+  ordinal?: number;
+  restoreFiles?: boolean;
+}
+
+export interface BranchSessionResponse {
+  success: boolean;
+  error?: string;
+  restoreMessage?: string;
+}
+
+export interface AgentTurnCheckpoint extends TurnCheckpoint {
+  agentId: string;
+}
+
+/**
+ * Identifies one agent turn's checkpoint. For diffs, `against: 'turn'` shows what
+ * the turn changed and `against: 'current'` compares the state before the turn
+ * with the worktree as it is now.
+ */
+export interface CheckpointRequest {
+  worktreeId: string;
+  agentId: string;
+  checkpointId: string;
+  against?: 'turn' | 'current';
+}
+
+export interface UndoCheckpointResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+/**
+ * One variant of a fan-out: run a prompt headless in an agent of a fresh
+ * worktree, then optionally run the test command there.
+ */
+export interface FanOutRunRequest {
+  worktreeId: string;
+  agentId: string;
+  prompt: string;
+  model?: string;
+  permissionMode?: string;
+  testCommand?: string;
+}
+
+export interface FanOutTestResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  output: string; // Tail of stdout and stderr
+  durationMs: number;
+}
+
+export interface FanOutRunResponse {
+  success: boolean;
+  error?: string;
+  sessionId?: string;
+  costUsd?: number;
+  durationMs: number;
+  numTurns?: number;
+  tests?: FanOutTestResult;
+}
+
 export interface IpcHandlers {
   // Agents
   [IPC_CHANNELS.AGENTS_LOAD_ALL]: () => Promise<Agent[]>;
@@ -265,6 +428,15 @@ export interface IpcHandlers {
     agentId: string,
     sessionId: string
   ) => Promise<{ success: boolean; error?: string }>;
+  [IPC_CHANNELS.AGENTS_BRANCH_SESSION]: (
+    request: BranchSessionRequest
+  ) => Promise<BranchSessionResponse>;
+  [IPC_CHANNELS.AGENTS_LIST_CHECKPOINTS]: (worktreeId: string) => Promise<AgentTurnCheckpoint[]>;
+  [IPC_CHANNELS.AGENTS_DIFF_CHECKPOINT]: (request: CheckpointRequest) => Promise<FileDiff[]>;
+  [IPC_CHANNELS.AGENTS_UNDO_CHECKPOINT]: (
+    request: CheckpointRequest
+  ) => Promise<UndoCheckpointResponse>;
+  [IPC_CHANNELS.AGENTS_RUN_FANOUT]: (request: FanOutRunRequest) => Promise<FanOutRunResponse>;
 
   // Resources
   [IPC_CHANNELS.RESOURCES_LOAD_BY_IDS]: (ids: string[]) => Promise<Resource[]>;
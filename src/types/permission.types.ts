@@ -35,3 +35,72 @@ export const PERMISSION_MODES: PermissionModeOption[] = [
 ];
 
 export const DEFAULT_PERMISSION_MODE: PermissionMode = 'acceptEdits';
+
+/**
+ * Live tool permission request raised by the SDK `canUseTool` callback.
+ * The tool call is paused in the main process until the renderer answers.
+ */
+export interface ToolPermissionRequest {
+  /** App-level agent session ID the query belongs to */
+  sessionId?: string;
+  toolName: string;
+  toolUseId: string;
+  input: Record<string, unknown>;
+  /** Why the SDK asked (e.g. rule match, path outside allowed directories) */
+  decisionReason?: string;
+  blockedPath?: string;
+  /** "Allow for session" is not offered, e.g. for typing into a terminal */
+  onceOnly?: boolean;
+}
+
+/**
+ * Permission request as delivered to the renderer
+ */
+export interface ToolPermissionPrompt extends ToolPermissionRequest {
+  requestId: string;
+  queryId: string;
+}
+
+/**
+ * User's answer to a live permission request.
+ * - allow/once: run this tool call only
+ * - allow/session: run it and stop asking for matching calls in this session
+ * - deny: skip the tool call; `message` is shown to the model as guidance
+ */
+export type ToolPermissionDecision =
+  | { behavior: 'allow'; scope: 'once' | 'session' }
+  | { behavior: 'deny'; message?: string };
+
+/**
+ * What a matching project permission rule does:
+ * - allow: run the tool without prompting, whatever the permission mode
+ * - ask: always prompt, even in bypass mode
+ * - deny: block the tool call; the model is told which rule blocked it
+ */
+export type PermissionRuleBehavior = 'allow' | 'ask' | 'deny';
+
+/**
+ * Declarative permission rule stored per worktree in config.json.
+ *
+ * Rules are evaluated in order and the first match wins. `pattern` is matched
+ * against the tool's subject: the command for Bash, the path relative to the
+ * worktree for file tools, the host for WebFetch and the query for WebSearch.
+ * Globs support `*` and `**`, a Bash pattern ending in `:*` matches by prefix,
+ * alternatives are comma-separated and a leading `!` inverts the match
+ * (e.g. deny `Write` with `!src/**`). Chained Bash commands and substitutions
+ * are matched command by command, and only allowed when every one is.
+ */
+export interface PermissionRule {
+  id: string;
+  behavior: PermissionRuleBehavior;
+  /** Tool name, or a glob such as `mcp__github__*` or `*` */
+  tool: string;
+  pattern?: string;
+  description?: string;
+}
+
+export const PERMISSION_RULE_BEHAVIORS: { value: PermissionRuleBehavior; label: string }[] = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'ask', label: 'Ask' },
+  { value: 'deny', label: 'Deny' },
+];
@@ -1,4 +1,5 @@
 import type { SDKMessage } from '@/types/sdk.types';
+import type { CanUseTool, Options } from '@anthropic-ai/claude-agent-sdk';
 
 export interface VirtualSession {
   sessionId: string;
@@ -7,6 +8,8 @@ export interface VirtualSession {
   lastActivity: Date;
   sequenceNumber: number;
   isActive: boolean;
+  /** Whether a long-lived SDK query is currently running for this session */
+  isStreaming: boolean;
 }
 
 export interface SessionMetrics {
@@ -16,6 +19,12 @@ export interface SessionMetrics {
   validationErrors: number;
   cacheHits: number;
   cacheMisses: number;
+  /** SDK processes started for this session (1 unless idle-closed or crashed) */
+  queryStarts: number;
+  /** Turns completed (one result message each) */
+  turnsCompleted: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
 }
 
 export interface QueryManagerStats {
@@ -33,15 +42,15 @@ export interface QueryManagerOptions {
 }
 
 /**
- * @deprecated - No longer used in simplified implementation
+ * Options of one turn sent through QueryManager.sendMessage
  */
-export interface QueuedMessage {
-  sessionId: string;
-  correlationId: string;
-  sequenceNumber: number;
-  content: string;
-  attachments: unknown[] | undefined;
-  timestamp: number;
+export interface StreamingTurnOptions {
+  /** Options a new SDK process is started with (model and permission mode also apply to a live one) */
+  sdkOptions: Options;
+  /** Identifies what the process was started with; a turn with a different key restarts it */
+  processKey: string;
+  /** Answers this turn's permission prompts */
+  canUseTool?: CanUseTool;
 }
 
 /**
@@ -53,15 +62,6 @@ export interface SDKMessageWithSession {
   correlation_id?: string;
 }
 
-/**
- * @deprecated - No longer used in simplified implementation
- */
-export interface MessageQueueItem {
-  message: QueuedMessage;
-  resolve: () => void;
-  reject: (error: Error) => void;
-}
-
 /**
  * @deprecated - No longer used in simplified implementation
  */
@@ -75,9 +75,8 @@ export interface SessionCacheEntry {
 /**
  * Interface for QueryManager
  *
- * NOTE: Interface updated for simplified per-message approach
- * - Removed initialize() - no longer needed
- * - Changed sendMessage() to return AsyncIterable<SDKMessage>
+ * Each session keeps one long-lived SDK query fed by a prompt stream;
+ * sendMessage() returns the SDK messages of that turn only.
  */
 export interface IQueryManager {
   readonly projectId: string;
@@ -87,9 +86,11 @@ export interface IQueryManager {
   sendMessage(
     sessionId: string,
     content: string,
-    attachments?: any[]
+    turnOptions?: StreamingTurnOptions
   ): Promise<AsyncIterable<SDKMessage>>;
+  interrupt(sessionId: string): Promise<void>;
   closeSession(sessionId: string): Promise<void>;
+  getSessionMetrics(sessionId: string): SessionMetrics | undefined;
   getStats(): QueryManagerStats;
   destroy(): Promise<void>;
 }
@@ -0,0 +1,260 @@
+/**
+ * Settings Zod Schemas - One typed schema for the settings spread over config.json,
+ * app.json, the ide-settings store and environment variables
+ *
+ * Values are resolved in layers, later layers winning:
+ * - default: built-in defaults; fetch trace/cache defaults come from the environment
+ * - user: preferences in ~/.autosteer/config.json, fetch trace/cache in app.json,
+ *   the preferred editor in the ide-settings store
+ * - project: .autosteer.json in the worktree, checked into the repository
+ * - session: model and permission mode chosen for one agent
+ *
+ * The IDE section depends on the editors installed on each machine, so project files
+ * cannot set it.
+ *
+ * Usage:
+ * import { SettingsLayerSchema, SETTINGS_DEFAULTS } from '@/types/settings.schema';
+ */
+
+import { z } from 'zod';
+import { DEFAULT_MODEL, MODEL_OPTIONS, ModelOption } from './model.types';
+import { DEFAULT_PERMISSION_MODE, PERMISSION_MODES, PermissionMode } from './permission.types';
+
+export const PreferencesSettingsSchema = z
+  .object({
+    theme: z.enum(['light', 'dark', 'system']),
+    fontSize: z.enum(['small', 'medium', 'large']),
+    fontFamily: z.string().min(1),
+    autoSave: z.boolean(),
+    compactOnTokenLimit: z.boolean(),
+    maxTokens: z.number().int().positive(),
+    badgeNotifications: z.boolean(),
+    maxTurns: z.number().int().positive().nullable(),
+    defaultModel: z.enum(
+      MODEL_OPTIONS.map((option) => option.value) as [ModelOption, ...ModelOption[]]
+    ),
+    confirmSessionTabDeletion: z.boolean(),
+    enableSkills: z.boolean(),
+    autoSelectFirstTab: z.boolean(),
+    defaultPermissionMode: z.enum(
+      PERMISSION_MODES.map((mode) => mode.value) as [PermissionMode, ...PermissionMode[]]
+    ),
+    messageQueueMode: z.enum(['sequential', 'merged']),
+  })
+  .strict();
+
+export const IdeSettingsSchema = z
+  .object({
+    preferredEditor: z.string().min(1).optional(),
+  })
+  .strict();
+
+const UrlPatternsSchema = z.array(
+  z.string().refine((pattern) => !pattern.includes(','), 'URL patterns cannot contain commas')
+);
+
+export const FetchTraceSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    includes: UrlPatternsSchema,
+    excludes: UrlPatternsSchema,
+  })
+  .strict();
+
+export const FetchCacheSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    ttl: z.number().int().positive(), // seconds
+    maxSize: z.number().int().positive(),
+    includes: UrlPatternsSchema,
+    excludes: UrlPatternsSchema,
+  })
+  .strict();
+
+/**
+ * Fully resolved settings
+ */
+export const SettingsSchema = z.object({
+  preferences: PreferencesSettingsSchema,
+  ide: IdeSettingsSchema,
+  fetchTrace: FetchTraceSettingsSchema,
+  fetchCache: FetchCacheSettingsSchema,
+});
+
+/**
+ * One layer: any subset of the settings. Also the format of .autosteer.json and of
+ * exported settings files.
+ */
+export const SettingsLayerSchema = z
+  .object({
+    version: z.literal(1).optional(),
+    preferences: PreferencesSettingsSchema.partial().optional(),
+    ide: IdeSettingsSchema.optional(),
+    fetchTrace: FetchTraceSettingsSchema.partial().optional(),
+    fetchCache: FetchCacheSettingsSchema.partial().optional(),
+  })
+  .strict();
+
+export type UnifiedSettings = z.infer<typeof SettingsSchema>;
+export type SettingsSection = keyof UnifiedSettings;
+
+// Written out rather than inferred: JSON has no undefined, so parsed layers never hold
+// undefined values and the optional keys can stay exact
+export type SettingsLayer = { version?: 1 } & {
+  [Section in SettingsSection]?: Partial<UnifiedSettings[Section]>;
+};
+
+export const SETTINGS_SECTIONS = Object.keys(SettingsSchema.shape) as SettingsSection[];
+
+export type SettingsSource = 'default' | 'user' | 'project' | 'session';
+
+/**
+ * Name of the project settings file in the worktree root
+ */
+export const PROJECT_SETTINGS_FILE = '.autosteer.json';
+
+/**
+ * Built-in defaults of the sections that do not come from the environment
+ */
+export const SETTINGS_DEFAULTS: Pick<UnifiedSettings, 'preferences' | 'ide'> = {
+  preferences: {
+    theme: 'system',
+    fontSize: 'medium',
+    fontFamily: 'Fira Code, SF Mono, Monaco, Consolas, monospace',
+    autoSave: true,
+    compactOnTokenLimit: true,
+    maxTokens: 4000,
+    badgeNotifications: true,
+    maxTurns: null, // Unlimited
+    defaultModel: DEFAULT_MODEL,
+    confirmSessionTabDeletion: true,
+    enableSkills: true,
+    autoSelectFirstTab: true,
+    defaultPermissionMode: DEFAULT_PERMISSION_MODE,
+    messageQueueMode: 'sequential', // Send queued messages one per turn
+  },
+  ide: {},
+};
+
+/**
+ * A value that was ignored because it is not a known setting or is invalid
+ */
+export interface SettingsIssue {
+  source: SettingsSource;
+  key: string; // e.g. "preferences.maxTurns"
+  message: string;
+}
+
+/**
+ * Settings of a worktree's .autosteer.json
+ */
+export interface ProjectSettings {
+  file: string;
+  exists: boolean;
+  settings: SettingsLayer;
+  issues: SettingsIssue[];
+}
+
+/**
+ * Resolved settings and the layer each value came from, keyed "section.key"
+ */
+export interface EffectiveSettings {
+  settings: UnifiedSettings;
+  sources: Record<string, SettingsSource>;
+  projectFile?: string;
+  issues: SettingsIssue[];
+}
+
+/**
+ * Keep the valid, known values of a layer and report the rest.
+ * Layers are read leniently so one bad value does not discard a whole file.
+ * @param unknownKeys - Whether unknown sections and keys are reported or silently skipped
+ */
+export function parseSettingsLayer(
+  raw: unknown,
+  source: SettingsSource,
+  unknownKeys: 'report' | 'ignore' = 'report'
+): { layer: SettingsLayer; issues: SettingsIssue[] } {
+  const layer: Record<string, Record<string, unknown>> = {};
+  const issues: SettingsIssue[] = [];
+
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push({ source, key: '', message: 'Settings must be a JSON object' });
+    return { layer: {}, issues };
+  }
+
+  for (const [section, values] of Object.entries(raw)) {
+    if (section === 'version' || section === '$schema') {
+      continue;
+    }
+    const sectionSchema = SettingsSchema.shape[section as SettingsSection];
+    if (!sectionSchema) {
+      if (unknownKeys === 'report') {
+        issues.push({ source, key: section, message: 'Unknown settings section' });
+      }
+      continue;
+    }
+    if (values === null || typeof values !== 'object' || Array.isArray(values)) {
+      issues.push({ source, key: section, message: 'Expected an object' });
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      const keySchema = (sectionSchema.shape as Record<string, z.ZodTypeAny>)[key];
+      if (!keySchema) {
+        if (unknownKeys === 'report') {
+          issues.push({ source, key: `${section}.${key}`, message: 'Unknown setting' });
+        }
+        continue;
+      }
+      const result = keySchema.safeParse(value);
+      if (!result.success) {
+        issues.push({
+          source,
+          key: `${section}.${key}`,
+          message: result.error.issues[0]?.message ?? 'Invalid value',
+        });
+        continue;
+      }
+      if (result.data !== undefined) {
+        layer[section] = { ...layer[section], [key]: result.data };
+      }
+    }
+  }
+
+  return { layer: layer as SettingsLayer, issues };
+}
+
+/**
+ * Apply layers in order over the defaults and record where each value came from
+ */
+export function resolveSettings(
+  defaults: UnifiedSettings,
+  layers: Array<{ source: SettingsSource; layer: SettingsLayer }>
+): Pick<EffectiveSettings, 'settings' | 'sources'> {
+  // Values are replaced, never mutated, so copying the sections is enough
+  const settings = Object.fromEntries(
+    SETTINGS_SECTIONS.map((section) => [section, { ...defaults[section] }])
+  ) as UnifiedSettings;
+  const sources: Record<string, SettingsSource> = {};
+
+  for (const section of SETTINGS_SECTIONS) {
+    for (const key of Object.keys(SettingsSchema.shape[section].shape)) {
+      sources[`${section}.${key}`] = 'default';
+    }
+  }
+
+  for (const { source, layer } of layers) {
+    for (const section of SETTINGS_SECTIONS) {
+      const values = layer[section];
+      if (!values) continue;
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) continue;
+        (settings[section] as Record<string, unknown>)[key] = value;
+        sources[`${section}.${key}`] = source;
+      }
+    }
+  }
+
+  return { settings, sources };
+}
@@ -0,0 +1,40 @@
+/**
+ * Task runner types: scripts detected in a worktree and their runs
+ */
+
+/**
+ * File a task was found in
+ */
+export type TaskSource = 'package.json' | 'Makefile' | 'justfile' | 'pyproject.toml';
+
+export interface WorktreeTask {
+  id: string; // `${source}:${name}`, stable across detections
+  name: string;
+  source: TaskSource;
+  command: string; // Shell command that runs the task
+  pinned: boolean;
+}
+
+export type TaskRunStatus = 'running' | 'passed' | 'failed';
+
+export interface TaskRun {
+  id: string;
+  taskId: string;
+  name: string;
+  command: string;
+  terminalId: string; // XtermService terminal the task runs in
+  status: TaskRunStatus;
+  exitCode: number | null; // null while running or when stopped
+  startedAt: string;
+  finishedAt?: string;
+  output?: string; // Last lines as plain text, kept for failed runs
+}
+
+/**
+ * Tasks of a worktree with the latest run of each
+ */
+export interface WorktreeTasks {
+  tasks: WorktreeTask[]; // Pinned tasks first
+  runs: TaskRun[];
+  lastTaskId?: string; // Task started most recently, for "re-run last"
+}
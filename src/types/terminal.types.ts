@@ -27,6 +27,7 @@ export interface Terminal {
   cwd: string;
   size: TerminalSize;
   status: TerminalStatus;
+  restored?: RestoredTerminalSession;
 }
 
 /**
@@ -56,6 +57,9 @@ export interface TerminalCreateParams {
   size?: TerminalSize;
   title?: string;
   env?: NodeJS.ProcessEnv;
+  persistKey?: string; // Saves the terminal under this key and restores it on the next create
+  command?: string; // Run in the shell once it starts
+  exec?: boolean; // Run `command` as the shell's only job; the terminal exits with its exit code
 }
 
 /**
@@ -105,6 +109,30 @@ export interface TerminalData {
   cwd: string;
   size: TerminalSize;
   status: TerminalStatus;
+  restored?: RestoredTerminalSession;
+}
+
+/**
+ * Terminal saved to ~/.autosteer/terminals so it can be restored after a restart
+ */
+export interface PersistedTerminalSession {
+  key: string;
+  shell: string;
+  cwd: string; // Shell working directory when last saved
+  env: Record<string, string>; // Variables set for this terminal on top of the app environment
+  launchCommand?: string; // Last command entered at the prompt
+  multiplexerSession?: string; // tmux session the terminal is attached to
+  bufferState: Omit<TerminalBufferState, 'scrollback' | 'timestamp'> & { timestamp: string };
+}
+
+/**
+ * What a new terminal picked up from its saved session
+ */
+export interface RestoredTerminalSession {
+  content: string; // Saved scrollback with ANSI codes, empty when reattached
+  launchCommand?: string;
+  savedAt: string;
+  reattached: boolean; // The multiplexer session was still running, so nothing was lost
 }
 
 /**
@@ -131,6 +159,15 @@ export interface TerminalSessionState {
   lastSaved: Date;
 }
 
+/**
+ * Where XtermService captures terminal output (TerminalBufferService in the main process)
+ */
+export interface TerminalBufferStore {
+  saveBufferState(bufferState: TerminalBufferState): void;
+  getBufferState(terminalId: string): TerminalBufferState | undefined;
+  removeBufferState(terminalId: string): void;
+}
+
 /**
  * Buffer trimming statistics
  */
@@ -35,3 +35,28 @@ export interface TraceQueryOptions {
   endTime?: number;
   limit?: number;
 }
+
+/**
+ * One line of a ~/.autosteer/traces/{sessionId}.trace.jsonl file, as written by TraceLogger
+ */
+export interface TraceFileEntry {
+  timestamp: string;
+  sessionId: string;
+  direction: 'to-claude' | 'from-claude';
+  rawMessage: unknown;
+  sdkVersion: string;
+  correlationId: string;
+  sequenceNumber: number;
+  messageType?: string; // Pydantic message type (e.g., 'system', 'user', 'assistant', 'tool', 'result', 'error', 'stream_event')
+  messageSubtype?: string; // Pydantic message subtype if applicable (e.g., 'init', 'compact_boundary' for system messages)
+}
+
+/**
+ * A trace file on disk, including rotated ones
+ */
+export interface TraceFileInfo {
+  sessionId: string;
+  filePath: string;
+  size: number;
+  modifiedAt: string;
+}
@@ -21,7 +21,7 @@ export interface SessionTab {
   /** Last time this tab was accessed */
   lastAccessed: Date;
   /** Type of tab to distinguish between different tab categories */
-  tabType?: 'agent' | 'terminal' | 'changes' | 'tools' | 'maximize';
+  tabType?: 'agent' | 'terminal' | 'changes' | 'tools' | 'tasks' | 'search' | 'maximize';
 }
 
 /**
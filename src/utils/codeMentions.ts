@@ -0,0 +1,55 @@
+/**
+ * Precise code mentions in chat messages
+ *
+ * - `@src/foo.ts#L10` and `@src/foo.ts#L10-40` refer to lines of a file
+ * - `@src/foo.ts#MyClass.method` refers to a declaration found by the symbol index
+ *
+ * Pure functions only; the SDK service expands the mentions into snippets before sending.
+ */
+
+export interface CodeMention {
+  raw: string; // As written, including the @
+  path: string; // Relative to the worktree
+  lines?: { start: number; end: number };
+  symbol?: string; // Qualified name, e.g. "MyClass.method"
+}
+
+// The path uses the same characters as plain `@file` mentions
+const CODE_MENTION_PATTERN =
+  /(^|\s)@([\w./-]+)#(?:L(\d+)(?:-L?(\d+))?|([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*))(?=$|[\s,;:!?)\]'".])/g;
+
+/**
+ * Find the code mentions in a message, each distinct mention once
+ */
+export function parseCodeMentions(text: string): CodeMention[] {
+  const mentions = new Map<string, CodeMention>();
+
+  for (const match of text.matchAll(CODE_MENTION_PATTERN)) {
+    const [, , path, startLine, endLine, symbol] = match;
+    const raw = match[0].trimStart();
+    if (mentions.has(raw)) {
+      continue;
+    }
+
+    if (startLine) {
+      const start = Number(startLine);
+      const end = endLine ? Number(endLine) : start;
+      mentions.set(raw, {
+        raw,
+        path,
+        lines: { start: Math.min(start, end), end: Math.max(start, end) },
+      });
+    } else {
+      mentions.set(raw, { raw, path, symbol });
+    }
+  }
+
+  return Array.from(mentions.values());
+}
+
+/**
+ * Mention for a line or a range of lines
+ */
+export function formatLineMention(path: string, startLine: number, endLine = startLine): string {
+  return endLine === startLine ? `@${path}#L${startLine}` : `@${path}#L${startLine}-${endLine}`;
+}
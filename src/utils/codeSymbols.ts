@@ -0,0 +1,518 @@
+/**
+ * Lightweight symbol parsing for `@path#Symbol` mentions
+ *
+ * TypeScript and JavaScript are parsed with the TypeScript compiler. Python, Go, Rust, Java
+ * and C# are read line by line instead: a declaration is recognised by its first line and
+ * ends where its indentation (Python) or its braces (the others) close again.
+ */
+
+import type { CodeSymbol, CodeSymbolKind } from '@/types/ipc.types';
+import * as path from 'path';
+import type * as TS from 'typescript';
+
+/**
+ * Symbol without its file, as returned by the parsers
+ */
+export type ParsedSymbol = Omit<CodeSymbol, 'path'>;
+
+type TypeScript = typeof TS;
+
+const TYPESCRIPT_SCRIPT_KINDS: Record<string, 'TS' | 'TSX' | 'JS' | 'JSX'> = {
+  '.ts': 'TS',
+  '.mts': 'TS',
+  '.cts': 'TS',
+  '.tsx': 'TSX',
+  '.js': 'JS',
+  '.mjs': 'JS',
+  '.cjs': 'JS',
+  '.jsx': 'JSX',
+};
+
+const PYTHON_EXTENSIONS = new Set(['.py', '.pyi']);
+
+// Signatures spanning more lines than this are taken to have no body
+const MAX_SIGNATURE_LINES = 8;
+
+let typescript: Promise<TypeScript> | null = null;
+
+// The compiler is large, so it is only loaded once a TS/JS file is parsed
+const loadTypeScript = (): Promise<TypeScript> => (typescript ??= import('typescript'));
+
+function parseTypeScript(
+  ts: TypeScript,
+  filePath: string,
+  content: string,
+  scriptKind: keyof typeof TS.ScriptKind
+): ParsedSymbol[] {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    false,
+    ts.ScriptKind[scriptKind]
+  );
+  const symbols: ParsedSymbol[] = [];
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const add = (node: TS.Node, name: string, kind: CodeSymbolKind, parent?: string): string => {
+    const qualifiedName = parent ? `${parent}.${name}` : name;
+    symbols.push({
+      name,
+      qualifiedName,
+      kind,
+      startLine: lineOf(node.getStart(sourceFile, true)),
+      endLine: lineOf(node.getEnd()),
+    });
+    return qualifiedName;
+  };
+
+  // Computed names such as [Symbol.iterator] are skipped
+  const nameOf = (name: TS.PropertyName): string | undefined =>
+    ts.isIdentifier(name) ||
+    ts.isPrivateIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+      ? name.text
+      : undefined;
+
+  const isFunction = (node: TS.Node | undefined) =>
+    !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+  // Members of a class, or the methods of an object literal
+  const visitMembers = (members: readonly TS.Node[], parent: string) => {
+    for (const member of members) {
+      if (ts.isConstructorDeclaration(member)) {
+        add(member, 'constructor', 'method', parent);
+      } else if (
+        ts.isMethodDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member)
+      ) {
+        const name = nameOf(member.name);
+        if (name) add(member, name, 'method', parent);
+      } else if (ts.isPropertyDeclaration(member)) {
+        const name = nameOf(member.name);
+        if (name) add(member, name, isFunction(member.initializer) ? 'method' : 'property', parent);
+      } else if (ts.isPropertyAssignment(member) && isFunction(member.initializer)) {
+        const name = nameOf(member.name);
+        if (name) add(member, name, 'method', parent);
+      }
+    }
+  };
+
+  const visitStatements = (statements: readonly TS.Statement[], parent?: string) => {
+    for (const statement of statements) {
+      if (ts.isClassDeclaration(statement) && statement.name) {
+        visitMembers(statement.members, add(statement, statement.name.text, 'class', parent));
+      } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+        add(statement, statement.name.text, 'function', parent);
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        add(statement, statement.name.text, 'interface', parent);
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        add(statement, statement.name.text, 'type', parent);
+      } else if (ts.isEnumDeclaration(statement)) {
+        add(statement, statement.name.text, 'enum', parent);
+      } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+        const namespace = add(statement, statement.name.text, 'namespace', parent);
+        if (statement.body && ts.isModuleBlock(statement.body)) {
+          visitStatements(statement.body.statements, namespace);
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        const { declarations } = statement.declarationList;
+        for (const declaration of declarations) {
+          if (!ts.isIdentifier(declaration.name)) {
+            continue;
+          }
+          // A lone declaration spans its statement, including `export const` and the doc comment
+          const node = declarations.length === 1 ? statement : declaration;
+          const name = declaration.name.text;
+          const initializer = declaration.initializer;
+          if (initializer && ts.isClassExpression(initializer)) {
+            visitMembers(initializer.members, add(node, name, 'class', parent));
+          } else if (initializer && ts.isObjectLiteralExpression(initializer)) {
+            visitMembers(initializer.properties, add(node, name, 'variable', parent));
+          } else {
+            add(node, name, isFunction(initializer) ? 'function' : 'variable', parent);
+          }
+        }
+      }
+    }
+  };
+
+  visitStatements(sourceFile.statements);
+  return symbols;
+}
+
+const PYTHON_DECLARATION = /^(\s*)(?:async\s+)?(class|def)\s+([A-Za-z_]\w*)/;
+
+/**
+ * Classes, functions and methods; functions nested in functions are skipped
+ */
+function parsePython(content: string): ParsedSymbol[] {
+  const lines = content.split('\n');
+  const symbols: ParsedSymbol[] = [];
+  const open: { indent: number; symbol: ParsedSymbol }[] = [];
+  let lastCodeLine = 0;
+  let inString = false;
+
+  // Blocks end at the first line indented no deeper than their header
+  const closeBlocks = (indent: number) => {
+    while (open.length > 0 && open[open.length - 1].indent >= indent) {
+      const block = open.pop();
+      if (block) block.symbol.endLine = lastCodeLine;
+    }
+  };
+
+  lines.forEach((text, index) => {
+    const lineNumber = index + 1;
+    // Lines inside a multi-line string do not count for indentation
+    const quotes = text.match(/"""|'''/g)?.length ?? 0;
+    if (inString) {
+      inString = quotes % 2 === 0;
+      lastCodeLine = lineNumber;
+      return;
+    }
+
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+    inString = quotes % 2 === 1;
+
+    const indent = text.length - text.trimStart().length;
+    closeBlocks(indent);
+    lastCodeLine = lineNumber;
+
+    const match = PYTHON_DECLARATION.exec(text);
+    const parent = open[open.length - 1]?.symbol;
+    if (!match || (parent && parent.kind !== 'class')) {
+      return;
+    }
+
+    const name = match[3];
+    let startLine = lineNumber;
+    while (startLine > 1 && lines[startLine - 2].trim().startsWith('@')) {
+      startLine--; // Decorators
+    }
+    const symbol: ParsedSymbol = {
+      name,
+      qualifiedName: parent ? `${parent.qualifiedName}.${name}` : name,
+      kind: match[2] === 'class' ? 'class' : parent ? 'method' : 'function',
+      startLine,
+      endLine: lineNumber,
+    };
+    symbols.push(symbol);
+    open.push({ indent, symbol });
+  });
+
+  closeBlocks(-1);
+  return symbols;
+}
+
+interface BraceDeclaration {
+  name: string;
+  kind: CodeSymbolKind | null; // null for blocks that only qualify their members, e.g. Rust impls
+  parent?: string; // Overrides the enclosing block, e.g. a Go method's receiver type
+  container?: boolean; // Declarations in its body are its members
+}
+
+interface BraceLanguage {
+  declarations: Array<{
+    pattern: RegExp;
+    read: (match: RegExpExecArray) => BraceDeclaration | null;
+  }>;
+  leading: RegExp; // Doc comment and attribute lines that belong to the declaration below
+}
+
+const RUST_VISIBILITY = String.raw`(?:pub(?:\([^)]*\))?\s+)?`;
+
+const RUST_KINDS: Record<string, CodeSymbolKind> = {
+  struct: 'class',
+  union: 'class',
+  enum: 'enum',
+  trait: 'interface',
+  type: 'type',
+  mod: 'namespace',
+};
+
+const C_FAMILY_MODIFIERS = String.raw`(?:(?:public|private|protected|internal|static|final|abstract|sealed|non-sealed|partial|readonly|async|virtual|override|new|synchronized|native|default|strictfp|unsafe|extern)\s+)*`;
+
+const C_FAMILY_KEYWORDS = new Set([
+  'if',
+  'for',
+  'foreach',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'new',
+  'throw',
+  'using',
+  'lock',
+  'synchronized',
+]);
+
+const GO: BraceLanguage = {
+  declarations: [
+    {
+      pattern: /^func\s+\(\s*(?:\w+\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/,
+      read: (match) => ({ name: match[2], kind: 'method', parent: match[1] }),
+    },
+    {
+      pattern: /^func\s+([A-Za-z_]\w*)/,
+      read: (match) => ({ name: match[1], kind: 'function' }),
+    },
+    {
+      pattern: /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)?/,
+      read: (match) => ({
+        name: match[1],
+        kind: match[2] === 'struct' ? 'class' : match[2] === 'interface' ? 'interface' : 'type',
+      }),
+    },
+  ],
+  leading: /^\s*\/\//,
+};
+
+const RUST: BraceLanguage = {
+  declarations: [
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${RUST_VISIBILITY}(?:(?:const|async|unsafe|extern\s+"[^"]*")\s+)*fn\s+([A-Za-z_]\w*)`
+      ),
+      read: (match) => ({ name: match[1], kind: 'function' }),
+    },
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${RUST_VISIBILITY}(struct|union|enum|trait|type|mod)\s+([A-Za-z_]\w*)`
+      ),
+      read: (match) => ({
+        name: match[2],
+        kind: RUST_KINDS[match[1]],
+        container: match[1] === 'trait' || match[1] === 'mod',
+      }),
+    },
+    {
+      // `impl<T> fmt::Display for Wrapper<T>` qualifies its methods with Wrapper
+      pattern:
+        /^\s*(?:unsafe\s+)?impl\b(?:\s*<[^>]*>)?\s+(?:[^{]*?\s+for\s+)?(?:[\w:]*::)?([A-Za-z_]\w*)/,
+      read: (match) => ({ name: match[1], kind: null, container: true }),
+    },
+  ],
+  leading: /^\s*(?:\/\/|#\[)/,
+};
+
+const C_FAMILY: BraceLanguage = {
+  declarations: [
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${C_FAMILY_MODIFIERS}(class|interface|@interface|enum|record|struct)\s+([A-Za-z_]\w*)`
+      ),
+      read: (match) => ({
+        name: match[2],
+        kind: match[1].endsWith('interface') ? 'interface' : match[1] === 'enum' ? 'enum' : 'class',
+        container: true,
+      }),
+    },
+    {
+      pattern: /^\s*namespace\s+([\w.]+)/,
+      read: (match) => ({ name: match[1], kind: 'namespace', container: true }),
+    },
+    {
+      // Methods and constructors: modifiers, type parameters, a return type, then the name
+      pattern: new RegExp(
+        String.raw`^\s*${C_FAMILY_MODIFIERS}(?:<[^>]+>\s+)?(?:[\w.[\]?]+(?:<[^()]*>)?(?:\[\])*\s+)?([A-Za-z_]\w*)\s*\(`
+      ),
+      read: (match) =>
+        C_FAMILY_KEYWORDS.has(match[1]) ? null : { name: match[1], kind: 'function' },
+    },
+  ],
+  leading: /^\s*(?:\/\/|\/\*|\*|@\w|\[)/,
+};
+
+const BRACE_LANGUAGES: Record<string, BraceLanguage> = {
+  '.go': GO,
+  '.rs': RUST,
+  '.java': C_FAMILY,
+  '.cs': C_FAMILY,
+};
+
+interface BraceBlock {
+  line: number; // Line of the opening brace
+  depth: number; // Nesting depth outside the braces
+  endLine: number; // Line of the closing brace
+}
+
+/**
+ * Brace depth at the start of each line and every braced block, skipping strings and comments
+ */
+function scanBraces(content: string): { lineDepths: number[]; blocks: BraceBlock[] } {
+  const lineDepths = [0];
+  const blocks: BraceBlock[] = [];
+  const open: BraceBlock[] = [];
+  const charLiteral = /'(?:\\.[^']{0,8}|[^'\\])'/y;
+  let mode: 'code' | 'line-comment' | 'block-comment' | 'string' = 'code';
+  let quote = '';
+  let line = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') {
+      line++;
+      lineDepths.push(open.length);
+      // Only backtick strings span lines; ending the others here limits the damage of a miss
+      if (mode === 'line-comment' || (mode === 'string' && quote !== '`')) {
+        mode = 'code';
+      }
+    } else if (mode === 'line-comment') {
+      continue;
+    } else if (mode === 'block-comment') {
+      if (char === '*' && content[i + 1] === '/') {
+        mode = 'code';
+        i++;
+      }
+    } else if (mode === 'string') {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        mode = 'code';
+      }
+    } else if (char === '/' && content[i + 1] === '/') {
+      mode = 'line-comment';
+    } else if (char === '/' && content[i + 1] === '*') {
+      mode = 'block-comment';
+      i++;
+    } else if (char === '"' || char === '`') {
+      mode = 'string';
+      quote = char;
+    } else if (char === "'") {
+      // A character literal; Rust lifetimes such as 'a have no closing quote
+      charLiteral.lastIndex = i;
+      if (charLiteral.test(content)) {
+        i = charLiteral.lastIndex - 1;
+      }
+    } else if (char === '{') {
+      const block = { line, depth: open.length, endLine: 0 };
+      blocks.push(block);
+      open.push(block);
+    } else if (char === '}') {
+      const block = open.pop();
+      if (block) block.endLine = line;
+    }
+  }
+
+  for (const block of open) {
+    block.endLine = line; // Unclosed at the end of the file
+  }
+  return { lineDepths, blocks };
+}
+
+function parseBraceLanguage(language: BraceLanguage, content: string): ParsedSymbol[] {
+  const lines = content.split('\n');
+  const { lineDepths, blocks } = scanBraces(content);
+  const symbols: ParsedSymbol[] = [];
+  const enclosing: Array<{ name: string; depth: number; endLine: number; container: boolean }> = [];
+  let nextBlock = 0;
+
+  // Last line of the body that follows the declaration, or the line itself if it has none
+  const findEnd = (lineNumber: number, depth: number): number => {
+    while (nextBlock < blocks.length && blocks[nextBlock].line < lineNumber) {
+      nextBlock++;
+    }
+    let parens = 0;
+    for (let current = lineNumber; current < lineNumber + MAX_SIGNATURE_LINES; current++) {
+      for (let i = nextBlock; i < blocks.length && blocks[i].line <= current; i++) {
+        if (blocks[i].line === current && blocks[i].depth === depth) {
+          return blocks[i].endLine;
+        }
+      }
+      const text = lines[current - 1]?.trim() ?? '';
+      const next = lines[current]?.trim() ?? '';
+      parens += (text.match(/\(/g)?.length ?? 0) - (text.match(/\)/g)?.length ?? 0);
+      const continues =
+        parens > 0 || /[,(]$|->$/.test(text) || /^(?:\{|where\b|throws\b|->|:)/.test(next);
+      if (!continues) {
+        break;
+      }
+    }
+    return lineNumber;
+  };
+
+  lines.forEach((text, index) => {
+    const lineNumber = index + 1;
+    while (enclosing.length > 0 && enclosing[enclosing.length - 1].endLine < lineNumber) {
+      enclosing.pop();
+    }
+
+    // Only declarations at the top level or directly in a container; not inside function bodies
+    const depth = lineDepths[index];
+    const outer = enclosing[enclosing.length - 1];
+    if (outer ? !outer.container || depth !== outer.depth + 1 : depth !== 0) {
+      return;
+    }
+
+    for (const { pattern, read } of language.declarations) {
+      const match = pattern.exec(text);
+      const declaration = match && read(match);
+      if (!declaration) {
+        continue;
+      }
+
+      const parent = declaration.parent ?? outer?.name;
+      const qualifiedName = parent ? `${parent}.${declaration.name}` : declaration.name;
+      const endLine = findEnd(lineNumber, depth);
+
+      if (declaration.kind) {
+        let startLine = lineNumber;
+        while (startLine > 1 && language.leading.test(lines[startLine - 2])) {
+          startLine--;
+        }
+        symbols.push({
+          name: declaration.name,
+          qualifiedName,
+          kind: declaration.kind === 'function' && parent ? 'method' : declaration.kind,
+          startLine,
+          endLine,
+        });
+      }
+      if (endLine > lineNumber) {
+        enclosing.push({
+          name: qualifiedName,
+          depth,
+          endLine,
+          container: !!declaration.container,
+        });
+      }
+      break;
+    }
+  });
+
+  return symbols;
+}
+
+/**
+ * Whether the symbol index can parse a file, by its extension
+ */
+export function isSymbolFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return (
+    extension in TYPESCRIPT_SCRIPT_KINDS ||
+    PYTHON_EXTENSIONS.has(extension) ||
+    extension in BRACE_LANGUAGES
+  );
+}
+
+/**
+ * Declarations in a file, in source order; enclosing declarations come before their members
+ */
+export async function parseCodeSymbols(filePath: string, content: string): Promise<ParsedSymbol[]> {
+  const extension = path.extname(filePath).toLowerCase();
+  const scriptKind = TYPESCRIPT_SCRIPT_KINDS[extension];
+  if (scriptKind) {
+    return parseTypeScript(await loadTypeScript(), filePath, content, scriptKind);
+  }
+  if (PYTHON_EXTENSIONS.has(extension)) {
+    return parsePython(content);
+  }
+  const language = BRACE_LANGUAGES[extension];
+  return language ? parseBraceLanguage(language, content) : [];
+}
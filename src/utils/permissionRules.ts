@@ -0,0 +1,296 @@
+/**
+ * Evaluation of declarative per-worktree permission rules
+ * (see PermissionRule in permission.types.ts for the rule syntax)
+ *
+ * Pure functions only; the SDK service turns the result into a PreToolUse hook decision.
+ */
+
+import type { PermissionRule, PermissionRuleBehavior } from '@/types/permission.types';
+import * as path from 'path';
+
+/**
+ * Tools whose subject is a file path, and the input field holding it
+ */
+const PATH_TOOLS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+};
+
+export interface PermissionRuleMatch {
+  rule: PermissionRule;
+  behavior: PermissionRuleBehavior;
+  /** An allow rule covered only some commands of a compound Bash command, so the user is asked */
+  partial?: boolean;
+}
+
+/**
+ * Convert a glob to a regular expression.
+ * `**` matches across `/`, `*` and `?` do not unless `crossSlash` is set.
+ */
+function globToRegExp(glob: string, crossSlash: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        const slashFollows = glob[i + 2] === '/';
+        source += slashFollows ? '(?:.*/)?' : '.*';
+        i += slashFollows ? 2 : 1;
+      } else {
+        source += crossSlash ? '.*' : '[^/]*';
+      }
+    } else if (char === '?') {
+      source += crossSlash ? '.' : '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Extract the value a rule pattern is matched against, or undefined if the
+ * tool has no subject (rules with a pattern then never match it)
+ */
+export function getRuleSubject(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): string | undefined {
+  const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  if (toolName === 'Bash') {
+    return str(input.command)?.trim();
+  }
+
+  if (toolName === 'WebFetch') {
+    const url = str(input.url);
+    if (!url) return undefined;
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (toolName === 'WebSearch') {
+    return str(input.query);
+  }
+
+  const pathField = PATH_TOOLS[toolName];
+  if (pathField) {
+    // Glob and Grep default to the working directory
+    const filePath = str(input[pathField]) ?? (pathField === 'path' ? cwd : undefined);
+    if (!filePath) return undefined;
+    const relative = path.relative(cwd, path.resolve(cwd, filePath));
+    return (relative || '.').split(path.sep).join('/');
+  }
+
+  return undefined;
+}
+
+/**
+ * Match a single (non-negated) alternative against the subject
+ */
+function matchesAlternative(toolName: string, alternative: string, subject: string): boolean {
+  if (toolName === 'Bash') {
+    if (alternative.endsWith(':*')) {
+      const prefix = alternative.slice(0, -2);
+      return subject === prefix || subject.startsWith(`${prefix} `);
+    }
+    return globToRegExp(alternative, true).test(subject);
+  }
+
+  if (toolName === 'WebFetch') {
+    const host = alternative.startsWith('domain:') ? alternative.slice(7) : alternative;
+    return globToRegExp(host.toLowerCase(), false).test(subject.toLowerCase());
+  }
+
+  if (toolName === 'WebSearch') {
+    return globToRegExp(alternative, true).test(subject);
+  }
+
+  // Paths: `src/` is shorthand for everything under src
+  const glob = alternative.endsWith('/') ? `${alternative}**` : alternative;
+  return globToRegExp(glob.replace(/^\.\//, ''), false).test(subject);
+}
+
+/**
+ * Whether a rule applies to a tool call
+ */
+export function ruleMatches(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): boolean {
+  if (!globToRegExp(rule.tool.trim(), true).test(toolName)) {
+    return false;
+  }
+
+  const pattern = rule.pattern?.trim();
+  if (!pattern) {
+    return true;
+  }
+
+  const subject = getRuleSubject(toolName, input, cwd);
+  if (subject === undefined) {
+    return false;
+  }
+
+  const negated = pattern.startsWith('!');
+  const alternatives = (negated ? pattern.slice(1) : pattern)
+    .split(',')
+    .map((alternative) => alternative.trim())
+    .filter(Boolean);
+  const matched = alternatives.some((alternative) =>
+    matchesAlternative(toolName, alternative, subject)
+  );
+
+  return negated ? !matched : matched;
+}
+
+/**
+ * Split a shell command into the commands it runs: the parts joined by `&&`, `||`, `;`,
+ * `|`, `&` or newlines, and the contents of `$(…)`, backtick and `<(…)` substitutions.
+ * Quotes are respected; a command keeps its substitutions in its own text.
+ */
+export function splitBashCommand(command: string): string[] {
+  const commands: string[] = [];
+
+  // Scan until `closer` (or the end) and return the index after it
+  const scan = (start: number, closer: ')' | '`' | null): number => {
+    let current = '';
+    let quote: "'" | '"' | null = null;
+    const flush = () => {
+      if (current.trim()) commands.push(current.trim());
+      current = '';
+    };
+
+    let i = start;
+    while (i < command.length) {
+      const char = command[i];
+
+      if (quote === "'") {
+        current += char;
+        if (char === "'") quote = null;
+        i++;
+      } else if (char === '\\') {
+        current += command.slice(i, i + 2);
+        i += 2;
+      } else if (char === '`') {
+        if (closer === '`') {
+          flush();
+          return i + 1;
+        }
+        const end = scan(i + 1, '`');
+        current += command.slice(i, end);
+        i = end;
+      } else if (
+        char === '(' &&
+        (command[i - 1] === '$' || (!quote && /[<>]/.test(command[i - 1])))
+      ) {
+        const end = scan(i + 1, ')');
+        current += command.slice(i, end);
+        i = end;
+      } else if (quote === '"') {
+        current += char;
+        if (char === '"') quote = null;
+        i++;
+      } else if (char === "'" || char === '"') {
+        current += char;
+        quote = char;
+        i++;
+      } else if (char === ')' && closer === ')') {
+        flush();
+        return i + 1;
+      } else if (
+        /[;|\n()]/.test(char) ||
+        // `&` is an operator unless it is part of a redirection like `2>&1` or `&>file`
+        (char === '&' && !/[<>]/.test(command[i - 1]) && command[i + 1] !== '>')
+      ) {
+        flush();
+        i++;
+      } else {
+        current += char;
+        i++;
+      }
+    }
+
+    flush();
+    return i;
+  };
+
+  scan(0, null);
+  return commands;
+}
+
+/**
+ * Find the first rule matching a tool call
+ */
+function findFirstMatch(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): PermissionRuleMatch | null {
+  for (const rule of rules) {
+    if (ruleMatches(rule, toolName, input, cwd)) {
+      return { rule, behavior: rule.behavior };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the rule that decides a tool call.
+ *
+ * A Bash command is checked one command at a time, so `npm test:*` does not allow
+ * `npm test && rm -rf ~`: a deny for any command wins, then an ask, and the call is
+ * only allowed when an allow rule matches every command. When allow rules cover
+ * just some of them the user is asked.
+ */
+export function evaluatePermissionRules(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): PermissionRuleMatch | null {
+  const commands =
+    toolName === 'Bash' && typeof input.command === 'string' ? splitBashCommand(input.command) : [];
+  if (commands.length === 0) {
+    return findFirstMatch(rules, toolName, input, cwd);
+  }
+
+  const matches = commands.map((command) =>
+    findFirstMatch(rules, toolName, { ...input, command }, cwd)
+  );
+  const decisive =
+    matches.find((match) => match?.behavior === 'deny') ??
+    matches.find((match) => match?.behavior === 'ask');
+  if (decisive) {
+    return decisive;
+  }
+
+  const allowed = matches.filter((match): match is PermissionRuleMatch => match !== null);
+  if (allowed.length === 0) {
+    return null;
+  }
+  return allowed.length === matches.length
+    ? allowed[0]
+    : { rule: allowed[0].rule, behavior: 'ask', partial: true };
+}
+
+/**
+ * Human-readable form of a rule, e.g. `deny Write(!src/**)`
+ */
+export function formatPermissionRule(rule: PermissionRule): string {
+  const pattern = rule.pattern?.trim();
+  return `${rule.behavior} ${rule.tool}${pattern ? `(${pattern})` : ''}`;
+}
@@ -6,11 +6,20 @@
  * Overlay rules: user > project > global
  */
 
+import { execFile } from 'child_process';
 import { existsSync } from 'fs';
 import * as fs from 'fs/promises';
 import log from 'electron-log';
 import * as os from 'os';
 import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Fields that decide what an MCP server runs or connects to
+ */
+const MCP_LAUNCH_FIELDS = ['command', 'url', 'args'] as const;
 
 export interface ScopedConfigOptions {
   /**
@@ -23,6 +32,30 @@ export interface ScopedConfigOptions {
   debug?: boolean;
 }
 
+/**
+ * Merged MCP configuration
+ */
+export interface ScopedMcpConfig {
+  mcpServers?: Record<string, any>;
+  /**
+   * Servers whose command, url and args all come from configs the user owns rather than
+   * from the repository
+   */
+  userOwnedServers: string[];
+}
+
+/**
+ * A config file loaded from one scope
+ */
+interface ScopedConfigFile<T> {
+  config: T | null;
+  /**
+   * Whether the file belongs to the user: the global config, or a .claude.local config
+   * git reports as ignored and untracked. Anything else may come from the repository.
+   */
+  userOwned: boolean;
+}
+
 /**
  * Deep merge two objects
  * Later object takes precedence for conflicts
@@ -74,22 +107,26 @@ async function loadJsonFile<T = any>(filePath: string): Promise<T | null> {
 }
 
 /**
- * Get scoped configuration data by merging global, project, and user configs
- *
- * @param filename - Configuration filename (e.g., '.mcp.json', 'settings.json')
- * @param options - Configuration options
- * @returns Merged configuration object
- *
- * @example
- * ```ts
- * const config = await getScopedData('.mcp.json', { cwd: '/path/to/project' });
- * const mcpServers = config.mcpServers || {};
- * ```
+ * Check whether git reports a file as ignored and untracked in the repository at cwd
+ * Errors, including a cwd outside any repository, count as not ignored
  */
-export async function getScopedData<T extends Record<string, any> = Record<string, any>>(
+async function isIgnoredByGit(cwd: string, filePath: string): Promise<boolean> {
+  try {
+    // check-ignore never reports tracked files, so a committed file fails here
+    await execFileAsync('git', ['check-ignore', '-q', '--', filePath], { cwd });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the config file of each scope, in merge order: global -> project -> root -> user
+ */
+async function loadScopedConfigs<T extends Record<string, any>>(
   filename: string,
-  options: ScopedConfigOptions = {}
-): Promise<T> {
+  options: ScopedConfigOptions
+): Promise<ScopedConfigFile<T>[]> {
   const { cwd = process.cwd(), debug = false } = options;
   const homedir = os.homedir();
 
@@ -120,37 +157,43 @@ export async function getScopedData<T extends Record<string, any> = Record<strin
     loadJsonFile<T>(userPath),
   ]);
 
+  // .claude.local lives in the worktree, so a repository can commit one
+  const userConfigOwned = userConfig ? await isIgnoredByGit(cwd, userPath) : false;
+
   if (debug) {
     log.debug('[ScopedConfig] Loaded configs:', {
       hasGlobal: !!globalConfig,
       hasProject: !!projectConfig,
       hasRoot: !!rootConfig,
       hasUser: !!userConfig,
+      userConfigOwned,
     });
   }
 
-  // Merge in order: global -> project -> root -> user (user has highest precedence)
-  let merged = {} as T;
-
-  if (globalConfig) {
-    merged = deepMerge(merged, globalConfig);
-    if (debug) log.debug('[ScopedConfig] After global merge:', merged);
-  }
-
-  if (projectConfig) {
-    merged = deepMerge(merged, projectConfig);
-    if (debug) log.debug('[ScopedConfig] After project merge:', merged);
-  }
+  return [
+    { config: globalConfig, userOwned: true },
+    { config: projectConfig, userOwned: false },
+    { config: rootConfig, userOwned: false },
+    { config: userConfig, userOwned: userConfigOwned },
+  ];
+}
 
-  if (rootConfig) {
-    merged = deepMerge(merged, rootConfig);
-    if (debug) log.debug('[ScopedConfig] After root merge:', merged);
-  }
+/**
+ * Merge scope configs in order, later scopes taking precedence
+ */
+function mergeScopedConfigs<T extends Record<string, any>>(
+  configs: ScopedConfigFile<T>[],
+  debug: boolean
+): T {
+  const scopeNames = ['global', 'project', 'root', 'user'];
+  let merged = {} as T;
 
-  if (userConfig) {
-    merged = deepMerge(merged, userConfig);
-    if (debug) log.debug('[ScopedConfig] After user merge:', merged);
-  }
+  configs.forEach(({ config }, index) => {
+    if (config) {
+      merged = deepMerge(merged, config);
+      if (debug) log.debug(`[ScopedConfig] After ${scopeNames[index]} merge:`, merged);
+    }
+  });
 
   if (debug) {
     log.debug('[ScopedConfig] Final merged config:', merged);
@@ -159,12 +202,53 @@ export async function getScopedData<T extends Record<string, any> = Record<strin
   return merged;
 }
 
+/**
+ * Get scoped configuration data by merging global, project, and user configs
+ *
+ * @param filename - Configuration filename (e.g., '.mcp.json', 'settings.json')
+ * @param options - Configuration options
+ * @returns Merged configuration object
+ *
+ * @example
+ * ```ts
+ * const config = await getScopedData('.mcp.json', { cwd: '/path/to/project' });
+ * const mcpServers = config.mcpServers || {};
+ * ```
+ */
+export async function getScopedData<T extends Record<string, any> = Record<string, any>>(
+  filename: string,
+  options: ScopedConfigOptions = {}
+): Promise<T> {
+  const configs = await loadScopedConfigs<T>(filename, options);
+  return mergeScopedConfigs(configs, options.debug ?? false);
+}
+
 /**
  * Get scoped MCP server configuration
- * Convenience wrapper around getScopedData for .mcp.json
+ * Merges .mcp.json like getScopedData and reports which servers the user's own configs
+ * define, going by the scope each server's final command, url and args come from
  */
 export async function getScopedMcpConfig(
   options: ScopedConfigOptions = {}
-): Promise<{ mcpServers?: Record<string, any> }> {
-  return getScopedData<{ mcpServers?: Record<string, any> }>('.mcp.json', options);
+): Promise<ScopedMcpConfig> {
+  type McpConfig = { mcpServers?: Record<string, any> };
+  const configs = await loadScopedConfigs<McpConfig>('.mcp.json', options);
+  const merged = mergeScopedConfigs(configs, options.debug ?? false);
+
+  const userOwnedServers = Object.keys(merged.mcpServers ?? {}).filter((name) => {
+    const definitions = configs
+      .filter(({ config }) => config?.mcpServers?.[name])
+      .map(({ config, userOwned }) => ({ server: config!.mcpServers![name], userOwned }));
+
+    // The last scope that sets a field is the one whose value survives the merge
+    return (
+      definitions.some(({ userOwned }) => userOwned) &&
+      MCP_LAUNCH_FIELDS.every((field) => {
+        const source = definitions.filter(({ server }) => server[field] !== undefined).pop();
+        return !source || source.userOwned;
+      })
+    );
+  });
+
+  return { ...merged, userOwnedServers };
 }
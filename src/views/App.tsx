@@ -7,9 +7,11 @@ import { ToastProvider } from '@/features/shared';
 import { UpdateNotification } from '@/features/shared';
 import { AddProjectModal } from '@/features/shared/components/projects/AddProjectModal';
 import { KeyboardShortcutsModal } from '@/features/shared/components/ui/KeyboardShortcutsModal';
+import { UsageMonitor } from '@/features/monitoring/components/UsageMonitor';
 import { ElectronProvider } from '@/commons/contexts/ElectronContext';
 import { ThemeProvider } from '@/commons/contexts/ThemeContext';
 import { LLMService } from '@/renderer/services/LLMService';
+import { setPricingTable } from '@/monitoring/utils/costCalculator';
 import { useUIStore } from '@/stores/ui';
 import { useSlashCommandsStore } from '@/stores';
 import { useSettingsStore } from '@/stores/settings';
@@ -35,6 +37,7 @@ import { VisualTestPage } from './visual-test-page';
 const AppContent: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showLLMSettings, setShowLLMSettings] = useState(false);
+  const [showUsageMonitor, setShowUsageMonitor] = useState(false);
   const [isTestMode, setIsTestMode] = useState(false);
   const [showVisualTest, setShowVisualTest] = useState(false);
   const [showComparisonTool, setShowComparisonTool] = useState(false);
@@ -221,6 +224,16 @@ const AppContent: React.FC = () => {
         await LLMService.initialize();
         logger.info('[APP_INIT] LLM service initialized');
 
+        // Price usage with the same table as the main process (~/.autosteer/pricing.json)
+        try {
+          const pricingTable = await window.electron.ipcRenderer.invoke('config:getPricingTable');
+          if (pricingTable) {
+            setPricingTable(pricingTable);
+          }
+        } catch (error) {
+          logger.warn('[APP_INIT] Failed to load pricing table, using built-in prices:', error);
+        }
+
         // Initialize VIM mode from saved config
         try {
           logger.info('[APP_INIT] Loading VIM mode from config...');
@@ -397,10 +410,12 @@ const AppContent: React.FC = () => {
         <MenuBar />
         <ThreeColumnLayout
           onOpenLLMSettings={() => setShowLLMSettings(true)}
+          onOpenUsageMonitor={() => setShowUsageMonitor(true)}
           onOpenKeyboardShortcuts={() => setShowKeyboardShortcuts(true)}
         />
       </div>
       {showLLMSettings && <AppSettings onClose={() => setShowLLMSettings(false)} />}
+      {showUsageMonitor && <UsageMonitor onClose={() => setShowUsageMonitor(false)} />}
       {showProjectCreation && <AddProjectModal onClose={() => setShowProjectCreation(false)} />}
       <KeyboardShortcutsModal
         isOpen={showKeyboardShortcuts}
@@ -28,3 +28,27 @@ export interface Query {
 export function query(_options: { prompt: string; options: Options }): Query {
   throw new Error('Mock implementation - should not be called in tests');
 }
+
+export interface SdkMcpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  handler: (args: any, extra: unknown) => Promise<any>;
+}
+
+export function tool(
+  name: string,
+  description: string,
+  inputSchema: Record<string, unknown>,
+  handler: (args: any, extra: unknown) => Promise<any>
+): SdkMcpToolDefinition {
+  return { name, description, inputSchema, handler };
+}
+
+export function createSdkMcpServer(options: {
+  name: string;
+  version?: string;
+  tools?: SdkMcpToolDefinition[];
+}) {
+  return { type: 'sdk' as const, name: options.name, instance: { tools: options.tools ?? [] } };
+}
@@ -110,7 +110,7 @@ describe('useChatInputHandler', () => {
         getDraftCursorPosition: mockGetDraftCursorPosition,
         setDraftCursorPosition: mockSetDraftCursorPosition,
         streamingStates: new Map(),
-        cancelAndSend: jest.fn(),
+        enqueueMessage: jest.fn(),
         getSessionPermissionMode: jest.fn(() => null),
         setSessionPermissionMode: jest.fn(),
         loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -160,7 +160,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -196,7 +196,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -427,9 +427,8 @@ describe('useChatInputHandler', () => {
       expect(result.current.message).toBe('');
     });
 
-    it('should use cancelAndSend when query is active', () => {
-      // Setup mock for cancelAndSend
-      const mockCancelAndSend = jest.fn();
+    it('should queue the message when query is active', () => {
+      const mockEnqueueMessage = jest.fn();
 
       (useChatStore as unknown as jest.Mock).mockImplementation((selector) => {
         const store = {
@@ -441,7 +440,7 @@ describe('useChatInputHandler', () => {
           setDraftCursorPosition: mockSetDraftCursorPosition,
           activeChat: mockAgentId,
           streamingStates: new Map([[mockAgentId, true]]), // Active query
-          cancelAndSend: mockCancelAndSend,
+          enqueueMessage: mockEnqueueMessage,
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -465,11 +464,10 @@ describe('useChatInputHandler', () => {
         result.current.handleSubmit();
       });
 
-      // Should call cancelAndSend when query is active, not onSendMessage
-      expect(mockCancelAndSend).toHaveBeenCalledWith(
+      // Should queue for the active chat when query is active, not send or interrupt
+      expect(mockEnqueueMessage).toHaveBeenCalledWith(
+        mockAgentId,
         'Hello',
-        undefined,
-        undefined,
         expect.objectContaining({
           permissionMode: expect.any(String),
           model: expect.any(String),
@@ -989,7 +987,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1017,7 +1015,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1051,7 +1049,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1087,7 +1085,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1121,7 +1119,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1157,7 +1155,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1191,7 +1189,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1227,7 +1225,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
@@ -1262,7 +1260,7 @@ describe('useChatInputHandler', () => {
           getDraftCursorPosition: mockGetDraftCursorPosition,
           setDraftCursorPosition: mockSetDraftCursorPosition,
           streamingStates: new Map(),
-          cancelAndSend: jest.fn(),
+          enqueueMessage: jest.fn(),
           getSessionPermissionMode: jest.fn(() => null),
           setSessionPermissionMode: jest.fn(),
           loadSessionSettings: jest.fn().mockResolvedValue(undefined),
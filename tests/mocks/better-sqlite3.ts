@@ -20,6 +20,47 @@ class MockStatement {
     // Normalize SQL: trim, lowercase, collapse whitespace
     const sql = this.sql.trim().toLowerCase().replace(/\s+/g, ' ');
 
+    if (sql.startsWith('insert into cache_entries')) {
+      // INSERT INTO cache_entries (key, value, expires_at, last_accessed_at, method, url)
+      // VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(key) DO UPDATE ... (keeps pin and hit count)
+      const [key, value, expiresAt, lastAccessedAt, method, url] = params;
+      const existing = this.db.data.get(key);
+      this.db.data.set(key, {
+        value,
+        expires_at: expiresAt,
+        last_accessed_at: lastAccessedAt,
+        created_at: existing?.created_at ?? Date.now(),
+        method: method ?? existing?.method ?? null,
+        url: url ?? existing?.url ?? null,
+        hit_count: existing?.hit_count ?? 0,
+        pinned: existing?.pinned ?? 0,
+      });
+      return { changes: 1 };
+    }
+
+    if (sql.startsWith('insert into cache_stats')) {
+      // INSERT INTO cache_stats (name, value) VALUES (?, ?) ON CONFLICT(name) DO UPDATE ...
+      const [name, value] = params;
+      this.db.stats.set(name, (this.db.stats.get(name) ?? 0) + value);
+      return { changes: 1 };
+    }
+
+    if (sql === 'delete from cache_stats') {
+      this.db.stats.clear();
+      return { changes: 1 };
+    }
+
+    if (sql.startsWith('update cache_entries set pinned')) {
+      // UPDATE cache_entries SET pinned = ? WHERE key = ?
+      const [pinned, key] = params;
+      const row = this.db.data.get(key);
+      if (row) {
+        row.pinned = pinned;
+        return { changes: 1 };
+      }
+      return { changes: 0 };
+    }
+
     if (sql.startsWith('insert or replace')) {
       // INSERT OR REPLACE INTO cache_entries (key, value, expires_at, last_accessed_at) VALUES (?, ?, ?, ?)
       const [key, value, expiresAt, lastAccessedAt] = params;
@@ -43,11 +84,11 @@ class MockStatement {
     }
 
     if (sql.startsWith('delete from cache_entries where expires_at')) {
-      // DELETE FROM cache_entries WHERE expires_at < ?
+      // DELETE FROM cache_entries WHERE expires_at < ? AND pinned = 0
       const [now] = params;
       let deleted = 0;
       for (const [key, row] of this.db.data.entries()) {
-        if (row.expires_at < now) {
+        if (row.expires_at < now && !row.pinned) {
           this.db.data.delete(key);
           deleted++;
         }
@@ -58,7 +99,7 @@ class MockStatement {
     if (sql.includes('delete from cache_entries where key in')) {
       // DELETE FROM cache_entries WHERE key IN (SELECT ... LIMIT ?)
       const [limit] = params;
-      const entries = Array.from(this.db.data.entries());
+      const entries = Array.from(this.db.data.entries()).filter(([, row]) => !row.pinned);
       entries.sort((a, b) => a[1].last_accessed_at - b[1].last_accessed_at);
 
       let deleted = 0;
@@ -81,6 +122,9 @@ class MockStatement {
           lastAccessedAt = row.last_accessed_at + 1;
         }
         row.last_accessed_at = lastAccessedAt;
+        if (sql.includes('hit_count')) {
+          row.hit_count = (row.hit_count ?? 0) + 1;
+        }
         return { changes: 1 };
       }
       return { changes: 0 };
@@ -103,27 +147,98 @@ class MockStatement {
       // SELECT 1 FROM cache_entries WHERE key = ? AND expires_at > ?
       const [key, now] = params;
       const row = this.db.data.get(key);
-      if (row && row.expires_at > now) {
+      if (row && (row.expires_at > now || row.pinned)) {
         return { 1: 1 };
       }
       return undefined;
     }
 
     if (sql.startsWith('select count(*)')) {
-      // SELECT COUNT(*) as count FROM cache_entries
-      return { count: this.db.data.size };
+      // SELECT COUNT(*) as count [, SUM(LENGTH(value)) AS size, SUM(pinned) AS pinned] FROM cache_entries
+      const rows = Array.from(this.db.data.values());
+      return {
+        count: rows.length,
+        size: rows.reduce((total, row) => total + row.value.length, 0),
+        pinned: rows.filter((row) => row.pinned).length,
+      };
     }
 
     return undefined;
   }
+
+  all(...params: any[]): MockRow[] {
+    const sql = this.sql.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    if (sql.startsWith('pragma table_info')) {
+      // Mock tables always have the current schema
+      return ['key', 'value', 'expires_at', 'last_accessed_at', 'created_at']
+        .concat(['method', 'url', 'hit_count', 'pinned'])
+        .map((name) => ({ name }));
+    }
+
+    if (sql.startsWith('select name, value from cache_stats')) {
+      return Array.from(this.db.stats.entries()).map(([name, value]) => ({ name, value }));
+    }
+
+    if (sql.startsWith('select url, count(*)')) {
+      // Top URLs: GROUP BY url ORDER BY hits DESC, entries DESC LIMIT ?
+      const [limit] = params;
+      const byUrl = new Map<string, MockRow>();
+      for (const row of this.db.data.values()) {
+        if (!row.url) continue;
+        const stats = byUrl.get(row.url) ?? { url: row.url, entries: 0, hits: 0, size: 0 };
+        stats.entries++;
+        stats.hits += row.hit_count ?? 0;
+        stats.size += row.value.length;
+        byUrl.set(row.url, stats);
+      }
+      return Array.from(byUrl.values())
+        .sort((a, b) => b.hits - a.hits || b.entries - a.entries)
+        .slice(0, limit);
+    }
+
+    if (sql.startsWith('select key, method, url')) {
+      // Entries matching a URL substring: WHERE ? = '' OR url LIKE ... LIMIT ? OFFSET ?
+      const [search, , limit, offset] = params;
+      return Array.from(this.db.data.entries())
+        .filter(([, row]) => search === '' || (row.url ?? '').includes(search))
+        .sort((a, b) => b[1].last_accessed_at - a[1].last_accessed_at)
+        .slice(offset, offset + limit)
+        .map(([key, row]) => ({
+          key,
+          method: row.method ?? null,
+          url: row.url ?? null,
+          size: row.value.length,
+          created_at: row.created_at,
+          last_accessed_at: row.last_accessed_at,
+          expires_at: row.expires_at,
+          hit_count: row.hit_count ?? 0,
+          pinned: row.pinned ?? 0,
+        }));
+    }
+
+    return [];
+  }
 }
 
 class MockDatabase {
+  // Connections to the same file share its data, like separate processes do
+  private static files: Map<string, { data: Map<string, MockRow>; stats: Map<string, number> }> =
+    new Map();
+
   public data: Map<string, MockRow> = new Map();
+  public stats: Map<string, number> = new Map();
   private pragmas: Map<string, any> = new Map();
+  private path: string;
 
-  constructor(_path: string) {
-    // In-memory implementation, ignore path
+  constructor(path: string) {
+    this.path = path;
+    if (path !== ':memory:') {
+      const file = MockDatabase.files.get(path) ?? { data: this.data, stats: this.stats };
+      MockDatabase.files.set(path, file);
+      this.data = file.data;
+      this.stats = file.stats;
+    }
   }
 
   exec(_sql: string): void {
@@ -143,7 +258,11 @@ class MockDatabase {
   }
 
   close(): void {
+    if (this.path !== ':memory:') {
+      return;
+    }
     this.data.clear();
+    this.stats.clear();
   }
 }
 
@@ -98,6 +98,19 @@ Object.defineProperty(window, 'electron', {
       initialize: jest.fn().mockResolvedValue({ success: true }),
       getActiveSession: jest.fn().mockResolvedValue({ success: true, data: null }),
       onSessionUpdate: jest.fn(),
+      getAnalytics: jest.fn().mockResolvedValue({ success: true, data: null }),
+      exportUsage: jest.fn().mockResolvedValue({ success: true, data: null }),
+      listTraceFiles: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      readTraceFile: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      openTraceFile: jest.fn().mockResolvedValue({ success: true, data: null }),
+      listFetchTraces: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      readFetchTrace: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      exportHar: jest.fn().mockResolvedValue({ success: true, data: null }),
+      getFetchCacheSummary: jest.fn().mockResolvedValue({ success: true, data: null }),
+      listFetchCacheEntries: jest.fn().mockResolvedValue({ success: true, data: [] }),
+      deleteFetchCacheEntry: jest.fn().mockResolvedValue({ success: true, data: true }),
+      pinFetchCacheEntry: jest.fn().mockResolvedValue({ success: true, data: true }),
+      clearFetchCache: jest.fn().mockResolvedValue({ success: true }),
     },
     worktree: {
       getVimMode: jest.fn().mockResolvedValue(false),
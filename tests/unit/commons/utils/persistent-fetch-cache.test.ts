@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the persistent fetch cache inspector operations
+ */
+
+import { PersistentFetchCache } from '@/commons/utils/persistent-fetch-cache';
+
+const MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const MODELS_URL = 'https://api.anthropic.com/v1/models';
+
+describe('PersistentFetchCache', () => {
+  let cache: PersistentFetchCache;
+
+  beforeEach(async () => {
+    cache = new PersistentFetchCache({ maxSize: 10, ttl: 1000, persistenceEnabled: false });
+    await cache.set('messages', { id: 'msg_1' }, { method: 'POST', url: MESSAGES_URL });
+    await cache.set('models', { data: [] }, { method: 'GET', url: MODELS_URL });
+  });
+
+  afterEach(() => {
+    cache.close();
+  });
+
+  describe('listEntries', () => {
+    it('should list entries with their request and size', () => {
+      const entries = cache.listEntries();
+      expect(entries).toHaveLength(2);
+      expect(entries).toContainEqual(
+        expect.objectContaining({
+          key: 'messages',
+          method: 'POST',
+          url: MESSAGES_URL,
+          size: JSON.stringify({ id: 'msg_1' }).length,
+          hitCount: 0,
+          pinned: false,
+        })
+      );
+    });
+
+    it('should filter by URL and page results', () => {
+      expect(cache.listEntries({ search: 'models' }).map((entry) => entry.key)).toEqual(['models']);
+      expect(cache.listEntries({ limit: 1 })).toHaveLength(1);
+      expect(cache.listEntries({ limit: 1, offset: 2 })).toHaveLength(0);
+    });
+
+    it('should leave out request details for entries stored without them', async () => {
+      await cache.set('plain', 'value');
+      const entry = cache.listEntries({ limit: 10 }).find((candidate) => candidate.key === 'plain');
+      expect(entry?.url).toBeUndefined();
+      expect(entry?.method).toBeUndefined();
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should count hits and misses per URL and overall', () => {
+      cache.get('messages');
+      cache.get('messages');
+      cache.get('missing');
+
+      const summary = cache.getSummary();
+      expect(summary.entryCount).toBe(2);
+      expect(summary.hits).toBe(2);
+      expect(summary.misses).toBe(1);
+      expect(summary.hitRate).toBeCloseTo(2 / 3);
+      expect(summary.totalSize).toBeGreaterThan(0);
+      expect(summary.topUrls[0]).toEqual(
+        expect.objectContaining({ url: MESSAGES_URL, hits: 2, entries: 1 })
+      );
+    });
+
+    it('should reset counters when cleared', () => {
+      cache.get('messages');
+      cache.clear();
+
+      const summary = cache.getSummary();
+      expect(summary.entryCount).toBe(0);
+      expect(summary.hits).toBe(0);
+      expect(summary.hitRate).toBe(0);
+      expect(summary.topUrls).toEqual([]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove a single entry', () => {
+      expect(cache.delete('messages')).toBe(true);
+      expect(cache.has('messages')).toBe(false);
+      expect(cache.has('models')).toBe(true);
+      expect(cache.delete('messages')).toBe(false);
+    });
+  });
+
+  describe('setPinned', () => {
+    it('should keep pinned entries past their TTL', async () => {
+      const shortCache = new PersistentFetchCache({ ttl: 1, persistenceEnabled: false });
+      try {
+        await shortCache.set('pinned', 'kept', { method: 'GET', url: MODELS_URL });
+        await shortCache.set('unpinned', 'dropped', { method: 'GET', url: MESSAGES_URL });
+        expect(shortCache.setPinned('pinned', true)).toBe(true);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+
+        expect(shortCache.get('pinned')).toBe('kept');
+        expect(shortCache.has('pinned')).toBe(true);
+        expect(shortCache.get('unpinned')).toBeUndefined();
+        expect(shortCache.getSummary().pinnedCount).toBe(1);
+      } finally {
+        shortCache.close();
+      }
+    });
+
+    it('should never evict pinned entries and keep the pin when refreshed', async () => {
+      const smallCache = new PersistentFetchCache({ maxSize: 1, persistenceEnabled: false });
+      try {
+        await smallCache.set('pinned', 'first');
+        smallCache.setPinned('pinned', true);
+        await smallCache.set('pinned', 'second');
+        await smallCache.set('other', 'value');
+
+        expect(smallCache.get('pinned')).toBe('second');
+        expect(smallCache.listEntries().find((entry) => entry.key === 'pinned')?.pinned).toBe(true);
+      } finally {
+        smallCache.close();
+      }
+    });
+
+    it('should report unknown keys', () => {
+      expect(cache.setPinned('missing', true)).toBe(false);
+    });
+  });
+});
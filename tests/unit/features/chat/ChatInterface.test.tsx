@@ -20,6 +20,12 @@ jest.mock('@/hooks/useMessageMetadata', () => ({
     handleMetadataToggle: jest.fn(),
   })),
 }));
+jest.mock('@/hooks/useMessageBranching', () => ({
+  useMessageBranching: jest.fn(() => ({
+    rewindToMessage: jest.fn(),
+    forkFromMessage: jest.fn(),
+  })),
+}));
 jest.mock('@/hooks/usePermissionHandling', () => ({
   usePermissionHandling: jest.fn(() => ({
     handlePermissionApprove: jest.fn(),
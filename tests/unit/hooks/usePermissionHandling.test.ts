@@ -9,6 +9,7 @@
  * - Permission dialog state management
  * - Permission approval flow with action message creation
  * - Permission rejection flow with action message creation
+ * - Live permission requests answered over IPC
  * - Store state updates
  * - Error handling
  * - Callback stability
@@ -19,6 +20,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { usePermissionHandling } from '@/hooks/usePermissionHandling';
 import { logger } from '@/commons/utils/logger';
+import { claudeCodeService } from '@/renderer/services/ClaudeCodeService';
 import { useChatStore } from '@/stores';
 
 // Mock logger
@@ -31,6 +33,13 @@ jest.mock('@/commons/utils/logger', () => ({
   },
 }));
 
+// Mock Claude Code service (live permission responses)
+jest.mock('@/renderer/services/ClaudeCodeService', () => ({
+  claudeCodeService: {
+    respondToPermission: jest.fn(),
+  },
+}));
+
 // Mock chat store
 jest.mock('@/stores', () => ({
   useChatStore: {
@@ -469,6 +478,121 @@ describe('usePermissionHandling', () => {
     });
   });
 
+  describe('Live Permission Requests', () => {
+    const mockLiveRequest = {
+      tool_name: 'Bash',
+      tool_use_id: 'tool-use-456',
+      file_path: 'npm test',
+      command: 'npm test',
+      message: 'Permission required to bash npm test',
+      request_id: 'request-1',
+      tool_input: { command: 'npm test' },
+    };
+
+    let capturedState: any;
+
+    beforeEach(() => {
+      (claudeCodeService.respondToPermission as jest.Mock).mockResolvedValue(true);
+      (useChatStore.setState as jest.Mock).mockImplementation((updater) => {
+        const state = {
+          messages: new Map([[mockActiveChat, []]]),
+          streamingMessages: new Map([
+            [mockActiveChat, { id: 'stream-1', permissionRequest: mockLiveRequest }],
+          ]),
+        };
+        updater(state);
+        capturedState = state;
+        return state;
+      });
+    });
+
+    const renderLiveHook = () =>
+      renderHook(() =>
+        usePermissionHandling({
+          activeChat: mockActiveChat,
+          currentPermissionRequest: mockLiveRequest,
+          sendMessage: mockSendMessage,
+        })
+      );
+
+    it('should allow once over IPC without re-sending the turn', async () => {
+      const { result } = renderLiveHook();
+
+      await act(async () => {
+        await result.current.handlePermissionApprove();
+      });
+
+      expect(claudeCodeService.respondToPermission).toHaveBeenCalledWith('request-1', {
+        behavior: 'allow',
+        scope: 'once',
+      });
+      expect(mockSendMessage).not.toHaveBeenCalled();
+      expect(capturedState.messages.get(mockActiveChat)[0].permissionAction.type).toBe('accepted');
+      // Streaming continues; only the answered request is cleared
+      expect(capturedState.streamingMessages.get(mockActiveChat)).toEqual({ id: 'stream-1' });
+    });
+
+    it('should allow for the session', async () => {
+      const { result } = renderLiveHook();
+
+      await act(async () => {
+        await result.current.handlePermissionApproveForSession();
+      });
+
+      expect(claudeCodeService.respondToPermission).toHaveBeenCalledWith('request-1', {
+        behavior: 'allow',
+        scope: 'session',
+      });
+    });
+
+    it('should deny with the message for the model', async () => {
+      const { result } = renderLiveHook();
+
+      await act(async () => {
+        result.current.handlePermissionReject('  Use pnpm instead ');
+      });
+
+      expect(claudeCodeService.respondToPermission).toHaveBeenCalledWith('request-1', {
+        behavior: 'deny',
+        message: 'Use pnpm instead',
+      });
+      expect(capturedState.messages.get(mockActiveChat)[0].permissionAction.type).toBe('rejected');
+    });
+
+    it('should only clear the request when it is no longer pending', async () => {
+      (claudeCodeService.respondToPermission as jest.Mock).mockResolvedValue(false);
+      const { result } = renderLiveHook();
+
+      await act(async () => {
+        await result.current.handlePermissionApprove();
+      });
+
+      expect(capturedState.messages.get(mockActiveChat)).toHaveLength(0);
+      expect(capturedState.streamingMessages.get(mockActiveChat)).toEqual({ id: 'stream-1' });
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[usePermissionHandling] Permission request is no longer pending',
+        expect.any(Object)
+      );
+    });
+
+    it('should ignore allow for session on after-the-fact denials', async () => {
+      const { result } = renderHook(() =>
+        usePermissionHandling({
+          activeChat: mockActiveChat,
+          currentPermissionRequest: mockPermissionRequest,
+          sendMessage: mockSendMessage,
+        })
+      );
+
+      await act(async () => {
+        await result.current.handlePermissionApproveForSession();
+      });
+
+      expect(claudeCodeService.respondToPermission).not.toHaveBeenCalled();
+      expect(mockSendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Callback Stability', () => {
     it('should maintain stable callback references', () => {
       const { result, rerender } = renderHook(() =>
@@ -0,0 +1,40 @@
+import { findCheckpointForMessage } from '@/hooks/useTurnCheckpoints';
+
+describe('findCheckpointForMessage', () => {
+  const checkpoints = [
+    {
+      agentId: 'agent-1',
+      id: 'cp-2',
+      prompt: 'second',
+      before: 'b2',
+      startedAt: '2026-01-01T10:10:00.000Z',
+    },
+    {
+      agentId: 'agent-1',
+      id: 'cp-1',
+      prompt: 'first',
+      before: 'b1',
+      after: 'a1',
+      startedAt: '2026-01-01T10:00:00.000Z',
+      endedAt: '2026-01-01T10:05:00.000Z',
+    },
+  ];
+
+  it('should find the turn a message was produced in', () => {
+    expect(findCheckpointForMessage(checkpoints, new Date('2026-01-01T10:02:00.000Z'))?.id).toBe(
+      'cp-1'
+    );
+  });
+
+  it('should treat a turn without an end as still running', () => {
+    expect(findCheckpointForMessage(checkpoints, new Date('2026-01-01T11:00:00.000Z'))?.id).toBe(
+      'cp-2'
+    );
+  });
+
+  it('should return undefined for messages between turns', () => {
+    expect(
+      findCheckpointForMessage(checkpoints, new Date('2026-01-01T10:07:00.000Z'))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,382 @@
+import { ControlApiServer } from '@/main/api/ControlApiServer';
+import { decodeFrame, encodeFrame, OPCODES } from '@/main/api/websocket';
+import http from 'http';
+import net from 'net';
+
+const mockGetWorktrees = jest.fn();
+const mockGetAgentsByProjectId = jest.fn();
+const mockGetAgent = jest.fn();
+const mockReadAppConfig = jest.fn();
+const mockWriteAppConfig = jest.fn();
+const mockRun = jest.fn();
+const mockGetSavedSession = jest.fn();
+const mockAbortQuery = jest.fn();
+const mockEnsureWorktree = jest.fn();
+const mockAddWorktreeAgent = jest.fn();
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({
+      getWorktrees: mockGetWorktrees,
+      getAgentsByProjectId: mockGetAgentsByProjectId,
+      getAgent: mockGetAgent,
+      readAppConfig: mockReadAppConfig,
+      writeAppConfig: mockWriteAppConfig,
+    }),
+  },
+}));
+
+jest.mock('@/services/AgentRunService', () => ({
+  AgentRunService: {
+    getInstance: () => ({ run: mockRun, getSavedSession: mockGetSavedSession }),
+  },
+}));
+
+jest.mock('@/services/ClaudeCodeSDKService', () => ({
+  ClaudeCodeSDKService: {
+    getInstance: () => ({ abortQuery: mockAbortQuery }),
+  },
+}));
+
+jest.mock('@/main/utils/worktreeSetup', () => ({
+  ensureWorktree: (...args: unknown[]) => mockEnsureWorktree(...args),
+  addWorktreeAgent: (...args: unknown[]) => mockAddWorktreeAgent(...args),
+}));
+
+const TOKEN = 'secret-token';
+
+describe('ControlApiServer', () => {
+  const server = ControlApiServer.getInstance();
+  let port: number;
+
+  const request = (
+    method: string,
+    path: string,
+    options: { body?: unknown; token?: string | null; host?: string } = {}
+  ) =>
+    new Promise<{ status: number; body: any }>((resolve, reject) => {
+      const token = options.token === undefined ? TOKEN : options.token;
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          method,
+          path,
+          headers: {
+            Host: options.host ?? `127.0.0.1:${port}`,
+            ...(token && { Authorization: `Bearer ${token}` }),
+            'Content-Type': 'application/json',
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              body: JSON.parse(Buffer.concat(chunks).toString()),
+            })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(options.body === undefined ? undefined : JSON.stringify(options.body));
+    });
+
+  /**
+   * Open a WebSocket to /api/stream and collect the events it receives
+   */
+  const openStream = () =>
+    new Promise<{ events: any[]; send: (data: unknown) => void; close: () => void }>(
+      (resolve, reject) => {
+        const socket = net.connect(port, '127.0.0.1');
+        const events: any[] = [];
+        let buffer = Buffer.alloc(0);
+        let upgraded = false;
+
+        socket.on('data', (chunk) => {
+          buffer = Buffer.concat([buffer, chunk]);
+          if (!upgraded) {
+            const end = buffer.indexOf('\r\n\r\n');
+            if (end === -1) return;
+            if (!buffer.subarray(0, end).toString().startsWith('HTTP/1.1 101')) {
+              reject(new Error(buffer.toString()));
+              return;
+            }
+            upgraded = true;
+            buffer = buffer.subarray(end + 4);
+            resolve({
+              events,
+              send: (data) =>
+                socket.write(
+                  encodeFrame(
+                    OPCODES.TEXT,
+                    Buffer.from(JSON.stringify(data)),
+                    Buffer.from([9, 8, 7, 6])
+                  )
+                ),
+              close: () => socket.destroy(),
+            });
+          }
+          let decoded = decodeFrame(buffer);
+          while (decoded) {
+            buffer = buffer.subarray(decoded.bytes);
+            events.push(JSON.parse(decoded.frame.payload.toString()));
+            decoded = decodeFrame(buffer);
+          }
+        });
+        socket.on('error', reject);
+        socket.write(
+          [
+            `GET /api/stream?token=${TOKEN} HTTP/1.1`,
+            `Host: 127.0.0.1:${port}`,
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+            'Sec-WebSocket-Version: 13',
+            '',
+            '',
+          ].join('\r\n')
+        );
+      }
+    );
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockGetWorktrees.mockResolvedValue([
+      { git_repo: 'https://github.com/acme/app.git', branch_name: 'main', folder_name: 'app-main' },
+      { git_repo: 'https://github.com/acme/app.git', branch_name: 'fix', folder_name: 'app-fix' },
+    ]);
+    mockGetAgent.mockResolvedValue({ id: 'agent-1', project_id: 'app-main' });
+    mockGetSavedSession.mockResolvedValue('claude-session-0');
+    port = await server.listen(0, TOKEN);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('access', () => {
+    it('should reject requests without the token', async () => {
+      const response = await request('GET', '/api/worktrees', { token: null });
+
+      expect(response.status).toBe(401);
+      expect(mockGetWorktrees).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests with a wrong token', async () => {
+      expect((await request('GET', '/api/worktrees', { token: 'guess' })).status).toBe(401);
+    });
+
+    it('should only accept the token as a query parameter on the WebSocket upgrade', async () => {
+      const response = await request('GET', `/api/worktrees?token=${TOKEN}`, { token: null });
+
+      expect(response.status).toBe(401);
+      expect(mockGetWorktrees).not.toHaveBeenCalled();
+    });
+
+    it('should reject other Host headers', async () => {
+      const response = await request('GET', '/api/worktrees', { host: 'evil.example:80' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('routes', () => {
+    it('should list projects with their worktrees', async () => {
+      const response = await request('GET', '/api/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([
+        {
+          githubRepo: 'https://github.com/acme/app.git',
+          worktrees: [
+            expect.objectContaining({ folder_name: 'app-main' }),
+            expect.objectContaining({ folder_name: 'app-fix' }),
+          ],
+        },
+      ]);
+    });
+
+    it('should create worktrees', async () => {
+      mockEnsureWorktree.mockResolvedValue({ folder_name: 'app-feature' });
+
+      const response = await request('POST', '/api/worktrees', {
+        body: { githubRepo: 'https://github.com/acme/app.git', branchName: 'feature' },
+      });
+
+      expect(response.status).toBe(201);
+      expect(mockEnsureWorktree).toHaveBeenCalledWith('https://github.com/acme/app.git', 'feature');
+    });
+
+    it('should create agents in a known worktree only', async () => {
+      mockAddWorktreeAgent.mockResolvedValue({ id: 'agent-2', title: 'Review' });
+
+      const created = await request('POST', '/api/worktrees/app-fix/agents', {
+        body: { title: 'Review' },
+      });
+      const missing = await request('POST', '/api/worktrees/nope/agents', { body: {} });
+
+      expect(created.status).toBe(201);
+      expect(mockAddWorktreeAgent).toHaveBeenCalledWith('app-fix', 'Review');
+      expect(missing.status).toBe(404);
+    });
+
+    it('should answer 404 for unknown routes and 400 for invalid JSON bodies', async () => {
+      expect((await request('GET', '/api/unknown')).status).toBe(404);
+
+      const response = await new Promise<number>((resolve) => {
+        const req = http.request(
+          {
+            host: '127.0.0.1',
+            port,
+            method: 'POST',
+            path: '/api/worktrees',
+            headers: { Authorization: `Bearer ${TOKEN}` },
+          },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode ?? 0);
+          }
+        );
+        req.end('{not json');
+      });
+      expect(response).toBe(400);
+    });
+  });
+
+  describe('queries', () => {
+    it('should run messages and stream them to WebSocket clients', async () => {
+      let finish: () => void = () => undefined;
+      mockRun.mockImplementation(
+        (_options, onMessage) =>
+          new Promise((resolve) => {
+            onMessage({ type: 'assistant', session_id: 'claude-session-0' });
+            finish = () => resolve({ sessionId: 'claude-session-0', durationMs: 50 });
+          })
+      );
+      const stream = await openStream();
+
+      const response = await request('POST', '/api/agents/agent-1/messages', {
+        body: { prompt: 'hello', model: 'claude-haiku-4-5-20251001' },
+      });
+      const { queryId } = response.body;
+
+      expect(response.status).toBe(202);
+      expect(mockRun).toHaveBeenCalledWith(
+        {
+          worktreeId: 'app-main',
+          agentId: 'agent-1',
+          prompt: 'hello',
+          queryId,
+          model: 'claude-haiku-4-5-20251001',
+          resume: 'claude-session-0',
+        },
+        expect.any(Function)
+      );
+
+      // One query per agent at a time
+      const busy = await request('POST', '/api/agents/agent-1/messages', {
+        body: { prompt: 'again' },
+      });
+      expect(busy.status).toBe(409);
+
+      finish();
+      await waitFor(() => stream.events.length >= 3);
+      stream.close();
+
+      expect(stream.events).toEqual([
+        { type: 'query-start', queryId, agentId: 'agent-1', worktreeId: 'app-main' },
+        {
+          type: 'message',
+          queryId,
+          agentId: 'agent-1',
+          message: { type: 'assistant', session_id: 'claude-session-0' },
+        },
+        {
+          type: 'query-complete',
+          queryId,
+          agentId: 'agent-1',
+          durationMs: 50,
+          sessionId: 'claude-session-0',
+        },
+      ]);
+    });
+
+    it('should accept send and abort commands over the WebSocket', async () => {
+      mockRun.mockReturnValue(new Promise(() => undefined));
+      const stream = await openStream();
+
+      stream.send({ type: 'send', requestId: 'r1', agentId: 'agent-1', prompt: 'hello' });
+      await waitFor(() => stream.events.length >= 1);
+      const { queryId } = stream.events[0];
+
+      stream.send({ type: 'abort', queryId });
+      stream.send({ type: 'abort', queryId: 'unknown', requestId: 'r2' });
+      await waitFor(() => stream.events.length >= 2);
+      stream.close();
+
+      expect(stream.events[0]).toMatchObject({ type: 'query-start', requestId: 'r1' });
+      expect(mockAbortQuery).toHaveBeenCalledWith(queryId);
+      expect(stream.events[1]).toEqual({
+        type: 'error',
+        error: 'Query unknown is not running',
+        requestId: 'r2',
+      });
+    });
+
+    it('should reject messages without a prompt or for unknown agents', async () => {
+      mockGetAgent.mockResolvedValueOnce(undefined);
+
+      const unknown = await request('POST', '/api/agents/nope/messages', { body: { prompt: 'x' } });
+      const empty = await request('POST', '/api/agents/agent-1/messages', { body: {} });
+
+      expect(unknown.status).toBe(404);
+      expect(empty.status).toBe(400);
+    });
+  });
+
+  describe('start', () => {
+    beforeEach(async () => {
+      await server.stop();
+    });
+
+    it('should stay off unless enabled in app.json', async () => {
+      mockReadAppConfig.mockResolvedValue({ projectDirectory: '/data' });
+      const listen = jest.spyOn(server, 'listen');
+
+      await server.start();
+
+      expect(listen).not.toHaveBeenCalled();
+      listen.mockRestore();
+    });
+
+    it('should generate and save a token on first start', async () => {
+      mockReadAppConfig.mockResolvedValue({ projectDirectory: '/data', api: { enabled: true } });
+      const listen = jest.spyOn(server, 'listen').mockResolvedValue(7862);
+
+      await server.start();
+
+      const written = mockWriteAppConfig.mock.calls[0][0];
+      expect(written).toEqual({
+        projectDirectory: '/data',
+        api: { enabled: true, token: expect.stringMatching(/^[0-9a-f]{64}$/) },
+      });
+      expect(listen).toHaveBeenCalledWith(7862, written.api.token);
+      listen.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { decodeFrame, encodeFrame, OPCODES, WebSocketConnection } from '@/main/api/websocket';
+import { PassThrough } from 'stream';
+
+const MASK = Buffer.from([1, 2, 3, 4]);
+
+describe('websocket frames', () => {
+  it.each([5, 300, 70000])('should round-trip a %i byte masked frame', (size) => {
+    const payload = Buffer.alloc(size, 'a');
+
+    const decoded = decodeFrame(encodeFrame(OPCODES.TEXT, payload, MASK));
+
+    expect(decoded?.bytes).toBe(encodeFrame(OPCODES.TEXT, payload, MASK).length);
+    expect(decoded?.frame).toMatchObject({ fin: true, opcode: OPCODES.TEXT, masked: true });
+    expect(decoded?.frame.payload.equals(payload)).toBe(true);
+  });
+
+  it('should wait for the rest of a partial frame', () => {
+    const frame = encodeFrame(OPCODES.TEXT, Buffer.from('hello'), MASK);
+
+    expect(decodeFrame(frame.subarray(0, frame.length - 1))).toBeNull();
+  });
+
+  it('should reject frames over the size limit', () => {
+    const header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(64 * 1024 * 1024), 2);
+
+    expect(() => decodeFrame(header)).toThrow('WebSocket frame too large');
+  });
+});
+
+describe('WebSocketConnection', () => {
+  const setup = () => {
+    const socket = new PassThrough();
+    const written: Buffer[] = [];
+    socket.write = ((chunk: Buffer) => {
+      written.push(chunk);
+      return true;
+    }) as typeof socket.write;
+    socket.end = ((chunk?: Buffer) => {
+      if (chunk) written.push(chunk);
+      return socket;
+    }) as typeof socket.end;
+    const connection = new WebSocketConnection(socket);
+    const receive = (frame: Buffer) => socket.emit('data', frame);
+    return { connection, receive, written };
+  };
+
+  it('should emit text messages, joining fragments', () => {
+    const { connection, receive } = setup();
+    const messages: string[] = [];
+    connection.on('message', (text: string) => messages.push(text));
+
+    const first = encodeFrame(OPCODES.TEXT, Buffer.from('hel'), MASK);
+    first[0] &= 0x7f; // clear FIN
+    receive(first);
+    receive(encodeFrame(OPCODES.CONTINUATION, Buffer.from('lo'), MASK));
+
+    expect(messages).toEqual(['hello']);
+  });
+
+  it('should answer pings with pongs', () => {
+    const { receive, written } = setup();
+
+    receive(encodeFrame(OPCODES.PING, Buffer.from('hi'), MASK));
+
+    expect(decodeFrame(written[0])?.frame).toMatchObject({
+      opcode: OPCODES.PONG,
+      payload: Buffer.from('hi'),
+    });
+  });
+
+  it('should close on unmasked client frames', () => {
+    const { connection, receive, written } = setup();
+    const onClose = jest.fn();
+    connection.on('close', onClose);
+
+    receive(encodeFrame(OPCODES.TEXT, Buffer.from('hello')));
+
+    expect(onClose).toHaveBeenCalledWith(1002);
+    expect(decodeFrame(written[0])?.frame.opcode).toBe(OPCODES.CLOSE);
+  });
+});
@@ -0,0 +1,105 @@
+import { CliUsageError, isCliCommand, parseCliArgs } from '@/main/cli/parseCliArgs';
+
+describe('parseCliArgs', () => {
+  const required = ['--project', 'autosteer', '--worktree', 'fix-bug'];
+
+  it('should start the GUI when the first argument is not a command', () => {
+    expect(isCliCommand([])).toBe(false);
+    expect(isCliCommand(['--debug'])).toBe(false);
+    expect(parseCliArgs(['--debug'])).toBeNull();
+  });
+
+  it('should parse a run command', () => {
+    const command = parseCliArgs([
+      'run',
+      ...required,
+      '--prompt-file',
+      'task.md',
+      '--model',
+      'claude-haiku-4-5-20251001',
+      '--permission-mode',
+      'bypassPermissions',
+      '--max-turns',
+      '20',
+    ]);
+
+    expect(command).toEqual({
+      name: 'run',
+      options: {
+        project: 'autosteer',
+        worktree: 'fix-bug',
+        promptFile: 'task.md',
+        model: 'claude-haiku-4-5-20251001',
+        permissionMode: 'bypassPermissions',
+        maxTurns: 20,
+      },
+    });
+  });
+
+  it('should accept --flag=value', () => {
+    const command = parseCliArgs([
+      'run',
+      ...required,
+      '--prompt=--explain the flags',
+      '--agent=a1',
+    ]);
+
+    expect(command).toEqual({
+      name: 'run',
+      options: {
+        project: 'autosteer',
+        worktree: 'fix-bug',
+        prompt: '--explain the flags',
+        agent: 'a1',
+      },
+    });
+  });
+
+  it('should parse the cassette to record or replay', () => {
+    expect(parseCliArgs(['run', ...required, '--prompt', 'p', '--record', 'bug-123'])).toEqual({
+      name: 'run',
+      options: expect.objectContaining({ record: 'bug-123' }),
+    });
+    expect(parseCliArgs(['run', ...required, '--prompt', 'p', '--replay=bug-123'])).toEqual({
+      name: 'run',
+      options: expect.objectContaining({ replay: 'bug-123' }),
+    });
+  });
+
+  it('should return help for -h and --help', () => {
+    expect(parseCliArgs(['run', '-h'])).toEqual({ name: 'help' });
+    expect(parseCliArgs(['run', ...required, '--help'])).toEqual({ name: 'help' });
+  });
+
+  it.each([
+    [['run', '--worktree', 'x', '--prompt', 'p'], 'Missing required option --project'],
+    [['run', '--project', 'x', '--prompt', 'p'], 'Missing required option --worktree'],
+    [['run', ...required], 'Either --prompt or --prompt-file is required'],
+    [
+      ['run', ...required, '--prompt', 'p', '--prompt-file', 'task.md'],
+      'Use either --prompt or --prompt-file, not both',
+    ],
+    [['run', ...required, '--prompt', 'p', '--verbose'], 'Unknown option: --verbose'],
+    [['run', ...required, '--prompt'], 'Missing value for --prompt'],
+    [['run', '--project', '--worktree', 'x'], 'Missing value for --project'],
+    [['run', ...required, '--prompt', 'p', '--model', 'gpt-4'], 'Unknown model: gpt-4'],
+    [
+      ['run', ...required, '--prompt', 'p', '--permission-mode', 'yolo'],
+      'Unknown permission mode: yolo',
+    ],
+    [
+      ['run', ...required, '--prompt', 'p', '--max-turns', '0'],
+      '--max-turns must be a positive integer',
+    ],
+    [
+      ['run', ...required, '--prompt', 'p', '--record', 'a', '--replay', 'a'],
+      'Use either --record or --replay, not both',
+    ],
+    [
+      ['run', ...required, '--prompt', 'p', '--replay', '../secrets'],
+      'Invalid cassette name: ../secrets (use letters, digits, ".", "-" and "_")',
+    ],
+  ])('should reject %j', (args, message) => {
+    expect(() => parseCliArgs(args)).toThrow(new CliUsageError(message));
+  });
+});
@@ -0,0 +1,223 @@
+import { CLI_EXIT_CODES, runCli } from '@/main/cli/runCommand';
+import { PassThrough } from 'stream';
+
+const mockRun = jest.fn();
+const mockGetWorktrees = jest.fn();
+const mockWorktreeExists = jest.fn();
+const mockAddWorktree = jest.fn();
+const mockGetAgentsByProjectId = jest.fn();
+const mockAddAgent = jest.fn();
+const mockCreateWorktree = jest.fn();
+const mockGetSavedSession = jest.fn();
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('@/services/AgentRunService', () => ({
+  AgentRunService: {
+    getInstance: () => ({ run: mockRun, getSavedSession: mockGetSavedSession }),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => {
+  const store = {
+    ensureDirectories: jest.fn(),
+    getWorktrees: (...args: unknown[]) => mockGetWorktrees(...args),
+    worktreeExists: (...args: unknown[]) => mockWorktreeExists(...args),
+    addWorktree: (...args: unknown[]) => mockAddWorktree(...args),
+    getAgentsByProjectId: (...args: unknown[]) => mockGetAgentsByProjectId(...args),
+    addAgent: (...args: unknown[]) => mockAddAgent(...args),
+    getWorktreePath: (folderName: string) => `/worktrees/${folderName}`,
+    getMainRepoPath: () => '/repos/app',
+  };
+  return {
+    FileDataStoreService: {
+      initialize: async () => store,
+      getInstance: () => store,
+    },
+  };
+});
+
+jest.mock('@/services/GitService', () => ({
+  GitService: {
+    getInstance: () => ({
+      createWorktree: mockCreateWorktree,
+      isValidGitUrl: (url: string) => url.startsWith('https://'),
+    }),
+  },
+}));
+
+const createIO = () => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const read = (stream: PassThrough) => () => (stream.read() as Buffer | null)?.toString() ?? '';
+  return {
+    io: { stdin: new PassThrough(), stdout, stderr },
+    readStdout: read(stdout),
+    readStderr: read(stderr),
+  };
+};
+
+const parseLines = (output: string) =>
+  output
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+
+describe('runCli', () => {
+  const repo = 'https://github.com/acme/app.git';
+  const run = ['run', '--project', 'app', '--worktree', 'fix-bug', '--prompt', 'fix the bug'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetWorktrees.mockResolvedValue([
+      { git_repo: repo, branch_name: 'main', folder_name: 'app-main' },
+    ]);
+    mockWorktreeExists.mockResolvedValue(false);
+    mockGetAgentsByProjectId.mockResolvedValue([]);
+    mockCreateWorktree.mockResolvedValue({ success: true, message: 'created' });
+    mockRun.mockImplementation(async (_options, onMessage) => {
+      onMessage({ type: 'system', subtype: 'init', session_id: 'claude-session-1' });
+      onMessage({ type: 'result', subtype: 'success' });
+      return { sessionId: 'claude-session-1', durationMs: 1200 };
+    });
+  });
+
+  it('should create the worktree and agent, then stream the run as JSON lines', async () => {
+    const { io, readStdout } = createIO();
+
+    const exitCode = await runCli(run, io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(mockCreateWorktree).toHaveBeenCalledWith({
+      repoUrl: repo,
+      mainRepoPath: '/repos/app',
+      worktreePath: '/worktrees/app-fix-bug',
+      branchName: 'fix-bug',
+    });
+    expect(mockAddWorktree).toHaveBeenCalledWith({
+      git_repo: repo,
+      branch_name: 'fix-bug',
+      folder_name: 'app-fix-bug',
+    });
+    const agent = mockAddAgent.mock.calls[0][0];
+    expect(agent.project_id).toBe('app-fix-bug');
+    expect(mockRun).toHaveBeenCalledWith(
+      { worktreeId: 'app-fix-bug', agentId: agent.id, prompt: 'fix the bug' },
+      expect.any(Function)
+    );
+
+    const lines = parseLines(readStdout());
+    expect(lines[0]).toMatchObject({
+      type: 'autosteer',
+      subtype: 'start',
+      worktree_id: 'app-fix-bug',
+      agent_id: agent.id,
+      cwd: '/worktrees/app-fix-bug',
+    });
+    expect(lines[1]).toEqual({ type: 'system', subtype: 'init', session_id: 'claude-session-1' });
+    expect(lines[lines.length - 1]).toEqual({
+      type: 'autosteer',
+      subtype: 'exit',
+      exit_code: 0,
+      duration_ms: 1200,
+      session_id: 'claude-session-1',
+    });
+  });
+
+  it('should continue an existing agent in an existing worktree', async () => {
+    mockGetWorktrees.mockResolvedValue([
+      { git_repo: repo, branch_name: 'fix-bug', folder_name: 'app-fix-bug' },
+    ]);
+    mockWorktreeExists.mockResolvedValue(true);
+    mockGetAgentsByProjectId.mockResolvedValue([{ id: 'agent-1', title: 'Brave Otter' }]);
+    mockGetSavedSession.mockResolvedValue('claude-session-0');
+    const { io } = createIO();
+
+    await runCli([...run, '--agent', 'Brave Otter', '--model', 'claude-haiku-4-5-20251001'], io);
+
+    expect(mockCreateWorktree).not.toHaveBeenCalled();
+    expect(mockAddAgent).not.toHaveBeenCalled();
+    expect(mockRun).toHaveBeenCalledWith(
+      {
+        worktreeId: 'app-fix-bug',
+        agentId: 'agent-1',
+        prompt: 'fix the bug',
+        model: 'claude-haiku-4-5-20251001',
+        resume: 'claude-session-0',
+      },
+      expect.any(Function)
+    );
+  });
+
+  it('should exit with 1 when the agent run fails', async () => {
+    mockRun.mockResolvedValue({ error: 'Agent run ended with error_max_turns', durationMs: 10 });
+    const { io, readStdout } = createIO();
+
+    const exitCode = await runCli(run, io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.AGENT_FAILED);
+    const lines = parseLines(readStdout());
+    expect(lines[lines.length - 1]).toMatchObject({
+      exit_code: 1,
+      error: 'Agent run ended with error_max_turns',
+    });
+  });
+
+  it('should exit with 2 and print the usage for invalid arguments', async () => {
+    const { io, readStderr } = createIO();
+
+    const exitCode = await runCli(['run', '--project', 'app'], io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.USAGE);
+    expect(readStderr()).toContain('Missing required option --worktree');
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+
+  it('should exit with 2 when the cassette to replay does not exist', async () => {
+    const { io, readStderr } = createIO();
+
+    const exitCode = await runCli([...run, '--replay', 'never-recorded-cassette'], io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.USAGE);
+    expect(readStderr()).toContain('No cassette named never-recorded-cassette');
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+
+  it('should exit with 3 when the project is unknown', async () => {
+    const { io, readStderr } = createIO();
+
+    const exitCode = await runCli([...run.slice(0, 2), 'other', ...run.slice(3)], io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.SETUP_FAILED);
+    expect(readStderr()).toContain('No project named "other"');
+  });
+
+  it('should exit with 3 when the worktree cannot be created', async () => {
+    mockCreateWorktree.mockResolvedValue({
+      success: false,
+      message: 'Failed',
+      error: 'remote not found',
+    });
+    const { io, readStderr } = createIO();
+
+    const exitCode = await runCli(run, io);
+
+    expect(exitCode).toBe(CLI_EXIT_CODES.SETUP_FAILED);
+    expect(readStderr()).toContain('Failed to create worktree: remote not found');
+    expect(mockAddWorktree).not.toHaveBeenCalled();
+  });
+
+  it('should read the prompt from stdin', async () => {
+    const { io } = createIO();
+    io.stdin.end('  task from stdin\n');
+
+    await runCli([...run.slice(0, 5), '--prompt-file', '-'], io);
+
+    expect(mockRun.mock.calls[0][0].prompt).toBe('task from stdin');
+  });
+});
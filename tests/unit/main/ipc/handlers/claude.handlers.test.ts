@@ -4,6 +4,7 @@ import { IPC_CHANNELS } from '@/types/ipc.types';
 import { FileDataStoreService } from '@/services/FileDataStoreService';
 import { SessionManifestService } from '@/services/SessionManifestService';
 import { McpAuthService } from '@/services/McpAuthService';
+import { GitService } from '@/services/GitService';
 import { AgentStatus, AgentType } from '@/entities';
 
 jest.mock('electron', () => ({
@@ -18,6 +19,7 @@ jest.mock('electron', () => ({
 jest.mock('@/services/FileDataStoreService');
 jest.mock('@/services/SessionManifestService');
 jest.mock('@/services/McpAuthService');
+jest.mock('@/services/GitService');
 jest.mock('electron-log', () => ({
   info: jest.fn(),
   error: jest.fn(),
@@ -51,6 +53,12 @@ describe('ClaudeHandlers', () => {
       deleteAgentSessions: jest.fn(),
       updateAdditionalDirectories: jest.fn(),
       getAdditionalDirectories: jest.fn(),
+      getPendingBranch: jest.fn(),
+      setPendingBranch: jest.fn(),
+      recordLineage: jest.fn(),
+      getLineage: jest.fn(),
+      getCheckpoints: jest.fn(),
+      updateCheckpoint: jest.fn(),
     } as any;
 
     mockMcpAuthService = {
@@ -355,6 +363,233 @@ describe('ClaudeHandlers', () => {
       });
     });
 
+    describe('agents:branchSession', () => {
+      const sessionEntries = [
+        {
+          type: 'user',
+          uuid: 'u1',
+          timestamp: '2026-01-01T10:00:00.000Z',
+          message: { role: 'user', content: 'first' },
+        },
+        { type: 'assistant', uuid: 'a1', message: { role: 'assistant', content: [] } },
+        {
+          type: 'user',
+          uuid: 'u2',
+          timestamp: '2026-01-01T10:05:00.000Z',
+          message: { role: 'user', content: 'second' },
+        },
+        { type: 'assistant', uuid: 'a2', message: { role: 'assistant', content: [] } },
+      ];
+
+      const branch = async (request: Record<string, unknown>) => {
+        handler.registerHandlers();
+        const handleCall = (ipcMain.handle as jest.Mock).mock.calls.find(
+          (call) => call[0] === IPC_CHANNELS.AGENTS_BRANCH_SESSION
+        );
+        return handleCall[1]({}, request);
+      };
+
+      beforeEach(() => {
+        mockFileDataStore.getAgent.mockResolvedValue({ id: 'agent-1', project_id: 'wt-1' } as any);
+        mockSessionManifest.getPendingBranch.mockResolvedValue(undefined);
+        mockSessionManifest.getAgentSession.mockResolvedValue('session-1');
+        jest.spyOn(handler as any, 'readSessionEntries').mockResolvedValue(sessionEntries);
+      });
+
+      it('should rewind the same agent to before the message', async () => {
+        const result = await branch({
+          sourceAgentId: 'agent-1',
+          targetAgentId: 'agent-1',
+          messageId: 'u2',
+        });
+
+        expect(result).toEqual({ success: true });
+        expect(mockSessionManifest.setPendingBranch).toHaveBeenCalledWith(
+          'wt-1',
+          'agent-1',
+          expect.objectContaining({
+            sourceSessionId: 'session-1',
+            cutAtMessageId: 'u2',
+            resumeAt: 'a1',
+          })
+        );
+        expect(mockSessionManifest.recordLineage).not.toHaveBeenCalled();
+      });
+
+      it('should fork into another agent and record its lineage', async () => {
+        await branch({
+          sourceAgentId: 'agent-1',
+          targetAgentId: 'agent-2',
+          messageId: 'live-id',
+          content: 'second',
+          ordinal: 0,
+        });
+
+        expect(mockSessionManifest.setPendingBranch).toHaveBeenCalledWith(
+          'wt-1',
+          'agent-2',
+          expect.objectContaining({ cutAtMessageId: 'u2', resumeAt: 'a1' })
+        );
+        expect(mockSessionManifest.recordLineage).toHaveBeenCalledWith(
+          'wt-1',
+          'agent-2',
+          expect.objectContaining({
+            parentAgentId: 'agent-1',
+            parentSessionId: 'session-1',
+            forkedAtMessageId: 'u2',
+          })
+        );
+      });
+
+      it('should fail when the message is not in the session', async () => {
+        const result = await branch({
+          sourceAgentId: 'agent-1',
+          targetAgentId: 'agent-1',
+          messageId: 'missing',
+        });
+
+        expect(result).toEqual({ success: false, error: 'Message not found in session history' });
+        expect(mockSessionManifest.setPendingBranch).not.toHaveBeenCalled();
+      });
+
+      it("should restore files to the checkpoint taken before the message's turn", async () => {
+        const restoreCheckpoint = jest
+          .fn()
+          .mockResolvedValue({ success: true, message: 'Restored files to abc1234' });
+        (GitService.getInstance as jest.Mock).mockReturnValue({ restoreCheckpoint });
+        mockSessionManifest.getLineage.mockResolvedValue(undefined);
+        mockSessionManifest.getCheckpoints.mockResolvedValue({
+          'agent-1': [
+            {
+              id: 'cp-1',
+              prompt: 'first',
+              before: 'abc1234',
+              startedAt: '2026-01-01T09:59:59.000Z',
+            },
+            {
+              id: 'cp-2',
+              prompt: 'second',
+              before: 'def5678',
+              startedAt: '2026-01-01T10:04:59.000Z',
+            },
+          ],
+          'agent-2': [
+            {
+              id: 'cp-3',
+              prompt: 'other',
+              before: 'fff0000',
+              startedAt: '2026-01-01T09:59:59.500Z',
+            },
+          ],
+        });
+
+        const result = await branch({
+          sourceAgentId: 'agent-1',
+          targetAgentId: 'agent-1',
+          messageId: 'u1',
+          restoreFiles: true,
+        });
+
+        expect(restoreCheckpoint).toHaveBeenCalledWith(expect.stringContaining('wt-1'), 'abc1234');
+        expect(result).toEqual({ success: true, restoreMessage: 'Restored files to abc1234' });
+      });
+    });
+
+    describe('turn checkpoints', () => {
+      const invoke = async (channel: string, ...args: unknown[]) => {
+        handler.registerHandlers();
+        const handleCall = (ipcMain.handle as jest.Mock).mock.calls.find(
+          (call) => call[0] === channel
+        );
+        return handleCall[1]({}, ...args);
+      };
+
+      const finished = {
+        id: 'cp-1',
+        prompt: 'fix the bug',
+        before: 'before1',
+        after: 'after1',
+        files: ['src/a.ts'],
+        startedAt: '2026-01-01T10:00:00.000Z',
+        endedAt: '2026-01-01T10:01:00.000Z',
+      };
+
+      beforeEach(() => {
+        mockSessionManifest.getCheckpoints.mockResolvedValue({
+          'agent-1': [finished],
+          'agent-2': [{ ...finished, id: 'cp-2', startedAt: '2026-01-01T11:00:00.000Z' }],
+        });
+      });
+
+      it('should list checkpoints for all agents, newest first', async () => {
+        const result = await invoke(IPC_CHANNELS.AGENTS_LIST_CHECKPOINTS, 'wt-1');
+
+        expect(result.map((c: { id: string; agentId: string }) => [c.agentId, c.id])).toEqual([
+          ['agent-2', 'cp-2'],
+          ['agent-1', 'cp-1'],
+        ]);
+      });
+
+      it('should revert the turn and mark it undone', async () => {
+        const revertCheckpointRange = jest
+          .fn()
+          .mockResolvedValue({ success: true, message: 'Changes from this turn were undone' });
+        (GitService.getInstance as jest.Mock).mockReturnValue({ revertCheckpointRange });
+
+        const result = await invoke(IPC_CHANNELS.AGENTS_UNDO_CHECKPOINT, {
+          worktreeId: 'wt-1',
+          agentId: 'agent-1',
+          checkpointId: 'cp-1',
+        });
+
+        expect(revertCheckpointRange).toHaveBeenCalledWith(
+          expect.stringContaining('wt-1'),
+          'before1',
+          'after1'
+        );
+        expect(mockSessionManifest.updateCheckpoint).toHaveBeenCalledWith(
+          'wt-1',
+          'agent-1',
+          'cp-1',
+          expect.objectContaining({ undoneAt: expect.any(String) })
+        );
+        expect(result).toEqual({ success: true, message: 'Changes from this turn were undone' });
+      });
+
+      it('should not mark the turn undone when the revert conflicts', async () => {
+        const revertCheckpointRange = jest.fn().mockResolvedValue({
+          success: false,
+          message: 'Files were changed again after this turn; nothing was undone',
+          error: 'patch failed',
+        });
+        (GitService.getInstance as jest.Mock).mockReturnValue({ revertCheckpointRange });
+
+        const result = await invoke(IPC_CHANNELS.AGENTS_UNDO_CHECKPOINT, {
+          worktreeId: 'wt-1',
+          agentId: 'agent-1',
+          checkpointId: 'cp-1',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('patch failed');
+        expect(mockSessionManifest.updateCheckpoint).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to undo a turn that has not finished', async () => {
+        mockSessionManifest.getCheckpoints.mockResolvedValue({
+          'agent-1': [{ id: 'cp-1', prompt: '', before: 'before1', startedAt: finished.startedAt }],
+        });
+
+        const result = await invoke(IPC_CHANNELS.AGENTS_UNDO_CHECKPOINT, {
+          worktreeId: 'wt-1',
+          agentId: 'agent-1',
+          checkpointId: 'cp-1',
+        });
+
+        expect(result).toEqual({ success: false, error: 'This turn has not finished' });
+      });
+    });
+
     describe('agents:search', () => {
       it('should search agents by query', async () => {
         handler.registerHandlers();
@@ -33,6 +33,18 @@ jest.mock('@/main/services/logger', () => ({
 
 jest.mock('@/main/services/GitDiffService');
 
+const mockGitService = {
+  getSyncStatus: jest.fn(),
+  push: jest.fn(),
+  pullLatest: jest.fn(),
+};
+
+jest.mock('@/services/GitService', () => ({
+  GitService: {
+    getInstance: () => mockGitService,
+  },
+}));
+
 describe('GitHandlers', () => {
   let gitHandlers: GitHandlers;
   let mockGitDiffService: jest.Mocked<GitDiffService>;
@@ -53,6 +65,15 @@ describe('GitHandlers', () => {
       discardHunkChanges: jest.fn(),
       discardLineChanges: jest.fn(),
       restoreDeletedFile: jest.fn(),
+      getUnstagedDiff: jest.fn(),
+      stageFile: jest.fn(),
+      unstageFile: jest.fn(),
+      stageHunk: jest.fn(),
+      unstageHunk: jest.fn(),
+      stageLines: jest.fn(),
+      unstageLines: jest.fn(),
+      commit: jest.fn(),
+      getLastCommitMessage: jest.fn(),
     } as unknown as jest.Mocked<GitDiffService>;
 
     // Mock GitDiffService constructor
@@ -81,6 +102,18 @@ describe('GitHandlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:discard-hunk', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:discard-lines', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:restore-file', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:get-unstaged', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:stage-file', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:unstage-file', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:stage-hunk', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:unstage-hunk', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:stage-lines', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git-diff:unstage-lines', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git:commit', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git:last-commit-message', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git:sync-status', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git:push', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith('git:pull', expect.any(Function));
     });
   });
 
@@ -402,4 +435,147 @@ describe('GitHandlers', () => {
       expect(mockGitDiffService.restoreDeletedFile).toHaveBeenCalledWith('deleted.txt');
     });
   });
+
+  describe('git-diff:get-unstaged', () => {
+    it('should get unstaged changes for a file', async () => {
+      mockGitDiffService.getUnstagedDiff.mockResolvedValue([]);
+
+      gitHandlers.registerHandlers();
+      const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'git-diff:get-unstaged'
+      )[1];
+
+      const result = await handler(null, { repoPath: '/test/repo', filePath: 'test.txt' });
+
+      expect(mockGitDiffService.getUnstagedDiff).toHaveBeenCalledWith('test.txt');
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('git-diff:stage-file / unstage-file', () => {
+    it('should stage and unstage a whole file', async () => {
+      gitHandlers.registerHandlers();
+      const calls = (ipcMain.handle as jest.Mock).mock.calls;
+      const stage = calls.find((call) => call[0] === 'git-diff:stage-file')[1];
+      const unstage = calls.find((call) => call[0] === 'git-diff:unstage-file')[1];
+
+      await stage(null, { repoPath: '/test/repo', filePath: 'test.txt' });
+      await unstage(null, { repoPath: '/test/repo', filePath: 'test.txt' });
+
+      expect(mockGitDiffService.stageFile).toHaveBeenCalledWith('test.txt');
+      expect(mockGitDiffService.unstageFile).toHaveBeenCalledWith('test.txt');
+    });
+  });
+
+  describe('git-diff:stage-hunk', () => {
+    it('should stage a hunk', async () => {
+      const mockHunk = {
+        oldStart: 1,
+        oldLines: 1,
+        newStart: 1,
+        newLines: 1,
+        changes: [],
+        hasConflicts: false,
+      };
+
+      gitHandlers.registerHandlers();
+      const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'git-diff:stage-hunk'
+      )[1];
+
+      await handler(null, { repoPath: '/test/repo', filePath: 'test.txt', hunk: mockHunk });
+
+      expect(mockGitDiffService.stageHunk).toHaveBeenCalledWith('test.txt', mockHunk);
+    });
+
+    it('should return an error response when the hunk no longer applies', async () => {
+      mockGitDiffService.unstageHunk.mockRejectedValue(
+        new Error('Hunk is no longer part of the diff. Refresh and try again.')
+      );
+
+      gitHandlers.registerHandlers();
+      const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'git-diff:unstage-hunk'
+      )[1];
+
+      const result = await handler(null, { repoPath: '/test/repo', filePath: 'test.txt' });
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.stringContaining('no longer part of the diff'),
+        message: expect.any(String),
+      });
+    });
+  });
+
+  describe('git-diff:stage-lines / unstage-lines', () => {
+    it('should forward selected lines', async () => {
+      const mockLines = [{ lineNumber: 3, type: 'add' as const }];
+
+      gitHandlers.registerHandlers();
+      const calls = (ipcMain.handle as jest.Mock).mock.calls;
+      const stage = calls.find((call) => call[0] === 'git-diff:stage-lines')[1];
+      const unstage = calls.find((call) => call[0] === 'git-diff:unstage-lines')[1];
+
+      await stage(null, { repoPath: '/test/repo', filePath: 'test.txt', lines: mockLines });
+      await unstage(null, { repoPath: '/test/repo', filePath: 'test.txt', lines: mockLines });
+
+      expect(mockGitDiffService.stageLines).toHaveBeenCalledWith('test.txt', mockLines);
+      expect(mockGitDiffService.unstageLines).toHaveBeenCalledWith('test.txt', mockLines);
+    });
+  });
+
+  describe('git:commit', () => {
+    it('should commit with amend flag', async () => {
+      mockGitDiffService.commit.mockResolvedValue({ commit: 'abc1234', branch: 'main' });
+
+      gitHandlers.registerHandlers();
+      const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'git:commit'
+      )[1];
+
+      const result = await handler(null, {
+        repoPath: '/test/repo',
+        message: 'Fix bug',
+        amend: true,
+      });
+
+      expect(mockGitDiffService.commit).toHaveBeenCalledWith('Fix bug', { amend: true });
+      expect(result).toEqual({ commit: 'abc1234', branch: 'main' });
+    });
+
+    it('should default amend to false', async () => {
+      mockGitDiffService.commit.mockResolvedValue({ commit: 'abc1234', branch: 'main' });
+
+      gitHandlers.registerHandlers();
+      const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'git:commit'
+      )[1];
+
+      await handler(null, { repoPath: '/test/repo', message: 'Fix bug' });
+
+      expect(mockGitDiffService.commit).toHaveBeenCalledWith('Fix bug', { amend: false });
+    });
+  });
+
+  describe('git:sync-status / push / pull', () => {
+    it('should delegate to GitService', async () => {
+      const status = { branch: 'main', ahead: 2, behind: 1, hasUpstream: true };
+      mockGitService.getSyncStatus.mockResolvedValue(status);
+      mockGitService.push.mockResolvedValue({ success: true, message: 'Pushed main' });
+      mockGitService.pullLatest.mockResolvedValue({ success: true, message: 'Pulled' });
+
+      gitHandlers.registerHandlers();
+      const calls = (ipcMain.handle as jest.Mock).mock.calls;
+      const syncStatus = calls.find((call) => call[0] === 'git:sync-status')[1];
+      const push = calls.find((call) => call[0] === 'git:push')[1];
+      const pull = calls.find((call) => call[0] === 'git:pull')[1];
+
+      expect(await syncStatus(null, '/test/repo')).toEqual(status);
+      expect(await push(null, '/test/repo')).toEqual({ success: true, message: 'Pushed main' });
+      expect(await pull(null, '/test/repo')).toEqual({ success: true, message: 'Pulled' });
+      expect(mockGitService.push).toHaveBeenCalledWith('/test/repo');
+      expect(mockGitService.pullLatest).toHaveBeenCalledWith('/test/repo');
+    });
+  });
 });
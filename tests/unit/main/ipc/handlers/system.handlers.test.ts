@@ -44,6 +44,13 @@ jest.mock('@/main/services/BadgeService');
 jest.mock('@/services/FileDataStoreService');
 jest.mock('@/services/UpdateService');
 jest.mock('@/services/PythonRuntimeService');
+const mockSetSecret = jest.fn();
+jest.mock('@/services/SecretsService', () => ({
+  API_KEY_SECRET_PREFIX: 'api-key.',
+  SecretsService: {
+    getInstance: () => ({ set: mockSetSecret }),
+  },
+}));
 jest.mock('@/main/services/logger', () => ({
   mainLogger: {
     setDevelopmentMode: jest.fn(),
@@ -138,6 +145,14 @@ describe('SystemHandlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('config:setApiKey', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('config:getDevMode', expect.any(Function));
       expect(ipcMain.handle).toHaveBeenCalledWith('config:setDevMode', expect.any(Function));
+      expect(ipcMain.handle).toHaveBeenCalledWith(
+        'config:getPermissionRules',
+        expect.any(Function)
+      );
+      expect(ipcMain.handle).toHaveBeenCalledWith(
+        'config:savePermissionRules',
+        expect.any(Function)
+      );
 
       // Log handlers
       expect(ipcMain.handle).toHaveBeenCalledWith('log:info', expect.any(Function));
@@ -359,14 +374,7 @@ describe('SystemHandlers', () => {
     });
 
     describe('config:setApiKey', () => {
-      it('should set API key', async () => {
-        const mockConfig = {
-          worktrees: [],
-          settings: {},
-        };
-        mockFileDataStore.readConfig.mockResolvedValue(mockConfig);
-        mockFileDataStore.writeConfig.mockResolvedValue(undefined);
-
+      it('should store the API key as an encrypted secret', async () => {
         systemHandlers.registerHandlers();
         const handler = (ipcMain.handle as jest.Mock).mock.calls.find(
           (call) => call[0] === 'config:setApiKey'
@@ -374,11 +382,61 @@ describe('SystemHandlers', () => {
 
         await handler(null, 'anthropic', 'sk-test-key');
 
-        expect(mockFileDataStore.writeConfig).toHaveBeenCalledWith({
-          worktrees: [],
-          settings: {},
-          apiKeys: { anthropic: 'sk-test-key' },
-        });
+        expect(mockSetSecret).toHaveBeenCalledWith('api-key.anthropic', 'sk-test-key');
+        expect(mockFileDataStore.writeConfig).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Permission Rule Operations', () => {
+    const rules = [
+      { id: 'r1', behavior: 'allow' as const, tool: 'Bash', pattern: 'npm test:*' },
+      { id: 'r2', behavior: 'deny' as const, tool: 'Write', pattern: '!src/**' },
+    ];
+
+    const getHandler = (channel: string) =>
+      (ipcMain.handle as jest.Mock).mock.calls.find((call) => call[0] === channel)[1];
+
+    it('should return rules for the worktree', async () => {
+      mockFileDataStore.readConfig.mockResolvedValue({
+        worktrees: [],
+        permissionRules: { 'app-main': rules },
+      });
+
+      systemHandlers.registerHandlers();
+
+      await expect(getHandler('config:getPermissionRules')(null, 'app-main')).resolves.toEqual(
+        rules
+      );
+      await expect(getHandler('config:getPermissionRules')(null, 'other')).resolves.toEqual([]);
+    });
+
+    it('should save rules in order for the worktree', async () => {
+      mockFileDataStore.readConfig.mockResolvedValue({ worktrees: [] });
+      mockFileDataStore.writeConfig.mockResolvedValue(undefined);
+
+      systemHandlers.registerHandlers();
+      await getHandler('config:savePermissionRules')(null, 'app-main', rules);
+
+      expect(mockFileDataStore.writeConfig).toHaveBeenCalledWith({
+        worktrees: [],
+        permissionRules: { 'app-main': rules },
+      });
+    });
+
+    it('should drop the worktree entry when saving no rules', async () => {
+      mockFileDataStore.readConfig.mockResolvedValue({
+        worktrees: [],
+        permissionRules: { 'app-main': rules },
+      });
+      mockFileDataStore.writeConfig.mockResolvedValue(undefined);
+
+      systemHandlers.registerHandlers();
+      await getHandler('config:savePermissionRules')(null, 'app-main', []);
+
+      expect(mockFileDataStore.writeConfig).toHaveBeenCalledWith({
+        worktrees: [],
+        permissionRules: {},
       });
     });
   });
@@ -0,0 +1,72 @@
+/**
+ * Tests for GitDiffService patch building
+ * Covers the partial hunk patches used for hunk and line staging
+ */
+
+import { buildPartialHunkPatch, DiffHunk } from '@/main/services/GitDiffService';
+
+jest.mock('@/main/services/logger', () => ({
+  log: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Replaces "m" with "M" and appends "new" at the end of the file
+const hunk: DiffHunk = {
+  oldStart: 12,
+  oldLines: 3,
+  newStart: 12,
+  newLines: 4,
+  hasConflicts: false,
+  changes: [
+    { type: 'normal', content: 'l', oldLineNumber: 12, newLineNumber: 12 },
+    { type: 'del', content: 'm', lineNumber: 13, oldLineNumber: 13 },
+    { type: 'add', content: 'M', lineNumber: 13, newLineNumber: 13 },
+    { type: 'normal', content: 'n', oldLineNumber: 14, newLineNumber: 14 },
+    { type: 'add', content: 'new', lineNumber: 15, newLineNumber: 15 },
+  ],
+};
+
+const bodyOf = (patch: string) => patch.split('\n').slice(4).join('\n');
+
+describe('buildPartialHunkPatch', () => {
+  it('should emit the full hunk when selection is null', () => {
+    const patch = buildPartialHunkPatch('f.txt', hunk, null, 'forward');
+
+    expect(patch.split('\n').slice(0, 4)).toEqual([
+      'diff --git a/f.txt b/f.txt',
+      '--- a/f.txt',
+      '+++ b/f.txt',
+      '@@ -12,3 +12,4 @@',
+    ]);
+    expect(bodyOf(patch)).toContain(' l\n-m\n+M\n n\n+new');
+  });
+
+  it('should keep unselected deletions as context when staging', () => {
+    const patch = buildPartialHunkPatch(
+      'f.txt',
+      hunk,
+      [{ lineNumber: 15, type: 'add' }],
+      'forward'
+    );
+
+    // "m" still exists in the index, so it stays as context; "M" is dropped
+    expect(bodyOf(patch)).toContain(' l\n m\n n\n+new');
+    expect(bodyOf(patch)).not.toContain('M');
+  });
+
+  it('should keep unselected additions as context when unstaging', () => {
+    const patch = buildPartialHunkPatch(
+      'f.txt',
+      hunk,
+      [{ lineNumber: 13, type: 'del' }],
+      'reverse'
+    );
+
+    // Reverse patches are checked against the index, where "M" and "new" exist
+    expect(bodyOf(patch)).toContain(' l\n-m\n M\n n\n new');
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  extractUserPromptText,
+  findBranchPoint,
+  findCheckpointAt,
+  truncateAtMessage,
+} from '@/main/utils/sessionBranching';
+
+const entries = [
+  { type: 'system', subtype: 'init', uuid: 's0' },
+  {
+    type: 'user',
+    uuid: 'u1',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    message: { role: 'user', content: 'fix the bug' },
+  },
+  { type: 'assistant', uuid: 'a1', message: { role: 'assistant', content: [] } },
+  {
+    type: 'user',
+    uuid: 't1',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'x', content: 'ok' }] },
+  },
+  { type: 'assistant', uuid: 'a2', message: { role: 'assistant', content: [] } },
+  { type: 'assistant', uuid: 'side', isSidechain: true, message: { content: [] } },
+  {
+    type: 'user',
+    uuid: 'u2',
+    timestamp: '2026-01-01T10:05:00.000Z',
+    message: { role: 'user', content: [{ type: 'text', text: 'fix the bug' }] },
+  },
+  { type: 'assistant', uuid: 'a3', message: { role: 'assistant', content: [] } },
+];
+
+describe('sessionBranching', () => {
+  describe('extractUserPromptText', () => {
+    it('should return text for user prompts only', () => {
+      expect(extractUserPromptText(entries[1])).toBe('fix the bug');
+      expect(extractUserPromptText(entries[6])).toBe('fix the bug');
+      expect(extractUserPromptText(entries[2])).toBeNull();
+      expect(extractUserPromptText(entries[3])).toBeNull();
+      expect(extractUserPromptText({ ...entries[1], isMeta: true })).toBeNull();
+    });
+  });
+
+  describe('findBranchPoint', () => {
+    it('should cut at the message uuid and resume from the last main-chain assistant', () => {
+      expect(findBranchPoint(entries, { messageId: 'u2' })).toEqual({
+        cutIndex: 6,
+        cutAtMessageId: 'u2',
+        resumeAt: 'a2',
+        timestamp: '2026-01-01T10:05:00.000Z',
+      });
+    });
+
+    it('should not resume when cutting at the first message', () => {
+      const point = findBranchPoint(entries, { messageId: 'u1' });
+
+      expect(point?.cutAtMessageId).toBe('u1');
+      expect(point?.resumeAt).toBeUndefined();
+    });
+
+    it('should match by text and occurrence when the id is unknown', () => {
+      const point = findBranchPoint(entries, {
+        messageId: 'live-123',
+        content: 'fix the bug',
+        ordinal: 1,
+      });
+
+      expect(point?.cutAtMessageId).toBe('u2');
+    });
+
+    it('should return null when the message is not found', () => {
+      expect(findBranchPoint(entries, { messageId: 'missing', content: 'other' })).toBeNull();
+    });
+  });
+
+  describe('truncateAtMessage', () => {
+    it('should drop the message and everything after it', () => {
+      expect(truncateAtMessage(entries, 'u2').map((e) => e.uuid)).toEqual([
+        's0',
+        'u1',
+        'a1',
+        't1',
+        'a2',
+        'side',
+      ]);
+    });
+
+    it('should keep all entries when the message is missing', () => {
+      expect(truncateAtMessage(entries, 'missing')).toBe(entries);
+    });
+  });
+
+  describe('findCheckpointAt', () => {
+    const checkpoints = [
+      { startedAt: '2026-01-01T09:59:59.000Z', before: 'a' },
+      { startedAt: '2026-01-01T10:04:59.000Z', before: 'b' },
+      { startedAt: '2026-01-01T10:10:00.000Z', before: 'c' },
+    ];
+
+    it('should pick the latest checkpoint taken before the message', () => {
+      expect(findCheckpointAt(checkpoints, '2026-01-01T10:05:00.000Z')?.before).toBe('b');
+      expect(findCheckpointAt(checkpoints, '2026-01-01T10:00:00.000Z')?.before).toBe('a');
+    });
+
+    it('should return undefined when nothing was recorded before the message', () => {
+      expect(findCheckpointAt(checkpoints, '2026-01-01T09:00:00.000Z')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  calculateCost,
+  calculateResultCost,
+  DEFAULT_PRICING_TABLE,
+  formatCostUSD,
+  getModelPricing,
+  mergePricingOverrides,
+} from '@/monitoring/utils/costCalculator';
+
+const SONNET = 'claude-sonnet-4-5-20250929';
+
+describe('costCalculator', () => {
+  describe('getModelPricing', () => {
+    it('should match the longest key that prefixes the model id', () => {
+      expect(getModelPricing('claude-opus-4-5-20251101').input).toBe(5);
+      expect(getModelPricing('claude-opus-4-20250514').input).toBe(15);
+    });
+
+    it('should ignore provider prefixes and fall back for unknown models', () => {
+      expect(getModelPricing('us.anthropic.claude-haiku-4-5-20251001-v1:0').input).toBe(1);
+      expect(getModelPricing('gpt-4o')).toBe(DEFAULT_PRICING_TABLE.fallback);
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('should price cache writes and reads with their multipliers', () => {
+      const cost = calculateCost(
+        {
+          inputTokens: 1_000_000,
+          outputTokens: 1_000_000,
+          cacheCreationInputTokens: 2_000_000,
+          cacheCreation1hInputTokens: 1_000_000,
+          cacheReadInputTokens: 1_000_000,
+        },
+        'claude-haiku-4-5-20251001'
+      );
+
+      // 1 input + 5 output + 1.25 (5m write) + 2 (1h write) + 0.1 (read)
+      expect(cost).toBeCloseTo(9.35, 6);
+    });
+
+    it('should apply long-context rates to requests over the threshold', () => {
+      const short = calculateCost({ inputTokens: 200_000, outputTokens: 1_000 }, SONNET);
+      const long = calculateCost(
+        { inputTokens: 1_000, outputTokens: 1_000, cacheReadInputTokens: 200_000 },
+        SONNET
+      );
+
+      expect(short).toBeCloseTo(0.6 + 0.015, 6);
+      // Input 6/M and output 22.5/M, cache reads at 10% of the long-context input price
+      expect(long).toBeCloseTo(0.006 + 0.0225 + 0.12, 6);
+    });
+
+    it('should use per-model cache multipliers', () => {
+      const cost = calculateCost(
+        { inputTokens: 0, outputTokens: 0, cacheReadInputTokens: 1_000_000 },
+        'claude-3-haiku-20240307'
+      );
+
+      expect(cost).toBeCloseTo(0.03, 6);
+    });
+  });
+
+  describe('calculateResultCost', () => {
+    it('should price each model of the result at base rates', () => {
+      const cost = calculateResultCost(
+        {
+          usage: {
+            cache_creation_input_tokens: 1_000_000,
+            cache_creation: { ephemeral_1h_input_tokens: 500_000 },
+          },
+          modelUsage: {
+            [SONNET]: {
+              inputTokens: 500_000,
+              outputTokens: 100_000,
+              cacheCreationInputTokens: 1_000_000,
+              cacheReadInputTokens: 0,
+            },
+            'claude-haiku-4-5-20251001': {
+              inputTokens: 1_000_000,
+              outputTokens: 0,
+              cacheCreationInputTokens: 0,
+              cacheReadInputTokens: 0,
+            },
+          },
+        },
+        SONNET
+      );
+
+      // Sonnet: 1.5 + 1.5 + 1.875 (5m) + 3 (1h); Haiku: 1
+      expect(cost).toBeCloseTo(8.875, 6);
+    });
+
+    it('should price the usage totals with the given model without a breakdown', () => {
+      const cost = calculateResultCost(
+        { usage: { input_tokens: 1_000_000, output_tokens: 1_000_000 } },
+        'claude-opus-4-5-20251101'
+      );
+
+      expect(cost).toBe(30);
+    });
+  });
+
+  describe('mergePricingOverrides', () => {
+    it('should override single fields of built-in models and add new models', () => {
+      const table = mergePricingOverrides({
+        version: 1,
+        cacheMultipliers: { read: 0.05 },
+        models: {
+          'claude-opus-4-5': { input: 4.5 },
+          'claude-next': { input: 2, output: 8 },
+        },
+        displayDecimals: 2,
+      });
+
+      expect(table.models['claude-opus-4-5']).toEqual({ input: 4.5, output: 25 });
+      expect(getModelPricing('claude-next-20260101', table)).toEqual({ input: 2, output: 8 });
+      expect(table.cacheMultipliers).toEqual({ write5m: 1.25, write1h: 2, read: 0.05 });
+      expect(table.updatedAt).toBe(DEFAULT_PRICING_TABLE.updatedAt);
+      expect(formatCostUSD(0.004, table)).toBe('$0.00');
+    });
+
+    it('should reject other versions and invalid rates', () => {
+      expect(() => mergePricingOverrides({ version: 2 })).toThrow(
+        'Unsupported pricing table version 2'
+      );
+      expect(() =>
+        mergePricingOverrides({ version: 1, models: { 'claude-next': { input: -1 } } })
+      ).toThrow('Invalid rates for model "claude-next"');
+    });
+  });
+
+  describe('formatCostUSD', () => {
+    it('should increase precision for small amounts by default', () => {
+      expect(formatCostUSD(0.004)).toBe('$0.004000');
+      expect(formatCostUSD(0.5)).toBe('$0.5000');
+      expect(formatCostUSD(12.345)).toBe('$12.35');
+    });
+  });
+});
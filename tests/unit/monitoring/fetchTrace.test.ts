@@ -0,0 +1,162 @@
+/**
+ * Unit tests for fetch trace log parsing and HAR export
+ */
+
+import {
+  fetchTraceToHar,
+  getFetchTraceLogName,
+  parseFetchTraceLog,
+} from '@/monitoring/utils/fetchTrace';
+
+const fetchRecord = (level: 'FETCH' | 'FETCH-ERROR', time: string, entry: object) =>
+  `[${time}] [${level}] ${JSON.stringify(entry, null, 2)}\n`;
+
+const infoLine = (time: string, message: string, details?: object) =>
+  `[${time}] [INFO] ${message}${details ? ` ${JSON.stringify([details])}` : ''}\n`;
+
+const completed = {
+  url: 'https://api.anthropic.com/v1/messages?beta=true',
+  method: 'POST',
+  request: {
+    time: '2025-01-01T12:00:00.000Z',
+    headers: { 'content-type': 'application/json', 'x-api-key': '[REDACTED]' },
+    body: { model: 'claude-sonnet-4-5' },
+  },
+  response: {
+    time: '2025-01-01T12:00:01.000Z',
+    headers: { 'content-type': 'application/json', authorization: 'Bearer secret' },
+    body: { id: 'msg_1' },
+    status: 200,
+    size: 0,
+  },
+  duration: 1200,
+  correlationId: 'req-1',
+  pid: 100,
+  source: 'cli.js',
+};
+
+const failed = {
+  url: 'https://mcp.example.com/tools',
+  method: 'GET',
+  request: { time: '2025-01-01T12:00:02.000Z', headers: {}, body: null },
+  error: 'TypeError: fetch failed',
+  duration: 30,
+  correlationId: 'req-2',
+  pid: 200,
+  source: 'server.js',
+};
+
+const log = [
+  infoLine('2025-01-01T11:59:59.000Z', '[fetch-tracer] Trace filters initialized', {
+    includes: [],
+  }),
+  infoLine('2025-01-01T12:00:00.000Z', '[fetch-tracer] Cache MISS', {
+    method: 'POST',
+    url: completed.url,
+    correlationId: 'req-1',
+  }),
+  fetchRecord('FETCH', '2025-01-01T12:00:01.200Z', completed),
+  fetchRecord('FETCH-ERROR', '2025-01-01T12:00:02.030Z', failed),
+  infoLine('2025-01-01T12:00:03.000Z', '[fetch-tracer] Cache HIT', {
+    method: 'GET',
+    url: 'https://api.example.com/models',
+    status: 200,
+    duration: 2,
+    correlationId: 'req-3',
+  }),
+  '[2025-01-01T12:00:04.000Z] [FETCH] {"url": "truncated',
+].join('');
+
+describe('fetchTrace', () => {
+  describe('getFetchTraceLogName', () => {
+    it('should strip the launch timestamp and suffix', () => {
+      expect(
+        getFetchTraceLogName('my-worktree-abc-123-2025-01-01T12-00-00-000Z-fetch-trace.log')
+      ).toBe('my-worktree-abc-123');
+    });
+  });
+
+  describe('parseFetchTraceLog', () => {
+    const entries = parseFetchTraceLog(log);
+
+    it('should parse completed, failed and cached requests and skip partial records', () => {
+      expect(entries.map((entry) => entry.correlationId)).toEqual(['req-1', 'req-2', 'req-3']);
+    });
+
+    it('should read method, url, status, timing and process', () => {
+      expect(entries[0]).toEqual(
+        expect.objectContaining({
+          method: 'POST',
+          url: completed.url,
+          status: 200,
+          durationMs: 1200,
+          startedAt: '2025-01-01T12:00:00.000Z',
+          pid: 100,
+          source: 'cli.js',
+        })
+      );
+      expect(entries[1]).toEqual(
+        expect.objectContaining({ error: 'TypeError: fetch failed', source: 'server.js' })
+      );
+      expect(entries[1].status).toBeUndefined();
+    });
+
+    it('should fall back to the body length when the size is unknown', () => {
+      expect(entries[0].responseSize).toBe(JSON.stringify({ id: 'msg_1' }).length);
+      expect(entries[0].requestSize).toBe(JSON.stringify(completed.request.body).length);
+    });
+
+    it('should mark cache hits and misses', () => {
+      expect(entries.map((entry) => entry.cache)).toEqual(['miss', 'none', 'hit']);
+      expect(entries[2]).toEqual(
+        expect.objectContaining({
+          method: 'GET',
+          status: 200,
+          durationMs: 2,
+          startedAt: '2025-01-01T12:00:03.000Z',
+        })
+      );
+    });
+
+    it('should redact sensitive headers', () => {
+      expect(entries[0].requestHeaders['x-api-key']).toBe('[REDACTED]');
+      expect(entries[0].responseHeaders.authorization).toBe('[REDACTED]');
+      expect(entries[0].responseHeaders['content-type']).toBe('application/json');
+    });
+
+    it('should return nothing for a log without requests', () => {
+      expect(parseFetchTraceLog('')).toEqual([]);
+    });
+  });
+
+  describe('fetchTraceToHar', () => {
+    const har = fetchTraceToHar(parseFetchTraceLog(log), '1.2.3');
+
+    it('should produce a HAR 1.2 log', () => {
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.creator).toEqual({ name: 'AutoSteer', version: '1.2.3' });
+      expect(har.log.entries).toHaveLength(3);
+    });
+
+    it('should convert requests and responses', () => {
+      const [entry] = har.log.entries;
+      expect(entry.startedDateTime).toBe('2025-01-01T12:00:00.000Z');
+      expect(entry.time).toBe(1200);
+      expect(entry.request.queryString).toEqual([{ name: 'beta', value: 'true' }]);
+      expect(entry.request.headers).toContainEqual({ name: 'x-api-key', value: '[REDACTED]' });
+      expect(entry.request.postData).toEqual({
+        mimeType: 'application/json',
+        text: JSON.stringify(completed.request.body),
+      });
+      expect(entry.response.status).toBe(200);
+      expect(entry.response.content.text).toBe(JSON.stringify({ id: 'msg_1' }));
+    });
+
+    it('should record failures and cache hits', () => {
+      expect(har.log.entries[1].response.status).toBe(0);
+      expect(har.log.entries[1].response._error).toBe('TypeError: fetch failed');
+      expect(har.log.entries[1].request.postData).toBeUndefined();
+      expect(har.log.entries[2].comment).toMatch(/fetch cache/);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for converting agent turns to OTLP spans
+ */
+
+import { buildTurnSpans, OtlpSpan, toOtlpExportRequest } from '@/monitoring/utils/otlp';
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 12, 0, seconds)).toISOString();
+const nanos = (seconds: number) => `${Date.UTC(2025, 0, 1, 12, 0, seconds)}000000`;
+
+const traceEntry = (seconds: number, rawMessage: unknown): TraceFileEntry => ({
+  timestamp: at(seconds),
+  sessionId: 'session-1',
+  direction: seconds === 0 ? 'to-claude' : 'from-claude',
+  correlationId: 'query-1',
+  rawMessage,
+  sdkVersion: '1.0.0',
+  sequenceNumber: 0,
+});
+
+const toolUse = (id: string, name: string) => ({
+  type: 'assistant',
+  message: { content: [{ type: 'tool_use', id, name, input: {} }] },
+});
+
+const toolResult = (id: string, isError = false) => ({
+  type: 'user',
+  message: { content: [{ type: 'tool_result', tool_use_id: id, is_error: isError }] },
+});
+
+const result = {
+  type: 'result',
+  subtype: 'success',
+  is_error: false,
+  num_turns: 3,
+  total_cost_usd: 0.0125,
+  usage: {
+    input_tokens: 120,
+    output_tokens: 45,
+    cache_creation_input_tokens: 10,
+    cache_read_input_tokens: 2000,
+  },
+};
+
+const entries: TraceFileEntry[] = [
+  traceEntry(0, { type: 'user', message: { content: 'List the files' } }),
+  traceEntry(1, { type: 'system', subtype: 'init', model: 'claude-sonnet-4-5', cwd: '/repo' }),
+  traceEntry(2, toolUse('toolu_1', 'Bash')),
+  traceEntry(5, toolResult('toolu_1')),
+  traceEntry(6, toolUse('toolu_2', 'Read')),
+  traceEntry(7, toolResult('toolu_2', true)),
+  traceEntry(8, toolUse('toolu_3', 'Write')),
+  traceEntry(10, result),
+];
+
+const attribute = (span: OtlpSpan, key: string) =>
+  span.attributes.find((candidate) => candidate.key === key)?.value;
+
+describe('otlp', () => {
+  describe('buildTurnSpans', () => {
+    const [turn, bash, read, write] = buildTurnSpans(entries);
+
+    it('should make the turn a root span from prompt to last message', () => {
+      expect(turn.name).toBe('invoke_agent');
+      expect(turn.parentSpanId).toBeUndefined();
+      expect(turn.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(turn.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(turn.startTimeUnixNano).toBe(nanos(0));
+      expect(turn.endTimeUnixNano).toBe(nanos(10));
+      expect(turn.status).toEqual({ code: 1 });
+    });
+
+    it('should record token usage, cost and model as turn attributes', () => {
+      expect(attribute(turn, 'gen_ai.request.model')).toEqual({
+        stringValue: 'claude-sonnet-4-5',
+      });
+      expect(attribute(turn, 'gen_ai.conversation.id')).toEqual({ stringValue: 'session-1' });
+      expect(attribute(turn, 'gen_ai.usage.input_tokens')).toEqual({ intValue: '120' });
+      expect(attribute(turn, 'gen_ai.usage.output_tokens')).toEqual({ intValue: '45' });
+      expect(attribute(turn, 'autosteer.usage.cache_read_input_tokens')).toEqual({
+        intValue: '2000',
+      });
+      expect(attribute(turn, 'autosteer.cost_usd')).toEqual({ doubleValue: 0.0125 });
+      expect(attribute(turn, 'autosteer.tool_calls')).toEqual({ intValue: '3' });
+    });
+
+    it('should make each tool call a child span from tool_use to tool_result', () => {
+      expect(bash.name).toBe('execute_tool Bash');
+      expect(bash.traceId).toBe(turn.traceId);
+      expect(bash.parentSpanId).toBe(turn.spanId);
+      expect(bash.startTimeUnixNano).toBe(nanos(2));
+      expect(bash.endTimeUnixNano).toBe(nanos(5));
+      expect(attribute(bash, 'gen_ai.tool.name')).toEqual({ stringValue: 'Bash' });
+      expect(bash.status).toEqual({ code: 1 });
+    });
+
+    it('should mark failed and unanswered tool calls as errors', () => {
+      expect(read.status).toEqual({ code: 2, message: 'Tool failed' });
+      expect(write.status).toEqual({ code: 2, message: 'No tool result' });
+      expect(write.endTimeUnixNano).toBe(turn.endTimeUnixNano);
+    });
+
+    it('should derive the same ids when a turn is exported twice', () => {
+      expect(buildTurnSpans(entries).map((span) => span.spanId)).toEqual(
+        [turn, bash, read, write].map((span) => span.spanId)
+      );
+      expect(new Set([turn, bash, read, write].map((span) => span.spanId)).size).toBe(4);
+    });
+
+    it('should mark the turn as an error when the query failed', () => {
+      expect(buildTurnSpans(entries, 'Aborted')[0].status).toEqual({
+        code: 2,
+        message: 'Aborted',
+      });
+      expect(buildTurnSpans(entries.slice(0, 4))[0].status).toEqual({
+        code: 2,
+        message: 'Query ended without a result',
+      });
+      const failed = [
+        ...entries.slice(0, 7),
+        traceEntry(10, { ...result, subtype: 'error_max_turns', is_error: true }),
+      ];
+      expect(buildTurnSpans(failed)[0].status).toEqual({ code: 2, message: 'error_max_turns' });
+    });
+
+    it('should return nothing for an empty turn', () => {
+      expect(buildTurnSpans([])).toEqual([]);
+    });
+  });
+
+  describe('toOtlpExportRequest', () => {
+    it('should wrap spans with the service resource', () => {
+      const spans = buildTurnSpans(entries);
+      const request = toOtlpExportRequest(spans, {
+        serviceName: 'autosteer',
+        serviceVersion: '1.2.3',
+      });
+
+      expect(request.resourceSpans).toHaveLength(1);
+      expect(request.resourceSpans[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'autosteer' } },
+        { key: 'service.version', value: { stringValue: '1.2.3' } },
+      ]);
+      expect(request.resourceSpans[0].scopeSpans[0].scope).toEqual({
+        name: 'autosteer',
+        version: '1.2.3',
+      });
+      expect(request.resourceSpans[0].scopeSpans[0].spans).toBe(spans);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for trace viewer filtering, grouping and latency gaps
+ */
+
+import {
+  TraceViewEntry,
+  filterTraceEntries,
+  formatGap,
+  fromChatTrace,
+  fromTraceFile,
+  getFilterOptions,
+  getLatencyGaps,
+  groupByCorrelation,
+} from '@/features/monitoring/utils/traceView';
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 12, 0, seconds));
+
+const entry = (
+  id: string,
+  seconds: number,
+  direction: 'to' | 'from',
+  message: any,
+  correlationId?: string
+): TraceViewEntry => ({
+  ...fromChatTrace({ id, timestamp: at(seconds), direction, message }),
+  ...(correlationId && { correlationId }),
+});
+
+const toolUse = entry('tool-use', 2, 'from', {
+  type: 'assistant',
+  message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} }] },
+});
+const toolResult = entry('tool-result', 8, 'from', {
+  type: 'user',
+  message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'done' }] },
+});
+const entries: TraceViewEntry[] = [
+  entry('prompt', 0, 'to', { type: 'user', prompt: 'List the files' }),
+  toolUse,
+  toolResult,
+  entry('result', 9, 'from', { type: 'result', subtype: 'success', result: 'Listed' }),
+];
+
+describe('traceView', () => {
+  describe('fromTraceFile', () => {
+    it('should map file entries to view entries', () => {
+      const fileEntries: TraceFileEntry[] = [
+        {
+          timestamp: at(0).toISOString(),
+          sessionId: 'session-1',
+          direction: 'from-claude',
+          rawMessage: { type: 'system', subtype: 'init' },
+          sdkVersion: '1.0.0',
+          correlationId: 'query-1',
+          sequenceNumber: 1,
+          messageType: 'system',
+          messageSubtype: 'init',
+        },
+      ];
+
+      const [viewEntry] = fromTraceFile(fileEntries);
+
+      expect(viewEntry.direction).toBe('from');
+      expect(viewEntry.timestamp).toEqual(at(0));
+      expect(viewEntry.messageType).toBe('system');
+      expect(viewEntry.messageSubtype).toBe('init');
+      expect(viewEntry.correlationId).toBe('query-1');
+    });
+  });
+
+  describe('getFilterOptions', () => {
+    it('should collect types, subtypes and tool names', () => {
+      expect(getFilterOptions(entries)).toEqual({
+        messageTypes: ['assistant', 'result', 'user'],
+        messageSubtypes: ['success'],
+        toolNames: ['Bash'],
+      });
+    });
+  });
+
+  describe('filterTraceEntries', () => {
+    it('should filter by type, subtype and direction', () => {
+      expect(filterTraceEntries(entries, { messageType: 'user' }).map((e) => e.id)).toEqual([
+        'prompt',
+        'tool-result',
+      ]);
+      expect(filterTraceEntries(entries, { messageSubtype: 'success' }).map((e) => e.id)).toEqual([
+        'result',
+      ]);
+      expect(filterTraceEntries(entries, { direction: 'to' }).map((e) => e.id)).toEqual(['prompt']);
+    });
+
+    it('should match tool results to the tool that produced them', () => {
+      expect(filterTraceEntries(entries, { toolName: 'Bash' }).map((e) => e.id)).toEqual([
+        'tool-use',
+        'tool-result',
+      ]);
+    });
+
+    it('should search message content case-insensitively', () => {
+      expect(filterTraceEntries(entries, { search: 'LIST' }).map((e) => e.id)).toEqual([
+        'prompt',
+        'result',
+      ]);
+    });
+
+    it('should return everything for an empty filter', () => {
+      expect(filterTraceEntries(entries, { search: '  ' })).toHaveLength(entries.length);
+    });
+  });
+
+  describe('groupByCorrelation', () => {
+    it('should group by correlation id in order of first message', () => {
+      const groups = groupByCorrelation([
+        entry('a1', 0, 'to', {}, 'query-a'),
+        entry('b1', 1, 'to', {}, 'query-b'),
+        entry('a2', 4, 'from', {}, 'query-a'),
+      ]);
+
+      expect(groups.map((group) => group.correlationId)).toEqual(['query-a', 'query-b']);
+      expect(groups[0].entries.map((e) => e.id)).toEqual(['a1', 'a2']);
+      expect(groups[0].durationMs).toBe(4000);
+    });
+
+    it('should group uncorrelated entries per prompt', () => {
+      const groups = groupByCorrelation([
+        ...entries,
+        entry('prompt-2', 20, 'to', { type: 'user' }),
+        entry('result-2', 21, 'from', { type: 'result' }),
+      ]);
+
+      expect(groups.map((group) => group.entries.length)).toEqual([4, 2]);
+    });
+  });
+
+  describe('getLatencyGaps', () => {
+    it('should measure the time since the previous entry', () => {
+      expect(getLatencyGaps(entries)).toEqual([0, 2000, 6000, 1000]);
+    });
+  });
+
+  describe('formatGap', () => {
+    it('should format milliseconds, seconds and minutes', () => {
+      expect(formatGap(250)).toBe('250ms');
+      expect(formatGap(6000)).toBe('6.0s');
+      expect(formatGap(180_000)).toBe('3m');
+    });
+  });
+});
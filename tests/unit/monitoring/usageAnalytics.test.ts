@@ -0,0 +1,154 @@
+import { LoadedUsageEntry, TokenCounts } from '@/entities';
+import { identifySessionBlocks } from '@/monitoring/utils/sessionIdentifier';
+import {
+  buildUsageAnalytics,
+  calculateBurnRate,
+  getPeriodStart,
+  UsageLabeler,
+  usageAnalyticsToCSV,
+} from '@/monitoring/utils/usageAnalytics';
+
+const entry = (
+  timestamp: Date,
+  options: { model?: string; cost?: number; cacheRead?: number; source?: string } = {}
+) =>
+  new LoadedUsageEntry({
+    timestamp,
+    usage: new TokenCounts({
+      inputTokens: 100,
+      outputTokens: 50,
+      cacheReadInputTokens: options.cacheRead ?? 0,
+    }),
+    costUSD: options.cost ?? 1,
+    model: options.model ?? 'claude-sonnet-4-5-20250929',
+    sourceFile: options.source ?? '/home/me/.claude/projects/-repo-a/session-1.jsonl',
+  });
+
+const labeler: UsageLabeler = {
+  worktree: (e) => (e.sourceFile?.includes('-repo-a') ? 'repo-a' : 'repo-b'),
+  agent: (e) => (e.sourceFile?.endsWith('session-1.jsonl') ? 'Agent 1' : 'Unattributed'),
+};
+
+describe('usageAnalytics', () => {
+  describe('getPeriodStart', () => {
+    it('should start weeks on Monday and months on the first', () => {
+      const sunday = new Date(2025, 10, 23, 18, 30);
+
+      expect(getPeriodStart(sunday, 'day')).toEqual(new Date(2025, 10, 23));
+      expect(getPeriodStart(sunday, 'week')).toEqual(new Date(2025, 10, 17));
+      expect(getPeriodStart(sunday, 'month')).toEqual(new Date(2025, 10, 1));
+    });
+  });
+
+  describe('buildUsageAnalytics', () => {
+    const entries = [
+      entry(new Date(2025, 10, 20, 9), { cost: 2, cacheRead: 300 }),
+      entry(new Date(2025, 10, 20, 15), {
+        model: 'claude-haiku-4-5-20251001',
+        cost: 0.5,
+        source: '/home/me/.claude/projects/-repo-b/session-2.jsonl',
+      }),
+      entry(new Date(2025, 10, 24, 10), { cost: 1 }),
+    ];
+
+    it('should group entries into buckets, oldest first', () => {
+      const daily = buildUsageAnalytics(entries, { period: 'day', labeler });
+      const weekly = buildUsageAnalytics(entries, { period: 'week', labeler });
+
+      expect(daily.buckets.map((b) => [b.start, b.totals.costUSD])).toEqual([
+        ['2025-11-20', 2.5],
+        ['2025-11-24', 1],
+      ]);
+      expect(weekly.buckets.map((b) => [b.start, b.totals.requests])).toEqual([
+        ['2025-11-17', 2],
+        ['2025-11-24', 1],
+      ]);
+      expect(weekly.totals.costUSD).toBe(3.5);
+    });
+
+    it('should split usage by model, worktree and agent', () => {
+      const { breakdown } = buildUsageAnalytics(entries, { period: 'month', labeler });
+
+      expect(breakdown.model['claude-sonnet-4-5-20250929'].costUSD).toBe(3);
+      expect(breakdown.model['claude-haiku-4-5-20251001'].costUSD).toBe(0.5);
+      expect(breakdown.worktree['repo-b'].requests).toBe(1);
+      expect(breakdown.agent['Agent 1'].requests).toBe(2);
+      expect(breakdown.agent.Unattributed.requests).toBe(1);
+    });
+
+    it('should compute the cache hit ratio over prompt tokens', () => {
+      const { buckets } = buildUsageAnalytics(entries, { period: 'day', labeler });
+
+      // 300 cache reads out of 300 + 2 * 100 input tokens
+      expect(buckets[0].totals.cacheHitRatio).toBeCloseTo(0.6, 6);
+      expect(buckets[1].totals.cacheHitRatio).toBe(0);
+    });
+  });
+
+  describe('calculateBurnRate', () => {
+    it('should project the current block to its end at the current rate', () => {
+      const now = new Date(2025, 10, 24, 11, 0);
+      const [block] = identifySessionBlocks(
+        [entry(new Date(2025, 10, 24, 10, 0), { cost: 1 }), entry(now, { cost: 1 })],
+        { sessionHours: 5 }
+      );
+
+      const burnRate = calculateBurnRate(block, now)!;
+
+      expect(burnRate.costUSD).toBe(2);
+      expect(burnRate.costPerHour).toBeCloseTo(2, 6);
+      // Four hours left at $2/h
+      expect(burnRate.projectedCostUSD).toBeCloseTo(10, 6);
+      expect(burnRate.blockEnd).toBe(new Date(2025, 10, 24, 15, 0).toISOString());
+    });
+
+    it('should return null without an active block', () => {
+      const [block] = identifySessionBlocks([entry(new Date(2025, 10, 20, 9))], {
+        sessionHours: 5,
+      });
+
+      expect(calculateBurnRate(null)).toBeNull();
+      expect(calculateBurnRate(block, new Date(2025, 10, 24))).toBeNull();
+    });
+  });
+
+  describe('usageAnalyticsToCSV', () => {
+    it('should write one row per bucket and dimension value', () => {
+      const analytics = buildUsageAnalytics(
+        [entry(new Date(2025, 10, 20, 9), { model: 'model, "quoted"' })],
+        { period: 'day', labeler }
+      );
+
+      const lines = usageAnalyticsToCSV(analytics).trim().split('\n');
+
+      expect(lines[0]).toBe(
+        'period,period_start,dimension,key,requests,cost_usd,input_tokens,output_tokens,' +
+          'cache_creation_tokens,cache_read_tokens,total_tokens,cache_hit_ratio'
+      );
+      expect(lines.slice(1)).toEqual([
+        'day,2025-11-20,model,"model, ""quoted""",1,1.000000,100,50,0,0,150,0.0000',
+        'day,2025-11-20,worktree,repo-a,1,1.000000,100,50,0,0,150,0.0000',
+        'day,2025-11-20,agent,Agent 1,1,1.000000,100,50,0,0,150,0.0000',
+      ]);
+    });
+  });
+});
+
+describe('identifySessionBlocks', () => {
+  it('should start a new block only after the previous one ends', () => {
+    const blocks = identifySessionBlocks(
+      [
+        entry(new Date(2025, 10, 24, 9, 30)),
+        entry(new Date(2025, 10, 24, 12, 15)),
+        entry(new Date(2025, 10, 24, 14, 45)),
+        entry(new Date(2025, 10, 24, 15, 5)),
+      ],
+      { sessionHours: 5 }
+    ).filter((block) => !block.isGap);
+
+    expect(blocks.map((block) => [block.startTime.getHours(), block.entries.length])).toEqual([
+      [14, 2],
+      [9, 2],
+    ]);
+  });
+});
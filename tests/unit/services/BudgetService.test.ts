@@ -0,0 +1,111 @@
+import { LoadedUsageEntry, TokenCounts } from '@/entities';
+import { BudgetAlert, BudgetExceededError, BudgetService } from '@/services/BudgetService';
+import type { BudgetsConfig } from '@/types/config.types';
+
+const mockReadConfig = jest.fn();
+const mockGetEntries = jest.fn();
+
+jest.mock('@/commons/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({ readConfig: mockReadConfig }),
+  },
+}));
+
+jest.mock('@/monitoring/adapters/CCUsageMonitor', () => ({
+  CCUsageMonitor: jest.fn().mockImplementation(() => ({ getEntries: mockGetEntries })),
+}));
+
+const WORKTREE = '/home/me/.autosteer/worktrees/app-fix';
+const WORKTREE_LOGS = '/home/me/.claude/projects/-home-me--autosteer-worktrees-app-fix';
+
+const entry = (costUSD: number, sourceFile: string, timestamp = new Date()) =>
+  new LoadedUsageEntry({
+    timestamp,
+    usage: new TokenCounts({ inputTokens: 1000, outputTokens: 500 }),
+    costUSD,
+    model: 'claude-sonnet-4-5-20250929',
+    sourceFile,
+  });
+
+describe('BudgetService', () => {
+  let service: BudgetService;
+  let alerts: BudgetAlert[];
+
+  const setBudgets = (budgets?: BudgetsConfig) =>
+    mockReadConfig.mockResolvedValue({ worktrees: [], ...(budgets && { budgets }) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (BudgetService as any).instance = undefined;
+    service = BudgetService.getInstance();
+    alerts = [];
+    service.onAlert((alert) => alerts.push(alert));
+
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    mockGetEntries.mockResolvedValue([
+      entry(4, `${WORKTREE_LOGS}/session-1.jsonl`),
+      entry(2, `${WORKTREE_LOGS}/session-2.jsonl`),
+      entry(3, '/home/me/.claude/projects/-other/session-3.jsonl'),
+      entry(50, `${WORKTREE_LOGS}/session-1.jsonl`, yesterday),
+    ]);
+  });
+
+  it('should not read usage without budgets', async () => {
+    setBudgets();
+
+    expect(await service.check({ cwd: WORKTREE })).toEqual({ exceeded: [], hardStop: false });
+    expect(mockGetEntries).not.toHaveBeenCalled();
+  });
+
+  it('should sum spend per day, worktree and session', async () => {
+    setBudgets({
+      daily: { limit: 9, unit: 'usd' },
+      perWorktree: { limit: 56, unit: 'usd' },
+      perSession: { limit: 3000, unit: 'tokens' },
+    });
+
+    const { exceeded } = await service.check({ cwd: WORKTREE, sessionId: 'session-1' });
+
+    expect(exceeded).toEqual([
+      expect.objectContaining({ scope: 'daily', spent: 9 }),
+      expect.objectContaining({ scope: 'perWorktree', spent: 56 }),
+      expect.objectContaining({ scope: 'perSession', spent: 3000 }),
+    ]);
+  });
+
+  it('should warn once per threshold', async () => {
+    setBudgets({ daily: { limit: 10, unit: 'usd' }, warnAt: [0.5, 0.8] });
+
+    await service.check({ cwd: WORKTREE });
+    await service.check({ cwd: WORKTREE });
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        scope: 'daily',
+        level: 'warning',
+        message: 'Daily budget used: $9.00 of $10.00, 90% (app-fix)',
+      }),
+    ]);
+  });
+
+  it('should refuse queries only with a hard stop', async () => {
+    setBudgets({ perWorktree: { limit: 5, unit: 'usd' } });
+    await expect(service.assertWithinBudget({ cwd: WORKTREE })).resolves.toBeUndefined();
+    expect(alerts[0]).toMatchObject({ level: 'exceeded' });
+
+    setBudgets({ perWorktree: { limit: 5, unit: 'usd' }, hardStop: true });
+    await expect(service.assertWithinBudget({ cwd: WORKTREE })).rejects.toThrow(
+      BudgetExceededError
+    );
+    expect(await service.shouldStop({ cwd: '/elsewhere' })).toBe(false);
+  });
+});
@@ -3,6 +3,13 @@ import type { ClaudeCodeQueryOptions, Attachment } from '@/types/claudeCode.type
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { useSettingsStore } from '@/stores/settings';
 import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { FileDataStoreService } from '@/services/FileDataStoreService';
+import { SessionManifestService } from '@/services/SessionManifestService';
+import { GitService } from '@/services/GitService';
+import { SecretsService } from '@/services/SecretsService';
+import { getScopedMcpConfig } from '@/utils/scopedConfig';
+import log from 'electron-log';
 
 // Mock @anthropic-ai/claude-agent-sdk
 jest.mock('@anthropic-ai/claude-agent-sdk', () => ({
@@ -34,6 +41,8 @@ jest.mock('path', () => {
     join: (...args: string[]) => args.join('/'),
     resolve: (...args: string[]) => args.join('/'),
     isAbsolute: (p: string) => p.startsWith('/'),
+    relative: jest.requireActual('path').relative,
+    sep: '/',
     dirname: (p: string) => {
       const parts = p.split('/');
       parts.pop();
@@ -60,6 +69,53 @@ jest.mock('uuid', () => ({
   v4: jest.fn(() => 'mock-uuid-1234'),
 }));
 
+// Mock config store (project permission rules)
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: jest.fn(() => ({ readConfig: jest.fn().mockResolvedValue({ worktrees: [] }) })),
+  },
+}));
+
+// Mock session manifest (additional directories, branches, git states)
+jest.mock('@/services/SessionManifestService', () => ({
+  SessionManifestService: { getInstance: jest.fn() },
+}));
+
+// Mock git snapshots taken at query start
+jest.mock('@/services/GitService', () => ({
+  GitService: { getInstance: jest.fn() },
+}));
+
+// Mock trace file writes
+const mockTraceLog = jest.fn().mockResolvedValue(undefined);
+jest.mock('@/services/TraceLogger', () => ({
+  TraceLogger: { getInstance: jest.fn(() => ({ log: mockTraceLog })) },
+}));
+
+// Mock telemetry export of finished turns
+const mockEndTurn = jest.fn().mockResolvedValue(undefined);
+jest.mock('@/services/TelemetryService', () => ({
+  TelemetryService: { getInstance: jest.fn(() => ({ endTurn: mockEndTurn })) },
+}));
+
+// Mock MCP config loading; tests that need servers provide the scoped configs
+jest.mock('@/utils/scopedConfig', () => ({
+  getScopedMcpConfig: jest.fn().mockResolvedValue({ userOwnedServers: [] }),
+}));
+
+// Mock secret storage behind ${secret:NAME} references
+jest.mock('@/services/SecretsService', () => ({
+  SecretsService: { getInstance: jest.fn() },
+}));
+
+// Mock the terminal tools server; its tools are only checked by name
+jest.mock('@/services/TerminalToolsService', () => ({
+  TERMINAL_TOOLS_SERVER: 'autosteer-terminals',
+  READ_ONLY_TERMINAL_TOOLS: ['mcp__autosteer-terminals__list_terminals'],
+  SEND_TERMINAL_INPUT_TOOL: 'mcp__autosteer-terminals__send_terminal_input',
+  TerminalToolsService: { getInstance: jest.fn(() => ({ createServer: jest.fn(() => ({})) })) },
+}));
+
 // Mock settings store
 jest.mock('@/stores/settings', () => ({
   useSettingsStore: {
@@ -148,6 +204,38 @@ describe('ClaudeCodeSDKService', () => {
       );
     });
 
+    it('should trace the prompt and SDK messages under the query id', async () => {
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'system', subtype: 'init', session_id: 'test-session' };
+          yield { type: 'result', subtype: 'success', session_id: 'test-session' };
+        },
+        interrupt: jest.fn(),
+      } as any);
+
+      for await (const _message of service.queryClaudeCode('query-1', {
+        prompt: 'Hello',
+        sessionId: 'agent-123',
+      })) {
+        // drain
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(
+        mockTraceLog.mock.calls.map(([sessionId, direction, , correlationId]) => [
+          sessionId,
+          direction,
+          correlationId,
+        ])
+      ).toEqual([
+        ['test-session', 'to-claude', 'query-1'],
+        ['test-session', 'from-claude', 'query-1'],
+        ['test-session', 'from-claude', 'query-1'],
+      ]);
+      expect(mockTraceLog.mock.calls[0][2]).toEqual(expect.objectContaining({ prompt: 'Hello' }));
+      expect(mockEndTurn).toHaveBeenCalledWith('query-1', undefined);
+    });
+
     it('should handle query with attachments', async () => {
       const attachment: Attachment = {
         type: 'image',
@@ -391,7 +479,7 @@ describe('ClaudeCodeSDKService', () => {
     });
 
     it('should abort active query', async () => {
-      const mockInterrupt = jest.fn();
+      const mockInterrupt = jest.fn().mockResolvedValue(undefined);
       const mockMessages = [
         { type: 'init', session_id: 'test' },
         { type: 'message', content: 'Processing...' },
@@ -431,6 +519,20 @@ describe('ClaudeCodeSDKService', () => {
       }
     });
 
+    it('should not reject when interrupting a query that already finished', async () => {
+      const mockInterrupt = jest.fn().mockRejectedValue(new Error('Query is not running'));
+      (service as any).activeQueries.set('done-query', { interrupt: mockInterrupt });
+
+      service.abortQuery('done-query');
+      await Promise.resolve();
+
+      expect(mockInterrupt).toHaveBeenCalled();
+      expect(log.warn).toHaveBeenCalledWith('[SDK Service] Failed to interrupt query:', {
+        queryId: 'done-query',
+        error: 'Error: Query is not running',
+      });
+    });
+
     it('should handle aborting non-existent query', () => {
       expect(() => service.abortQuery('non-existent')).not.toThrow();
     });
@@ -1033,6 +1135,538 @@ describe('ClaudeCodeSDKService', () => {
     });
   });
 
+  describe('Live permission prompts', () => {
+    let service: ClaudeCodeSDKService;
+
+    const mockEmptyQuery = () =>
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'result', subtype: 'success' };
+        },
+        interrupt: jest.fn(),
+      } as any);
+
+    const runQuery = async (queryOptions: ClaudeCodeQueryOptions, requester?: any) => {
+      for await (const _message of service.queryClaudeCode('query-1', queryOptions, requester)) {
+        // drain
+      }
+      return mockQuery.mock.calls[mockQuery.mock.calls.length - 1][0].options!;
+    };
+
+    const callCanUseTool = (options: any, toolName: string, input: any, extra: any = {}) =>
+      options.canUseTool(toolName, input, {
+        signal: new AbortController().signal,
+        toolUseID: 'tool-1',
+        ...extra,
+      });
+
+    beforeEach(() => {
+      service = ClaudeCodeSDKService.getInstance();
+      mockEmptyQuery();
+    });
+
+    it('should not set canUseTool without a requester', async () => {
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' });
+
+      expect(options.canUseTool).toBeUndefined();
+    });
+
+    it('should forward the tool call to the requester and allow once', async () => {
+      const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'once' });
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' }, requester);
+
+      const result = await callCanUseTool(
+        options,
+        'Bash',
+        { command: 'ls' },
+        {
+          decisionReason: 'Not in allowed tools',
+        }
+      );
+
+      expect(requester).toHaveBeenCalledWith(
+        {
+          sessionId: 'agent-1',
+          toolName: 'Bash',
+          toolUseId: 'tool-1',
+          input: { command: 'ls' },
+          decisionReason: 'Not in allowed tools',
+        },
+        expect.any(AbortSignal)
+      );
+      expect(result).toEqual({ behavior: 'allow', updatedInput: { command: 'ls' } });
+    });
+
+    it('should interrupt on a bare deny and continue on a deny with a message', async () => {
+      const requester = jest
+        .fn()
+        .mockResolvedValueOnce({ behavior: 'deny' })
+        .mockResolvedValueOnce({ behavior: 'deny', message: 'Use pnpm instead' });
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' }, requester);
+
+      await expect(callCanUseTool(options, 'Bash', { command: 'npm i' })).resolves.toEqual({
+        behavior: 'deny',
+        message: 'The user denied this tool use.',
+        interrupt: true,
+      });
+      await expect(callCanUseTool(options, 'Bash', { command: 'npm i' })).resolves.toEqual({
+        behavior: 'deny',
+        message: 'Use pnpm instead',
+      });
+    });
+
+    it('should scope suggestions to the session and reuse them in later queries', async () => {
+      const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'session' });
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' }, requester);
+
+      const result = await callCanUseTool(
+        options,
+        'Bash',
+        { command: 'npm test' },
+        {
+          suggestions: [
+            {
+              type: 'addRules',
+              rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+              behavior: 'allow',
+              destination: 'localSettings',
+            },
+          ],
+        }
+      );
+
+      expect(result.updatedPermissions).toEqual([
+        {
+          type: 'addRules',
+          rules: [{ toolName: 'Bash', ruleContent: 'npm test:*' }],
+          behavior: 'allow',
+          destination: 'session',
+        },
+      ]);
+
+      const nextOptions = await runQuery({ prompt: 'Again', sessionId: 'agent-1' }, requester);
+      expect(nextOptions.allowedTools).toContain('Bash(npm test:*)');
+
+      const otherOptions = await runQuery({ prompt: 'Other', sessionId: 'agent-2' }, requester);
+      expect(otherOptions.allowedTools ?? []).not.toContain('Bash(npm test:*)');
+    });
+
+    it('should only allow terminal input once', async () => {
+      const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'session' });
+      const options = await runQuery({ prompt: 'Hi', options: { cwd: '/wt' } }, requester);
+      const terminalTool = 'mcp__autosteer-terminals__send_terminal_input';
+
+      const result = await callCanUseTool(options, terminalTool, { terminalId: 't1', input: 'ls' });
+
+      expect(requester).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: terminalTool, onceOnly: true }),
+        expect.any(AbortSignal)
+      );
+      expect(result).toEqual({
+        behavior: 'allow',
+        updatedInput: { terminalId: 't1', input: 'ls' },
+      });
+    });
+
+    it('should fall back to a tool rule when there are no suggestions', async () => {
+      const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'session' });
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' }, requester);
+
+      const result = await callCanUseTool(options, 'WebFetch', { url: 'https://example.com' });
+
+      expect(result.updatedPermissions).toEqual([
+        {
+          type: 'addRules',
+          rules: [{ toolName: 'WebFetch' }],
+          behavior: 'allow',
+          destination: 'session',
+        },
+      ]);
+    });
+
+    it('should forget session rules when the session is cleared', async () => {
+      const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'session' });
+      const options = await runQuery({ prompt: 'Hi', sessionId: 'agent-1' }, requester);
+      await callCanUseTool(options, 'WebFetch', { url: 'https://example.com' });
+
+      service.clearSessionForEntry('agent-1');
+
+      const nextOptions = await runQuery({ prompt: 'Again', sessionId: 'agent-1' }, requester);
+      expect(nextOptions.allowedTools ?? []).not.toContain('WebFetch');
+    });
+  });
+
+  describe('Long-lived chat processes', () => {
+    let service: ClaudeCodeSDKService;
+    const prompts: string[] = [];
+    const setModel = jest.fn().mockResolvedValue(undefined);
+    const requester = jest.fn().mockResolvedValue({ behavior: 'allow', scope: 'once' });
+
+    beforeEach(() => {
+      service = ClaudeCodeSDKService.getInstance();
+      prompts.length = 0;
+      (FileDataStoreService.getInstance as jest.Mock).mockReturnValue({
+        readConfig: jest.fn().mockResolvedValue({ worktrees: [] }),
+      });
+      (existsSync as jest.Mock).mockReturnValue(true);
+
+      // Answers every prompt message with a result, like the SDK in streaming input mode
+      mockQuery.mockImplementation(({ prompt }) => {
+        async function* run() {
+          yield { type: 'system', subtype: 'init', session_id: 'claude-1' };
+          if (typeof prompt === 'string') {
+            prompts.push(prompt);
+            yield { type: 'result', subtype: 'success', session_id: 'claude-1' };
+            return;
+          }
+          for await (const message of prompt) {
+            prompts.push(message.message.content as string);
+            yield {
+              type: 'result',
+              subtype: 'success',
+              session_id: 'claude-1',
+              usage: { cache_read_input_tokens: 100, cache_creation_input_tokens: 0 },
+            };
+          }
+        }
+        return Object.assign(run(), {
+          interrupt: jest.fn(),
+          setModel,
+          setPermissionMode: jest.fn().mockResolvedValue(undefined),
+        }) as any;
+      });
+    });
+
+    afterEach(() => {
+      service.clearSessions();
+      (existsSync as jest.Mock).mockReturnValue(false);
+    });
+
+    const chat = async (prompt: string, options: ClaudeCodeQueryOptions['options'] = {}) => {
+      for await (const _message of service.queryClaudeCode(
+        `query-${prompt}`,
+        { prompt, sessionId: 'agent-1', options: { cwd: '/worktrees/app-main', ...options } },
+        requester
+      )) {
+        // drain
+      }
+    };
+
+    it('should send follow-up chat turns to the same SDK process', async () => {
+      await chat('first');
+      await chat('second');
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(prompts).toEqual(['first', 'second']);
+      expect(service.getSessionId('agent-1')).toBe('claude-1');
+      expect(service.getSessionMetrics('agent-1')).toMatchObject({
+        queryStarts: 1,
+        turnsCompleted: 2,
+        cacheHits: 2,
+        cacheReadTokens: 200,
+      });
+    });
+
+    it('should switch the model live and restart when the process options change', async () => {
+      await chat('first', { model: 'opus' });
+      await chat('second', { model: 'sonnet' });
+      expect(setModel).toHaveBeenCalledWith('sonnet');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+
+      await chat('third', { model: 'sonnet', systemPrompt: 'Be brief' });
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[1][0].options).toEqual(
+        expect.objectContaining({ resume: 'claude-1', systemPrompt: 'Be brief' })
+      );
+      expect(service.getSessionMetrics('agent-1')?.queryStarts).toBe(2);
+    });
+
+    it('should start over in a new process once the session is cleared', async () => {
+      await chat('first');
+
+      service.clearSessionForEntry('agent-1');
+      await chat('second');
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[1][0].options?.resume).toBeUndefined();
+    });
+
+    it('should give queries without a permission prompt a process of their own', async () => {
+      for (const prompt of ['first', 'second']) {
+        for await (const _message of service.queryClaudeCode(prompt, {
+          prompt,
+          sessionId: 'agent-1',
+          options: { cwd: '/worktrees/app-main' },
+        })) {
+          // drain
+        }
+      }
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[0][0].prompt).toBe('first');
+      expect(service.getSessionMetrics('agent-1')).toBeNull();
+    });
+  });
+
+  describe('Project permission rules', () => {
+    let service: ClaudeCodeSDKService;
+    const mockReadConfig = jest.fn();
+
+    beforeEach(() => {
+      service = ClaudeCodeSDKService.getInstance();
+      mockReadConfig.mockReset();
+      (FileDataStoreService.getInstance as jest.Mock).mockReturnValue({
+        readConfig: mockReadConfig,
+      });
+      (existsSync as jest.Mock).mockReturnValue(true);
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'result', subtype: 'success' };
+        },
+        interrupt: jest.fn(),
+      } as any);
+    });
+
+    afterEach(() => {
+      (existsSync as jest.Mock).mockReturnValue(false);
+    });
+
+    const runQuery = async () => {
+      for await (const _message of service.queryClaudeCode('query-1', {
+        prompt: 'Hi',
+        sessionId: 'agent-1',
+        options: { cwd: '/worktrees/app-main' },
+      })) {
+        // drain
+      }
+      return mockQuery.mock.calls[mockQuery.mock.calls.length - 1][0].options!;
+    };
+
+    const hookInput = (tool_name: string, tool_input: unknown, permission_mode = 'default') =>
+      ({
+        hook_event_name: 'PreToolUse',
+        session_id: 's',
+        transcript_path: '/t',
+        cwd: '/worktrees/app-main',
+        permission_mode,
+        tool_name,
+        tool_input,
+        tool_use_id: 'tool-1',
+      }) as any;
+
+    const terminalInput = (input: string, permissionMode?: string) =>
+      hookInput(
+        'mcp__autosteer-terminals__send_terminal_input',
+        { terminalId: 't1', input },
+        permissionMode
+      );
+
+    it('should only confirm terminal input when the worktree has no rules', async () => {
+      mockReadConfig.mockResolvedValue({ worktrees: [] });
+
+      const options = await runQuery();
+      const hook = options.hooks!.PreToolUse![0].hooks[0];
+      const signal = new AbortController().signal;
+
+      await expect(
+        hook(hookInput('Write', { file_path: 'README.md' }), 'tool-1', { signal })
+      ).resolves.toEqual({});
+      await expect(hook(terminalInput('ls'), 'tool-1', { signal })).resolves.toEqual({
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'ask',
+          permissionDecisionReason: "Input typed into the user's terminal is always confirmed",
+        },
+      });
+    });
+
+    it('should match terminal input against Bash rules', async () => {
+      mockReadConfig.mockResolvedValue({
+        worktrees: [],
+        permissionRules: {
+          'app-main': [
+            { id: 'r1', behavior: 'deny', tool: 'Bash', pattern: 'rm:*' },
+            { id: 'r2', behavior: 'allow', tool: 'Bash', pattern: 'npm test:*' },
+          ],
+        },
+      });
+      const options = await runQuery();
+      const hook = options.hooks!.PreToolUse![0].hooks[0];
+      const signal = new AbortController().signal;
+
+      for (const permissionMode of ['default', 'bypassPermissions']) {
+        await expect(
+          hook(terminalInput('npm test && rm -rf ~', permissionMode), 'tool-1', { signal })
+        ).resolves.toEqual({
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'deny',
+            permissionDecisionReason: 'Blocked by project permission rule "deny Bash(rm:*)"',
+          },
+        });
+      }
+      await expect(hook(terminalInput('npm test'), 'tool-1', { signal })).resolves.toMatchObject({
+        hookSpecificOutput: { permissionDecision: 'ask' },
+      });
+      await expect(
+        hook(terminalInput('npm test', 'bypassPermissions'), 'tool-1', { signal })
+      ).resolves.toEqual({});
+    });
+  });
+
+  describe('MCP secrets', () => {
+    let service: ClaudeCodeSDKService;
+
+    beforeEach(() => {
+      service = ClaudeCodeSDKService.getInstance();
+      (SecretsService.getInstance as jest.Mock).mockReturnValue({
+        resolveReferences: jest.fn(async (value) => ({
+          value: JSON.parse(JSON.stringify(value).split('${secret:TOKEN}').join('s3cret')),
+          missing: [],
+        })),
+      });
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'result', subtype: 'success' };
+        },
+        interrupt: jest.fn(),
+      } as any);
+    });
+
+    it('should resolve secret references only for servers the user owns', async () => {
+      const server = (token: string) => ({ command: 'srv', env: { TOKEN: token } });
+      (getScopedMcpConfig as jest.Mock).mockResolvedValueOnce({
+        mcpServers: { mine: server('${secret:TOKEN}'), theirs: server('${secret:TOKEN}') },
+        userOwnedServers: ['mine'],
+      });
+
+      for await (const _message of service.queryClaudeCode('query-1', {
+        prompt: 'Hi',
+        options: { cwd: '/worktrees/app-main' },
+      })) {
+        // drain
+      }
+
+      const options = mockQuery.mock.calls[mockQuery.mock.calls.length - 1][0].options!;
+      expect(options.mcpServers).toEqual({
+        mine: server('s3cret'),
+        theirs: server('${secret:TOKEN}'),
+        'autosteer-terminals': {},
+      });
+    });
+  });
+
+  describe('Session branching', () => {
+    let service: ClaudeCodeSDKService;
+    const mockManifest = {
+      getAdditionalDirectories: jest.fn(),
+      getPendingBranch: jest.fn(),
+      addCheckpoint: jest.fn(),
+      updateCheckpoint: jest.fn(),
+    };
+    const mockGit = {
+      createCheckpoint: jest.fn(),
+      getCheckpointChangedFiles: jest.fn(),
+      deleteCheckpointRefs: jest.fn(),
+    };
+
+    beforeEach(() => {
+      service = ClaudeCodeSDKService.getInstance();
+      mockManifest.getAdditionalDirectories.mockResolvedValue([]);
+      mockManifest.getPendingBranch.mockResolvedValue(undefined);
+      (SessionManifestService.getInstance as jest.Mock).mockReturnValue(mockManifest);
+      mockManifest.addCheckpoint.mockResolvedValue([]);
+      mockGit.createCheckpoint
+        .mockResolvedValueOnce('before-sha')
+        .mockResolvedValueOnce('after-sha');
+      mockGit.getCheckpointChangedFiles.mockResolvedValue(['src/a.ts']);
+      (GitService.getInstance as jest.Mock).mockReturnValue(mockGit);
+      mockQuery.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'result', subtype: 'success' };
+        },
+        interrupt: jest.fn(),
+      } as any);
+    });
+
+    const runQuery = async (resume?: string) => {
+      for await (const _message of service.queryClaudeCode('query-1', {
+        prompt: 'Hi',
+        sessionId: 'agent-1',
+        options: { cwd: '/worktrees/app-main', ...(resume && { resume }) },
+      })) {
+        // drain
+      }
+      return mockQuery.mock.calls[mockQuery.mock.calls.length - 1][0].options!;
+    };
+
+    it('should checkpoint the worktree before and after the turn', async () => {
+      await runQuery();
+
+      expect(mockGit.createCheckpoint).toHaveBeenNthCalledWith(
+        1,
+        '/worktrees/app-main',
+        'agent-1/mock-uuid-1234/before'
+      );
+      expect(mockManifest.addCheckpoint).toHaveBeenCalledWith(
+        'app-main',
+        'agent-1',
+        expect.objectContaining({ id: 'mock-uuid-1234', prompt: 'Hi', before: 'before-sha' })
+      );
+      expect(mockGit.createCheckpoint).toHaveBeenNthCalledWith(
+        2,
+        '/worktrees/app-main',
+        'agent-1/mock-uuid-1234/after'
+      );
+      expect(mockManifest.updateCheckpoint).toHaveBeenCalledWith(
+        'app-main',
+        'agent-1',
+        'mock-uuid-1234',
+        expect.objectContaining({ after: 'after-sha', files: ['src/a.ts'] })
+      );
+    });
+
+    it('should delete git refs of checkpoints dropped from the manifest', async () => {
+      mockManifest.addCheckpoint.mockResolvedValue([{ id: 'old-1' }]);
+
+      await runQuery();
+
+      expect(mockGit.deleteCheckpointRefs).toHaveBeenCalledWith('/worktrees/app-main', [
+        'agent-1/old-1/before',
+        'agent-1/old-1/after',
+      ]);
+    });
+
+    it('should fork the source session at the branch point', async () => {
+      mockManifest.getPendingBranch.mockResolvedValue({
+        sourceSessionId: 'source-session',
+        cutAtMessageId: 'user-2',
+        resumeAt: 'assistant-1',
+        createdAt: new Date().toISOString(),
+      });
+
+      const options = await runQuery('latest-session');
+
+      expect(options.resume).toBe('source-session');
+      expect(options.resumeSessionAt).toBe('assistant-1');
+      expect(options.forkSession).toBe(true);
+    });
+
+    it('should start a fresh session when branching before the first reply', async () => {
+      mockManifest.getPendingBranch.mockResolvedValue({
+        sourceSessionId: 'source-session',
+        cutAtMessageId: 'user-1',
+        createdAt: new Date().toISOString(),
+      });
+
+      const options = await runQuery('latest-session');
+
+      expect(options.resume).toBeUndefined();
+      expect(options.forkSession).toBeUndefined();
+    });
+  });
+
   describe('Edge cases', () => {
     let service: ClaudeCodeSDKService;
 
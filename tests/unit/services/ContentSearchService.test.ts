@@ -0,0 +1,259 @@
+/**
+ * Unit tests for ContentSearchService
+ * ripgrep is replaced by a fake process; the built-in search runs against a temp git repo
+ */
+
+import { ContentSearchService } from '@/services/ContentSearchService';
+import {
+  ContentSearchFileResult,
+  ContentSearchRequest,
+  ContentSearchSummary,
+  IpcChannelNames,
+} from '@/types/ipc.types';
+import { execFileSync, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('child_process', () => ({
+  ...jest.requireActual('child_process'),
+  spawn: jest.fn(),
+}));
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+// fast-glob walks directories with setImmediate, which jsdom does not provide
+global.setImmediate ??= ((callback: (...args: unknown[]) => void, ...args: unknown[]) =>
+  setTimeout(callback, 0, ...args)) as unknown as typeof setImmediate;
+
+const fakeProcess = () => {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: jest.fn(() => {
+      setTimeout(() => child.emit('close', null));
+      return true;
+    }),
+  });
+  return child;
+};
+
+const ripgrepMissing = () => {
+  const child = fakeProcess();
+  setTimeout(() =>
+    child.emit('error', Object.assign(new Error('spawn rg ENOENT'), { code: 'ENOENT' }))
+  );
+  return child;
+};
+
+describe('ContentSearchService', () => {
+  let workspacePath: string;
+
+  const search = (request: Omit<ContentSearchRequest, 'workspacePath'>) =>
+    new Promise<{ results: ContentSearchFileResult[]; summary: ContentSearchSummary }>(
+      (resolve) => {
+        const results: ContentSearchFileResult[] = [];
+        const window = {
+          isDestroyed: () => false,
+          webContents: {
+            send: (channel: string, _searchId: string, payload: any) => {
+              if (channel === IpcChannelNames.FILE_SEARCH_CONTENT_RESULTS) {
+                results.push(...payload);
+              } else if (channel === IpcChannelNames.FILE_SEARCH_CONTENT_DONE) {
+                resolve({ results, summary: payload });
+              }
+            },
+          },
+        } as any;
+        ContentSearchService.getInstance().search(window, { workspacePath, ...request });
+      }
+    );
+
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workspacePath, name)), { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, name), content);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ContentSearchService as any).instance = undefined;
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'content-search-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  describe('ripgrep', () => {
+    const json = (message: Record<string, unknown>) => `${JSON.stringify(message)}\n`;
+
+    // The search checks the workspace before it starts ripgrep
+    const spawned = async () => {
+      while (mockSpawn.mock.calls.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    };
+
+    it('should pass the options to ripgrep and stream its matches', async () => {
+      const child = fakeProcess();
+      mockSpawn.mockReturnValue(child as any);
+
+      const done = search({ query: 'a.b', include: ['*.ts'], exclude: ['dist/**'] });
+      await spawned();
+
+      // "é" is two bytes, so the byte offsets are one more than the columns
+      child.stdout.emit(
+        'data',
+        Buffer.from(
+          json({ type: 'begin', data: { path: { text: './src/é.ts' } } }) +
+            json({
+              type: 'match',
+              data: {
+                path: { text: './src/é.ts' },
+                lines: { text: 'const é = a.b;\n' },
+                line_number: 3,
+                submatches: [{ match: { text: 'a.b' }, start: 11, end: 14 }],
+              },
+            }) +
+            json({ type: 'end', data: { path: { text: './src/é.ts' } } })
+        )
+      );
+      child.emit('close', 0);
+
+      const { results, summary } = await done;
+
+      const args = mockSpawn.mock.calls[0][1];
+      expect(args).toEqual(
+        expect.arrayContaining(['--json', '--ignore-case', '--fixed-strings', '!dist/**', '*.ts'])
+      );
+      expect(args.slice(-4)).toEqual(['--regexp', 'a.b', '--', '.']);
+      expect(results).toEqual([
+        {
+          path: 'src/é.ts',
+          absolutePath: path.join(workspacePath, 'src/é.ts'),
+          matches: [
+            { line: 3, column: 11, length: 3, text: 'a.b', before: 'const é = ', after: ';' },
+          ],
+        },
+      ]);
+      expect(summary).toMatchObject({ engine: 'ripgrep', fileCount: 1, matchCount: 1 });
+    });
+
+    it('should stop ripgrep at the result limit', async () => {
+      const child = fakeProcess();
+      mockSpawn.mockReturnValue(child as any);
+
+      const done = search({ query: 'x', maxResults: 1 });
+      await spawned();
+
+      const file = (name: string) =>
+        json({ type: 'begin', data: { path: { text: name } } }) +
+        json({
+          type: 'match',
+          data: {
+            lines: { text: 'x x\n' },
+            line_number: 1,
+            submatches: [
+              { start: 0, end: 1 },
+              { start: 2, end: 3 },
+            ],
+          },
+        }) +
+        json({ type: 'end', data: {} });
+      child.stdout.emit('data', Buffer.from(file('a.txt') + file('b.txt')));
+
+      const { results, summary } = await done;
+
+      expect(child.kill).toHaveBeenCalled();
+      expect(results).toHaveLength(1);
+      expect(results[0].matches).toHaveLength(1);
+      expect(summary).toMatchObject({ matchCount: 1, limitHit: true });
+    });
+
+    it('should report ripgrep errors such as an invalid regex', async () => {
+      const child = fakeProcess();
+      mockSpawn.mockReturnValue(child as any);
+
+      const done = search({ query: '(', isRegex: true });
+      await spawned();
+      child.stderr.emit('data', Buffer.from('regex parse error: unclosed group\n'));
+      child.emit('close', 2);
+
+      const { summary } = await done;
+      expect(summary.error).toBe('regex parse error: unclosed group');
+    });
+  });
+
+  describe('built-in search', () => {
+    beforeEach(() => {
+      mockSpawn.mockImplementation(ripgrepMissing as any);
+      execFileSync('git', ['init', '-q'], { cwd: workspacePath });
+      write('.gitignore', 'dist/\n');
+      write('src/app.ts', 'const Hello = 1;\nconsole.log(hello, helloWorld);\n');
+      write('src/app.test.ts', 'expect(hello).toBe(1);\n');
+      write('dist/app.js', 'hello\n');
+      write('README.md', 'Say hello\n');
+    });
+
+    it('should search the files git does not ignore when ripgrep is missing', async () => {
+      const { results, summary } = await search({ query: 'hello' });
+
+      expect(summary).toMatchObject({ engine: 'fallback', fileCount: 3, matchCount: 5 });
+      expect(results.map((file) => file.path)).toEqual([
+        'README.md',
+        'src/app.test.ts',
+        'src/app.ts',
+      ]);
+      expect(results[2].matches[1]).toEqual({
+        line: 2,
+        column: 13,
+        length: 5,
+        text: 'hello',
+        before: 'console.log(',
+        after: ', helloWorld);',
+      });
+    });
+
+    it('should apply the case, whole word and glob options', async () => {
+      const { results } = await search({
+        query: 'hello',
+        caseSensitive: true,
+        wholeWord: true,
+        include: ['*.ts'],
+        exclude: ['*.test.ts'],
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].matches.map((match) => [match.line, match.column])).toEqual([[2, 13]]);
+    });
+
+    it('should support regular expressions', async () => {
+      const { results } = await search({ query: 'hello\\w+', isRegex: true });
+
+      expect(results.flatMap((file) => file.matches.map((match) => match.text))).toEqual([
+        'helloWorld',
+      ]);
+    });
+
+    it('should report an invalid regular expression', async () => {
+      const { results, summary } = await search({ query: '(', isRegex: true });
+
+      expect(results).toEqual([]);
+      expect(summary.error).toMatch(/Invalid regular expression/);
+    });
+  });
+
+  it('should reject an empty query', () => {
+    expect(() =>
+      ContentSearchService.getInstance().search({} as any, { workspacePath: '/tmp', query: '' })
+    ).toThrow('Search query is empty');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for EffectiveSettingsService
+ * Project settings files are written to a temporary worktrees directory
+ */
+
+import { EffectiveSettingsService } from '@/services/EffectiveSettingsService';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const mockReadConfig = jest.fn();
+const mockWriteConfig = jest.fn();
+const mockReadAppConfig = jest.fn();
+const mockWriteAppConfig = jest.fn();
+const mockSaveFetchCache = jest.fn();
+const mockWorktreesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'autosteer-settings-test-'));
+
+jest.mock('@/commons/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({
+      readConfig: mockReadConfig,
+      writeConfig: mockWriteConfig,
+      readAppConfig: mockReadAppConfig,
+      writeAppConfig: mockWriteAppConfig,
+      getWorktreesDirectory: () => mockWorktreesDir,
+    }),
+  },
+}));
+
+jest.mock('@/services/FetchCacheInspectorService', () => ({
+  FetchCacheInspectorService: {
+    getInstance: () => ({ saveConfig: mockSaveFetchCache }),
+  },
+}));
+
+const writeProjectSettings = (worktreeId: string, content: string) => {
+  fs.mkdirSync(path.join(mockWorktreesDir, worktreeId), { recursive: true });
+  fs.writeFileSync(path.join(mockWorktreesDir, worktreeId, '.autosteer.json'), content);
+};
+
+describe('EffectiveSettingsService', () => {
+  const service = EffectiveSettingsService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockReadConfig.mockResolvedValue({
+      worktrees: [],
+      settings: { theme: 'dark', maxTurns: 20, vimMode: true },
+      sessionSettings: { 'agent-1': { permissionMode: 'plan', model: null } },
+    });
+    mockReadAppConfig.mockResolvedValue({ fetchCache: { ttl: 60 } });
+  });
+
+  afterAll(() => {
+    fs.rmSync(mockWorktreesDir, { recursive: true, force: true });
+  });
+
+  describe('resolve', () => {
+    it('should resolve user, project and session layers in order', async () => {
+      writeProjectSettings('repo-main', JSON.stringify({ preferences: { maxTurns: 5 } }));
+
+      const effective = await service.resolve('repo-main', 'agent-1');
+
+      expect(effective.settings.preferences.theme).toBe('dark');
+      expect(effective.sources['preferences.theme']).toBe('user');
+      expect(effective.settings.preferences.maxTurns).toBe(5);
+      expect(effective.sources['preferences.maxTurns']).toBe('project');
+      expect(effective.settings.preferences.defaultPermissionMode).toBe('plan');
+      expect(effective.sources['preferences.defaultPermissionMode']).toBe('session');
+      expect(effective.settings.fetchCache.ttl).toBe(60);
+      expect(effective.sources['fetchCache.ttl']).toBe('user');
+      expect(effective.projectFile).toBe(
+        path.join(mockWorktreesDir, 'repo-main', '.autosteer.json')
+      );
+      expect(effective.issues).toEqual([]);
+    });
+
+    it('should resolve without a project settings file', async () => {
+      const effective = await service.resolve('no-settings');
+
+      expect(effective.projectFile).toBeUndefined();
+      expect(effective.settings.preferences.maxTurns).toBe(20);
+    });
+  });
+
+  describe('getProjectSettings', () => {
+    it('should report invalid JSON', async () => {
+      writeProjectSettings('broken', '{ "preferences": ');
+
+      const project = await service.getProjectSettings('broken');
+
+      expect(project.exists).toBe(true);
+      expect(project.settings).toEqual({});
+      expect(project.issues[0]?.message).toMatch(/^Invalid JSON/);
+    });
+
+    it('should ignore editor settings', async () => {
+      writeProjectSettings('with-ide', JSON.stringify({ ide: { preferredEditor: 'vim' } }));
+
+      const project = await service.getProjectSettings('with-ide');
+
+      expect(project.settings).toEqual({});
+      expect(project.issues).toEqual([expect.objectContaining({ key: 'ide' })]);
+    });
+
+    it('should ignore the default permission mode', async () => {
+      writeProjectSettings(
+        'with-mode',
+        JSON.stringify({
+          preferences: { defaultPermissionMode: 'bypassPermissions', maxTurns: 40 },
+        })
+      );
+
+      const project = await service.getProjectSettings('with-mode');
+
+      expect(project.settings).toEqual({ preferences: { maxTurns: 40 } });
+      expect(project.issues).toEqual([
+        expect.objectContaining({ key: 'preferences.defaultPermissionMode' }),
+      ]);
+    });
+  });
+
+  describe('exportUserSettings', () => {
+    it('should export only known user settings', async () => {
+      const exported = JSON.parse(await service.exportUserSettings());
+
+      expect(exported).toEqual({
+        version: 1,
+        preferences: { theme: 'dark', maxTurns: 20 },
+        fetchCache: { ttl: 60 },
+      });
+    });
+  });
+
+  describe('importUserSettings', () => {
+    it('should merge imported values into the user settings', async () => {
+      await service.importUserSettings(
+        JSON.stringify({
+          version: 1,
+          preferences: { fontSize: 'large' },
+          fetchCache: { enabled: true },
+        })
+      );
+
+      expect(mockWriteConfig).toHaveBeenCalledWith(
+        expect.objectContaining({
+          settings: { theme: 'dark', maxTurns: 20, vimMode: true, fontSize: 'large' },
+        })
+      );
+      expect(mockSaveFetchCache).toHaveBeenCalledWith({ ttl: 60, enabled: true });
+    });
+
+    it('should reject invalid files without saving', async () => {
+      await expect(
+        service.importUserSettings(JSON.stringify({ preferences: { maxTurns: -1 } }))
+      ).rejects.toThrow(/^Invalid settings file: preferences\.maxTurns/);
+      await expect(service.importUserSettings('not json')).rejects.toThrow(
+        'Invalid settings file: not valid JSON'
+      );
+
+      expect(mockWriteConfig).not.toHaveBeenCalled();
+      expect(mockSaveFetchCache).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { FanOutService } from '@/services/FanOutService';
+
+const mockQueryClaudeCode = jest.fn();
+const mockUpdateAgentSession = jest.fn();
+const mockGetAgent = jest.fn();
+const mockUpdateAgent = jest.fn();
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('@/services/ClaudeCodeSDKService', () => ({
+  ClaudeCodeSDKService: {
+    getInstance: () => ({ queryClaudeCode: mockQueryClaudeCode }),
+  },
+}));
+
+jest.mock('@/services/SessionManifestService', () => ({
+  SessionManifestService: {
+    getInstance: () => ({ updateAgentSession: mockUpdateAgentSession }),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({
+      getWorktreePath: (folderName: string) => `/tmp/worktrees/${folderName}`,
+      getAgent: mockGetAgent,
+      updateAgent: mockUpdateAgent,
+    }),
+  },
+}));
+
+async function* messages(...items: Record<string, unknown>[]) {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('FanOutService', () => {
+  const service = FanOutService.getInstance();
+  const request = {
+    worktreeId: 'repo-feature-v1',
+    agentId: 'agent-1',
+    prompt: 'fix the bug',
+    model: 'claude-haiku-4-5-20251001',
+    permissionMode: 'acceptEdits',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAgent.mockResolvedValue({ id: 'agent-1', metadata: { pinned: true } });
+  });
+
+  describe('run', () => {
+    it('should run the prompt in the worktree and report cost, duration and turns', async () => {
+      mockQueryClaudeCode.mockReturnValue(
+        messages(
+          { type: 'system', subtype: 'init', session_id: 'claude-session-1' },
+          { type: 'assistant' },
+          {
+            type: 'result',
+            subtype: 'success',
+            total_cost_usd: 0.42,
+            usage: { input_tokens: 100_000, output_tokens: 20_000 },
+            duration_ms: 12000,
+            num_turns: 3,
+          }
+        )
+      );
+
+      const result = await service.run(request);
+
+      expect(mockQueryClaudeCode).toHaveBeenCalledWith(expect.any(String), {
+        prompt: 'fix the bug',
+        sessionId: 'agent-1',
+        options: {
+          cwd: '/tmp/worktrees/repo-feature-v1',
+          model: 'claude-haiku-4-5-20251001',
+          permissionMode: 'acceptEdits',
+        },
+      });
+      // Headless: no permission requester
+      expect(mockQueryClaudeCode.mock.calls[0]).toHaveLength(2);
+      expect(result).toEqual({
+        success: true,
+        sessionId: 'claude-session-1',
+        costUsd: 0.2, // From the pricing table, not the SDK's estimate
+        durationMs: 12000,
+        numTurns: 3,
+      });
+    });
+
+    it('should save the session id so the conversation can be continued', async () => {
+      mockQueryClaudeCode.mockReturnValue(
+        messages({ type: 'system', subtype: 'init', session_id: 'claude-session-1' })
+      );
+
+      await service.run(request);
+
+      expect(mockUpdateAgentSession).toHaveBeenCalledWith(
+        'repo-feature-v1',
+        'agent-1',
+        'claude-session-1'
+      );
+      expect(mockUpdateAgent).toHaveBeenCalledWith(
+        'agent-1',
+        expect.objectContaining({
+          metadata: { pinned: true, claude_session_id: 'claude-session-1' },
+          claude_session_id: 'claude-session-1',
+        })
+      );
+    });
+
+    it('should report failed runs and skip the tests', async () => {
+      mockQueryClaudeCode.mockReturnValue(
+        messages({
+          type: 'result',
+          subtype: 'error_max_turns',
+          is_error: true,
+          duration_ms: 500,
+        })
+      );
+      const runTests = jest.spyOn(service, 'runTests');
+
+      const result = await service.run({ ...request, testCommand: 'npm test' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Agent run ended with error_max_turns');
+      expect(result.tests).toBeUndefined();
+      expect(runTests).not.toHaveBeenCalled();
+      runTests.mockRestore();
+    });
+
+    it('should report errors thrown by the SDK', async () => {
+      mockQueryClaudeCode.mockImplementation(async function* () {
+        yield { type: 'system', subtype: 'init', session_id: 'claude-session-1' };
+        throw new Error('Claude Code process exited');
+      });
+
+      const result = await service.run(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Claude Code process exited');
+      expect(result.sessionId).toBe('claude-session-1');
+    });
+
+    it('should run the test command after a successful run', async () => {
+      mockQueryClaudeCode.mockReturnValue(messages({ type: 'result', subtype: 'success' }));
+      const runTests = jest.spyOn(service, 'runTests').mockResolvedValue({
+        command: 'npm test',
+        passed: true,
+        exitCode: 0,
+        output: 'ok',
+        durationMs: 10,
+      });
+
+      const result = await service.run({ ...request, testCommand: 'npm test' });
+
+      expect(runTests).toHaveBeenCalledWith('/tmp/worktrees/repo-feature-v1', 'npm test');
+      expect(result.tests?.passed).toBe(true);
+      runTests.mockRestore();
+    });
+  });
+
+  describe('runTests', () => {
+    it('should pass when the command exits with 0', async () => {
+      const result = await service.runTests(process.cwd(), 'node -e "console.log(\'all good\')"');
+
+      expect(result.passed).toBe(true);
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('all good');
+    });
+
+    it('should fail with the exit code and output otherwise', async () => {
+      const result = await service.runTests(
+        process.cwd(),
+        'node -e "console.error(\'1 failing\'); process.exit(3)"'
+      );
+
+      expect(result.passed).toBe(false);
+      expect(result.exitCode).toBe(3);
+      expect(result.output).toContain('1 failing');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment jsdom
+ */
+import { FetchCassetteService } from '@/services/FetchCassetteService';
+
+jest.mock('os', () => {
+  const actual = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return { ...actual, homedir: () => path.join(actual.tmpdir(), 'autosteer-cassette-test') };
+});
+
+const MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('FetchCassetteService', () => {
+  it('should store cassettes in ~/.autosteer/cassettes', () => {
+    expect(FetchCassetteService.getPath('bug-123')).toMatch(
+      /autosteer-cassette-test[/\\]\.autosteer[/\\]cassettes[/\\]bug-123\.db$/
+    );
+  });
+
+  it('should replay a recorded response in another process', async () => {
+    const recorder = new FetchCassetteService('replay-basic');
+    const body = { model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'hi' }] };
+    await recorder.record('POST', MESSAGES_URL, body, jsonResponse({ id: 'msg_1' }));
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-basic');
+    const response = player.replay('POST', MESSAGES_URL, body);
+    expect(response?.status).toBe(200);
+    expect(await response?.json()).toEqual({ id: 'msg_1' });
+    player.close();
+  });
+
+  it('should not match requests with a different body', async () => {
+    const recorder = new FetchCassetteService('replay-mismatch');
+    await recorder.record('POST', MESSAGES_URL, { messages: ['a'] }, jsonResponse({}));
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-mismatch');
+    expect(player.replay('POST', MESSAGES_URL, { messages: ['b'] })).toBeUndefined();
+    expect(player.replay('GET', MESSAGES_URL, { messages: ['a'] })).toBeUndefined();
+    player.close();
+  });
+
+  it('should ignore the system prompt and metadata when matching', async () => {
+    const recorder = new FetchCassetteService('replay-volatile');
+    await recorder.record(
+      'POST',
+      MESSAGES_URL,
+      { system: 'Today is Monday', metadata: { user_id: 'session_1' }, messages: ['a'] },
+      jsonResponse({ id: 'msg_1' })
+    );
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-volatile');
+    const response = player.replay('POST', MESSAGES_URL, {
+      system: 'Today is Tuesday',
+      metadata: { user_id: 'session_2' },
+      messages: ['a'],
+    });
+    expect(await response?.json()).toEqual({ id: 'msg_1' });
+    player.close();
+  });
+
+  it('should replay repeated requests in recorded order', async () => {
+    const recorder = new FetchCassetteService('replay-order');
+    await recorder.record('GET', 'https://mcp.example.com/poll', null, jsonResponse({ n: 1 }));
+    await recorder.record('GET', 'https://mcp.example.com/poll', null, jsonResponse({ n: 2 }));
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-order');
+    const replayed = [];
+    for (let i = 0; i < 2; i++) {
+      replayed.push(await player.replay('GET', 'https://mcp.example.com/poll', null)?.json());
+    }
+    expect(replayed).toEqual([{ n: 1 }, { n: 2 }]);
+    player.close();
+  });
+
+  it('should throw when a request is sent more often than it was recorded', async () => {
+    const recorder = new FetchCassetteService('replay-exhausted');
+    await recorder.record('GET', 'https://mcp.example.com/poll', null, jsonResponse({ n: 1 }));
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-exhausted');
+    expect(player.replay('GET', 'https://mcp.example.com/poll', null)).toBeDefined();
+    expect(() => player.replay('GET', 'https://mcp.example.com/poll', null)).toThrow(
+      'Cassette "replay-exhausted" recorded GET https://mcp.example.com/poll only 1 time'
+    );
+    player.close();
+  });
+
+  it('should keep recordings past the fetch cache TTL', async () => {
+    const recorder = new FetchCassetteService('replay-pinned');
+    await recorder.record('GET', MESSAGES_URL, null, jsonResponse({}));
+    recorder.close();
+
+    const player = new FetchCassetteService('replay-pinned');
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    try {
+      expect(player.replay('GET', MESSAGES_URL, null)).toBeDefined();
+    } finally {
+      jest.restoreAllMocks();
+      player.close();
+    }
+  });
+});
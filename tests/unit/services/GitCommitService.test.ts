@@ -0,0 +1,109 @@
+/**
+ * Tests for GitCommitService
+ * Covers commit, amend prefill, sync status and push/pull IPC wiring
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { GitCommitService } from '@/services/GitCommitService';
+
+// Mock window.electron
+const mockIpcInvoke = jest.fn<any>();
+
+(window as any).electron = {
+  ipcRenderer: {
+    invoke: mockIpcInvoke,
+  },
+};
+
+describe('GitCommitService', () => {
+  beforeEach(() => {
+    console.log('[GitCommitService Test] Setting up test');
+    jest.clearAllMocks();
+  });
+
+  describe('commit', () => {
+    it('should commit and return the result', async () => {
+      console.log('[GitCommitService Test] Testing commit');
+      mockIpcInvoke.mockResolvedValueOnce({ commit: 'abc1234', branch: 'main' });
+
+      const result = await GitCommitService.commit('/repo', 'Add feature');
+
+      expect(mockIpcInvoke).toHaveBeenCalledWith('git:commit', {
+        repoPath: '/repo',
+        message: 'Add feature',
+        amend: false,
+      });
+      expect(result).toEqual({ commit: 'abc1234', branch: 'main' });
+    });
+
+    it('should pass the amend flag', async () => {
+      console.log('[GitCommitService Test] Testing amend');
+      mockIpcInvoke.mockResolvedValueOnce({ commit: 'def5678', branch: 'main' });
+
+      await GitCommitService.commit('/repo', 'Reworded', { amend: true });
+
+      expect(mockIpcInvoke).toHaveBeenCalledWith('git:commit', {
+        repoPath: '/repo',
+        message: 'Reworded',
+        amend: true,
+      });
+    });
+
+    it('should throw on error responses', async () => {
+      console.log('[GitCommitService Test] Testing commit error');
+      mockIpcInvoke.mockResolvedValueOnce({
+        success: false,
+        error: 'nothing to commit',
+        message: 'Commit changes failed: nothing to commit',
+      });
+
+      await expect(GitCommitService.commit('/repo', 'msg')).rejects.toThrow('nothing to commit');
+    });
+  });
+
+  describe('getLastCommitMessage', () => {
+    it('should return the message or empty string', async () => {
+      console.log('[GitCommitService Test] Testing getLastCommitMessage');
+      mockIpcInvoke.mockResolvedValueOnce('Previous message\n');
+      mockIpcInvoke.mockResolvedValueOnce({ success: false, error: 'no commits' });
+
+      expect(await GitCommitService.getLastCommitMessage('/repo')).toBe('Previous message\n');
+      expect(await GitCommitService.getLastCommitMessage('/repo')).toBe('');
+    });
+  });
+
+  describe('getSyncStatus', () => {
+    it('should return the sync status', async () => {
+      console.log('[GitCommitService Test] Testing getSyncStatus');
+      const status = { branch: 'main', ahead: 1, behind: 0, hasUpstream: true };
+      mockIpcInvoke.mockResolvedValueOnce(status);
+
+      expect(await GitCommitService.getSyncStatus('/repo')).toEqual(status);
+      expect(mockIpcInvoke).toHaveBeenCalledWith('git:sync-status', '/repo');
+    });
+  });
+
+  describe('push / pull', () => {
+    it('should return the operation message on success', async () => {
+      console.log('[GitCommitService Test] Testing push/pull success');
+      mockIpcInvoke.mockResolvedValueOnce({ success: true, message: 'Pushed main to origin' });
+      mockIpcInvoke.mockResolvedValueOnce({ success: true, message: 'Successfully pulled' });
+
+      expect(await GitCommitService.push('/repo')).toBe('Pushed main to origin');
+      expect(await GitCommitService.pull('/repo')).toBe('Successfully pulled');
+      expect(mockIpcInvoke).toHaveBeenCalledWith('git:push', '/repo');
+      expect(mockIpcInvoke).toHaveBeenCalledWith('git:pull', '/repo');
+    });
+
+    it('should throw the git error when the operation fails', async () => {
+      console.log('[GitCommitService Test] Testing push failure');
+      mockIpcInvoke.mockResolvedValueOnce({
+        success: false,
+        message: 'Failed to push changes',
+        error: 'rejected: non-fast-forward',
+      });
+
+      await expect(GitCommitService.push('/repo')).rejects.toThrow('non-fast-forward');
+    });
+  });
+});
@@ -17,8 +17,10 @@ jest.mock('electron-log/main', () => ({
 // Create mock fs promises
 const fsPromises = {
   access: jest.fn(),
+  copyFile: jest.fn(),
   mkdir: jest.fn(),
   rm: jest.fn(),
+  writeFile: jest.fn(),
 };
 
 // Create mock execAsync
@@ -29,6 +31,8 @@ jest.mock('util', () => ({
   promisify: jest.fn((fn: any) => {
     const fnName = fn?.name || '';
     if (fnName === 'access') return fsPromises.access;
+    if (fnName === 'copyFile') return fsPromises.copyFile;
+    if (fnName === 'writeFile') return fsPromises.writeFile;
     if (fnName === 'mkdir') return fsPromises.mkdir;
     if (fnName === 'rm') return fsPromises.rm;
     if (fnName === 'exec') return mockExecAsync;
@@ -1024,4 +1028,295 @@ describe('GitService', () => {
       expect(result).toBe(1);
     });
   });
+
+  describe('getSyncStatus', () => {
+    beforeEach(() => {
+      (gitService as any).lastSyncFetchAt.clear();
+    });
+
+    it('should fetch and return ahead/behind counts against the tracking branch', async () => {
+      console.log('[GitService.test] Testing getSyncStatus - with upstream');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'origin/feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '2\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '1\n', stderr: '' });
+
+      const result = await gitService.getSyncStatus('/test/repo');
+
+      expect(result).toEqual({ branch: 'feature', ahead: 2, behind: 1, hasUpstream: true });
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        'git rev-list origin/feature..feature --count',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        'git rev-list feature..origin/feature --count',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+      expect(mockExecAsync).toHaveBeenNthCalledWith(
+        2,
+        'git rev-parse --abbrev-ref --symbolic-full-name @{u}',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+      expect(mockExecAsync).toHaveBeenNthCalledWith(
+        3,
+        'git fetch --quiet',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+    });
+
+    it('should not fetch again within the throttle interval', async () => {
+      console.log('[GitService.test] Testing getSyncStatus - fetch throttled');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'origin/feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '0\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '0\n', stderr: '' });
+      await gitService.getSyncStatus('/test/repo');
+
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'origin/feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '0\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '3\n', stderr: '' });
+      const result = await gitService.getSyncStatus('/test/repo');
+
+      expect(result.behind).toBe(3);
+      const fetches = mockExecAsync.mock.calls.filter(([command]) =>
+        command.startsWith('git fetch')
+      );
+      expect(fetches).toHaveLength(1);
+    });
+
+    it('should still count against the last fetched state when fetching fails', async () => {
+      console.log('[GitService.test] Testing getSyncStatus - fetch fails');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'origin/feature\n', stderr: '' });
+      mockExecAsync.mockRejectedValueOnce(new Error('Could not resolve host'));
+      mockExecAsync.mockResolvedValueOnce({ stdout: '1\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '0\n', stderr: '' });
+
+      const result = await gitService.getSyncStatus('/test/repo');
+
+      expect(result).toEqual({ branch: 'feature', ahead: 1, behind: 0, hasUpstream: true });
+    });
+
+    it('should report no upstream when tracking is not configured', async () => {
+      console.log('[GitService.test] Testing getSyncStatus - no upstream');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'new-branch\n', stderr: '' });
+      mockExecAsync.mockRejectedValueOnce(new Error('fatal: no upstream configured'));
+
+      const result = await gitService.getSyncStatus('/test/repo');
+
+      expect(result).toEqual({ branch: 'new-branch', ahead: 0, behind: 0, hasUpstream: false });
+      expect(mockExecAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return null branch for detached HEAD', async () => {
+      console.log('[GitService.test] Testing getSyncStatus - detached HEAD');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'HEAD\n', stderr: '' });
+
+      const result = await gitService.getSyncStatus('/test/repo');
+
+      expect(result.branch).toBeNull();
+      expect(result.hasUpstream).toBe(false);
+    });
+  });
+
+  describe('push', () => {
+    it('should push a branch without upstream to origin and set upstream', async () => {
+      console.log('[GitService.test] Testing push - first push');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockRejectedValueOnce(new Error('exit code 1'));
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const result = await gitService.push('/test/repo');
+
+      expect(result.success).toBe(true);
+      expect(mockExecAsync).toHaveBeenLastCalledWith(
+        'git push -u origin "feature"',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+    });
+
+    it('should push to the configured upstream without changing it', async () => {
+      console.log('[GitService.test] Testing push - configured upstream');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'fork\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'refs/heads/my-feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const result = await gitService.push('/test/repo');
+
+      expect(result).toEqual({ success: true, message: 'Pushed feature to fork' });
+      expect(mockExecAsync).toHaveBeenLastCalledWith(
+        'git push "fork" "HEAD:refs/heads/my-feature"',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+    });
+
+    it('should refuse to push from detached HEAD', async () => {
+      console.log('[GitService.test] Testing push - detached HEAD');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'HEAD\n', stderr: '' });
+
+      const result = await gitService.push('/test/repo');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('detached HEAD');
+    });
+
+    it('should handle push failure', async () => {
+      console.log('[GitService.test] Testing push - rejected');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'feature\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'origin\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'refs/heads/feature\n', stderr: '' });
+      mockExecAsync.mockRejectedValueOnce(new Error('rejected: non-fast-forward'));
+
+      const result = await gitService.push('/test/repo');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('non-fast-forward');
+    });
+  });
+
+  describe('restoreCheckpoint', () => {
+    it('should stash current changes and write the checkpoint through a temporary index', async () => {
+      console.log('[GitService.test] Testing restoreCheckpoint - dirty');
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync.mockResolvedValueOnce({ stdout: ' M src/a.ts\n', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const result = await gitService.restoreCheckpoint('/test/repo', 'def4567890');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('stashed');
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('git stash push --include-untracked'),
+        expect.anything()
+      );
+      const readTreeCall = mockExecAsync.mock.calls.find(
+        ([cmd]) => cmd === 'git read-tree def4567890'
+      );
+      const tempIndex = readTreeCall?.[1].env.GIT_INDEX_FILE;
+      expect(tempIndex).toBeDefined();
+      expect(mockExecAsync).toHaveBeenLastCalledWith(
+        'git checkout-index -a -f',
+        expect.objectContaining({
+          cwd: '/test/repo',
+          env: expect.objectContaining({ GIT_INDEX_FILE: tempIndex }),
+        })
+      );
+      expect(mockExecAsync).not.toHaveBeenCalledWith(
+        expect.stringContaining('git checkout '),
+        expect.anything()
+      );
+      expect(fsPromises.rm).toHaveBeenCalledWith(tempIndex, { force: true });
+    });
+
+    it('should report restore failures', async () => {
+      console.log('[GitService.test] Testing restoreCheckpoint - failure');
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+      mockExecAsync.mockRejectedValueOnce(new Error('bad object abc1234'));
+
+      const result = await gitService.restoreCheckpoint('/test/repo', 'abc1234');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('bad object');
+    });
+  });
+
+  describe('createCheckpoint', () => {
+    it('should commit the worktree through a temporary index and protect it with a ref', async () => {
+      console.log('[GitService.test] Testing createCheckpoint');
+      fsPromises.copyFile.mockResolvedValueOnce(undefined);
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync
+        .mockResolvedValueOnce({ stdout: 'head123\n', stderr: '' }) // rev-parse HEAD
+        .mockResolvedValueOnce({ stdout: '.git/index\n', stderr: '' }) // index path
+        .mockResolvedValueOnce({ stdout: '', stderr: '' }) // add -A
+        .mockResolvedValueOnce({ stdout: 'tree456\n', stderr: '' }) // write-tree
+        .mockResolvedValueOnce({ stdout: 'commit789\n', stderr: '' }) // commit-tree
+        .mockResolvedValueOnce({ stdout: '', stderr: '' }); // update-ref
+
+      const sha = await gitService.createCheckpoint('/test/repo', 'agent-1/cp-1/before');
+
+      expect(sha).toBe('commit789');
+      const addCall = mockExecAsync.mock.calls.find(([cmd]) => cmd === 'git add -A');
+      expect(addCall?.[1].env.GIT_INDEX_FILE).toBeDefined();
+      expect(fsPromises.copyFile).toHaveBeenCalledWith(
+        expect.stringContaining('.git/index'),
+        addCall?.[1].env.GIT_INDEX_FILE
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        'git commit-tree tree456 -p head123 -m "autosteer checkpoint"',
+        expect.anything()
+      );
+      expect(mockExecAsync).toHaveBeenLastCalledWith(
+        'git update-ref refs/autosteer/checkpoints/agent-1/cp-1/before commit789',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+      expect(fsPromises.rm).toHaveBeenCalledWith(addCall?.[1].env.GIT_INDEX_FILE, {
+        force: true,
+      });
+    });
+
+    it('should return null outside a git checkout', async () => {
+      console.log('[GitService.test] Testing createCheckpoint - not a repo');
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync.mockRejectedValue(new Error('not a git repository'));
+
+      expect(await gitService.createCheckpoint('/test/repo')).toBeNull();
+      mockExecAsync.mockReset();
+    });
+  });
+
+  describe('revertCheckpointRange', () => {
+    it('should apply the turn diff in reverse', async () => {
+      console.log('[GitService.test] Testing revertCheckpointRange');
+      fsPromises.writeFile.mockResolvedValueOnce(undefined);
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync
+        .mockResolvedValueOnce({ stdout: 'diff --git a/a.ts b/a.ts\n', stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const result = await gitService.revertCheckpointRange('/test/repo', 'before1', 'after22');
+
+      expect(result.success).toBe(true);
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        'git diff --binary before1 after22',
+        expect.objectContaining({ cwd: '/test/repo' })
+      );
+      expect(mockExecAsync.mock.calls[1][0]).toMatch(/^git apply -R --check /);
+      expect(mockExecAsync.mock.calls[2][0]).toMatch(/^git apply -R "/);
+    });
+
+    it('should leave files alone when later edits conflict', async () => {
+      console.log('[GitService.test] Testing revertCheckpointRange - conflict');
+      fsPromises.writeFile.mockResolvedValueOnce(undefined);
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync
+        .mockResolvedValueOnce({ stdout: 'diff --git a/a.ts b/a.ts\n', stderr: '' })
+        .mockRejectedValueOnce(new Error('error: patch failed: a.ts:3'));
+
+      const result = await gitService.revertCheckpointRange('/test/repo', 'before1', 'after22');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('patch failed');
+      expect(mockExecAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should succeed without applying anything when the turn changed nothing', async () => {
+      console.log('[GitService.test] Testing revertCheckpointRange - empty');
+      fsPromises.rm.mockResolvedValueOnce(undefined);
+      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const result = await gitService.revertCheckpointRange('/test/repo', 'before1', 'after22');
+
+      expect(result).toEqual({ success: true, message: 'Nothing to undo' });
+      expect(mockExecAsync).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,64 @@
+import { getModelPricing, getPricingTable } from '@/monitoring/utils/costCalculator';
+import { PricingService } from '@/services/PricingService';
+import * as fs from 'fs';
+
+const TEST_DIR = `/tmp/test-autosteer-pricing-${process.pid}-${Date.now()}`;
+const PRICING_PATH = `${TEST_DIR}/.autosteer/pricing.json`;
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: jest.fn(() => TEST_DIR),
+  },
+}));
+
+jest.mock('@/commons/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('PricingService', () => {
+  const service = PricingService.getInstance();
+
+  beforeAll(() => {
+    fs.mkdirSync(`${TEST_DIR}/.autosteer`, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(PRICING_PATH, { force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should use the built-in table without pricing.json', async () => {
+    const table = await service.load();
+
+    expect(getModelPricing('claude-opus-4-5-20251101', table).input).toBe(5);
+    expect(getPricingTable()).toBe(table);
+  });
+
+  it('should merge pricing.json over the built-in table', async () => {
+    fs.writeFileSync(
+      PRICING_PATH,
+      JSON.stringify({ version: 1, models: { 'claude-opus-4-5': { input: 4.5 } } })
+    );
+
+    const table = await service.load();
+
+    expect(getModelPricing('claude-opus-4-5-20251101').input).toBe(4.5);
+    expect(service.getTable()).toBe(table);
+  });
+
+  it('should keep the built-in table when pricing.json is invalid', async () => {
+    fs.writeFileSync(PRICING_PATH, JSON.stringify({ version: 99 }));
+
+    await service.load();
+
+    expect(getModelPricing('claude-opus-4-5-20251101').input).toBe(5);
+  });
+});
@@ -1,441 +1,412 @@
 import { QueryManager } from '@/services/QueryManager';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import type { Query, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
 
 // Mock dependencies
 jest.mock('@anthropic-ai/claude-agent-sdk');
 jest.mock('electron-log');
 
+/**
+ * Fake long-lived SDK query: answers every prompt message with an assistant
+ * message and a result, and ends when the prompt stream ends.
+ */
+interface FakeQuery {
+  prompts: SDKUserMessage[];
+  options: Record<string, any>;
+  interrupt: jest.Mock;
+  setModel: jest.Mock;
+  setPermissionMode: jest.Mock;
+  fail: (error: Error) => void;
+}
+
+const createFakeQuery = (
+  sessionId: string,
+  usage = { cache_read_input_tokens: 0, cache_creation_input_tokens: 0 }
+) => {
+  const fakes: FakeQuery[] = [];
+
+  (query as jest.Mock).mockImplementation(
+    ({
+      prompt,
+      options,
+    }: {
+      prompt: AsyncIterable<SDKUserMessage>;
+      options: Record<string, any>;
+    }) => {
+      let rejectFailure: (error: Error) => void = () => {};
+      const failure = new Promise<never>((_, reject) => {
+        rejectFailure = reject;
+      });
+      failure.catch(() => {});
+
+      const fake: FakeQuery = {
+        prompts: [],
+        options,
+        interrupt: jest.fn().mockResolvedValue(undefined),
+        setModel: jest.fn().mockResolvedValue(undefined),
+        setPermissionMode: jest.fn().mockResolvedValue(undefined),
+        fail: (error) => rejectFailure(error),
+      };
+      fakes.push(fake);
+
+      async function* run(): AsyncGenerator<SDKMessage> {
+        yield { type: 'system', subtype: 'init', session_id: sessionId } as SDKMessage;
+        const iterator = prompt[Symbol.asyncIterator]();
+        while (true) {
+          const next = await Promise.race([iterator.next(), failure]);
+          if (next.done) return;
+          fake.prompts.push(next.value);
+          yield {
+            type: 'assistant',
+            session_id: sessionId,
+            message: { content: [{ type: 'text', text: 'ok' }] },
+          } as unknown as SDKMessage;
+          yield {
+            type: 'result',
+            subtype: 'success',
+            session_id: sessionId,
+            usage,
+          } as unknown as SDKMessage;
+        }
+      }
+
+      return Object.assign(run(), {
+        interrupt: fake.interrupt,
+        setModel: fake.setModel,
+        setPermissionMode: fake.setPermissionMode,
+      });
+    }
+  );
+
+  return fakes;
+};
+
+const collect = async (stream: AsyncIterable<SDKMessage>): Promise<SDKMessage[]> => {
+  const messages: SDKMessage[] = [];
+  for await (const message of stream) {
+    messages.push(message);
+  }
+  return messages;
+};
+
 describe('QueryManager', () => {
   let queryManager: QueryManager;
   const mockProjectId = 'test-project-id';
   const mockProjectPath = '/test/project/path';
   const mockSessionId = 'test-session-id';
   const mockAgentId = 'test-agent-id';
-
-  // Mock query instance
-  const mockQueryInstance = {
-    interrupt: jest.fn(),
-    [Symbol.asyncIterator]: jest.fn(),
-  };
+  const sdkSessionId = 'sdk-session-1';
 
   beforeEach(() => {
     jest.clearAllMocks();
-    (query as jest.Mock).mockReturnValue(mockQueryInstance);
+    queryManager = new QueryManager(mockProjectId, mockProjectPath);
   });
 
   afterEach(async () => {
-    if (queryManager) {
-      await queryManager.destroy();
-    }
+    await queryManager.destroy();
   });
 
-  describe('Initialization', () => {
-    it('should create a QueryManager instance', () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      expect(queryManager).toBeInstanceOf(QueryManager);
-    });
+  describe('Session Management', () => {
+    it('should create a virtual session without starting a query', async () => {
+      createFakeQuery(sdkSessionId);
 
-    it('should initialize with default options', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
+      const sessionId = await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
 
-      expect(query).toHaveBeenCalledWith(
-        expect.objectContaining({
-          prompt: expect.any(Object),
-          options: expect.objectContaining({
-            cwd: mockProjectPath,
-            settingSources: ['project', 'local', 'user'],
-          }),
-        })
+      expect(sessionId).toBe(mockSessionId);
+      expect(query).not.toHaveBeenCalled();
+      expect(queryManager.getStats()).toEqual(
+        expect.objectContaining({ activeSessionCount: 1, mcpInitialized: false })
       );
     });
 
-    it('should initialize with custom options', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath, {
-        maxSessions: 5,
-        sessionIdleTimeout: 60000,
-        mcpTimeout: 10000,
-      });
-      await queryManager.initialize();
+    it('should evict the least recently used session at capacity', async () => {
+      queryManager = new QueryManager(mockProjectId, mockProjectPath, { maxSessions: 1 });
+      const closed = jest.fn();
+      queryManager.on('session-closed:first', closed);
 
-      const stats = queryManager.getStats();
-      expect(stats.projectId).toBe(mockProjectId);
-      expect(stats.mcpInitialized).toBe(true);
-    });
+      await queryManager.getOrCreateSession(mockAgentId, 'first');
+      await queryManager.getOrCreateSession(mockAgentId, 'second');
 
-    it('should not re-initialize if already initialized', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
-      await queryManager.initialize();
+      expect(closed).toHaveBeenCalled();
+      expect(Object.keys(queryManager.getStats().sessionMetrics)).toEqual(['second']);
+    });
 
-      // query should only be called once
-      expect(query).toHaveBeenCalledTimes(1);
+    it('should reject messages for unknown sessions', async () => {
+      await expect(queryManager.sendMessage('missing', 'hi')).rejects.toThrow(
+        'Session missing not found'
+      );
     });
   });
 
-  describe('Session Management', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
-    });
+  describe('Streaming queries', () => {
+    it('should start one query with a streaming prompt and project options', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
 
-    it('should create a new virtual session', async () => {
-      const sessionId = await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'hello'));
 
-      expect(sessionId).toBe(mockSessionId);
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(1);
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(fakes[0].options).toEqual(
+        expect.objectContaining({
+          cwd: mockProjectPath,
+          settingSources: ['project', 'local', 'user'],
+        })
+      );
+      expect(fakes[0].options.resume).toBeUndefined();
+      expect(fakes[0].prompts[0]).toEqual(
+        expect.objectContaining({
+          type: 'user',
+          message: { role: 'user', content: 'hello' },
+          parent_tool_use_id: null,
+        })
+      );
     });
 
-    it('should return existing session if already created', async () => {
-      const sessionId1 = await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-      const sessionId2 = await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-
-      expect(sessionId1).toBe(sessionId2);
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(1);
-    });
+    it('should reuse the same query for follow-up messages', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
 
-    it('should create multiple sessions up to maxSessions limit', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath, { maxSessions: 3 });
-      await queryManager.initialize();
+      await collect(await queryManager.sendMessage(mockSessionId, 'first'));
+      await collect(await queryManager.sendMessage(mockSessionId, 'second'));
 
-      await queryManager.getOrCreateSession(mockAgentId, 'session-1');
-      await queryManager.getOrCreateSession(mockAgentId, 'session-2');
-      await queryManager.getOrCreateSession(mockAgentId, 'session-3');
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(fakes[0].prompts.map((p) => p.message.content)).toEqual(['first', 'second']);
+      expect(fakes[0].prompts[1].session_id).toBe(sdkSessionId);
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(3);
+      const metrics = queryManager.getStats().sessionMetrics[mockSessionId];
+      expect(metrics.queryStarts).toBe(1);
+      expect(metrics.turnsCompleted).toBe(2);
+      expect(metrics.messagesSent).toBe(2);
     });
 
-    it('should evict LRU session when exceeding maxSessions limit', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath, { maxSessions: 2 });
-      await queryManager.initialize();
+    it('should end each turn at its result and tag messages with correlation ids', async () => {
+      createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+
+      const first = await collect(await queryManager.sendMessage(mockSessionId, 'first'));
+      const second = await collect(await queryManager.sendMessage(mockSessionId, 'second'));
 
-      await queryManager.getOrCreateSession(mockAgentId, 'session-1');
-      // Wait a bit to ensure different timestamps
-      await new Promise((resolve) => setTimeout(resolve, 10));
-      await queryManager.getOrCreateSession(mockAgentId, 'session-2');
-      await new Promise((resolve) => setTimeout(resolve, 10));
-      await queryManager.getOrCreateSession(mockAgentId, 'session-3');
+      expect(first.map((m) => m.type)).toEqual(['system', 'assistant', 'result']);
+      expect(second.map((m) => m.type)).toEqual(['assistant', 'result']);
+      expect(first.every((m) => m.session_id === sdkSessionId)).toBe(true);
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(2);
+      const firstCorrelation = (first[0] as any).correlation_id;
+      expect(firstCorrelation).toBeDefined();
+      expect((second[0] as any).correlation_id).not.toBe(firstCorrelation);
     });
 
-    it('should close a session', async () => {
+    it('should answer messages sent while a turn is running in order', async () => {
+      createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-      await queryManager.closeSession(mockSessionId);
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(0);
-    });
+      const firstStream = await queryManager.sendMessage(mockSessionId, 'first');
+      const secondStream = await queryManager.sendMessage(mockSessionId, 'second');
+      const [first, second] = await Promise.all([collect(firstStream), collect(secondStream)]);
 
-    it('should handle closing non-existent session gracefully', async () => {
-      await expect(queryManager.closeSession('non-existent')).resolves.not.toThrow();
+      expect(first.filter((m) => m.type === 'result')).toHaveLength(1);
+      expect(second.filter((m) => m.type === 'result')).toHaveLength(1);
+      expect(query).toHaveBeenCalledTimes(1);
     });
 
-    it('should emit session-closed event when closing session', async () => {
+    it('should track prompt cache usage per turn', async () => {
+      createFakeQuery(sdkSessionId, {
+        cache_read_input_tokens: 28000,
+        cache_creation_input_tokens: 500,
+      });
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
 
-      const closedHandler = jest.fn();
-      queryManager.on(`session-closed:${mockSessionId}`, closedHandler);
+      await collect(await queryManager.sendMessage(mockSessionId, 'first'));
+      await collect(await queryManager.sendMessage(mockSessionId, 'second'));
 
-      await queryManager.closeSession(mockSessionId);
-      expect(closedHandler).toHaveBeenCalled();
+      const metrics = queryManager.getStats().sessionMetrics[mockSessionId];
+      expect(metrics.cacheHits).toBe(2);
+      expect(metrics.cacheMisses).toBe(2);
+      expect(metrics.cacheReadTokens).toBe(56000);
+      expect(metrics.cacheCreationTokens).toBe(1000);
     });
-  });
 
-  describe('Message Sending', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
+    it('should report the session as streaming while the query is alive', async () => {
+      createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-    });
 
-    it('should queue a message for sending', async () => {
-      await queryManager.sendMessage(mockSessionId, 'Test message');
+      await collect(await queryManager.sendMessage(mockSessionId, 'hello'));
 
-      const stats = queryManager.getStats();
-      expect(stats.sessionMetrics[mockSessionId].messagesSent).toBe(1);
+      expect(queryManager.getStats().mcpInitialized).toBe(true);
     });
+  });
 
-    it('should queue message with attachments', async () => {
-      const attachments = [{ type: 'file', path: '/test/file.txt' }];
-      await queryManager.sendMessage(mockSessionId, 'Test message', attachments);
-
-      const stats = queryManager.getStats();
-      expect(stats.sessionMetrics[mockSessionId].messagesSent).toBe(1);
+  describe('Turn options', () => {
+    const turnOptions = (overrides: Record<string, unknown> = {}, processKey = 'key-1') => ({
+      sdkOptions: { cwd: '/worktrees/app', settingSources: [], ...overrides } as any,
+      processKey,
     });
 
-    it('should throw error if session does not exist', async () => {
-      await expect(queryManager.sendMessage('non-existent', 'Test message')).rejects.toThrow(
-        'Session non-existent not found'
-      );
-    });
+    it('should start the query with the options of the first turn', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
 
-    it('should throw error if not initialized', async () => {
-      const uninitializedManager = new QueryManager(mockProjectId, mockProjectPath);
-      await expect(uninitializedManager.sendMessage(mockSessionId, 'Test message')).rejects.toThrow(
-        'QueryManager not initialized'
+      await collect(
+        await queryManager.sendMessage(mockSessionId, 'hello', turnOptions({ model: 'opus' }))
       );
-    });
-
-    it('should increment sequence number for each message', async () => {
-      await queryManager.sendMessage(mockSessionId, 'Message 1');
-      await queryManager.sendMessage(mockSessionId, 'Message 2');
-      await queryManager.sendMessage(mockSessionId, 'Message 3');
 
-      const stats = queryManager.getStats();
-      expect(stats.sessionMetrics[mockSessionId].messagesSent).toBe(3);
+      expect(fakes[0].options).toEqual(
+        expect.objectContaining({ cwd: '/worktrees/app', model: 'opus' })
+      );
     });
-  });
 
-  describe('Message Routing', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
+    it('should switch model and permission mode on the live query', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-    });
-
-    it('should route messages to session-specific listeners', async () => {
-      const mockMessage: SDKMessage = {
-        uuid: '12345678-1234-1234-1234-123456789abc',
-        session_id: mockSessionId,
-        type: 'assistant',
-        message: {
-          id: 'test-id',
-          role: 'assistant',
-          content: [{ type: 'text', text: 'Test response', citations: null }],
-        } as any,
-        parent_tool_use_id: null,
-      };
-
-      const messagePromise = new Promise<SDKMessage>((resolve) => {
-        queryManager.on(`message:${mockSessionId}`, (message: SDKMessage) => {
-          resolve(message);
-        });
-      });
-
-      // Simulate message from SDK
-      await (queryManager as any).handleSDKMessage({
-        ...mockMessage,
-        session_id: mockSessionId,
-      });
-
-      const receivedMessage = await messagePromise;
-      expect(receivedMessage).toEqual(mockMessage);
-    });
-
-    it('should update metrics when receiving messages', async () => {
-      const mockMessage: SDKMessage = {
-        uuid: '12345678-1234-1234-1234-123456789abc',
-        session_id: mockSessionId,
-        type: 'assistant',
-        message: {
-          id: 'test-id',
-          role: 'assistant',
-          content: [{ type: 'text', text: 'Test response', citations: null }],
-        } as any,
-        parent_tool_use_id: null,
-      };
+      await collect(
+        await queryManager.sendMessage(mockSessionId, 'first', turnOptions({ model: 'opus' }))
+      );
 
-      await (queryManager as any).handleSDKMessage({
-        ...mockMessage,
-        session_id: mockSessionId,
-      });
+      await collect(
+        await queryManager.sendMessage(
+          mockSessionId,
+          'second',
+          turnOptions({ model: 'sonnet', permissionMode: 'acceptEdits', resume: sdkSessionId })
+        )
+      );
 
-      const stats = queryManager.getStats();
-      expect(stats.sessionMetrics[mockSessionId].messagesReceived).toBe(1);
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(fakes[0].setModel).toHaveBeenCalledWith('sonnet');
+      expect(fakes[0].setPermissionMode).toHaveBeenCalledWith('acceptEdits');
     });
 
-    it('should track misrouted messages', async () => {
-      const mockMessage: SDKMessage = {
-        uuid: '12345678-1234-1234-1234-123456789abc',
-        session_id: mockSessionId,
-        type: 'assistant',
-        message: {
-          id: 'test-id',
-          role: 'assistant',
-          content: [{ type: 'text', text: 'Test response', citations: null }],
-        } as any,
-        parent_tool_use_id: null,
-      };
-
-      // First create metrics for the session
-      await queryManager.sendMessage(mockSessionId, 'Test');
-
-      // Then close the session
-      await queryManager.closeSession(mockSessionId);
-
-      // Create new session with same ID to get metrics reference
+    it('should restart the query when its process key changes', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'first', turnOptions()));
+
+      await collect(
+        await queryManager.sendMessage(
+          mockSessionId,
+          'second',
+          turnOptions({ resume: sdkSessionId }, 'key-2')
+        )
+      );
 
-      // Try to handle message for non-existent session
-      await (queryManager as any).handleSDKMessage({
-        ...mockMessage,
-        session_id: 'non-existent-session',
-      });
-
-      // Note: metrics for non-existent session won't be tracked
-      // This test just ensures the code doesn't crash
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(fakes[1].options.resume).toBe(sdkSessionId);
+      expect(queryManager.getSessionMetrics(mockSessionId)?.queryStarts).toBe(2);
     });
 
-    it('should handle messages without session_id gracefully', async () => {
-      const mockMessage: SDKMessage = {
-        uuid: '12345678-1234-1234-1234-123456789abc',
-        session_id: mockSessionId,
-        type: 'assistant',
-        message: {
-          id: 'test-id',
-          role: 'assistant',
-          content: [{ type: 'text', text: 'Test response', citations: null }],
-        } as any,
-        parent_tool_use_id: null,
-      };
-
-      await expect((queryManager as any).handleSDKMessage(mockMessage)).resolves.not.toThrow();
-    });
-  });
+    it('should restart the query to branch or to start over', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'first', turnOptions()));
+
+      await collect(
+        await queryManager.sendMessage(
+          mockSessionId,
+          'branch',
+          turnOptions({ resume: sdkSessionId, resumeSessionAt: 'msg-1', forkSession: true })
+        )
+      );
+      await collect(await queryManager.sendMessage(mockSessionId, 'over', turnOptions()));
 
-  describe('Statistics', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
+      expect(query).toHaveBeenCalledTimes(3);
+      expect(fakes[1].options.resumeSessionAt).toBe('msg-1');
+      expect(fakes[2].options.resume).toBeUndefined();
     });
 
-    it('should return correct stats', () => {
-      const stats = queryManager.getStats();
-
-      expect(stats).toEqual({
-        projectId: mockProjectId,
-        activeSessionCount: 0,
-        mcpInitialized: true,
-        sessionMetrics: {},
+    it('should send permission prompts to the running turn', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      const canUseTool = jest.fn().mockResolvedValue({ behavior: 'allow', updatedInput: {} });
+      const stream = await queryManager.sendMessage(mockSessionId, 'first', {
+        ...turnOptions(),
+        canUseTool,
       });
-    });
+      const permissionOptions = { signal: new AbortController().signal, suggestions: [] };
 
-    it('should update stats after creating sessions', async () => {
-      await queryManager.getOrCreateSession(mockAgentId, 'session-1');
-      await queryManager.getOrCreateSession(mockAgentId, 'session-2');
+      await expect(
+        fakes[0].options.canUseTool('Bash', { command: 'ls' }, permissionOptions)
+      ).resolves.toEqual({ behavior: 'allow', updatedInput: {} });
+      expect(canUseTool).toHaveBeenCalledWith('Bash', { command: 'ls' }, permissionOptions);
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(2);
-      expect(Object.keys(stats.sessionMetrics)).toHaveLength(2);
-    });
-
-    it('should include session metrics in stats', async () => {
-      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-      await queryManager.sendMessage(mockSessionId, 'Test message');
-
-      const stats = queryManager.getStats();
-      expect(stats.sessionMetrics[mockSessionId]).toEqual({
-        messagesSent: 1,
-        messagesReceived: 0,
-        misrouted: 0,
-        validationErrors: 0,
-        cacheHits: 0,
-        cacheMisses: 0,
-      });
+      await collect(stream);
+      await expect(
+        fakes[0].options.canUseTool('Bash', { command: 'ls' }, permissionOptions)
+      ).resolves.toMatchObject({ behavior: 'deny' });
     });
   });
 
-  describe('Cleanup', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
-    });
-
-    it('should destroy and clean up resources', async () => {
+  describe('Interrupts', () => {
+    it('should interrupt the live query when a turn is running', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
-      await queryManager.destroy();
 
-      expect(mockQueryInstance.interrupt).toHaveBeenCalled();
+      const stream = await queryManager.sendMessage(mockSessionId, 'long task');
+      await queryManager.interrupt(mockSessionId);
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(0);
-      expect(stats.mcpInitialized).toBe(false);
+      expect(fakes[0].interrupt).toHaveBeenCalledTimes(1);
+      await collect(stream);
     });
 
-    it('should close all sessions on destroy', async () => {
-      await queryManager.getOrCreateSession(mockAgentId, 'session-1');
-      await queryManager.getOrCreateSession(mockAgentId, 'session-2');
-
-      await queryManager.destroy();
+    it('should do nothing when no turn is running', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'hello'));
 
-      const stats = queryManager.getStats();
-      expect(stats.activeSessionCount).toBe(0);
-    });
+      await queryManager.interrupt(mockSessionId);
+      await queryManager.interrupt('unknown');
 
-    it('should handle destroy when not initialized', async () => {
-      const uninitializedManager = new QueryManager(mockProjectId, mockProjectPath);
-      await expect(uninitializedManager.destroy()).resolves.not.toThrow();
+      expect(fakes[0].interrupt).not.toHaveBeenCalled();
     });
   });
 
-  describe('Input Generator', () => {
-    beforeEach(async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-    });
-
-    it('should create async generator that yields queued messages', async () => {
-      await queryManager.initialize();
-      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+  describe('Query lifecycle', () => {
+    it('should close the query after the idle timeout and resume on the next message', async () => {
+      jest.useFakeTimers();
+      try {
+        queryManager = new QueryManager(mockProjectId, mockProjectPath, {
+          sessionIdleTimeout: 1000,
+        });
+        const fakes = createFakeQuery(sdkSessionId);
+        await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+        await collect(await queryManager.sendMessage(mockSessionId, 'first'));
 
-      // Get the generator that was passed to query()
-      const callArgs = (query as jest.Mock).mock.calls[0][0];
-      const generator = callArgs.prompt;
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(queryManager.getStats().mcpInitialized).toBe(false);
 
-      // Queue a message
-      await queryManager.sendMessage(mockSessionId, 'Test message');
+        await collect(await queryManager.sendMessage(mockSessionId, 'second'));
 
-      // Get the next value from generator
-      const result = await generator.next();
-      expect(result.value).toBe('Test message');
+        expect(query).toHaveBeenCalledTimes(2);
+        expect(fakes[1].options.resume).toBe(sdkSessionId);
+        expect(queryManager.getStats().sessionMetrics[mockSessionId].queryStarts).toBe(2);
+      } finally {
+        jest.useRealTimers();
+      }
     });
 
-    it('should skip messages from closed sessions', async () => {
-      await queryManager.initialize();
+    it('should fail pending turns and restart with resume after a crash', async () => {
+      const fakes = createFakeQuery(sdkSessionId);
       await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'first'));
 
-      // Get the generator
-      const callArgs = (query as jest.Mock).mock.calls[0][0];
-      const generator = callArgs.prompt;
+      fakes[0].fail(new Error('process exited'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(queryManager.getStats().mcpInitialized).toBe(false);
 
-      // Queue a message then close session
-      await queryManager.sendMessage(mockSessionId, 'Test message');
-      await queryManager.closeSession(mockSessionId);
-
-      // Generator should skip the message (this would normally wait for next message)
-      // We can't easily test async waiting, so we just verify the generator exists
-      expect(generator).toBeDefined();
+      await collect(await queryManager.sendMessage(mockSessionId, 'second'));
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(fakes[1].options.resume).toBe(sdkSessionId);
     });
-  });
 
-  describe('Error Handling', () => {
-    it('should handle errors in message consumer gracefully', async () => {
-      const errorIterator = {
-        interrupt: jest.fn(),
-        [Symbol.asyncIterator]: () => ({
-          next: jest.fn().mockRejectedValue(new Error('SDK error')),
-        }),
-      };
-
-      (query as jest.Mock).mockReturnValue(errorIterator as unknown as Query);
-
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
-      await queryManager.initialize();
-
-      // Should not throw - error is logged internally
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    });
+    it('should end the query and emit session-closed when a session is closed', async () => {
+      createFakeQuery(sdkSessionId);
+      const closed = jest.fn();
+      queryManager.on(`session-closed:${mockSessionId}`, closed);
+      await queryManager.getOrCreateSession(mockAgentId, mockSessionId);
+      await collect(await queryManager.sendMessage(mockSessionId, 'hello'));
 
-    it('should handle session operations before initialization', async () => {
-      queryManager = new QueryManager(mockProjectId, mockProjectPath);
+      await queryManager.closeSession(mockSessionId);
 
-      await expect(queryManager.getOrCreateSession(mockAgentId, mockSessionId)).rejects.toThrow(
-        'QueryManager not initialized'
+      expect(closed).toHaveBeenCalled();
+      expect(queryManager.getStats()).toEqual(
+        expect.objectContaining({ activeSessionCount: 0, mcpInitialized: false })
       );
     });
   });
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for SecretsService
+ * Secrets are written to a temporary home directory; safeStorage is faked
+ */
+
+import { SECRETS_FILE, SecretsService } from '@/services/SecretsService';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const mockSafeStorage = {
+  isEncryptionAvailable: jest.fn(),
+  getSelectedStorageBackend: jest.fn(),
+  encryptString: (value: string) => Buffer.from(`sealed:${Buffer.from(value).toString('hex')}`),
+  decryptString: (data: Buffer) =>
+    Buffer.from(data.toString().slice('sealed:'.length), 'hex').toString(),
+};
+const mockGetSecretsSettings = jest.fn();
+const mockReadConfig = jest.fn();
+const mockWriteConfig = jest.fn();
+
+jest.mock('os', () => {
+  const actual = jest.requireActual('os');
+  const home = jest
+    .requireActual('path')
+    .join(actual.tmpdir(), `autosteer-secrets-test-${process.pid}`);
+  return { ...actual, homedir: () => home };
+});
+
+jest.mock('electron', () => ({
+  get safeStorage() {
+    return mockSafeStorage;
+  },
+}));
+
+jest.mock('@/config/settings', () => ({
+  getSecretsSettings: () => mockGetSecretsSettings(),
+}));
+
+jest.mock('@/commons/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({ readConfig: mockReadConfig, writeConfig: mockWriteConfig }),
+  },
+}));
+
+const readSecretsFile = () => JSON.parse(fs.readFileSync(SECRETS_FILE, 'utf-8'));
+
+describe('SecretsService', () => {
+  let service: SecretsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SecretsService as any).instance = undefined;
+    service = SecretsService.getInstance();
+    fs.rmSync(SECRETS_FILE, { force: true });
+    mockSafeStorage.isEncryptionAvailable.mockReturnValue(true);
+    mockSafeStorage.getSelectedStorageBackend.mockReturnValue('gnome_libsecret');
+    mockGetSecretsSettings.mockReturnValue({ passphrase: undefined });
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(path.dirname(SECRETS_FILE)), { recursive: true, force: true });
+  });
+
+  describe('with safeStorage', () => {
+    it('should store secrets encrypted and read them back', async () => {
+      await service.set('GITHUB_TOKEN', 'ghp_123');
+
+      const file = readSecretsFile();
+      expect(file.backend).toBe('safeStorage');
+      expect(JSON.stringify(file)).not.toContain('ghp_123');
+      expect(await service.get('GITHUB_TOKEN')).toBe('ghp_123');
+      expect(await service.list()).toEqual(['GITHUB_TOKEN']);
+    });
+
+    it('should reject invalid names', async () => {
+      await expect(service.set('bad name', 'x')).rejects.toThrow(/^Invalid secret name/);
+    });
+
+    it('should delete secrets by name and by prefix', async () => {
+      await service.set('api-key.anthropic', 'a');
+      await service.set('api-key.openai', 'b');
+      await service.set('TOKEN', 'c');
+
+      await service.delete('TOKEN');
+      expect(await service.getApiKeys()).toEqual({ anthropic: 'a', openai: 'b' });
+
+      await service.deleteAll('api-key.');
+      expect(await service.list()).toEqual([]);
+    });
+  });
+
+  describe('with a passphrase', () => {
+    beforeEach(() => {
+      mockSafeStorage.getSelectedStorageBackend.mockReturnValue('basic_text');
+      mockGetSecretsSettings.mockReturnValue({ passphrase: 'correct horse' });
+    });
+
+    it('should encrypt with the passphrase when only basic_text storage is available', async () => {
+      await service.set('TOKEN', 'value-1');
+
+      const file = readSecretsFile();
+      expect(file.backend).toBe('passphrase');
+      expect(JSON.stringify(file)).not.toContain('value-1');
+      expect(await service.get('TOKEN')).toBe('value-1');
+    });
+
+    it('should reject a wrong passphrase', async () => {
+      await service.set('TOKEN', 'value-1');
+
+      (SecretsService as any).instance = undefined;
+      mockGetSecretsSettings.mockReturnValue({ passphrase: 'wrong' });
+
+      await expect(SecretsService.getInstance().get('TOKEN')).rejects.toThrow(
+        /^Wrong AUTOSTEER_SECRETS_PASSPHRASE/
+      );
+    });
+
+    it('should require a passphrase without an OS keychain', async () => {
+      mockGetSecretsSettings.mockReturnValue({ passphrase: undefined });
+
+      await expect(service.set('TOKEN', 'value-1')).rejects.toThrow(
+        /Set AUTOSTEER_SECRETS_PASSPHRASE/
+      );
+      expect(fs.existsSync(SECRETS_FILE)).toBe(false);
+    });
+  });
+
+  describe('resolveReferences', () => {
+    it('should replace references in nested strings and report unknown secrets', async () => {
+      await service.set('TOKEN', 'abc');
+
+      const { value, missing } = await service.resolveReferences({
+        github: {
+          command: 'npx',
+          args: ['server'],
+          env: { GITHUB_TOKEN: '${secret:TOKEN}', OTHER: '${secret:MISSING}' },
+          headers: { Authorization: 'Bearer ${secret:TOKEN}' },
+        },
+      });
+
+      expect(value.github.env).toEqual({ GITHUB_TOKEN: 'abc', OTHER: '${secret:MISSING}' });
+      expect(value.github.headers.Authorization).toBe('Bearer abc');
+      expect(value.github.args).toEqual(['server']);
+      expect(missing).toEqual(['MISSING']);
+    });
+
+    it('should not read secrets when nothing references them', async () => {
+      mockSafeStorage.isEncryptionAvailable.mockReturnValue(false);
+
+      const config = { env: { PLAIN: 'value' } };
+      expect(await service.resolveReferences(config)).toEqual({ value: config, missing: [] });
+    });
+  });
+
+  describe('migrateApiKeys', () => {
+    it('should move API keys from config.json into secret storage', async () => {
+      mockReadConfig.mockResolvedValue({ worktrees: [], apiKeys: { anthropic: 'sk-1' } });
+
+      await service.migrateApiKeys();
+
+      expect(await service.getApiKeys()).toEqual({ anthropic: 'sk-1' });
+      expect(mockWriteConfig).toHaveBeenCalledWith({ worktrees: [] });
+    });
+
+    it('should keep API keys in config.json when they cannot be encrypted', async () => {
+      mockSafeStorage.isEncryptionAvailable.mockReturnValue(false);
+      mockReadConfig.mockResolvedValue({ worktrees: [], apiKeys: { anthropic: 'sk-1' } });
+
+      await expect(service.migrateApiKeys()).rejects.toThrow(/AUTOSTEER_SECRETS_PASSPHRASE/);
+      expect(mockWriteConfig).not.toHaveBeenCalled();
+    });
+  });
+});
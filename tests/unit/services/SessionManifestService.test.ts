@@ -364,6 +364,108 @@ describe('SessionManifestService', () => {
     });
   });
 
+  describe('Session Branching', () => {
+    const branch = {
+      sourceSessionId: 'session1',
+      cutAtMessageId: 'msg-2',
+      resumeAt: 'msg-1',
+      createdAt: new Date().toISOString(),
+    };
+
+    it('should return a pending branch until a new session is recorded', async () => {
+      await service.updateAgentSession('worktree1', 'agent1', 'session1');
+      await service.setPendingBranch('worktree1', 'agent1', branch);
+
+      expect(await service.getPendingBranch('worktree1', 'agent1')).toEqual(branch);
+
+      await service.updateAgentSession('worktree1', 'agent1', 'session2');
+
+      expect(await service.getPendingBranch('worktree1', 'agent1')).toBeUndefined();
+    });
+
+    it('should keep a fork branch pending for an agent without a session', async () => {
+      await service.setPendingBranch('worktree1', 'fork1', branch);
+
+      expect(await service.getPendingBranch('worktree1', 'fork1')).toEqual(branch);
+    });
+
+    it('should record lineage for forked agents', async () => {
+      const lineage = {
+        parentAgentId: 'agent1',
+        parentSessionId: 'session1',
+        forkedAtMessageId: 'msg-2',
+        createdAt: new Date().toISOString(),
+      };
+
+      await service.recordLineage('worktree1', 'fork1', lineage);
+
+      expect(await service.getLineage('worktree1', 'fork1')).toEqual(lineage);
+      expect(await service.getLineage('worktree1', 'agent1')).toBeUndefined();
+    });
+
+    it('should remove branching data when agent sessions are deleted', async () => {
+      await service.updateAgentSession('worktree1', 'agent1', 'session1');
+      await service.setPendingBranch('worktree1', 'agent1', branch);
+      await service.addCheckpoint('worktree1', 'agent1', {
+        id: 'cp-1',
+        prompt: 'fix it',
+        before: 'abc',
+        startedAt: branch.createdAt,
+      });
+
+      await service.deleteAgentSessions('worktree1', 'agent1');
+
+      expect(await service.getPendingBranch('worktree1', 'agent1')).toBeUndefined();
+      expect(await service.getCheckpoints('worktree1')).toEqual({});
+    });
+  });
+
+  describe('Turn Checkpoints', () => {
+    const checkpoint = (id: string) => ({
+      id,
+      prompt: 'fix the bug',
+      before: `before-${id}`,
+      startedAt: new Date().toISOString(),
+    });
+
+    it('should add checkpoints and complete them when the turn ends', async () => {
+      await service.addCheckpoint('worktree1', 'agent1', checkpoint('cp1'));
+      await service.updateCheckpoint('worktree1', 'agent1', 'cp1', {
+        after: 'after-cp1',
+        files: ['src/a.ts'],
+      });
+      await service.updateCheckpoint('worktree1', 'agent1', 'missing', { after: 'x' });
+
+      const checkpoints = await service.getCheckpoints('worktree1');
+
+      expect(checkpoints.agent1).toEqual([
+        expect.objectContaining({ id: 'cp1', after: 'after-cp1', files: ['src/a.ts'] }),
+      ]);
+    });
+
+    it('should keep only the most recent checkpoints and return the dropped ones', async () => {
+      let dropped: Array<{ id: string }> = [];
+      for (let i = 0; i < 51; i++) {
+        dropped = await service.addCheckpoint('worktree1', 'agent1', checkpoint(`cp${i}`));
+      }
+
+      const checkpoints = await service.getCheckpoints('worktree1');
+
+      expect(checkpoints.agent1).toHaveLength(50);
+      expect(checkpoints.agent1[0].id).toBe('cp1');
+      expect(dropped.map((c) => c.id)).toEqual(['cp0']);
+    });
+
+    it('should remove checkpoints when agent sessions are deleted', async () => {
+      await service.updateAgentSession('worktree1', 'agent1', 'session1');
+      await service.addCheckpoint('worktree1', 'agent1', checkpoint('cp1'));
+
+      await service.deleteAgentSessions('worktree1', 'agent1');
+
+      expect((await service.getCheckpoints('worktree1')).agent1).toBeUndefined();
+    });
+  });
+
   describe('Migration from Config', () => {
     beforeEach(() => {
       // Mock FileDataStoreService for migration tests
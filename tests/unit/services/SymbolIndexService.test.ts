@@ -0,0 +1,148 @@
+/**
+ * Unit tests for SymbolIndexService
+ * Runs against a temp git repo
+ */
+
+import { SymbolIndexService } from '@/services/SymbolIndexService';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const GREETER = [
+  'export class Greeter {', // 1
+  '  greet(name: string) {', // 2
+  '    return `hi ${name}`;', // 3
+  '  }', // 4
+  '}', // 5
+  '', // 6
+  'export function greetAll() {}', // 7
+].join('\n');
+
+describe('SymbolIndexService', () => {
+  let workspacePath: string;
+  let service: SymbolIndexService;
+
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workspacePath, name)), { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, name), content);
+  };
+
+  beforeEach(() => {
+    (SymbolIndexService as any).instance = undefined;
+    service = SymbolIndexService.getInstance();
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-index-'));
+    execFileSync('git', ['init', '-q'], { cwd: workspacePath });
+    write('.gitignore', 'dist/\n');
+    write('src/greeter.ts', GREETER);
+    write('tools/greet.py', 'def greet():\n    pass\n');
+    write('dist/greeter.js', 'function greet() {}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  describe('searchSymbols', () => {
+    it('should rank matches across the files git does not ignore', async () => {
+      const symbols = await service.searchSymbols({ workspacePath, query: 'greet' });
+
+      expect(symbols.map((symbol) => `${symbol.path}#${symbol.qualifiedName}`)).toEqual([
+        'tools/greet.py#greet',
+        'src/greeter.ts#Greeter.greet',
+        'src/greeter.ts#Greeter',
+        'src/greeter.ts#greetAll',
+      ]);
+      expect(symbols[1]).toEqual({
+        name: 'greet',
+        qualifiedName: 'Greeter.greet',
+        kind: 'method',
+        path: 'src/greeter.ts',
+        startLine: 2,
+        endLine: 4,
+      });
+    });
+
+    it('should list the symbols of one file and pick up changes to it', async () => {
+      const request = { workspacePath, query: '', path: './src/greeter.ts' };
+      expect((await service.searchSymbols(request)).map((s) => s.qualifiedName)).toEqual([
+        'Greeter',
+        'Greeter.greet',
+        'greetAll',
+      ]);
+
+      write('src/greeter.ts', 'export const wave = () => 1;\n');
+      const later = new Date(Date.now() + 5000);
+      fs.utimesSync(path.join(workspacePath, 'src/greeter.ts'), later, later);
+
+      expect((await service.searchSymbols(request)).map((s) => s.qualifiedName)).toEqual(['wave']);
+    });
+
+    it('should not read files outside the workspace', async () => {
+      expect(
+        await service.searchSymbols({ workspacePath, query: '', path: '../outside.ts' })
+      ).toEqual([]);
+    });
+  });
+
+  describe('expandMentions', () => {
+    it('should append the lines and symbols that mentions refer to', async () => {
+      const prompt = 'Why does @src/greeter.ts#Greeter.greet differ from @tools/greet.py#L1?';
+
+      const expanded = await service.expandMentions(prompt, workspacePath);
+
+      expect(expanded).toBe(
+        [
+          prompt,
+          '',
+          'Referenced code:',
+          '',
+          '@src/greeter.ts#Greeter.greet (src/greeter.ts, lines 2-4):',
+          '```ts',
+          '  greet(name: string) {',
+          '    return `hi ${name}`;',
+          '  }',
+          '```',
+          '',
+          '@tools/greet.py#L1 (tools/greet.py, line 1):',
+          '```python',
+          'def greet():',
+          '```',
+        ].join('\n')
+      );
+    });
+
+    it('should find a member by its name alone and clamp line ranges', async () => {
+      const expanded = await service.expandMentions(
+        '@src/greeter.ts#greet @src/greeter.ts#L6-99',
+        workspacePath
+      );
+
+      expect(expanded).toContain('@src/greeter.ts#greet (src/greeter.ts, lines 2-4):');
+      expect(expanded).toContain(
+        '@src/greeter.ts#L6-99 (src/greeter.ts, lines 6-7):\n```ts\n\nexport function greetAll() {}\n```'
+      );
+    });
+
+    it('should use a longer fence than any in the code', async () => {
+      write('src/docs.ts', '// ```ts\n');
+
+      expect(await service.expandMentions('@src/docs.ts#L1', workspacePath)).toContain(
+        '````ts\n// ```ts\n````'
+      );
+    });
+
+    it('should leave mentions it cannot resolve to the agent', async () => {
+      const prompt = 'See @src/greeter.ts#Missing, @src/none.ts#L1 and @../secret.ts#L1';
+
+      expect(await service.expandMentions(prompt, workspacePath)).toBe(prompt);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit tests for TaskRunnerService
+ * Task detection reads real files in a temp dir; XtermService and the config store are mocked
+ */
+
+import { TASK_RUN_UPDATED_CHANNEL, TaskRunnerService } from '@/services/TaskRunnerService';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const mockCreateTerminal = jest.fn();
+const mockKillTerminal = jest.fn();
+const mockGetOutput = jest.fn();
+const mockReadOutput = jest.fn();
+const mockReadConfig = jest.fn();
+const mockWriteConfig = jest.fn();
+let mockWorktreesDir = '';
+let mockExitListener: (terminalId: string, exitCode: number, signal?: number) => void;
+
+jest.mock('electron-log', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('@/services/XtermService', () => ({
+  XtermService: {
+    getInstance: () => ({
+      onExit: (listener: typeof mockExitListener) => {
+        mockExitListener = listener;
+        return () => undefined;
+      },
+      createTerminal: mockCreateTerminal,
+      killTerminal: mockKillTerminal,
+      getOutput: mockGetOutput,
+      readOutput: mockReadOutput,
+    }),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({
+      getWorktreePath: (folderName: string) => `${mockWorktreesDir}/${folderName}`,
+      readConfig: mockReadConfig,
+      writeConfig: mockWriteConfig,
+    }),
+  },
+}));
+
+describe('TaskRunnerService', () => {
+  let service: TaskRunnerService;
+  let worktreePath: string;
+  const window = {
+    isDestroyed: () => false,
+    webContents: { send: jest.fn() },
+  } as any;
+
+  const write = (name: string, content: string) =>
+    fs.writeFileSync(path.join(worktreePath, name), content);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (TaskRunnerService as any).instance = undefined;
+    mockWorktreesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tasks-'));
+    worktreePath = path.join(mockWorktreesDir, 'repo-main');
+    fs.mkdirSync(worktreePath);
+    mockReadConfig.mockResolvedValue({ worktrees: [{ folder_name: 'repo-main' }] });
+    mockCreateTerminal.mockResolvedValue({ id: 'term-1' });
+    service = TaskRunnerService.getInstance();
+  });
+
+  afterEach(() => {
+    fs.rmSync(mockWorktreesDir, { recursive: true, force: true });
+  });
+
+  describe('detectTasks', () => {
+    it('should detect package.json scripts with the lockfile package manager', async () => {
+      write('package.json', JSON.stringify({ scripts: { test: 'jest', 'lint:fix': 'eslint' } }));
+      write('pnpm-lock.yaml', '');
+
+      const tasks = await service.detectTasks(worktreePath);
+
+      expect(tasks.map((task) => [task.id, task.command])).toEqual([
+        ['package.json:test', 'pnpm run test'],
+        ['package.json:lint:fix', 'pnpm run lint:fix'],
+      ]);
+    });
+
+    it('should detect Makefile targets but not variables or special targets', async () => {
+      write(
+        'Makefile',
+        [
+          'CC := gcc',
+          '.PHONY: build test',
+          'build: deps',
+          '\tgo build',
+          'test lint:',
+          '%.o: %.c',
+          'VERSION ?= 1',
+        ].join('\n')
+      );
+
+      const tasks = await service.detectTasks(worktreePath);
+
+      expect(tasks.map((task) => task.command)).toEqual(['make build', 'make test', 'make lint']);
+    });
+
+    it('should detect justfile recipes', async () => {
+      write(
+        'justfile',
+        ['set shell := ["bash", "-c"]', 'version := "1"', 'build target="x": deps', '@test:'].join(
+          '\n'
+        )
+      );
+
+      const tasks = await service.detectTasks(worktreePath);
+
+      expect(tasks.map((task) => task.command)).toEqual(['just build', 'just test']);
+    });
+
+    it('should detect pyproject scripts with their runners', async () => {
+      write(
+        'pyproject.toml',
+        [
+          '[project]',
+          'name = "app"',
+          '[project.scripts]',
+          'serve = "app:main"',
+          '[tool.poe.tasks]',
+          'fmt = "ruff format"',
+          '[tool.poe.tasks.check]',
+          'cmd = "ruff check"',
+          '[tool.pdm.scripts]',
+          '_.env_file = ".env"',
+          'start = "flask run"',
+        ].join('\n')
+      );
+      write('uv.lock', '');
+
+      const tasks = await service.detectTasks(worktreePath);
+
+      expect(tasks.map((task) => task.command)).toEqual([
+        'uv run serve',
+        'poe fmt',
+        'poe check',
+        'pdm run start',
+      ]);
+    });
+  });
+
+  describe('runs', () => {
+    beforeEach(() => {
+      write('package.json', JSON.stringify({ scripts: { test: 'jest', build: 'tsc' } }));
+    });
+
+    it('should run a task in an exec terminal and mark it passed on exit code 0', async () => {
+      const run = await service.run(window, 'repo-main', 'package.json:test');
+
+      expect(mockCreateTerminal).toHaveBeenCalledWith(window, {
+        cwd: worktreePath,
+        title: 'test',
+        command: 'npm run test',
+        exec: true,
+      });
+      expect(run).toMatchObject({ terminalId: 'term-1', status: 'running', exitCode: null });
+
+      mockGetOutput.mockReturnValue('\x1b[32mok\x1b[0m');
+      mockExitListener('term-1', 0);
+
+      const sent = window.webContents.send.mock.calls[0];
+      expect(sent[0]).toBe(TASK_RUN_UPDATED_CHANNEL);
+      expect(sent[2]).toMatchObject({ id: run.id, status: 'passed', exitCode: 0 });
+      expect(sent[2].output).toBeUndefined();
+      expect(service.getOutput('repo-main', run.id)).toBe('\x1b[32mok\x1b[0m');
+    });
+
+    it('should keep the plain output of a failed run', async () => {
+      await service.run(window, 'repo-main', 'package.json:test');
+      mockGetOutput.mockReturnValue('raw');
+      mockReadOutput.mockReturnValue('1 test failed');
+
+      mockExitListener('term-1', 1);
+
+      const { runs } = await service.list('repo-main');
+      expect(runs[0]).toMatchObject({ status: 'failed', exitCode: 1, output: '1 test failed' });
+      expect(mockReadOutput).toHaveBeenCalledWith('term-1', 200);
+    });
+
+    it('should re-run the last task and stop its previous run', async () => {
+      await service.run(window, 'repo-main', 'package.json:build');
+      mockCreateTerminal.mockResolvedValueOnce({ id: 'term-2' });
+
+      const run = await service.rerunLast(window, 'repo-main');
+
+      expect(run).toMatchObject({ taskId: 'package.json:build', terminalId: 'term-2' });
+      expect(mockKillTerminal).toHaveBeenCalledWith('term-1');
+      const { runs, lastTaskId } = await service.list('repo-main');
+      expect(lastTaskId).toBe('package.json:build');
+      expect(runs).toEqual([run]);
+    });
+
+    it('should refuse to re-run before any task has run', async () => {
+      await expect(service.rerunLast(window, 'repo-main')).rejects.toThrow(
+        'No task has been run in this worktree yet'
+      );
+    });
+  });
+
+  describe('pinned tasks', () => {
+    it('should save pinned tasks in the worktree config and list them first', async () => {
+      write('package.json', JSON.stringify({ scripts: { build: 'tsc', test: 'jest' } }));
+      const config = { worktrees: [{ folder_name: 'repo-main' }] };
+      mockReadConfig.mockResolvedValue(config);
+
+      await service.setPinned('repo-main', 'package.json:test', true);
+
+      expect(mockWriteConfig).toHaveBeenCalledWith({
+        worktrees: [{ folder_name: 'repo-main', pinnedTasks: ['package.json:test'] }],
+      });
+      const { tasks } = await service.list('repo-main');
+      expect(tasks.map((task) => [task.name, task.pinned])).toEqual([
+        ['test', true],
+        ['build', false],
+      ]);
+    });
+
+    it('should throw for an unknown worktree', async () => {
+      await expect(service.setPinned('missing', 'package.json:test', true)).rejects.toThrow(
+        'Worktree not found: missing'
+      );
+    });
+  });
+});
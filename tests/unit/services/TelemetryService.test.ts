@@ -0,0 +1,193 @@
+/**
+ * Unit tests for TelemetryService
+ * Uses a local HTTP server as a stand-in for an OTLP collector
+ */
+
+import { TelemetryService } from '@/services/TelemetryService';
+import type { OtlpExportRequest } from '@/monitoring/utils/otlp';
+import type { TraceFileEntry } from '@/types/trace-logger.types';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+const mockReadAppConfig = jest.fn();
+let mockListener: ((entry: TraceFileEntry) => void) | null = null;
+const mockUnsubscribe = jest.fn(() => {
+  mockListener = null;
+});
+
+jest.mock('electron', () => ({
+  app: { getVersion: () => '1.2.3' },
+}));
+
+jest.mock('@/commons/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({ readAppConfig: mockReadAppConfig }),
+  },
+}));
+
+jest.mock('@/services/TraceLogger', () => ({
+  TraceLogger: {
+    getInstance: () => ({
+      onEntry: (listener: (entry: TraceFileEntry) => void) => {
+        mockListener = listener;
+        return mockUnsubscribe;
+      },
+    }),
+  },
+}));
+
+const traceEntry = (timestamp: string, rawMessage: unknown): TraceFileEntry => ({
+  timestamp,
+  sessionId: 'session-1',
+  direction: 'from-claude',
+  correlationId: 'query-1',
+  rawMessage,
+  sdkVersion: '1.0.0',
+  sequenceNumber: 0,
+});
+
+const turn: TraceFileEntry[] = [
+  traceEntry('2025-01-01T12:00:00.000Z', { type: 'user', message: { content: 'hi' } }),
+  traceEntry('2025-01-01T12:00:01.000Z', {
+    type: 'result',
+    subtype: 'success',
+    usage: { input_tokens: 10, output_tokens: 5 },
+    total_cost_usd: 0.01,
+  }),
+];
+
+interface Collector {
+  url: string;
+  requests: Array<{ headers: http.IncomingHttpHeaders; body: OtlpExportRequest }>;
+  close: () => Promise<void>;
+}
+
+const startCollector = async (status = 200): Promise<Collector> => {
+  const requests: Collector['requests'] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = status;
+      res.end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/v1/traces`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe('TelemetryService', () => {
+  let service: TelemetryService;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (TelemetryService as any).instance = undefined;
+    mockListener = null;
+    service = TelemetryService.getInstance();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'telemetry-test-'));
+  });
+
+  afterEach(() => {
+    service.configure({});
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should not collect turns unless enabled with a destination', async () => {
+    mockReadAppConfig.mockResolvedValue({ telemetry: { endpoint: 'http://localhost:4318' } });
+    await service.start();
+    expect(mockListener).toBeNull();
+
+    service.configure({ enabled: true });
+    expect(mockListener).toBeNull();
+  });
+
+  it('should POST a finished turn to the collector with the configured headers', async () => {
+    const collector = await startCollector();
+    try {
+      service.configure({
+        enabled: true,
+        endpoint: collector.url,
+        headers: { Authorization: 'Bearer token' },
+      });
+      turn.forEach((entry) => mockListener?.(entry));
+      await service.endTurn('query-1');
+
+      expect(collector.requests).toHaveLength(1);
+      const [{ headers, body }] = collector.requests;
+      expect(headers.authorization).toBe('Bearer token');
+      expect(headers['content-type']).toBe('application/json');
+
+      const [resourceSpans] = body.resourceSpans;
+      expect(resourceSpans.resource.attributes).toContainEqual({
+        key: 'service.name',
+        value: { stringValue: 'autosteer' },
+      });
+      expect(resourceSpans.resource.attributes).toContainEqual({
+        key: 'service.version',
+        value: { stringValue: '1.2.3' },
+      });
+      expect(resourceSpans.scopeSpans[0].spans.map((span) => span.name)).toEqual(['invoke_agent']);
+    } finally {
+      await collector.close();
+    }
+  });
+
+  it('should append the export to a file for offline use', async () => {
+    const filePath = path.join(tmpDir, 'nested', 'traces.jsonl');
+    service.configure({ enabled: true, filePath, serviceName: 'my-agent' });
+    turn.forEach((entry) => mockListener?.(entry));
+    await service.endTurn('query-1');
+    await service.endTurn('query-1');
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    const body: OtlpExportRequest = JSON.parse(lines[0]);
+    expect(body.resourceSpans[0].resource.attributes[0]).toEqual({
+      key: 'service.name',
+      value: { stringValue: 'my-agent' },
+    });
+  });
+
+  it('should not throw when the collector rejects the export', async () => {
+    const collector = await startCollector(500);
+    try {
+      service.configure({ enabled: true, endpoint: collector.url });
+      turn.forEach((entry) => mockListener?.(entry));
+      await expect(service.endTurn('query-1')).resolves.toBeUndefined();
+      expect(collector.requests).toHaveLength(1);
+    } finally {
+      await collector.close();
+    }
+  });
+
+  it('should stop collecting and drop pending turns when disabled', async () => {
+    const filePath = path.join(tmpDir, 'traces.jsonl');
+    service.configure({ enabled: true, filePath });
+    mockListener?.(turn[0]);
+
+    service.configure({ enabled: false, filePath });
+    expect(mockUnsubscribe).toHaveBeenCalled();
+    await service.endTurn('query-1');
+
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
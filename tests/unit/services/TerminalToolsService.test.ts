@@ -0,0 +1,104 @@
+/**
+ * Unit tests for TerminalToolsService
+ * XtermService is mocked; tool handlers are called directly
+ */
+
+import { TerminalToolsService } from '@/services/TerminalToolsService';
+
+const mockGetAllTerminals = jest.fn();
+const mockReadOutput = jest.fn();
+const mockSendInput = jest.fn();
+
+jest.mock('@/services/XtermService', () => ({
+  XtermService: {
+    getInstance: () => ({
+      getAllTerminals: mockGetAllTerminals,
+      readOutput: mockReadOutput,
+      sendInput: mockSendInput,
+    }),
+  },
+}));
+
+const terminal = (id: string, cwd: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  shell: '/bin/zsh',
+  cwd,
+  isActive: true,
+  pid: 1,
+  ...extra,
+});
+
+describe('TerminalToolsService', () => {
+  const service = TerminalToolsService.getInstance();
+  const worktreePath = '/home/user/.autosteer/worktrees/repo-main';
+
+  const callTool = (name: string, args: Record<string, unknown> = {}) => {
+    const server = service.createServer(worktreePath);
+    const definition = (server.instance as any).tools.find((t: any) => t.name === name);
+    return definition.handler(args, {});
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAllTerminals.mockReturnValue([
+      terminal('tab', '/home/user', { persistKey: 'repo-main', launchCommand: 'npm run dev' }),
+      terminal('sub', `${worktreePath}/packages/app`),
+      terminal('other', '/home/user/.autosteer/worktrees/repo-main-2'),
+      terminal('exited', worktreePath, { isActive: false }),
+    ]);
+  });
+
+  it('should list only the terminals of the worktree', async () => {
+    const result = await callTool('list_terminals');
+
+    expect(JSON.parse(result.content[0].text)).toEqual([
+      {
+        terminalId: 'tab',
+        shell: '/bin/zsh',
+        cwd: '/home/user',
+        running: true,
+        lastCommand: 'npm run dev',
+      },
+      { terminalId: 'sub', shell: '/bin/zsh', cwd: `${worktreePath}/packages/app`, running: true },
+      { terminalId: 'exited', shell: '/bin/zsh', cwd: worktreePath, running: false },
+    ]);
+  });
+
+  it('should read output with the default line count', async () => {
+    mockReadOutput.mockReturnValue('ready on http://localhost:3000');
+
+    const result = await callTool('read_terminal_output', { terminalId: 'tab' });
+
+    expect(mockReadOutput).toHaveBeenCalledWith('tab', 100);
+    expect(result.content[0].text).toBe('ready on http://localhost:3000');
+  });
+
+  it('should not reach terminals of other worktrees', async () => {
+    const read = await callTool('read_terminal_output', { terminalId: 'other' });
+    const send = await callTool('send_terminal_input', { terminalId: 'other', input: 'ls' });
+
+    expect(read.isError).toBe(true);
+    expect(send.isError).toBe(true);
+    expect(mockReadOutput).not.toHaveBeenCalled();
+    expect(mockSendInput).not.toHaveBeenCalled();
+  });
+
+  it('should send input and press Enter unless told not to', async () => {
+    await callTool('send_terminal_input', { terminalId: 'sub', input: 'npm test' });
+    await callTool('send_terminal_input', {
+      terminalId: 'sub',
+      input: '\u0003',
+      pressEnter: false,
+    });
+
+    expect(mockSendInput).toHaveBeenNthCalledWith(1, 'sub', 'npm test\r');
+    expect(mockSendInput).toHaveBeenNthCalledWith(2, 'sub', '\u0003');
+  });
+
+  it('should not send input to an exited terminal', async () => {
+    const result = await callTool('send_terminal_input', { terminalId: 'exited', input: 'ls' });
+
+    expect(result.isError).toBe(true);
+    expect(mockSendInput).not.toHaveBeenCalled();
+  });
+});
@@ -389,6 +389,48 @@ describe('TraceLogger', () => {
     });
   });
 
+  describe('Reading Trace Files', () => {
+    it('should list trace files including rotated ones', async () => {
+      await traceLogger.log('session-a', 'to-claude', { msg: 'a' }, 'corr-1');
+      await fsPromises.writeFile(
+        path.join(tracesDir, 'session-b.trace.jsonl.rotated.1234567890'),
+        '',
+        'utf-8'
+      );
+      await fsPromises.writeFile(path.join(tracesDir, 'notes.txt'), '', 'utf-8');
+
+      const files = await traceLogger.listTraceFiles();
+
+      expect(files.map((file) => file.sessionId).sort()).toEqual(['session-a', 'session-b']);
+      expect(files.every((file) => file.filePath.startsWith(tracesDir))).toBe(true);
+    });
+
+    it('should return an empty list when the traces directory is missing', async () => {
+      await fsPromises.rm(tracesDir, { recursive: true, force: true });
+
+      await expect(traceLogger.listTraceFiles()).resolves.toEqual([]);
+    });
+
+    it('should read entries in file order and skip invalid lines', async () => {
+      const sessionId = 'session-read';
+      await traceLogger.log(sessionId, 'to-claude', { type: 'user' }, 'corr-1');
+      await traceLogger.log(
+        sessionId,
+        'from-claude',
+        { type: 'result', subtype: 'success' },
+        'corr-1'
+      );
+      const traceFilePath = path.join(tracesDir, `${sessionId}.trace.jsonl`);
+      const content = await fsPromises.readFile(traceFilePath, 'utf-8');
+      await fsPromises.writeFile(traceFilePath, `${content}not json\n`, 'utf-8');
+
+      const entries = await traceLogger.readTraceFile(traceFilePath);
+
+      expect(entries.map((entry) => entry.direction)).toEqual(['to-claude', 'from-claude']);
+      expect(entries[1].messageSubtype).toBe('success');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle write errors gracefully', async () => {
       console.log('[TraceLogger.test] Testing write error handling');
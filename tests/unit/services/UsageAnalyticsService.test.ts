@@ -0,0 +1,91 @@
+import { LoadedUsageEntry, TokenCounts } from '@/entities';
+import { UsageAnalyticsService } from '@/services/UsageAnalyticsService';
+
+const mockGetEntries = jest.fn();
+const mockGetActiveBlock = jest.fn();
+const mockGetAllAgentSessions = jest.fn();
+
+jest.mock('@/services/FileDataStoreService', () => ({
+  FileDataStoreService: {
+    getInstance: () => ({
+      getWorktrees: jest.fn().mockResolvedValue([{ folder_name: 'app-fix' }]),
+      getAgents: jest.fn().mockResolvedValue([
+        { id: 'agent-1', title: 'Refactor', project_id: 'app-fix' },
+        {
+          id: 'agent-2',
+          title: 'Docs',
+          project_id: 'app-fix',
+          claude_session_id: 'session-2',
+        },
+      ]),
+      getWorktreePath: (folderName: string) => `/home/me/.autosteer/worktrees/${folderName}`,
+    }),
+  },
+}));
+
+jest.mock('@/services/SessionManifestService', () => ({
+  SessionManifestService: {
+    getInstance: () => ({ getAllAgentSessions: mockGetAllAgentSessions }),
+  },
+}));
+
+jest.mock('@/monitoring/adapters/CCUsageMonitor', () => ({
+  CCUsageMonitor: jest.fn().mockImplementation(() => ({
+    getEntries: mockGetEntries,
+    getActiveBlock: mockGetActiveBlock,
+  })),
+}));
+
+const WORKTREE_LOGS = '/home/me/.claude/projects/-home-me--autosteer-worktrees-app-fix';
+
+const entry = (costUSD: number, sourceFile: string) =>
+  new LoadedUsageEntry({
+    timestamp: new Date(2025, 10, 24, 10),
+    usage: new TokenCounts({ inputTokens: 1000, outputTokens: 500 }),
+    costUSD,
+    model: 'claude-sonnet-4-5-20250929',
+    sourceFile,
+  });
+
+describe('UsageAnalyticsService', () => {
+  let service: UsageAnalyticsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UsageAnalyticsService as any).instance = undefined;
+    service = UsageAnalyticsService.getInstance();
+
+    mockGetActiveBlock.mockResolvedValue(null);
+    mockGetAllAgentSessions.mockResolvedValue({ 'agent-1': 'session-1' });
+    mockGetEntries.mockResolvedValue([
+      entry(4, `${WORKTREE_LOGS}/session-1.jsonl`),
+      entry(2, `${WORKTREE_LOGS}/session-2.jsonl`),
+      entry(3, '/home/me/.claude/projects/-home-me-other/session-3.jsonl'),
+    ]);
+  });
+
+  it('should attribute usage to worktrees and agents', async () => {
+    const analytics = await service.getAnalytics('day');
+
+    expect(mockGetAllAgentSessions).toHaveBeenCalledWith('app-fix');
+    expect(Object.keys(analytics.breakdown.worktree)).toEqual(['app-fix', '-home-me-other']);
+    expect(analytics.breakdown.worktree['app-fix'].costUSD).toBe(6);
+    expect(analytics.breakdown.agent).toEqual({
+      'Refactor (app-fix)': expect.objectContaining({ costUSD: 4 }),
+      'Docs (app-fix)': expect.objectContaining({ costUSD: 2 }),
+      Unattributed: expect.objectContaining({ costUSD: 3 }),
+    });
+    expect(analytics.burnRate).toBeNull();
+  });
+
+  it('should export analytics as CSV or JSON', async () => {
+    const csv = await service.export('month', 'csv');
+    const json = JSON.parse(await service.export('month', 'json'));
+
+    expect(csv.split('\n')[1]).toBe(
+      'month,2025-11-01,model,claude-sonnet-4-5-20250929,3,9.000000,3000,1500,0,0,4500,0.0000'
+    );
+    expect(json.period).toBe('month');
+    expect(json.totals.costUSD).toBe(9);
+  });
+});
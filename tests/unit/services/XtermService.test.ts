@@ -30,6 +30,17 @@ jest.mock('node-pty', () => ({
 
 jest.mock('os');
 
+const mockLoadSession = jest.fn();
+const mockSaveSession = jest.fn();
+const mockRemoveSession = jest.fn();
+jest.mock('@/services/TerminalPersistenceService', () => ({
+  TerminalPersistenceService: jest.fn().mockImplementation(() => ({
+    load: mockLoadSession,
+    save: mockSaveSession,
+    remove: mockRemoveSession,
+  })),
+}));
+
 // Mock UUID to return unique IDs for each call
 let uuidCounter = 0;
 jest.mock('uuid', () => ({
@@ -76,6 +87,10 @@ describe('XtermService', () => {
     const ptyModule = require('node-pty');
     ptyModule.spawn = jest.fn().mockReturnValue(mockPty);
 
+    mockLoadSession.mockResolvedValue(undefined);
+    mockSaveSession.mockResolvedValue(undefined);
+    mockRemoveSession.mockResolvedValue(undefined);
+
     // Mock os module
     (os.platform as jest.Mock).mockReturnValue('darwin');
     (os.homedir as jest.Mock).mockReturnValue('/Users/test');
@@ -838,4 +853,191 @@ describe('XtermService', () => {
       console.log('[XtermService Test] Custom env vars accepted');
     });
   });
+  describe('Persistent Terminals', () => {
+    const getWriteHandler = () =>
+      (ipcMain.handle as jest.Mock).mock.calls.find((call) => call[0] === 'terminal:write')[1];
+
+    it('should restore a saved session', async () => {
+      const ptyModule = require('node-pty');
+      mockLoadSession.mockResolvedValue({
+        key: 'my-project',
+        shell: '/bin/zsh',
+        cwd: process.cwd(),
+        env: { NODE_ENV: 'development' },
+        launchCommand: 'npm run dev',
+        bufferState: {
+          terminalId: 'old-terminal',
+          content: 'ready on http://localhost:3000',
+          cursorX: 0,
+          cursorY: 0,
+          cols: 80,
+          rows: 24,
+          timestamp: '2026-01-01T00:00:00.000Z',
+          sizeBytes: 30,
+        },
+      });
+
+      const terminal = await xtermService.createTerminal(mockWindow, {
+        cwd: '/project',
+        persistKey: 'my-project',
+      });
+
+      expect(mockLoadSession).toHaveBeenCalledWith('my-project');
+      expect(ptyModule.spawn).toHaveBeenCalledWith(
+        '/bin/zsh',
+        [],
+        expect.objectContaining({
+          cwd: process.cwd(),
+          env: expect.objectContaining({ NODE_ENV: 'development' }),
+        })
+      );
+      expect(terminal.restored).toEqual({
+        content: 'ready on http://localhost:3000',
+        launchCommand: 'npm run dev',
+        savedAt: '2026-01-01T00:00:00.000Z',
+        reattached: false,
+      });
+    });
+
+    it('should not load or save terminals without a persist key', async () => {
+      await xtermService.createTerminal(mockWindow);
+      await xtermService.cleanup();
+
+      expect(mockLoadSession).not.toHaveBeenCalled();
+      expect(mockSaveSession).not.toHaveBeenCalled();
+    });
+
+    it('should save the last command entered on cleanup', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow, {
+        cwd: '/project',
+        env: { PORT: '3000' },
+        persistKey: 'my-project',
+      });
+      const writeHandler = getWriteHandler();
+      const dataHandler = mockPty.onData.mock.calls[0][0];
+      await writeHandler(null, { terminalId: terminal.id, data: 'npm run tset' });
+      dataHandler('npm run tset');
+      await writeHandler(null, { terminalId: terminal.id, data: '\x7f\x7f\x7fest\r' });
+      dataHandler('\b \b\b \b\b \best\r\nPASS all tests\r\n');
+
+      await xtermService.cleanup();
+
+      expect(mockSaveSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'my-project',
+          cwd: '/project',
+          env: { PORT: '3000' },
+          launchCommand: 'npm run test',
+          bufferState: expect.objectContaining({
+            content: expect.stringContaining('PASS all tests\r\n'),
+          }),
+        })
+      );
+      expect(mockRemoveSession).not.toHaveBeenCalled();
+    });
+
+    it('should not save input the terminal did not echo', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow, { persistKey: 'my-project' });
+      const writeHandler = getWriteHandler();
+      const dataHandler = mockPty.onData.mock.calls[0][0];
+      await writeHandler(null, { terminalId: terminal.id, data: 'sudo ls\r' });
+      dataHandler('sudo ls\r\n[sudo] password: ');
+      await writeHandler(null, { terminalId: terminal.id, data: 'hunter2\r' });
+      dataHandler('\r\nfile.txt\r\n$ hunter2');
+
+      await xtermService.cleanup();
+
+      expect(mockSaveSession.mock.calls[0][0].launchCommand).toBe('sudo ls');
+    });
+
+    it('should not guess the command after history recall', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow, { persistKey: 'my-project' });
+      const writeHandler = getWriteHandler();
+      await writeHandler(null, { terminalId: terminal.id, data: '\x1b[A' });
+      await writeHandler(null, { terminalId: terminal.id, data: '\r' });
+
+      await xtermService.cleanup();
+
+      expect(mockSaveSession.mock.calls[0][0]).not.toHaveProperty('launchCommand');
+    });
+
+    it('should run the launch command and remove the saved session when killed', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow, {
+        persistKey: 'my-project',
+        command: 'npm start',
+      });
+
+      expect(mockPty.write).toHaveBeenCalledWith('npm start\r');
+
+      await xtermService.killTerminal(terminal.id);
+
+      expect(mockRemoveSession).toHaveBeenCalledWith('my-project');
+      expect(mockSaveSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Agent Access', () => {
+    it('should read the last output lines as plain text', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow);
+      const dataHandler = mockPty.onData.mock.calls[0][0];
+      dataHandler('$ npm test\r\n\x1b[32mPASS\x1b[0m one\r\n');
+      dataHandler('Progress 10%\rProgress 100%\r\n$ ');
+
+      expect(xtermService.readOutput(terminal.id, 2)).toBe('Progress 100%\n$');
+      expect(xtermService.readOutput(terminal.id, 100)).toBe(
+        '$ npm test\nPASS one\nProgress 100%\n$'
+      );
+    });
+
+    it('should send input and list the terminal with its last command', async () => {
+      const terminal = await xtermService.createTerminal(mockWindow, { persistKey: 'my-project' });
+
+      await xtermService.sendInput(terminal.id, 'npm run dev\r');
+      mockPty.onData.mock.calls[0][0]('npm run dev\r\n');
+
+      expect(mockPty.write).toHaveBeenCalledWith('npm run dev\r');
+      expect(xtermService.getAllTerminals()).toEqual([
+        expect.objectContaining({
+          id: terminal.id,
+          persistKey: 'my-project',
+          launchCommand: 'npm run dev',
+        }),
+      ]);
+    });
+
+    it('should throw when reading an unknown terminal', () => {
+      expect(() => xtermService.readOutput('missing', 10)).toThrow('Terminal not found: missing');
+    });
+  });
+
+  describe('Task Runs', () => {
+    it("should run an exec command as the shell's only job", async () => {
+      const ptyModule = require('node-pty');
+
+      await xtermService.createTerminal(mockWindow, {
+        shell: '/bin/bash',
+        command: 'npm run test',
+        exec: true,
+      });
+
+      expect(ptyModule.spawn).toHaveBeenCalledWith(
+        '/bin/bash',
+        ['-c', 'npm run test'],
+        expect.any(Object)
+      );
+      expect(mockPty.write).not.toHaveBeenCalled();
+    });
+
+    it('should notify exit listeners with the exit code and output', async () => {
+      const listener = jest.fn((terminalId: string) => xtermService.getOutput(terminalId));
+      xtermService.onExit(listener);
+      const terminal = await xtermService.createTerminal(mockWindow);
+      mockPty.onData.mock.calls[0][0]('\x1b[31mfailed\x1b[0m');
+
+      mockPty.onExit.mock.calls[0][0]({ exitCode: 2 });
+
+      expect(listener).toHaveBeenCalledWith(terminal.id, 2, undefined);
+      expect(listener.mock.results[0].value).toBe('\x1b[31mfailed\x1b[0m');
+    });
+  });
 });
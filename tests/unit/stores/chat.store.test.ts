@@ -16,6 +16,7 @@
 import { claudeCodeService } from '@/renderer/services/ClaudeCodeService';
 import { useChatStore } from '@/stores';
 import { ComputedMessage } from '@/stores/chat.selectors';
+import { useSettingsStore } from '@/stores/settings';
 
 // Mock dependencies
 jest.mock('@/commons/utils/logger');
@@ -75,6 +76,8 @@ describe('Chat Store - Query State Management', () => {
     traceEntries: new Map(),
     draftInputs: new Map(),
     draftCursorPositions: new Map(),
+    messageQueues: new Map(),
+    pausedMessageQueues: new Set<string>(),
     validationErrors: new Map(),
     backgroundSyncInterval: null,
   };
@@ -1858,4 +1861,369 @@ describe('Chat Store - Query State Management', () => {
       });
     });
   });
+
+  describe('Message Queue', () => {
+    const agentId = 'test-agent-1';
+
+    const queuedContents = () =>
+      useChatStore
+        .getState()
+        .getQueuedMessages(agentId)
+        .map((m) => m.content);
+
+    const mockQueryCompletingImmediately = () => {
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(
+        async (_msg, _opts, callbacks) => {
+          callbacks?.onResult?.({ type: 'result', subtype: 'success' });
+          callbacks?.onComplete?.('final content');
+        }
+      );
+    };
+
+    beforeEach(() => {
+      useChatStore.setState({ activeChat: agentId });
+
+      const { useAgentsStore } = require('@/stores/agents.store');
+      (useAgentsStore.getState as jest.Mock).mockReturnValue({
+        selectedAgentId: agentId,
+        getSelectedAgent: jest.fn(() => ({
+          id: agentId,
+          name: 'Test Agent',
+          projectId: 'test-project',
+        })),
+      });
+    });
+
+    it('should return a stable empty queue for unknown agents', () => {
+      const state = useChatStore.getState();
+      expect(state.getQueuedMessages('unknown')).toEqual([]);
+      expect(state.getQueuedMessages('unknown')).toBe(state.getQueuedMessages('other'));
+    });
+
+    it('should enqueue messages per agent with their options', () => {
+      const state = useChatStore.getState();
+      state.enqueueMessage(agentId, 'first', { permissionMode: 'plan' });
+      state.enqueueMessage('other-agent', 'elsewhere');
+
+      const queue = useChatStore.getState().getQueuedMessages(agentId);
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toEqual(
+        expect.objectContaining({ content: 'first', options: { permissionMode: 'plan' } })
+      );
+      expect(useChatStore.getState().getQueuedMessages('other-agent')).toHaveLength(1);
+    });
+
+    it('should edit, reorder and remove queued messages', () => {
+      const state = useChatStore.getState();
+      state.enqueueMessage(agentId, 'a');
+      state.enqueueMessage(agentId, 'b');
+      state.enqueueMessage(agentId, 'c');
+      const [a, b, c] = useChatStore.getState().getQueuedMessages(agentId);
+
+      state.updateQueuedMessage(agentId, b.id, 'b2');
+      expect(queuedContents()).toEqual(['a', 'b2', 'c']);
+
+      state.moveQueuedMessage(agentId, c.id, -1);
+      expect(queuedContents()).toEqual(['a', 'c', 'b2']);
+
+      // Moving past either end is ignored
+      state.moveQueuedMessage(agentId, a.id, -1);
+      expect(queuedContents()).toEqual(['a', 'c', 'b2']);
+
+      state.removeQueuedMessage(agentId, a.id);
+      state.removeQueuedMessage(agentId, c.id);
+      state.removeQueuedMessage(agentId, b.id);
+      expect(useChatStore.getState().messageQueues.has(agentId)).toBe(false);
+    });
+
+    it('should not flush while the agent is streaming', async () => {
+      useChatStore.setState({ streamingStates: new Map([[agentId, true]]) });
+      useChatStore.getState().enqueueMessage(agentId, 'later');
+
+      const sent = await useChatStore.getState().flushMessageQueue(agentId);
+
+      expect(sent).toBe(false);
+      expect(claudeCodeService.queryWithStreaming).not.toHaveBeenCalled();
+      expect(queuedContents()).toEqual(['later']);
+    });
+
+    it('should not flush for an agent that is not the active chat', async () => {
+      useChatStore.setState({ activeChat: 'other-agent' });
+      useChatStore.getState().enqueueMessage(agentId, 'later');
+
+      expect(await useChatStore.getState().flushMessageQueue(agentId)).toBe(false);
+      expect(queuedContents()).toEqual(['later']);
+    });
+
+    it('should send queued messages one per turn in sequential mode', async () => {
+      const sentMessages: string[] = [];
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(async (msg) => {
+        sentMessages.push(msg);
+      });
+      const state = useChatStore.getState();
+      state.enqueueMessage(agentId, 'first', { permissionMode: 'plan' });
+      state.enqueueMessage(agentId, 'second');
+
+      expect(await state.flushMessageQueue(agentId)).toBe(true);
+
+      expect(sentMessages).toEqual(['first']);
+      expect(queuedContents()).toEqual(['second']);
+      const [, options] = (claudeCodeService.queryWithStreaming as jest.Mock).mock.calls[0];
+      expect(options.conversationOptions.permission_mode).toBe('plan');
+    });
+
+    it('should merge all queued messages into one prompt in merged mode', async () => {
+      const getSettings = useSettingsStore.getState as jest.Mock;
+      const defaultSettings = getSettings.getMockImplementation();
+      getSettings.mockImplementation(() => ({
+        preferences: { maxTurns: null, messageQueueMode: 'merged' },
+      }));
+
+      try {
+        const sentMessages: string[] = [];
+        (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(async (msg) => {
+          sentMessages.push(msg);
+        });
+        const state = useChatStore.getState();
+        state.enqueueMessage(agentId, 'first');
+        state.enqueueMessage(agentId, 'second');
+
+        await state.flushMessageQueue(agentId);
+
+        expect(sentMessages).toEqual(['first\n\nsecond']);
+        expect(useChatStore.getState().messageQueues.has(agentId)).toBe(false);
+      } finally {
+        getSettings.mockImplementation(defaultSettings);
+      }
+    });
+
+    it('should send the next queued message when the current turn completes', async () => {
+      const sentMessages: string[] = [];
+      let completeFirstTurn: () => void = () => {};
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementationOnce(
+        async (msg, _opts, callbacks) => {
+          sentMessages.push(msg);
+          completeFirstTurn = () => {
+            callbacks.onResult({ type: 'result', subtype: 'success' });
+            callbacks.onComplete('done');
+          };
+        }
+      );
+
+      await useChatStore.getState().sendMessage('current');
+      useChatStore.getState().enqueueMessage(agentId, 'follow-up');
+
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(async (msg) => {
+        sentMessages.push(msg);
+      });
+      completeFirstTurn();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['current', 'follow-up']);
+      expect(queuedContents()).toEqual([]);
+    });
+
+    it('should hold the queue when the user stops the turn until it is resumed', async () => {
+      const sentMessages: string[] = [];
+      let endFirstTurn: () => void = () => {};
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementationOnce(
+        async (msg, _opts, callbacks) => {
+          sentMessages.push(msg);
+          // A stopped query still reports completion
+          endFirstTurn = () => callbacks.onComplete('partial');
+        }
+      );
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(async (msg) => {
+        sentMessages.push(msg);
+      });
+
+      await useChatStore.getState().sendMessage('current');
+      useChatStore.getState().enqueueMessage(agentId, 'follow-up');
+      useChatStore.getState().stopStreaming();
+      endFirstTurn();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['current']);
+      expect(queuedContents()).toEqual(['follow-up']);
+      expect(useChatStore.getState().isMessageQueuePaused(agentId)).toBe(true);
+
+      expect(await useChatStore.getState().resumeMessageQueue(agentId)).toBe(true);
+      expect(sentMessages).toEqual(['current', 'follow-up']);
+      expect(useChatStore.getState().isMessageQueuePaused(agentId)).toBe(false);
+    });
+
+    it('should put a queued message that failed back and hold the queue', async () => {
+      const sentMessages: string[] = [];
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementation(
+        async (msg, _opts, callbacks) => {
+          sentMessages.push(msg);
+          callbacks.onError(new Error('Budget exceeded'));
+        }
+      );
+      const state = useChatStore.getState();
+      state.enqueueMessage(agentId, 'first');
+      state.enqueueMessage(agentId, 'second');
+
+      await state.flushMessageQueue(agentId);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['first']);
+      expect(queuedContents()).toEqual(['first', 'second']);
+      expect(useChatStore.getState().isMessageQueuePaused(agentId)).toBe(true);
+      expect(await useChatStore.getState().flushMessageQueue(agentId)).toBe(false);
+    });
+
+    it('should hold the queue after an aborted turn', async () => {
+      const sentMessages: string[] = [];
+      let abortFirstTurn: (error: Error) => void = () => {};
+      (claudeCodeService.queryWithStreaming as jest.Mock).mockImplementationOnce(
+        (msg) =>
+          new Promise((_resolve, reject) => {
+            sentMessages.push(msg);
+            abortFirstTurn = reject;
+          })
+      );
+
+      const firstTurn = useChatStore.getState().sendMessage('current');
+      useChatStore.getState().enqueueMessage(agentId, 'follow-up');
+      abortFirstTurn(new Error('Query aborted'));
+      await firstTurn;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['current']);
+      expect(queuedContents()).toEqual(['follow-up']);
+    });
+
+    it('should send only the chosen message when sending now during a turn', async () => {
+      const sentMessages: string[] = [];
+      let abortFirstTurn: (error: Error) => void = () => {};
+      let completeUrgentTurn: () => void = () => {};
+      (claudeCodeService.queryWithStreaming as jest.Mock)
+        .mockImplementationOnce(
+          (msg) =>
+            new Promise((_resolve, reject) => {
+              sentMessages.push(msg);
+              abortFirstTurn = reject;
+            })
+        )
+        .mockImplementationOnce(async (msg, _opts, callbacks) => {
+          sentMessages.push(msg);
+          completeUrgentTurn = () => {
+            callbacks.onResult({ type: 'result', subtype: 'success' });
+            callbacks.onComplete('done');
+          };
+        })
+        .mockImplementation(async (msg) => {
+          sentMessages.push(msg);
+        });
+
+      const firstTurn = useChatStore.getState().sendMessage('current');
+      useChatStore.getState().enqueueMessage(agentId, 'urgent');
+      useChatStore.getState().enqueueMessage(agentId, 'later');
+      const [urgent] = useChatStore.getState().getQueuedMessages(agentId);
+
+      await useChatStore.getState().sendQueuedMessageNow(agentId, urgent.id);
+      abortFirstTurn(new Error('Query aborted'));
+      await firstTurn;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['current', 'urgent']);
+      expect(queuedContents()).toEqual(['later']);
+
+      completeUrgentTurn();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sentMessages).toEqual(['current', 'urgent', 'later']);
+    });
+
+    it('should send a queued message immediately with sendQueuedMessageNow', async () => {
+      mockQueryCompletingImmediately();
+      const state = useChatStore.getState();
+      state.enqueueMessage(agentId, 'urgent');
+      const [queued] = useChatStore.getState().getQueuedMessages(agentId);
+
+      await state.sendQueuedMessageNow(agentId, queued.id);
+
+      expect(claudeCodeService.queryWithStreaming).toHaveBeenCalledWith(
+        'urgent',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(queuedContents()).toEqual([]);
+    });
+  });
+
+  describe('Session Branching', () => {
+    const agentId = 'test-agent-1';
+    const messages = [
+      { id: 'u1', role: 'user', content: 'again', timestamp: new Date(1000) },
+      { id: 'a1', role: 'assistant', content: 'ok', timestamp: new Date(2000) },
+      { id: 'u2', role: 'user', content: 'again', timestamp: new Date(3000) },
+    ] as any[];
+    let branchSession: jest.Mock;
+
+    beforeEach(() => {
+      branchSession = jest.fn().mockResolvedValue({ success: true });
+      (window.electron.agents as any).branchSession = branchSession;
+      (window.electron.agents.loadChatHistory as jest.Mock).mockResolvedValue({
+        messages: [messages[0], messages[1]],
+        sessionId: null,
+      });
+      useChatStore.setState({
+        messages: new Map([[agentId, messages]]),
+        sessionIds: new Map([[agentId, 'session-1']]),
+      });
+    });
+
+    it('should rewind to a message and put its text back in the input', async () => {
+      const result = await useChatStore.getState().branchFromMessage(agentId, 'u2', agentId);
+
+      expect(result).toEqual({ success: true });
+      expect(branchSession).toHaveBeenCalledWith({
+        sourceAgentId: agentId,
+        targetAgentId: agentId,
+        messageId: 'u2',
+        content: 'again',
+        ordinal: 1,
+      });
+
+      const state = useChatStore.getState();
+      expect(state.getMessages(agentId).map((m) => m.id)).toEqual(['u1', 'a1']);
+      expect(state.getSessionId(agentId)).toBeNull();
+      expect(state.getDraftInput(agentId)).toBe('again');
+    });
+
+    it('should load the fork into the target agent only', async () => {
+      await useChatStore
+        .getState()
+        .branchFromMessage(agentId, 'u2', 'fork-1', { restoreFiles: true });
+
+      expect(branchSession).toHaveBeenCalledWith(
+        expect.objectContaining({ targetAgentId: 'fork-1', restoreFiles: true })
+      );
+      const state = useChatStore.getState();
+      expect(state.getMessages(agentId)).toHaveLength(3);
+      expect(state.getMessages('fork-1').map((m) => m.id)).toEqual(['u1', 'a1']);
+      expect(state.getDraftInput('fork-1')).toBe('again');
+    });
+
+    it('should refuse to branch while the agent is streaming or from assistant messages', async () => {
+      const state = useChatStore.getState();
+      expect((await state.branchFromMessage(agentId, 'a1', agentId)).success).toBe(false);
+
+      useChatStore.setState({ streamingStates: new Map([[agentId, true]]) });
+      expect((await state.branchFromMessage(agentId, 'u2', agentId)).success).toBe(false);
+      expect(branchSession).not.toHaveBeenCalled();
+    });
+
+    it('should leave the conversation untouched when the main process fails', async () => {
+      branchSession.mockResolvedValue({ success: false, error: 'Message not found' });
+
+      const result = await useChatStore.getState().branchFromMessage(agentId, 'u2', agentId);
+
+      expect(result).toEqual({ success: false, error: 'Message not found' });
+      expect(useChatStore.getState().getMessages(agentId)).toHaveLength(3);
+      expect(useChatStore.getState().getSessionId(agentId)).toBe('session-1');
+    });
+  });
 });
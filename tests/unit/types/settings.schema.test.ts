@@ -0,0 +1,118 @@
+/**
+ * Settings Schema Tests
+ *
+ * Tests lenient layer parsing and layered resolution of the unified settings
+ */
+
+import {
+  SETTINGS_DEFAULTS,
+  SettingsLayerSchema,
+  UnifiedSettings,
+  parseSettingsLayer,
+  resolveSettings,
+} from '@/types/settings.schema';
+
+const defaults: UnifiedSettings = {
+  ...SETTINGS_DEFAULTS,
+  fetchTrace: { enabled: false, includes: [], excludes: [] },
+  fetchCache: { enabled: false, ttl: 21600, maxSize: 1000, includes: [], excludes: [] },
+};
+
+describe('Settings Schema', () => {
+  describe('parseSettingsLayer', () => {
+    it('should keep valid values', () => {
+      const { layer, issues } = parseSettingsLayer(
+        {
+          version: 1,
+          preferences: { theme: 'dark', maxTurns: null },
+          fetchCache: { enabled: true, ttl: 60 },
+        },
+        'project'
+      );
+
+      expect(issues).toEqual([]);
+      expect(layer).toEqual({
+        preferences: { theme: 'dark', maxTurns: null },
+        fetchCache: { enabled: true, ttl: 60 },
+      });
+    });
+
+    it('should drop invalid values and keep the rest of the section', () => {
+      const { layer, issues } = parseSettingsLayer(
+        { preferences: { theme: 'purple', fontSize: 'large' } },
+        'project'
+      );
+
+      expect(layer).toEqual({ preferences: { fontSize: 'large' } });
+      expect(issues).toEqual([
+        expect.objectContaining({ source: 'project', key: 'preferences.theme' }),
+      ]);
+    });
+
+    it('should report unknown sections and keys unless told to ignore them', () => {
+      const raw = { preferences: { vimMode: true }, editor: {} };
+
+      expect(parseSettingsLayer(raw, 'project').issues.map((issue) => issue.key)).toEqual([
+        'preferences.vimMode',
+        'editor',
+      ]);
+      expect(parseSettingsLayer(raw, 'user', 'ignore').issues).toEqual([]);
+    });
+
+    it('should reject URL patterns containing commas', () => {
+      const { layer, issues } = parseSettingsLayer(
+        { fetchTrace: { includes: ['a.com,b.com'] } },
+        'user'
+      );
+
+      expect(layer).toEqual({});
+      expect(issues[0]?.message).toBe('URL patterns cannot contain commas');
+    });
+
+    it('should report a layer that is not an object', () => {
+      expect(parseSettingsLayer([], 'project').issues).toEqual([
+        { source: 'project', key: '', message: 'Settings must be a JSON object' },
+      ]);
+    });
+  });
+
+  describe('resolveSettings', () => {
+    it('should apply later layers over earlier ones and record the source', () => {
+      const { settings, sources } = resolveSettings(defaults, [
+        { source: 'user', layer: { preferences: { theme: 'dark', maxTurns: 20 } } },
+        { source: 'project', layer: { preferences: { maxTurns: 5 } } },
+        { source: 'session', layer: { preferences: { defaultPermissionMode: 'plan' } } },
+      ]);
+
+      expect(settings.preferences.theme).toBe('dark');
+      expect(settings.preferences.maxTurns).toBe(5);
+      expect(settings.preferences.defaultPermissionMode).toBe('plan');
+      expect(sources['preferences.theme']).toBe('user');
+      expect(sources['preferences.maxTurns']).toBe('project');
+      expect(sources['preferences.defaultPermissionMode']).toBe('session');
+      expect(sources['preferences.fontSize']).toBe('default');
+      expect(sources['fetchCache.ttl']).toBe('default');
+    });
+
+    it('should not modify the defaults', () => {
+      resolveSettings(defaults, [{ source: 'user', layer: { preferences: { theme: 'dark' } } }]);
+      expect(defaults.preferences.theme).toBe('system');
+    });
+  });
+
+  describe('SettingsLayerSchema', () => {
+    it('should accept an exported settings file', () => {
+      expect(
+        SettingsLayerSchema.safeParse({
+          version: 1,
+          preferences: { defaultModel: defaults.preferences.defaultModel },
+          ide: { preferredEditor: 'code' },
+        }).success
+      ).toBe(true);
+    });
+
+    it('should reject unknown keys', () => {
+      expect(SettingsLayerSchema.safeParse({ preferences: { vimMode: true } }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests for `@path#L10-40` and `@path#Symbol` mention parsing
+ */
+
+import { formatLineMention, parseCodeMentions } from '@/utils/codeMentions';
+
+describe('codeMentions', () => {
+  describe('parseCodeMentions', () => {
+    it('should parse line, line range and symbol mentions', () => {
+      expect(
+        parseCodeMentions(
+          'Compare @src/a.ts#L10-40 with @src/b.ts#L7, then fix @src/c.ts#MyClass.method.'
+        )
+      ).toEqual([
+        { raw: '@src/a.ts#L10-40', path: 'src/a.ts', lines: { start: 10, end: 40 } },
+        { raw: '@src/b.ts#L7', path: 'src/b.ts', lines: { start: 7, end: 7 } },
+        { raw: '@src/c.ts#MyClass.method', path: 'src/c.ts', symbol: 'MyClass.method' },
+      ]);
+    });
+
+    it('should accept reversed ranges and the L40-L10 form', () => {
+      expect(parseCodeMentions('@a.py#L40-L10')).toEqual([
+        { raw: '@a.py#L40-L10', path: 'a.py', lines: { start: 10, end: 40 } },
+      ]);
+    });
+
+    it('should list a repeated mention once', () => {
+      expect(parseCodeMentions('@a.ts#run and @a.ts#run')).toHaveLength(1);
+    });
+
+    it('should ignore plain file mentions and @ inside words', () => {
+      expect(parseCodeMentions('@src/a.ts, user@example.com#L1 and @a.ts#1x')).toEqual([]);
+    });
+  });
+
+  describe('formatLineMention', () => {
+    it('should format a line or a range', () => {
+      expect(formatLineMention('src/a.ts', 12)).toBe('@src/a.ts#L12');
+      expect(formatLineMention('src/a.ts', 12, 20)).toBe('@src/a.ts#L12-20');
+    });
+  });
+});
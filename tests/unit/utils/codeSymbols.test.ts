@@ -0,0 +1,261 @@
+/**
+ * Tests for the symbol parsers behind `@path#Symbol` mentions
+ */
+
+import { isSymbolFile, parseCodeSymbols, ParsedSymbol } from '@/utils/codeSymbols';
+
+const summarize = (symbols: ParsedSymbol[]) =>
+  symbols.map((symbol) => [symbol.qualifiedName, symbol.kind, symbol.startLine, symbol.endLine]);
+
+describe('codeSymbols', () => {
+  describe('isSymbolFile', () => {
+    it('should accept the supported languages only', () => {
+      expect(isSymbolFile('src/app.tsx')).toBe(true);
+      expect(isSymbolFile('scripts/build.MJS')).toBe(true);
+      expect(isSymbolFile('tools/main.py')).toBe(true);
+      expect(isSymbolFile('cmd/server.go')).toBe(true);
+      expect(isSymbolFile('README.md')).toBe(false);
+      expect(isSymbolFile('Makefile')).toBe(false);
+    });
+  });
+
+  describe('TypeScript', () => {
+    it('should find declarations and class members with their doc comments', async () => {
+      const content = [
+        "import { x } from './x';", // 1
+        '', // 2
+        '/**', // 3
+        ' * A greeter', // 4
+        ' */', // 5
+        'export class Greeter {', // 6
+        '  private name = "world";', // 7
+        '', // 8
+        '  constructor() {}', // 9
+        '', // 10
+        '  greet(): string {', // 11
+        '    return `hi ${this.name}`;', // 12
+        '  }', // 13
+        '', // 14
+        '  handle = () => this.greet();', // 15
+        '}', // 16
+        '', // 17
+        'export function main() {', // 18
+        '  const inner = 1;', // 19
+        '}', // 20
+        '', // 21
+        'export const helper = async () => {', // 22
+        '  return 1;', // 23
+        '};', // 24
+        '', // 25
+        'export interface Options {', // 26
+        '  verbose: boolean;', // 27
+        '}', // 28
+        'type Mode = "a" | "b";', // 29
+        'enum Color { Red }', // 30
+        'export const api = {', // 31
+        '  load() {},', // 32
+        '  count: 1,', // 33
+        '};', // 34
+        'namespace Utils {', // 35
+        '  export function pad() {}', // 36
+        '}', // 37
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('src/greeter.ts', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['Greeter', 'class', 3, 16],
+        ['Greeter.name', 'property', 7, 7],
+        ['Greeter.constructor', 'method', 9, 9],
+        ['Greeter.greet', 'method', 11, 13],
+        ['Greeter.handle', 'method', 15, 15],
+        ['main', 'function', 18, 20],
+        ['helper', 'function', 22, 24],
+        ['Options', 'interface', 26, 28],
+        ['Mode', 'type', 29, 29],
+        ['Color', 'enum', 30, 30],
+        ['api', 'variable', 31, 34],
+        ['api.load', 'method', 32, 32],
+        ['Utils', 'namespace', 35, 37],
+        ['Utils.pad', 'function', 36, 36],
+      ]);
+      expect(symbols[3].name).toBe('greet');
+    });
+
+    it('should parse JSX', async () => {
+      const content = 'export const App = () => (\n  <div>{1}</div>\n);\n';
+
+      const symbols = await parseCodeSymbols('src/App.jsx', content);
+
+      expect(summarize(symbols)).toEqual([['App', 'function', 1, 3]]);
+    });
+  });
+
+  describe('Python', () => {
+    it('should find classes, methods and functions by indentation', async () => {
+      const content = [
+        'import os', // 1
+        '', // 2
+        '@dataclass', // 3
+        'class Config:', // 4
+        '    """Settings', // 5
+        'kept at column zero', // 6
+        '    """', // 7
+        '', // 8
+        '    def load(self):', // 9
+        '        def helper():', // 10
+        '            pass', // 11
+        '        return helper()', // 12
+        '', // 13
+        '    async def save(self):', // 14
+        '        pass', // 15
+        '', // 16
+        '', // 17
+        'def main():', // 18
+        '    Config().load()', // 19
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('app/config.py', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['Config', 'class', 3, 15],
+        ['Config.load', 'method', 9, 12],
+        ['Config.save', 'method', 14, 15],
+        ['main', 'function', 18, 19],
+      ]);
+    });
+  });
+
+  describe('Go', () => {
+    it('should qualify methods with their receiver type', async () => {
+      const content = [
+        'package server', // 1
+        '', // 2
+        '// Server serves requests', // 3
+        'type Server struct {', // 4
+        '\taddr string', // 5
+        '}', // 6
+        '', // 7
+        'type ID string', // 8
+        '', // 9
+        'func (s *Server) Start(ctx context.Context) error {', // 10
+        '\tif s.addr == "}" {', // 11
+        '\t\treturn nil', // 12
+        '\t}', // 13
+        '\treturn nil', // 14
+        '}', // 15
+        '', // 16
+        'func New(', // 17
+        '\taddr string,', // 18
+        ') *Server {', // 19
+        '\treturn &Server{addr: addr}', // 20
+        '}', // 21
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('server.go', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['Server', 'class', 3, 6],
+        ['ID', 'type', 8, 8],
+        ['Server.Start', 'method', 10, 15],
+        ['New', 'function', 17, 21],
+      ]);
+    });
+  });
+
+  describe('Rust', () => {
+    it('should qualify functions in impl blocks and traits', async () => {
+      const content = [
+        '/// A point', // 1
+        '#[derive(Debug)]', // 2
+        'pub struct Point {', // 3
+        '    x: i32,', // 4
+        '}', // 5
+        '', // 6
+        "impl<'a> fmt::Display for Point {", // 7
+        "    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {", // 8
+        '        write!(f, "{}", \'{\')', // 9
+        '    }', // 10
+        '}', // 11
+        '', // 12
+        'pub trait Shape {', // 13
+        '    fn area(&self) -> f64;', // 14
+        '}', // 15
+        '', // 16
+        'pub(crate) async fn run() {', // 17
+        '    fn nested() {}', // 18
+        '}', // 19
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('src/point.rs', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['Point', 'class', 1, 5],
+        ['Point.fmt', 'method', 8, 10],
+        ['Shape', 'interface', 13, 15],
+        ['Shape.area', 'method', 14, 14],
+        ['run', 'function', 17, 19],
+      ]);
+    });
+  });
+
+  describe('Java and C#', () => {
+    it('should find classes, constructors and methods', async () => {
+      const content = [
+        'package app;', // 1
+        '', // 2
+        'public class UserService {', // 3
+        '    private final Map<String, User> users = new HashMap<>();', // 4
+        '', // 5
+        '    public UserService() {', // 6
+        '    }', // 7
+        '', // 8
+        '    /** Finds a user */', // 9
+        '    @Override', // 10
+        '    public Map<String, User> find(String id) {', // 11
+        '        if (id == null) {', // 12
+        '            return null;', // 13
+        '        }', // 14
+        '        return users;', // 15
+        '    }', // 16
+        '}', // 17
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('src/UserService.java', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['UserService', 'class', 3, 17],
+        ['UserService.UserService', 'method', 6, 7],
+        ['UserService.find', 'method', 9, 16],
+      ]);
+    });
+
+    it('should qualify C# members with their namespace', async () => {
+      const content = [
+        'namespace App.Services', // 1
+        '{', // 2
+        '    [Serializable]', // 3
+        '    public sealed class Cache', // 4
+        '    {', // 5
+        '        public async Task<int> Count()', // 6
+        '        {', // 7
+        '            return 0;', // 8
+        '        }', // 9
+        '    }', // 10
+        '}', // 11
+      ].join('\n');
+
+      const symbols = await parseCodeSymbols('Cache.cs', content);
+
+      expect(summarize(symbols)).toEqual([
+        ['App.Services', 'namespace', 1, 11],
+        ['App.Services.Cache', 'class', 3, 10],
+        ['App.Services.Cache.Count', 'method', 6, 9],
+      ]);
+    });
+  });
+
+  it('should return no symbols for other files', async () => {
+    expect(await parseCodeSymbols('notes.txt', 'class Foo {}')).toEqual([]);
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { getScopedData, getScopedMcpConfig } from '@/utils/scopedConfig';
+import { execFileSync } from 'child_process';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
@@ -222,7 +223,80 @@ describe('scopedConfig', () => {
 
       mockHomedir.mockRestore();
 
-      expect(result).toEqual(config);
+      expect(result).toEqual({ ...config, userOwnedServers: [] });
+    });
+
+    describe('userOwnedServers', () => {
+      const projectRoot = () => path.join(tempDir, 'project');
+      const git = (...args: string[]) =>
+        execFileSync(
+          'git',
+          ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+          {
+            cwd: projectRoot(),
+            stdio: 'ignore',
+          }
+        );
+      const writeConfig = (dir: string, mcpServers: Record<string, any>) =>
+        fs.writeFile(path.join(dir, '.mcp.json'), JSON.stringify({ mcpServers }));
+
+      const loadOwnedServers = async () => {
+        const mockHomedir = os.homedir as jest.MockedFunction<typeof os.homedir>;
+        mockHomedir.mockReturnValue(path.join(tempDir, 'global'));
+        const result = await getScopedMcpConfig({ cwd: projectRoot() });
+        mockHomedir.mockRestore();
+        return result.userOwnedServers;
+      };
+
+      beforeEach(async () => {
+        git('init', '-q');
+        await fs.writeFile(path.join(projectRoot(), '.gitignore'), '.claude.local/\n');
+      });
+
+      it('should own servers defined only in the global config', async () => {
+        await writeConfig(globalDir, { mine: { command: 'srv' } });
+        await writeConfig(projectDir, { theirs: { command: 'srv' } });
+
+        expect(await loadOwnedServers()).toEqual(['mine']);
+      });
+
+      it('should not own a global server whose url a project config overrides', async () => {
+        await writeConfig(globalDir, {
+          api: { type: 'http', url: 'https://api.example.com', headers: { A: '${secret:A}' } },
+        });
+        await writeConfig(projectDir, { api: { url: 'https://evil.example.com' } });
+
+        expect(await loadOwnedServers()).toEqual([]);
+      });
+
+      it('should own a global server the project only adds env values to', async () => {
+        await writeConfig(globalDir, { mine: { command: 'srv', args: ['--stdio'] } });
+        await writeConfig(projectRoot(), { mine: { env: { DEBUG: '1' } } });
+
+        expect(await loadOwnedServers()).toEqual(['mine']);
+      });
+
+      it('should own servers from a git-ignored .claude.local config', async () => {
+        await writeConfig(projectRoot(), { api: { url: 'https://evil.example.com' } });
+        await writeConfig(userDir, { api: { url: 'https://api.example.com' } });
+
+        expect(await loadOwnedServers()).toEqual(['api']);
+      });
+
+      it('should not own servers from a committed .claude.local config', async () => {
+        await writeConfig(userDir, { api: { url: 'https://evil.example.com' } });
+        git('add', '-f', '.claude.local/.mcp.json');
+        git('commit', '-q', '-m', 'Add local config');
+
+        expect(await loadOwnedServers()).toEqual([]);
+      });
+
+      it('should not own servers from .claude.local outside a git repository', async () => {
+        await fs.rm(path.join(projectRoot(), '.git'), { recursive: true, force: true });
+        await writeConfig(userDir, { api: { url: 'https://api.example.com' } });
+
+        expect(await loadOwnedServers()).toEqual([]);
+      });
     });
   });
 });
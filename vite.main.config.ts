@@ -52,6 +52,7 @@ export default defineConfig(({ mode }) => {
           '@anthropic-ai/sdk',
           '@anthropic-ai/claude-agent-sdk',
           'fix-path',
+          'typescript',
           ...builtinModules,
           ...builtinModules.map((m) => `node:${m}`),
         ],